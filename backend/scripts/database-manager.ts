@@ -9,6 +9,10 @@ import {
   ChartConfig,
   User,
   MarketSession,
+  FetchSchedule,
+  FetchRun,
+  FetchRunPage,
+  UserSecret,
 } from '../src/entities';
 
 class DatabaseManager {
@@ -20,7 +24,7 @@ class DatabaseManager {
     
     this.dataSource = new DataSource({
       ...options,
-      entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession],
+      entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession, FetchSchedule, FetchRun, FetchRunPage, UserSecret],
       migrations: ['src/migrations/*.ts'],
       migrationsRun: false,
     } as any);
@@ -7,6 +7,10 @@ import {
   ChartConfig,
   User,
   MarketSession,
+  FetchSchedule,
+  FetchRun,
+  FetchRunPage,
+  UserSecret,
 } from '../src/entities';
 
 // MySQL 数据源配置
@@ -17,7 +21,7 @@ const mysqlDataSource = new DataSource({
   username: process.env.MYSQL_USERNAME || 'root',
   password: process.env.MYSQL_PASSWORD || '',
   database: process.env.MYSQL_DATABASE || 'data_fetch_analysis',
-  entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession],
+  entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession, FetchSchedule, FetchRun, FetchRunPage, UserSecret],
   synchronize: false,
   logging: true,
 });
@@ -30,7 +34,7 @@ const postgresDataSource = new DataSource({
   username: process.env.DB_USERNAME || 'cuijiudai',
   password: process.env.DB_PASSWORD || '',
   database: process.env.DB_DATABASE || 'data_fetch_analysis',
-  entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession],
+  entities: [DataSession, FetchConfig, DataTableSchema, FieldAnnotation, ChartConfig, User, MarketSession, FetchSchedule, FetchRun, FetchRunPage, UserSecret],
   synchronize: false,
   logging: true,
   ssl: false,
@@ -60,6 +64,10 @@ class DataMigrator {
     
     // 按依赖关系逆序清空表
     const entities = [
+      FetchRunPage,
+      FetchRun,
+      FetchSchedule,
+      UserSecret,
       MarketSession,
       ChartConfig,
       FieldAnnotation,
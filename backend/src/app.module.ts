@@ -7,8 +7,12 @@ import { DataSessionModule } from "./modules/data-session/data-session.module";
 import { DataFetchModule } from "./modules/data-fetch/data-fetch.module";
 import { FieldAnnotationModule } from "./modules/field-annotation/field-annotation.module";
 import { DataAnalysisModule } from "./modules/data-analysis/data-analysis.module";
+import { DataExportModule } from "./modules/data-export/data-export.module";
 import { AuthModule } from "./modules/auth/auth.module";
 import { MarketModule } from "./modules/market/market.module";
+import { FetchScheduleModule } from "./modules/fetch-schedule/fetch-schedule.module";
+import { SecretModule } from "./modules/secret/secret.module";
+import { WorkspaceModule } from "./modules/workspace/workspace.module";
 import { HealthController } from "./health/health.controller";
 
 @Module({
@@ -24,8 +28,12 @@ import { HealthController } from "./health/health.controller";
     DataFetchModule,
     FieldAnnotationModule,
     DataAnalysisModule,
+    DataExportModule,
     AuthModule,
     MarketModule,
+    FetchScheduleModule,
+    SecretModule,
+    WorkspaceModule,
   ],
   controllers: [HealthController],
   providers: [DatabaseInitService],
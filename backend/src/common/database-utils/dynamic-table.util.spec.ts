@@ -0,0 +1,145 @@
+import { DataSource } from 'typeorm';
+import { DynamicTableUtil } from './dynamic-table.util';
+
+describe('DynamicTableUtil', () => {
+  describe('widenType', () => {
+    it('类型一致或已是 TEXT 时应该保持不变', () => {
+      expect(DynamicTableUtil.widenType('DOUBLE', 'DOUBLE')).toBe('DOUBLE');
+      expect(DynamicTableUtil.widenType('TEXT', 'DOUBLE')).toBe('TEXT');
+    });
+
+    it('BOOLEAN 与 DOUBLE 混合时应该放宽为 DOUBLE', () => {
+      expect(DynamicTableUtil.widenType('BOOLEAN', 'DOUBLE')).toBe('DOUBLE');
+      expect(DynamicTableUtil.widenType('DOUBLE', 'BOOLEAN')).toBe('DOUBLE');
+    });
+
+    it('其余不一致的类型应该放宽为 TEXT', () => {
+      expect(DynamicTableUtil.widenType('DOUBLE', 'TEXT')).toBe('TEXT');
+      expect(DynamicTableUtil.widenType('JSON', 'DOUBLE')).toBe('TEXT');
+    });
+  });
+
+  describe('detectSchemaDrift', () => {
+    const fieldDefinitions = {
+      id: { type: 'DOUBLE', nullable: false },
+      active: { type: 'BOOLEAN', nullable: true },
+    };
+
+    it('数据结构未变化时不应该产生变更', () => {
+      const result = DynamicTableUtil.detectSchemaDrift(fieldDefinitions, [
+        { id: 1, active: true },
+        { id: 2, active: null },
+      ]);
+
+      expect(result.changes).toEqual([]);
+      expect(result.fieldDefinitions).toEqual(fieldDefinitions);
+    });
+
+    it('应该识别新增字段和需要放宽的类型', () => {
+      const result = DynamicTableUtil.detectSchemaDrift(fieldDefinitions, [
+        { id: 'A-1', active: 1, email: 'a@example.com' },
+        { id: 2, active: false, remark: null },
+      ]);
+
+      expect(result.changes).toEqual([
+        { field: 'id', action: 'widen_type', fromType: 'DOUBLE', toType: 'TEXT' },
+        { field: 'active', action: 'widen_type', fromType: 'BOOLEAN', toType: 'DOUBLE' },
+        { field: 'email', action: 'add_column', toType: 'TEXT' },
+        { field: 'remark', action: 'add_column', toType: 'TEXT' },
+      ]);
+      expect(result.fieldDefinitions.id).toEqual({ type: 'TEXT', nullable: true });
+      expect(result.fieldDefinitions.email).toEqual({ type: 'TEXT', nullable: true });
+    });
+  });
+
+  describe('explodeNestedArrays', () => {
+    it('应该拆分嵌套数组并从父记录中移除该字段', () => {
+      const order = { id: 1, detail: { lines: [{ sku: 'a' }, 'gift'], note: 'x' } };
+
+      const result = DynamicTableUtil.explodeNestedArrays(
+        [order, { id: 2, detail: { note: 'y' } }],
+        [{ path: 'detail.lines', name: 'order_lines' }],
+      );
+
+      expect(result.parentRecords).toEqual([
+        { id: 1, detail: { note: 'x' } },
+        { id: 2, detail: { note: 'y' } },
+      ]);
+      expect(result.children[0]).toEqual({
+        field: { path: 'detail.lines', name: 'order_lines' },
+        rows: [{ sku: 'a' }, { value: 'gift' }],
+        parentIndexes: [0, 0],
+        positions: [0, 1],
+      });
+      expect(order.detail.lines).toHaveLength(2);
+    });
+
+    it('未配置拆分字段时应该原样返回', () => {
+      const data = [{ id: 1, lines: [{ sku: 'a' }] }];
+
+      expect(DynamicTableUtil.explodeNestedArrays(data)).toEqual({ parentRecords: data, children: [] });
+    });
+  });
+
+  describe('generateChildDataHash', () => {
+    it('不同父记录下内容相同的子表行应该生成不同的哈希', () => {
+      const row = { sku: 'a', qty: 1 };
+
+      expect(DynamicTableUtil.generateChildDataHash(row, { parentRowId: 1, position: 0 })).not.toBe(
+        DynamicTableUtil.generateChildDataHash(row, { parentRowId: 2, position: 0 }),
+      );
+      expect(DynamicTableUtil.generateChildDataHash(row, { parentRowId: 1, position: 0 })).toBe(
+        DynamicTableUtil.generateChildDataHash({ qty: 1, sku: 'a' }, { parentRowId: 1, position: 0 }),
+      );
+    });
+  });
+
+  describe('applySchemaChanges', () => {
+    it('应该新增列并放宽列类型', async () => {
+      const query = jest.fn().mockResolvedValue(undefined);
+      const dataSource: Partial<DataSource> = { query };
+
+      await DynamicTableUtil.applySchemaChanges(dataSource as DataSource, 'data_session_1', [
+        { field: 'email', action: 'add_column', toType: 'TEXT' },
+        { field: 'id', action: 'widen_type', fromType: 'DOUBLE', toType: 'TEXT' },
+      ]);
+
+      expect(query).toHaveBeenNthCalledWith(
+        1,
+        'ALTER TABLE `data_session_1` ADD COLUMN `email` TEXT NULL',
+      );
+      expect(query).toHaveBeenNthCalledWith(
+        2,
+        'ALTER TABLE `data_session_1` MODIFY COLUMN `data_id` TEXT NULL',
+      );
+    });
+
+    it('列已存在时应该改为修改列类型', async () => {
+      const query = jest
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Duplicate column name'), { code: 'ER_DUP_FIELDNAME' }))
+        .mockResolvedValueOnce(undefined);
+      const dataSource: Partial<DataSource> = { query };
+
+      await DynamicTableUtil.applySchemaChanges(dataSource as DataSource, 'data_session_1', [
+        { field: 'email', action: 'add_column', toType: 'TEXT' },
+      ]);
+
+      expect(query).toHaveBeenLastCalledWith(
+        'ALTER TABLE `data_session_1` MODIFY COLUMN `email` TEXT NULL',
+      );
+    });
+
+    it('其他 DDL 错误应该直接抛出', async () => {
+      const query = jest.fn().mockRejectedValue(Object.assign(new Error('Table is locked'), { code: 'ER_LOCK_WAIT_TIMEOUT' }));
+      const dataSource: Partial<DataSource> = { query };
+
+      await expect(
+        DynamicTableUtil.applySchemaChanges(dataSource as DataSource, 'data_session_1', [
+          { field: 'email', action: 'add_column', toType: 'TEXT' },
+        ]),
+      ).rejects.toThrow('Table is locked');
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
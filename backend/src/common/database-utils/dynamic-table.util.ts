@@ -1,13 +1,49 @@
+import { Logger } from '@nestjs/common';
 import { DataSource } from 'typeorm';
 import { createHash } from 'crypto';
-import { FieldDefinitions } from '../../entities/data-table-schema.entity';
+import { FieldDefinitions, SchemaChange } from '../../entities/data-table-schema.entity';
+import { ExplodeField } from '../../entities/fetch-config.entity';
+
+export interface InsertBatchResult {
+  insertedCount: number;
+  duplicateCount: number; // 因 data_hash 唯一键冲突而跳过的记录数
+}
+
+export interface SchemaDriftResult {
+  fieldDefinitions: FieldDefinitions; // 合并后的字段定义
+  changes: SchemaChange[];
+}
+
+// 子表行与父表行的关联：父表行ID及该行在父记录数组中的位置
+export interface ChildRowLink {
+  parentRowId: number;
+  position: number;
+}
+
+export interface ExplodedChildRows {
+  field: ExplodeField;
+  rows: any[];
+  parentIndexes: number[]; // 每一行对应的父记录在批次中的下标
+  positions: number[]; // 每一行在父记录数组中的位置
+}
+
+export interface ExplodeResult {
+  parentRecords: any[]; // 移除了拆分字段的父记录
+  children: ExplodedChildRows[];
+}
 
 export class DynamicTableUtil {
+  private static readonly logger = new Logger(DynamicTableUtil.name);
+
+  // 子表中关联父表行ID的系统字段
+  static readonly PARENT_ROW_ID_COLUMN = 'parent_row_id';
+
   /**
-   * 根据会话ID生成动态表名
+   * 根据会话ID生成动态表名，非默认数据源追加 __<数据源名称> 后缀
    */
-  static generateTableName(sessionId: string): string {
-    return `data_${sessionId.replace(/-/g, '_')}`;
+  static generateTableName(sessionId: string, sourceName?: string): string {
+    const baseName = `data_${sessionId.replace(/-/g, '_')}`;
+    return sourceName && sourceName !== 'main' ? `${baseName}__${sourceName}` : baseName;
   }
 
   /**
@@ -68,6 +104,11 @@ export class DynamicTableUtil {
       return null;
     }
 
+    // 日期交给驱动按连接时区写入 DATETIME 列
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? null : value;
+    }
+
     // 处理对象类型
     if (typeof value === 'object') {
       try {
@@ -217,14 +258,198 @@ export class DynamicTableUtil {
     return fieldDefinitions;
   }
 
+  /**
+   * 计算同时容纳两种类型的列类型
+   * 只做不丢数据的放宽：BOOLEAN 可放宽为 DOUBLE，其余不一致的类型统一放宽为 TEXT
+   */
+  static widenType(currentType: string, incomingType: string): string {
+    if (currentType === incomingType || currentType === 'TEXT') {
+      return currentType;
+    }
+    if (currentType === 'DOUBLE' && incomingType === 'BOOLEAN') {
+      return currentType;
+    }
+    if (currentType === 'BOOLEAN' && incomingType === 'DOUBLE') {
+      return 'DOUBLE';
+    }
+    return 'TEXT';
+  }
+
+  /**
+   * 对比已有字段定义与新一页数据，找出需要新增的字段和需要放宽的类型
+   * 空值不参与类型判断，全部为空的新字段按 TEXT 处理
+   */
+  static detectSchemaDrift(
+    fieldDefinitions: FieldDefinitions,
+    dataArray: any[],
+  ): SchemaDriftResult {
+    const observedTypes: { [fieldName: string]: string | null } = {};
+
+    dataArray.forEach((item) => {
+      if (typeof item !== 'object' || item === null) {
+        return;
+      }
+      Object.keys(item).forEach((fieldName) => {
+        const value = item[fieldName];
+        const previousType = observedTypes[fieldName] ?? null;
+        if (value === null || value === undefined) {
+          observedTypes[fieldName] = previousType;
+          return;
+        }
+        const valueType = this.inferMySQLType(value);
+        observedTypes[fieldName] = previousType
+          ? this.widenType(previousType, valueType)
+          : valueType;
+      });
+    });
+
+    const merged: FieldDefinitions = { ...fieldDefinitions };
+    const changes: SchemaChange[] = [];
+
+    Object.entries(observedTypes).forEach(([fieldName, observedType]) => {
+      const existing = fieldDefinitions[fieldName];
+
+      if (!existing) {
+        const toType = observedType || 'TEXT';
+        merged[fieldName] = { type: toType, nullable: true };
+        changes.push({ field: fieldName, action: 'add_column', toType });
+        return;
+      }
+
+      if (!observedType) {
+        return;
+      }
+
+      const widenedType = this.widenType(existing.type, observedType);
+      if (widenedType !== existing.type) {
+        merged[fieldName] = { ...existing, type: widenedType, nullable: true };
+        changes.push({
+          field: fieldName,
+          action: 'widen_type',
+          fromType: existing.type,
+          toType: widenedType,
+        });
+      }
+    });
+
+    return { fieldDefinitions: merged, changes };
+  }
+
+  /**
+   * 将表结构变更应用到动态表：ADD COLUMN 新增字段，MODIFY COLUMN 放宽类型
+   * DDL 不随拉取事务回滚，失败的运行可能已留下新增的列，此时改为 MODIFY COLUMN
+   */
+  static async applySchemaChanges(
+    dataSource: DataSource,
+    tableName: string,
+    changes: SchemaChange[],
+  ): Promise<void> {
+    for (const change of changes) {
+      const columnDefinition = `\`${this.getSafeFieldName(change.field)}\` ${change.toType} NULL`;
+
+      if (change.action === 'add_column') {
+        try {
+          await dataSource.query(`ALTER TABLE \`${tableName}\` ADD COLUMN ${columnDefinition}`);
+          continue;
+        } catch (error) {
+          if (error.code !== 'ER_DUP_FIELDNAME') {
+            throw error;
+          }
+        }
+      }
+
+      await dataSource.query(`ALTER TABLE \`${tableName}\` MODIFY COLUMN ${columnDefinition}`);
+    }
+
+    if (changes.length > 0) {
+      this.logger.log(`动态表 ${tableName} 结构已更新: ${changes.map((change) => change.field).join(', ')}`);
+    }
+  }
+
+  /**
+   * 按配置将记录中的嵌套对象数组拆分出来，父记录中移除对应字段
+   * 数组元素不是对象时以 { value } 的形式写入子表
+   */
+  static explodeNestedArrays(dataArray: any[], explodeFields: ExplodeField[] = []): ExplodeResult {
+    if (explodeFields.length === 0) {
+      return { parentRecords: dataArray, children: [] };
+    }
+
+    const children: ExplodedChildRows[] = explodeFields.map((field) => ({
+      field,
+      rows: [],
+      parentIndexes: [],
+      positions: [],
+    }));
+
+    const parentRecords = dataArray.map((item, parentIndex) => {
+      if (typeof item !== 'object' || item === null) {
+        return item;
+      }
+
+      let record = item;
+      children.forEach((child) => {
+        const segments = child.field.path.split('.');
+        const value = segments.reduce(
+          (current, segment) => (current && typeof current === 'object' ? current[segment] : undefined),
+          record,
+        );
+        if (!Array.isArray(value)) {
+          return;
+        }
+
+        value.forEach((element, position) => {
+          child.rows.push(typeof element === 'object' && element !== null && !Array.isArray(element)
+            ? element
+            : { value: element });
+          child.parentIndexes.push(parentIndex);
+          child.positions.push(position);
+        });
+        record = this.omitPath(record, segments);
+      });
+      return record;
+    });
+
+    return { parentRecords, children };
+  }
+
+  /**
+   * 返回移除了指定路径字段的记录副本，沿路径的对象逐层浅拷贝，不修改原记录
+   */
+  private static omitPath(record: any, segments: string[]): any {
+    const [segment, ...rest] = segments;
+    if (typeof record !== 'object' || record === null || !(segment in record)) {
+      return record;
+    }
+
+    const copy = { ...record };
+    if (rest.length === 0) {
+      delete copy[segment];
+    } else {
+      copy[segment] = this.omitPath(record[segment], rest);
+    }
+    return copy;
+  }
+
+  /**
+   * 生成子表行的哈希值，包含父表行ID和数组位置，使不同父记录下内容相同的行不会被当作重复
+   */
+  static generateChildDataHash(data: any, link: ChildRowLink): string {
+    return createHash('sha256')
+      .update(`${link.parentRowId}:${link.position}:${this.generateDataHash(data)}`)
+      .digest('hex');
+  }
+
   /**
    * 创建动态数据表
+   * 子表额外包含 parent_row_id 字段及其索引，用于关联父表行
    */
   static async createDynamicTable(
     dataSource: DataSource,
     tableName: string,
     fieldDefinitions: FieldDefinitions,
     sessionId: string,
+    options: { childTable?: boolean } = {},
   ): Promise<void> {
     const queryRunner = dataSource.createQueryRunner();
     
@@ -240,6 +465,9 @@ export class DynamicTableUtil {
         '`data_index` INT NOT NULL',
         '`data_hash` VARCHAR(64) NOT NULL COMMENT \'数据内容的哈希值，用于去重\'',
       ];
+      if (options.childTable) {
+        columns.push(`\`${this.PARENT_ROW_ID_COLUMN}\` BIGINT NOT NULL COMMENT '父表行ID'`);
+      }
 
       // 添加动态字段，避免与系统字段冲突
       Object.entries(fieldDefinitions).forEach(([fieldName, definition]) => {
@@ -254,6 +482,9 @@ export class DynamicTableUtil {
       });
 
       columns.push('`created_at` TIMESTAMP DEFAULT CURRENT_TIMESTAMP');
+      if (options.childTable) {
+        columns.push(`INDEX \`idx_parent_row\` (\`${this.PARENT_ROW_ID_COLUMN}\`)`);
+      }
 
       const createTableSQL = `
         CREATE TABLE IF NOT EXISTS \`${tableName}\` (
@@ -301,6 +532,7 @@ export class DynamicTableUtil {
 
   /**
    * 批量插入数据到动态表
+   * 写入子表时传入与 data 一一对应的 childLinks，记录父表行ID
    */
   static async insertDataBatch(
     dataSource: DataSource,
@@ -308,9 +540,10 @@ export class DynamicTableUtil {
     data: any[],
     sessionId: string,
     pageNumber: number,
-  ): Promise<void> {
+    childLinks?: ChildRowLink[],
+  ): Promise<InsertBatchResult> {
     if (!data || data.length === 0) {
-      return;
+      return { insertedCount: 0, duplicateCount: 0 };
     }
 
     const queryRunner = dataSource.createQueryRunner();
@@ -321,16 +554,22 @@ export class DynamicTableUtil {
 
       // 系统保留字段
       const systemFields = ['id', 'session_id', 'page_number', 'data_index', 'data_hash', 'created_at'];
+      if (childLinks) {
+        systemFields.push(this.PARENT_ROW_ID_COLUMN);
+      }
       
-      // 获取原始数据字段名（排除系统字段）
-      const originalDataFields = Object.keys(data[0]).filter(field => !systemFields.includes(field));
+      // 获取本批数据出现过的全部字段名（排除系统字段），缺失的字段按 NULL 写入
+      const originalDataFields = Array.from(
+        new Set(data.flatMap(item => (item && typeof item === 'object' ? Object.keys(item) : [])))
+      ).filter(field => !systemFields.includes(field));
       
       // 构建安全的字段名映射（与创建表时的逻辑保持一致）
       const safeFieldMapping = this.buildFieldMapping(originalDataFields);
       const safeFields = originalDataFields.map(field => safeFieldMapping[field]);
       
       // 构建INSERT IGNORE语句，使用安全的字段名，包含data_hash字段
-      const allFields = ['session_id', 'page_number', 'data_index', 'data_hash', ...safeFields];
+      const linkFields = childLinks ? [this.PARENT_ROW_ID_COLUMN] : [];
+      const allFields = ['session_id', 'page_number', 'data_index', 'data_hash', ...linkFields, ...safeFields];
       const placeholders = allFields.map(() => '?').join(', ');
       
       const insertSQL = `
@@ -344,13 +583,17 @@ export class DynamicTableUtil {
       
       for (let i = 0; i < data.length; i++) {
         const item = data[i];
-        const dataHash = this.generateDataHash(item);
+        const dataHash = childLinks
+          ? this.generateChildDataHash(item, childLinks[i])
+          : this.generateDataHash(item);
+        const linkValues = childLinks ? [childLinks[i].parentRowId] : [];
         
         const values = [
           sessionId,
           pageNumber,
           i,
           dataHash,
+          ...linkValues,
           ...originalDataFields.map(field => {
             const value = item[field];
             return this.validateAndCleanValue(value, field);
@@ -382,6 +625,7 @@ export class DynamicTableUtil {
               pageNumber,
               i,
               dataHash,
+              ...linkValues,
               ...originalDataFields.map(field => {
                 const value = item[field];
                 // 将所有非null值转换为字符串
@@ -413,6 +657,8 @@ export class DynamicTableUtil {
 
       await queryRunner.commitTransaction();
       console.log(`数据插入完成 - 表: ${tableName}, 新增: ${insertedCount} 条, 重复跳过: ${duplicateCount} 条, 总处理: ${data.length} 条`);
+
+      return { insertedCount, duplicateCount };
     } catch (error) {
       await queryRunner.rollbackTransaction();
       console.error(`插入数据到表 ${tableName} 失败:`, error);
@@ -1,3 +1,3 @@
-export { DynamicTableUtil } from './dynamic-table.util';
+export { DynamicTableUtil, InsertBatchResult, SchemaDriftResult, ChildRowLink, ExplodeResult, ExplodedChildRows } from './dynamic-table.util';
 export { DatabaseInitService } from './database-init.service';
 export { DynamicTableService, TableCreationResult, TableInfo } from './dynamic-table.service';
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { HttpService } from '@nestjs/axios';
-import { of, throwError } from 'rxjs';
+import { defer, of, throwError } from 'rxjs';
+import { delay, finalize } from 'rxjs/operators';
 import { AxiosResponse } from 'axios';
-import { HttpClientService } from './http-client.service';
+import { HttpClientService, AuthType } from './http-client.service';
 
 describe('HttpClientService', () => {
   let service: HttpClientService;
@@ -72,6 +73,237 @@ describe('HttpClientService', () => {
     });
   });
 
+  describe('rateLimit', () => {
+    const okResponse = {
+      data: {},
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {},
+    } as AxiosResponse;
+
+    it('遇到429时应该按Retry-After等待后重试', async () => {
+      const sleepSpy = jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      mockHttpService.request
+        .mockReturnValueOnce(
+          of({ ...okResponse, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '2' } }),
+        )
+        .mockReturnValueOnce(of(okResponse));
+
+      const result = await service.request({ url: 'https://api.example.com/test' });
+
+      expect(result.status).toBe(200);
+      expect(mockHttpService.request).toHaveBeenCalledTimes(2);
+      expect(sleepSpy).toHaveBeenCalledWith(2000);
+    });
+
+    it('网络错误时应该按指数退避重试', async () => {
+      const sleepSpy = jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      mockHttpService.request
+        .mockReturnValueOnce(throwError(() => new Error('socket hang up')))
+        .mockReturnValueOnce(throwError(() => new Error('socket hang up')))
+        .mockReturnValueOnce(of(okResponse));
+
+      await service.request({
+        url: 'https://api.example.com/test',
+        rateLimit: { initialBackoffMs: 100, maxRetries: 2 },
+      });
+
+      expect(sleepSpy.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+    });
+
+    it('超过最大重试次数后应该抛出429错误', async () => {
+      jest.spyOn(service as any, 'sleep').mockResolvedValue(undefined);
+      mockHttpService.request.mockReturnValue(
+        of({ ...okResponse, status: 429, statusText: 'Too Many Requests' }),
+      );
+
+      await expect(
+        service.request({ url: 'https://api.example.com/test', rateLimit: { maxRetries: 1 } }),
+      ).rejects.toThrow('HTTP 429');
+      expect(mockHttpService.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('应该限制同一限流键下的最大并发数', async () => {
+      let active = 0;
+      let maxActive = 0;
+      mockHttpService.request.mockImplementation(() =>
+        defer(() => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          return of(okResponse).pipe(
+            delay(10),
+            finalize(() => active--),
+          );
+        }),
+      );
+
+      const options = {
+        url: 'https://api.example.com/test',
+        rateLimit: { maxConcurrency: 1 },
+        rateLimitKey: 'session-1',
+      };
+      await Promise.all([service.request(options), service.request(options), service.request(options)]);
+
+      expect(mockHttpService.request).toHaveBeenCalledTimes(3);
+      expect(maxActive).toBe(1);
+    });
+
+    it('应该按每秒请求数错开请求', async () => {
+      mockHttpService.request.mockReturnValue(of(okResponse));
+
+      const options = {
+        url: 'https://api.example.com/test',
+        rateLimit: { requestsPerSecond: 20 },
+        rateLimitKey: 'session-2',
+      };
+      const startTime = Date.now();
+      await Promise.all([service.request(options), service.request(options), service.request(options)]);
+
+      // 20次/秒即每50ms一次，第三个请求至少等待100ms
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(90);
+    });
+  });
+
+  describe('auth', () => {
+    const okResponse = {
+      data: {},
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      config: {},
+    } as AxiosResponse;
+    const tokenResponse = (accessToken: string) =>
+      of({ ...okResponse, data: { access_token: accessToken, expires_in: 3600 } });
+    const oauth2 = {
+      type: AuthType.OAUTH2_CLIENT_CREDENTIALS,
+      tokenUrl: 'https://auth.example.com/oauth/token',
+      clientId: 'client-1',
+      clientSecret: 'secret-1',
+      scope: 'read',
+    };
+
+    it('应该添加 Basic 认证请求头', async () => {
+      mockHttpService.request.mockReturnValue(of(okResponse));
+
+      await service.request({
+        url: 'https://api.example.com/test',
+        auth: { type: AuthType.BASIC, username: 'user', password: 'pass' },
+      });
+
+      expect(mockHttpService.request.mock.calls[0][0].headers.Authorization).toBe(
+        `Basic ${Buffer.from('user:pass').toString('base64')}`,
+      );
+    });
+
+    it('API Key 放在查询参数时应该合并到请求参数', async () => {
+      mockHttpService.request.mockReturnValue(of(okResponse));
+
+      await service.request({
+        url: 'https://api.example.com/test',
+        params: { page: 1 },
+        auth: { type: AuthType.API_KEY, apiKeyName: 'key', apiKey: 'abc', apiKeyLocation: 'query' },
+      });
+
+      expect(mockHttpService.request.mock.calls[0][0].params).toEqual({ page: 1, key: 'abc' });
+    });
+
+    it('OAuth2 应该获取令牌并在后续请求中复用缓存', async () => {
+      mockHttpService.request.mockImplementation((config) =>
+        config.url === oauth2.tokenUrl ? tokenResponse('token-1') : of(okResponse),
+      );
+
+      await service.request({ url: 'https://api.example.com/a', auth: oauth2 });
+      await service.request({ url: 'https://api.example.com/b', auth: oauth2 });
+
+      const calls = mockHttpService.request.mock.calls.map(([config]) => config);
+      const tokenCalls = calls.filter((config) => config.url === oauth2.tokenUrl);
+      expect(tokenCalls).toHaveLength(1);
+      expect(tokenCalls[0].data).toContain('grant_type=client_credentials');
+      expect(tokenCalls[0].data).toContain('client_secret=secret-1');
+      expect(calls[1].headers.Authorization).toBe('Bearer token-1');
+      expect(calls[2].headers.Authorization).toBe('Bearer token-1');
+    });
+
+    it('客户端密钥或归属不同时不应该复用缓存的令牌', async () => {
+      let issued = 0;
+      mockHttpService.request.mockImplementation((config) =>
+        config.url === oauth2.tokenUrl ? tokenResponse(`token-${++issued}`) : of(okResponse),
+      );
+
+      await service.request({ url: 'https://api.example.com/a', auth: oauth2, tokenCacheScope: 'user-1' });
+      await service.request({
+        url: 'https://api.example.com/b',
+        auth: { ...oauth2, clientSecret: 'wrong-secret' },
+        tokenCacheScope: 'user-1',
+      });
+      await service.request({ url: 'https://api.example.com/c', auth: oauth2, tokenCacheScope: 'user-2' });
+      await service.request({ url: 'https://api.example.com/d', auth: oauth2, tokenCacheScope: 'user-1' });
+
+      const calls = mockHttpService.request.mock.calls.map(([config]) => config);
+      const apiCalls = calls.filter((config) => config.url !== oauth2.tokenUrl);
+      expect(calls.filter((config) => config.url === oauth2.tokenUrl)).toHaveLength(3);
+      expect(apiCalls.map((config) => config.headers.Authorization)).toEqual([
+        'Bearer token-1',
+        'Bearer token-2',
+        'Bearer token-3',
+        'Bearer token-1',
+      ]);
+    });
+
+    it('令牌临近过期时应该重新获取', async () => {
+      mockHttpService.request.mockImplementation((config) =>
+        config.url === oauth2.tokenUrl
+          ? of({ ...okResponse, data: { access_token: 'short-token', expires_in: 30 } })
+          : of(okResponse),
+      );
+
+      await service.request({ url: 'https://api.example.com/a', auth: oauth2 });
+      await service.request({ url: 'https://api.example.com/b', auth: oauth2 });
+
+      const tokenCalls = mockHttpService.request.mock.calls.filter(([config]) => config.url === oauth2.tokenUrl);
+      expect(tokenCalls).toHaveLength(2);
+    });
+
+    it('收到401时应该刷新令牌并重试一次', async () => {
+      mockHttpService.request
+        .mockReturnValueOnce(tokenResponse('expired-token'))
+        .mockReturnValueOnce(of({ ...okResponse, status: 401, statusText: 'Unauthorized' }))
+        .mockReturnValueOnce(tokenResponse('fresh-token'))
+        .mockReturnValueOnce(of(okResponse));
+
+      const result = await service.request({ url: 'https://api.example.com/test', auth: oauth2 });
+
+      expect(result.status).toBe(200);
+      expect(mockHttpService.request).toHaveBeenCalledTimes(4);
+      expect(mockHttpService.request.mock.calls[3][0].headers.Authorization).toBe('Bearer fresh-token');
+    });
+
+    it('刷新令牌后仍返回401时不应该继续重试', async () => {
+      mockHttpService.request.mockImplementation((config) =>
+        config.url === oauth2.tokenUrl
+          ? tokenResponse('token-1')
+          : of({ ...okResponse, status: 401, statusText: 'Unauthorized' }),
+      );
+
+      await expect(service.request({ url: 'https://api.example.com/test', auth: oauth2 })).rejects.toThrow(
+        '认证失败（HTTP 401）',
+      );
+      expect(mockHttpService.request).toHaveBeenCalledTimes(4);
+    });
+
+    it('其他认证方式收到401或403时应该直接抛出认证错误，不返回响应内容', async () => {
+      mockHttpService.request.mockReturnValue(
+        of({ ...okResponse, status: 403, statusText: 'Forbidden', data: { error: 'invalid_token' } }),
+      );
+
+      await expect(
+        service.request({ url: 'https://api.example.com/test', auth: { type: AuthType.BEARER, token: 'revoked' } }),
+      ).rejects.toThrow('认证失败（HTTP 403），请检查认证配置或引用的密钥');
+      expect(mockHttpService.request).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('get', () => {
     it('应该发送GET请求', async () => {
       const mockResponse: AxiosResponse = {
@@ -1,8 +1,46 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { firstValueFrom, retry, catchError } from 'rxjs';
-import { throwError } from 'rxjs';
+import { firstValueFrom } from 'rxjs';
+import { createHash } from 'crypto';
+
+/**
+ * 限流与退避策略，按拉取配置保存
+ */
+export interface RateLimitPolicy {
+  requestsPerSecond?: number; // 每秒最大请求数
+  maxConcurrency?: number; // 同时进行的最大请求数
+  maxRetries?: number; // 最大重试次数，覆盖调用方传入的 retries
+  initialBackoffMs?: number; // 指数退避的初始等待时间
+  maxBackoffMs?: number; // 单次等待上限，同样限制 Retry-After
+}
+
+export enum AuthType {
+  NONE = 'none',
+  BASIC = 'basic',
+  BEARER = 'bearer',
+  API_KEY = 'api_key',
+  OAUTH2_CLIENT_CREDENTIALS = 'oauth2_client_credentials',
+}
+
+/**
+ * 请求认证配置，按拉取配置保存，凭据字段可使用 {{secret:name}} 引用
+ */
+export interface AuthConfig {
+  type: AuthType;
+  username?: string; // basic
+  password?: string; // basic
+  token?: string; // bearer
+  apiKeyName?: string; // api_key：请求头或查询参数名，默认 X-API-Key
+  apiKey?: string; // api_key
+  apiKeyLocation?: 'header' | 'query'; // api_key：默认放在请求头
+  tokenUrl?: string; // oauth2：令牌端点
+  clientId?: string; // oauth2
+  clientSecret?: string; // oauth2
+  scope?: string; // oauth2
+  audience?: string; // oauth2：部分服务（如 Auth0）要求
+  clientAuthMethod?: 'basic' | 'body'; // oauth2：客户端凭据放在 Basic 头或表单中，默认表单
+}
 
 export interface HttpRequestOptions {
   url: string;
@@ -13,6 +51,21 @@ export interface HttpRequestOptions {
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+  rateLimit?: RateLimitPolicy;
+  rateLimitKey?: string; // 共享限流状态的键，默认按请求的主机名
+  auth?: AuthConfig;
+  tokenCacheScope?: string; // OAuth2 令牌缓存的归属（用户或拉取配置ID），不同归属之间不共享令牌
+}
+
+interface CachedAccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+interface RateLimiterState {
+  activeCount: number;
+  nextAvailableAt: number;
+  waiting: Array<() => void>;
 }
 
 export interface HttpResponse<T = any> {
@@ -29,11 +82,22 @@ export class HttpClientService {
   private readonly defaultTimeout = 30000; // 30秒
   private readonly defaultRetries = 3;
   private readonly defaultRetryDelay = 1000; // 1秒
+  private readonly defaultMaxBackoff = 60000; // 1分钟
+  private readonly retryableStatuses = [429, 503];
+  private readonly authFailureStatuses = [401, 403];
+  private readonly limiterStates = new Map<string, RateLimiterState>();
+  private readonly tokenRefreshMargin = 60000; // 令牌到期前1分钟即刷新
+  private readonly defaultTokenTtl = 3600; // 令牌端点未返回 expires_in 时按1小时计
+  private readonly accessTokens = new Map<string, CachedAccessToken>();
+  private readonly pendingTokenRequests = new Map<string, Promise<CachedAccessToken>>();
 
   constructor(private readonly httpService: HttpService) {}
 
   /**
    * 发送HTTP请求
+   * 按限流策略排队，网络错误和5xx按指数退避重试，429/503 优先遵循 Retry-After
+   * OAuth2 令牌自动获取并缓存，收到401时刷新令牌后重试一次
+   * 401/403 视为认证失败直接抛出，响应内容不会作为数据返回
    */
   async request<T = any>(options: HttpRequestOptions): Promise<HttpResponse<T>> {
     const {
@@ -45,6 +109,9 @@ export class HttpClientService {
       timeout: requestTimeout = this.defaultTimeout,
       retries = this.defaultRetries,
       retryDelay = this.defaultRetryDelay,
+      rateLimit,
+      auth,
+      tokenCacheScope,
     } = options;
 
     const config: AxiosRequestConfig = {
@@ -61,40 +128,320 @@ export class HttpClientService {
       validateStatus: (status) => status < 500, // 只有5xx错误才重试
     };
 
+    const maxRetries = rateLimit?.maxRetries ?? retries;
+    const limiterKey = rateLimit ? this.getLimiterKey(options) : null;
+
     this.logger.log(`发送 ${method} 请求到 ${url}`);
-    this.logger.debug(`请求配置: ${JSON.stringify(config, null, 2)}`);
+    // 请求头中可能包含已解析的凭据，不写入日志
+    const { headers: _headers, ...loggableConfig } = config;
+    this.logger.debug(`请求配置: ${JSON.stringify(loggableConfig, null, 2)}`);
+
+    let tokenRefreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      let response: AxiosResponse<T> | null = null;
+      let requestError: any = null;
+
+      const authorizedConfig = await this.applyAuth(config, auth, tokenCacheScope);
+      if (limiterKey) {
+        await this.acquireSlot(limiterKey, rateLimit);
+      }
+      try {
+        response = await firstValueFrom(this.httpService.request<T>(authorizedConfig));
+      } catch (error) {
+        requestError = error;
+      } finally {
+        if (limiterKey) {
+          this.releaseSlot(limiterKey);
+        }
+      }
+
+      const status = response?.status ?? requestError?.response?.status;
+
+      // 令牌可能已被服务端提前吊销，清除缓存后重新获取，仅重试一次且不计入重试次数
+      if (status === 401 && auth?.type === AuthType.OAUTH2_CLIENT_CREDENTIALS && !tokenRefreshed) {
+        this.logger.warn(`收到401，刷新访问令牌后重试: ${url}`);
+        this.accessTokens.delete(this.getTokenCacheKey(auth, tokenCacheScope));
+        tokenRefreshed = true;
+        attempt--;
+        continue;
+      }
+      if (this.authFailureStatuses.includes(status)) {
+        this.logger.error(`HTTP请求认证失败: ${status} ${url}`);
+        throw new Error(`认证失败（HTTP ${status}），请检查认证配置或引用的密钥`);
+      }
+      const shouldRetry = requestError
+        ? !requestError.response || status >= 500
+        : this.retryableStatuses.includes(status);
+
+      if (!shouldRetry) {
+        if (requestError) {
+          this.logger.error(`HTTP请求最终失败: ${requestError.message}`);
+          throw this.handleError(requestError);
+        }
+
+        this.logger.log(`请求成功: ${response.status} ${response.statusText}`);
+        this.logger.debug(`响应数据: ${JSON.stringify(response.data).substring(0, 500)}...`);
+
+        return {
+          data: response.data,
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers as Record<string, string>,
+          config: response.config,
+        };
+      }
+
+      const failure = requestError || { message: `HTTP ${status}`, response };
+      if (attempt >= maxRetries) {
+        this.logger.error(`HTTP请求最终失败: ${failure.message}`);
+        throw this.handleError(failure);
+      }
+
+      const isThrottled = this.retryableStatuses.includes(status);
+      const waitMs = this.getRetryDelay(
+        attempt,
+        retryDelay,
+        rateLimit,
+        isThrottled ? failure.response?.headers : undefined,
+      );
+      this.logger.warn(
+        `请求失败，${waitMs}ms 后第 ${attempt + 1} 次重试: ${failure.message}`,
+      );
+
+      // 429/503 表示服务端整体限流，同一限流键下的其他请求一并暂停
+      if (limiterKey && isThrottled) {
+        const state = this.getLimiterState(limiterKey);
+        state.nextAvailableAt = Math.max(state.nextAvailableAt, Date.now() + waitMs);
+      }
+      await this.sleep(waitMs);
+    }
+  }
+
+  /**
+   * 按认证方式为请求添加凭据，返回新的请求配置
+   */
+  private async applyAuth(
+    config: AxiosRequestConfig,
+    auth?: AuthConfig,
+    tokenCacheScope?: string,
+  ): Promise<AxiosRequestConfig> {
+    if (!auth || auth.type === AuthType.NONE) {
+      return config;
+    }
+
+    const headers = { ...(config.headers as Record<string, string>) };
+    let params = config.params;
+
+    switch (auth.type) {
+      case AuthType.BASIC: {
+        const credentials = Buffer.from(`${auth.username || ''}:${auth.password || ''}`).toString('base64');
+        headers['Authorization'] = `Basic ${credentials}`;
+        break;
+      }
+      case AuthType.BEARER:
+        headers['Authorization'] = `Bearer ${auth.token || ''}`;
+        break;
+      case AuthType.API_KEY: {
+        const name = auth.apiKeyName || 'X-API-Key';
+        if (auth.apiKeyLocation === 'query') {
+          params = { ...params, [name]: auth.apiKey || '' };
+        } else {
+          headers[name] = auth.apiKey || '';
+        }
+        break;
+      }
+      case AuthType.OAUTH2_CLIENT_CREDENTIALS: {
+        const { accessToken } = await this.getAccessToken(auth, tokenCacheScope);
+        headers['Authorization'] = `Bearer ${accessToken}`;
+        break;
+      }
+    }
+
+    return { ...config, headers, params };
+  }
+
+  /**
+   * 获取 OAuth2 访问令牌：命中缓存且未临近过期时直接返回，并发请求共用同一次刷新
+   */
+  private async getAccessToken(auth: AuthConfig, tokenCacheScope?: string): Promise<CachedAccessToken> {
+    const cacheKey = this.getTokenCacheKey(auth, tokenCacheScope);
+    const cached = this.accessTokens.get(cacheKey);
+    if (cached && cached.expiresAt - this.tokenRefreshMargin > Date.now()) {
+      return cached;
+    }
+
+    let pending = this.pendingTokenRequests.get(cacheKey);
+    if (!pending) {
+      pending = this.requestAccessToken(auth)
+        .then((token) => {
+          this.accessTokens.set(cacheKey, token);
+          return token;
+        })
+        .finally(() => this.pendingTokenRequests.delete(cacheKey));
+      this.pendingTokenRequests.set(cacheKey, pending);
+    }
+    return pending;
+  }
 
+  private async requestAccessToken(auth: AuthConfig): Promise<CachedAccessToken> {
+    if (!auth.tokenUrl || !auth.clientId) {
+      throw new Error('OAuth2 认证缺少令牌地址或客户端ID');
+    }
+
+    const form = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (auth.scope) {
+      form.set('scope', auth.scope);
+    }
+    if (auth.audience) {
+      form.set('audience', auth.audience);
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    };
+    if (auth.clientAuthMethod === 'basic') {
+      const credentials = Buffer.from(`${auth.clientId}:${auth.clientSecret || ''}`).toString('base64');
+      headers['Authorization'] = `Basic ${credentials}`;
+    } else {
+      form.set('client_id', auth.clientId);
+      form.set('client_secret', auth.clientSecret || '');
+    }
+
+    this.logger.log(`获取 OAuth2 访问令牌: ${auth.tokenUrl}`);
+    let response: AxiosResponse<any>;
     try {
-      const response$ = this.httpService.request(config).pipe(
-        retry({
-          count: retries,
-          delay: (error, retryCount) => {
-            this.logger.warn(`请求失败，第 ${retryCount} 次重试: ${error.message}`);
-            return new Promise(resolve => setTimeout(resolve, retryDelay * retryCount));
-          },
+      response = await firstValueFrom(
+        this.httpService.request<any>({
+          url: auth.tokenUrl,
+          method: 'POST',
+          headers,
+          data: form.toString(),
+          timeout: this.defaultTimeout,
         }),
-        catchError((error) => {
-          this.logger.error(`HTTP请求失败: ${error.message}`);
-          return throwError(() => error);
-        })
       );
+    } catch (error) {
+      const status = error.response?.status;
+      throw new Error(`获取访问令牌失败${status ? ` (HTTP ${status})` : ''}: ${error.message}`);
+    }
 
-      const response: AxiosResponse<T> = await firstValueFrom(response$);
+    const accessToken = response.data?.access_token;
+    if (!accessToken) {
+      throw new Error('获取访问令牌失败: 响应中缺少 access_token');
+    }
 
-      this.logger.log(`请求成功: ${response.status} ${response.statusText}`);
-      this.logger.debug(`响应数据: ${JSON.stringify(response.data).substring(0, 500)}...`);
+    const expiresIn = Number(response.data.expires_in) || this.defaultTokenTtl;
+    return { accessToken, expiresAt: Date.now() + expiresIn * 1000 };
+  }
 
-      return {
-        data: response.data,
-        status: response.status,
-        statusText: response.statusText,
-        headers: response.headers as Record<string, string>,
-        config: response.config,
-      };
-    } catch (error) {
-      this.logger.error(`HTTP请求最终失败: ${error.message}`);
-      throw this.handleError(error);
+  /**
+   * 令牌缓存键包含归属和客户端密钥的哈希，密钥错误或归属不同时不会命中他人的令牌
+   */
+  private getTokenCacheKey(auth: AuthConfig, tokenCacheScope?: string): string {
+    const secretHash = createHash('sha256').update(auth.clientSecret || '').digest('hex');
+    return [
+      tokenCacheScope || '',
+      auth.tokenUrl,
+      auth.clientId,
+      secretHash,
+      auth.scope || '',
+      auth.audience || '',
+    ].join('|');
+  }
+
+  /**
+   * 计算重试等待时间：优先使用 Retry-After，否则按指数退避
+   */
+  private getRetryDelay(
+    attempt: number,
+    retryDelay: number,
+    rateLimit?: RateLimitPolicy,
+    responseHeaders?: Record<string, any>,
+  ): number {
+    const maxBackoff = rateLimit?.maxBackoffMs ?? this.defaultMaxBackoff;
+    const retryAfter = this.parseRetryAfter(
+      responseHeaders?.['retry-after'] ?? responseHeaders?.['Retry-After'],
+    );
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, maxBackoff);
+    }
+
+    const initialBackoff = rateLimit?.initialBackoffMs ?? retryDelay;
+    return Math.min(initialBackoff * Math.pow(2, attempt), maxBackoff);
+  }
+
+  /**
+   * 解析 Retry-After 响应头（秒数或HTTP日期），返回毫秒
+   */
+  private parseRetryAfter(value: any): number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(seconds, 0) * 1000;
+    }
+
+    const date = Date.parse(String(value));
+    return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+  }
+
+  private getLimiterKey(options: HttpRequestOptions): string {
+    if (options.rateLimitKey) {
+      return options.rateLimitKey;
     }
+    try {
+      return new URL(options.url).host;
+    } catch {
+      return options.url;
+    }
+  }
+
+  private getLimiterState(key: string): RateLimiterState {
+    let state = this.limiterStates.get(key);
+    if (!state) {
+      state = { activeCount: 0, nextAvailableAt: 0, waiting: [] };
+      this.limiterStates.set(key, state);
+    }
+    return state;
+  }
+
+  /**
+   * 获取请求名额：超过最大并发时排队，并按每秒请求数错开发送时间
+   */
+  private async acquireSlot(key: string, policy: RateLimitPolicy): Promise<void> {
+    const state = this.getLimiterState(key);
+
+    if (policy.maxConcurrency && state.activeCount >= policy.maxConcurrency) {
+      // 名额由 releaseSlot 直接转交，不再重复计数
+      await new Promise<void>(resolve => state.waiting.push(resolve));
+    } else {
+      state.activeCount++;
+    }
+
+    const now = Date.now();
+    const scheduledAt = Math.max(now, state.nextAvailableAt);
+    if (policy.requestsPerSecond && policy.requestsPerSecond > 0) {
+      state.nextAvailableAt = scheduledAt + 1000 / policy.requestsPerSecond;
+    }
+    if (scheduledAt > now) {
+      await this.sleep(scheduledAt - now);
+    }
+  }
+
+  private releaseSlot(key: string): void {
+    const state = this.getLimiterState(key);
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      state.activeCount = Math.max(state.activeCount - 1, 0);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
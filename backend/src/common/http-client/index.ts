@@ -1,2 +1,2 @@
-export { HttpClientService, HttpRequestOptions, HttpResponse } from './http-client.service';
+export { HttpClientService, HttpRequestOptions, HttpResponse, RateLimitPolicy, AuthConfig, AuthType } from './http-client.service';
 export { HttpClientModule } from './http-client.module';
\ No newline at end of file
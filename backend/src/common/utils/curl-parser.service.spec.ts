@@ -68,6 +68,19 @@ describe('CurlParserService', () => {
       });
     });
 
+    it('应该将 query/variables 请求体识别为GraphQL', () => {
+      const curlCommand = `curl -X POST "https://api.example.com/graphql" \\
+        -H "Content-Type: application/json" \\
+        -d '{"query": "query Users($after: String) { users(after: $after) { edges { node { id } } } }", "variables": {"first": 50}}'`;
+
+      const result = service.parseCurlCommand(curlCommand);
+
+      expect(result.success).toBe(true);
+      expect(result.config?.sourceType).toBe('graphql');
+      expect(result.config?.graphqlQuery).toContain('users(after: $after)');
+      expect(result.config?.graphqlVariables).toEqual({ first: 50 });
+    });
+
     it('应该解析POST请求with表单数据', () => {
       const curlCommand = `curl -X POST "https://api.example.com/users" \\
         --form "name=John" \\
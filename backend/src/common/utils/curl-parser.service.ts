@@ -8,6 +8,9 @@ export interface ParsedCurlConfig {
     headers: Record<string, string>;
     queryParams?: Record<string, string>;
     body?: any;
+    sourceType?: 'graphql'; // 请求体为 { query, variables } 时识别为 GraphQL
+    graphqlQuery?: string;
+    graphqlVariables?: Record<string, any>;
   };
   error?: string;
 }
@@ -55,6 +58,7 @@ export class CurlParserService {
           headers,
           queryParams: Object.keys(queryParams).length > 0 ? queryParams : undefined,
           body,
+          ...this.extractGraphql(body),
         },
       };
     } catch (error) {
@@ -65,6 +69,30 @@ export class CurlParserService {
     }
   }
 
+  /**
+   * 识别 GraphQL 请求体，拆出查询语句和变量
+   */
+  private extractGraphql(body: any): Pick<ParsedCurlConfig['config'], 'sourceType' | 'graphqlQuery' | 'graphqlVariables'> {
+    if (!body || typeof body !== 'object' || typeof body.query !== 'string') {
+      return {};
+    }
+
+    let variables = body.variables;
+    if (typeof variables === 'string') {
+      try {
+        variables = JSON.parse(variables);
+      } catch {
+        variables = undefined;
+      }
+    }
+
+    return {
+      sourceType: 'graphql',
+      graphqlQuery: body.query,
+      graphqlVariables: variables && typeof variables === 'object' ? variables : {},
+    };
+  }
+
   /**
    * 清理curl命令
    */
@@ -192,17 +220,17 @@ export class CurlParserService {
    * 提取请求体
    */
   private extractBody(command: string): any {
-    // 匹配 -d "data" 格式
+    // 匹配 -d "data" 格式，按成对引号截取，单引号包裹的 JSON 可包含双引号
     const dataPatterns = [
-      /-d\s+["']([^"']+)["']/,
-      /--data\s+["']([^"']+)["']/,
-      /--data-raw\s+["']([^"']+)["']/,
+      /-d\s+(["'])(.*?)\1/,
+      /--data\s+(["'])(.*?)\1/,
+      /--data-raw\s+(["'])(.*?)\1/,
     ];
 
     for (const pattern of dataPatterns) {
       const match = command.match(pattern);
       if (match) {
-        const data = match[1];
+        const data = match[2];
         
         // 尝试解析为JSON
         try {
@@ -0,0 +1,385 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * 表达式语法树
+ * 转换步骤在内存中求值，计算字段编译为 SQL，二者共用同一套语法和函数
+ */
+export type ExpressionNode =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: ExpressionFunction; args: ExpressionNode[] };
+
+export type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'and' | 'or';
+
+// 支持的函数及参数个数 [最少, 最多]，最多为 null 表示不限
+export const EXPRESSION_FUNCTIONS = {
+  lower: [1, 1],
+  upper: [1, 1],
+  trim: [1, 1],
+  length: [1, 1],
+  concat: [1, null],
+  coalesce: [1, null],
+  round: [1, 2],
+  abs: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  if: [3, 3],
+  year: [1, 1],
+  month: [1, 1],
+  day: [1, 1],
+  date_format: [2, 2], // 格式由 YYYY、MM、DD、HH、mm、ss 组成
+} as const;
+
+export type ExpressionFunction = keyof typeof EXPRESSION_FUNCTIONS;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'field' | 'operator' | 'paren' | 'comma';
+  value: string;
+  position: number;
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 32;
+
+// 字段名可包含中文和点号（引用嵌套字段或子表字段），含空格等字符时用反引号包裹
+const IDENTIFIER_START = /[A-Za-z_一-龥]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.一-龥]/;
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '==': '=',
+  '<>': '!=',
+  '&&': 'and',
+  '||': 'or',
+  '!': 'not',
+};
+
+/**
+ * 表达式解析器：字面量、字段引用、四则运算、比较、and/or/not 与白名单函数
+ */
+export class ExpressionParser {
+  private tokens: Token[] = [];
+  private index = 0;
+  private depth = 0;
+
+  private constructor(private readonly source: string) {}
+
+  /**
+   * 解析表达式，语法错误时抛出 BadRequestException
+   */
+  static parse(expression: string): ExpressionNode {
+    const source = (expression || '').trim();
+    if (!source) {
+      throw new BadRequestException('表达式不能为空');
+    }
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+      throw new BadRequestException(`表达式不能超过 ${MAX_EXPRESSION_LENGTH} 个字符`);
+    }
+
+    const parser = new ExpressionParser(source);
+    parser.tokens = parser.tokenize();
+    const node = parser.parseOr();
+    if (parser.index < parser.tokens.length) {
+      parser.fail(`无法识别的内容 "${parser.tokens[parser.index].value}"`, parser.tokens[parser.index].position);
+    }
+    return node;
+  }
+
+  /**
+   * 收集表达式引用的字段名
+   */
+  static collectFields(node: ExpressionNode, fields: Set<string> = new Set()): Set<string> {
+    switch (node.kind) {
+      case 'field':
+        fields.add(node.name);
+        break;
+      case 'unary':
+        ExpressionParser.collectFields(node.operand, fields);
+        break;
+      case 'binary':
+        ExpressionParser.collectFields(node.left, fields);
+        ExpressionParser.collectFields(node.right, fields);
+        break;
+      case 'call':
+        node.args.forEach((arg) => ExpressionParser.collectFields(arg, fields));
+        break;
+    }
+    return fields;
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const text = this.source;
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+        const match = text.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        tokens.push({ type: 'number', value: match[0], position: i });
+        i += match[0].length;
+        continue;
+      }
+
+      if (char === "'" || char === '"') {
+        let value = '';
+        let j = i + 1;
+        for (; j < text.length; j++) {
+          if (text[j] === '\\' && j + 1 < text.length) {
+            value += text[++j];
+          } else if (text[j] === char) {
+            if (text[j + 1] === char) {
+              value += char;
+              j++;
+            } else {
+              break;
+            }
+          } else {
+            value += text[j];
+          }
+        }
+        if (j >= text.length) {
+          this.fail('字符串缺少结束引号', i);
+        }
+        tokens.push({ type: 'string', value, position: i });
+        i = j + 1;
+        continue;
+      }
+
+      if (char === '`') {
+        const end = text.indexOf('`', i + 1);
+        if (end < 0 || end === i + 1) {
+          this.fail('反引号字段名不完整', i);
+        }
+        tokens.push({ type: 'field', value: text.slice(i + 1, end), position: i });
+        i = end + 1;
+        continue;
+      }
+
+      if (IDENTIFIER_START.test(char)) {
+        let j = i + 1;
+        while (j < text.length && IDENTIFIER_PART.test(text[j])) {
+          j++;
+        }
+        tokens.push({ type: 'identifier', value: text.slice(i, j), position: i });
+        i = j;
+        continue;
+      }
+
+      const twoChars = text.slice(i, i + 2);
+      if (['<=', '>=', '!=', '==', '<>', '&&', '||'].includes(twoChars)) {
+        tokens.push({ type: 'operator', value: OPERATOR_ALIASES[twoChars] || twoChars, position: i });
+        i += 2;
+        continue;
+      }
+      if ('+-*/%=<>!'.includes(char)) {
+        tokens.push({ type: 'operator', value: OPERATOR_ALIASES[char] || char, position: i });
+        i++;
+        continue;
+      }
+      if (char === '(' || char === ')') {
+        tokens.push({ type: 'paren', value: char, position: i });
+        i++;
+        continue;
+      }
+      if (char === ',') {
+        tokens.push({ type: 'comma', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      this.fail(`无法识别的字符 "${char}"`, i);
+    }
+
+    return tokens;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchKeyword('or')) {
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchKeyword('and')) {
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchKeyword('not')) {
+      return { kind: 'unary', operator: 'not', operand: this.nested(() => this.parseNot()) };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const operator = this.matchOperator('=', '!=', '<', '<=', '>', '>=');
+    if (!operator) {
+      return left;
+    }
+    return { kind: 'binary', operator, left, right: this.parseAdditive() };
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    let operator: BinaryOperator | null;
+    while ((operator = this.matchOperator('+', '-'))) {
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator: BinaryOperator | null;
+    while ((operator = this.matchOperator('*', '/', '%'))) {
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.nested(() => this.parseUnary()) };
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.index];
+    if (!token) {
+      this.fail('表达式不完整', this.source.length);
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      this.index++;
+      const node = this.nested(() => this.parseOr());
+      this.expect(')');
+      return node;
+    }
+
+    this.index++;
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'field':
+        return { kind: 'field', name: token.value };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      default:
+        this.fail(`无法识别的内容 "${token.value}"`, token.position);
+    }
+  }
+
+  private parseIdentifier(token: Token): ExpressionNode {
+    const lower = token.value.toLowerCase();
+    const next = this.tokens[this.index];
+
+    if (next?.type === 'paren' && next.value === '(') {
+      if (!(lower in EXPRESSION_FUNCTIONS)) {
+        this.fail(`不支持的函数 ${token.value}`, token.position);
+      }
+      this.index++;
+      const args: ExpressionNode[] = [];
+      if (!this.peek(')')) {
+        do {
+          args.push(this.nested(() => this.parseOr()));
+        } while (this.match('comma'));
+      }
+      this.expect(')');
+
+      const name = lower as ExpressionFunction;
+      const [min, max] = EXPRESSION_FUNCTIONS[name];
+      if (args.length < min || (max !== null && args.length > max)) {
+        this.fail(`函数 ${name} 的参数个数不正确`, token.position);
+      }
+      return { kind: 'call', name, args };
+    }
+
+    if (lower === 'true' || lower === 'false') {
+      return { kind: 'literal', value: lower === 'true' };
+    }
+    if (lower === 'null') {
+      return { kind: 'literal', value: null };
+    }
+    if (lower === 'and' || lower === 'or' || lower === 'not') {
+      this.fail(`${token.value} 缺少操作数`, token.position);
+    }
+    return { kind: 'field', name: token.value };
+  }
+
+  private nested(parse: () => ExpressionNode): ExpressionNode {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      this.fail('表达式嵌套层数过多', this.tokens[this.index]?.position ?? this.source.length);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private matchKeyword(keyword: 'and' | 'or' | 'not'): boolean {
+    const token = this.tokens[this.index];
+    const isKeyword =
+      (token?.type === 'identifier' && token.value.toLowerCase() === keyword) ||
+      (token?.type === 'operator' && token.value === keyword);
+    if (isKeyword) {
+      this.index++;
+    }
+    return isKeyword;
+  }
+
+  private matchOperator<T extends BinaryOperator>(...operators: T[]): T | null {
+    const token = this.tokens[this.index];
+    if (token?.type === 'operator' && operators.includes(token.value as T)) {
+      this.index++;
+      return token.value as T;
+    }
+    return null;
+  }
+
+  private match(type: Token['type']): boolean {
+    if (this.tokens[this.index]?.type === type) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private peek(value: string): boolean {
+    return this.tokens[this.index]?.value === value && this.tokens[this.index]?.type === 'paren';
+  }
+
+  private expect(value: string): void {
+    if (!this.peek(value)) {
+      this.fail(`缺少 "${value}"`, this.tokens[this.index]?.position ?? this.source.length);
+    }
+    this.index++;
+  }
+
+  private fail(message: string, position: number): never {
+    throw new BadRequestException(`表达式 "${this.source}" 第 ${position + 1} 个字符处: ${message}`);
+  }
+}
@@ -0,0 +1,81 @@
+import { ExpressionParser } from './expression-parser';
+import { ExpressionSqlCompiler } from './expression-sql-compiler';
+import { TimeBucketDialect } from './time-bucket';
+
+describe('ExpressionSqlCompiler', () => {
+  const compileAs = (dialect: TimeBucketDialect) => (expression: string) =>
+    ExpressionSqlCompiler.compile(dialect, ExpressionParser.parse(expression), (field) => `data.${field}`);
+
+  describe('mysql', () => {
+    const compile = compileAs('mysql');
+
+    it('应该编译运算、空值安全比较和逻辑运算', () => {
+      expect(compile("price * qty > 100 and status != 'deleted'")).toBe(
+        "(((data.price * data.qty) > 100) AND (NOT (data.status <=> 'deleted')))",
+      );
+      expect(compile('not -a = null')).toBe('(NOT ((-data.a) <=> NULL))');
+      expect(compile('a / b % 2')).toBe('((data.a / data.b) % 2)');
+    });
+
+    it('应该映射函数并转换日期格式', () => {
+      expect(compile("date_format(created_at, 'YYYY-MM 100%')")).toBe(
+        "DATE_FORMAT(data.created_at, '%Y-%m 100%%')",
+      );
+      expect(compile('if(length(name) > 3, round(score, 1), coalesce(score, 0))')).toBe(
+        '(CASE WHEN (CHAR_LENGTH(data.name) > 3) THEN ROUND(data.score, 1) ELSE COALESCE(data.score, 0) END)',
+      );
+      expect(compile('year(created_at) + day(created_at)')).toBe('(YEAR(data.created_at) + DAYOFMONTH(data.created_at))');
+      expect(() => compile('date_format(created_at, fmt)')).toThrow('date_format 的格式必须是字符串常量');
+    });
+
+    it('应该转义字符串常量，含参数占位符字符时以十六进制写入', () => {
+      expect(compile("concat(name, 'it''s \\\\')")).toBe("CONCAT(data.name, 'it''s \\\\')");
+      expect(compile("note = 'a:b?'")).toBe('(data.note <=> CONVERT(0x613a623f USING utf8mb4))');
+    });
+  });
+
+  describe('postgres', () => {
+    const compile = compileAs('postgres');
+
+    it('应该编译运算、空值安全比较和逻辑运算', () => {
+      expect(compile("price * qty > 100 and status != 'deleted'")).toBe(
+        "(((data.price * data.qty) > 100) AND (data.status IS DISTINCT FROM 'deleted'))",
+      );
+      expect(compile('not -a = null')).toBe('(NOT ((-data.a) IS NOT DISTINCT FROM NULL))');
+    });
+
+    it('除法和取余除以零时应该得到 NULL', () => {
+      expect(compile('a / b % 2')).toBe('((CAST(data.a AS NUMERIC) / NULLIF(data.b, 0)) % NULLIF(2, 0))');
+    });
+
+    it('应该映射函数并转换日期格式', () => {
+      expect(compile("date_format(created_at, 'YYYY-MM-DD HH:mm:ss 第Q季')")).toBe(
+        `TO_CHAR(data.created_at, convert_from(decode('${Buffer.from('YYYY"-"MM"-"DD" "HH24":"MI":"SS" 第Q季"').toString('hex')}', 'hex'), 'UTF8'))`,
+      );
+      expect(compile("date_format(created_at, 'YYYY年MM月')")).toBe(
+        `TO_CHAR(data.created_at, 'YYYY"年"MM"月"')`,
+      );
+      expect(compile('if(length(name) > 3, round(score, 1), round(score))')).toBe(
+        '(CASE WHEN (CHAR_LENGTH(data.name) > 3) THEN ROUND(CAST(data.score AS NUMERIC), 1) ELSE ROUND(data.score) END)',
+      );
+      expect(compile('month(created_at)')).toBe('CAST(EXTRACT(MONTH FROM data.created_at) AS INTEGER)');
+    });
+
+    it('应该按标准字符串转义，含参数占位符字符时以十六进制写入', () => {
+      expect(compile("concat(name, 'it''s \\\\')")).toBe("CONCAT(data.name, 'it''s \\')");
+      expect(compile("note = 'a:b?'")).toBe("(data.note IS NOT DISTINCT FROM convert_from(decode('613a623f', 'hex'), 'UTF8'))");
+    });
+  });
+
+  it('应该推断结果类型', () => {
+    const inferType = (expression: string) =>
+      ExpressionSqlCompiler.inferType(ExpressionParser.parse(expression), (field) =>
+        field === 'created_at' ? 'date' : 'string',
+      );
+
+    expect(inferType('a + 1')).toBe('number');
+    expect(inferType('year(created_at)')).toBe('integer');
+    expect(inferType('coalesce(created_at, null)')).toBe('date');
+    expect(inferType("upper(name) = 'A'")).toBe('boolean');
+  });
+});
@@ -0,0 +1,180 @@
+import { BadRequestException } from '@nestjs/common';
+import { ExpressionNode } from './expression-parser';
+import { TimeBucketDialect } from './time-bucket';
+
+const DATE_FORMAT_TOKENS = /(YYYY|MM|DD|HH|mm|ss)/;
+
+/**
+ * 将表达式语法树编译为 MySQL 或 Postgres 表达式
+ * 语义与转换步骤的内存求值保持一致：= 和 != 按空值安全比较，除以零得到 NULL
+ */
+export class ExpressionSqlCompiler {
+  /**
+   * 编译表达式，字段引用由 resolveField 转换为列路径，字段不可用时由其抛出异常
+   */
+  static compile(
+    dialect: TimeBucketDialect,
+    node: ExpressionNode,
+    resolveField: (name: string) => string,
+  ): string {
+    const compile = (child: ExpressionNode) => ExpressionSqlCompiler.compile(dialect, child, resolveField);
+    const postgres = dialect === 'postgres';
+
+    switch (node.kind) {
+      case 'literal':
+        return ExpressionSqlCompiler.literal(dialect, node.value);
+      case 'field':
+        return resolveField(node.name);
+      case 'unary': {
+        const operand = compile(node.operand);
+        return node.operator === 'not' ? `(NOT ${operand})` : `(-${operand})`;
+      }
+      case 'binary': {
+        const left = compile(node.left);
+        const right = compile(node.right);
+        switch (node.operator) {
+          case '=':
+            return postgres ? `(${left} IS NOT DISTINCT FROM ${right})` : `(${left} <=> ${right})`;
+          case '!=':
+            return postgres ? `(${left} IS DISTINCT FROM ${right})` : `(NOT (${left} <=> ${right}))`;
+          case 'and':
+          case 'or':
+            return `(${left} ${node.operator.toUpperCase()} ${right})`;
+          case '/':
+            // Postgres 整数相除会截断、除以零会报错，与 MySQL 保持一致
+            return postgres ? `(CAST(${left} AS NUMERIC) / NULLIF(${right}, 0))` : `(${left} / ${right})`;
+          case '%':
+            return postgres ? `(${left} % NULLIF(${right}, 0))` : `(${left} % ${right})`;
+          default:
+            return `(${left} ${node.operator} ${right})`;
+        }
+      }
+      case 'call': {
+        const args = node.args.map(compile);
+        switch (node.name) {
+          case 'length':
+            return `CHAR_LENGTH(${args[0]})`;
+          case 'year':
+          case 'month':
+          case 'day':
+            if (postgres) {
+              return `CAST(EXTRACT(${node.name.toUpperCase()} FROM ${args[0]}) AS INTEGER)`;
+            }
+            return node.name === 'day' ? `DAYOFMONTH(${args[0]})` : `${node.name.toUpperCase()}(${args[0]})`;
+          case 'round':
+            // Postgres 只支持对 numeric 指定小数位
+            return postgres && args.length > 1 ? `ROUND(CAST(${args[0]} AS NUMERIC), ${args[1]})` : `ROUND(${args.join(', ')})`;
+          case 'if':
+            return `(CASE WHEN ${args[0]} THEN ${args[1]} ELSE ${args[2]} END)`;
+          case 'date_format': {
+            const format = node.args[1];
+            if (format.kind !== 'literal' || typeof format.value !== 'string') {
+              throw new BadRequestException('date_format 的格式必须是字符串常量');
+            }
+            return postgres
+              ? `TO_CHAR(${args[0]}, ${ExpressionSqlCompiler.literal(dialect, ExpressionSqlCompiler.postgresDateFormat(format.value))})`
+              : `DATE_FORMAT(${args[0]}, ${ExpressionSqlCompiler.literal(dialect, ExpressionSqlCompiler.mysqlDateFormat(format.value))})`;
+          }
+          default:
+            return `${node.name.toUpperCase()}(${args.join(', ')})`;
+        }
+      }
+    }
+  }
+
+  /**
+   * 推断表达式结果的字段类型，字段引用的类型由 resolveType 提供
+   */
+  static inferType(node: ExpressionNode, resolveType: (name: string) => string): string {
+    switch (node.kind) {
+      case 'literal':
+        if (node.value === null) {
+          return 'string';
+        }
+        return typeof node.value === 'number' ? 'number' : typeof node.value;
+      case 'field':
+        return resolveType(node.name) || 'string';
+      case 'unary':
+        return node.operator === 'not' ? 'boolean' : 'number';
+      case 'binary':
+        return ['+', '-', '*', '/', '%'].includes(node.operator) ? 'number' : 'boolean';
+      case 'call':
+        switch (node.name) {
+          case 'length':
+          case 'floor':
+          case 'ceil':
+          case 'year':
+          case 'month':
+          case 'day':
+            return 'integer';
+          case 'round':
+          case 'abs':
+            return 'number';
+          case 'coalesce':
+            return ExpressionSqlCompiler.inferType(node.args[0], resolveType);
+          case 'if':
+            return ExpressionSqlCompiler.inferType(node.args[1], resolveType);
+          default:
+            return 'string';
+        }
+    }
+  }
+
+  private static literal(dialect: TimeBucketDialect, value: string | number | boolean | null): string {
+    if (value === null) {
+      return 'NULL';
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'TRUE' : 'FALSE';
+    }
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new BadRequestException(`数值 ${value} 超出范围`);
+      }
+      return String(value);
+    }
+    // 含冒号或问号的字符串以十六进制写入，避免被当作查询参数占位符替换
+    const hex = /[:?]/.test(value) ? Buffer.from(value, 'utf8').toString('hex') : null;
+    if (dialect === 'postgres') {
+      // Postgres 默认开启 standard_conforming_strings，反斜杠不是转义符
+      return hex ? `convert_from(decode('${hex}', 'hex'), 'UTF8')` : `'${value.replace(/'/g, "''")}'`;
+    }
+    if (hex) {
+      return `CONVERT(0x${hex} USING utf8mb4)`;
+    }
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+  }
+
+  // YYYY、MM、DD、HH、mm、ss 转换为 MySQL 格式符，其余字符原样输出
+  private static mysqlDateFormat(format: string): string {
+    const tokens: Record<string, string> = {
+      YYYY: '%Y',
+      MM: '%m',
+      DD: '%d',
+      HH: '%H',
+      mm: '%i',
+      ss: '%s',
+    };
+    return format
+      .split(DATE_FORMAT_TOKENS)
+      .map((part) => tokens[part] ?? part.replace(/%/g, '%%'))
+      .join('');
+  }
+
+  // 转换为 TO_CHAR 模板，其余字符放入双引号，避免被识别为模板模式
+  private static postgresDateFormat(format: string): string {
+    const tokens: Record<string, string> = {
+      YYYY: 'YYYY',
+      MM: 'MM',
+      DD: 'DD',
+      HH: 'HH24',
+      mm: 'MI',
+      ss: 'SS',
+    };
+    return format
+      .split(DATE_FORMAT_TOKENS)
+      .filter((part) => part !== '')
+      .map((part) => tokens[part] ?? `"${part.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`)
+      .join('');
+  }
+}
@@ -0,0 +1,164 @@
+import { BadRequestException } from '@nestjs/common';
+import { deflateRawSync } from 'zlib';
+import { FileParserService } from './file-parser.service';
+
+/**
+ * 生成最小的 zip 压缩包（deflate 压缩，不校验 CRC），用于构造 xlsx 测试文件
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    localParts.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+describe('FileParserService', () => {
+  const service = new FileParserService();
+
+  describe('detectFormat', () => {
+    it('应该按扩展名识别文件格式', () => {
+      expect(service.detectFormat('orders.CSV')).toBe('csv');
+      expect(service.detectFormat('orders.xlsx')).toBe('xlsx');
+      expect(service.detectFormat('events.jsonl')).toBe('ndjson');
+    });
+
+    it('不支持的扩展名应该抛出异常', () => {
+      expect(() => service.detectFormat('report.pdf')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('CSV', () => {
+    it('应该解析引号、转义和字段内换行，并还原数值类型', () => {
+      const csv = '﻿id,name,remark,code,active\r\n1,"Smith, John","say ""hi""\nbye",00123,true\r\n2,Bob,,42,false\r\n';
+
+      const result = service.parse(Buffer.from(csv), 'users.csv');
+
+      expect(result.records).toEqual([
+        { id: 1, name: 'Smith, John', remark: 'say "hi"\nbye', code: '00123', active: true },
+        { id: 2, name: 'Bob', remark: null, code: 42, active: false },
+      ]);
+    });
+
+    it('应该自动识别分隔符并处理空字段名和重名字段', () => {
+      const csv = 'a;a;\n1;2;3';
+
+      const result = service.parse(Buffer.from(csv), 'data.csv');
+
+      expect(result.records).toEqual([{ a: 1, a_2: 2, column_3: 3 }]);
+    });
+
+    it('引号未闭合时应该抛出异常', () => {
+      expect(() => service.parse(Buffer.from('a,b\n"1,2'), 'data.csv')).toThrow('引号未闭合');
+    });
+  });
+
+  describe('JSON', () => {
+    it('应该解析对象数组以及包含数组的包装对象', () => {
+      expect(service.parse(Buffer.from('[{"id":1},{"id":2}]'), 'a.json').records).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(service.parse(Buffer.from('{"total":1,"items":[{"id":1}]}'), 'a.json').records).toEqual([{ id: 1 }]);
+    });
+
+    it('应该逐行解析 NDJSON 并报告出错的行号', () => {
+      expect(service.parse(Buffer.from('{"id":1}\n\n{"id":2}\n'), 'a.ndjson').records).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(() => service.parse(Buffer.from('{"id":1}\n{bad'), 'a.ndjson')).toThrow('NDJSON 第 2 行格式错误');
+    });
+  });
+
+  describe('Excel', () => {
+    const workbook = buildZip({
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="Summary" sheetId="1" r:id="rId1"/><sheet name="Orders" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml':
+        '<sst><si><t>order_no</t></si><si><t>amount</t></si><si><t>date</t></si><si><r><t>A &amp; </t></r><r><t>B</t></r></si></sst>',
+      'xl/styles.xml': '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>title</t></is></c></row></sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="inlineStr"><is><t>paid</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>12.5</v></c><c r="C2" s="1"><v>45292</v></c><c r="D2" t="b"><v>1</v></c></row>' +
+        '<row r="3"/>' +
+        '<row r="4"><c r="A4" t="str"><v>SO-2</v></c><c r="D4" t="b"><v>0</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+
+    it('应该读取指定工作表并转换共享字符串、日期和布尔值', () => {
+      const result = service.parse(workbook, 'orders.xlsx', { sheetName: 'Orders' });
+
+      expect(result.sheetName).toBe('Orders');
+      expect(result.records).toEqual([
+        { order_no: 'A & B', amount: 12.5, date: '2024-01-01', paid: true },
+        { order_no: 'SO-2', amount: null, date: null, paid: false },
+      ]);
+    });
+
+    it('未指定工作表时应该读取第一个工作表', () => {
+      expect(service.parse(workbook, 'orders.xlsx').sheetName).toBe('Summary');
+    });
+
+    it('工作表不存在或文件不是 xlsx 时应该抛出异常', () => {
+      expect(() => service.parse(workbook, 'orders.xlsx', { sheetName: 'Missing' })).toThrow('工作表 Missing 不存在');
+      expect(() => service.parse(Buffer.from('not a zip file at all, just some text'), 'a.xlsx')).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('只解压用到的文件，其他文件损坏时不影响解析', () => {
+      const zip = buildZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+        'xl/worksheets/sheet1.xml':
+          '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>id</t></is></c></row>' +
+          '<row r="2"><c r="A2"><v>1</v></c></row></sheetData></worksheet>',
+        'xl/media/image1.png': 'placeholder',
+      });
+      // 破坏图片文件的压缩数据
+      const imageData = zip.indexOf(deflateRawSync(Buffer.from('placeholder', 'utf8')));
+      zip.fill(0xff, imageData, imageData + 4);
+
+      expect(service.parse(zip, 'data.xlsx').records).toEqual([{ id: 1 }]);
+    });
+
+    it('压缩包被截断或偏移越界时应该抛出 BadRequestException', () => {
+      const truncated = Buffer.concat([workbook.subarray(0, 40), workbook.subarray(workbook.length - 200)]);
+      expect(() => service.parse(truncated, 'orders.xlsx')).toThrow(BadRequestException);
+
+      const corrupted = Buffer.from(workbook);
+      // 将第一个文件的本地头偏移改到文件末尾之后
+      corrupted.writeUInt32LE(corrupted.length + 100, corrupted.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 42);
+      expect(() => service.parse(corrupted, 'orders.xlsx')).toThrow('Excel 文件格式错误');
+    });
+  });
+});
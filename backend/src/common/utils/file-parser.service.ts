@@ -0,0 +1,502 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { inflateRawSync } from 'zlib';
+
+export type DataFileFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface FileParseOptions {
+  format?: DataFileFormat; // 未指定时按文件扩展名判断
+  sheetName?: string; // Excel 工作表名称，默认第一个工作表
+  delimiter?: string; // CSV 分隔符，默认按首行自动识别
+}
+
+export interface ParsedDataFile {
+  format: DataFileFormat;
+  records: Record<string, any>[];
+  sheetName?: string; // 实际读取的 Excel 工作表
+}
+
+const FORMAT_BY_EXTENSION: Record<string, DataFileFormat> = {
+  csv: 'csv',
+  tsv: 'csv',
+  txt: 'csv',
+  xlsx: 'xlsx',
+  json: 'json',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+};
+
+// CSV 自动识别的候选分隔符
+const CSV_DELIMITERS = [',', '\t', ';', '|'];
+
+// 数字文本转为数值，以 0 开头的编号（如 00123）保留为文本
+const NUMERIC_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+// Excel 内置的日期时间格式编号
+const EXCEL_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// Excel 序列日期的起点（1899-12-30）与 Unix 纪元相差的天数
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+// 解压 xlsx 时读取的各文件合计大小上限，防止压缩炸弹耗尽内存
+const MAX_XLSX_UNCOMPRESSED_SIZE = 200 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number; // 0 为存储，8 为 deflate
+  compressedSize: number;
+  localOffset: number;
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+@Injectable()
+export class FileParserService {
+  /**
+   * 根据文件名识别数据文件格式
+   */
+  detectFormat(fileName: string): DataFileFormat {
+    const extension = (fileName || '').split('.').pop()?.toLowerCase() || '';
+    const format = FORMAT_BY_EXTENSION[extension];
+    if (!format) {
+      throw new BadRequestException(`不支持的文件类型: ${fileName}，请上传 CSV、Excel(xlsx)、JSON 或 NDJSON 文件`);
+    }
+    return format;
+  }
+
+  /**
+   * 将上传的文件解析为记录数组，CSV 与 Excel 以首行作为字段名
+   */
+  parse(buffer: Buffer, fileName: string, options: FileParseOptions = {}): ParsedDataFile {
+    const format = options.format || this.detectFormat(fileName);
+
+    switch (format) {
+      case 'csv':
+        return { format, records: this.parseCsv(this.decodeText(buffer), options.delimiter) };
+      case 'json':
+        return { format, records: this.parseJson(this.decodeText(buffer)) };
+      case 'ndjson':
+        return { format, records: this.parseNdjson(this.decodeText(buffer)) };
+      case 'xlsx':
+        return { format, ...this.parseXlsx(buffer, options.sheetName) };
+      default:
+        throw new BadRequestException(`不支持的文件格式: ${format}`);
+    }
+  }
+
+  private decodeText(buffer: Buffer): string {
+    // 去掉 Excel 导出 CSV 时常带的 UTF-8 BOM
+    return buffer.toString('utf8').replace(/^\uFEFF/, '');
+  }
+
+  /**
+   * 解析 CSV（RFC 4180）：支持引号包裹、字段内换行和 "" 转义
+   */
+  private parseCsv(text: string, delimiter?: string): Record<string, any>[] {
+    const separator = delimiter || this.detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        inQuotes = true;
+      } else if (char === separator) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new BadRequestException('CSV 文件格式错误：引号未闭合');
+    }
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return this.buildRecords(rows.map(cells => cells.map(cell => this.convertCsvValue(cell))));
+  }
+
+  /**
+   * 按首行中出现次数最多的候选分隔符识别 CSV 分隔符
+   */
+  private detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    let best = ',';
+    let bestCount = 0;
+    CSV_DELIMITERS.forEach(candidate => {
+      const count = firstLine.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * CSV 单元格均为文本，按内容还原数字、布尔和空值，便于后续类型推断
+   */
+  private convertCsvValue(value: string): any {
+    const trimmed = value.trim();
+    if (trimmed === '') {
+      return null;
+    }
+    // 超出安全整数范围的长编号保留为文本，避免精度丢失
+    if (NUMERIC_PATTERN.test(trimmed) && (/[.eE]/.test(trimmed) || Number.isSafeInteger(Number(trimmed)))) {
+      return Number(trimmed);
+    }
+    const lower = trimmed.toLowerCase();
+    if (lower === 'true' || lower === 'false') {
+      return lower === 'true';
+    }
+    return value;
+  }
+
+  /**
+   * 解析 JSON：支持对象数组，或包含对象数组的包装对象（取第一个数组字段）
+   */
+  private parseJson(text: string): Record<string, any>[] {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new BadRequestException(`JSON 文件格式错误: ${error.message}`);
+    }
+
+    if (Array.isArray(data)) {
+      return data.map(item => this.toRecord(item));
+    }
+    if (data && typeof data === 'object') {
+      const arrayValue = Object.values(data).find(value => Array.isArray(value)) as any[] | undefined;
+      return arrayValue ? arrayValue.map(item => this.toRecord(item)) : [data];
+    }
+    throw new BadRequestException('JSON 文件需为对象数组或包含数组的对象');
+  }
+
+  /**
+   * 解析 NDJSON：每行一个 JSON 对象，空行忽略
+   */
+  private parseNdjson(text: string): Record<string, any>[] {
+    const records: Record<string, any>[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        records.push(this.toRecord(JSON.parse(line)));
+      } catch (error) {
+        throw new BadRequestException(`NDJSON 第 ${index + 1} 行格式错误: ${error.message}`);
+      }
+    });
+    return records;
+  }
+
+  private toRecord(item: any): Record<string, any> {
+    return item && typeof item === 'object' && !Array.isArray(item) ? item : { value: item };
+  }
+
+  /**
+   * 解析 Excel(xlsx)：读取压缩包内的工作簿、共享字符串、样式和工作表 XML
+   */
+  private parseXlsx(buffer: Buffer, sheetName?: string): { records: Record<string, any>[]; sheetName: string } {
+    const entries = this.readZipDirectory(buffer);
+    // 只解压用到的文件，并限制解压后的合计大小
+    let remainingSize = MAX_XLSX_UNCOMPRESSED_SIZE;
+    const readXml = (path: string): string | undefined => {
+      const entry = entries.get(path);
+      if (!entry) {
+        return undefined;
+      }
+      const data = this.readZipEntry(buffer, entry, remainingSize);
+      remainingSize -= data.length;
+      return data.toString('utf8');
+    };
+
+    const workbookXml = readXml('xl/workbook.xml');
+    if (!workbookXml) {
+      throw new BadRequestException('Excel 文件格式错误：缺少工作簿');
+    }
+
+    const sheets = this.matchAll(workbookXml, /<sheet\b([^>]*?)\/?>/g).map(match => ({
+      name: this.decodeXml(this.readAttribute(match[1], 'name') || ''),
+      relationId: this.readAttribute(match[1], 'r:id'),
+    }));
+    const sheet = sheetName ? sheets.find(item => item.name === sheetName) : sheets[0];
+    if (!sheet) {
+      throw new BadRequestException(sheetName ? `工作表 ${sheetName} 不存在` : 'Excel 文件中没有工作表');
+    }
+
+    const relations = new Map(
+      this.matchAll(readXml('xl/_rels/workbook.xml.rels') || '', /<Relationship\b([^>]*?)\/?>/g).map(match => [
+        this.readAttribute(match[1], 'Id'),
+        this.readAttribute(match[1], 'Target'),
+      ]),
+    );
+    const target = relations.get(sheet.relationId) || '';
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheetXml = readXml(sheetPath);
+    if (!sheetXml) {
+      throw new BadRequestException(`Excel 文件格式错误：无法读取工作表 ${sheet.name}`);
+    }
+
+    const sharedStrings = this.matchAll(readXml('xl/sharedStrings.xml') || '', /<si>([\s\S]*?)<\/si>/g).map(match =>
+      this.readText(match[1]),
+    );
+    const dateStyles = this.readDateStyles(readXml('xl/styles.xml') || '');
+
+    const rows: any[][] = [];
+    this.matchAll(sheetXml, /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g).forEach(rowMatch => {
+      const cells: any[] = [];
+      let nextColumn = 0;
+      this.matchAll(rowMatch[1] || '', /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g).forEach(cellMatch => {
+        const reference = this.readAttribute(cellMatch[1], 'r');
+        const column = reference ? this.columnIndex(reference) : nextColumn;
+        cells[column] = this.readCellValue(cellMatch[1], cellMatch[2] || '', sharedStrings, dateStyles);
+        nextColumn = column + 1;
+      });
+      rows.push(Array.from(cells, cell => (cell === undefined ? null : cell)));
+    });
+
+    return { records: this.buildRecords(rows), sheetName: sheet.name };
+  }
+
+  private readCellValue(attributes: string, content: string, sharedStrings: string[], dateStyles: Set<number>): any {
+    const type = this.readAttribute(attributes, 't');
+    const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+    switch (type) {
+      case 's':
+        return rawValue === undefined ? null : sharedStrings[Number(rawValue)] ?? null;
+      case 'inlineStr':
+        return this.readText(content);
+      case 'b':
+        return rawValue === undefined ? null : rawValue === '1';
+      case 'str':
+      case 'e':
+        return rawValue === undefined ? null : this.decodeXml(rawValue);
+      default: {
+        if (rawValue === undefined || rawValue === '') {
+          return null;
+        }
+        const number = Number(rawValue);
+        const style = Number(this.readAttribute(attributes, 's') || 0);
+        if (dateStyles.has(style) && Number.isFinite(number)) {
+          return this.excelSerialToIso(number);
+        }
+        return Number.isFinite(number) ? number : this.decodeXml(rawValue);
+      }
+    }
+  }
+
+  /**
+   * 找出使用日期格式的单元格样式序号（cellXfs 中的下标）
+   */
+  private readDateStyles(stylesXml: string): Set<number> {
+    const customDateFormats = new Set(
+      this.matchAll(stylesXml, /<numFmt\b([^>]*?)\/?>/g)
+        .filter(match => {
+          // 去掉引号内的文本和颜色等方括号段后再判断是否包含日期占位符
+          const code = this.decodeXml(this.readAttribute(match[1], 'formatCode') || '')
+            .replace(/"[^"]*"|\[[^\]]*\]/g, '');
+          return /[dmyhs]/i.test(code);
+        })
+        .map(match => Number(this.readAttribute(match[1], 'numFmtId'))),
+    );
+
+    const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+    const dateStyles = new Set<number>();
+    this.matchAll(cellXfs, /<xf\b([^>]*?)\/?>/g).forEach((match, index) => {
+      const formatId = Number(this.readAttribute(match[1], 'numFmtId') || 0);
+      if (EXCEL_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index);
+      }
+    });
+    return dateStyles;
+  }
+
+  private excelSerialToIso(serial: number): string {
+    const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET_DAYS) * 86400000));
+    // 纯日期不带时间部分，避免分析时被当作时间戳
+    return Number.isInteger(serial) ? date.toISOString().slice(0, 10) : date.toISOString();
+  }
+
+  /**
+   * 将单元格引用（如 AB12）的列字母转为从 0 开始的列序号
+   */
+  private columnIndex(reference: string): number {
+    const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+    let index = 0;
+    for (const letter of letters) {
+      index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+  }
+
+  /**
+   * 读取 zip 压缩包的中央目录（不解压），偏移和长度越界时视为文件损坏
+   */
+  private readZipDirectory(buffer: Buffer): Map<string, ZipEntry> {
+    const entries = new Map<string, ZipEntry>();
+    let endOffset = -1;
+    // 中央目录结束记录位于文件末尾，其后最多带 65535 字节的注释
+    for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+      if (buffer.readUInt32LE(offset) === 0x06054b50) {
+        endOffset = offset;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new BadRequestException('Excel 文件格式错误：不是有效的 xlsx 文件');
+    }
+
+    const entryCount = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > endOffset || buffer.readUInt32LE(offset) !== 0x02014b50) {
+        throw new BadRequestException('Excel 文件格式错误：压缩目录损坏');
+      }
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      if (offset + 46 + nameLength > endOffset) {
+        throw new BadRequestException('Excel 文件格式错误：压缩目录损坏');
+      }
+      const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+      entries.set(name, { method, compressedSize, localOffset });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * 解压单个文件（仅支持存储和 deflate 两种压缩方式），解压后超过 maxSize 时拒绝
+   */
+  private readZipEntry(buffer: Buffer, entry: ZipEntry, maxSize: number): Buffer {
+    const { method, compressedSize, localOffset } = entry;
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new BadRequestException('Excel 文件格式错误：压缩文件损坏');
+    }
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new BadRequestException('Excel 文件格式错误：压缩文件损坏');
+    }
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      if (data.length > maxSize) {
+        throw new BadRequestException('Excel 文件解压后内容过大');
+      }
+      return data;
+    }
+    if (method !== 8) {
+      throw new BadRequestException(`Excel 文件格式错误：不支持的压缩方式 ${method}`);
+    }
+
+    try {
+      return inflateRawSync(data, { maxOutputLength: Math.max(maxSize, 1) });
+    } catch (error) {
+      if (error.code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new BadRequestException('Excel 文件解压后内容过大');
+      }
+      throw new BadRequestException(`Excel 文件格式错误：${error.message}`);
+    }
+  }
+
+  /**
+   * 以首行为字段名生成记录：空字段名按列序号命名，重名字段追加序号，整行为空的行忽略
+   */
+  private buildRecords(rows: any[][]): Record<string, any>[] {
+    const [headerRow, ...dataRows] = rows.filter(row => row.some(cell => cell !== null && cell !== ''));
+    if (!headerRow) {
+      return [];
+    }
+
+    const usedNames = new Set<string>();
+    const headers = headerRow.map((cell, index) => {
+      const baseName = cell === null || String(cell).trim() === '' ? `column_${index + 1}` : String(cell).trim();
+      let name = baseName;
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${baseName}_${suffix}`;
+      }
+      usedNames.add(name);
+      return name;
+    });
+
+    return dataRows.map(row => {
+      const record: Record<string, any> = {};
+      headers.forEach((header, index) => {
+        record[header] = row[index] ?? null;
+      });
+      return record;
+    });
+  }
+
+  private matchAll(text: string, pattern: RegExp): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      matches.push(match);
+    }
+    return matches;
+  }
+
+  private readAttribute(attributes: string, name: string): string | undefined {
+    const escapedName = name.replace(':', '\\:');
+    return attributes.match(new RegExp(`(?:^|\\s)${escapedName}="([^"]*)"`))?.[1];
+  }
+
+  /**
+   * 拼接元素内全部 <t> 文本（富文本单元格由多段组成）
+   */
+  private readText(xml: string): string {
+    return this.matchAll(xml, /<t\b[^>]*>([\s\S]*?)<\/t>/g)
+      .map(match => this.decodeXml(match[1]))
+      .join('');
+  }
+
+  private decodeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+      }
+      return XML_ENTITIES[code] ?? entity;
+    });
+  }
+}
@@ -1,2 +1,9 @@
 export { CurlParserService, ParsedCurlConfig } from './curl-parser.service';
-export { SchemaAnalysisService, FieldAnalysis, SchemaAnalysisResult } from './schema-analysis.service';
\ No newline at end of file
+export { SchemaAnalysisService, FieldAnalysis, SchemaAnalysisResult } from './schema-analysis.service';
+export { RequestTemplateService, RequestTemplateContext } from './request-template.service';
+export { FileParserService, DataFileFormat, FileParseOptions, ParsedDataFile } from './file-parser.service';
+export { ExpressionParser, ExpressionNode, ExpressionFunction, BinaryOperator, EXPRESSION_FUNCTIONS } from './expression-parser';
+export { ExpressionSqlCompiler } from './expression-sql-compiler';
+export { TransformPipelineService, TransformStep, TransformStepType, TransformCastType, TransformPreviewResult } from './transform-pipeline.service';
+export { TimeBucket, TimeBucketUnit, TimeBucketDialect, TimeBucketOptions, TIME_BUCKET_UNITS } from './time-bucket';
+export { NumericBinning, NumericBins, NumericSummary, BinMethod, BIN_METHODS } from './numeric-bins';
@@ -0,0 +1,60 @@
+import { NumericBinning, NumericSummary } from './numeric-bins';
+
+describe('NumericBinning', () => {
+  const summary: NumericSummary = { count: 100, min: 0, q1: 20, median: 50, q3: 30, max: 100 };
+
+  it('应该按 Sturges 和 Freedman-Diaconis 公式计算等宽分箱', () => {
+    // Sturges: ceil(log2(100)) + 1 = 8 个分箱
+    expect(NumericBinning.fromSummary(summary, 'sturges', 100)).toEqual({
+      edges: [0, 12.5, 25, 37.5, 50, 62.5, 75, 87.5, 100],
+      width: 12.5,
+    });
+    // Freedman-Diaconis: 2 * 10 / 100^(1/3) ≈ 4.31，需要 24 个分箱
+    const freedmanDiaconis = NumericBinning.fromSummary(summary, 'freedman_diaconis', 100);
+    expect(freedmanDiaconis.edges).toHaveLength(25);
+    expect(freedmanDiaconis.edges[24]).toBe(100);
+    // auto 取较小的宽度，并受分箱数上限约束
+    expect(NumericBinning.fromSummary(summary, 'auto', 100).edges).toHaveLength(25);
+    expect(NumericBinning.fromSummary(summary, 'auto', 10).width).toBe(10);
+  });
+
+  it('四分位距为 0 或只有一个取值时应该退回可用的分箱', () => {
+    expect(NumericBinning.fromSummary({ ...summary, q1: 5, q3: 5 }, 'freedman_diaconis', 100).width).toBe(12.5);
+    expect(NumericBinning.fromSummary({ count: 3, min: 7, q1: 7, median: 7, q3: 7, max: 7 }, 'auto', 100)).toEqual({
+      edges: [7, 7],
+    });
+    expect(NumericBinning.fromSummary({ count: 0, min: 0, q1: 0, median: 0, q3: 0, max: 0 }, 'auto', 100)).toEqual({
+      edges: [],
+    });
+  });
+
+  it('应该生成分箱序号的 SQL 表达式和范围条件', () => {
+    expect(NumericBinning.expression('data.amount', { edges: [-5, 0, 5], width: 5 })).toBe(
+      'LEAST(FLOOR((data.amount - (-5)) / 5), 1)',
+    );
+    expect(NumericBinning.expression('data.amount', { edges: [0, 10, 100] })).toBe(
+      'CASE WHEN data.amount >= 0 AND data.amount < 10 THEN 0 WHEN data.amount >= 10 AND data.amount <= 100 THEN 1 END',
+    );
+    expect(NumericBinning.rangeCondition('data.amount', { edges: [0, 10, 100] })).toBe(
+      'data.amount BETWEEN 0 AND 100',
+    );
+    expect(NumericBinning.label({ edges: [0, 1 / 3, 1] }, 0)).toBe('[0, 0.333333)');
+    expect(NumericBinning.label({ edges: [0, 1 / 3, 1] }, 1)).toBe('[0.333333, 1]');
+  });
+
+  it('应该拒绝无效的自定义边界', () => {
+    expect(() => NumericBinning.fromEdges([1], 100)).toThrow('自定义分箱至少需要 2 个边界');
+    expect(() => NumericBinning.fromEdges([0, 10, 10], 100)).toThrow('分箱边界必须严格递增');
+    expect(() => NumericBinning.fromEdges([0, Infinity], 100)).toThrow('无效的分箱边界');
+    expect(() => NumericBinning.fromEdges([0, 1, 2, 3], 2)).toThrow('分箱数不能超过 2 个');
+  });
+
+  it('应该按名次线性插值计算分位数', () => {
+    const values = [1, 2, 4, 8, 16];
+    const valueAt = (rank: number) => values[rank - 1];
+    expect(NumericBinning.quantileRanks(5, 0.25)).toEqual([2, 2]);
+    expect(NumericBinning.quantile(valueAt, 5, 0.25)).toBe(2);
+    expect(NumericBinning.quantile(valueAt, 4, 0.5)).toBe(3);
+    expect(NumericBinning.quantile(valueAt, 4, 0.75)).toBe(5);
+  });
+});
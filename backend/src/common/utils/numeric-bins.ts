@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type BinMethod = 'auto' | 'sturges' | 'freedman_diaconis' | 'edges';
+
+export const BIN_METHODS: BinMethod[] = ['auto', 'sturges', 'freedman_diaconis', 'edges'];
+
+export interface NumericBins {
+  edges: number[]; // n 个分箱对应 n + 1 个边界，分箱为左闭右开，最后一个分箱包含右边界
+  width?: number; // 等宽分箱的宽度，自定义边界时为空
+}
+
+// 数值字段的分位数概要，分位数按线性插值计算
+export interface NumericSummary {
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+}
+
+/**
+ * 数值分箱
+ * 分箱在 SQL 中计算为从 0 开始的分箱序号，边界和分箱宽度作为数字字面量写入 SQL
+ */
+export class NumericBinning {
+  /**
+   * Sturges 公式：分箱数为 log2(n) + 1，适合接近正态分布的数据
+   */
+  static sturgesWidth(summary: NumericSummary): number {
+    const binCount = Math.ceil(Math.log2(summary.count)) + 1;
+    return (summary.max - summary.min) / binCount;
+  }
+
+  /**
+   * Freedman-Diaconis 公式：宽度为 2 * IQR / n^(1/3)，对异常值不敏感
+   */
+  static freedmanDiaconisWidth(summary: NumericSummary): number {
+    return (2 * (summary.q3 - summary.q1)) / Math.cbrt(summary.count);
+  }
+
+  /**
+   * 按数据概要自动计算等宽分箱
+   * auto 与 numpy 一致取两种公式中较小的宽度，四分位距为 0 时退回 Sturges
+   */
+  static fromSummary(summary: NumericSummary, method: Exclude<BinMethod, 'edges'>, maxBins: number): NumericBins {
+    if (summary.count === 0) {
+      return { edges: [] };
+    }
+    if (summary.min === summary.max) {
+      return { edges: [summary.min, summary.max] };
+    }
+
+    const sturges = NumericBinning.sturgesWidth(summary);
+    const freedmanDiaconis = NumericBinning.freedmanDiaconisWidth(summary);
+    let width: number;
+    switch (method) {
+      case 'sturges':
+        width = sturges;
+        break;
+      case 'freedman_diaconis':
+        width = freedmanDiaconis > 0 ? freedmanDiaconis : sturges;
+        break;
+      case 'auto':
+        width = freedmanDiaconis > 0 ? Math.min(freedmanDiaconis, sturges) : sturges;
+        break;
+      default:
+        throw new BadRequestException(`不支持的分箱方式: ${method}`);
+    }
+
+    // 按分箱数重新计算宽度，使边界恰好覆盖最小值到最大值
+    const range = summary.max - summary.min;
+    const binCount = Math.min(maxBins, Math.max(1, Math.ceil(range / width)));
+    width = range / binCount;
+    const edges = Array.from({ length: binCount }, (_, index) => summary.min + index * width);
+    edges.push(summary.max);
+    return { edges, width };
+  }
+
+  /**
+   * 使用自定义的分箱边界，边界必须严格递增
+   */
+  static fromEdges(edges: number[], maxBins: number): NumericBins {
+    if (edges.length < 2) {
+      throw new BadRequestException('自定义分箱至少需要 2 个边界');
+    }
+    if (edges.length > maxBins + 1) {
+      throw new BadRequestException(`分箱数不能超过 ${maxBins} 个`);
+    }
+    edges.forEach((edge, index) => {
+      if (typeof edge !== 'number' || !Number.isFinite(edge)) {
+        throw new BadRequestException(`无效的分箱边界: ${edge}`);
+      }
+      if (index > 0 && edge <= edges[index - 1]) {
+        throw new BadRequestException('分箱边界必须严格递增');
+      }
+    });
+    return { edges: [...edges] };
+  }
+
+  /**
+   * 生成计算分箱序号的 SQL 表达式，超出边界的值为 NULL
+   */
+  static expression(fieldPath: string, bins: NumericBins): string {
+    const { edges, width } = bins;
+    if (edges.length < 2) {
+      return 'NULL';
+    }
+    const last = edges.length - 2;
+    if (width) {
+      // 最大值恰好落在右边界上，归入最后一个分箱
+      return `LEAST(FLOOR((${fieldPath} - ${NumericBinning.sqlNumber(edges[0])}) / ${NumericBinning.sqlNumber(width)}), ${last})`;
+    }
+
+    const cases = edges.slice(0, -1).map((start, index) => {
+      const upper = index === last ? '<=' : '<';
+      return `WHEN ${fieldPath} >= ${NumericBinning.sqlNumber(start)} AND ${fieldPath} ${upper} ${NumericBinning.sqlNumber(edges[index + 1])} THEN ${index}`;
+    });
+    return `CASE ${cases.join(' ')} END`;
+  }
+
+  /**
+   * 只保留落在分箱范围内的值
+   */
+  static rangeCondition(fieldPath: string, bins: NumericBins): string {
+    const { edges } = bins;
+    if (edges.length < 2) {
+      return '1 = 0';
+    }
+    return `${fieldPath} BETWEEN ${NumericBinning.sqlNumber(edges[0])} AND ${NumericBinning.sqlNumber(edges[edges.length - 1])}`;
+  }
+
+  /**
+   * 分箱的显示名称，如 [10, 20)
+   */
+  static label(bins: NumericBins, index: number): string {
+    const start = NumericBinning.format(bins.edges[index]);
+    const end = NumericBinning.format(bins.edges[index + 1]);
+    return index === bins.edges.length - 2 ? `[${start}, ${end}]` : `[${start}, ${end})`;
+  }
+
+  /**
+   * 分位数 q 在 count 个有序值中用到的两个名次（从 1 开始）
+   */
+  static quantileRanks(count: number, q: number): [number, number] {
+    const position = (count - 1) * q;
+    return [Math.floor(position) + 1, Math.ceil(position) + 1];
+  }
+
+  /**
+   * 按名次取值并线性插值计算分位数
+   */
+  static quantile(valueAt: (rank: number) => number, count: number, q: number): number {
+    const [lowerRank, upperRank] = NumericBinning.quantileRanks(count, q);
+    const lower = valueAt(lowerRank);
+    const upper = valueAt(upperRank);
+    return lower + (upper - lower) * ((count - 1) * q - (lowerRank - 1));
+  }
+
+  /**
+   * 数字字面量，负数加括号避免与前面的减号连成注释符
+   */
+  static sqlNumber(value: number): string {
+    if (!Number.isFinite(value)) {
+      throw new BadRequestException(`无效的数值: ${value}`);
+    }
+    return value < 0 ? `(${value})` : String(value);
+  }
+
+  private static format(value: number): string {
+    return String(Number(value.toPrecision(6)));
+  }
+}
@@ -0,0 +1,147 @@
+import { BadRequestException } from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
+import { RequestTemplateService } from './request-template.service';
+
+describe('RequestTemplateService', () => {
+  let service: RequestTemplateService;
+  // 2024-03-15 10:30:00（本地时间）
+  const now = new Date(2024, 2, 15, 10, 30, 0);
+
+  beforeEach(() => {
+    service = new RequestTemplateService();
+  });
+
+  afterEach(() => {
+    delete process.env.FETCH_REGION;
+  });
+
+  describe('render', () => {
+    it('应该渲染日期变量及偏移', () => {
+      const result = service.render(
+        { start: '{{today-1d}}', end: '{{today}}', month: '{{now-1M|YYYY-MM}}' },
+        { now },
+      );
+
+      expect(result).toEqual({ start: '2024-03-14', end: '2024-03-15', month: '2024-02' });
+    });
+
+    it('整个字符串为单个模板时应该保留原始类型', () => {
+      const result = service.render(
+        { page: '{{page}}', size: '{{pageSize}}', ts: '{{timestamp}}', label: 'p{{page}}' },
+        { page: 3, pageSize: 50, now },
+      );
+
+      expect(result).toEqual({
+        page: 3,
+        size: 50,
+        ts: Math.floor(now.getTime() / 1000),
+        label: 'p3',
+      });
+    });
+
+    it('应该按页码计算偏移量', () => {
+      expect(service.render('{{offset}}', { page: 3, pageSize: 20 })).toBe(40);
+    });
+
+    it('应该渲染会话变量，并支持变量中再引用模板', () => {
+      const result = service.render('from={{var.since}}', {
+        now,
+        variables: { since: '{{today-7d}}' },
+      });
+
+      expect(result).toBe('from=2024-03-08');
+    });
+
+    it('会话变量循环引用时应该报错', () => {
+      expect(() =>
+        service.render('{{var.a}}', { variables: { a: '{{var.b}}', b: '{{var.a}}' } }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('应该只允许读取 FETCH_ 前缀的环境变量', () => {
+      process.env.FETCH_REGION = 'cn-north';
+
+      expect(service.render('{{env.FETCH_REGION}}')).toBe('cn-north');
+      expect(() => service.render('{{env.DB_PASSWORD}}')).toThrow(BadRequestException);
+    });
+
+    it('应该保留密钥引用并对未知变量报错', () => {
+      expect(service.render('Bearer {{secret:crm_token}}')).toBe('Bearer {{secret:crm_token}}');
+      expect(() => service.render('{{unknown}}')).toThrow('未知的模板变量: {{unknown}}');
+    });
+  });
+
+  describe('签名函数', () => {
+    it('应该用预先解析的密钥计算 HMAC 签名，其余参数依次拼接', () => {
+      const result = service.render(
+        { sign: "{{hmac_sha256(secret:app_secret, var.app_key, timestamp, 'GET')}}" },
+        { now, variables: { app_key: 'k1' }, secrets: { app_secret: 's3cr3t' } },
+      );
+
+      const message = `k1${Math.floor(now.getTime() / 1000)}GET`;
+      expect(result.sign).toBe(createHmac('sha256', 's3cr3t').update(message).digest('hex'));
+    });
+
+    it('应该支持摘要函数、嵌套函数和输出格式', () => {
+      const md5 = createHash('md5').update('a,b').digest('hex');
+
+      expect(service.render("{{md5('a,b')|HEX}}")).toBe(md5.toUpperCase());
+      expect(service.render("{{sha256(md5('a,b'), page)|base64}}", { page: 2 })).toBe(
+        createHash('sha256').update(`${md5}2`).digest('base64'),
+      );
+    });
+
+    it('密钥未解析或函数未知时应该报错', () => {
+      expect(() => service.render('{{hmac_sha256(secret:app_secret, page)}}')).toThrow(
+        '签名引用的密钥 app_secret 未解析',
+      );
+      expect(() => service.render("{{sha512('a')}}")).toThrow('未知的模板函数: sha512');
+      expect(() => service.render('{{hmac_sha1(page)}}')).toThrow(BadRequestException);
+    });
+
+    it('应该收集签名函数中引用的密钥名称', () => {
+      expect(
+        service.collectSecretNames({
+          headers: { sign: '{{hmac_sha256(secret:app_secret, var.body)}}', token: '{{secret:crm_token}}' },
+          variables: { body: "{{md5(secret:salt, 'x')}}" },
+        }),
+      ).toEqual(['app_secret', 'salt']);
+    });
+  });
+
+  describe('renderRedacted', () => {
+    it('环境变量、签名和 uuid 应该保留模板原文，其他变量照常渲染', () => {
+      process.env.FETCH_REGION = 'cn-north';
+
+      const result = service.renderRedacted(
+        {
+          region: '{{env.FETCH_REGION}}',
+          scoped: '{{var.scope}}',
+          sign: "{{md5('a')|HEX}}",
+          nonce: '{{uuid}}',
+          page: '{{page}}',
+        },
+        { page: 2, variables: { scope: 'r-{{env.FETCH_REGION}}' } },
+      );
+
+      expect(result).toEqual({
+        region: '{{env.FETCH_REGION}}',
+        scoped: 'r-{{env.FETCH_REGION}}',
+        sign: "{{md5('a')|HEX}}",
+        nonce: '{{uuid}}',
+        page: 2,
+      });
+    });
+  });
+
+  describe('renderUrl', () => {
+    it('应该渲染编码后的路径模板并保留查询串', () => {
+      const result = service.renderUrl(
+        'https://api.example.com/reports/%7B%7Btoday%7D%7D?page={{page}}',
+        { now },
+      );
+
+      expect(result).toBe('https://api.example.com/reports/2024-03-15?page={{page}}');
+    });
+  });
+});
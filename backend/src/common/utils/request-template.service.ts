@@ -0,0 +1,342 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { createHash, createHmac, randomUUID } from 'crypto';
+
+export interface RequestTemplateContext {
+  page?: number; // 当前页码（从1开始）
+  pageSize?: number;
+  variables?: Record<string, string>; // 会话变量，以 {{var.name}} 引用
+  now?: Date; // 求值时间，默认为当前时间
+  secrets?: Record<string, string>; // 签名函数中 secret:名称 参数的明文，由调用方预先解析
+}
+
+interface RenderContext extends RequestTemplateContext {
+  now: Date;
+  redact: boolean; // 为 true 时环境变量、签名和 uuid 保留模板原文
+}
+
+// 模板写法：{{表达式}} 或 {{表达式|格式}}，{{secret:name}} 由密钥服务处理，这里跳过
+const TEMPLATE_PATTERN = /\{\{\s*(?!secret:)([^{}|]+?)\s*(?:\|\s*([^{}]+?)\s*)?\}\}/g;
+
+// 时间变量偏移，如 today-1d、now+2h
+const TIME_EXPRESSION_PATTERN = /^(now|today|timestamp)(?:([+-])(\d+)([smhdwMy]))?$/;
+
+// 只允许读取该前缀的环境变量，避免模板读取数据库密码等服务端配置
+const ENV_PREFIX = 'FETCH_';
+
+// 签名函数写法：hmac_sha256(secret:app_secret, var.app_key, timestamp)，结果默认为十六进制
+const FUNCTION_PATTERN = /^([a-z0-9_]+)\((.*)\)$/s;
+const HASH_FUNCTIONS: Record<string, string> = { md5: 'md5', sha1: 'sha1', sha256: 'sha256' };
+const HMAC_FUNCTIONS: Record<string, string> = { hmac_sha1: 'sha1', hmac_sha256: 'sha256' };
+
+const SECRET_ARGUMENT_PATTERN = /^secret:([A-Za-z0-9_.-]+)$/;
+
+// 会话变量可以引用其他变量，限制展开层数防止循环引用
+const MAX_VARIABLE_DEPTH = 3;
+
+@Injectable()
+export class RequestTemplateService {
+  /**
+   * 渲染请求中的模板变量，支持字符串、数组和对象（只渲染值，不渲染键）
+   * 整个字符串只有一个模板时保留原始类型，如 {{page}} 渲染为数字
+   */
+  render<T>(value: T, context: RequestTemplateContext = {}): T {
+    return this.renderValue(value, { ...context, now: context.now || new Date(), redact: false }, 0);
+  }
+
+  /**
+   * 渲染用于展示和记录日志的副本：环境变量、签名函数和 uuid 保留模板原文，
+   * 避免明文写入日志，也避免记录与实际请求不一致的随机值
+   */
+  renderRedacted<T>(value: T, context: RequestTemplateContext = {}): T {
+    return this.renderValue(value, { ...context, now: context.now || new Date(), redact: true }, 0);
+  }
+
+  /**
+   * 渲染URL的主机和路径部分，兼容被 URL 编码过的模板（如 %7B%7Btoday%7D%7D）
+   * 查询串保持原样，由调用方解析为查询参数后随每次请求渲染；redact 为 true 时按 renderRedacted 渲染
+   */
+  renderUrl(url: string, context: RequestTemplateContext = {}, redact = false): string {
+    const queryIndex = url.indexOf('?');
+    const base = queryIndex >= 0 ? url.slice(0, queryIndex) : url;
+    const query = queryIndex >= 0 ? url.slice(queryIndex) : '';
+    const decoded = base.replace(/%7B%7B(.+?)%7D%7D/gi, (_, expression) => `{{${decodeURIComponent(expression)}}}`);
+    const rendered = redact ? this.renderRedacted(decoded, context) : this.render(decoded, context);
+    return `${rendered}${query}`;
+  }
+
+  /**
+   * 收集签名函数参数中引用的密钥名称，供调用方在渲染前解析为 context.secrets
+   */
+  collectSecretNames(value: any, names = new Set<string>()): string[] {
+    if (typeof value === 'string') {
+      for (const [, expression] of value.matchAll(TEMPLATE_PATTERN)) {
+        for (const [, name] of expression.matchAll(/\bsecret:([A-Za-z0-9_.-]+)/g)) {
+          names.add(name);
+        }
+      }
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach((child) => this.collectSecretNames(child, names));
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * 判断值中是否包含模板变量
+   */
+  hasTemplates(value: any): boolean {
+    if (typeof value === 'string') {
+      return new RegExp(TEMPLATE_PATTERN.source).test(value);
+    }
+    if (value && typeof value === 'object') {
+      return Object.values(value).some((child) => this.hasTemplates(child));
+    }
+    return false;
+  }
+
+  private renderValue(value: any, context: RenderContext, depth: number): any {
+    if (typeof value === 'string') {
+      return this.renderString(value, context, depth);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.renderValue(item, context, depth));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.renderValue(child, context, depth)]),
+      );
+    }
+    return value;
+  }
+
+  private renderString(text: string, context: RenderContext, depth: number): any {
+    const matches = Array.from(text.matchAll(TEMPLATE_PATTERN));
+    if (matches.length === 0) {
+      return text;
+    }
+
+    // 整个字符串就是一个模板时保留求值结果的类型
+    if (matches.length === 1 && matches[0][0] === text.trim()) {
+      const [, expression, format] = matches[0];
+      return this.evaluate(expression, format, context, depth);
+    }
+
+    return text.replace(TEMPLATE_PATTERN, (_, expression, format) =>
+      String(this.evaluate(expression, format, context, depth)),
+    );
+  }
+
+  private evaluate(
+    expression: string,
+    format: string | undefined,
+    context: RenderContext,
+    depth: number,
+  ): any {
+    const timeMatch = expression.match(TIME_EXPRESSION_PATTERN);
+    if (timeMatch) {
+      const [, name, sign, amount, unit] = timeMatch;
+      let date = new Date(context.now.getTime());
+      if (name === 'today') {
+        date.setHours(0, 0, 0, 0);
+      }
+      if (sign) {
+        date = this.shiftDate(date, (sign === '-' ? -1 : 1) * Number(amount), unit);
+      }
+      const defaultFormat = name === 'today' ? 'YYYY-MM-DD' : name === 'timestamp' ? 'unix' : 'iso';
+      return this.formatDate(date, format || defaultFormat);
+    }
+
+    if (expression === 'page') {
+      return context.page ?? 1;
+    }
+    if (expression === 'pageSize') {
+      return context.pageSize ?? 20;
+    }
+    if (expression === 'offset') {
+      return ((context.page ?? 1) - 1) * (context.pageSize ?? 20);
+    }
+    if (expression === 'uuid') {
+      return context.redact ? this.toTemplate(expression, format) : randomUUID();
+    }
+
+    const functionMatch = expression.match(FUNCTION_PATTERN);
+    if (functionMatch) {
+      return context.redact
+        ? this.toTemplate(expression, format)
+        : this.evaluateFunction(functionMatch[1], functionMatch[2], format, context, depth);
+    }
+
+    if (expression.startsWith('env.')) {
+      const name = expression.slice(4);
+      if (!name.startsWith(ENV_PREFIX)) {
+        throw new BadRequestException(`模板只能读取 ${ENV_PREFIX} 开头的环境变量: ${name}`);
+      }
+      if (process.env[name] === undefined) {
+        throw new BadRequestException(`环境变量 ${name} 未设置`);
+      }
+      return context.redact ? this.toTemplate(expression, format) : process.env[name];
+    }
+
+    if (expression.startsWith('var.')) {
+      const name = expression.slice(4);
+      const variable = context.variables?.[name];
+      if (variable === undefined || variable === null) {
+        throw new BadRequestException(`会话变量 ${name} 未定义`);
+      }
+      if (depth >= MAX_VARIABLE_DEPTH) {
+        throw new BadRequestException(`会话变量 ${name} 嵌套层数过多，请检查是否存在循环引用`);
+      }
+      return this.renderValue(variable, context, depth + 1);
+    }
+
+    throw new BadRequestException(`未知的模板变量: {{${expression}}}`);
+  }
+
+  /**
+   * 计算摘要或 HMAC 签名：除密钥外的参数依次拼接为待签名内容
+   * 参数可以是单引号字符串、secret:名称 或其他模板表达式（可嵌套函数）
+   */
+  private evaluateFunction(
+    name: string,
+    argumentText: string,
+    format: string | undefined,
+    context: RenderContext,
+    depth: number,
+  ): string {
+    const hashAlgorithm = HASH_FUNCTIONS[name];
+    const hmacAlgorithm = HMAC_FUNCTIONS[name];
+    if (!hashAlgorithm && !hmacAlgorithm) {
+      throw new BadRequestException(`未知的模板函数: ${name}`);
+    }
+
+    const values = this.splitArguments(argumentText).map((argument) =>
+      this.evaluateArgument(argument, context, depth),
+    );
+    if (hmacAlgorithm && values.length < 2) {
+      throw new BadRequestException(`${name} 至少需要密钥和待签名内容两个参数`);
+    }
+    if (values.length === 0) {
+      throw new BadRequestException(`${name} 缺少待签名内容`);
+    }
+
+    const digest = hmacAlgorithm
+      ? createHmac(hmacAlgorithm, values[0]).update(values.slice(1).join('')).digest()
+      : createHash(hashAlgorithm).update(values.join('')).digest();
+
+    switch (format || 'hex') {
+      case 'hex':
+        return digest.toString('hex');
+      case 'HEX':
+        return digest.toString('hex').toUpperCase();
+      case 'base64':
+        return digest.toString('base64');
+      default:
+        throw new BadRequestException(`签名结果格式只支持 hex、HEX、base64: ${format}`);
+    }
+  }
+
+  /**
+   * 按顶层逗号拆分函数参数，忽略引号和嵌套括号中的逗号
+   */
+  private splitArguments(text: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let depth = 0;
+    let quoted = false;
+    for (const char of text) {
+      if (char === "'") {
+        quoted = !quoted;
+      } else if (!quoted && char === '(') {
+        depth++;
+      } else if (!quoted && char === ')') {
+        depth--;
+      } else if (!quoted && depth === 0 && char === ',') {
+        args.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    if (quoted || depth !== 0) {
+      throw new BadRequestException(`模板函数参数格式错误: ${text}`);
+    }
+    if (current.trim() !== '' || args.length > 0) {
+      args.push(current.trim());
+    }
+    return args;
+  }
+
+  private evaluateArgument(argument: string, context: RenderContext, depth: number): string {
+    if (argument.length >= 2 && argument.startsWith("'") && argument.endsWith("'")) {
+      return argument.slice(1, -1);
+    }
+
+    const secretMatch = argument.match(SECRET_ARGUMENT_PATTERN);
+    if (secretMatch) {
+      const secret = context.secrets?.[secretMatch[1]];
+      if (secret === undefined) {
+        throw new BadRequestException(`签名引用的密钥 ${secretMatch[1]} 未解析`);
+      }
+      return secret;
+    }
+
+    return String(this.evaluate(argument, undefined, context, depth));
+  }
+
+  private toTemplate(expression: string, format: string | undefined): string {
+    return format ? `{{${expression}|${format}}}` : `{{${expression}}}`;
+  }
+
+  private shiftDate(date: Date, amount: number, unit: string): Date {
+    const result = new Date(date.getTime());
+    switch (unit) {
+      case 's':
+        result.setSeconds(result.getSeconds() + amount);
+        break;
+      case 'm':
+        result.setMinutes(result.getMinutes() + amount);
+        break;
+      case 'h':
+        result.setHours(result.getHours() + amount);
+        break;
+      case 'd':
+        result.setDate(result.getDate() + amount);
+        break;
+      case 'w':
+        result.setDate(result.getDate() + amount * 7);
+        break;
+      case 'M':
+        result.setMonth(result.getMonth() + amount);
+        break;
+      case 'y':
+        result.setFullYear(result.getFullYear() + amount);
+        break;
+    }
+    return result;
+  }
+
+  /**
+   * 格式化时间：iso、unix（秒）、unix_ms（毫秒），或 YYYY/MM/DD/HH/mm/ss 组成的格式
+   */
+  private formatDate(date: Date, format: string): string | number {
+    if (format === 'iso') {
+      return date.toISOString();
+    }
+    if (format === 'unix') {
+      return Math.floor(date.getTime() / 1000);
+    }
+    if (format === 'unix_ms') {
+      return date.getTime();
+    }
+
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const tokens: Record<string, string> = {
+      YYYY: String(date.getFullYear()),
+      MM: pad(date.getMonth() + 1),
+      DD: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds()),
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+  }
+}
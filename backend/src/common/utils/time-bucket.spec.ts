@@ -0,0 +1,68 @@
+import { TimeBucket } from './time-bucket';
+
+describe('TimeBucket', () => {
+  it('应该生成 MySQL 分桶表达式，需要时先转换时区', () => {
+    expect(TimeBucket.expression('mysql', 'data.created_at', 'month', { sourceTimezone: '+08:00' })).toBe(
+      "DATE_FORMAT(data.created_at, '%Y-%m-01 00:00:00')",
+    );
+    expect(
+      TimeBucket.expression('mysql', 'data.created_at', 'hour', { sourceTimezone: '+08:00', timezone: '+00:00' }),
+    ).toBe("DATE_FORMAT(CONVERT_TZ(data.created_at, '+08:00', '+00:00'), '%Y-%m-%d %H:00:00')");
+    expect(TimeBucket.expression('mysql', 'data.created_at', 'week', { sourceTimezone: '+08:00' })).toBe(
+      "DATE_FORMAT(DATE_SUB(data.created_at, INTERVAL WEEKDAY(data.created_at) DAY), '%Y-%m-%d 00:00:00')",
+    );
+    expect(TimeBucket.expression('mysql', 'data.created_at', 'quarter', { sourceTimezone: '+08:00' })).toBe(
+      "CONCAT(YEAR(data.created_at), '-', LPAD(QUARTER(data.created_at) * 3 - 2, 2, '0'), '-01 00:00:00')",
+    );
+  });
+
+  it('应该生成 Postgres 分桶表达式，偏移量按 INTERVAL 传入', () => {
+    expect(TimeBucket.expression('postgres', 'data.created_at', 'week', { sourceTimezone: '+00:00' })).toBe(
+      "TO_CHAR(DATE_TRUNC('week', data.created_at), 'YYYY-MM-DD HH24:MI:SS')",
+    );
+    expect(
+      TimeBucket.expression('postgres', 'data.created_at', 'day', {
+        sourceTimezone: '+00:00',
+        timezone: 'Asia/Shanghai',
+      }),
+    ).toBe(
+      "TO_CHAR(DATE_TRUNC('day', ((data.created_at) AT TIME ZONE INTERVAL '+00:00') AT TIME ZONE 'Asia/Shanghai'), 'YYYY-MM-DD HH24:MI:SS')",
+    );
+  });
+
+  it('应该拒绝无效的时区和时间粒度', () => {
+    expect(() =>
+      TimeBucket.expression('mysql', 'data.created_at', 'day', { sourceTimezone: '+08:00', timezone: "UTC'; --" }),
+    ).toThrow("无效的时区: UTC'; --");
+    expect(() =>
+      TimeBucket.expression('mysql', 'data.created_at', 'day', { sourceTimezone: '+08:00', timezone: 'Mars/Base' }),
+    ).toThrow('无效的时区');
+    expect(() => TimeBucket.expression('mysql', 'data.created_at', 'decade' as any, { sourceTimezone: '+08:00' })).toThrow(
+      '不支持的时间粒度: decade',
+    );
+  });
+
+  it('应该补齐首尾之间的全部分桶', () => {
+    expect(TimeBucket.sequence('2024-01-30 00:00:00', '2024-02-02 00:00:00', 'day', 100)).toEqual([
+      '2024-01-30 00:00:00',
+      '2024-01-31 00:00:00',
+      '2024-02-01 00:00:00',
+      '2024-02-02 00:00:00',
+    ]);
+    expect(TimeBucket.sequence('2023-10-01 00:00:00', '2024-04-01 00:00:00', 'quarter', 100)).toEqual([
+      '2023-10-01 00:00:00',
+      '2024-01-01 00:00:00',
+      '2024-04-01 00:00:00',
+    ]);
+    expect(() => TimeBucket.sequence('2024-01-01 00:00:00', '2024-01-01 05:00:00', 'minute', 60)).toThrow(
+      '时间范围内的分组数超过 60 个',
+    );
+  });
+
+  it('应该按粒度生成分桶名称', () => {
+    expect(TimeBucket.label('2024-03-01 00:00:00', 'month')).toBe('2024-03');
+    expect(TimeBucket.label('2024-07-01 00:00:00', 'quarter')).toBe('2024-Q3');
+    expect(TimeBucket.label('2024-03-05 14:00:00', 'hour')).toBe('2024-03-05 14:00');
+    expect(TimeBucket.label('2024-03-04 00:00:00', 'week')).toBe('2024-03-04');
+  });
+});
@@ -0,0 +1,185 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type TimeBucketUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const TIME_BUCKET_UNITS: TimeBucketUnit[] = ['minute', 'hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+export type TimeBucketDialect = 'mysql' | 'postgres';
+
+export interface TimeBucketOptions {
+  sourceTimezone: string; // 日期列写入时使用的时区偏移，如 +08:00
+  timezone?: string; // 分桶所用的时区，偏移量或 IANA 名称，为空时不转换
+}
+
+const OFFSET_PATTERN = /^[+-](?:0\d|1[0-4]):[0-5]\d$/;
+const ZONE_NAME_PATTERN = /^[A-Za-z]+(?:\/[A-Za-z0-9_+-]+)*$/;
+const BUCKET_PATTERN = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/;
+
+/**
+ * 时间分桶
+ * 分桶值统一为分桶起点的本地时间字符串 `YYYY-MM-DD HH:mm:ss`，避免驱动按连接时区再次转换
+ */
+export class TimeBucket {
+  /**
+   * 时区只允许偏移量或 IANA 名称，二者都会直接写入 SQL
+   */
+  static isValidTimezone(timezone: string): boolean {
+    if (OFFSET_PATTERN.test(timezone)) {
+      return true;
+    }
+    if (!ZONE_NAME_PATTERN.test(timezone)) {
+      return false;
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 当前进程所在时区的偏移量，驱动未指定时区时按本地时间写入日期
+   */
+  static systemOffset(date = new Date()): string {
+    const minutes = -date.getTimezoneOffset();
+    const sign = minutes < 0 ? '-' : '+';
+    const absolute = Math.abs(minutes);
+    return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+  }
+
+  /**
+   * 生成把日期列截断到分桶起点的 SQL 表达式
+   * MySQL 使用 IANA 时区名称时需要已导入时区表，否则 CONVERT_TZ 返回 NULL，可改用偏移量
+   */
+  static expression(
+    dialect: TimeBucketDialect,
+    fieldPath: string,
+    unit: TimeBucketUnit,
+    options: TimeBucketOptions,
+  ): string {
+    if (!TIME_BUCKET_UNITS.includes(unit)) {
+      throw new BadRequestException(`不支持的时间粒度: ${unit}`);
+    }
+    [options.sourceTimezone, options.timezone].forEach(timezone => {
+      if (timezone && !TimeBucket.isValidTimezone(timezone)) {
+        throw new BadRequestException(`无效的时区: ${timezone}`);
+      }
+    });
+
+    const convert = options.timezone && options.timezone !== options.sourceTimezone;
+    if (dialect === 'postgres') {
+      const local = convert
+        ? `((${fieldPath}) AT TIME ZONE ${TimeBucket.postgresZone(options.sourceTimezone)}) AT TIME ZONE ${TimeBucket.postgresZone(options.timezone)}`
+        : fieldPath;
+      return `TO_CHAR(DATE_TRUNC('${unit}', ${local}), 'YYYY-MM-DD HH24:MI:SS')`;
+    }
+
+    const local = convert ? `CONVERT_TZ(${fieldPath}, '${options.sourceTimezone}', '${options.timezone}')` : fieldPath;
+    switch (unit) {
+      case 'minute':
+        return `DATE_FORMAT(${local}, '%Y-%m-%d %H:%i:00')`;
+      case 'hour':
+        return `DATE_FORMAT(${local}, '%Y-%m-%d %H:00:00')`;
+      case 'day':
+        return `DATE_FORMAT(${local}, '%Y-%m-%d 00:00:00')`;
+      case 'week':
+        // 与 Postgres 的 DATE_TRUNC('week') 一致，以周一为一周的开始
+        return `DATE_FORMAT(DATE_SUB(${local}, INTERVAL WEEKDAY(${local}) DAY), '%Y-%m-%d 00:00:00')`;
+      case 'month':
+        return `DATE_FORMAT(${local}, '%Y-%m-01 00:00:00')`;
+      case 'quarter':
+        return `CONCAT(YEAR(${local}), '-', LPAD(QUARTER(${local}) * 3 - 2, 2, '0'), '-01 00:00:00')`;
+      case 'year':
+        return `DATE_FORMAT(${local}, '%Y-01-01 00:00:00')`;
+    }
+  }
+
+  /**
+   * 生成 first 到 last（含）之间的全部分桶，用于补齐没有数据的分桶
+   */
+  static sequence(first: string, last: string, unit: TimeBucketUnit, maxBuckets: number): string[] {
+    const buckets: string[] = [];
+    let current = TimeBucket.parse(first);
+    const end = TimeBucket.parse(last);
+
+    while (current.getTime() <= end.getTime()) {
+      if (buckets.length >= maxBuckets) {
+        throw new BadRequestException(`时间范围内的分组数超过 ${maxBuckets} 个，请选择更大的时间粒度或添加筛选条件`);
+      }
+      buckets.push(TimeBucket.format(current));
+      current = TimeBucket.step(current, unit);
+    }
+    return buckets;
+  }
+
+  /**
+   * 分桶的显示名称
+   */
+  static label(bucket: string, unit: TimeBucketUnit): string {
+    const date = TimeBucket.parse(bucket);
+    const text = TimeBucket.format(date);
+    switch (unit) {
+      case 'minute':
+        return text.slice(0, 16);
+      case 'hour':
+        return `${text.slice(0, 13)}:00`;
+      case 'day':
+      case 'week':
+        return text.slice(0, 10);
+      case 'month':
+        return text.slice(0, 7);
+      case 'quarter':
+        return `${text.slice(0, 4)}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+      case 'year':
+        return text.slice(0, 4);
+    }
+  }
+
+  private static postgresZone(timezone: string): string {
+    // 字符串形式的偏移量在 Postgres 中按 POSIX 规则解释（符号相反），偏移量改用 INTERVAL
+    return OFFSET_PATTERN.test(timezone) ? `INTERVAL '${timezone}'` : `'${timezone}'`;
+  }
+
+  // 分桶按不带时区的本地时间计算，借用 UTC 方法避免受进程时区和夏令时影响
+  private static parse(bucket: string): Date {
+    const match = BUCKET_PATTERN.exec(String(bucket));
+    if (!match) {
+      throw new BadRequestException(`无效的时间分桶: ${bucket}`);
+    }
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  private static format(date: Date): string {
+    return date.toISOString().slice(0, 19).replace('T', ' ');
+  }
+
+  private static step(date: Date, unit: TimeBucketUnit): Date {
+    const next = new Date(date.getTime());
+    switch (unit) {
+      case 'minute':
+        next.setUTCMinutes(next.getUTCMinutes() + 1);
+        break;
+      case 'hour':
+        next.setUTCHours(next.getUTCHours() + 1);
+        break;
+      case 'day':
+        next.setUTCDate(next.getUTCDate() + 1);
+        break;
+      case 'week':
+        next.setUTCDate(next.getUTCDate() + 7);
+        break;
+      case 'month':
+        next.setUTCMonth(next.getUTCMonth() + 1);
+        break;
+      case 'quarter':
+        next.setUTCMonth(next.getUTCMonth() + 3);
+        break;
+      case 'year':
+        next.setUTCFullYear(next.getUTCFullYear() + 1);
+        break;
+    }
+    return next;
+  }
+}
@@ -0,0 +1,141 @@
+import { BadRequestException } from '@nestjs/common';
+import { TransformPipelineService } from './transform-pipeline.service';
+import { ExpressionParser } from './expression-parser';
+
+describe('TransformPipelineService', () => {
+  let service: TransformPipelineService;
+
+  beforeEach(() => {
+    service = new TransformPipelineService();
+  });
+
+  describe('apply', () => {
+    it('应该按顺序执行重命名、删除、类型转换、计算和过滤', () => {
+      const records = [
+        { 商品: 'A', price: '1,200.50', qty: '2', debug: 'x', status: 'paid' },
+        { 商品: 'B', price: '10', qty: '3', debug: 'y', status: 'deleted' },
+      ];
+
+      const result = service.apply(records, [
+        { type: 'rename', field: '商品', to: 'product' },
+        { type: 'drop', fields: ['debug'] },
+        { type: 'cast', field: 'price', castType: 'number' },
+        { type: 'cast', field: 'qty', castType: 'integer' },
+        { type: 'compute', field: 'revenue', expression: 'round(price * qty, 1)' },
+        { type: 'filter', expression: "status != 'deleted' and revenue > 100" },
+      ]);
+
+      expect(result).toEqual([{ product: 'A', price: 1200.5, qty: 2, status: 'paid', revenue: 2401 }]);
+      expect(records[0]).toHaveProperty('debug', 'x');
+    });
+
+    it('应该按自定义格式解析日期，无法解析时置为 null', () => {
+      const result = service.apply(
+        [{ at: '15/03/2024 08:30' }, { at: '31/02/2024 08:30' }, { at: 'bad' }],
+        [{ type: 'cast', field: 'at', castType: 'date', format: 'DD/MM/YYYY HH:mm' }],
+      );
+
+      expect(result[0].at).toEqual(new Date(Date.UTC(2024, 2, 15, 8, 30)));
+      expect(result[1].at).toBeNull();
+      expect(result[2].at).toBeNull();
+    });
+
+    it('应该支持 unix 时间戳和日期函数', () => {
+      const result = service.apply(
+        [{ ts: 1710491400, flag: '是' }],
+        [
+          { type: 'cast', field: 'ts', castType: 'date', format: 'unix' },
+          { type: 'cast', field: 'flag', castType: 'boolean' },
+          { type: 'compute', field: 'month', expression: "date_format(ts, 'YYYY-MM')" },
+          { type: 'compute', field: 'label', expression: "concat(upper('q'), if(flag, 'yes', 'no'))" },
+        ],
+      );
+
+      expect(result[0]).toMatchObject({ flag: true, month: '2024-03', label: 'Qyes' });
+    });
+
+    it('空值参与运算时结果为 null，除以零不会抛出异常', () => {
+      const result = service.apply(
+        [{ a: null, b: 0 }],
+        [
+          { type: 'compute', field: 'sum', expression: 'a + 1' },
+          { type: 'compute', field: 'ratio', expression: '10 / b' },
+          { type: 'compute', field: 'fallback', expression: 'coalesce(a, b, 5)' },
+        ],
+      );
+
+      expect(result[0]).toMatchObject({ sum: null, ratio: null, fallback: 0 });
+    });
+
+    it('应该读取嵌套字段', () => {
+      const result = service.apply(
+        [{ detail: { amount: 5 } }],
+        [{ type: 'compute', field: 'amount', expression: 'detail.amount * 2' }],
+      );
+
+      expect(result[0].amount).toBe(10);
+    });
+  });
+
+  describe('validateSteps', () => {
+    it('表达式语法错误时应该指出步骤位置', () => {
+      expect(() =>
+        service.validateSteps([
+          { type: 'drop', fields: ['a'] },
+          { type: 'compute', field: 'x', expression: 'price * (qty' },
+        ]),
+      ).toThrow('第 2 个转换步骤');
+    });
+
+    it('应该拒绝不支持的函数和缺少的必填项', () => {
+      expect(() => service.validateSteps([{ type: 'filter', expression: 'eval(1)' }])).toThrow(
+        BadRequestException,
+      );
+      expect(() => service.validateSteps([{ type: 'rename', field: 'a' }])).toThrow('重命名需要填写原字段和新字段');
+    });
+  });
+
+  describe('preview', () => {
+    it('应该返回转换前后的记录数', () => {
+      const result = service.preview([{ a: 1 }, { a: 2 }, { a: 3 }], [{ type: 'filter', expression: 'a >= 2' }]);
+
+      expect(result).toEqual({ records: [{ a: 2 }, { a: 3 }], inputCount: 3, outputCount: 2 });
+    });
+  });
+});
+
+describe('ExpressionParser', () => {
+  it('应该按运算符优先级生成语法树', () => {
+    expect(ExpressionParser.parse('a + b * 2 > 3 and not c')).toEqual({
+      kind: 'binary',
+      operator: 'and',
+      left: {
+        kind: 'binary',
+        operator: '>',
+        left: {
+          kind: 'binary',
+          operator: '+',
+          left: { kind: 'field', name: 'a' },
+          right: {
+            kind: 'binary',
+            operator: '*',
+            left: { kind: 'field', name: 'b' },
+            right: { kind: 'literal', value: 2 },
+          },
+        },
+        right: { kind: 'literal', value: 3 },
+      },
+      right: { kind: 'unary', operator: 'not', operand: { kind: 'field', name: 'c' } },
+    });
+  });
+
+  it('应该支持反引号字段名、运算符别名并收集引用的字段', () => {
+    const node = ExpressionParser.parse("`unit price` * qty == 10 || name <> 'it''s'");
+
+    expect(Array.from(ExpressionParser.collectFields(node))).toEqual(['unit price', 'qty', 'name']);
+  });
+
+  it('函数参数个数不正确时应该报错', () => {
+    expect(() => ExpressionParser.parse('if(a, b)')).toThrow('参数个数不正确');
+  });
+});
@@ -0,0 +1,448 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ExpressionParser, ExpressionNode } from './expression-parser';
+
+export type TransformStepType = 'rename' | 'drop' | 'cast' | 'compute' | 'filter';
+
+export type TransformCastType = 'number' | 'integer' | 'boolean' | 'string' | 'date';
+
+/**
+ * 入库前的转换步骤，按顺序作用于每条记录
+ * - rename：将 field 重命名为 to
+ * - drop：删除 fields 中的字段
+ * - cast：将 field 转换为 castType，date 可指定输入格式 format，无法转换时置为 null
+ * - compute：以 expression 计算 field 的值，字段已存在时覆盖
+ * - filter：只保留 expression 为真的记录
+ */
+export interface TransformStep {
+  type: TransformStepType;
+  field?: string;
+  to?: string;
+  fields?: string[];
+  castType?: TransformCastType;
+  format?: string; // 如 'DD/MM/YYYY HH:mm'，也支持 unix、unix_ms
+  expression?: string;
+}
+
+export interface TransformPreviewResult {
+  records: any[];
+  inputCount: number;
+  outputCount: number;
+}
+
+type CompiledStep = TransformStep & { node?: ExpressionNode };
+
+const TRUE_VALUES = new Set(['true', '1', 'yes', 'y', 'on', '是']);
+const FALSE_VALUES = new Set(['false', '0', 'no', 'n', 'off', '否']);
+
+// 日期格式中的占位符及其匹配规则
+const DATE_FORMAT_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})',
+  MM: '(\\d{1,2})',
+  DD: '(\\d{1,2})',
+  HH: '(\\d{1,2})',
+  mm: '(\\d{1,2})',
+  ss: '(\\d{1,2})',
+};
+
+@Injectable()
+export class TransformPipelineService {
+  /**
+   * 校验转换步骤，表达式有语法错误或缺少必填项时抛出 BadRequestException
+   */
+  validateSteps(steps: TransformStep[] = []): void {
+    this.compile(steps);
+  }
+
+  /**
+   * 依次执行转换步骤，返回新的记录数组，不修改传入的记录
+   */
+  apply(records: any[], steps: TransformStep[] = []): any[] {
+    if (!steps || steps.length === 0) {
+      return records;
+    }
+
+    const compiled = this.compile(steps);
+    const result: any[] = [];
+    records.forEach((record) => {
+      const transformed = this.applyToRecord(record, compiled);
+      if (transformed) {
+        result.push(transformed);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * 对样本数据执行转换，用于配置时的实时预览
+   */
+  preview(records: any[], steps: TransformStep[] = []): TransformPreviewResult {
+    const transformed = this.apply(records, steps);
+    return {
+      records: transformed,
+      inputCount: records.length,
+      outputCount: transformed.length,
+    };
+  }
+
+  private compile(steps: TransformStep[]): CompiledStep[] {
+    return steps.map((step, index) => {
+      const label = `第 ${index + 1} 个转换步骤`;
+      switch (step.type) {
+        case 'rename':
+          if (!step.field || !step.to) {
+            throw new BadRequestException(`${label}: 重命名需要填写原字段和新字段`);
+          }
+          return step;
+        case 'drop':
+          if (!step.fields || step.fields.length === 0) {
+            throw new BadRequestException(`${label}: 请选择要删除的字段`);
+          }
+          return step;
+        case 'cast':
+          if (!step.field || !step.castType) {
+            throw new BadRequestException(`${label}: 类型转换需要填写字段和目标类型`);
+          }
+          return step;
+        case 'compute':
+          if (!step.field) {
+            throw new BadRequestException(`${label}: 请填写计算结果的字段名`);
+          }
+          return { ...step, node: this.parseStepExpression(step, label) };
+        case 'filter':
+          return { ...step, node: this.parseStepExpression(step, label) };
+        default:
+          throw new BadRequestException(`${label}: 不支持的转换类型 ${(step as TransformStep).type}`);
+      }
+    });
+  }
+
+  private parseStepExpression(step: TransformStep, label: string): ExpressionNode {
+    try {
+      return ExpressionParser.parse(step.expression);
+    } catch (error) {
+      throw new BadRequestException(`${label}: ${error.message}`);
+    }
+  }
+
+  private applyToRecord(record: any, steps: CompiledStep[]): any | null {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      return record;
+    }
+
+    const current: Record<string, any> = { ...record };
+    for (const step of steps) {
+      switch (step.type) {
+        case 'rename':
+          if (step.field in current) {
+            const value = current[step.field];
+            delete current[step.field];
+            current[step.to] = value;
+          }
+          break;
+        case 'drop':
+          step.fields.forEach((field) => delete current[field]);
+          break;
+        case 'cast':
+          if (step.field in current) {
+            current[step.field] = this.castValue(current[step.field], step.castType, step.format);
+          }
+          break;
+        case 'compute':
+          current[step.field] = this.evaluate(step.node, current);
+          break;
+        case 'filter':
+          if (!this.isTruthy(this.evaluate(step.node, current))) {
+            return null;
+          }
+          break;
+      }
+    }
+    return current;
+  }
+
+  /**
+   * 对单条记录求值，空值参与运算时结果为 null（与 SQL 一致），不会抛出异常
+   */
+  evaluate(node: ExpressionNode, record: Record<string, any>): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+      case 'field':
+        return this.readField(record, node.name);
+      case 'unary': {
+        const operand = this.evaluate(node.operand, record);
+        if (node.operator === 'not') {
+          return !this.isTruthy(operand);
+        }
+        const number = this.toNumber(operand);
+        return number === null ? null : -number;
+      }
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, record);
+      case 'call':
+        return this.evaluateCall(node.name, node.args.map((arg) => this.evaluate(arg, record)));
+    }
+  }
+
+  private evaluateBinary(
+    operator: string,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    record: Record<string, any>,
+  ): any {
+    if (operator === 'and') {
+      return this.isTruthy(this.evaluate(leftNode, record)) && this.isTruthy(this.evaluate(rightNode, record));
+    }
+    if (operator === 'or') {
+      return this.isTruthy(this.evaluate(leftNode, record)) || this.isTruthy(this.evaluate(rightNode, record));
+    }
+
+    const left = this.evaluate(leftNode, record);
+    const right = this.evaluate(rightNode, record);
+
+    // 与 null 比较时按是否同为空判断，便于写 status != null 这样的条件
+    if (operator === '=' || operator === '!=') {
+      const equal =
+        left === null || left === undefined || right === null || right === undefined
+          ? (left ?? null) === (right ?? null)
+          : this.compare(left, right) === 0;
+      return operator === '=' ? equal : !equal;
+    }
+
+    if (['<', '<=', '>', '>='].includes(operator)) {
+      if (left === null || left === undefined || right === null || right === undefined) {
+        return null;
+      }
+      const result = this.compare(left, right);
+      switch (operator) {
+        case '<':
+          return result < 0;
+        case '<=':
+          return result <= 0;
+        case '>':
+          return result > 0;
+        default:
+          return result >= 0;
+      }
+    }
+
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+    if (a === null || b === null) {
+      return null;
+    }
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      case '/':
+        return b === 0 ? null : a / b;
+      case '%':
+        return b === 0 ? null : a % b;
+      default:
+        return null;
+    }
+  }
+
+  private evaluateCall(name: string, args: any[]): any {
+    const [first] = args;
+    const isEmpty = first === null || first === undefined;
+
+    switch (name) {
+      case 'lower':
+        return isEmpty ? null : String(first).toLowerCase();
+      case 'upper':
+        return isEmpty ? null : String(first).toUpperCase();
+      case 'trim':
+        return isEmpty ? null : String(first).trim();
+      case 'length':
+        return isEmpty ? null : String(first).length;
+      case 'concat':
+        // 与 MySQL CONCAT 一致：任一参数为 null 时结果为 null
+        return args.some((arg) => arg === null || arg === undefined)
+          ? null
+          : args.map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg))).join('');
+      case 'coalesce':
+        return args.find((arg) => arg !== null && arg !== undefined) ?? null;
+      case 'round': {
+        const value = this.toNumber(first);
+        const digits = args.length > 1 ? this.toNumber(args[1]) ?? 0 : 0;
+        if (value === null) {
+          return null;
+        }
+        const factor = Math.pow(10, Math.trunc(digits));
+        return Math.round(value * factor) / factor;
+      }
+      case 'abs':
+      case 'floor':
+      case 'ceil': {
+        const value = this.toNumber(first);
+        return value === null ? null : Math[name](value);
+      }
+      case 'if':
+        return this.isTruthy(first) ? args[1] : args[2];
+      case 'year':
+      case 'month':
+      case 'day': {
+        const date = this.toDate(first);
+        if (!date) {
+          return null;
+        }
+        return name === 'year'
+          ? date.getUTCFullYear()
+          : name === 'month'
+            ? date.getUTCMonth() + 1
+            : date.getUTCDate();
+      }
+      case 'date_format': {
+        const date = this.toDate(first);
+        return date ? this.formatDate(date, String(args[1] ?? '')) : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 读取字段值：优先按完整字段名读取，不存在时按点号路径读取嵌套字段
+   */
+  private readField(record: Record<string, any>, name: string): any {
+    if (name in record) {
+      return record[name];
+    }
+    if (!name.includes('.')) {
+      return null;
+    }
+    return (
+      name.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), record) ??
+      null
+    );
+  }
+
+  private castValue(value: any, castType: TransformCastType, format?: string): any {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    switch (castType) {
+      case 'number':
+        return this.toNumber(value);
+      case 'integer': {
+        const number = this.toNumber(value);
+        return number === null ? null : Math.trunc(number);
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') {
+          return value;
+        }
+        if (typeof value === 'number') {
+          return value !== 0;
+        }
+        const text = String(value).trim().toLowerCase();
+        return TRUE_VALUES.has(text) ? true : FALSE_VALUES.has(text) ? false : null;
+      }
+      case 'string':
+        return typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+      case 'date':
+        return format ? this.parseDate(value, format) : this.toDate(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * 转为数字，字符串中的千分位逗号会被去掉，无法转换时返回 null
+   */
+  private toNumber(value: any): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : null;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    const number = Number(String(value).trim().replace(/,/g, ''));
+    return Number.isFinite(number) ? number : null;
+  }
+
+  private toDate(value: any): Date | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+    const date = value instanceof Date ? value : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * 按格式解析日期，格式中未出现的部分取默认值，按 UTC 解释
+   */
+  private parseDate(value: any, format: string): Date | null {
+    if (format === 'unix' || format === 'unix_ms') {
+      const number = this.toNumber(value);
+      return number === null ? null : new Date(format === 'unix' ? number * 1000 : number);
+    }
+
+    const order: string[] = [];
+    const pattern = format.replace(/YYYY|MM|DD|HH|mm|ss|[.*+?^${}()|[\]\\]/g, (token) => {
+      if (DATE_FORMAT_TOKENS[token]) {
+        order.push(token);
+        return DATE_FORMAT_TOKENS[token];
+      }
+      return `\\${token}`;
+    });
+    const match = String(value).trim().match(new RegExp(`^${pattern}$`));
+    if (!match) {
+      return null;
+    }
+
+    const parts: Record<string, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0 };
+    order.forEach((token, index) => {
+      parts[token] = Number(match[index + 1]);
+    });
+    const date = new Date(Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss));
+    // 拒绝 2024-02-30 这类会被自动进位的日期
+    if (date.getUTCMonth() !== parts.MM - 1 || date.getUTCDate() !== parts.DD) {
+      return null;
+    }
+    return date;
+  }
+
+  private formatDate(date: Date, format: string): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const tokens: Record<string, string> = {
+      YYYY: String(date.getUTCFullYear()),
+      MM: pad(date.getUTCMonth() + 1),
+      DD: pad(date.getUTCDate()),
+      HH: pad(date.getUTCHours()),
+      mm: pad(date.getUTCMinutes()),
+      ss: pad(date.getUTCSeconds()),
+    };
+    return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => tokens[token]);
+  }
+
+  /**
+   * 比较两个值：任一侧不是字符串且两侧都可转为数字时按数字比较，否则按字符串比较
+   */
+  private compare(left: any, right: any): number {
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+    if (a !== null && b !== null && (typeof left !== 'string' || typeof right !== 'string')) {
+      return a === b ? 0 : a < b ? -1 : 1;
+    }
+    const textA = String(left);
+    const textB = String(right);
+    return textA === textB ? 0 : textA < textB ? -1 : 1;
+  }
+
+  private isTruthy(value: any): boolean {
+    return value !== null && value !== undefined && value !== false && value !== 0 && value !== '';
+  }
+}
@@ -8,6 +8,14 @@ import {
   ChartConfig,
   User,
   MarketSession,
+  FetchSchedule,
+  FetchRun,
+  FetchRunPage,
+  UserSecret,
+  CalculatedField,
+  Workspace,
+  WorkspaceMember,
+  RefreshToken,
 } from '../entities';
 
 @Injectable()
@@ -28,6 +36,14 @@ export class PostgresLocalDatabaseConfig implements TypeOrmOptionsFactory {
         ChartConfig,
         User,
         MarketSession,
+        FetchSchedule,
+        FetchRun,
+        FetchRunPage,
+        UserSecret,
+        CalculatedField,
+        Workspace,
+        WorkspaceMember,
+        RefreshToken,
       ],
       synchronize: process.env.NODE_ENV === 'development',
       logging: process.env.NODE_ENV === 'development',
@@ -8,6 +8,14 @@ import {
   ChartConfig,
   User,
   MarketSession,
+  FetchSchedule,
+  FetchRun,
+  FetchRunPage,
+  UserSecret,
+  CalculatedField,
+  Workspace,
+  WorkspaceMember,
+  RefreshToken,
 } from "../entities";
 
 @Injectable()
@@ -31,6 +39,14 @@ export class DatabaseConfig implements TypeOrmOptionsFactory {
           ChartConfig,
           User,
           MarketSession,
+          FetchSchedule,
+          FetchRun,
+          FetchRunPage,
+          UserSecret,
+          CalculatedField,
+          Workspace,
+          WorkspaceMember,
+          RefreshToken,
         ],
         synchronize: process.env.NODE_ENV === "development",
         logging: process.env.NODE_ENV === "development",
@@ -60,6 +76,14 @@ export class DatabaseConfig implements TypeOrmOptionsFactory {
           ChartConfig,
           User,
           MarketSession,
+          FetchSchedule,
+          FetchRun,
+          FetchRunPage,
+          UserSecret,
+          CalculatedField,
+          Workspace,
+          WorkspaceMember,
+          RefreshToken,
         ],
         synchronize: false,
         logging: process.env.NODE_ENV === "development",
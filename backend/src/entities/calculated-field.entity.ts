@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { DataSession } from './data-session.entity';
+
+/**
+ * 计算字段，查询时由表达式编译为 SQL，可与真实字段一样用于查询、筛选、聚合和图表
+ */
+@Entity('calculated_fields')
+@Unique('unique_session_calculated_field', ['sessionId', 'name'])
+export class CalculatedField {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'session_id', type: 'uuid' })
+  sessionId: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  label?: string | null;
+
+  // 表达式引用字段名，附加数据源字段写作 数据源名.字段名
+  @Column({ type: 'text' })
+  expression: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // 关联关系
+  @ManyToOne(() => DataSession, (session) => session.calculatedFields, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'session_id' })
+  session: DataSession;
+}
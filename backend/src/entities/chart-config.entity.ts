@@ -8,12 +8,16 @@ import {
   JoinColumn,
 } from 'typeorm';
 import { DataSession } from './data-session.entity';
+import { TimeBucketUnit } from '../common/utils/time-bucket';
+import { BinMethod } from '../common/utils/numeric-bins';
 
 export enum ChartType {
   LINE = 'line',
   BAR = 'bar',
   PIE = 'pie',
   SCATTER = 'scatter',
+  HISTOGRAM = 'histogram',
+  BOXPLOT = 'boxplot',
 }
 
 export enum AggregationType {
@@ -32,6 +36,32 @@ export enum XAxisAggregationType {
   RANGE = 'range',
 }
 
+export enum SeriesLayout {
+  GROUPED = 'grouped',
+  STACKED = 'stacked',
+}
+
+// 多度量图表中的单个度量，每个度量可以使用不同的聚合方式和坐标轴
+export interface ChartMeasure {
+  field: string;
+  aggregation: AggregationType;
+  label?: string;
+  axis?: 'left' | 'right'; // right 表示使用次坐标轴
+  chartType?: 'line' | 'bar'; // 为空时与图表类型一致，用于柱线组合图
+}
+
+// 时间序列上的滚动计算，在补齐空分桶后按分桶顺序进行
+export interface RollingWindow {
+  type: 'moving_average' | 'cumulative_sum';
+  size?: number; // 移动平均的分桶个数，默认 7
+}
+
+// X 轴按数值范围分组（x_axis_aggregation 为 range）和直方图的分箱方式
+export interface ChartBinning {
+  method: BinMethod; // auto/sturges/freedman_diaconis 自动计算等宽分箱，edges 使用自定义边界
+  edges?: number[];
+}
+
 export interface FilterCondition {
   field: string;
   operator: 'eq' | 'ne' | 'gt' | 'lt' | 'gte' | 'lte' | 'in' | 'like' | 'between' | 'is_null' | 'is_not_null';
@@ -79,6 +109,38 @@ export class ChartConfig {
   })
   aggregation: AggregationType;
 
+  // X 轴按时间分组（x_axis_aggregation 为 date_group）时的分桶粒度
+  @Column({ name: 'time_bucket', type: 'varchar', length: 20, nullable: true })
+  timeBucket: TimeBucketUnit | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  timezone: string | null;
+
+  @Column({ name: 'fill_gaps', type: 'boolean', default: true })
+  fillGaps: boolean;
+
+  @Column({ name: 'rolling_window', type: 'json', nullable: true })
+  rollingWindow: RollingWindow | null;
+
+  @Column({ type: 'json', nullable: true })
+  binning: ChartBinning | null;
+
+  // 按该字段的取值拆分为多个系列
+  @Column({ name: 'series_field', type: 'varchar', length: 255, nullable: true })
+  seriesField: string | null;
+
+  // 多个 Y 轴度量，为空时使用 yAxis + aggregation
+  @Column({ type: 'json', nullable: true })
+  measures: ChartMeasure[] | null;
+
+  @Column({
+    name: 'series_layout',
+    type: 'enum',
+    enum: SeriesLayout,
+    default: SeriesLayout.GROUPED,
+  })
+  seriesLayout: SeriesLayout;
+
   @Column({ type: 'json', nullable: true })
   filters: FilterCondition[] | null;
 
@@ -14,6 +14,10 @@ import { FieldAnnotation } from "./field-annotation.entity";
 import { ChartConfig } from "./chart-config.entity";
 import { DataTableSchema } from "./data-table-schema.entity";
 import { User } from "./user.entity";
+import { FetchSchedule } from "./fetch-schedule.entity";
+import { FetchRun } from "./fetch-run.entity";
+import { CalculatedField } from "./calculated-field.entity";
+import { Workspace } from "./workspace.entity";
 
 export enum SessionStatus {
   UNFETCHED = "unfetched", // 未拉取 - 接口没有拉取数据
@@ -27,7 +31,10 @@ export class DataSession {
   id: string;
 
   @Column({ name: "user_id", type: "uuid", nullable: true })
-  userId?: string;
+  userId?: string; // 创建者，个人会话仅创建者可访问
+
+  @Column({ name: "workspace_id", type: "uuid", nullable: true })
+  workspaceId?: string | null; // 所属工作区，为空时为个人会话
 
   @Column({ type: "varchar", length: 255 })
   name: string;
@@ -50,10 +57,16 @@ export class DataSession {
   @JoinColumn({ name: "user_id" })
   user?: User;
 
-  @OneToOne(() => FetchConfig, fetchConfig => fetchConfig.session, {
+  @ManyToOne(() => Workspace, workspace => workspace.sessions, {
+    onDelete: "SET NULL",
+  })
+  @JoinColumn({ name: "workspace_id" })
+  workspace?: Workspace;
+
+  @OneToMany(() => FetchConfig, fetchConfig => fetchConfig.session, {
     cascade: true,
   })
-  fetchConfig: FetchConfig;
+  fetchConfigs: FetchConfig[];
 
   @OneToMany(() => FieldAnnotation, annotation => annotation.session, {
     cascade: true,
@@ -69,4 +82,13 @@ export class DataSession {
     cascade: true,
   })
   dataTableSchemas: DataTableSchema[];
+
+  @OneToOne(() => FetchSchedule, schedule => schedule.session)
+  fetchSchedule?: FetchSchedule;
+
+  @OneToMany(() => FetchRun, run => run.session)
+  fetchRuns: FetchRun[];
+
+  @OneToMany(() => CalculatedField, field => field.session)
+  calculatedFields: CalculatedField[];
 }
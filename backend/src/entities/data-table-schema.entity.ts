@@ -22,6 +22,21 @@ export interface FieldDefinitions {
   [fieldName: string]: FieldDefinition;
 }
 
+// 拉取过程中检测到的表结构变更：新增字段或放宽字段类型
+export interface SchemaChange {
+  field: string;
+  action: 'add_column' | 'widen_type';
+  fromType?: string;
+  toType: string;
+}
+
+export interface SchemaVersion {
+  version: number;
+  changedAt: string;
+  runId?: string;
+  changes: SchemaChange[];
+}
+
 @Entity('data_table_schemas')
 @Unique('unique_session_table', ['sessionId', 'tableName'])
 export class DataTableSchema {
@@ -31,12 +46,26 @@ export class DataTableSchema {
   @Column({ name: 'session_id', type: 'uuid' })
   sessionId: string;
 
+  @Column({ name: 'source_name', type: 'varchar', length: 100, default: 'main' })
+  sourceName: string;
+
+  // 嵌套数组拆分出的子表记录其父数据源名称，普通数据源为空
+  @Column({ name: 'parent_source_name', type: 'varchar', length: 100, nullable: true })
+  parentSourceName?: string;
+
   @Column({ name: 'table_name', type: 'varchar', length: 255 })
   tableName: string;
 
   @Column({ name: 'field_definitions', type: 'json' })
   fieldDefinitions: FieldDefinitions;
 
+  // 表结构版本：每次自动新增字段或放宽类型时递增，变更明细记录在 schemaHistory 中
+  @Column({ name: 'schema_version', type: 'int', default: 1 })
+  schemaVersion: number;
+
+  @Column({ name: 'schema_history', type: 'json', nullable: true })
+  schemaHistory?: SchemaVersion[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
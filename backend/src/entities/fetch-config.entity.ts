@@ -4,9 +4,12 @@ import {
   Column,
   CreateDateColumn,
   JoinColumn,
-  OneToOne,
+  ManyToOne,
+  Index,
 } from 'typeorm';
 import { DataSession } from './data-session.entity';
+import { RateLimitPolicy, AuthConfig } from '../common/http-client/http-client.service';
+import { TransformStep } from '../common/utils/transform-pipeline.service';
 
 export enum HttpMethod {
   GET = 'GET',
@@ -16,11 +19,49 @@ export enum HttpMethod {
 }
 
 export enum PaginationType {
-  PAGE = 'page',     // 页码方式：传递页码和每页数量
-  OFFSET = 'offset', // 索引方式：传递开始索引和每页数量
+  PAGE = 'page',         // 页码方式：传递页码和每页数量
+  OFFSET = 'offset',     // 索引方式：传递开始索引和每页数量
+  CURSOR = 'cursor',     // 游标方式：从响应中读取游标，放入下一次请求
+  NEXT_URL = 'next_url', // 下一页链接：直接请求响应中返回的下一页URL
+  RELAY = 'relay',       // Relay 风格：读取 pageInfo.endCursor，hasNextPage 为 false 时停止
+}
+
+export enum CursorLocation {
+  QUERY = 'query', // 游标作为查询参数
+  BODY = 'body',   // 游标作为请求体字段
+}
+
+export enum SourceType {
+  API = 'api',         // 通过 HTTP 接口拉取
+  FILE = 'file',       // 上传的 CSV、Excel 或 JSON 文件导入
+  GRAPHQL = 'graphql', // GraphQL 接口：以 POST 发送 query 和 variables
+  SQL = 'sql',         // 外部数据库：执行参数化查询，按批次写入
+}
+
+// 会话的默认数据源名称，落地到 data_<sessionId> 表，未指定数据源时均使用该数据源
+export const DEFAULT_SOURCE_NAME = 'main';
+
+// 嵌套数组拆分：将记录中 path 处的对象数组写入名为 name 的子表，子表行通过 parent_row_id 关联父表行
+export interface ExplodeField {
+  path: string; // 记录内的字段路径，如 'lines' 或 'detail.items'
+  name: string; // 子表名称，查询时以 `子表名.字段名` 引用
+}
+
+export type SqlDatabaseType = 'postgres' | 'mysql' | 'sqlite';
+
+// SQL 数据源的连接定义，密码可使用 {{secret:name}} 引用；SQLite 的 database 为文件路径
+export interface SqlConnectionConfig {
+  type: SqlDatabaseType;
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  database: string;
+  ssl?: boolean;
 }
 
 @Entity('fetch_configs')
+@Index('unique_session_source', ['sessionId', 'sourceName'], { unique: true })
 export class FetchConfig {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -28,7 +69,27 @@ export class FetchConfig {
   @Column({ name: 'session_id', type: 'uuid' })
   sessionId: string;
 
-  @Column({ name: 'api_url', type: 'text' })
+  // 数据源名称：同一会话下唯一，每个数据源落地到各自的动态表
+  @Column({ name: 'source_name', type: 'varchar', length: 100, default: DEFAULT_SOURCE_NAME })
+  sourceName: string;
+
+  // 关联键：本数据源的 joinField 与主数据源的 primaryJoinField 相等时关联
+  @Column({ name: 'join_field', type: 'varchar', length: 255, nullable: true })
+  joinField?: string;
+
+  @Column({ name: 'primary_join_field', type: 'varchar', length: 255, nullable: true })
+  primaryJoinField?: string;
+
+  @Column({
+    name: 'source_type',
+    type: 'enum',
+    enum: SourceType,
+    default: SourceType.API,
+  })
+  sourceType: SourceType;
+
+  // 文件数据源没有接口地址
+  @Column({ name: 'api_url', type: 'text', nullable: true })
   apiUrl: string;
 
   @Column({
@@ -74,14 +135,85 @@ export class FetchConfig {
   @Column({ name: 'step_size', type: 'int', nullable: true })
   stepSize?: number;
 
+  // 游标/下一页链接在响应中的路径，如 'meta.next_cursor' 或 'links.next'
+  @Column({ name: 'cursor_path', type: 'varchar', length: 255, nullable: true })
+  cursorPath?: string;
+
+  // 游标在下一次请求中的字段名，请求体字段支持点号路径
+  @Column({ name: 'cursor_param', type: 'varchar', length: 255, nullable: true })
+  cursorParam?: string;
+
+  @Column({
+    name: 'cursor_location',
+    type: 'enum',
+    enum: CursorLocation,
+    default: CursorLocation.QUERY,
+    nullable: true,
+  })
+  cursorLocation?: CursorLocation;
+
   @Column({ name: 'data_path', type: 'varchar', length: 500, nullable: true })
   dataPath?: string;
 
+  // 增量拉取：整页数据均已存在，或水位字段低于已存储的最大值时停止翻页
+  @Column({ name: 'incremental_mode', type: 'boolean', default: false })
+  incrementalMode: boolean;
+
+  @Column({ name: 'watermark_field', type: 'varchar', length: 255, nullable: true })
+  watermarkField?: string;
+
+  // 限流与退避策略：每秒请求数、最大并发、指数退避，429/503 时遵循 Retry-After
+  @Column({ name: 'rate_limit', type: 'json', nullable: true })
+  rateLimit?: RateLimitPolicy;
+
+  // 会话变量：在 URL、请求头、参数和请求体中以 {{var.name}} 引用，每次请求时求值
+  @Column({ name: 'variables', type: 'json', nullable: true })
+  variables?: Record<string, string>;
+
+  // 认证方式：Basic、Bearer、API Key 或 OAuth2 客户端凭据，令牌由 HttpClientService 缓存和刷新
+  @Column({ name: 'auth', type: 'json', nullable: true })
+  auth?: AuthConfig;
+
+  @Column({ name: 'explode_fields', type: 'json', nullable: true })
+  explodeFields?: ExplodeField[];
+
+  // 入库前的转换步骤：重命名、删除、类型转换、计算字段和过滤，按顺序作用于每条记录
+  @Column({ name: 'transform_steps', type: 'json', nullable: true })
+  transformSteps?: TransformStep[];
+
+  // GraphQL 数据源：查询语句与变量，分页字段和游标参数写入 variables
+  @Column({ name: 'graphql_query', type: 'text', nullable: true })
+  graphqlQuery?: string;
+
+  @Column({ name: 'graphql_variables', type: 'json', nullable: true })
+  graphqlVariables?: Record<string, any>;
+
+  // SQL 数据源：连接定义与只读查询，查询中以 :name 引用 sqlParams 中的参数
+  @Column({ name: 'sql_connection', type: 'json', nullable: true })
+  sqlConnection?: SqlConnectionConfig;
+
+  @Column({ name: 'sql_query', type: 'text', nullable: true })
+  sqlQuery?: string;
+
+  @Column({ name: 'sql_params', type: 'json', nullable: true })
+  sqlParams?: Record<string, any>;
+
+  // 文件数据源：最近一次上传的文件名及其格式（csv、xlsx、json、ndjson）
+  @Column({ name: 'file_name', type: 'varchar', length: 255, nullable: true })
+  fileName?: string;
+
+  @Column({ name: 'file_format', type: 'varchar', length: 20, nullable: true })
+  fileFormat?: string;
+
+  // 最近一次保存配置的用户，拉取（含定时拉取）时按其密钥管理解析密钥引用
+  @Column({ name: 'configured_by', type: 'varchar', length: 36, nullable: true })
+  configuredBy?: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   // 关联关系
-  @OneToOne(() => DataSession, (session) => session.fetchConfig)
+  @ManyToOne(() => DataSession, (session) => session.fetchConfigs)
   @JoinColumn({ name: 'session_id' })
   session: DataSession;
 }
\ No newline at end of file
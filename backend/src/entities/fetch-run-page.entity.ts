@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { FetchRun } from './fetch-run.entity';
+
+@Entity('fetch_run_pages')
+@Index(['runId', 'pageNumber'])
+export class FetchRunPage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'run_id', type: 'uuid' })
+  runId: string;
+
+  @Column({ name: 'page_number', type: 'int' })
+  pageNumber: number;
+
+  // 请求摘要（不记录请求头，避免泄露鉴权信息）
+  @Column({ name: 'request_method', type: 'varchar', length: 10 })
+  requestMethod: string;
+
+  @Column({ name: 'request_url', type: 'text' })
+  requestUrl: string;
+
+  @Column({ name: 'request_params', type: 'json', nullable: true })
+  requestParams?: Record<string, any>;
+
+  @Column({ name: 'request_body', type: 'text', nullable: true })
+  requestBody?: string;
+
+  // 响应摘要
+  @Column({ name: 'response_status', type: 'int', nullable: true })
+  responseStatus?: number;
+
+  @Column({ name: 'response_size', type: 'int', nullable: true })
+  responseSize?: number;
+
+  @Column({ name: 'response_preview', type: 'text', nullable: true })
+  responsePreview?: string;
+
+  @Column({ name: 'duration_ms', type: 'int', nullable: true })
+  durationMs?: number;
+
+  @Column({ name: 'records_received', type: 'int', default: 0 })
+  recordsReceived: number;
+
+  @Column({ name: 'records_inserted', type: 'int', default: 0 })
+  recordsInserted: number;
+
+  @Column({ name: 'duplicates_skipped', type: 'int', default: 0 })
+  duplicatesSkipped: number;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  // 关联关系
+  @ManyToOne(() => FetchRun, (run) => run.pages, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'run_id' })
+  run: FetchRun;
+}
@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { DataSession } from './data-session.entity';
+import { FetchRunPage } from './fetch-run-page.entity';
+import { SchemaChange } from './data-table-schema.entity';
+
+export enum FetchRunTrigger {
+  MANUAL = 'manual',     // 手动触发
+  SCHEDULE = 'schedule', // 定时任务触发
+  UPLOAD = 'upload',     // 上传文件导入
+}
+
+export enum FetchRunStatus {
+  RUNNING = 'running',
+  SUCCESS = 'success',
+  FAILED = 'failed',
+}
+
+@Entity('fetch_runs')
+@Index(['sessionId', 'startedAt'])
+export class FetchRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'session_id', type: 'uuid' })
+  sessionId: string;
+
+  @Column({
+    type: 'enum',
+    enum: FetchRunTrigger,
+    default: FetchRunTrigger.MANUAL,
+  })
+  trigger: FetchRunTrigger;
+
+  @Column({
+    type: 'enum',
+    enum: FetchRunStatus,
+    default: FetchRunStatus.RUNNING,
+  })
+  status: FetchRunStatus;
+
+  @Column({ name: 'pages_processed', type: 'int', default: 0 })
+  pagesProcessed: number;
+
+  @Column({ name: 'total_records', type: 'int', default: 0 })
+  totalRecords: number;
+
+  @Column({ name: 'records_inserted', type: 'int', default: 0 })
+  recordsInserted: number;
+
+  @Column({ name: 'duplicates_skipped', type: 'int', default: 0 })
+  duplicatesSkipped: number;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage?: string;
+
+  // 本次运行中自动应用的表结构变更
+  @Column({ name: 'schema_changes', type: 'json', nullable: true })
+  schemaChanges?: SchemaChange[];
+
+  @CreateDateColumn({ name: 'started_at' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  // 关联关系
+  @ManyToOne(() => DataSession, (session) => session.fetchRuns, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'session_id' })
+  session: DataSession;
+
+  @OneToMany(() => FetchRunPage, (page) => page.run)
+  pages: FetchRunPage[];
+}
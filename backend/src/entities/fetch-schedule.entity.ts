@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  JoinColumn,
+  OneToOne,
+} from 'typeorm';
+import { DataSession } from './data-session.entity';
+
+export enum ScheduleType {
+  CRON = 'cron',         // cron 表达式
+  INTERVAL = 'interval', // 固定间隔（分钟）
+}
+
+@Entity('fetch_schedules')
+export class FetchSchedule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'session_id', type: 'uuid', unique: true })
+  sessionId: string;
+
+  @Column({
+    name: 'schedule_type',
+    type: 'enum',
+    enum: ScheduleType,
+    default: ScheduleType.INTERVAL,
+  })
+  scheduleType: ScheduleType;
+
+  @Column({ name: 'cron_expression', type: 'varchar', length: 100, nullable: true })
+  cronExpression?: string;
+
+  @Column({ name: 'interval_minutes', type: 'int', nullable: true })
+  intervalMinutes?: number;
+
+  @Column({ type: 'varchar', length: 64, default: 'Asia/Shanghai' })
+  timezone: string;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @Column({ name: 'last_run_at', type: 'timestamp', nullable: true })
+  lastRunAt?: Date;
+
+  @Column({ name: 'next_run_at', type: 'timestamp', nullable: true })
+  nextRunAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // 关联关系
+  @OneToOne(() => DataSession, (session) => session.fetchSchedule)
+  @JoinColumn({ name: 'session_id' })
+  session: DataSession;
+}
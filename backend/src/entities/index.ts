@@ -1,7 +1,15 @@
 export { DataSession, SessionStatus } from './data-session.entity';
-export { FetchConfig, HttpMethod } from './fetch-config.entity';
-export { DataTableSchema, FieldDefinition, FieldDefinitions } from './data-table-schema.entity';
+export { FetchConfig, HttpMethod, PaginationType, CursorLocation, ExplodeField, SourceType, SqlConnectionConfig, SqlDatabaseType } from './fetch-config.entity';
+export { DataTableSchema, FieldDefinition, FieldDefinitions, SchemaChange, SchemaVersion } from './data-table-schema.entity';
 export { FieldAnnotation } from './field-annotation.entity';
-export { ChartConfig, ChartType, AggregationType, FilterCondition } from './chart-config.entity';
+export { ChartConfig, ChartType, AggregationType, SeriesLayout, ChartMeasure, RollingWindow, ChartBinning, FilterCondition } from './chart-config.entity';
 export { User } from './user.entity';
-export { MarketSession } from './market-session.entity';
\ No newline at end of file
+export { MarketSession } from './market-session.entity';
+export { FetchSchedule, ScheduleType } from './fetch-schedule.entity';
+export { FetchRun, FetchRunTrigger, FetchRunStatus } from './fetch-run.entity';
+export { FetchRunPage } from './fetch-run-page.entity';
+export { UserSecret } from './user-secret.entity';
+export { CalculatedField } from './calculated-field.entity';
+export { Workspace } from './workspace.entity';
+export { WorkspaceMember, WorkspaceRole } from './workspace-member.entity';
+export { RefreshToken } from './refresh-token.entity';
\ No newline at end of file
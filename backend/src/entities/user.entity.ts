@@ -8,6 +8,8 @@ import {
 } from 'typeorm';
 import { DataSession } from './data-session.entity';
 import { MarketSession } from './market-session.entity';
+import { UserSecret } from './user-secret.entity';
+import { RefreshToken } from './refresh-token.entity';
 
 @Entity('users')
 export class User {
@@ -44,4 +46,10 @@ export class User {
 
   @OneToMany(() => MarketSession, (marketSession) => marketSession.user)
   marketSessions: MarketSession[];
+
+  @OneToMany(() => UserSecret, (secret) => secret.user)
+  secrets: UserSecret[];
+
+  @OneToMany(() => RefreshToken, (refreshToken) => refreshToken.user)
+  refreshTokens: RefreshToken[];
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Workspace } from './workspace.entity';
+
+export enum WorkspaceRole {
+  OWNER = 'owner',   // 管理成员、删除工作区和会话
+  EDITOR = 'editor', // 创建和修改会话、拉取配置、图表
+  VIEWER = 'viewer', // 只读
+}
+
+@Entity('workspace_members')
+@Index(['workspaceId', 'userId'], { unique: true })
+export class WorkspaceMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'workspace_id', type: 'uuid' })
+  workspaceId: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @Column({
+    type: 'enum',
+    enum: WorkspaceRole,
+    default: WorkspaceRole.VIEWER,
+  })
+  role: WorkspaceRole;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  // 关联关系
+  @ManyToOne(() => Workspace, (workspace) => workspace.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workspace_id' })
+  workspace: Workspace;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
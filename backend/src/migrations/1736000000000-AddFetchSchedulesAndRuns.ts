@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFetchSchedulesAndRuns1736000000000 implements MigrationInterface {
+  name = 'AddFetchSchedulesAndRuns1736000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 创建定时拉取计划表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`fetch_schedules\` (
+        \`id\` varchar(36) NOT NULL,
+        \`session_id\` varchar(36) NOT NULL,
+        \`schedule_type\` enum('cron', 'interval') NOT NULL DEFAULT 'interval',
+        \`cron_expression\` varchar(100) NULL,
+        \`interval_minutes\` int NULL,
+        \`timezone\` varchar(64) NOT NULL DEFAULT 'Asia/Shanghai',
+        \`enabled\` boolean NOT NULL DEFAULT true,
+        \`last_run_at\` timestamp NULL,
+        \`next_run_at\` timestamp NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`REL_fetch_schedules_session_id\` (\`session_id\`),
+        CONSTRAINT \`FK_fetch_schedules_session_id\` FOREIGN KEY (\`session_id\`) REFERENCES \`data_sessions\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // 创建拉取运行记录表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`fetch_runs\` (
+        \`id\` varchar(36) NOT NULL,
+        \`session_id\` varchar(36) NOT NULL,
+        \`trigger\` enum('manual', 'schedule') NOT NULL DEFAULT 'manual',
+        \`status\` enum('running', 'success', 'failed') NOT NULL DEFAULT 'running',
+        \`pages_processed\` int NOT NULL DEFAULT '0',
+        \`total_records\` int NOT NULL DEFAULT '0',
+        \`error_message\` text NULL,
+        \`started_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`finished_at\` timestamp NULL,
+        PRIMARY KEY (\`id\`),
+        KEY \`IDX_fetch_runs_session_started\` (\`session_id\`, \`started_at\`),
+        CONSTRAINT \`FK_fetch_runs_session_id\` FOREIGN KEY (\`session_id\`) REFERENCES \`data_sessions\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`fetch_runs\``);
+    await queryRunner.query(`DROP TABLE IF EXISTS \`fetch_schedules\``);
+  }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddFetchRunPageLogs1736000001000 implements MigrationInterface {
+  name = 'AddFetchRunPageLogs1736000001000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('fetch_runs', [
+      new TableColumn({
+        name: 'records_inserted',
+        type: 'int',
+        default: 0,
+      }),
+      new TableColumn({
+        name: 'duplicates_skipped',
+        type: 'int',
+        default: 0,
+      }),
+    ]);
+
+    // 创建分页请求日志表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`fetch_run_pages\` (
+        \`id\` varchar(36) NOT NULL,
+        \`run_id\` varchar(36) NOT NULL,
+        \`page_number\` int NOT NULL,
+        \`request_method\` varchar(10) NOT NULL,
+        \`request_url\` text NOT NULL,
+        \`request_params\` json NULL,
+        \`request_body\` text NULL,
+        \`response_status\` int NULL,
+        \`response_size\` int NULL,
+        \`response_preview\` text NULL,
+        \`duration_ms\` int NULL,
+        \`records_received\` int NOT NULL DEFAULT '0',
+        \`records_inserted\` int NOT NULL DEFAULT '0',
+        \`duplicates_skipped\` int NOT NULL DEFAULT '0',
+        \`error_message\` text NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        KEY \`IDX_fetch_run_pages_run_page\` (\`run_id\`, \`page_number\`),
+        CONSTRAINT \`FK_fetch_run_pages_run_id\` FOREIGN KEY (\`run_id\`) REFERENCES \`fetch_runs\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`fetch_run_pages\``);
+    await queryRunner.dropColumn('fetch_runs', 'duplicates_skipped');
+    await queryRunner.dropColumn('fetch_runs', 'records_inserted');
+  }
+}
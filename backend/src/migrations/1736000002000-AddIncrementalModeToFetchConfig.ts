@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddIncrementalModeToFetchConfig1736000002000 implements MigrationInterface {
+  name = 'AddIncrementalModeToFetchConfig1736000002000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'incremental_mode',
+        type: 'boolean',
+        default: false,
+      }),
+      new TableColumn({
+        name: 'watermark_field',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'watermark_field');
+    await queryRunner.dropColumn('fetch_configs', 'incremental_mode');
+  }
+}
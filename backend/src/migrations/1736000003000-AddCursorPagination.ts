@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddCursorPagination1736000003000 implements MigrationInterface {
+  name = 'AddCursorPagination1736000003000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`pagination_type\` enum('page', 'offset', 'cursor', 'next_url') NULL DEFAULT 'page'
+    `);
+
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'cursor_path',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'cursor_param',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'cursor_location',
+        type: 'enum',
+        enum: ['query', 'body'],
+        default: "'query'",
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'cursor_location');
+    await queryRunner.dropColumn('fetch_configs', 'cursor_param');
+    await queryRunner.dropColumn('fetch_configs', 'cursor_path');
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`pagination_type\` enum('page', 'offset') NULL DEFAULT 'page'
+    `);
+  }
+}
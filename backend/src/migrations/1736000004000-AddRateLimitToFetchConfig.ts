@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddRateLimitToFetchConfig1736000004000 implements MigrationInterface {
+  name = 'AddRateLimitToFetchConfig1736000004000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'fetch_configs',
+      new TableColumn({
+        name: 'rate_limit',
+        type: 'json',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'rate_limit');
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserSecrets1736000005000 implements MigrationInterface {
+  name = 'AddUserSecrets1736000005000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 创建用户密钥表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`user_secrets\` (
+        \`id\` varchar(36) NOT NULL,
+        \`user_id\` varchar(36) NOT NULL,
+        \`name\` varchar(100) NOT NULL,
+        \`description\` varchar(255) NULL,
+        \`encrypted_value\` text NOT NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`IDX_user_secrets_user_name\` (\`user_id\`, \`name\`),
+        CONSTRAINT \`FK_user_secrets_user_id\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`user_secrets\``);
+  }
+}
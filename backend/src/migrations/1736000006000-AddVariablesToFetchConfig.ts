@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddVariablesToFetchConfig1736000006000 implements MigrationInterface {
+  name = 'AddVariablesToFetchConfig1736000006000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'fetch_configs',
+      new TableColumn({
+        name: 'variables',
+        type: 'json',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'variables');
+  }
+}
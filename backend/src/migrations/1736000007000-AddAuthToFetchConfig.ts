@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddAuthToFetchConfig1736000007000 implements MigrationInterface {
+  name = 'AddAuthToFetchConfig1736000007000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'fetch_configs',
+      new TableColumn({
+        name: 'auth',
+        type: 'json',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'auth');
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from 'typeorm';
+
+export class AddFetchSources1736000008000 implements MigrationInterface {
+  name = 'AddFetchSources1736000008000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'source_name',
+        type: 'varchar',
+        length: '100',
+        default: "'main'",
+      }),
+      new TableColumn({
+        name: 'join_field',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'primary_join_field',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.createIndex(
+      'fetch_configs',
+      new TableIndex({
+        name: 'unique_session_source',
+        columnNames: ['session_id', 'source_name'],
+        isUnique: true,
+      })
+    );
+
+    await queryRunner.addColumn(
+      'data_table_schemas',
+      new TableColumn({
+        name: 'source_name',
+        type: 'varchar',
+        length: '100',
+        default: "'main'",
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('data_table_schemas', 'source_name');
+    await queryRunner.dropIndex('fetch_configs', 'unique_session_source');
+    await queryRunner.dropColumn('fetch_configs', 'primary_join_field');
+    await queryRunner.dropColumn('fetch_configs', 'join_field');
+    await queryRunner.dropColumn('fetch_configs', 'source_name');
+  }
+}
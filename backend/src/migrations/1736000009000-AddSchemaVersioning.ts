@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSchemaVersioning1736000009000 implements MigrationInterface {
+  name = 'AddSchemaVersioning1736000009000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('data_table_schemas', [
+      new TableColumn({
+        name: 'schema_version',
+        type: 'int',
+        default: 1,
+      }),
+      new TableColumn({
+        name: 'schema_history',
+        type: 'json',
+        isNullable: true,
+      }),
+    ]);
+
+    await queryRunner.addColumn(
+      'fetch_runs',
+      new TableColumn({
+        name: 'schema_changes',
+        type: 'json',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_runs', 'schema_changes');
+    await queryRunner.dropColumn('data_table_schemas', 'schema_history');
+    await queryRunner.dropColumn('data_table_schemas', 'schema_version');
+  }
+}
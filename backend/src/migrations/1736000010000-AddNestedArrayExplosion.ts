@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddNestedArrayExplosion1736000010000 implements MigrationInterface {
+  name = 'AddNestedArrayExplosion1736000010000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'fetch_configs',
+      new TableColumn({
+        name: 'explode_fields',
+        type: 'json',
+        isNullable: true,
+      })
+    );
+
+    await queryRunner.addColumn(
+      'data_table_schemas',
+      new TableColumn({
+        name: 'parent_source_name',
+        type: 'varchar',
+        length: '100',
+        isNullable: true,
+      })
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('data_table_schemas', 'parent_source_name');
+    await queryRunner.dropColumn('fetch_configs', 'explode_fields');
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddFileUploadSource1736000011000 implements MigrationInterface {
+  name = 'AddFileUploadSource1736000011000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'source_type',
+        type: 'enum',
+        enum: ['api', 'file'],
+        default: "'api'",
+      }),
+      new TableColumn({
+        name: 'file_name',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'file_format',
+        type: 'varchar',
+        length: '20',
+        isNullable: true,
+      }),
+    ]);
+
+    // 文件数据源没有接口地址
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`api_url\` text NULL
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_runs\`
+      MODIFY \`trigger\` enum('manual', 'schedule', 'upload') NOT NULL DEFAULT 'manual'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DELETE FROM \`fetch_runs\` WHERE \`trigger\` = 'upload'`);
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_runs\`
+      MODIFY \`trigger\` enum('manual', 'schedule') NOT NULL DEFAULT 'manual'
+    `);
+
+    await queryRunner.query(`DELETE FROM \`fetch_configs\` WHERE \`source_type\` = 'file'`);
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`api_url\` text NOT NULL
+    `);
+
+    await queryRunner.dropColumn('fetch_configs', 'file_format');
+    await queryRunner.dropColumn('fetch_configs', 'file_name');
+    await queryRunner.dropColumn('fetch_configs', 'source_type');
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddGraphqlSource1736000012000 implements MigrationInterface {
+  name = 'AddGraphqlSource1736000012000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`source_type\` enum('api', 'file', 'graphql') NOT NULL DEFAULT 'api'
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`pagination_type\` enum('page', 'offset', 'cursor', 'next_url', 'relay') NULL DEFAULT 'page'
+    `);
+
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'graphql_query',
+        type: 'text',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'graphql_variables',
+        type: 'json',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'graphql_variables');
+    await queryRunner.dropColumn('fetch_configs', 'graphql_query');
+
+    await queryRunner.query(`DELETE FROM \`fetch_configs\` WHERE \`source_type\` = 'graphql'`);
+    await queryRunner.query(`UPDATE \`fetch_configs\` SET \`pagination_type\` = 'cursor' WHERE \`pagination_type\` = 'relay'`);
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`pagination_type\` enum('page', 'offset', 'cursor', 'next_url') NULL DEFAULT 'page'
+    `);
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`source_type\` enum('api', 'file') NOT NULL DEFAULT 'api'
+    `);
+  }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddSqlSource1736000013000 implements MigrationInterface {
+  name = 'AddSqlSource1736000013000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`source_type\` enum('api', 'file', 'graphql', 'sql') NOT NULL DEFAULT 'api'
+    `);
+
+    await queryRunner.addColumns('fetch_configs', [
+      new TableColumn({
+        name: 'sql_connection',
+        type: 'json',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'sql_query',
+        type: 'text',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'sql_params',
+        type: 'json',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'sql_params');
+    await queryRunner.dropColumn('fetch_configs', 'sql_query');
+    await queryRunner.dropColumn('fetch_configs', 'sql_connection');
+
+    await queryRunner.query(`DELETE FROM \`fetch_configs\` WHERE \`source_type\` = 'sql'`);
+    await queryRunner.query(`
+      ALTER TABLE \`fetch_configs\`
+      MODIFY \`source_type\` enum('api', 'file', 'graphql') NOT NULL DEFAULT 'api'
+    `);
+  }
+}
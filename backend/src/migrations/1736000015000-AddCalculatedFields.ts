@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCalculatedFields1736000015000 implements MigrationInterface {
+  name = 'AddCalculatedFields1736000015000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 创建计算字段表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`calculated_fields\` (
+        \`id\` varchar(36) NOT NULL,
+        \`session_id\` varchar(36) NOT NULL,
+        \`name\` varchar(64) NOT NULL,
+        \`label\` varchar(255) NULL,
+        \`expression\` text NOT NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`unique_session_calculated_field\` (\`session_id\`, \`name\`),
+        CONSTRAINT \`FK_calculated_fields_session_id\` FOREIGN KEY (\`session_id\`) REFERENCES \`data_sessions\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`calculated_fields\``);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddChartSeries1736000016000 implements MigrationInterface {
+  name = 'AddChartSeries1736000016000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('chart_configs', [
+      new TableColumn({
+        name: 'series_field',
+        type: 'varchar',
+        length: '255',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'measures',
+        type: 'json',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'series_layout',
+        type: 'enum',
+        enum: ['grouped', 'stacked'],
+        default: "'grouped'",
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('chart_configs', 'series_layout');
+    await queryRunner.dropColumn('chart_configs', 'measures');
+    await queryRunner.dropColumn('chart_configs', 'series_field');
+  }
+}
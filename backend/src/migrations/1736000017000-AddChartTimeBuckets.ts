@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddChartTimeBuckets1736000017000 implements MigrationInterface {
+  name = 'AddChartTimeBuckets1736000017000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('chart_configs', [
+      new TableColumn({
+        name: 'time_bucket',
+        type: 'varchar',
+        length: '20',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'timezone',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'fill_gaps',
+        type: 'boolean',
+        default: true,
+      }),
+      new TableColumn({
+        name: 'rolling_window',
+        type: 'json',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('chart_configs', 'rolling_window');
+    await queryRunner.dropColumn('chart_configs', 'fill_gaps');
+    await queryRunner.dropColumn('chart_configs', 'timezone');
+    await queryRunner.dropColumn('chart_configs', 'time_bucket');
+  }
+}
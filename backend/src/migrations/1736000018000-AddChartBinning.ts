@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddChartBinning1736000018000 implements MigrationInterface {
+  name = 'AddChartBinning1736000018000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 添加 histogram、boxplot 图表类型到枚举
+    await queryRunner.query(`
+      ALTER TABLE \`chart_configs\`
+      MODIFY COLUMN \`chart_type\` enum('line', 'bar', 'pie', 'scatter', 'histogram', 'boxplot') NOT NULL
+    `);
+
+    await queryRunner.addColumn(
+      'chart_configs',
+      new TableColumn({
+        name: 'binning',
+        type: 'json',
+        isNullable: true,
+      }),
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('chart_configs', 'binning');
+
+    await queryRunner.query(`
+      DELETE FROM \`chart_configs\` WHERE \`chart_type\` IN ('histogram', 'boxplot')
+    `);
+    await queryRunner.query(`
+      ALTER TABLE \`chart_configs\`
+      MODIFY COLUMN \`chart_type\` enum('line', 'bar', 'pie', 'scatter') NOT NULL
+    `);
+  }
+}
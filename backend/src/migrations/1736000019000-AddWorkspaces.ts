@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWorkspaces1736000019000 implements MigrationInterface {
+  name = 'AddWorkspaces1736000019000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 创建工作区表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`workspaces\` (
+        \`id\` varchar(36) NOT NULL,
+        \`name\` varchar(100) NOT NULL,
+        \`description\` varchar(255) NULL,
+        \`created_by\` varchar(36) NOT NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        CONSTRAINT \`FK_workspaces_created_by\` FOREIGN KEY (\`created_by\`) REFERENCES \`users\` (\`id\`) ON DELETE NO ACTION ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // 创建工作区成员表
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`workspace_members\` (
+        \`id\` varchar(36) NOT NULL,
+        \`workspace_id\` varchar(36) NOT NULL,
+        \`user_id\` varchar(36) NOT NULL,
+        \`role\` enum('owner', 'editor', 'viewer') NOT NULL DEFAULT 'viewer',
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`IDX_workspace_members_workspace_user\` (\`workspace_id\`, \`user_id\`),
+        CONSTRAINT \`FK_workspace_members_workspace_id\` FOREIGN KEY (\`workspace_id\`) REFERENCES \`workspaces\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION,
+        CONSTRAINT \`FK_workspace_members_user_id\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+
+    // 会话所属工作区，为空时为个人会话
+    await queryRunner.query(`
+      ALTER TABLE \`data_sessions\`
+      ADD COLUMN \`workspace_id\` varchar(36) NULL,
+      ADD CONSTRAINT \`FK_data_sessions_workspace_id\` FOREIGN KEY (\`workspace_id\`) REFERENCES \`workspaces\` (\`id\`) ON DELETE SET NULL ON UPDATE NO ACTION
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE \`data_sessions\`
+      DROP FOREIGN KEY \`FK_data_sessions_workspace_id\`,
+      DROP COLUMN \`workspace_id\`
+    `);
+    await queryRunner.query(`DROP TABLE IF EXISTS \`workspace_members\``);
+    await queryRunner.query(`DROP TABLE IF EXISTS \`workspaces\``);
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefreshTokens1736000020000 implements MigrationInterface {
+  name = 'AddRefreshTokens1736000020000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // 创建刷新令牌表，每次登录一条记录
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS \`refresh_tokens\` (
+        \`id\` varchar(36) NOT NULL,
+        \`user_id\` varchar(36) NOT NULL,
+        \`token_hash\` varchar(64) NOT NULL,
+        \`expires_at\` timestamp NOT NULL,
+        \`revoked_at\` timestamp NULL,
+        \`user_agent\` varchar(255) NULL,
+        \`ip_address\` varchar(64) NULL,
+        \`created_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6),
+        \`updated_at\` timestamp(6) NOT NULL DEFAULT CURRENT_TIMESTAMP(6) ON UPDATE CURRENT_TIMESTAMP(6),
+        PRIMARY KEY (\`id\`),
+        KEY \`IDX_refresh_tokens_user_id\` (\`user_id\`),
+        CONSTRAINT \`FK_refresh_tokens_user_id\` FOREIGN KEY (\`user_id\`) REFERENCES \`users\` (\`id\`) ON DELETE CASCADE ON UPDATE NO ACTION
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS \`refresh_tokens\``);
+  }
+}
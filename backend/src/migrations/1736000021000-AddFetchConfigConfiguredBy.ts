@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddFetchConfigConfiguredBy1736000021000 implements MigrationInterface {
+  name = 'AddFetchConfigConfiguredBy1736000021000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      'fetch_configs',
+      new TableColumn({
+        name: 'configured_by',
+        type: 'varchar',
+        length: '36',
+        isNullable: true,
+      })
+    );
+
+    // 已有配置此前按会话创建者的密钥解析，保持不变
+    await queryRunner.query(`
+      UPDATE \`fetch_configs\` fc
+      INNER JOIN \`data_sessions\` ds ON ds.\`id\` = fc.\`session_id\`
+      SET fc.\`configured_by\` = ds.\`user_id\`
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('fetch_configs', 'configured_by');
+  }
+}
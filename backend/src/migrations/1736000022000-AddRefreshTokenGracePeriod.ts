@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn } from 'typeorm';
+
+export class AddRefreshTokenGracePeriod1736000022000 implements MigrationInterface {
+  name = 'AddRefreshTokenGracePeriod1736000022000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns('refresh_tokens', [
+      new TableColumn({
+        name: 'previous_token_hash',
+        type: 'varchar',
+        length: '64',
+        isNullable: true,
+      }),
+      new TableColumn({
+        name: 'rotated_at',
+        type: 'timestamp',
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('refresh_tokens', 'rotated_at');
+    await queryRunner.dropColumn('refresh_tokens', 'previous_token_hash');
+  }
+}
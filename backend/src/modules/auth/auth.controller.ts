@@ -1,15 +1,22 @@
 import { Controller, Post, Body, UseGuards, Get, Request } from '@nestjs/common';
 import { AuthService } from './auth.service';
-import { RegisterDto, LoginDto } from './dto';
+import { RegisterDto, LoginDto, RefreshTokenDto } from './dto';
 import { JwtAuthGuard } from './jwt-auth.guard';
+import { RefreshTokenMeta } from './refresh-token.service';
+
+// 记录登录设备信息，便于排查令牌异常
+const getClientMeta = (req): RefreshTokenMeta => ({
+  userAgent: req.headers?.['user-agent'],
+  ipAddress: req.ip,
+});
 
 @Controller('auth')
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
   @Post('register')
-  async register(@Body() registerDto: RegisterDto) {
-    const result = await this.authService.register(registerDto);
+  async register(@Body() registerDto: RegisterDto, @Request() req) {
+    const result = await this.authService.register(registerDto, getClientMeta(req));
     return {
       success: true,
       data: result,
@@ -18,8 +25,8 @@ export class AuthController {
   }
 
   @Post('login')
-  async login(@Body() loginDto: LoginDto) {
-    const result = await this.authService.login(loginDto);
+  async login(@Body() loginDto: LoginDto, @Request() req) {
+    const result = await this.authService.login(loginDto, getClientMeta(req));
     return {
       success: true,
       data: result,
@@ -27,6 +34,35 @@ export class AuthController {
     };
   }
 
+  @Post('refresh')
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto, @Request() req) {
+    const result = await this.authService.refresh(refreshTokenDto.refreshToken, getClientMeta(req));
+    return {
+      success: true,
+      data: result,
+      message: '刷新成功',
+    };
+  }
+
+  @Post('logout')
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+    return {
+      success: true,
+      message: '已退出登录',
+    };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('logout-all')
+  async logoutAll(@Request() req) {
+    await this.authService.logoutAll(req.user.id);
+    return {
+      success: true,
+      message: '已退出所有设备',
+    };
+  }
+
   @UseGuards(JwtAuthGuard)
   @Get('profile')
   async getProfile(@Request() req) {
@@ -5,6 +5,12 @@ import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { User } from '../../entities/user.entity';
 import { RegisterDto, LoginDto } from './dto';
+import { RefreshTokenService, RefreshTokenMeta } from './refresh-token.service';
+
+export interface AuthTokens {
+  token: string; // 短期访问令牌
+  refreshToken: string; // 长期刷新令牌，每次刷新后轮换
+}
 
 @Injectable()
 export class AuthService {
@@ -12,9 +18,10 @@ export class AuthService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly jwtService: JwtService,
+    private readonly refreshTokenService: RefreshTokenService,
   ) {}
 
-  async register(registerDto: RegisterDto): Promise<{ user: Partial<User>; token: string }> {
+  async register(registerDto: RegisterDto, meta?: RefreshTokenMeta): Promise<{ user: Partial<User> } & AuthTokens> {
     const { username, email, password, nickname } = registerDto;
 
     // 检查用户名和邮箱是否已存在
@@ -39,22 +46,19 @@ export class AuthService {
 
     const savedUser = await this.userRepository.save(user);
 
-    // 生成JWT token
-    const token = this.jwtService.sign({ 
-      sub: savedUser.id, 
-      username: savedUser.username 
-    });
+    // 生成访问令牌和刷新令牌
+    const tokens = await this.issueTokens(savedUser, meta);
 
     // 返回用户信息（不包含密码）
     const { password: _, ...userWithoutPassword } = savedUser;
 
     return {
       user: userWithoutPassword,
-      token,
+      ...tokens,
     };
   }
 
-  async login(loginDto: LoginDto): Promise<{ user: Partial<User>; token: string }> {
+  async login(loginDto: LoginDto, meta?: RefreshTokenMeta): Promise<{ user: Partial<User> } & AuthTokens> {
     const { username, password } = loginDto;
 
     // 查找用户
@@ -72,22 +76,70 @@ export class AuthService {
       throw new UnauthorizedException('用户名或密码错误');
     }
 
-    // 生成JWT token
-    const token = this.jwtService.sign({ 
-      sub: user.id, 
-      username: user.username 
-    });
+    // 生成访问令牌和刷新令牌
+    const tokens = await this.issueTokens(user, meta);
 
     // 返回用户信息（不包含密码）
     const { password: _, ...userWithoutPassword } = user;
 
     return {
       user: userWithoutPassword,
-      token,
+      ...tokens,
+    };
+  }
+
+  /**
+   * 使用刷新令牌换取新的访问令牌，刷新令牌同时轮换
+   */
+  async refresh(refreshToken: string, meta?: RefreshTokenMeta): Promise<AuthTokens> {
+    const issued = await this.refreshTokenService.rotate(refreshToken, meta);
+
+    const user = await this.userRepository.findOne({ where: { id: issued.userId } });
+    if (!user) {
+      throw new UnauthorizedException('用户不存在');
+    }
+
+    return {
+      token: this.signAccessToken(user, issued.id),
+      refreshToken: issued.token,
     };
   }
 
-  async validateUser(userId: string): Promise<User | null> {
+  /**
+   * 退出当前设备
+   */
+  async logout(refreshToken: string): Promise<void> {
+    await this.refreshTokenService.revoke(refreshToken);
+  }
+
+  /**
+   * 退出所有设备
+   */
+  async logoutAll(userId: string): Promise<void> {
+    await this.refreshTokenService.revokeAll(userId);
+  }
+
+  async validateUser(userId: string, sid?: string): Promise<User | null> {
+    // 访问令牌必须关联仍然有效的登录记录
+    if (!sid || !(await this.refreshTokenService.isActive(sid, userId))) {
+      return null;
+    }
     return this.userRepository.findOne({ where: { id: userId } });
   }
+
+  private async issueTokens(user: User, meta?: RefreshTokenMeta): Promise<AuthTokens> {
+    const issued = await this.refreshTokenService.issue(user.id, meta);
+    return {
+      token: this.signAccessToken(user, issued.id),
+      refreshToken: issued.token,
+    };
+  }
+
+  private signAccessToken(user: User, sid: string): string {
+    return this.jwtService.sign({
+      sub: user.id,
+      username: user.username,
+      sid,
+    });
+  }
 }
\ No newline at end of file
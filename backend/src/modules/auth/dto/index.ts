@@ -1,4 +1,4 @@
-import { IsString, IsEmail, MinLength, IsOptional } from 'class-validator';
+import { IsString, IsEmail, MinLength, IsOptional, IsNotEmpty } from 'class-validator';
 
 export class RegisterDto {
   @IsString()
@@ -23,4 +23,10 @@ export class LoginDto {
 
   @IsString()
   password: string;
-}
\ No newline at end of file
+}
+
+export class RefreshTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
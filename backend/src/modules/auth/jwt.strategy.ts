@@ -14,7 +14,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    const user = await this.authService.validateUser(payload.sub);
+    // sid 对应的登录已退出或被吊销时，未过期的访问令牌也一并失效
+    const user = await this.authService.validateUser(payload.sub, payload.sid);
     if (!user) {
       throw new UnauthorizedException();
     }
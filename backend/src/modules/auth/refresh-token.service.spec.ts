@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { UnauthorizedException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { RefreshTokenService } from './refresh-token.service';
+import { RefreshToken } from '../../entities/refresh-token.entity';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let records: Partial<RefreshToken>[];
+  let nextId: number;
+
+  const mockRefreshTokenRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    save: jest.fn((entity) => {
+      if (!entity.id) {
+        entity.id = `00000000-0000-4000-8000-${String(nextId++).padStart(12, '0')}`;
+        records.push(entity);
+      }
+      return Promise.resolve(entity);
+    }),
+    findOne: jest.fn(({ where }) => {
+      const record = records.find((r) => r.id === where.id && (!where.userId || r.userId === where.userId));
+      return Promise.resolve(record ? { ...record } : null);
+    }),
+    update: jest.fn((criteria, partial) => {
+      const matched = records.filter((r) =>
+        Object.entries(criteria).every(([key, value]) =>
+          value instanceof FindOperator ? r[key] == null : r[key] === value,
+        ),
+      );
+      matched.forEach((r) => Object.assign(r, partial));
+      return Promise.resolve({ affected: matched.length });
+    }),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: mockRefreshTokenRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+    records = [];
+    nextId = 1;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('签发的刷新令牌只保存哈希', async () => {
+    const issued = await service.issue('user-1', { userAgent: 'jest', ipAddress: '127.0.0.1' });
+
+    const [id, secret] = issued.token.split('.');
+    expect(id).toBe(issued.id);
+    expect(records[0].tokenHash).toHaveLength(64);
+    expect(records[0].tokenHash).not.toContain(secret);
+    await expect(service.isActive(issued.id, 'user-1')).resolves.toBe(true);
+  });
+
+  it('刷新时应该轮换令牌并顺延有效期', async () => {
+    const issued = await service.issue('user-1');
+    records[0].expiresAt = new Date(Date.now() + 1000);
+
+    const rotated = await service.rotate(issued.token);
+
+    expect(rotated.id).toBe(issued.id);
+    expect(rotated.token).not.toBe(issued.token);
+    expect(rotated.expiresAt.getTime()).toBeGreaterThan(Date.now() + 1000);
+    await expect(service.rotate(rotated.token)).resolves.toEqual(expect.objectContaining({ userId: 'user-1' }));
+  });
+
+  it('旧令牌在宽限期后被重复使用时应该吊销该登录', async () => {
+    const issued = await service.issue('user-1');
+    const rotated = await service.rotate(issued.token);
+    records[0].rotatedAt = new Date(Date.now() - 60 * 1000);
+
+    await expect(service.rotate(issued.token)).rejects.toThrow('登录凭证已失效，请重新登录');
+    await expect(service.rotate(rotated.token)).rejects.toThrow(UnauthorizedException);
+    await expect(service.isActive(issued.id, 'user-1')).resolves.toBe(false);
+  });
+
+  it('同一令牌并发刷新时两个请求都应该拿到可用的令牌', async () => {
+    const issued = await service.issue('user-1');
+
+    const [first, second] = await Promise.all([service.rotate(issued.token), service.rotate(issued.token)]);
+
+    expect(first.token).not.toBe(second.token);
+    expect(mockRefreshTokenRepository.findOne).toHaveBeenCalledTimes(3);
+    await expect(service.isActive(issued.id, 'user-1')).resolves.toBe(true);
+    await expect(service.rotate(second.token)).resolves.toEqual(expect.objectContaining({ userId: 'user-1' }));
+  });
+
+  it('宽限期内旧令牌应该换取新令牌而不是吊销登录', async () => {
+    const issued = await service.issue('user-1');
+    const rotated = await service.rotate(issued.token);
+
+    const retried = await service.rotate(issued.token);
+
+    expect(retried.token).not.toBe(rotated.token);
+    expect(records[0].revokedAt).toBeUndefined();
+    await expect(service.rotate(retried.token)).resolves.toEqual(expect.objectContaining({ userId: 'user-1' }));
+  });
+
+  it('应该拒绝过期或格式错误的令牌', async () => {
+    const issued = await service.issue('user-1');
+    records[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(service.rotate(issued.token)).rejects.toThrow('登录已过期，请重新登录');
+    await expect(service.rotate('not-a-token')).rejects.toThrow(UnauthorizedException);
+    await expect(service.rotate('abc.def')).rejects.toThrow(UnauthorizedException);
+    expect(mockRefreshTokenRepository.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('退出登录只吊销当前设备', async () => {
+    const first = await service.issue('user-1');
+    const second = await service.issue('user-1');
+
+    await service.revoke(first.token);
+    await service.revoke('invalid');
+
+    await expect(service.isActive(first.id, 'user-1')).resolves.toBe(false);
+    await expect(service.isActive(second.id, 'user-1')).resolves.toBe(true);
+  });
+
+  it('退出所有设备应该吊销该用户的全部登录', async () => {
+    const first = await service.issue('user-1');
+    const second = await service.issue('user-1');
+    const other = await service.issue('user-2');
+
+    await service.revokeAll('user-1');
+
+    await expect(service.isActive(first.id, 'user-1')).resolves.toBe(false);
+    await expect(service.isActive(second.id, 'user-1')).resolves.toBe(false);
+    await expect(service.isActive(other.id, 'user-2')).resolves.toBe(true);
+    await expect(service.rotate(second.token)).rejects.toThrow(UnauthorizedException);
+  });
+});
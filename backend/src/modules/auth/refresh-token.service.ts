@@ -0,0 +1,165 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { RefreshToken } from '../../entities/refresh-token.entity';
+
+// 刷新令牌有效期（天），每次刷新后顺延
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.JWT_REFRESH_EXPIRES_DAYS) || 30;
+
+// 轮换后旧令牌仍可使用的时间（毫秒），用于多个标签页或请求同时刷新
+const REFRESH_TOKEN_GRACE_MS = 30 * 1000;
+
+// 并发轮换冲突时的最大重试次数
+const MAX_ROTATE_ATTEMPTS = 3;
+
+const REFRESH_TOKEN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface RefreshTokenMeta {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  id: string; // 登录记录 id，写入访问令牌的 sid
+  userId: string;
+  token: string; // 返回给客户端的令牌，格式为 id.secret
+  expiresAt: Date;
+}
+
+/**
+ * 刷新令牌服务
+ * 每次刷新都轮换 secret，旧令牌再次出现说明令牌已泄露，直接吊销该登录
+ */
+@Injectable()
+export class RefreshTokenService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokenRepository: Repository<RefreshToken>,
+  ) {}
+
+  /**
+   * 登录时签发刷新令牌
+   */
+  async issue(userId: string, meta: RefreshTokenMeta = {}): Promise<IssuedRefreshToken> {
+    const secret = this.generateSecret();
+    const record = await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        userId,
+        tokenHash: this.hash(secret),
+        expiresAt: this.nextExpiry(),
+        userAgent: meta.userAgent?.slice(0, 255),
+        ipAddress: meta.ipAddress?.slice(0, 64),
+      }),
+    );
+
+    return { id: record.id, userId, token: `${record.id}.${secret}`, expiresAt: record.expiresAt };
+  }
+
+  /**
+   * 校验并轮换刷新令牌
+   * 只有摘要未被其他请求改写时才更新，刚轮换掉的旧令牌在宽限期内换取当前令牌的下一次轮换
+   */
+  async rotate(token: string, meta: RefreshTokenMeta = {}): Promise<IssuedRefreshToken> {
+    const { id, secret } = this.parse(token);
+
+    for (let attempt = 0; attempt < MAX_ROTATE_ATTEMPTS; attempt++) {
+      const record = id ? await this.refreshTokenRepository.findOne({ where: { id } }) : null;
+
+      if (!record || record.revokedAt || record.expiresAt.getTime() <= Date.now()) {
+        throw new UnauthorizedException('登录已过期，请重新登录');
+      }
+
+      if (!this.matches(record.tokenHash, secret) && !this.withinGracePeriod(record, secret)) {
+        // 已轮换的旧令牌被再次使用，吊销该登录，合法持有者也需要重新登录
+        await this.refreshTokenRepository.update({ id: record.id }, { revokedAt: new Date() });
+        throw new UnauthorizedException('登录凭证已失效，请重新登录');
+      }
+
+      const nextSecret = this.generateSecret();
+      const expiresAt = this.nextExpiry();
+      const result = await this.refreshTokenRepository.update(
+        { id: record.id, tokenHash: record.tokenHash, revokedAt: IsNull() },
+        {
+          tokenHash: this.hash(nextSecret),
+          previousTokenHash: record.tokenHash,
+          rotatedAt: new Date(),
+          expiresAt,
+          ...(meta.userAgent && { userAgent: meta.userAgent.slice(0, 255) }),
+          ...(meta.ipAddress && { ipAddress: meta.ipAddress.slice(0, 64) }),
+        },
+      );
+
+      if (result.affected) {
+        return { id: record.id, userId: record.userId, token: `${record.id}.${nextSecret}`, expiresAt };
+      }
+      // 其他请求已先一步轮换，重新读取后按宽限期判断
+    }
+
+    throw new UnauthorizedException('登录凭证已失效，请重新登录');
+  }
+
+  /**
+   * 退出登录，令牌无效时静默忽略
+   */
+  async revoke(token: string): Promise<void> {
+    const { id, secret } = this.parse(token);
+    const record = id ? await this.refreshTokenRepository.findOne({ where: { id } }) : null;
+
+    if (record && !record.revokedAt && this.matches(record.tokenHash, secret)) {
+      await this.refreshTokenRepository.update({ id: record.id }, { revokedAt: new Date() });
+    }
+  }
+
+  /**
+   * 退出所有设备
+   */
+  async revokeAll(userId: string): Promise<void> {
+    await this.refreshTokenRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  }
+
+  /**
+   * 登录记录是否仍然有效，用于校验访问令牌
+   */
+  async isActive(id: string, userId: string): Promise<boolean> {
+    const record = await this.refreshTokenRepository.findOne({ where: { id, userId } });
+    return !!record && !record.revokedAt && record.expiresAt.getTime() > Date.now();
+  }
+
+  private parse(token: string): { id: string | null; secret: string } {
+    const separator = typeof token === 'string' ? token.indexOf('.') : -1;
+    const id = separator > 0 ? token.slice(0, separator) : '';
+    // id 不是 UUID 时直接视为无效，避免无效值进入查询
+    if (!REFRESH_TOKEN_ID_PATTERN.test(id)) {
+      return { id: null, secret: '' };
+    }
+    return { id, secret: token.slice(separator + 1) };
+  }
+
+  private withinGracePeriod(record: RefreshToken, secret: string): boolean {
+    return (
+      !!record.previousTokenHash &&
+      !!record.rotatedAt &&
+      record.rotatedAt.getTime() + REFRESH_TOKEN_GRACE_MS > Date.now() &&
+      this.matches(record.previousTokenHash, secret)
+    );
+  }
+
+  private matches(tokenHash: string, secret: string): boolean {
+    const expected = Buffer.from(tokenHash, 'hex');
+    const actual = Buffer.from(this.hash(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,112 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DataSession } from '../../entities/data-session.entity';
+import { CalculatedField } from '../../entities/calculated-field.entity';
+import { DataAnalysisService } from './data-analysis.service';
+
+export interface CalculatedFieldInput {
+  name: string;
+  label?: string;
+  expression: string;
+}
+
+@Injectable()
+export class CalculatedFieldService {
+  private readonly logger = new Logger(CalculatedFieldService.name);
+
+  constructor(
+    @InjectRepository(DataSession)
+    private readonly sessionRepository: Repository<DataSession>,
+    @InjectRepository(CalculatedField)
+    private readonly calculatedFieldRepository: Repository<CalculatedField>,
+    private readonly dataAnalysisService: DataAnalysisService,
+  ) {}
+
+  /**
+   * 获取会话的计算字段
+   */
+  async findAll(sessionId: string): Promise<CalculatedField[]> {
+    await this.ensureSession(sessionId);
+    return this.calculatedFieldRepository.find({
+      where: { sessionId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 新建计算字段，表达式需能在当前数据上编译
+   */
+  async create(sessionId: string, input: CalculatedFieldInput): Promise<CalculatedField> {
+    await this.ensureSession(sessionId);
+    await this.ensureNameAvailable(sessionId, input.name);
+    await this.dataAnalysisService.validateCalculatedExpression(sessionId, input.name, input.expression);
+
+    const field = this.calculatedFieldRepository.create({
+      sessionId,
+      name: input.name,
+      label: input.label || null,
+      expression: input.expression.trim(),
+    });
+    const saved = await this.calculatedFieldRepository.save(field);
+    this.logger.log(`会话 ${sessionId} 新增计算字段 ${saved.name} = ${saved.expression}`);
+    return saved;
+  }
+
+  /**
+   * 更新计算字段
+   */
+  async update(sessionId: string, id: string, input: Partial<CalculatedFieldInput>): Promise<CalculatedField> {
+    const field = await this.findOne(sessionId, id);
+    const name = input.name ?? field.name;
+    const expression = input.expression ?? field.expression;
+
+    if (name !== field.name) {
+      await this.ensureNameAvailable(sessionId, name);
+    }
+    await this.dataAnalysisService.validateCalculatedExpression(sessionId, name, expression);
+
+    field.name = name;
+    field.expression = expression.trim();
+    if (input.label !== undefined) {
+      field.label = input.label || null;
+    }
+    return this.calculatedFieldRepository.save(field);
+  }
+
+  /**
+   * 删除计算字段
+   */
+  async remove(sessionId: string, id: string): Promise<void> {
+    const field = await this.findOne(sessionId, id);
+    await this.calculatedFieldRepository.remove(field);
+  }
+
+  private async findOne(sessionId: string, id: string): Promise<CalculatedField> {
+    const field = await this.calculatedFieldRepository.findOne({
+      where: { id, sessionId },
+    });
+    if (!field) {
+      throw new NotFoundException(`计算字段 ${id} 不存在`);
+    }
+    return field;
+  }
+
+  private async ensureNameAvailable(sessionId: string, name: string): Promise<void> {
+    const existing = await this.calculatedFieldRepository.findOne({
+      where: { sessionId, name },
+    });
+    if (existing) {
+      throw new BadRequestException(`计算字段 ${name} 已存在`);
+    }
+  }
+
+  private async ensureSession(sessionId: string): Promise<void> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: sessionId },
+    });
+    if (!session) {
+      throw new NotFoundException(`会话 ${sessionId} 不存在`);
+    }
+  }
+}
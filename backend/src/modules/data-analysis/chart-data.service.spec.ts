@@ -0,0 +1,337 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { ChartDataService } from './chart-data.service';
+import { DataAnalysisService } from './data-analysis.service';
+import { DataSessionService } from '../data-session/data-session.service';
+import { DataSession } from '../../entities/data-session.entity';
+import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { FieldAnnotation } from '../../entities/field-annotation.entity';
+import { ChartConfig, AggregationType, SeriesLayout } from '../../entities/chart-config.entity';
+
+describe('ChartDataService', () => {
+  let service: ChartDataService;
+  let queryBuilders: any[];
+  let rawResults: any[][];
+
+  const fieldDefinitions = {
+    month: { type: 'string' },
+    region: { type: 'string' },
+    amount: { type: 'number' },
+    quantity: { type: 'integer' },
+    created_at: { type: 'date' },
+  };
+  const fieldPaths = {
+    month: 'data.month',
+    region: 'data.region',
+    amount: 'data.amount',
+    quantity: 'data.quantity',
+    created_at: 'data.created_at',
+  };
+
+  const createQueryBuilder = () => {
+    const queryBuilder: any = {
+      getRawMany: jest.fn(async () => rawResults.shift() || []),
+      getQuery: jest.fn().mockReturnValue('SELECT ranked'),
+      getParameters: jest.fn().mockReturnValue({}),
+    };
+    [
+      'select',
+      'addSelect',
+      'from',
+      'where',
+      'andWhere',
+      'groupBy',
+      'addGroupBy',
+      'orderBy',
+      'limit',
+      'setParameters',
+    ].forEach(method => {
+      queryBuilder[method] = jest.fn().mockReturnValue(queryBuilder);
+    });
+    queryBuilders.push(queryBuilder);
+    return queryBuilder;
+  };
+
+  beforeEach(async () => {
+    queryBuilders = [];
+    rawResults = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChartDataService,
+        { provide: getRepositoryToken(DataSession), useValue: {} },
+        { provide: getRepositoryToken(DataTableSchema), useValue: {} },
+        {
+          provide: getRepositoryToken(FieldAnnotation),
+          useValue: {
+            find: jest.fn().mockResolvedValue([
+              { fieldName: 'amount', label: '销售额' },
+              { fieldName: 'region', label: '地区' },
+            ]),
+          },
+        },
+        { provide: getRepositoryToken(ChartConfig), useValue: {} },
+        { provide: DataSource, useValue: { createQueryBuilder: jest.fn(() => createQueryBuilder()) } },
+        { provide: DataSessionService, useValue: {} },
+        {
+          provide: DataAnalysisService,
+          useValue: {
+            resolveSources: jest.fn().mockResolvedValue({ fieldDefinitions, fieldPaths }),
+            createSourceQuery: jest.fn(() => createQueryBuilder()),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ChartDataService>(ChartDataService);
+  });
+
+  describe('多系列图表', () => {
+    it('应该按系列字段拆分数据，缺失的组合返回 null', async () => {
+      rawResults = [
+        // 分类
+        [{ x: '2024-01', m0: '30' }, { x: '2024-02', m0: '12' }],
+        // 系列
+        [{ s: '华东', m0: '25' }, { s: null, m0: '17' }],
+        // 分类 x 系列
+        [
+          { x: '2024-01', s: '华东', m0: '20' },
+          { x: '2024-01', s: null, m0: '10' },
+          { x: '2024-02', s: '华东', m0: '5' },
+        ],
+      ];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'bar',
+        xAxis: 'month',
+        yAxis: 'amount',
+        aggregation: AggregationType.SUM,
+        seriesField: 'region',
+        seriesLayout: SeriesLayout.STACKED,
+      });
+
+      expect(result.categories).toEqual(['2024-01', '2024-02']);
+      expect(result.seriesLayout).toBe('stacked');
+      expect(result.series).toEqual([
+        expect.objectContaining({ name: '华东', seriesValue: '华东', axis: 'left', chartType: 'bar', data: [20, 5] }),
+        expect.objectContaining({ name: '(空)', seriesValue: null, data: [10, null] }),
+      ]);
+      expect(result.title).toBe('month vs 销售额（按地区）');
+
+      const dataQuery = queryBuilders[2];
+      expect(dataQuery.groupBy).toHaveBeenCalledWith('data.month');
+      expect(dataQuery.addGroupBy).toHaveBeenCalledWith('data.region');
+      expect(dataQuery.andWhere).toHaveBeenCalledWith('(data.month IN (:...series_x))', {
+        series_x: ['2024-01', '2024-02'],
+      });
+      expect(dataQuery.andWhere).toHaveBeenCalledWith('(data.region IN (:...series_s) OR data.region IS NULL)', {
+        series_s: ['华东'],
+      });
+    });
+
+    it('多个度量应该在一次查询中聚合并区分主次坐标轴', async () => {
+      rawResults = [[{ x: '2024-01', m0: '30.5', m1: '3' }, { x: '2024-02', m0: null, m1: '4' }]];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'bar',
+        xAxis: 'month',
+        yAxis: 'amount',
+        measures: [
+          { field: 'amount', aggregation: AggregationType.SUM },
+          { field: 'quantity', aggregation: AggregationType.AVG, axis: 'right', chartType: 'line' },
+        ],
+      });
+
+      expect(queryBuilders).toHaveLength(1);
+      expect(queryBuilders[0].addSelect).toHaveBeenCalledWith('SUM(data.amount)', 'm0');
+      expect(queryBuilders[0].addSelect).toHaveBeenCalledWith('AVG(data.quantity)', 'm1');
+      expect(result.series).toEqual([
+        expect.objectContaining({ name: '销售额 (求和)', axis: 'left', chartType: 'bar', data: [30.5, null] }),
+        expect.objectContaining({ name: 'quantity (平均值)', axis: 'right', chartType: 'line', data: [3, 4] }),
+      ]);
+      expect(result.yAxisLabel).toBe('销售额 (求和)');
+      expect(result.secondaryYAxisLabel).toBe('quantity (平均值)');
+      expect(result.seriesLayout).toBe('grouped');
+    });
+
+    it('按时间分组时应该补齐空分桶并计算移动平均', async () => {
+      rawResults = [
+        [
+          { x: '2024-01-01 00:00:00', m0: '10' },
+          { x: '2024-03-01 00:00:00', m0: '30' },
+          { x: '2024-04-01 00:00:00', m0: '20' },
+        ],
+      ];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'line',
+        xAxis: 'created_at',
+        yAxis: 'amount',
+        aggregation: AggregationType.SUM,
+        xAxisAggregation: 'date_group',
+        timeBucket: 'month',
+        rollingWindow: { type: 'moving_average', size: 2 },
+      });
+
+      const bucket = "DATE_FORMAT(data.created_at, '%Y-%m-01 00:00:00')";
+      expect(queryBuilders[0].select).toHaveBeenCalledWith(bucket, 'x');
+      expect(queryBuilders[0].groupBy).toHaveBeenCalledWith(bucket);
+      expect(queryBuilders[0].andWhere).toHaveBeenCalledWith('data.created_at IS NOT NULL');
+      expect(result.categories).toEqual(['2024-01', '2024-02', '2024-03', '2024-04']);
+      expect(result.timeBucket).toBe('month');
+      expect(result.series).toEqual([
+        expect.objectContaining({ name: '销售额（2期移动平均）', data: [10, 5, 15, 25] }),
+      ]);
+    });
+
+    it('累计求和应该按分桶顺序累加，不补齐时保留原有分桶', async () => {
+      rawResults = [[{ x: '2024-01-01 00:00:00', m0: '2' }, { x: '2024-01-03 00:00:00', m0: '5' }]];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'bar',
+        xAxis: 'created_at',
+        yAxis: 'amount',
+        aggregation: AggregationType.COUNT,
+        xAxisAggregation: 'date_group',
+        fillGaps: false,
+        rollingWindow: { type: 'cumulative_sum' },
+      });
+
+      expect(result.categories).toEqual(['2024-01-01', '2024-01-03']);
+      expect(result.series[0].data).toEqual([2, 7]);
+    });
+
+    it('按时间分组需要日期类型的X轴字段', async () => {
+      await expect(
+        service.generateOptimizedChartData({
+          sessionId: 'session-1',
+          chartType: 'line',
+          xAxis: 'month',
+          yAxis: 'amount',
+          xAxisAggregation: 'date_group',
+        }),
+      ).rejects.toThrow('按时间分组需要日期类型的X轴字段');
+    });
+
+    it('按数值范围分组时应该先计算分位数再返回全部分箱', async () => {
+      const ranked = [1, 2, 4, 8, 16].map((value, index) => ({ g: null, v: String(value), rn: index + 1, cnt: '5' }));
+      rawResults = [ranked, [{ x: '0', m0: '2' }, { x: 3, m0: '1' }]];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'bar',
+        xAxis: 'quantity',
+        yAxis: 'amount',
+        aggregation: AggregationType.COUNT,
+        xAxisAggregation: 'range',
+        binning: { method: 'sturges' },
+      });
+
+      expect(queryBuilders[1].from).toHaveBeenCalledWith('(SELECT ranked)', 't');
+      expect(queryBuilders[0].addSelect).toHaveBeenCalledWith('ROW_NUMBER() OVER (ORDER BY data.quantity)', 'rn');
+      const bin = 'LEAST(FLOOR((data.quantity - 1) / 3.75), 3)';
+      expect(queryBuilders[2].select).toHaveBeenCalledWith(bin, 'x');
+      expect(queryBuilders[2].andWhere).toHaveBeenCalledWith('data.quantity BETWEEN 1 AND 16');
+      expect(result.categories).toEqual(['[1, 4.75)', '[4.75, 8.5)', '[8.5, 12.25)', '[12.25, 16]']);
+      expect(result.binEdges).toEqual([1, 4.75, 8.5, 12.25, 16]);
+      expect(result.series[0].data).toEqual([2, 0, 0, 1]);
+    });
+
+    it('饼图不支持多系列', async () => {
+      await expect(
+        service.generateOptimizedChartData({
+          sessionId: 'session-1',
+          chartType: 'pie',
+          xAxis: 'month',
+          yAxis: 'amount',
+          seriesField: 'region',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('直方图和箱线图', () => {
+    it('直方图应该按自定义边界统计频数', async () => {
+      rawResults = [[{ x: '1', m0: '3' }]];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'histogram',
+        xAxis: 'amount',
+        yAxis: 'amount',
+        binning: { method: 'edges', edges: [0, 10, 100] },
+      });
+
+      expect(queryBuilders).toHaveLength(1);
+      expect(queryBuilders[0].addSelect).toHaveBeenCalledWith('COUNT(data.amount)', 'm0');
+      expect(result.type).toBe('histogram');
+      expect(result.title).toBe('销售额分布');
+      expect(result.categories).toEqual(['[0, 10)', '[10, 100]']);
+      expect(result.series).toEqual([expect.objectContaining({ name: '频数', data: [0, 3] })]);
+    });
+
+    it('箱线图应该按分组计算四分位数、须线和异常值', async () => {
+      rawResults = [
+        // 分组
+        [{ g: '华东', cnt: '5' }, { g: null, cnt: '1' }],
+        // 分位数需要的名次
+        [
+          ...[1, 2, 4, 8, 40].map((value, index) => ({ g: '华东', v: String(value), rn: String(index + 1), cnt: '5' })),
+          { g: null, v: '7', rn: '1', cnt: '1' },
+        ],
+        // 须线和异常值个数
+        [
+          { g: '华东', lw: '1', uw: '8', outliers: '1' },
+          { g: null, lw: '7', uw: '7', outliers: '0' },
+        ],
+        // 异常值
+        [{ g: '华东', v: '40' }],
+      ];
+
+      const result = await service.generateOptimizedChartData({
+        sessionId: 'session-1',
+        chartType: 'boxplot',
+        xAxis: 'region',
+        yAxis: 'amount',
+      });
+
+      expect(queryBuilders[1].addSelect).toHaveBeenCalledWith(
+        'ROW_NUMBER() OVER (PARTITION BY data.region ORDER BY data.amount)',
+        'rn',
+      );
+      const whiskerQuery = queryBuilders[3];
+      expect(whiskerQuery.addSelect).toHaveBeenCalledWith(
+        'MIN(CASE WHEN data.amount >= CASE WHEN data.region = :box_g0 THEN (-7) WHEN data.region IS NULL THEN 7 END THEN data.amount END)',
+        'lw',
+      );
+      expect(whiskerQuery.setParameters).toHaveBeenCalledWith({ box_g0: '华东' });
+      expect(result.type).toBe('boxplot');
+      expect(result.title).toBe('不同地区的销售额分布');
+      expect(result.boxPlot).toEqual([
+        expect.objectContaining({
+          name: '华东',
+          min: 1,
+          q1: 2,
+          median: 4,
+          q3: 8,
+          max: 40,
+          lowerWhisker: 1,
+          upperWhisker: 8,
+          outliers: [40],
+          outlierCount: 1,
+        }),
+        expect.objectContaining({ name: '(空)', median: 7, outliers: [], outlierCount: 0 }),
+      ]);
+
+      await expect(
+        service.generateOptimizedChartData({ sessionId: 'session-1', chartType: 'boxplot', xAxis: 'month', yAxis: 'region' }),
+      ).rejects.toThrow('箱线图需要数值类型的Y轴字段');
+    });
+  });
+});
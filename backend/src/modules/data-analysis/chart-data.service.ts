@@ -3,10 +3,33 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource } from 'typeorm';
 import { DataSession, SessionStatus } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { DEFAULT_SOURCE_NAME } from '../../entities/fetch-config.entity';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { ChartConfig } from '../../entities/chart-config.entity';
-import { FilterCondition, ChartData, ChartDataPoint, ChartConfigDto } from './data-analysis.service';
-import { AggregationType } from '../../entities/chart-config.entity';
+import {
+  DataAnalysisService,
+  FilterCondition,
+  ChartData,
+  ChartDataPoint,
+  ChartConfigDto,
+  ChartSeries,
+  BoxPlotItem,
+} from './data-analysis.service';
+import {
+  AggregationType,
+  ChartBinning,
+  ChartMeasure,
+  RollingWindow,
+  SeriesLayout,
+} from '../../entities/chart-config.entity';
+import {
+  TimeBucket,
+  TimeBucketDialect,
+  TimeBucketUnit,
+  NumericBinning,
+  NumericBins,
+  NumericSummary,
+} from '../../common/utils';
 import { DataSessionService } from '../data-session/data-session.service';
 
 export interface ChartTemplate {
@@ -22,10 +45,54 @@ export interface ChartTemplate {
   suitabilityScore: number;
 }
 
-@Injectable()
-export class ChartDataService {
+// 多系列图表的分类数、系列数和度量数上限
+const MAX_SERIES_CATEGORIES = { line: 500, bar: 50 };
+const MAX_CHART_SERIES = 20;
+export const MAX_CHART_MEASURES = 5;
+
+// 按时间分组时的分桶数上限和移动平均的默认窗口
+const MAX_TIME_BUCKETS = 1000;
+const DEFAULT_MOVING_AVERAGE_SIZE = 7;
+const DATE_FIELD_TYPES = ['date', 'datetime', 'timestamp'];
+
+// 数值分箱数上限，箱线图的分组数和返回的异常值个数上限
+export const MAX_CHART_BINS = 100;
+const MAX_BOX_PLOT_GROUPS = 20;
+const MAX_BOX_PLOT_OUTLIERS = 1000;
+const NUMERIC_FIELD_TYPES = ['integer', 'number', 'decimal', 'float'];
+const QUARTILES = [0, 0.25, 0.5, 0.75, 1];
+
+type ResolvedChartMeasure = ChartMeasure & Required<Pick<ChartMeasure, 'axis' | 'chartType'>>;
+
+const AGGREGATION_LABELS: Record<string, string> = {
+  [AggregationType.SUM]: '求和',
+  [AggregationType.AVG]: '平均值',
+  [AggregationType.COUNT]: '计数',
+  [AggregationType.MIN]: '最小值',
+  [AggregationType.MAX]: '最大值',
+};
+
+/**
+ * 按系列字段拆分、多度量或按时间、数值范围分组的折线图/柱状图使用多系列数据
+ */
+export function isSeriesChartConfig(config: ChartConfigDto): boolean {
+  return (
+    !!config.seriesField ||
+    !!config.measures?.length ||
+    ((config.xAxisAggregation === 'date_group' || config.xAxisAggregation === 'range') &&
+      (config.chartType === 'line' || config.chartType === 'bar'))
+  );
+}
 
+/**
+ * 直方图和箱线图展示数值字段的分布
+ */
+export function isDistributionChartConfig(config: ChartConfigDto): boolean {
+  return config.chartType === 'histogram' || config.chartType === 'boxplot';
+}
 
+@Injectable()
+export class ChartDataService {
   // 预定义的图表模板
   private readonly chartTemplates: ChartTemplate[] = [
     {
@@ -100,35 +167,49 @@ export class ChartDataService {
     private readonly chartConfigRepository: Repository<ChartConfig>,
     private readonly dataSource: DataSource,
     private readonly dataSessionService: DataSessionService,
+    private readonly dataAnalysisService: DataAnalysisService,
   ) {}
 
   /**
    * 生成优化的图表数据
    */
   async generateOptimizedChartData(config: ChartConfigDto): Promise<ChartData> {
+    if (config.chartType === 'histogram') {
+      return this.generateHistogramData(config);
+    }
+    if (config.chartType === 'boxplot') {
+      return this.generateBoxPlotData(config);
+    }
+    if (isSeriesChartConfig(config)) {
+      return this.generateSeriesChartData(config);
+    }
+
     const { sessionId, chartType, xAxis, yAxis, aggregation, filters, title } = config;
     
-    // 获取会话信息
-    const schema = await this.getSessionSchema(sessionId);
-    const tableName = schema.tableName;
-    const fieldDefinitions = schema.fieldDefinitions as Record<string, any>;
+    // 获取会话信息，字段可以引用已声明关联键的附加数据源
+    const resolved = await this.dataAnalysisService.resolveSources(sessionId, [
+      xAxis,
+      yAxis,
+      ...(filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
 
     // 验证字段
     this.validateFields(fieldDefinitions, xAxis, yAxis);
 
     // 获取字段标注
     const annotations = await this.getFieldAnnotations(sessionId);
-    const xAxisLabel = annotations.get(xAxis)?.label || xAxis;
-    const yAxisLabel = annotations.get(yAxis)?.label || yAxis;
+    const xAxisLabel = annotations.get(xAxis)?.label || fieldDefinitions[xAxis].label || xAxis;
+    const yAxisLabel = annotations.get(yAxis)?.label || fieldDefinitions[yAxis].label || yAxis;
 
     // 根据图表类型优化查询
-    let queryBuilder = this.dataSource
-      .createQueryBuilder()
-      .from(tableName, 'data');
+    let queryBuilder = this.dataAnalysisService.createSourceQuery(resolved);
+    const xAxisPath = fieldPaths[xAxis];
+    const yAxisPath = fieldPaths[yAxis];
 
     // 应用筛选条件
     if (filters && filters.length > 0) {
-      this.applyFilters(queryBuilder, filters, fieldDefinitions);
+      this.applyFilters(queryBuilder, filters, fieldDefinitions, fieldPaths);
     }
 
     let data: ChartDataPoint[] = [];
@@ -136,16 +217,16 @@ export class ChartDataService {
 
     switch (chartType) {
       case 'pie':
-        ({ data, totalRecords } = await this.generatePieChartData(queryBuilder, xAxis, yAxis, aggregation));
+        ({ data, totalRecords } = await this.generatePieChartData(queryBuilder, xAxisPath, yAxisPath, aggregation));
         break;
       case 'line':
-        ({ data, totalRecords } = await this.generateLineChartData(queryBuilder, xAxis, yAxis, aggregation));
+        ({ data, totalRecords } = await this.generateLineChartData(queryBuilder, xAxisPath, yAxisPath, aggregation));
         break;
       case 'bar':
-        ({ data, totalRecords } = await this.generateBarChartData(queryBuilder, xAxis, yAxis, aggregation));
+        ({ data, totalRecords } = await this.generateBarChartData(queryBuilder, xAxisPath, yAxisPath, aggregation));
         break;
       case 'scatter':
-        ({ data, totalRecords } = await this.generateScatterChartData(queryBuilder, xAxis, yAxis));
+        ({ data, totalRecords } = await this.generateScatterChartData(queryBuilder, xAxisPath, yAxisPath));
         break;
       default:
         throw new BadRequestException(`不支持的图表类型: ${chartType}`);
@@ -162,21 +243,583 @@ export class ChartDataService {
     };
   }
 
+  /**
+   * 生成多系列图表数据：按系列字段拆分、同时展示多个度量，或 X 轴按时间分桶、按数值范围分箱
+   */
+  private async generateSeriesChartData(config: ChartConfigDto): Promise<ChartData> {
+    const { sessionId, chartType, xAxis, seriesField, filters, title, rollingWindow } = config;
+    const timeBucket: TimeBucketUnit | null =
+      config.xAxisAggregation === 'date_group' ? config.timeBucket || 'day' : null;
+    const binned = config.xAxisAggregation === 'range';
+    // 数值分箱始终返回全部分箱，空分箱与补齐的时间分桶一样处理
+    const fillGaps = (!!timeBucket && config.fillGaps !== false) || binned;
+
+    if (chartType !== 'line' && chartType !== 'bar') {
+      throw new BadRequestException('只有折线图和柱状图支持多系列');
+    }
+    const measures = this.normalizeMeasures(config);
+    if (measures.length > MAX_CHART_MEASURES) {
+      throw new BadRequestException(`最多支持 ${MAX_CHART_MEASURES} 个度量`);
+    }
+
+    const resolved = await this.dataAnalysisService.resolveSources(sessionId, [
+      xAxis,
+      ...(seriesField ? [seriesField] : []),
+      ...measures.map(measure => measure.field),
+      ...(filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
+
+    if (!fieldDefinitions[xAxis]) {
+      throw new BadRequestException(`X轴字段 ${xAxis} 不存在`);
+    }
+    if (timeBucket && !DATE_FIELD_TYPES.includes(fieldDefinitions[xAxis].type)) {
+      throw new BadRequestException('按时间分组需要日期类型的X轴字段');
+    }
+    if (binned && !NUMERIC_FIELD_TYPES.includes(fieldDefinitions[xAxis].type)) {
+      throw new BadRequestException('按数值范围分组需要数值类型的X轴字段');
+    }
+    if (rollingWindow && !timeBucket) {
+      throw new BadRequestException('滚动计算只适用于按时间分组的图表');
+    }
+    if (seriesField) {
+      if (!fieldDefinitions[seriesField]) {
+        throw new BadRequestException(`系列字段 ${seriesField} 不存在`);
+      }
+      if (seriesField === xAxis) {
+        throw new BadRequestException('系列字段不能与X轴字段相同');
+      }
+    }
+    measures.forEach(measure => {
+      if (!fieldDefinitions[measure.field]) {
+        throw new BadRequestException(`Y轴字段 ${measure.field} 不存在`);
+      }
+      if (!AGGREGATION_LABELS[measure.aggregation]) {
+        throw new BadRequestException('多系列图表的度量必须指定聚合方式');
+      }
+    });
+
+    const annotations = await this.getFieldAnnotations(sessionId);
+    const labelOf = (field: string) =>
+      annotations.get(field)?.label || fieldDefinitions[field].label || field;
+    const measureLabels = measures.map(measure =>
+      measure.label ||
+      (measures.length > 1
+        ? `${labelOf(measure.field)} (${AGGREGATION_LABELS[measure.aggregation]})`
+        : labelOf(measure.field)) +
+      (rollingWindow ? this.getRollingWindowSuffix(rollingWindow) : ''),
+    );
+
+    let bins: NumericBins | null = null;
+    const createQuery = () => {
+      const queryBuilder = this.dataAnalysisService.createSourceQuery(resolved);
+      if (filters && filters.length > 0) {
+        this.applyFilters(queryBuilder, filters, fieldDefinitions, fieldPaths);
+      }
+      if (timeBucket || binned) {
+        queryBuilder.andWhere(`${fieldPaths[xAxis]} IS NOT NULL`);
+      }
+      if (bins) {
+        queryBuilder.andWhere(NumericBinning.rangeCondition(fieldPaths[xAxis], bins));
+      }
+      return queryBuilder;
+    };
+    if (binned) {
+      bins = await this.resolveBins(createQuery, fieldPaths[xAxis], config.binning);
+    }
+
+    const xAxisPath = bins
+      ? NumericBinning.expression(fieldPaths[xAxis], bins)
+      : timeBucket
+        ? this.getTimeBucketExpression(fieldPaths[xAxis], timeBucket, config.timezone)
+        : fieldPaths[xAxis];
+    const measureSelects = measures.map(measure =>
+      this.getAggregationFunction(measure.aggregation, fieldPaths[measure.field]),
+    );
+    const selectMeasures = (queryBuilder: any) => {
+      measureSelects.forEach((select, index) => queryBuilder.addSelect(select, `m${index}`));
+      return queryBuilder;
+    };
+
+    // 先确定分类：时间分桶、数值分箱和折线图按 X 轴排序，柱状图按第一个度量降序取前若干个
+    const categoryQuery = selectMeasures(createQuery().select(xAxisPath, 'x')).groupBy(xAxisPath);
+    if (timeBucket) {
+      categoryQuery.orderBy(xAxisPath, 'ASC').limit(MAX_TIME_BUCKETS + 1);
+    } else if (bins) {
+      categoryQuery.orderBy(xAxisPath, 'ASC');
+    } else if (chartType === 'line') {
+      categoryQuery.orderBy(xAxisPath, 'ASC').limit(MAX_SERIES_CATEGORIES.line);
+    } else {
+      categoryQuery.orderBy('m0', 'DESC').limit(MAX_SERIES_CATEGORIES.bar);
+    }
+    const categoryRows: any[] = await categoryQuery.getRawMany();
+    if (timeBucket && categoryRows.length > MAX_TIME_BUCKETS) {
+      throw new BadRequestException(`时间分组超过 ${MAX_TIME_BUCKETS} 个，请选择更大的时间粒度或添加筛选条件`);
+    }
+    let categoryValues = categoryRows.map(row => row.x);
+    if (timeBucket && fillGaps && categoryValues.length > 0) {
+      categoryValues = TimeBucket.sequence(
+        categoryValues[0],
+        categoryValues[categoryValues.length - 1],
+        timeBucket,
+        MAX_TIME_BUCKETS,
+      );
+    }
+    if (bins) {
+      categoryValues = bins.edges.slice(1).map((_, index) => index);
+    }
+
+    let seriesValues: any[] = [null];
+    let rows = categoryRows;
+    if (seriesField && categoryValues.length > 0) {
+      // 系列按第一个度量降序，超出上限的系列不显示
+      const seriesPath = fieldPaths[seriesField];
+      const seriesRows: any[] = await createQuery()
+        .select(seriesPath, 's')
+        .addSelect(measureSelects[0], 'm0')
+        .groupBy(seriesPath)
+        .orderBy('m0', 'DESC')
+        .limit(MAX_CHART_SERIES)
+        .getRawMany();
+      seriesValues = seriesRows.map(row => row.s);
+
+      const dataQuery = selectMeasures(createQuery().select(xAxisPath, 'x').addSelect(seriesPath, 's'))
+        .groupBy(xAxisPath)
+        .addGroupBy(seriesPath);
+      // 时间分桶和数值分箱不限制分类数量，无需按分类过滤
+      if (!timeBucket && !bins) {
+        this.restrictToValues(dataQuery, xAxisPath, categoryValues, 'series_x');
+      }
+      this.restrictToValues(dataQuery, seriesPath, seriesValues, 'series_s');
+      rows = await dataQuery.getRawMany();
+    } else if (seriesField) {
+      seriesValues = [];
+    }
+
+    const valueKey = (value: any) => JSON.stringify(value ?? null);
+    const categoryIndex = new Map(categoryValues.map((value, index) => [valueKey(value), index]));
+    const seriesIndex = new Map(seriesValues.map((value, index) => [valueKey(value), index]));
+
+    const series: ChartSeries[] = [];
+    seriesValues.forEach(seriesValue => {
+      measures.forEach((measure, measureIndex) => {
+        const seriesName = seriesField ? this.formatCategory(seriesValue) : '';
+        series.push({
+          name: !seriesField
+            ? measureLabels[measureIndex]
+            : measures.length > 1
+              ? `${seriesName} - ${measureLabels[measureIndex]}`
+              : seriesName,
+          field: measure.field,
+          aggregation: measure.aggregation,
+          seriesValue: seriesField ? seriesValue : undefined,
+          axis: measure.axis,
+          chartType: measure.chartType,
+          data: categoryValues.map(() => null),
+        });
+      });
+    });
+
+    rows.forEach(row => {
+      // 分箱序号可能以字符串返回
+      const categoryPosition = categoryIndex.get(valueKey(bins && row.x !== null ? Number(row.x) : row.x));
+      const seriesPosition = seriesIndex.get(valueKey(seriesField ? row.s : null));
+      if (categoryPosition === undefined || seriesPosition === undefined) return;
+
+      measures.forEach((_, measureIndex) => {
+        const value = row[`m${measureIndex}`] === null ? NaN : parseFloat(row[`m${measureIndex}`]);
+        series[seriesPosition * measures.length + measureIndex].data[categoryPosition] =
+          Number.isFinite(value) ? value : null;
+      });
+    });
+
+    // 空分桶的求和和计数为 0，其余聚合保持为空
+    if (fillGaps) {
+      series.forEach(item => {
+        if (item.aggregation === AggregationType.SUM || item.aggregation === AggregationType.COUNT) {
+          item.data = item.data.map(value => value ?? 0);
+        }
+      });
+    }
+    if (rollingWindow) {
+      series.forEach(item => {
+        item.data = this.applyRollingWindow(item.data, rollingWindow);
+      });
+    }
+
+    const categories = categoryValues.map(value =>
+      bins
+        ? NumericBinning.label(bins, value)
+        : timeBucket
+          ? TimeBucket.label(value, timeBucket)
+          : this.formatCategory(value),
+    );
+    const xAxisLabel = labelOf(xAxis);
+    const yAxisLabel = measures
+      .map((measure, index) => (measure.axis === 'right' ? null : measureLabels[index]))
+      .filter(Boolean)
+      .join('、');
+    const secondaryYAxisLabel = measures
+      .map((measure, index) => (measure.axis === 'right' ? measureLabels[index] : null))
+      .filter(Boolean)
+      .join('、');
+
+    const data: ChartDataPoint[] = categoryValues.map((value, index) => ({
+      x: bins ? bins.edges[value] : value,
+      y: series[0]?.data[index] ?? 0,
+      label: categories[index],
+    }));
+
+    return {
+      type: chartType,
+      title:
+        title ||
+        `${xAxisLabel} vs ${yAxisLabel || secondaryYAxisLabel}${seriesField ? `（按${labelOf(seriesField)}）` : ''}`,
+      xAxisLabel,
+      yAxisLabel,
+      secondaryYAxisLabel: secondaryYAxisLabel || undefined,
+      data,
+      categories,
+      series,
+      seriesLayout: config.seriesLayout || SeriesLayout.GROUPED,
+      timeBucket: timeBucket || undefined,
+      rollingWindow: rollingWindow || undefined,
+      binEdges: bins?.edges,
+      aggregation: measures[0].aggregation,
+      totalRecords: rows.length,
+    };
+  }
+
+  /**
+   * 生成直方图数据：X 轴字段按数值范围分箱，统计每个分箱的记录数
+   */
+  private async generateHistogramData(config: ChartConfigDto): Promise<ChartData> {
+    const chartData = await this.generateSeriesChartData({
+      ...config,
+      chartType: 'bar',
+      xAxisAggregation: 'range',
+      measures: [{ field: config.xAxis, aggregation: AggregationType.COUNT, label: '频数' }],
+    });
+
+    return {
+      ...chartData,
+      type: 'histogram',
+      title: config.title || `${chartData.xAxisLabel}分布`,
+    };
+  }
+
+  /**
+   * 生成箱线图数据：Y 轴字段的最小值、四分位数、最大值和异常值
+   * X 轴字段与 Y 轴字段不同时按 X 轴字段分组，每组一个箱体
+   */
+  private async generateBoxPlotData(config: ChartConfigDto): Promise<ChartData> {
+    const { sessionId, xAxis, yAxis, filters, title } = config;
+
+    const resolved = await this.dataAnalysisService.resolveSources(sessionId, [
+      xAxis,
+      yAxis,
+      ...(filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
+    this.validateFields(fieldDefinitions, xAxis, yAxis);
+    if (!NUMERIC_FIELD_TYPES.includes(fieldDefinitions[yAxis].type)) {
+      throw new BadRequestException('箱线图需要数值类型的Y轴字段');
+    }
+
+    const annotations = await this.getFieldAnnotations(sessionId);
+    const labelOf = (field: string) =>
+      annotations.get(field)?.label || fieldDefinitions[field].label || field;
+
+    const valuePath = fieldPaths[yAxis];
+    const groupPath = xAxis === yAxis ? null : fieldPaths[xAxis];
+    const createQuery = () => {
+      const queryBuilder = this.dataAnalysisService.createSourceQuery(resolved);
+      if (filters && filters.length > 0) {
+        this.applyFilters(queryBuilder, filters, fieldDefinitions, fieldPaths);
+      }
+      return queryBuilder.andWhere(`${valuePath} IS NOT NULL`);
+    };
+
+    // 分组按记录数降序，超出上限的分组不显示
+    let groupValues: any[] = [null];
+    if (groupPath) {
+      const groupRows: any[] = await createQuery()
+        .select(groupPath, 'g')
+        .addSelect('COUNT(*)', 'cnt')
+        .groupBy(groupPath)
+        .orderBy('cnt', 'DESC')
+        .limit(MAX_BOX_PLOT_GROUPS)
+        .getRawMany();
+      groupValues = groupRows.map(row => row.g);
+    }
+    const summaries = groupValues.length > 0
+      ? await this.getNumericSummaries(createQuery, valuePath, groupPath, groupValues)
+      : [];
+
+    const valueKey = (value: any) => JSON.stringify(value ?? null);
+    const boxPlot: BoxPlotItem[] = summaries.map(summary => ({
+      name: groupPath ? this.formatCategory(summary.group) : labelOf(yAxis),
+      groupValue: groupPath ? summary.group : undefined,
+      count: summary.count,
+      min: summary.min,
+      q1: summary.q1,
+      median: summary.median,
+      q3: summary.q3,
+      max: summary.max,
+      lowerWhisker: summary.min,
+      upperWhisker: summary.max,
+      outliers: [],
+      outlierCount: 0,
+    }));
+
+    if (boxPlot.length > 0) {
+      // 各组的异常值界限不同，用 CASE 按分组取对应的界限
+      const parameters: Record<string, any> = {};
+      const fence = (bound: (item: BoxPlotItem) => number) => {
+        if (!groupPath) {
+          return NumericBinning.sqlNumber(bound(boxPlot[0]));
+        }
+        const cases = boxPlot.map((item, index) => {
+          if (item.groupValue === null || item.groupValue === undefined) {
+            return `WHEN ${groupPath} IS NULL THEN ${NumericBinning.sqlNumber(bound(item))}`;
+          }
+          parameters[`box_g${index}`] = item.groupValue;
+          return `WHEN ${groupPath} = :box_g${index} THEN ${NumericBinning.sqlNumber(bound(item))}`;
+        });
+        return `CASE ${cases.join(' ')} END`;
+      };
+      const lowerFence = fence(item => item.q1 - 1.5 * (item.q3 - item.q1));
+      const upperFence = fence(item => item.q3 + 1.5 * (item.q3 - item.q1));
+      const outside = `(${valuePath} < ${lowerFence} OR ${valuePath} > ${upperFence})`;
+      const byGroup = new Map(boxPlot.map(item => [valueKey(item.groupValue), item]));
+
+      const whiskerQuery = createQuery()
+        .select(groupPath || 'NULL', 'g')
+        .addSelect(`MIN(CASE WHEN ${valuePath} >= ${lowerFence} THEN ${valuePath} END)`, 'lw')
+        .addSelect(`MAX(CASE WHEN ${valuePath} <= ${upperFence} THEN ${valuePath} END)`, 'uw')
+        .addSelect(`SUM(CASE WHEN ${outside} THEN 1 ELSE 0 END)`, 'outliers')
+        .setParameters(parameters);
+      if (groupPath) {
+        whiskerQuery.groupBy(groupPath);
+        this.restrictToValues(whiskerQuery, groupPath, groupValues, 'box_groups');
+      }
+      const whiskerRows: any[] = await whiskerQuery.getRawMany();
+      whiskerRows.forEach(row => {
+        const item = byGroup.get(valueKey(groupPath ? row.g : undefined));
+        if (!item) return;
+        item.lowerWhisker = row.lw === null ? item.min : parseFloat(row.lw);
+        item.upperWhisker = row.uw === null ? item.max : parseFloat(row.uw);
+        item.outlierCount = parseInt(row.outliers, 10) || 0;
+      });
+
+      if (boxPlot.some(item => item.outlierCount > 0)) {
+        const outlierQuery = createQuery()
+          .select(groupPath || 'NULL', 'g')
+          .addSelect(valuePath, 'v')
+          .andWhere(outside)
+          .setParameters(parameters)
+          .orderBy(valuePath, 'ASC')
+          .limit(MAX_BOX_PLOT_OUTLIERS);
+        if (groupPath) {
+          this.restrictToValues(outlierQuery, groupPath, groupValues, 'box_groups');
+        }
+        const outlierRows: any[] = await outlierQuery.getRawMany();
+        outlierRows.forEach(row => {
+          byGroup.get(valueKey(groupPath ? row.g : undefined))?.outliers.push(parseFloat(row.v));
+        });
+      }
+    }
+
+    const xAxisLabel = groupPath ? labelOf(xAxis) : '';
+    const yAxisLabel = labelOf(yAxis);
+    return {
+      type: 'boxplot',
+      title: title || (groupPath ? `不同${xAxisLabel}的${yAxisLabel}分布` : `${yAxisLabel}分布`),
+      xAxisLabel,
+      yAxisLabel,
+      data: boxPlot.map(item => ({ x: item.name, y: item.median, label: item.name })),
+      categories: boxPlot.map(item => item.name),
+      boxPlot,
+      totalRecords: boxPlot.length,
+    };
+  }
+
+  /**
+   * 确定数值分箱：自定义边界直接使用，否则按筛选后数据的分布自动计算等宽分箱
+   */
+  private async resolveBins(
+    createQuery: () => any,
+    fieldPath: string,
+    binning?: ChartBinning,
+  ): Promise<NumericBins> {
+    const method = binning?.method || 'auto';
+    if (method === 'edges') {
+      return NumericBinning.fromEdges(binning?.edges || [], MAX_CHART_BINS);
+    }
+
+    const [summary] = await this.getNumericSummaries(createQuery, fieldPath, null, [null]);
+    return NumericBinning.fromSummary(
+      summary || { count: 0, min: 0, q1: 0, median: 0, q3: 0, max: 0 },
+      method,
+      MAX_CHART_BINS,
+    );
+  }
+
+  /**
+   * 在 SQL 中计算数值字段的最小值、四分位数和最大值
+   * 用窗口函数为每组的值排名，只取出计算分位数需要的名次，createQuery 需要已排除空值
+   */
+  private async getNumericSummaries(
+    createQuery: () => any,
+    valuePath: string,
+    groupPath: string | null,
+    groupValues: any[],
+  ): Promise<Array<NumericSummary & { group: any }>> {
+    const partition = groupPath ? `PARTITION BY ${groupPath}` : '';
+    const rankedQuery = createQuery()
+      .select(groupPath || 'NULL', 'g')
+      .addSelect(valuePath, 'v')
+      .addSelect(`ROW_NUMBER() OVER (${partition ? `${partition} ` : ''}ORDER BY ${valuePath})`, 'rn')
+      .addSelect(`COUNT(*) OVER (${partition})`, 'cnt');
+    if (groupPath) {
+      this.restrictToValues(rankedQuery, groupPath, groupValues, 'summary_g');
+    }
+
+    const ranks = QUARTILES.flatMap(q => [`FLOOR((t.cnt - 1) * ${q}) + 1`, `CEIL((t.cnt - 1) * ${q}) + 1`]);
+    const rows: any[] = await this.dataSource
+      .createQueryBuilder()
+      .select('t.g', 'g')
+      .addSelect('t.v', 'v')
+      .addSelect('t.rn', 'rn')
+      .addSelect('t.cnt', 'cnt')
+      .from(`(${rankedQuery.getQuery()})`, 't')
+      .where(`t.rn IN (${ranks.join(', ')})`)
+      .setParameters(rankedQuery.getParameters())
+      .getRawMany();
+
+    const valueKey = (value: any) => JSON.stringify(value ?? null);
+    const groups = new Map<string, { count: number; values: Map<number, number> }>();
+    rows.forEach(row => {
+      const key = valueKey(groupPath ? row.g : null);
+      if (!groups.has(key)) {
+        groups.set(key, { count: Number(row.cnt), values: new Map() });
+      }
+      groups.get(key).values.set(Number(row.rn), parseFloat(row.v));
+    });
+
+    return groupValues
+      .filter(group => groups.has(valueKey(group)))
+      .map(group => {
+        const { count, values } = groups.get(valueKey(group));
+        const [min, q1, median, q3, max] = QUARTILES.map(q =>
+          NumericBinning.quantile(rank => values.get(rank), count, q),
+        );
+        return { group, count, min, q1, median, q3, max };
+      });
+  }
+
+  /**
+   * 未指定多个度量时，使用 yAxis + aggregation 作为唯一度量
+   */
+  private normalizeMeasures(config: ChartConfigDto): ResolvedChartMeasure[] {
+    const measures: ChartMeasure[] = config.measures?.length
+      ? config.measures
+      : [
+          {
+            field: config.yAxis,
+            aggregation:
+              config.aggregation || (config.chartType === 'line' ? AggregationType.AVG : AggregationType.SUM),
+          },
+        ];
+
+    return measures.map(measure => ({
+      ...measure,
+      axis: measure.axis || 'left',
+      chartType: measure.chartType || (config.chartType as 'line' | 'bar'),
+    }));
+  }
+
+  /**
+   * 限定字段取值在给定列表内，列表中的 null 对应 IS NULL
+   */
+  private restrictToValues(queryBuilder: any, fieldPath: string, values: any[], paramName: string): void {
+    const nonNullValues = values.filter(value => value !== null && value !== undefined);
+    const conditions: string[] = [];
+    if (nonNullValues.length > 0) {
+      conditions.push(`${fieldPath} IN (:...${paramName})`);
+    }
+    if (nonNullValues.length < values.length) {
+      conditions.push(`${fieldPath} IS NULL`);
+    }
+    queryBuilder.andWhere(conditions.length > 0 ? `(${conditions.join(' OR ')})` : '1 = 0', {
+      [paramName]: nonNullValues,
+    });
+  }
+
+  /**
+   * X 轴按时间分桶的表达式，分桶前按需把存储时间转换到指定时区
+   */
+  private getTimeBucketExpression(fieldPath: string, unit: TimeBucketUnit, timezone?: string): string {
+    const dialect: TimeBucketDialect = this.dataSource.options?.type === 'postgres' ? 'postgres' : 'mysql';
+    return TimeBucket.expression(dialect, fieldPath, unit, {
+      sourceTimezone: this.getStorageTimezone(),
+      timezone: timezone || undefined,
+    });
+  }
+
+  // MySQL 连接按配置的时区偏移写入 DATETIME，未配置偏移时驱动按进程本地时间写入
+  private getStorageTimezone(): string {
+    const timezone = (this.dataSource.options as any)?.timezone;
+    if (timezone === 'Z') {
+      return '+00:00';
+    }
+    return typeof timezone === 'string' && /^[+-]\d{2}:\d{2}$/.test(timezone) ? timezone : TimeBucket.systemOffset();
+  }
+
+  private applyRollingWindow(values: Array<number | null>, rollingWindow: RollingWindow): Array<number | null> {
+    if (rollingWindow.type === 'cumulative_sum') {
+      let total = 0;
+      return values.map(value => (total += value ?? 0));
+    }
+
+    // 移动平均忽略窗口内的空值，窗口内全为空时结果为空
+    const size = rollingWindow.size || DEFAULT_MOVING_AVERAGE_SIZE;
+    return values.map((_, index) => {
+      const window = values
+        .slice(Math.max(0, index - size + 1), index + 1)
+        .filter((value): value is number => value !== null);
+      return window.length > 0 ? window.reduce((sum, value) => sum + value, 0) / window.length : null;
+    });
+  }
+
+  private getRollingWindowSuffix(rollingWindow: RollingWindow): string {
+    return rollingWindow.type === 'cumulative_sum'
+      ? '（累计）'
+      : `（${rollingWindow.size || DEFAULT_MOVING_AVERAGE_SIZE}期移动平均）`;
+  }
+
+  private formatCategory(value: any): string {
+    if (value === null || value === undefined) {
+      return '(空)';
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+
   /**
    * 生成饼图数据
    */
   private async generatePieChartData(
     queryBuilder: any,
-    xAxis: string,
-    yAxis: string,
+    xAxisPath: string,
+    yAxisPath: string,
     aggregation?: string
   ): Promise<{ data: ChartDataPoint[]; totalRecords: number }> {
-    const aggFunction = this.getAggregationFunction(aggregation || 'count', yAxis);
+    const aggFunction = this.getAggregationFunction(aggregation || 'count', yAxisPath);
     
     queryBuilder
-      .select(`data.${xAxis}`, 'x')
+      .select(xAxisPath, 'x')
       .addSelect(aggFunction, 'y')
-      .groupBy(`data.${xAxis}`)
+      .groupBy(xAxisPath)
       .orderBy('y', 'DESC')
       .limit(20); // 限制饼图分片数量
 
@@ -203,17 +846,17 @@ export class ChartDataService {
    */
   private async generateLineChartData(
     queryBuilder: any,
-    xAxis: string,
-    yAxis: string,
+    xAxisPath: string,
+    yAxisPath: string,
     aggregation?: string
   ): Promise<{ data: ChartDataPoint[]; totalRecords: number }> {
-    const aggFunction = this.getAggregationFunction(aggregation || 'avg', yAxis);
+    const aggFunction = this.getAggregationFunction(aggregation || 'avg', yAxisPath);
     
     queryBuilder
-      .select(`data.${xAxis}`, 'x')
+      .select(xAxisPath, 'x')
       .addSelect(aggFunction, 'y')
-      .groupBy(`data.${xAxis}`)
-      .orderBy(`data.${xAxis}`, 'ASC')
+      .groupBy(xAxisPath)
+      .orderBy(xAxisPath, 'ASC')
       .limit(500); // 限制数据点数量
 
     const rawData = await queryBuilder.getRawMany();
@@ -232,16 +875,16 @@ export class ChartDataService {
    */
   private async generateBarChartData(
     queryBuilder: any,
-    xAxis: string,
-    yAxis: string,
+    xAxisPath: string,
+    yAxisPath: string,
     aggregation?: string
   ): Promise<{ data: ChartDataPoint[]; totalRecords: number }> {
-    const aggFunction = this.getAggregationFunction(aggregation || 'sum', yAxis);
+    const aggFunction = this.getAggregationFunction(aggregation || 'sum', yAxisPath);
     
     queryBuilder
-      .select(`data.${xAxis}`, 'x')
+      .select(xAxisPath, 'x')
       .addSelect(aggFunction, 'y')
-      .groupBy(`data.${xAxis}`)
+      .groupBy(xAxisPath)
       .orderBy('y', 'DESC')
       .limit(50); // 限制柱状图数量
 
@@ -261,14 +904,14 @@ export class ChartDataService {
    */
   private async generateScatterChartData(
     queryBuilder: any,
-    xAxis: string,
-    yAxis: string
+    xAxisPath: string,
+    yAxisPath: string
   ): Promise<{ data: ChartDataPoint[]; totalRecords: number }> {
     queryBuilder
-      .select(`data.${xAxis}`, 'x')
-      .addSelect(`data.${yAxis}`, 'y')
-      .where(`data.${xAxis} IS NOT NULL`)
-      .andWhere(`data.${yAxis} IS NOT NULL`)
+      .select(xAxisPath, 'x')
+      .addSelect(yAxisPath, 'y')
+      .andWhere(`${xAxisPath} IS NOT NULL`)
+      .andWhere(`${yAxisPath} IS NOT NULL`)
       .orderBy('RAND()')
       .limit(1000); // 散点图采样
 
@@ -488,7 +1131,9 @@ export class ChartDataService {
       throw new NotFoundException(`会话 ${sessionId} 不存在`);
     }
 
-    const schema = await this.schemaRepository.findOne({ where: { sessionId } });
+    const schema = await this.schemaRepository.findOne({
+      where: { sessionId, sourceName: DEFAULT_SOURCE_NAME },
+    });
     return schema;
   }
 
@@ -510,7 +1155,12 @@ export class ChartDataService {
     }
   }
 
-  private applyFilters(queryBuilder: any, filters: FilterCondition[], fieldDefinitions: Record<string, any>): void {
+  private applyFilters(
+    queryBuilder: any,
+    filters: FilterCondition[],
+    fieldDefinitions: Record<string, any>,
+    fieldPaths: Record<string, string>,
+  ): void {
     filters.forEach((filter, index) => {
       const { field, operator, value, values } = filter;
       
@@ -520,7 +1170,7 @@ export class ChartDataService {
       }
 
       const paramName = `filter_${index}`;
-      const fieldPath = `data.${field}`;
+      const fieldPath = fieldPaths[field];
 
       switch (operator) {
         case 'eq':
@@ -569,16 +1219,16 @@ export class ChartDataService {
     });
   }
 
-  private getAggregationFunction(aggregation: AggregationType | string, field: string): string {
+  private getAggregationFunction(aggregation: AggregationType | string, fieldPath: string): string {
     const aggregationMap = {
-      [AggregationType.SUM]: `SUM(data.${field})`,
-      [AggregationType.AVG]: `AVG(data.${field})`,
-      [AggregationType.COUNT]: `COUNT(data.${field})`,
-      [AggregationType.MIN]: `MIN(data.${field})`,
-      [AggregationType.MAX]: `MAX(data.${field})`,
-      [AggregationType.NONE]: `data.${field}`,
+      [AggregationType.SUM]: `SUM(${fieldPath})`,
+      [AggregationType.AVG]: `AVG(${fieldPath})`,
+      [AggregationType.COUNT]: `COUNT(${fieldPath})`,
+      [AggregationType.MIN]: `MIN(${fieldPath})`,
+      [AggregationType.MAX]: `MAX(${fieldPath})`,
+      [AggregationType.NONE]: fieldPath,
     };
-    return aggregationMap[aggregation] || `COUNT(data.${field})`;
+    return aggregationMap[aggregation] || `COUNT(${fieldPath})`;
   }
 
   private async estimateDataPoints(
@@ -1,9 +1,46 @@
-import { Controller, Get, Post, Put, Delete, Query, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
-import { IsString, IsOptional, IsNumber, IsArray, Min, Max } from 'class-validator';
+import { Controller, Get, Post, Put, Delete, Query, Param, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import {
+  IsString,
+  IsOptional,
+  IsNumber,
+  IsArray,
+  IsNotEmpty,
+  IsIn,
+  IsBoolean,
+  Min,
+  Max,
+  Matches,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
-import { DataAnalysisService, FilterCondition, SortCondition, QueryOptions, ChartConfigDto } from './data-analysis.service';
-import { ChartType, AggregationType, XAxisAggregationType } from '../../entities/chart-config.entity';
-import { ChartDataService } from './chart-data.service';
+import {
+  DataAnalysisService,
+  FilterCondition,
+  SortCondition,
+  QueryOptions,
+  ChartConfigDto,
+  PivotAggregation,
+} from './data-analysis.service';
+import { ChartType, AggregationType, XAxisAggregationType, SeriesLayout } from '../../entities/chart-config.entity';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
+import {
+  ChartDataService,
+  MAX_CHART_MEASURES,
+  MAX_CHART_BINS,
+  isSeriesChartConfig,
+  isDistributionChartConfig,
+} from './chart-data.service';
+import { CalculatedFieldService } from './calculated-field.service';
+import { TIME_BUCKET_UNITS, TimeBucketUnit, BIN_METHODS, BinMethod } from '../../common/utils';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionAccessGuard, SessionRole } from '../data-session/session-access.guard';
+
+// 计算字段名可包含中文，不能包含点号以免与附加数据源字段混淆
+const CALCULATED_FIELD_NAME_PATTERN = /^[A-Za-z_\u4e00-\u9fa5][A-Za-z0-9_\u4e00-\u9fa5]{0,63}$/;
+const CALCULATED_FIELD_NAME_MESSAGE = '计算字段名只能包含中文、字母、数字和下划线，不能以数字开头，最长64个字符';
 
 export class QueryDataDto {
   @IsString()
@@ -34,6 +71,11 @@ export class QueryDataDto {
   @IsArray()
   @IsString({ each: true })
   fields?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sources?: string[];
 }
 
 export class AggregateDataDto {
@@ -55,6 +97,99 @@ export class AggregateDataDto {
   filters?: FilterCondition[];
 }
 
+export class PivotMeasureDto {
+  @IsOptional()
+  @IsString()
+  field?: string;
+
+  @IsIn(['sum', 'avg', 'count', 'count_distinct', 'min', 'max'])
+  aggregation: PivotAggregation;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class PivotDataDto {
+  @IsString()
+  sessionId: string;
+
+  @IsArray()
+  @ArrayMaxSize(4)
+  @IsString({ each: true })
+  rows: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(3)
+  @IsString({ each: true })
+  columns?: string[];
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => PivotMeasureDto)
+  measures: PivotMeasureDto[];
+
+  @IsOptional()
+  @IsArray()
+  filters?: FilterCondition[];
+
+  @IsOptional()
+  @IsBoolean()
+  showSubtotals?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  showGrandTotals?: boolean;
+}
+
+export class ChartMeasureDto {
+  @IsString()
+  field: string;
+
+  @IsIn(['sum', 'avg', 'count', 'min', 'max'])
+  aggregation: AggregationType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @IsOptional()
+  @IsIn(['left', 'right'])
+  axis?: 'left' | 'right';
+
+  @IsOptional()
+  @IsIn(['line', 'bar'])
+  chartType?: 'line' | 'bar';
+}
+
+export class RollingWindowDto {
+  @IsIn(['moving_average', 'cumulative_sum'])
+  type: 'moving_average' | 'cumulative_sum';
+
+  @IsOptional()
+  @IsNumber()
+  @Min(2)
+  @Max(365)
+  size?: number;
+}
+
+export class BinningDto {
+  @IsIn(BIN_METHODS)
+  method: BinMethod;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_CHART_BINS + 1)
+  @IsNumber({}, { each: true })
+  edges?: number[];
+}
+
 export class GenerateChartDto {
   @IsString()
   sessionId: string;
@@ -80,6 +215,44 @@ export class GenerateChartDto {
   @IsString()
   groupBy?: string;
 
+  @IsOptional()
+  @IsString()
+  seriesField?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_CHART_MEASURES)
+  @ValidateNested({ each: true })
+  @Type(() => ChartMeasureDto)
+  measures?: ChartMeasureDto[];
+
+  @IsOptional()
+  @IsIn(['grouped', 'stacked'])
+  seriesLayout?: SeriesLayout;
+
+  @IsOptional()
+  @IsIn(TIME_BUCKET_UNITS)
+  timeBucket?: TimeBucketUnit;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  timezone?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  fillGaps?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RollingWindowDto)
+  rollingWindow?: RollingWindowDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BinningDto)
+  binning?: BinningDto;
+
   @IsOptional()
   @IsArray()
   filters?: FilterCondition[];
@@ -100,11 +273,47 @@ export class GenerateChartDto {
   showDataLabels?: boolean;
 }
 
+export class CreateCalculatedFieldDto {
+  @IsString()
+  @Matches(CALCULATED_FIELD_NAME_PATTERN, { message: CALCULATED_FIELD_NAME_MESSAGE })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  label?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  expression: string;
+}
+
+export class UpdateCalculatedFieldDto {
+  @IsOptional()
+  @IsString()
+  @Matches(CALCULATED_FIELD_NAME_PATTERN, { message: CALCULATED_FIELD_NAME_MESSAGE })
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  label?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  expression?: string;
+}
+
 @Controller('data-analysis')
+@UseGuards(JwtAuthGuard, SessionAccessGuard)
 export class DataAnalysisController {
   constructor(
     private readonly dataAnalysisService: DataAnalysisService,
     private readonly chartDataService: ChartDataService,
+    private readonly calculatedFieldService: CalculatedFieldService,
   ) {}
 
   /**
@@ -133,7 +342,8 @@ export class DataAnalysisController {
     @Query('search') search?: string,
     @Query('fields') fields?: string,
     @Query('sortField') sortField?: string,
-    @Query('sortDirection') sortDirection?: 'ASC' | 'DESC'
+    @Query('sortDirection') sortDirection?: 'ASC' | 'DESC',
+    @Query('sources') sources?: string
   ) {
     const options: QueryOptions = {
       page: page ? parseInt(String(page)) : 1,
@@ -144,6 +354,10 @@ export class DataAnalysisController {
       options.fields = fields.split(',');
     }
 
+    if (sources) {
+      options.sources = sources.split(',');
+    }
+
     if (sortField) {
       options.sorts = [{
         field: sortField,
@@ -234,6 +448,21 @@ export class DataAnalysisController {
     };
   }
 
+  /**
+   * 透视表查询，返回行列表头（含小计、总计）和各单元格的度量值
+   */
+  @Post('pivot')
+  @HttpCode(HttpStatus.OK)
+  async pivotData(@Body() dto: PivotDataDto) {
+    const { sessionId, ...options } = dto;
+    const result = await this.dataAnalysisService.pivotData(sessionId, options);
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
   /**
    * 获取字段统计信息
    */
@@ -264,17 +493,17 @@ export class DataAnalysisController {
   }
 
   /**
-   * 导出数据
+   * 导出数据（JSON）
+   * 单次最多返回 1000 条，超出时 truncated 为 true；完整导出请使用 data-export 模块的流式导出或后台导出任务
    */
   @Post('export')
   @HttpCode(HttpStatus.OK)
   async exportData(@Body() dto: QueryDataDto) {
-    // 导出时不分页，获取所有数据
     const { sessionId, ...options } = dto;
     const exportOptions = {
       ...options,
       page: 1,
-      pageSize: 100000, // 设置一个很大的数字来获取所有数据
+      pageSize: 1000,
     };
     
     const result = await this.dataAnalysisService.queryData(sessionId, exportOptions);
@@ -284,6 +513,7 @@ export class DataAnalysisController {
       data: result.data,
       fields: result.fields,
       total: result.total,
+      truncated: result.total > result.data.length,
       exportedAt: new Date().toISOString(),
     };
   }
@@ -494,6 +724,14 @@ export class DataAnalysisController {
       xAxisAggregation: dto.xAxisAggregation,
       aggregation: dto.aggregation as any,
       groupBy: dto.groupBy,
+      seriesField: dto.seriesField,
+      measures: dto.measures,
+      seriesLayout: dto.seriesLayout,
+      timeBucket: dto.timeBucket,
+      timezone: dto.timezone,
+      fillGaps: dto.fillGaps,
+      rollingWindow: dto.rollingWindow,
+      binning: dto.binning,
       filters: dto.filters,
       title: dto.title,
       colorScheme: dto.colorScheme,
@@ -527,6 +765,7 @@ export class DataAnalysisController {
    * 保存图表配置
    */
   @Post('chart/save')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async saveChartConfig(@Body() dto: GenerateChartDto & { name: string }) {
     const config = {
@@ -535,7 +774,16 @@ export class DataAnalysisController {
       chartType: dto.chartType as ChartType,
       xAxis: dto.xAxis,
       yAxis: dto.yAxis,
+      xAxisAggregation: dto.xAxisAggregation,
       aggregation: dto.aggregation as AggregationType,
+      seriesField: dto.seriesField || null,
+      measures: dto.measures?.length ? dto.measures : null,
+      seriesLayout: dto.seriesLayout,
+      timeBucket: dto.timeBucket,
+      timezone: dto.timezone,
+      fillGaps: dto.fillGaps,
+      rollingWindow: dto.rollingWindow,
+      binning: dto.binning,
       filters: dto.filters,
       title: dto.title,
     };
@@ -565,6 +813,7 @@ export class DataAnalysisController {
    * 删除图表配置
    */
   @Delete('chart/:chartId')
+  @SessionRole(WorkspaceRole.EDITOR)
   async deleteChart(@Param('chartId') chartId: string) {
     await this.chartDataService.deleteChartConfig(chartId);
     
@@ -578,6 +827,7 @@ export class DataAnalysisController {
    * 更新图表配置
    */
   @Put('chart/:chartId')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async updateChart(
     @Param('chartId') chartId: string,
@@ -589,6 +839,15 @@ export class DataAnalysisController {
       xAxis: dto.xAxis,
       yAxis: dto.yAxis,
       aggregation: dto.aggregation as AggregationType,
+      seriesField: dto.seriesField === undefined ? undefined : dto.seriesField || null,
+      measures: dto.measures === undefined ? undefined : dto.measures.length ? dto.measures : null,
+      seriesLayout: dto.seriesLayout,
+      xAxisAggregation: dto.xAxisAggregation,
+      timeBucket: dto.timeBucket,
+      timezone: dto.timezone,
+      fillGaps: dto.fillGaps,
+      rollingWindow: dto.rollingWindow,
+      binning: dto.binning,
       title: dto.title,
     };
 
@@ -624,6 +883,14 @@ export class DataAnalysisController {
       yAxis: chart.yAxis,
       xAxisAggregation: chart.xAxisAggregation,
       aggregation: chart.aggregation as any,
+      seriesField: chart.seriesField || undefined,
+      measures: chart.measures || undefined,
+      seriesLayout: chart.seriesLayout,
+      timeBucket: chart.timeBucket || undefined,
+      timezone: chart.timezone || undefined,
+      fillGaps: chart.fillGaps,
+      rollingWindow: chart.rollingWindow || undefined,
+      binning: chart.binning || undefined,
       filters: chart.filters,
       title: chart.title || chart.name,
     };
@@ -642,13 +909,77 @@ export class DataAnalysisController {
    */
   @Get('fields/:sessionId')
   async getFields(@Param('sessionId') sessionId: string) {
-    const overview = await this.dataAnalysisService.getDataOverview(sessionId);
-    
-    // 这里可以扩展返回更详细的字段信息
+    const fields = await this.dataAnalysisService.getFieldList(sessionId);
+
+    return {
+      success: true,
+      fields,
+      totalFields: fields.length,
+    };
+  }
+
+  /**
+   * 获取会话的计算字段
+   */
+  @Get('calculated-fields/:sessionId')
+  async getCalculatedFields(@Param('sessionId') sessionId: string) {
+    const fields = await this.calculatedFieldService.findAll(sessionId);
+
+    return {
+      success: true,
+      fields,
+    };
+  }
+
+  /**
+   * 新建计算字段
+   */
+  @Post('calculated-fields/:sessionId')
+  @SessionRole(WorkspaceRole.EDITOR)
+  async createCalculatedField(
+    @Param('sessionId') sessionId: string,
+    @Body() dto: CreateCalculatedFieldDto
+  ) {
+    const field = await this.calculatedFieldService.create(sessionId, dto);
+
+    return {
+      success: true,
+      field,
+    };
+  }
+
+  /**
+   * 更新计算字段
+   */
+  @Put('calculated-fields/:sessionId/:fieldId')
+  @SessionRole(WorkspaceRole.EDITOR)
+  async updateCalculatedField(
+    @Param('sessionId') sessionId: string,
+    @Param('fieldId') fieldId: string,
+    @Body() dto: UpdateCalculatedFieldDto
+  ) {
+    const field = await this.calculatedFieldService.update(sessionId, fieldId, dto);
+
+    return {
+      success: true,
+      field,
+    };
+  }
+
+  /**
+   * 删除计算字段
+   */
+  @Delete('calculated-fields/:sessionId/:fieldId')
+  @SessionRole(WorkspaceRole.EDITOR)
+  async deleteCalculatedField(
+    @Param('sessionId') sessionId: string,
+    @Param('fieldId') fieldId: string
+  ) {
+    await this.calculatedFieldService.remove(sessionId, fieldId);
+
     return {
       success: true,
-      fields: [], // 需要从schema中获取字段信息
-      totalFields: overview.fieldsCount,
+      message: '计算字段已删除',
     };
   }
 
@@ -667,6 +998,14 @@ export class DataAnalysisController {
       xAxisAggregation: dto.xAxisAggregation,
       aggregation: dto.aggregation as any,
       groupBy: dto.groupBy,
+      seriesField: dto.seriesField,
+      measures: dto.measures,
+      seriesLayout: dto.seriesLayout,
+      timeBucket: dto.timeBucket,
+      timezone: dto.timezone,
+      fillGaps: dto.fillGaps,
+      rollingWindow: dto.rollingWindow,
+      binning: dto.binning,
       filters: dto.filters,
       title: dto.title,
       colorScheme: dto.colorScheme,
@@ -674,12 +1013,17 @@ export class DataAnalysisController {
       showDataLabels: dto.showDataLabels,
     };
 
-    const chartData = await this.dataAnalysisService.generateChartData(config);
+    // 多系列、按时间或数值范围分组的图表以及直方图、箱线图由 ChartDataService 生成
+    const chartData = isSeriesChartConfig(config) || isDistributionChartConfig(config)
+      ? await this.chartDataService.generateOptimizedChartData(config)
+      : await this.dataAnalysisService.generateChartData(config);
     
     // 限制预览数据点数量
     const previewData = {
       ...chartData,
       data: chartData.data.slice(0, 50), // 只返回前50个数据点
+      categories: chartData.categories?.slice(0, 50),
+      series: chartData.series?.map(series => ({ ...series, data: series.data.slice(0, 50) })),
     };
     
     return {
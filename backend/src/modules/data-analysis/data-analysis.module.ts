@@ -3,19 +3,22 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { DataAnalysisController } from './data-analysis.controller';
 import { DataAnalysisService } from './data-analysis.service';
 import { ChartDataService } from './chart-data.service';
+import { CalculatedFieldService } from './calculated-field.service';
 import { DataSession } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { ChartConfig } from '../../entities/chart-config.entity';
+import { FetchConfig } from '../../entities/fetch-config.entity';
+import { CalculatedField } from '../../entities/calculated-field.entity';
 import { DataSessionModule } from '../data-session/data-session.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([DataSession, DataTableSchema, FieldAnnotation, ChartConfig]),
+    TypeOrmModule.forFeature([DataSession, DataTableSchema, FieldAnnotation, ChartConfig, FetchConfig, CalculatedField]),
     DataSessionModule,
   ],
   controllers: [DataAnalysisController],
-  providers: [DataAnalysisService, ChartDataService],
+  providers: [DataAnalysisService, ChartDataService, CalculatedFieldService],
   exports: [DataAnalysisService, ChartDataService],
 })
 export class DataAnalysisModule {}
\ No newline at end of file
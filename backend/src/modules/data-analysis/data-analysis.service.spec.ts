@@ -5,6 +5,8 @@ import { DataAnalysisService, FilterCondition } from './data-analysis.service';
 import { DataSession } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
+import { FetchConfig } from '../../entities/fetch-config.entity';
+import { CalculatedField } from '../../entities/calculated-field.entity';
 import { AggregationType } from '../../entities/chart-config.entity';
 
 describe('DataAnalysisService', () => {
@@ -12,6 +14,8 @@ describe('DataAnalysisService', () => {
   let sessionRepository: jest.Mocked<Repository<DataSession>>;
   let schemaRepository: jest.Mocked<Repository<DataTableSchema>>;
   let annotationRepository: jest.Mocked<Repository<FieldAnnotation>>;
+  let fetchConfigRepository: jest.Mocked<Repository<FetchConfig>>;
+  let calculatedFieldRepository: jest.Mocked<Repository<CalculatedField>>;
   let dataSource: jest.Mocked<DataSource>;
   let queryBuilder: jest.Mocked<SelectQueryBuilder<any>>;
 
@@ -59,6 +63,7 @@ describe('DataAnalysisService', () => {
     // 创建 QueryBuilder mock
     queryBuilder = {
       from: jest.fn().mockReturnThis(),
+      leftJoin: jest.fn().mockReturnThis(),
       select: jest.fn().mockReturnThis(),
       addSelect: jest.fn().mockReturnThis(),
       where: jest.fn().mockReturnThis(),
@@ -66,8 +71,11 @@ describe('DataAnalysisService', () => {
       orderBy: jest.fn().mockReturnThis(),
       addOrderBy: jest.fn().mockReturnThis(),
       groupBy: jest.fn().mockReturnThis(),
+      addGroupBy: jest.fn().mockReturnThis(),
       skip: jest.fn().mockReturnThis(),
       take: jest.fn().mockReturnThis(),
+      offset: jest.fn().mockReturnThis(),
+      limit: jest.fn().mockReturnThis(),
       getRawMany: jest.fn(),
       getRawOne: jest.fn(),
     } as any;
@@ -92,6 +100,14 @@ describe('DataAnalysisService', () => {
       count: jest.fn(),
     } as any;
 
+    fetchConfigRepository = {
+      findOne: jest.fn(),
+    } as any;
+
+    calculatedFieldRepository = {
+      find: jest.fn().mockResolvedValue([]),
+    } as any;
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DataAnalysisService,
@@ -107,6 +123,14 @@ describe('DataAnalysisService', () => {
           provide: getRepositoryToken(FieldAnnotation),
           useValue: annotationRepository,
         },
+        {
+          provide: getRepositoryToken(FetchConfig),
+          useValue: fetchConfigRepository,
+        },
+        {
+          provide: getRepositoryToken(CalculatedField),
+          useValue: calculatedFieldRepository,
+        },
         {
           provide: DataSource,
           useValue: dataSource,
@@ -154,7 +178,7 @@ describe('DataAnalysisService', () => {
         where: { id: 'test-session-id' },
       });
       expect(schemaRepository.findOne).toHaveBeenCalledWith({
-        where: { sessionId: 'test-session-id' },
+        where: { sessionId: 'test-session-id', sourceName: 'main' },
       });
     });
 
@@ -210,6 +234,124 @@ describe('DataAnalysisService', () => {
     });
   });
 
+  describe('openRowCursor', () => {
+    beforeEach(() => {
+      sessionRepository.findOne.mockResolvedValue(mockSession as any);
+      schemaRepository.findOne.mockResolvedValue(mockSchema as any);
+      annotationRepository.find.mockResolvedValue(mockAnnotations as any);
+      queryBuilder.getRawOne.mockResolvedValue({ count: '3' });
+    });
+
+    it('应该按批次读取全部数据，不受单页 1000 条的限制', async () => {
+      queryBuilder.getRawMany
+        .mockResolvedValueOnce(mockData.slice(0, 2))
+        .mockResolvedValueOnce(mockData.slice(2));
+
+      const cursor = await service.openRowCursor(
+        'test-session-id',
+        { sorts: [{ field: 'age', direction: 'DESC' }] },
+        2,
+      );
+
+      expect(cursor.total).toBe(3);
+      expect(cursor.fields.find(field => field.name === 'age')).toEqual({ name: 'age', label: '年龄', type: 'integer' });
+      expect(await cursor.next()).toEqual(mockData.slice(0, 2));
+      expect(await cursor.next()).toEqual(mockData.slice(2));
+      expect(await cursor.next()).toEqual([]);
+
+      expect(queryBuilder.getRawMany).toHaveBeenCalledTimes(2);
+      expect(queryBuilder.skip).toHaveBeenNthCalledWith(1, 0);
+      expect(queryBuilder.skip).toHaveBeenNthCalledWith(2, 2);
+      expect(queryBuilder.take).toHaveBeenCalledWith(2);
+      // 用户排序后以行ID兜底，保证分批读取时顺序稳定
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('data.age', 'DESC');
+      expect(queryBuilder.addOrderBy).toHaveBeenCalledWith('data.id', 'ASC');
+    });
+  });
+
+  describe('透视表', () => {
+    beforeEach(() => {
+      sessionRepository.findOne.mockResolvedValue(mockSession as any);
+      schemaRepository.findOne.mockResolvedValue(mockSchema as any);
+      annotationRepository.find.mockResolvedValue(mockAnnotations as any);
+    });
+
+    it('应该按各层级分组聚合并生成小计和总计', async () => {
+      queryBuilder.getRawMany
+        // 行维度取值
+        .mockResolvedValueOnce([
+          { d0: '张三', d1: 'a@example.com' },
+          { d0: '张三', d1: 'b@example.com' },
+          { d0: '李四', d1: 'c@example.com' },
+        ])
+        // 明细
+        .mockResolvedValueOnce([
+          { r0: '张三', r1: 'a@example.com', m0: '20.0000', m1: 1 },
+          { r0: '张三', r1: 'b@example.com', m0: '30.0000', m1: 1 },
+          { r0: '李四', r1: 'c@example.com', m0: '40.0000', m1: '2' },
+        ])
+        // 按姓名小计
+        .mockResolvedValueOnce([
+          { r0: '张三', m0: '25.0000', m1: 2 },
+          { r0: '李四', m0: '40.0000', m1: 2 },
+        ])
+        // 总计
+        .mockResolvedValueOnce([{ m0: '32.5000', m1: '4' }]);
+
+      const result = await service.pivotData('test-session-id', {
+        rows: ['name', 'email'],
+        measures: [{ field: 'age', aggregation: 'avg' }, { aggregation: 'count' }],
+      });
+
+      expect(result.rowFields.map(field => field.label)).toEqual(['姓名', 'email']);
+      expect(result.measures.map(measure => measure.label)).toEqual(['年龄 (平均值)', '记录数']);
+      expect(result.columns).toEqual([{ key: '[]', values: [], level: 0, type: 'total' }]);
+      expect(result.rows.map(row => [row.type, row.values])).toEqual([
+        ['item', ['张三', 'a@example.com']],
+        ['item', ['张三', 'b@example.com']],
+        ['subtotal', ['张三']],
+        ['item', ['李四', 'c@example.com']],
+        ['subtotal', ['李四']],
+        ['total', []],
+      ]);
+      expect(result.cells['["张三","b@example.com"]']['[]']).toEqual([30, 1]);
+      expect(result.cells['["张三"]']['[]']).toEqual([25, 2]);
+      expect(result.cells['[]']['[]']).toEqual([32.5, 4]);
+
+      // 平均值直接在 SQL 中按各层级分组计算
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('AVG(data.age)', 'm0');
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('COUNT(*)', 'm1');
+      expect(queryBuilder.addGroupBy).toHaveBeenCalledWith('data.email');
+      expect(queryBuilder.getRawMany).toHaveBeenCalledTimes(4);
+    });
+
+    it('列维度组合过多时应该报错', async () => {
+      queryBuilder.getRawMany
+        .mockResolvedValueOnce([{ d0: '张三' }])
+        .mockResolvedValueOnce(Array.from({ length: 51 }, (_, index) => ({ d0: index })));
+
+      await expect(
+        service.pivotData('test-session-id', {
+          rows: ['name'],
+          columns: ['age'],
+          measures: [{ aggregation: 'count' }],
+        }),
+      ).rejects.toThrow('列维度组合超过 50 个');
+    });
+
+    it('应该校验维度和度量字段', async () => {
+      await expect(
+        service.pivotData('test-session-id', { rows: ['name'], columns: ['name'], measures: [{ aggregation: 'count' }] }),
+      ).rejects.toThrow('维度字段 name 重复');
+      await expect(
+        service.pivotData('test-session-id', { rows: ['unknown'], measures: [{ aggregation: 'count' }] }),
+      ).rejects.toThrow('维度字段 unknown 不存在');
+      await expect(
+        service.pivotData('test-session-id', { rows: ['name'], measures: [{ aggregation: 'sum' }] }),
+      ).rejects.toThrow('除计数外的度量必须指定字段');
+    });
+  });
+
   describe('aggregateData', () => {
     beforeEach(() => {
       sessionRepository.findOne.mockResolvedValue(mockSession as any);
@@ -262,6 +404,208 @@ describe('DataAnalysisService', () => {
     });
   });
 
+  describe('附加数据源关联', () => {
+    const ordersSchema = {
+      id: 'orders-schema-id',
+      sessionId: 'test-session-id',
+      sourceName: 'orders',
+      tableName: 'data_test_session_id__orders',
+      fieldDefinitions: {
+        user_id: { type: 'integer' },
+        amount: { type: 'number' },
+      },
+    };
+
+    beforeEach(() => {
+      sessionRepository.findOne.mockResolvedValue(mockSession as any);
+      schemaRepository.findOne.mockImplementation(async (options: any) =>
+        (options.where.sourceName === 'orders' ? ordersSchema : mockSchema) as any
+      );
+      annotationRepository.find.mockResolvedValue(mockAnnotations as any);
+      queryBuilder.getRawMany.mockResolvedValue([]);
+      queryBuilder.getRawOne.mockResolvedValue({ count: '0' });
+    });
+
+    it('should join sources on the declared key and select prefixed fields', async () => {
+      fetchConfigRepository.findOne.mockResolvedValueOnce({
+        sourceName: 'orders',
+        joinField: 'user_id',
+        primaryJoinField: 'id',
+      } as any);
+
+      const result = await service.queryData('test-session-id', {
+        fields: ['name', 'orders.amount'],
+        filters: [{ field: 'orders.amount', operator: 'gt', value: 100 }],
+        pageSize: 10,
+      });
+
+      expect(queryBuilder.leftJoin).toHaveBeenCalledWith(
+        'data_test_session_id__orders',
+        'src_orders',
+        'src_orders.user_id = data.id',
+      );
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('src_orders.amount', 'orders.amount');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('src_orders.amount > :filter_0', { filter_0: 100 });
+      expect(queryBuilder.offset).toHaveBeenCalledWith(0);
+      expect(queryBuilder.limit).toHaveBeenCalledWith(10);
+      expect(result.fields).toContainEqual({ name: 'orders.amount', label: 'orders.amount', type: 'number' });
+    });
+
+    it('should aggregate a joined field grouped by a primary field', async () => {
+      fetchConfigRepository.findOne.mockResolvedValueOnce({
+        sourceName: 'orders',
+        joinField: 'user_id',
+        primaryJoinField: 'id',
+      } as any);
+
+      await service.aggregateData('test-session-id', 'orders.amount', AggregationType.SUM, 'name');
+
+      expect(queryBuilder.select).toHaveBeenCalledWith('data.name', 'groupValue');
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('SUM(src_orders.amount)', 'aggregatedValue');
+    });
+
+    it('should reject sources without a declared join key', async () => {
+      fetchConfigRepository.findOne.mockResolvedValueOnce({ sourceName: 'orders' } as any);
+
+      await expect(
+        service.queryData('test-session-id', { fields: ['orders.amount'] })
+      ).rejects.toThrow('数据源 orders 未声明关联字段');
+    });
+
+    it('should reject unknown sources', async () => {
+      fetchConfigRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.queryData('test-session-id', { sources: ['missing'] })
+      ).rejects.toThrow('数据源 missing 不存在');
+    });
+
+    it('should join child tables exploded from nested arrays on the parent row id', async () => {
+      const linesSchema = {
+        sessionId: 'test-session-id',
+        sourceName: 'order_lines',
+        parentSourceName: 'main',
+        tableName: 'data_test_session_id__order_lines',
+        fieldDefinitions: { sku: { type: 'string' }, qty: { type: 'number' } },
+      };
+      schemaRepository.findOne.mockImplementation(async (options: any) =>
+        (options.where.sourceName === 'order_lines' ? linesSchema : mockSchema) as any
+      );
+      fetchConfigRepository.findOne.mockResolvedValueOnce(null);
+
+      await service.aggregateData(
+        'test-session-id',
+        'order_lines.qty',
+        AggregationType.SUM,
+        'name',
+        [{ field: 'order_lines.sku', operator: 'eq', value: 'a' }],
+      );
+
+      expect(queryBuilder.leftJoin).toHaveBeenCalledWith(
+        'data_test_session_id__order_lines',
+        'src_order_lines',
+        'src_order_lines.parent_row_id = data.id',
+      );
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('SUM(src_order_lines.qty)', 'aggregatedValue');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('src_order_lines.sku = :filter_0', { filter_0: 'a' });
+    });
+  });
+
+  describe('计算字段', () => {
+    const ordersSchema = {
+      sessionId: 'test-session-id',
+      sourceName: 'orders',
+      tableName: 'data_test_session_id__orders',
+      fieldDefinitions: { user_id: { type: 'integer' }, amount: { type: 'number' } },
+    };
+
+    beforeEach(() => {
+      sessionRepository.findOne.mockResolvedValue(mockSession as any);
+      schemaRepository.findOne.mockImplementation(async (options: any) =>
+        (options.where.sourceName === 'orders' ? ordersSchema : mockSchema) as any
+      );
+      annotationRepository.find.mockResolvedValue(mockAnnotations as any);
+      queryBuilder.getRawMany.mockResolvedValue([]);
+      queryBuilder.getRawOne.mockResolvedValue({ count: '0' });
+      calculatedFieldRepository.find.mockResolvedValue([
+        { name: 'age_next', label: '明年年龄', expression: 'age + 1' },
+        { name: 'signup_month', expression: "date_format(created_at, 'YYYY-MM')" },
+        { name: 'big_order', expression: "if(orders.amount >= 100, 'yes', 'no')" },
+      ] as any);
+    });
+
+    it('should select, filter and sort calculated fields as compiled SQL', async () => {
+      const result = await service.queryData('test-session-id', {
+        fields: ['name', 'age_next'],
+        filters: [{ field: 'age_next', operator: 'gt', value: 30 }],
+        sorts: [{ field: 'age_next', direction: 'DESC' }],
+      });
+
+      expect(queryBuilder.addSelect).toHaveBeenCalledWith('(data.age + 1)', 'age_next');
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith('(data.age + 1) > :filter_0', { filter_0: 30 });
+      expect(queryBuilder.orderBy).toHaveBeenCalledWith('(data.age + 1)', 'DESC');
+      expect(queryBuilder.leftJoin).not.toHaveBeenCalled();
+      expect(result.fields).toContainEqual({ name: 'age_next', label: '明年年龄', type: 'number' });
+    });
+
+    it('should group aggregations by a calculated field', async () => {
+      await service.aggregateData('test-session-id', 'age', AggregationType.COUNT, 'signup_month');
+
+      expect(queryBuilder.select).toHaveBeenCalledWith("DATE_FORMAT(data.created_at, '%Y-%m')", 'groupValue');
+      expect(queryBuilder.groupBy).toHaveBeenCalledWith("DATE_FORMAT(data.created_at, '%Y-%m')");
+    });
+
+    it('should join the sources a referenced calculated field depends on', async () => {
+      fetchConfigRepository.findOne.mockResolvedValueOnce({
+        sourceName: 'orders',
+        joinField: 'user_id',
+        primaryJoinField: 'id',
+      } as any);
+
+      await service.aggregateData('test-session-id', 'age', AggregationType.COUNT, 'big_order');
+
+      expect(queryBuilder.leftJoin).toHaveBeenCalledWith(
+        'data_test_session_id__orders',
+        'src_orders',
+        'src_orders.user_id = data.id',
+      );
+      expect(queryBuilder.select).toHaveBeenCalledWith(
+        "(CASE WHEN (src_orders.amount >= 100) THEN 'yes' ELSE 'no' END)",
+        'groupValue',
+      );
+    });
+
+    it('should list calculated fields alongside real columns', async () => {
+      const fields = await service.getFieldList('test-session-id');
+
+      expect(fields).toContainEqual({ name: 'name', label: '姓名', type: 'string', calculated: false, expression: undefined });
+      expect(fields).toContainEqual({
+        name: 'signup_month',
+        label: 'signup_month',
+        type: 'string',
+        calculated: true,
+        expression: "date_format(created_at, 'YYYY-MM')",
+      });
+      // 依赖未关联数据源的计算字段不在默认字段中
+      expect(fields.map(field => field.name)).not.toContain('big_order');
+    });
+
+    it('should reject expressions referencing unknown or calculated fields', async () => {
+      await expect(
+        service.validateCalculatedExpression('test-session-id', 'total', 'price * 2')
+      ).rejects.toThrow('表达式引用的字段 price 不存在');
+      await expect(
+        service.validateCalculatedExpression('test-session-id', 'total', 'age_next * 2')
+      ).rejects.toThrow('计算字段不能引用其他计算字段 age_next');
+      await expect(
+        service.validateCalculatedExpression('test-session-id', 'age', 'age * 2')
+      ).rejects.toThrow('字段 age 已存在');
+      await expect(
+        service.validateCalculatedExpression('test-session-id', 'age_double', 'age * 2')
+      ).resolves.toBe('number');
+    });
+  });
+
   describe('getFieldStats', () => {
     beforeEach(() => {
       sessionRepository.findOne.mockResolvedValue(mockSession as any);
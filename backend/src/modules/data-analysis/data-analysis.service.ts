@@ -3,8 +3,12 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, DataSource, SelectQueryBuilder } from 'typeorm';
 import { DataSession } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { FetchConfig, DEFAULT_SOURCE_NAME } from '../../entities/fetch-config.entity';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
-import { AggregationType } from '../../entities/chart-config.entity';
+import { CalculatedField } from '../../entities/calculated-field.entity';
+import { AggregationType, ChartBinning, ChartMeasure, RollingWindow, SeriesLayout } from '../../entities/chart-config.entity';
+import { DynamicTableUtil } from '../../common/database-utils';
+import { ExpressionNode, ExpressionParser, ExpressionSqlCompiler, TimeBucketDialect, TimeBucketUnit } from '../../common/utils';
 
 export interface FilterCondition {
   field: string;
@@ -23,7 +27,32 @@ export interface QueryOptions {
   sorts?: SortCondition[];
   page?: number;
   pageSize?: number;
-  fields?: string[]; // 指定要查询的字段
+  fields?: string[]; // 指定要查询的字段，附加数据源字段写作 `数据源名.字段名`
+  sources?: string[]; // 需要关联的附加数据源，未指定字段时一并返回其全部字段
+}
+
+export interface SourceJoin {
+  sourceName: string;
+  tableName: string;
+  alias: string;
+  joinField: string; // 附加数据源中的关联字段
+  primaryJoinField: string; // 主数据源中的关联字段
+  parentAlias?: string; // 关联到的表别名，默认为主数据源 data；子表关联到其父数据源
+}
+
+export interface ResolvedSources {
+  schema: DataTableSchema; // 主数据源的表结构
+  fieldDefinitions: Record<string, any>; // 主数据源字段、`数据源名.字段名` 形式的附加字段及计算字段
+  fieldPaths: Record<string, string>; // 字段到 SQL 列路径的映射，计算字段为编译后的表达式
+  joins: SourceJoin[];
+}
+
+export interface FieldListItem {
+  name: string;
+  label: string;
+  type: string;
+  calculated: boolean;
+  expression?: string;
 }
 
 export interface QueryResult {
@@ -38,6 +67,12 @@ export interface QueryResult {
   }>;
 }
 
+export interface RowCursor {
+  fields: QueryResult['fields'];
+  total: number; // 筛选后的主表记录数，存在一对多关联时实际导出行数可能更多
+  next(): Promise<any[]>;
+}
+
 export interface AggregationResult {
   field: string;
   aggregation: AggregationType;
@@ -49,6 +84,39 @@ export interface AggregationResult {
   }>;
 }
 
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'count_distinct' | 'min' | 'max';
+
+export interface PivotMeasure {
+  field?: string; // 计数时可省略，表示统计记录数
+  aggregation: PivotAggregation;
+  label?: string;
+}
+
+export interface PivotOptions {
+  rows: string[]; // 行维度
+  columns?: string[]; // 列维度
+  measures: PivotMeasure[];
+  filters?: FilterCondition[];
+  showSubtotals?: boolean; // 默认显示各级小计
+  showGrandTotals?: boolean; // 默认显示总计
+}
+
+export interface PivotHeader {
+  key: string; // 维度取值前缀的 JSON 数组，用于在 cells 中定位
+  values: any[];
+  level: number; // 取值个数，等于维度数时为明细，小于时为小计，0 为总计
+  type: 'item' | 'subtotal' | 'total';
+}
+
+export interface PivotResult {
+  rowFields: QueryResult['fields'];
+  columnFields: QueryResult['fields'];
+  measures: Array<PivotMeasure & { key: string; label: string }>;
+  rows: PivotHeader[];
+  columns: PivotHeader[];
+  cells: Record<string, Record<string, Array<number | string | null>>>; // 行 key -> 列 key -> 各度量的值
+}
+
 export interface ChartDataPoint {
   x: any;
   y: number;
@@ -56,25 +124,66 @@ export interface ChartDataPoint {
   category?: string;
 }
 
+export interface ChartSeries {
+  name: string;
+  field: string; // 度量字段
+  aggregation: AggregationType;
+  seriesValue?: any; // 分组系列字段的取值
+  axis: 'left' | 'right';
+  chartType: 'line' | 'bar';
+  data: Array<number | null>; // 与 categories 一一对应，缺失的组合为 null
+}
+
+// 箱线图中一组数据的分布概要
+export interface BoxPlotItem {
+  name: string;
+  groupValue?: any; // 分组字段的取值，未分组时为空
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  lowerWhisker: number; // 不低于 Q1 - 1.5 * IQR 的最小值
+  upperWhisker: number; // 不高于 Q3 + 1.5 * IQR 的最大值
+  outliers: number[];
+  outlierCount: number; // 异常值总数，超出返回上限时 outliers 只包含部分
+}
+
 export interface ChartData {
-  type: 'line' | 'bar' | 'pie' | 'scatter';
+  type: 'line' | 'bar' | 'pie' | 'scatter' | 'histogram' | 'boxplot';
   title: string;
   xAxisLabel: string;
   yAxisLabel: string;
+  secondaryYAxisLabel?: string;
   data: ChartDataPoint[];
   categories?: string[];
+  series?: ChartSeries[]; // 多系列图表才返回，data 保留第一个系列便于兼容
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit; // 按时间分组时的分桶粒度，categories 为各分桶的显示名称
+  rollingWindow?: RollingWindow;
+  binEdges?: number[]; // 按数值范围分组时的分箱边界，categories 为各分箱的显示名称
+  boxPlot?: BoxPlotItem[];
   aggregation?: AggregationType;
   totalRecords: number;
 }
 
 export interface ChartConfigDto {
   sessionId: string;
-  chartType: 'line' | 'bar' | 'pie' | 'scatter';
+  chartType: 'line' | 'bar' | 'pie' | 'scatter' | 'histogram' | 'boxplot';
   xAxis: string;
   yAxis: string;
   xAxisAggregation?: 'none' | 'group' | 'date_group' | 'range';
   aggregation?: AggregationType;
   groupBy?: string;
+  seriesField?: string; // 按该字段拆分系列
+  measures?: ChartMeasure[]; // 多个 Y 轴度量
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit; // xAxisAggregation 为 date_group 时生效，默认按天
+  timezone?: string; // 分桶所用时区，为空时按存储的时间分桶
+  fillGaps?: boolean; // 补齐没有数据的分桶，默认开启
+  rollingWindow?: RollingWindow;
+  binning?: ChartBinning; // xAxisAggregation 为 range 或直方图时生效，默认自动分箱
   filters?: FilterCondition[];
   title?: string;
   colorScheme?: string[];
@@ -82,6 +191,19 @@ export interface ChartConfigDto {
   showDataLabels?: boolean;
 }
 
+// 透视表行、列维度组合数上限
+const MAX_PIVOT_ROWS = 500;
+const MAX_PIVOT_COLUMNS = 50;
+
+const PIVOT_AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: '求和',
+  avg: '平均值',
+  count: '计数',
+  count_distinct: '去重计数',
+  min: '最小值',
+  max: '最大值',
+};
+
 @Injectable()
 export class DataAnalysisService {
   private readonly logger = new Logger(DataAnalysisService.name);
@@ -93,6 +215,10 @@ export class DataAnalysisService {
     private readonly schemaRepository: Repository<DataTableSchema>,
     @InjectRepository(FieldAnnotation)
     private readonly annotationRepository: Repository<FieldAnnotation>,
+    @InjectRepository(FetchConfig)
+    private readonly fetchConfigRepository: Repository<FetchConfig>,
+    @InjectRepository(CalculatedField)
+    private readonly calculatedFieldRepository: Repository<CalculatedField>,
     private readonly dataSource: DataSource,
   ) {}
 
@@ -100,71 +226,116 @@ export class DataAnalysisService {
    * 查询会话数据
    */
   async queryData(sessionId: string, options: QueryOptions = {}): Promise<QueryResult> {
-    // 验证会话存在
-    const session = await this.sessionRepository.findOne({
-      where: { id: sessionId },
-    });
+    // 验证会话并解析涉及的数据源
+    const resolved = await this.resolveQuerySources(sessionId, options);
+    const { queryBuilder, fieldsToSelect } = this.buildDataQuery(resolved, options);
 
-    if (!session) {
-      throw new NotFoundException(`会话 ${sessionId} 不存在`);
-    }
+    // 分页
+    const page = options.page || 1;
+    const pageSize = Math.min(options.pageSize || 20, 1000); // 限制最大页面大小
+    const skip = (page - 1) * pageSize;
+    this.applyPaging(queryBuilder, resolved, skip, pageSize);
 
-    // 获取数据表结构
-    const schema = await this.schemaRepository.findOne({
-      where: { sessionId },
-    });
+    // 执行查询
+    const [data, total, fields] = await Promise.all([
+      queryBuilder.getRawMany(),
+      this.getFilteredCount(resolved, options.filters),
+      this.buildFieldInfo(sessionId, fieldsToSelect, resolved.fieldDefinitions),
+    ]);
 
-    if (!schema) {
-      throw new NotFoundException(`会话 ${sessionId} 没有数据表结构`);
-    }
+    return {
+      data,
+      total,
+      page,
+      pageSize,
+      fields,
+    };
+  }
 
-    // 获取字段标注
-    const annotations = await this.annotationRepository.find({
-      where: { sessionId },
-    });
+  /**
+   * 打开逐批读取筛选结果的游标，用于导出全部数据
+   * 每批按稳定排序（用户排序后依次按主表和各关联表的行ID）重新查询，返回空数组表示读取完毕
+   */
+  async openRowCursor(
+    sessionId: string,
+    options: Omit<QueryOptions, 'page' | 'pageSize'> = {},
+    batchSize = 2000,
+  ): Promise<RowCursor> {
+    const resolved = await this.resolveQuerySources(sessionId, options);
+    const { fieldsToSelect } = this.buildDataQuery(resolved, options);
+
+    const [total, fields] = await Promise.all([
+      this.getFilteredCount(resolved, options.filters),
+      this.buildFieldInfo(sessionId, fieldsToSelect, resolved.fieldDefinitions),
+    ]);
 
-    const annotationMap = new Map<string, FieldAnnotation>();
-    annotations.forEach(annotation => {
-      annotationMap.set(annotation.fieldName, annotation);
-    });
+    let offset = 0;
+    let finished = false;
+    const next = async (): Promise<any[]> => {
+      if (finished) {
+        return [];
+      }
 
-    // 构建查询
-    const tableName = schema.tableName;
-    const fieldDefinitions = schema.fieldDefinitions as Record<string, any>;
+      const { queryBuilder } = this.buildDataQuery(resolved, options);
+      if (options.sorts && options.sorts.length > 0) {
+        queryBuilder.addOrderBy('data.id', 'ASC');
+      }
+      resolved.joins.forEach(join => {
+        queryBuilder.addOrderBy(`${join.alias}.id`, 'ASC');
+      });
+      this.applyPaging(queryBuilder, resolved, offset, batchSize);
+
+      const rows = await queryBuilder.getRawMany();
+      offset += rows.length;
+      finished = rows.length < batchSize;
+      return rows;
+    };
+
+    return { fields, total, next };
+  }
+
+  /**
+   * 解析查询涉及的数据源
+   */
+  private resolveQuerySources(sessionId: string, options: QueryOptions): Promise<ResolvedSources> {
+    return this.resolveSources(
+      sessionId,
+      [
+        ...(options.fields || []),
+        ...(options.filters || []).map(filter => filter.field),
+        ...(options.sorts || []).map(sort => sort.field),
+      ],
+      options.sources,
+    );
+  }
+
+  /**
+   * 构建带字段选择、筛选和排序的数据查询，不含分页
+   */
+  private buildDataQuery(
+    resolved: ResolvedSources,
+    options: QueryOptions,
+  ): { queryBuilder: SelectQueryBuilder<any>; fieldsToSelect: string[] } {
+    const { fieldDefinitions, fieldPaths } = resolved;
     
-    let queryBuilder = this.dataSource
-      .createQueryBuilder()
-      .from(tableName, 'data');
+    const queryBuilder = this.createSourceQuery(resolved);
 
     // 选择字段
     const fieldsToSelect = options.fields || Object.keys(fieldDefinitions);
     fieldsToSelect.forEach(field => {
-      queryBuilder.addSelect(`data.${field}`, field);
+      queryBuilder.addSelect(this.getFieldPath(fieldPaths, field), field);
     });
 
     // 应用筛选条件
-    if (options.filters && options.filters.length > 0) {
-      // 处理全局搜索
-      const globalSearchFilter = options.filters.find(f => f.field === 'all');
-      if (globalSearchFilter) {
-        this.applyGlobalSearch(queryBuilder, globalSearchFilter.value, fieldDefinitions);
-        // 移除全局搜索过滤器，应用其他过滤器
-        const otherFilters = options.filters.filter(f => f.field !== 'all');
-        if (otherFilters.length > 0) {
-          this.applyFilters(queryBuilder, otherFilters, fieldDefinitions);
-        }
-      } else {
-        this.applyFilters(queryBuilder, options.filters, fieldDefinitions);
-      }
-    }
+    this.applyQueryFilters(queryBuilder, options.filters, resolved);
 
     // 应用排序
     if (options.sorts && options.sorts.length > 0) {
       options.sorts.forEach((sort, index) => {
         if (index === 0) {
-          queryBuilder.orderBy(`data.${sort.field}`, sort.direction);
+          queryBuilder.orderBy(this.getFieldPath(fieldPaths, sort.field), sort.direction);
         } else {
-          queryBuilder.addOrderBy(`data.${sort.field}`, sort.direction);
+          queryBuilder.addOrderBy(this.getFieldPath(fieldPaths, sort.field), sort.direction);
         }
       });
     } else {
@@ -172,38 +343,54 @@ export class DataAnalysisService {
       queryBuilder.orderBy('data.id', 'ASC');
     }
 
-    // 分页
-    const page = options.page || 1;
-    const pageSize = Math.min(options.pageSize || 20, 1000); // 限制最大页面大小
-    const skip = (page - 1) * pageSize;
+    return { queryBuilder, fieldsToSelect };
+  }
 
-    queryBuilder.skip(skip).take(pageSize);
+  /**
+   * 应用分页
+   */
+  private applyPaging(
+    queryBuilder: SelectQueryBuilder<any>,
+    resolved: ResolvedSources,
+    skip: number,
+    take: number,
+  ): void {
+    // 存在关联时 TypeORM 不会把 skip/take 转换为原始查询的 LIMIT/OFFSET
+    if (resolved.joins.length > 0) {
+      queryBuilder.offset(skip).limit(take);
+    } else {
+      queryBuilder.skip(skip).take(take);
+    }
+  }
 
-    // 执行查询
-    const [data, total] = await Promise.all([
-      queryBuilder.getRawMany(),
-      this.getFilteredCount(tableName, options.filters, fieldDefinitions),
-    ]);
+  /**
+   * 构建字段信息，显示名优先使用字段标注
+   */
+  private async buildFieldInfo(
+    sessionId: string,
+    fieldNames: string[],
+    fieldDefinitions: Record<string, any>,
+  ): Promise<QueryResult['fields']> {
+    // 获取字段标注
+    const annotations = await this.annotationRepository.find({
+      where: { sessionId },
+    });
+
+    const annotationMap = new Map<string, FieldAnnotation>();
+    annotations.forEach(annotation => {
+      annotationMap.set(annotation.fieldName, annotation);
+    });
 
-    // 构建字段信息
-    const fields = fieldsToSelect.map(fieldName => {
+    return fieldNames.map(fieldName => {
       const annotation = annotationMap.get(fieldName);
       const fieldDef = fieldDefinitions[fieldName];
       
       return {
         name: fieldName,
-        label: annotation?.label || fieldName,
+        label: annotation?.label || fieldDef?.label || fieldName,
         type: fieldDef?.type || 'string',
       };
     });
-
-    return {
-      data,
-      total,
-      page,
-      pageSize,
-      fields,
-    };
   }
 
   /**
@@ -216,10 +403,13 @@ export class DataAnalysisService {
     groupBy?: string,
     filters?: FilterCondition[]
   ): Promise<AggregationResult> {
-    // 验证会话和表结构
-    const schema = await this.getSessionSchema(sessionId);
-    const tableName = schema.tableName;
-    const fieldDefinitions = schema.fieldDefinitions as Record<string, any>;
+    // 验证会话和表结构，解析涉及的附加数据源
+    const resolved = await this.resolveSources(sessionId, [
+      field,
+      groupBy,
+      ...(filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
 
     // 验证字段存在
     if (!fieldDefinitions[field]) {
@@ -230,32 +420,32 @@ export class DataAnalysisService {
       throw new BadRequestException(`分组字段 ${groupBy} 不存在`);
     }
 
-    let queryBuilder = this.dataSource
-      .createQueryBuilder()
-      .from(tableName, 'data');
+    let queryBuilder = this.createSourceQuery(resolved);
 
     // 构建聚合查询
+    const fieldPath = fieldPaths[field];
     const aggregationMap = {
-      sum: `SUM(data.${field})`,
-      avg: `AVG(data.${field})`,
-      count: `COUNT(data.${field})`,
-      min: `MIN(data.${field})`,
-      max: `MAX(data.${field})`,
+      sum: `SUM(${fieldPath})`,
+      avg: `AVG(${fieldPath})`,
+      count: `COUNT(${fieldPath})`,
+      min: `MIN(${fieldPath})`,
+      max: `MAX(${fieldPath})`,
     };
 
     if (groupBy) {
+      const groupPath = fieldPaths[groupBy];
       queryBuilder
-        .select(`data.${groupBy}`, 'groupValue')
+        .select(groupPath, 'groupValue')
         .addSelect(aggregationMap[aggregation], 'aggregatedValue')
-        .groupBy(`data.${groupBy}`)
-        .orderBy(`data.${groupBy}`, 'ASC');
+        .groupBy(groupPath)
+        .orderBy(groupPath, 'ASC');
     } else {
       queryBuilder.select(aggregationMap[aggregation], 'aggregatedValue');
     }
 
     // 应用筛选条件
     if (filters && filters.length > 0) {
-      this.applyFilters(queryBuilder, filters, fieldDefinitions);
+      this.applyFilters(queryBuilder, filters, fieldDefinitions, fieldPaths);
     }
 
     // 执行查询
@@ -281,6 +471,108 @@ export class DataAnalysisService {
     }
   }
 
+  /**
+   * 透视表查询
+   * 每个行、列维度层级组合分别在 SQL 中分组聚合，小计和总计基于明细数据计算，平均值、去重计数等不会由下级结果推算
+   */
+  async pivotData(sessionId: string, options: PivotOptions): Promise<PivotResult> {
+    const rowDims = options.rows || [];
+    const columnDims = options.columns || [];
+    const showSubtotals = options.showSubtotals !== false;
+    const showGrandTotals = options.showGrandTotals !== false;
+
+    if (!options.measures || options.measures.length === 0) {
+      throw new BadRequestException('透视表至少需要一个度量');
+    }
+    const allDims = [...rowDims, ...columnDims];
+    const duplicated = allDims.find((field, index) => allDims.indexOf(field) !== index);
+    if (duplicated) {
+      throw new BadRequestException(`维度字段 ${duplicated} 重复`);
+    }
+
+    const resolved = await this.resolveSources(sessionId, [
+      ...allDims,
+      ...options.measures.map(measure => measure.field),
+      ...(options.filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
+
+    allDims.forEach(field => {
+      if (!fieldDefinitions[field]) {
+        throw new BadRequestException(`维度字段 ${field} 不存在`);
+      }
+    });
+    options.measures.forEach(measure => {
+      if (!PIVOT_AGGREGATION_LABELS[measure.aggregation]) {
+        throw new BadRequestException(`不支持的聚合方式: ${measure.aggregation}`);
+      }
+      if (measure.field ? !fieldDefinitions[measure.field] : measure.aggregation !== 'count') {
+        throw new BadRequestException(measure.field ? `度量字段 ${measure.field} 不存在` : '除计数外的度量必须指定字段');
+      }
+    });
+
+    const measureFields = Array.from(new Set(options.measures.map(measure => measure.field).filter(Boolean)));
+    const fieldInfo = await this.buildFieldInfo(
+      sessionId,
+      Array.from(new Set([...allDims, ...measureFields])),
+      fieldDefinitions,
+    );
+    const fieldInfoMap = new Map(fieldInfo.map(field => [field.name, field]));
+
+    // 维度组合过多时提前报错，避免生成过大的结果
+    const rowTuples = await this.getPivotDimensionValues(resolved, rowDims, options.filters, MAX_PIVOT_ROWS, '行');
+    const columnTuples = await this.getPivotDimensionValues(resolved, columnDims, options.filters, MAX_PIVOT_COLUMNS, '列');
+
+    // 按层级组合分组聚合，第 i 层表示按前 i 个维度分组
+    const rowLevels = this.getPivotLevels(rowDims.length, showSubtotals, showGrandTotals);
+    const columnLevels = this.getPivotLevels(columnDims.length, showSubtotals, showGrandTotals);
+    const cells: PivotResult['cells'] = {};
+
+    for (const rowLevel of rowLevels) {
+      for (const columnLevel of columnLevels) {
+        const groupDims = [
+          ...rowDims.slice(0, rowLevel).map((field, index) => ({ field, alias: `r${index}` })),
+          ...columnDims.slice(0, columnLevel).map((field, index) => ({ field, alias: `c${index}` })),
+        ];
+        const queryBuilder = this.createSourceQuery(resolved);
+        groupDims.forEach(({ field, alias }, index) => {
+          const path = this.getFieldPath(fieldPaths, field);
+          queryBuilder.addSelect(path, alias);
+          if (index === 0) {
+            queryBuilder.groupBy(path);
+          } else {
+            queryBuilder.addGroupBy(path);
+          }
+        });
+        options.measures.forEach((measure, index) => {
+          queryBuilder.addSelect(this.getPivotAggregation(measure, fieldPaths), `m${index}`);
+        });
+        this.applyQueryFilters(queryBuilder, options.filters, resolved);
+
+        const results = await queryBuilder.getRawMany();
+        results.forEach(row => {
+          const rowKey = JSON.stringify(rowDims.slice(0, rowLevel).map((_, index) => row[`r${index}`]));
+          const columnKey = JSON.stringify(columnDims.slice(0, columnLevel).map((_, index) => row[`c${index}`]));
+          cells[rowKey] = cells[rowKey] || {};
+          cells[rowKey][columnKey] = options.measures.map((_, index) => this.toPivotValue(row[`m${index}`]));
+        });
+      }
+    }
+
+    return {
+      rowFields: rowDims.map(field => fieldInfoMap.get(field)),
+      columnFields: columnDims.map(field => fieldInfoMap.get(field)),
+      measures: options.measures.map((measure, index) => ({
+        ...measure,
+        key: `m${index}`,
+        label: measure.label || this.getPivotMeasureLabel(measure, fieldInfoMap),
+      })),
+      rows: this.buildPivotHeaders(rowTuples, rowDims.length, showSubtotals, showGrandTotals),
+      columns: this.buildPivotHeaders(columnTuples, columnDims.length, showSubtotals, showGrandTotals),
+      cells,
+    };
+  }
+
   /**
    * 获取字段统计信息
    */
@@ -367,6 +659,53 @@ export class DataAnalysisService {
     return result;
   }
 
+  /**
+   * 获取可用于查询和图表的字段：主数据源字段及计算字段
+   */
+  async getFieldList(sessionId: string): Promise<FieldListItem[]> {
+    const { fieldDefinitions } = await this.resolveSources(sessionId);
+    const annotations = await this.annotationRepository.find({
+      where: { sessionId },
+    });
+    const annotationMap = new Map<string, FieldAnnotation>();
+    annotations.forEach(annotation => {
+      annotationMap.set(annotation.fieldName, annotation);
+    });
+
+    return Object.entries(fieldDefinitions).map(([name, definition]) => ({
+      name,
+      label: annotationMap.get(name)?.label || definition?.label || name,
+      type: definition?.type || 'string',
+      calculated: !!definition?.calculated,
+      expression: definition?.expression,
+    }));
+  }
+
+  /**
+   * 校验计算字段表达式能否在会话数据上编译，返回推断的字段类型
+   */
+  async validateCalculatedExpression(sessionId: string, name: string, expression: string): Promise<string> {
+    const node = ExpressionParser.parse(expression);
+    const resolved = await this.resolveSources(sessionId, Array.from(ExpressionParser.collectFields(node)));
+    if (resolved.fieldDefinitions[name] && !resolved.fieldDefinitions[name].calculated) {
+      throw new BadRequestException(`字段 ${name} 已存在`);
+    }
+
+    const calculated = new Set(
+      Object.keys(resolved.fieldDefinitions).filter(field => resolved.fieldDefinitions[field]?.calculated),
+    );
+    ExpressionSqlCompiler.compile(this.getSqlDialect(), node, field => {
+      if (calculated.has(field)) {
+        throw new BadRequestException(`计算字段不能引用其他计算字段 ${field}`);
+      }
+      if (!resolved.fieldPaths[field]) {
+        throw new BadRequestException(`表达式引用的字段 ${field} 不存在`);
+      }
+      return resolved.fieldPaths[field];
+    });
+    return ExpressionSqlCompiler.inferType(node, field => resolved.fieldDefinitions[field]?.type);
+  }
+
   /**
    * 获取数据概览
    */
@@ -436,7 +775,8 @@ export class DataAnalysisService {
   private applyGlobalSearch(
     queryBuilder: SelectQueryBuilder<any>,
     searchValue: string,
-    fieldDefinitions: Record<string, any>
+    fieldDefinitions: Record<string, any>,
+    fieldPaths: Record<string, string> = {}
   ): void {
     const searchableFields = Object.keys(fieldDefinitions).filter(field => {
       const fieldType = fieldDefinitions[field]?.type;
@@ -446,7 +786,7 @@ export class DataAnalysisService {
 
     if (searchableFields.length > 0) {
       const searchConditions = searchableFields.map(field => 
-        `data.${field} LIKE :globalSearch`
+        `${this.getFieldPath(fieldPaths, field)} LIKE :globalSearch`
       ).join(' OR ');
       
       queryBuilder.andWhere(`(${searchConditions})`, {
@@ -455,13 +795,39 @@ export class DataAnalysisService {
     }
   }
 
+  /**
+   * 应用筛选条件，字段为 all 的条件按全局搜索处理
+   */
+  private applyQueryFilters(
+    queryBuilder: SelectQueryBuilder<any>,
+    filters: FilterCondition[] | undefined,
+    resolved: ResolvedSources,
+  ): void {
+    if (!filters || filters.length === 0) {
+      return;
+    }
+
+    const { fieldDefinitions, fieldPaths } = resolved;
+    // 处理全局搜索
+    const globalSearchFilter = filters.find(f => f.field === 'all');
+    if (globalSearchFilter) {
+      this.applyGlobalSearch(queryBuilder, globalSearchFilter.value, fieldDefinitions, fieldPaths);
+    }
+    // 移除全局搜索过滤器，应用其他过滤器
+    const otherFilters = filters.filter(f => f.field !== 'all');
+    if (otherFilters.length > 0) {
+      this.applyFilters(queryBuilder, otherFilters, fieldDefinitions, fieldPaths);
+    }
+  }
+
   /**
    * 应用筛选条件
    */
   private applyFilters(
     queryBuilder: SelectQueryBuilder<any>,
     filters: FilterCondition[],
-    fieldDefinitions: Record<string, any>
+    fieldDefinitions: Record<string, any>,
+    fieldPaths: Record<string, string> = {}
   ): void {
     filters.forEach((filter, index) => {
       const { field, operator, value, values } = filter;
@@ -472,7 +838,7 @@ export class DataAnalysisService {
       }
 
       const paramName = `filter_${index}`;
-      const fieldPath = `data.${field}`;
+      const fieldPath = this.getFieldPath(fieldPaths, field);
 
       switch (operator) {
         case 'eq':
@@ -525,18 +891,13 @@ export class DataAnalysisService {
    * 获取筛选后的记录数
    */
   private async getFilteredCount(
-    tableName: string,
-    filters?: FilterCondition[],
-    fieldDefinitions?: Record<string, any>
+    resolved: ResolvedSources,
+    filters?: FilterCondition[]
   ): Promise<number> {
-    let queryBuilder = this.dataSource
-      .createQueryBuilder()
-      .from(tableName, 'data')
+    let queryBuilder = this.createSourceQuery(resolved)
       .select('COUNT(*)', 'count');
 
-    if (filters && filters.length > 0 && fieldDefinitions) {
-      this.applyFilters(queryBuilder, filters, fieldDefinitions);
-    }
+    this.applyQueryFilters(queryBuilder, filters, resolved);
 
     const result = await queryBuilder.getRawOne();
     return parseInt(result?.count || 0);
@@ -548,10 +909,13 @@ export class DataAnalysisService {
   async generateChartData(config: ChartConfigDto): Promise<ChartData> {
     const { sessionId, chartType, xAxis, yAxis, aggregation, filters, title } = config;
     
-    // 验证会话和表结构
-    const schema = await this.getSessionSchema(sessionId);
-    const tableName = schema.tableName;
-    const fieldDefinitions = schema.fieldDefinitions as Record<string, any>;
+    // 验证会话和表结构，解析涉及的附加数据源
+    const resolved = await this.resolveSources(sessionId, [
+      xAxis,
+      yAxis,
+      ...(filters || []).map(filter => filter.field),
+    ]);
+    const { fieldDefinitions, fieldPaths } = resolved;
 
     // 验证字段存在
     if (!fieldDefinitions[xAxis]) {
@@ -570,41 +934,41 @@ export class DataAnalysisService {
       annotationMap.set(annotation.fieldName, annotation);
     });
 
-    const xAxisLabel = annotationMap.get(xAxis)?.label || xAxis;
-    const yAxisLabel = annotationMap.get(yAxis)?.label || yAxis;
+    const xAxisLabel = annotationMap.get(xAxis)?.label || fieldDefinitions[xAxis].label || xAxis;
+    const yAxisLabel = annotationMap.get(yAxis)?.label || fieldDefinitions[yAxis].label || yAxis;
 
-    let queryBuilder = this.dataSource
-      .createQueryBuilder()
-      .from(tableName, 'data');
+    let queryBuilder = this.createSourceQuery(resolved);
+    const xAxisPath = fieldPaths[xAxis];
+    const yAxisPath = fieldPaths[yAxis];
 
     // 根据图表类型和聚合方式构建查询
     if (chartType === 'pie') {
       // 饼图：按X轴分组，对Y轴进行聚合
-      const aggFunction = this.getAggregationFunction(aggregation || 'count', yAxis);
+      const aggFunction = this.getAggregationFunction(aggregation || 'count', yAxisPath);
       queryBuilder
-        .select(`data.${xAxis}`, 'x')
+        .select(xAxisPath, 'x')
         .addSelect(aggFunction, 'y')
-        .groupBy(`data.${xAxis}`)
+        .groupBy(xAxisPath)
         .orderBy('y', 'DESC');
     } else if (aggregation) {
       // 其他图表类型：按X轴分组，对Y轴进行聚合
-      const aggFunction = this.getAggregationFunction(aggregation, yAxis);
+      const aggFunction = this.getAggregationFunction(aggregation, yAxisPath);
       queryBuilder
-        .select(`data.${xAxis}`, 'x')
+        .select(xAxisPath, 'x')
         .addSelect(aggFunction, 'y')
-        .groupBy(`data.${xAxis}`)
-        .orderBy(`data.${xAxis}`, 'ASC');
+        .groupBy(xAxisPath)
+        .orderBy(xAxisPath, 'ASC');
     } else {
       // 散点图或无聚合：直接选择X和Y轴数据
       queryBuilder
-        .select(`data.${xAxis}`, 'x')
-        .addSelect(`data.${yAxis}`, 'y')
-        .orderBy(`data.${xAxis}`, 'ASC');
+        .select(xAxisPath, 'x')
+        .addSelect(yAxisPath, 'y')
+        .orderBy(xAxisPath, 'ASC');
     }
 
     // 应用筛选条件
     if (filters && filters.length > 0) {
-      this.applyFilters(queryBuilder, filters, fieldDefinitions);
+      this.applyFilters(queryBuilder, filters, fieldDefinitions, fieldPaths);
     }
 
     // 限制数据点数量（避免图表过于复杂）
@@ -616,7 +980,7 @@ export class DataAnalysisService {
     const rawData = await queryBuilder.getRawMany();
     
     // 获取总记录数
-    const totalRecords = await this.getFilteredCount(tableName, filters, fieldDefinitions);
+    const totalRecords = await this.getFilteredCount(resolved, filters);
 
     // 转换数据格式
     const data: ChartDataPoint[] = rawData.map(row => ({
@@ -776,17 +1140,357 @@ export class DataAnalysisService {
   /**
    * 获取聚合函数SQL
    */
-  private getAggregationFunction(aggregation: AggregationType | string, field: string): string {
+  private getAggregationFunction(aggregation: AggregationType | string, fieldPath: string): string {
     const aggregationMap = {
-      [AggregationType.SUM]: `SUM(data.${field})`,
-      [AggregationType.AVG]: `AVG(data.${field})`,
-      [AggregationType.COUNT]: `COUNT(data.${field})`,
-      [AggregationType.MIN]: `MIN(data.${field})`,
-      [AggregationType.MAX]: `MAX(data.${field})`,
-      [AggregationType.NONE]: `data.${field}`,
+      [AggregationType.SUM]: `SUM(${fieldPath})`,
+      [AggregationType.AVG]: `AVG(${fieldPath})`,
+      [AggregationType.COUNT]: `COUNT(${fieldPath})`,
+      [AggregationType.MIN]: `MIN(${fieldPath})`,
+      [AggregationType.MAX]: `MAX(${fieldPath})`,
+      [AggregationType.NONE]: fieldPath,
     };
 
-    return aggregationMap[aggregation] || `COUNT(data.${field})`;
+    return aggregationMap[aggregation] || `COUNT(${fieldPath})`;
+  }
+
+  /**
+   * 查询维度取值组合（按维度依次升序），超过上限时报错
+   */
+  private async getPivotDimensionValues(
+    resolved: ResolvedSources,
+    dims: string[],
+    filters: FilterCondition[] | undefined,
+    limit: number,
+    axisName: string,
+  ): Promise<any[][]> {
+    if (dims.length === 0) {
+      return [];
+    }
+
+    const queryBuilder = this.createSourceQuery(resolved);
+    dims.forEach((field, index) => {
+      const path = this.getFieldPath(resolved.fieldPaths, field);
+      queryBuilder.addSelect(path, `d${index}`);
+      if (index === 0) {
+        queryBuilder.groupBy(path).orderBy(path, 'ASC');
+      } else {
+        queryBuilder.addGroupBy(path).addOrderBy(path, 'ASC');
+      }
+    });
+    this.applyQueryFilters(queryBuilder, filters, resolved);
+    this.applyPaging(queryBuilder, resolved, 0, limit + 1);
+
+    const results = await queryBuilder.getRawMany();
+    if (results.length > limit) {
+      throw new BadRequestException(`${axisName}维度组合超过 ${limit} 个，请添加筛选条件或减少维度`);
+    }
+    return results.map(row => dims.map((_, index) => row[`d${index}`]));
+  }
+
+  /**
+   * 需要查询的维度层级：明细层级，以及按需显示的各级小计和总计
+   */
+  private getPivotLevels(dimCount: number, showSubtotals: boolean, showGrandTotals: boolean): number[] {
+    const levels = [dimCount];
+    if (showSubtotals) {
+      for (let level = dimCount - 1; level >= 1; level--) {
+        levels.push(level);
+      }
+    }
+    if (showGrandTotals && dimCount > 0) {
+      levels.push(0);
+    }
+    return levels;
+  }
+
+  /**
+   * 按维度取值顺序生成表头，各级小计排在所属分组之后，总计排在最后
+   */
+  private buildPivotHeaders(
+    tuples: any[][],
+    dimCount: number,
+    showSubtotals: boolean,
+    showGrandTotals: boolean,
+  ): PivotHeader[] {
+    const header = (values: any[], type: PivotHeader['type']): PivotHeader => ({
+      key: JSON.stringify(values),
+      values,
+      level: values.length,
+      type,
+    });
+
+    // 没有维度时只有一个汇总行（列）
+    if (dimCount === 0) {
+      return [header([], 'total')];
+    }
+
+    const headers: PivotHeader[] = [];
+    tuples.forEach((tuple, index) => {
+      headers.push(header(tuple, 'item'));
+      if (!showSubtotals) {
+        return;
+      }
+      const next = tuples[index + 1];
+      for (let level = dimCount - 1; level >= 1; level--) {
+        const prefix = tuple.slice(0, level);
+        if (!next || JSON.stringify(next.slice(0, level)) !== JSON.stringify(prefix)) {
+          headers.push(header(prefix, 'subtotal'));
+        }
+      }
+    });
+    if (showGrandTotals) {
+      headers.push(header([], 'total'));
+    }
+    return headers;
+  }
+
+  private getPivotAggregation(measure: PivotMeasure, fieldPaths: Record<string, string>): string {
+    if (!measure.field) {
+      return 'COUNT(*)';
+    }
+    const path = this.getFieldPath(fieldPaths, measure.field);
+    return measure.aggregation === 'count_distinct'
+      ? `COUNT(DISTINCT ${path})`
+      : `${measure.aggregation.toUpperCase()}(${path})`;
+  }
+
+  private getPivotMeasureLabel(
+    measure: PivotMeasure,
+    fieldInfoMap: Map<string, QueryResult['fields'][number]>,
+  ): string {
+    if (!measure.field) {
+      return '记录数';
+    }
+    const fieldLabel = fieldInfoMap.get(measure.field)?.label || measure.field;
+    return `${fieldLabel} (${PIVOT_AGGREGATION_LABELS[measure.aggregation]})`;
+  }
+
+  /**
+   * 聚合结果转为数值，最小值、最大值作用于文本或日期时保留原值
+   */
+  private toPivotValue(value: any): number | string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    const number = typeof value === 'number' ? value : Number(value);
+    return typeof value !== 'object' && Number.isFinite(number) && value !== '' ? number : value;
+  }
+
+  /**
+   * 解析查询涉及的数据源
+   * 字段以 `数据源名.字段名` 引用附加数据源或子表，附加数据源按声明的关联键、子表按父表行ID左连接
+   */
+  async resolveSources(
+    sessionId: string,
+    fieldRefs: Array<string | undefined> = [],
+    extraSources: string[] = [],
+  ): Promise<ResolvedSources> {
+    const schema = await this.getSessionSchema(sessionId);
+    const fieldDefinitions: Record<string, any> = { ...(schema.fieldDefinitions as Record<string, any>) };
+    const fieldPaths: Record<string, string> = {};
+    Object.keys(fieldDefinitions).forEach(field => {
+      fieldPaths[field] = `data.${field}`;
+    });
+
+    // 被引用的计算字段所依赖的附加数据源同样需要关联
+    const calculatedNodes = await this.loadCalculatedFields(sessionId, fieldDefinitions, fieldRefs);
+    const sourceRefs = [...fieldRefs];
+    fieldRefs.forEach(ref => {
+      const calculated = ref && calculatedNodes.get(ref);
+      if (calculated) {
+        sourceRefs.push(...ExpressionParser.collectFields(calculated.node));
+      }
+    });
+
+    const sourceNames = new Set(extraSources);
+    sourceRefs.forEach(ref => {
+      if (ref && !fieldDefinitions[ref] && !calculatedNodes.has(ref) && ref.includes('.')) {
+        sourceNames.add(ref.split('.')[0]);
+      }
+    });
+    sourceNames.delete(DEFAULT_SOURCE_NAME);
+
+    const joins: SourceJoin[] = [];
+    for (const sourceName of sourceNames) {
+      await this.joinSource(sessionId, sourceName, { fieldDefinitions, fieldPaths, joins });
+    }
+
+    this.compileCalculatedFields(calculatedNodes, fieldDefinitions, fieldPaths, fieldRefs);
+
+    return { schema, fieldDefinitions, fieldPaths, joins };
+  }
+
+  /**
+   * 读取并解析会话的计算字段，与真实字段同名时以真实字段为准
+   */
+  private async loadCalculatedFields(
+    sessionId: string,
+    fieldDefinitions: Record<string, any>,
+    fieldRefs: Array<string | undefined>,
+  ): Promise<Map<string, { field: CalculatedField; node: ExpressionNode }>> {
+    const calculatedFields = await this.calculatedFieldRepository.find({
+      where: { sessionId },
+      order: { createdAt: 'ASC' },
+    });
+
+    const nodes = new Map<string, { field: CalculatedField; node: ExpressionNode }>();
+    calculatedFields.forEach(field => {
+      if (fieldDefinitions[field.name]) {
+        this.logger.warn(`计算字段 ${field.name} 与数据字段同名，已忽略`);
+        return;
+      }
+      try {
+        nodes.set(field.name, { field, node: ExpressionParser.parse(field.expression) });
+      } catch (error) {
+        if (fieldRefs.includes(field.name)) {
+          throw error;
+        }
+        this.logger.warn(`计算字段 ${field.name} 表达式无效，已忽略: ${error.message}`);
+      }
+    });
+    return nodes;
+  }
+
+  /**
+   * 将计算字段编译为 SQL 表达式并加入字段定义
+   * 依赖的附加数据源未关联时跳过该字段，查询中显式引用时报错
+   */
+  private compileCalculatedFields(
+    calculatedNodes: Map<string, { field: CalculatedField; node: ExpressionNode }>,
+    fieldDefinitions: Record<string, any>,
+    fieldPaths: Record<string, string>,
+    fieldRefs: Array<string | undefined>,
+  ): void {
+    calculatedNodes.forEach(({ field, node }, name) => {
+      try {
+        const sql = ExpressionSqlCompiler.compile(this.getSqlDialect(), node, ref => {
+          if (!fieldPaths[ref] || calculatedNodes.has(ref)) {
+            throw new BadRequestException(`计算字段 ${name} 引用的字段 ${ref} 不存在`);
+          }
+          return fieldPaths[ref];
+        });
+        fieldPaths[name] = sql;
+        fieldDefinitions[name] = {
+          type: ExpressionSqlCompiler.inferType(node, ref => fieldDefinitions[ref]?.type),
+          label: field.label || undefined,
+          calculated: true,
+          expression: field.expression,
+        };
+      } catch (error) {
+        if (fieldRefs.includes(name)) {
+          throw error;
+        }
+      }
+    });
+  }
+
+  /**
+   * 关联单个附加数据源，返回其表别名
+   * 不是附加数据源时按嵌套数组拆分出的子表处理：子表以 parent_row_id 关联父数据源的行ID，父数据源不是主数据源时先关联父数据源
+   */
+  private async joinSource(
+    sessionId: string,
+    sourceName: string,
+    resolved: Omit<ResolvedSources, 'schema'>,
+  ): Promise<string> {
+    const { fieldDefinitions, fieldPaths, joins } = resolved;
+    const alias = `src_${sourceName}`;
+    if (joins.some(join => join.sourceName === sourceName)) {
+      return alias;
+    }
+
+    const config = await this.fetchConfigRepository.findOne({
+      where: { sessionId, sourceName },
+    });
+
+    let join: SourceJoin;
+    let sourceSchema: DataTableSchema | null;
+    if (!config) {
+      sourceSchema = await this.schemaRepository.findOne({
+        where: { sessionId, sourceName },
+      });
+      if (!sourceSchema?.parentSourceName) {
+        throw new BadRequestException(`数据源 ${sourceName} 不存在`);
+      }
+
+      const parentAlias = sourceSchema.parentSourceName === DEFAULT_SOURCE_NAME
+        ? 'data'
+        : await this.joinSource(sessionId, sourceSchema.parentSourceName, resolved);
+      join = {
+        sourceName,
+        tableName: sourceSchema.tableName,
+        alias,
+        joinField: DynamicTableUtil.PARENT_ROW_ID_COLUMN,
+        primaryJoinField: 'id',
+        parentAlias,
+      };
+    } else {
+      if (!config.joinField || !config.primaryJoinField) {
+        throw new BadRequestException(`数据源 ${sourceName} 未声明关联字段`);
+      }
+      if (!fieldPaths[config.primaryJoinField]) {
+        throw new BadRequestException(`主数据源关联字段 ${config.primaryJoinField} 不存在`);
+      }
+
+      sourceSchema = await this.schemaRepository.findOne({
+        where: { sessionId, sourceName },
+      });
+      if (!sourceSchema) {
+        throw new BadRequestException(`数据源 ${sourceName} 尚未拉取数据`);
+      }
+      if (!(sourceSchema.fieldDefinitions as Record<string, any>)[config.joinField]) {
+        throw new BadRequestException(`数据源 ${sourceName} 的关联字段 ${config.joinField} 不存在`);
+      }
+
+      join = {
+        sourceName,
+        tableName: sourceSchema.tableName,
+        alias,
+        joinField: config.joinField,
+        primaryJoinField: config.primaryJoinField,
+      };
+    }
+
+    joins.push(join);
+    Object.entries(sourceSchema.fieldDefinitions as Record<string, any>).forEach(([field, definition]) => {
+      fieldDefinitions[`${sourceName}.${field}`] = definition;
+      fieldPaths[`${sourceName}.${field}`] = `${alias}.${field}`;
+    });
+
+    return alias;
+  }
+
+  /**
+   * 创建从主数据源出发、已关联附加数据源的查询
+   */
+  createSourceQuery(resolved: ResolvedSources): SelectQueryBuilder<any> {
+    const queryBuilder = this.dataSource
+      .createQueryBuilder()
+      .from(resolved.schema.tableName, 'data');
+
+    resolved.joins.forEach(join => {
+      queryBuilder.leftJoin(
+        join.tableName,
+        join.alias,
+        `${join.alias}.${join.joinField} = ${join.parentAlias || 'data'}.${join.primaryJoinField}`,
+      );
+    });
+
+    return queryBuilder;
+  }
+
+  /**
+   * 计算字段按当前连接的数据库类型编译
+   */
+  private getSqlDialect(): TimeBucketDialect {
+    return this.dataSource.options?.type === 'postgres' ? 'postgres' : 'mysql';
+  }
+
+  /**
+   * 获取字段对应的 SQL 列路径
+   */
+  private getFieldPath(fieldPaths: Record<string, string>, field: string): string {
+    return fieldPaths[field] || `data.${field}`;
   }
 
   /**
@@ -802,7 +1506,7 @@ export class DataAnalysisService {
     }
 
     const schema = await this.schemaRepository.findOne({
-      where: { sessionId },
+      where: { sessionId, sourceName: DEFAULT_SOURCE_NAME },
     });
 
     if (!schema) {
@@ -0,0 +1,103 @@
+import { Controller, Get, Post, Param, Body, Request, Res, HttpCode, HttpStatus, UseGuards, Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { createReadStream } from 'fs';
+import { DataExportService, ExportJob } from './data-export.service';
+import { ExportDataDto } from './dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionAccessGuard } from '../data-session/session-access.guard';
+
+@Controller('data-export')
+@UseGuards(JwtAuthGuard, SessionAccessGuard)
+export class DataExportController {
+  private readonly logger = new Logger(DataExportController.name);
+
+  constructor(private readonly dataExportService: DataExportService) {}
+
+  /**
+   * 流式导出筛选后的全部数据，边查询边输出文件
+   */
+  @Post('stream')
+  @HttpCode(HttpStatus.OK)
+  async streamExport(@Body() dto: ExportDataDto, @Res() res: Response) {
+    // 参数错误在输出文件内容前抛出，按普通接口错误返回
+    const prepared = await this.dataExportService.prepareExport(dto);
+
+    res.setHeader('Content-Type', prepared.contentType);
+    res.setHeader('Content-Disposition', this.contentDisposition(prepared.fileName));
+    res.setHeader('X-Total-Count', String(prepared.cursor.total));
+
+    try {
+      await this.dataExportService.writeExport(prepared, res);
+    } catch (error) {
+      // 响应头已发出，只能中断连接让客户端感知下载失败
+      this.logger.error(`导出会话 ${dto.sessionId} 数据失败: ${error.message}`, error.stack);
+      res.destroy(error);
+    }
+  }
+
+  /**
+   * 创建后台导出任务，适用于数据量较大的表
+   */
+  @Post('jobs')
+  async createJob(@Request() req, @Body() dto: ExportDataDto) {
+    const job = await this.dataExportService.createJob(dto, req.user.id);
+
+    return {
+      success: true,
+      data: this.toJobResponse(job),
+    };
+  }
+
+  /**
+   * 查询导出任务进度，完成后返回下载地址
+   */
+  @Get('jobs/:jobId')
+  async getJob(@Request() req, @Param('jobId') jobId: string) {
+    const job = await this.dataExportService.getJob(jobId, req.user.id);
+
+    return {
+      success: true,
+      data: this.toJobResponse(job),
+    };
+  }
+
+  /**
+   * 下载导出任务生成的文件
+   */
+  @Get('jobs/:jobId/download')
+  async downloadJobFile(@Request() req, @Param('jobId') jobId: string, @Res() res: Response) {
+    const file = await this.dataExportService.getJobFile(jobId, req.user.id);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', this.contentDisposition(file.fileName));
+    createReadStream(file.filePath)
+      .on('error', error => {
+        this.logger.error(`读取导出文件失败: ${error.message}`);
+        res.destroy(error);
+      })
+      .pipe(res);
+  }
+
+  private toJobResponse(job: ExportJob) {
+    const { userId, ...rest } = job;
+    return {
+      ...rest,
+      percentage:
+        job.status === 'completed'
+          ? 100
+          : job.totalRows > 0
+            ? Math.min(99, Math.round((job.exportedRows / job.totalRows) * 100))
+            : 0,
+      // 相对于接口根路径
+      downloadUrl: job.status === 'completed' ? `/data-export/jobs/${job.id}/download` : undefined,
+    };
+  }
+
+  /**
+   * 生成下载文件名，非 ASCII 字符通过 filename* 传递
+   */
+  private contentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+  }
+}
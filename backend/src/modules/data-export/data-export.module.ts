@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataExportController } from './data-export.controller';
+import { DataExportService } from './data-export.service';
+import { DataSession } from '../../entities/data-session.entity';
+import { DataAnalysisModule } from '../data-analysis/data-analysis.module';
+import { DataSessionModule } from '../data-session/data-session.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([DataSession]), DataAnalysisModule, DataSessionModule],
+  controllers: [DataExportController],
+  providers: [DataExportService],
+})
+export class DataExportModule {}
@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { PassThrough } from 'stream';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DataExportService } from './data-export.service';
+import { DataAnalysisService } from '../data-analysis/data-analysis.service';
+import { DataSession } from '../../entities/data-session.entity';
+import { FileParserService } from '../../common/utils';
+import { ExportFormat } from './writers';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let dataAnalysisService: { openRowCursor: jest.Mock };
+  let exportDir: string;
+
+  const fields = [
+    { name: 'id', label: 'id', type: 'integer' },
+    { name: 'name', label: '姓名', type: 'string' },
+    { name: 'nickname', label: '姓名', type: 'string' },
+    { name: 'price', label: '价格', type: 'number' },
+    { name: 'paid', label: '已支付', type: 'boolean' },
+    { name: 'created_at', label: '创建时间', type: 'date' },
+  ];
+
+  const batches = [
+    [
+      { id: 1, name: '张三', nickname: 'a,"b"', price: '12.50', paid: 1, created_at: new Date('2024-03-15T08:30:00.000Z') },
+      { id: 2, name: '李四', nickname: null, price: 3, paid: 0, created_at: null },
+    ],
+    [{ id: 3, name: '<王五> & co', nickname: 'line\nbreak', price: null, paid: null, created_at: new Date('2024-03-16T00:00:00.000Z') }],
+  ];
+
+  const mockCursor = () => {
+    const pending = [...batches];
+    return {
+      fields,
+      total: 3,
+      next: jest.fn(async () => pending.shift() || []),
+    };
+  };
+
+  const exportToBuffer = async (format: ExportFormat): Promise<Buffer> => {
+    const prepared = await service.prepareExport({ sessionId: 'session-1', format });
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', chunk => chunks.push(chunk));
+    const rows = await service.writeExport(prepared, output);
+    expect(rows).toBe(3);
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    exportDir = mkdtempSync(join(tmpdir(), 'export-spec-'));
+    process.env.EXPORT_DIR = exportDir;
+    dataAnalysisService = { openRowCursor: jest.fn().mockImplementation(async () => mockCursor()) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        {
+          provide: getRepositoryToken(DataSession),
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'session-1', name: '订单/2024' }) },
+        },
+        { provide: DataAnalysisService, useValue: dataAnalysisService },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+  });
+
+  afterEach(() => {
+    delete process.env.EXPORT_DIR;
+    rmSync(exportDir, { recursive: true, force: true });
+  });
+
+  it('应该以标注名作为表头，重名时附加字段名，并按文件名规则生成下载名', async () => {
+    const prepared = await service.prepareExport({ sessionId: 'session-1', format: 'csv' });
+
+    expect(prepared.columns.map(column => column.header)).toEqual([
+      'id',
+      '姓名',
+      '姓名 (nickname)',
+      '价格',
+      '已支付',
+      '创建时间',
+    ]);
+    expect(prepared.fileName).toMatch(/^订单_2024_\d{14}\.csv$/);
+    expect(dataAnalysisService.openRowCursor).toHaveBeenCalledWith(
+      'session-1',
+      expect.objectContaining({ filters: undefined }),
+      2000,
+    );
+  });
+
+  it('应该逐批导出全部行为 CSV', async () => {
+    const text = (await exportToBuffer('csv')).toString('utf8');
+
+    expect(text.charCodeAt(0)).toBe(0xfeff);
+    expect(text.slice(1).split('\r\n')).toEqual([
+      'id,姓名,姓名 (nickname),价格,已支付,创建时间',
+      '1,张三,"a,""b""",12.5,true,2024-03-15T08:30:00.000Z',
+      '2,李四,,3,false,',
+      '3,<王五> & co,"line\nbreak",,,2024-03-16T00:00:00.000Z',
+      '',
+    ]);
+  });
+
+  it('应该导出以表头为键的 NDJSON', async () => {
+    const lines = (await exportToBuffer('ndjson')).toString('utf8').trim().split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0])).toEqual({
+      id: 1,
+      姓名: '张三',
+      '姓名 (nickname)': 'a,"b"',
+      价格: 12.5,
+      已支付: true,
+      创建时间: '2024-03-15T08:30:00.000Z',
+    });
+  });
+
+  it('导出的 XLSX 应该能被重新解析', async () => {
+    const buffer = await exportToBuffer('xlsx');
+    const parsed = new FileParserService().parse(buffer, 'export.xlsx');
+
+    expect(parsed.sheetName).toBe('数据');
+    expect(parsed.records).toEqual([
+      {
+        id: 1,
+        姓名: '张三',
+        '姓名 (nickname)': 'a,"b"',
+        价格: 12.5,
+        已支付: true,
+        创建时间: '2024-03-15T08:30:00.000Z',
+      },
+      { id: 2, 姓名: '李四', '姓名 (nickname)': null, 价格: 3, 已支付: false, 创建时间: null },
+      {
+        id: 3,
+        姓名: '<王五> & co',
+        '姓名 (nickname)': 'line\nbreak',
+        价格: null,
+        已支付: null,
+        创建时间: '2024-03-16',
+      },
+    ]);
+  });
+
+  it('导出的 Parquet 应该包含文件头尾标识和列元数据', async () => {
+    const buffer = await exportToBuffer('parquet');
+
+    expect(buffer.subarray(0, 4).toString('ascii')).toBe('PAR1');
+    expect(buffer.subarray(buffer.length - 4).toString('ascii')).toBe('PAR1');
+
+    const metadataLength = buffer.readUInt32LE(buffer.length - 8);
+    const metadata = buffer.subarray(buffer.length - 8 - metadataLength, buffer.length - 8).toString('utf8');
+    ['姓名', '姓名 (nickname)', '价格', '已支付', '创建时间'].forEach(header => {
+      expect(metadata).toContain(header);
+    });
+  });
+
+  describe('后台导出任务', () => {
+    it('应该在后台生成文件并只允许创建者下载', async () => {
+      const job = await service.createJob({ sessionId: 'session-1', format: 'csv' }, 'user-1');
+      expect(job).toMatchObject({ sessionId: 'session-1', format: 'csv', totalRows: 3 });
+
+      await (service as any).queue;
+
+      const finished = await service.getJob(job.id, 'user-1');
+      expect(finished).toMatchObject({ status: 'completed', exportedRows: 3 });
+      expect(finished.fileSize).toBeGreaterThan(0);
+
+      const file = await service.getJobFile(job.id, 'user-1');
+      expect(file.filePath.startsWith(exportDir)).toBe(true);
+      expect(readFileSync(file.filePath, 'utf8')).toContain('张三');
+
+      await expect(service.getJob(job.id, 'user-2')).rejects.toThrow(NotFoundException);
+    });
+
+    it('导出失败时应该记录错误并删除不完整的文件', async () => {
+      dataAnalysisService.openRowCursor.mockResolvedValueOnce({
+        fields,
+        total: 3,
+        next: jest.fn().mockRejectedValue(new Error('连接中断')),
+      });
+
+      const job = await service.createJob({ sessionId: 'session-1', format: 'xlsx' }, 'user-1');
+      await (service as any).queue;
+
+      expect(await service.getJob(job.id, 'user-1')).toMatchObject({ status: 'failed', error: '连接中断' });
+      await expect(service.getJobFile(job.id, 'user-1')).rejects.toThrow('导出任务尚未完成');
+    });
+  });
+});
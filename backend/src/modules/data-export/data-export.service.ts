@@ -0,0 +1,253 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Writable } from 'stream';
+import { DataSession } from '../../entities/data-session.entity';
+import { DataAnalysisService, RowCursor } from '../data-analysis/data-analysis.service';
+import { ExportDataDto } from './dto';
+import { ExportColumn, ExportFormat, EXPORT_FORMATS, createExportWriter } from './writers';
+
+// 每批从数据库读取的行数
+const EXPORT_BATCH_SIZE = 2000;
+// 后台导出文件的保留时间
+const EXPORT_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type ExportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ExportJob {
+  id: string;
+  userId: string;
+  sessionId: string;
+  format: ExportFormat;
+  fileName: string;
+  status: ExportJobStatus;
+  totalRows: number;
+  exportedRows: number;
+  fileSize?: number;
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface PreparedExport {
+  cursor: RowCursor;
+  columns: ExportColumn[];
+  format: ExportFormat;
+  fileName: string; // 含扩展名
+  contentType: string;
+}
+
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly jobs = new Map<string, ExportJob>();
+  // 后台导出依次执行，避免多个大表导出同时占用数据库连接
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(DataSession)
+    private readonly sessionRepository: Repository<DataSession>,
+    private readonly dataAnalysisService: DataAnalysisService,
+  ) {}
+
+  /**
+   * 校验导出参数并打开数据游标，会话或字段不存在时在输出任何内容前抛出异常
+   */
+  async prepareExport(dto: ExportDataDto): Promise<PreparedExport> {
+    const session = await this.sessionRepository.findOne({
+      where: { id: dto.sessionId },
+    });
+    if (!session) {
+      throw new NotFoundException(`会话 ${dto.sessionId} 不存在`);
+    }
+
+    const cursor = await this.dataAnalysisService.openRowCursor(
+      dto.sessionId,
+      {
+        filters: dto.filters,
+        sorts: dto.sorts,
+        fields: dto.fields,
+        sources: dto.sources,
+      },
+      EXPORT_BATCH_SIZE,
+    );
+
+    const format = EXPORT_FORMATS[dto.format];
+    const baseName = this.sanitizeFileName(dto.fileName || session.name) || `export_${dto.sessionId.slice(0, 8)}`;
+
+    return {
+      cursor,
+      columns: this.buildColumns(cursor.fields),
+      format: dto.format,
+      fileName: `${baseName}_${this.timestamp(new Date())}.${format.extension}`,
+      contentType: format.contentType,
+    };
+  }
+
+  /**
+   * 逐批读取全部数据写入输出流，返回导出的行数
+   */
+  async writeExport(
+    prepared: PreparedExport,
+    output: Writable,
+    onProgress?: (exportedRows: number) => void,
+  ): Promise<number> {
+    const writer = createExportWriter(prepared.format, output, prepared.columns);
+    await writer.begin();
+
+    let exportedRows = 0;
+    for (;;) {
+      const rows = await prepared.cursor.next();
+      if (rows.length === 0) {
+        break;
+      }
+      await writer.writeRows(rows);
+      exportedRows += rows.length;
+      onProgress?.(exportedRows);
+    }
+
+    await writer.end();
+    return exportedRows;
+  }
+
+  /**
+   * 创建后台导出任务，文件生成后通过下载接口获取
+   */
+  async createJob(dto: ExportDataDto, userId: string): Promise<ExportJob> {
+    await this.cleanupExpiredJobs();
+    const prepared = await this.prepareExport(dto);
+
+    const job: ExportJob = {
+      id: randomUUID(),
+      userId,
+      sessionId: dto.sessionId,
+      format: dto.format,
+      fileName: prepared.fileName,
+      status: 'pending',
+      totalRows: prepared.cursor.total,
+      exportedRows: 0,
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+
+    this.queue = this.queue.then(() => this.runJob(job, prepared));
+    return job;
+  }
+
+  /**
+   * 获取导出任务，只能查看自己创建的任务
+   */
+  async getJob(jobId: string, userId: string): Promise<ExportJob> {
+    await this.cleanupExpiredJobs();
+    const job = this.jobs.get(jobId);
+    if (!job || job.userId !== userId) {
+      throw new NotFoundException(`导出任务 ${jobId} 不存在或已过期`);
+    }
+    return job;
+  }
+
+  /**
+   * 获取已完成任务的文件信息
+   */
+  async getJobFile(
+    jobId: string,
+    userId: string,
+  ): Promise<{ filePath: string; fileName: string; contentType: string }> {
+    const job = await this.getJob(jobId, userId);
+    if (job.status !== 'completed') {
+      throw new BadRequestException(`导出任务尚未完成，当前状态: ${job.status}`);
+    }
+
+    return {
+      filePath: this.jobFilePath(job),
+      fileName: job.fileName,
+      contentType: EXPORT_FORMATS[job.format].contentType,
+    };
+  }
+
+  private async runJob(job: ExportJob, prepared: PreparedExport): Promise<void> {
+    const filePath = this.jobFilePath(job);
+    job.status = 'running';
+
+    let output: Writable | null = null;
+    try {
+      await fs.mkdir(this.exportDir(), { recursive: true });
+      output = createWriteStream(filePath);
+      const exportedRows = await this.writeExport(prepared, output, rows => {
+        job.exportedRows = rows;
+      });
+      const stat = await fs.stat(filePath);
+
+      job.status = 'completed';
+      job.exportedRows = exportedRows;
+      job.fileSize = stat.size;
+      job.completedAt = new Date();
+      job.expiresAt = new Date(job.completedAt.getTime() + EXPORT_JOB_TTL_MS);
+      this.logger.log(`导出任务 ${job.id} 完成: ${exportedRows} 行，${stat.size} 字节`);
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error.message;
+      job.completedAt = new Date();
+      job.expiresAt = new Date(job.completedAt.getTime() + EXPORT_JOB_TTL_MS);
+      this.logger.error(`导出任务 ${job.id} 失败: ${error.message}`, error.stack);
+      output?.destroy();
+      await fs.rm(filePath, { force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * 清理已过期的任务及其文件
+   */
+  private async cleanupExpiredJobs(): Promise<void> {
+    const now = Date.now();
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.expiresAt && job.expiresAt.getTime() <= now) {
+        this.jobs.delete(job.id);
+        await fs.rm(this.jobFilePath(job), { force: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 以字段标注的显示名作为列名，显示名重复时附加字段名区分
+   */
+  private buildColumns(fields: RowCursor['fields']): ExportColumn[] {
+    const used = new Set<string>();
+    return fields.map(field => {
+      let header = field.label || field.name;
+      if (used.has(header)) {
+        header = `${header} (${field.name})`;
+      }
+      for (let suffix = 2; used.has(header); suffix++) {
+        header = `${field.label || field.name} (${field.name}) ${suffix}`;
+      }
+      used.add(header);
+      return { name: field.name, header, type: field.type };
+    });
+  }
+
+  private sanitizeFileName(name?: string): string {
+    return (name || '').replace(/[\\/:*?"<>|\u0000-\u001F]/g, '_').trim().slice(0, 100);
+  }
+
+  private timestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return (
+      `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+      `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+    );
+  }
+
+  private exportDir(): string {
+    return process.env.EXPORT_DIR || join(tmpdir(), 'data-exports');
+  }
+
+  private jobFilePath(job: ExportJob): string {
+    return join(this.exportDir(), `${job.id}.${EXPORT_FORMATS[job.format].extension}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { IsString, IsOptional, IsArray, IsIn, IsNotEmpty, MaxLength } from 'class-validator';
+import { FilterCondition, SortCondition } from '../../data-analysis/data-analysis.service';
+import { ExportFormat, EXPORT_FORMATS } from '../writers';
+
+export class ExportDataDto {
+  @IsString()
+  @IsNotEmpty()
+  sessionId: string;
+
+  @IsIn(Object.keys(EXPORT_FORMATS))
+  format: ExportFormat;
+
+  @IsOptional()
+  @IsArray()
+  filters?: FilterCondition[];
+
+  @IsOptional()
+  @IsArray()
+  sorts?: SortCondition[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  fields?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sources?: string[];
+
+  // 下载文件名（不含扩展名），默认使用会话名称
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  fileName?: string;
+}
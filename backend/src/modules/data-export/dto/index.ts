@@ -0,0 +1 @@
+export { ExportDataDto } from './export.dto';
@@ -0,0 +1,30 @@
+import { ExportWriter, formatText, normalizeValue } from './export-writer';
+
+/**
+ * CSV 写入器，带 UTF-8 BOM 以便 Excel 正确识别中文
+ */
+export class CsvExportWriter extends ExportWriter {
+  async begin(): Promise<void> {
+    await this.write('\uFEFF' + this.columns.map(column => this.escape(column.header)).join(',') + '\r\n');
+  }
+
+  async writeRows(rows: Record<string, any>[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const lines = rows.map(row =>
+      this.columns
+        .map(column => {
+          const value = normalizeValue(row[column.name], column.type);
+          return value === null ? '' : this.escape(formatText(value));
+        })
+        .join(','),
+    );
+    await this.write(lines.join('\r\n') + '\r\n');
+  }
+
+  private escape(text: string): string {
+    return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,145 @@
+import { Writable } from 'stream';
+
+export interface ExportColumn {
+  name: string; // 查询结果中的字段名
+  header: string; // 导出的列名，使用字段标注的显示名
+  type: string;
+}
+
+/**
+ * 导出写入器基类
+ * 写入时遵循输出流的背压，调用方逐批写入行后调用 end 结束输出
+ */
+export abstract class ExportWriter {
+  private outputError: Error | null = null;
+
+  constructor(
+    protected readonly output: Writable,
+    protected readonly columns: ExportColumn[],
+  ) {
+    // 提前监听错误，避免输出流出错时因无人处理而导致进程退出
+    this.output.on('error', error => {
+      this.outputError = error;
+    });
+  }
+
+  /**
+   * 写入文件头（列名等）
+   */
+  async begin(): Promise<void> {}
+
+  /**
+   * 写入一批数据行
+   */
+  abstract writeRows(rows: Record<string, any>[]): Promise<void>;
+
+  /**
+   * 写入文件尾并关闭输出流
+   */
+  async end(): Promise<void> {
+    await this.finish();
+    await new Promise<void>((resolve, reject) => {
+      if (this.outputError) {
+        reject(this.outputError);
+        return;
+      }
+      this.output.once('error', reject);
+      this.output.end(() => resolve());
+    });
+  }
+
+  /**
+   * 写入文件尾，由子类按格式实现
+   */
+  protected async finish(): Promise<void> {}
+
+  protected write(chunk: Buffer | string): Promise<void> {
+    if (this.outputError) {
+      return Promise.reject(this.outputError);
+    }
+    if (this.output.destroyed) {
+      return Promise.reject(new Error('输出流已关闭'));
+    }
+    if (this.output.write(chunk)) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        this.output.off('drain', onDrain);
+        this.output.off('error', onError);
+        this.output.off('close', onClose);
+      };
+      const onDrain = () => {
+        cleanup();
+        resolve();
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('输出流已关闭'));
+      };
+      this.output.on('drain', onDrain);
+      this.output.on('error', onError);
+      this.output.on('close', onClose);
+    });
+  }
+}
+
+/**
+ * 按字段类型规整查询返回的值：数值字符串转为数字，0/1 转为布尔值，日期字符串转为日期
+ * 超出安全整数范围的整数保留字符串，避免精度丢失
+ */
+export function normalizeValue(value: any, type: string): any {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'number':
+      if (typeof value === 'string' && value.trim() !== '') {
+        const number = Number(value);
+        if (!Number.isFinite(number)) {
+          return value;
+        }
+        return type === 'integer' && !Number.isSafeInteger(number) ? value : number;
+      }
+      return value;
+    case 'boolean':
+      if (value === 1 || value === '1') {
+        return true;
+      }
+      if (value === 0 || value === '0') {
+        return false;
+      }
+      return value;
+    case 'date':
+      if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? value : date;
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * 将值转为文本，日期使用 ISO 格式，对象序列化为 JSON
+ */
+export function formatText(value: any): string {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf8');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
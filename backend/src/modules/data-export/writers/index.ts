@@ -0,0 +1,28 @@
+import { Writable } from 'stream';
+import { ExportColumn, ExportWriter } from './export-writer';
+import { CsvExportWriter } from './csv-export.writer';
+import { NdjsonExportWriter } from './ndjson-export.writer';
+import { XlsxExportWriter } from './xlsx-export.writer';
+import { ParquetExportWriter } from './parquet-export.writer';
+
+export { ExportColumn, ExportWriter } from './export-writer';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson' | 'parquet';
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { extension: string; contentType: string; writer: new (output: Writable, columns: ExportColumn[]) => ExportWriter }
+> = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8', writer: CsvExportWriter },
+  xlsx: {
+    extension: 'xlsx',
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    writer: XlsxExportWriter,
+  },
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8', writer: NdjsonExportWriter },
+  parquet: { extension: 'parquet', contentType: 'application/vnd.apache.parquet', writer: ParquetExportWriter },
+};
+
+export function createExportWriter(format: ExportFormat, output: Writable, columns: ExportColumn[]): ExportWriter {
+  return new EXPORT_FORMATS[format].writer(output, columns);
+}
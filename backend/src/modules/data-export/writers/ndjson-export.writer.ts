@@ -0,0 +1,29 @@
+import { ExportWriter, normalizeValue } from './export-writer';
+
+/**
+ * NDJSON 写入器，每行一个以显示名为键的 JSON 对象
+ */
+export class NdjsonExportWriter extends ExportWriter {
+  async writeRows(rows: Record<string, any>[]): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const lines = rows.map(row => {
+      const record: Record<string, any> = {};
+      this.columns.forEach(column => {
+        record[column.header] = this.toJsonValue(normalizeValue(row[column.name], column.type));
+      });
+      return JSON.stringify(record);
+    });
+    await this.write(lines.join('\n') + '\n');
+  }
+
+  private toJsonValue(value: any): any {
+    if (Buffer.isBuffer(value)) {
+      return value.toString('utf8');
+    }
+    // JSON 列可能以字符串形式返回，保持原样输出
+    return value;
+  }
+}
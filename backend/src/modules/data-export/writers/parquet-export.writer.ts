@@ -0,0 +1,372 @@
+import { ExportColumn, ExportWriter, formatText, normalizeValue } from './export-writer';
+
+const PARQUET_MAGIC = Buffer.from('PAR1', 'ascii');
+// 每个行组缓存的行数，行组内每列写成一个数据页
+const ROW_GROUP_SIZE = 10000;
+
+// Parquet 物理类型
+const PARQUET_TYPE = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 };
+// 逻辑类型（ConvertedType）
+const CONVERTED_TYPE = { UTF8: 0, TIMESTAMP_MILLIS: 9 };
+const REPETITION_OPTIONAL = 1;
+const ENCODING = { PLAIN: 0, RLE: 3 };
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+// Thrift 紧凑协议的字段类型
+const THRIFT_TYPE = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 };
+
+type ParquetColumnKind = 'boolean' | 'int64' | 'double' | 'timestamp' | 'string';
+
+interface ColumnChunkInfo {
+  path: string;
+  type: number;
+  numValues: number;
+  size: number;
+  dataPageOffset: number;
+}
+
+interface RowGroupInfo {
+  columns: ColumnChunkInfo[];
+  numRows: number;
+  totalByteSize: number;
+}
+
+interface ThriftValue {
+  type: number;
+  bytes: Buffer;
+}
+
+/**
+ * Parquet 写入器
+ * 所有列均为可空列，按行组缓存后以 PLAIN 编码、不压缩写出，文件尾写入 Thrift 紧凑协议编码的元数据
+ */
+export class ParquetExportWriter extends ExportWriter {
+  private readonly kinds: ParquetColumnKind[];
+  private buffered: any[][];
+  private bufferedRows = 0;
+  private readonly rowGroups: RowGroupInfo[] = [];
+  private offset = 0;
+
+  constructor(...args: ConstructorParameters<typeof ExportWriter>) {
+    super(...args);
+    this.kinds = this.columns.map(column => this.columnKind(column));
+    this.buffered = this.columns.map(() => []);
+  }
+
+  async begin(): Promise<void> {
+    await this.emit(PARQUET_MAGIC);
+  }
+
+  async writeRows(rows: Record<string, any>[]): Promise<void> {
+    for (const row of rows) {
+      this.columns.forEach((column, index) => {
+        this.buffered[index].push(this.convert(normalizeValue(row[column.name], column.type), this.kinds[index]));
+      });
+      this.bufferedRows++;
+
+      if (this.bufferedRows >= ROW_GROUP_SIZE) {
+        await this.flushRowGroup();
+      }
+    }
+  }
+
+  protected async finish(): Promise<void> {
+    await this.flushRowGroup();
+
+    const numRows = this.rowGroups.reduce((sum, group) => sum + group.numRows, 0);
+    const schema = [
+      thrift.struct([
+        [4, thrift.string('schema')],
+        [5, thrift.i32(this.columns.length)],
+      ]),
+      ...this.columns.map((column, index) => {
+        const kind = this.kinds[index];
+        const convertedType =
+          kind === 'string' ? CONVERTED_TYPE.UTF8 : kind === 'timestamp' ? CONVERTED_TYPE.TIMESTAMP_MILLIS : undefined;
+        return thrift.struct([
+          [1, thrift.i32(this.physicalType(kind))],
+          [3, thrift.i32(REPETITION_OPTIONAL)],
+          [4, thrift.string(column.header)],
+          [6, convertedType === undefined ? undefined : thrift.i32(convertedType)],
+        ]);
+      }),
+    ];
+
+    const rowGroups = this.rowGroups.map(group =>
+      thrift.struct([
+        [
+          1,
+          thrift.list(
+            THRIFT_TYPE.STRUCT,
+            group.columns.map(chunk =>
+              thrift.struct([
+                [2, thrift.i64(chunk.dataPageOffset)],
+                [
+                  3,
+                  thrift.struct([
+                    [1, thrift.i32(chunk.type)],
+                    [2, thrift.list(THRIFT_TYPE.I32, [thrift.i32(ENCODING.PLAIN), thrift.i32(ENCODING.RLE)])],
+                    [3, thrift.list(THRIFT_TYPE.BINARY, [thrift.string(chunk.path)])],
+                    [4, thrift.i32(CODEC_UNCOMPRESSED)],
+                    [5, thrift.i64(chunk.numValues)],
+                    [6, thrift.i64(chunk.size)],
+                    [7, thrift.i64(chunk.size)],
+                    [9, thrift.i64(chunk.dataPageOffset)],
+                  ]),
+                ],
+              ]),
+            ),
+          ),
+        ],
+        [2, thrift.i64(group.totalByteSize)],
+        [3, thrift.i64(group.numRows)],
+      ]),
+    );
+
+    const metadata = thrift.struct([
+      [1, thrift.i32(1)],
+      [2, thrift.list(THRIFT_TYPE.STRUCT, schema)],
+      [3, thrift.i64(numRows)],
+      [4, thrift.list(THRIFT_TYPE.STRUCT, rowGroups)],
+      [6, thrift.string('data-fetch-analysis')],
+    ]).bytes;
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(metadata.length, 0);
+    await this.emit(Buffer.concat([metadata, length, PARQUET_MAGIC]));
+  }
+
+  private async flushRowGroup(): Promise<void> {
+    if (this.bufferedRows === 0) {
+      return;
+    }
+
+    const columns: ColumnChunkInfo[] = [];
+    for (let index = 0; index < this.columns.length; index++) {
+      const page = this.encodeDataPage(this.buffered[index], this.kinds[index]);
+      columns.push({
+        path: this.columns[index].header,
+        type: this.physicalType(this.kinds[index]),
+        numValues: this.bufferedRows,
+        size: page.length,
+        dataPageOffset: this.offset,
+      });
+      await this.emit(page);
+    }
+
+    this.rowGroups.push({
+      columns,
+      numRows: this.bufferedRows,
+      totalByteSize: columns.reduce((sum, chunk) => sum + chunk.size, 0),
+    });
+    this.buffered = this.columns.map(() => []);
+    this.bufferedRows = 0;
+  }
+
+  /**
+   * 编码单个数据页（v1）：页头 + 定义级别 + 非空值
+   */
+  private encodeDataPage(values: any[], kind: ParquetColumnKind): Buffer {
+    const definitionLevels = this.encodeDefinitionLevels(values);
+    const body = Buffer.concat([definitionLevels, this.encodePlainValues(values.filter(value => value !== null), kind)]);
+
+    const header = thrift.struct([
+      [1, thrift.i32(PAGE_TYPE_DATA)],
+      [2, thrift.i32(body.length)],
+      [3, thrift.i32(body.length)],
+      [
+        5,
+        thrift.struct([
+          [1, thrift.i32(values.length)],
+          [2, thrift.i32(ENCODING.PLAIN)],
+          [3, thrift.i32(ENCODING.RLE)],
+          [4, thrift.i32(ENCODING.RLE)],
+        ]),
+      ],
+    ]).bytes;
+
+    return Buffer.concat([header, body]);
+  }
+
+  /**
+   * 以 RLE 编码定义级别（非空为 1，空为 0），前置 4 字节长度
+   */
+  private encodeDefinitionLevels(values: any[]): Buffer {
+    const parts: Buffer[] = [];
+    let index = 0;
+    while (index < values.length) {
+      const level = values[index] === null ? 0 : 1;
+      let runLength = 1;
+      while (index + runLength < values.length && (values[index + runLength] === null ? 0 : 1) === level) {
+        runLength++;
+      }
+      parts.push(varint(runLength << 1), Buffer.from([level]));
+      index += runLength;
+    }
+
+    const encoded = Buffer.concat(parts);
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(encoded.length, 0);
+    return Buffer.concat([length, encoded]);
+  }
+
+  private encodePlainValues(values: any[], kind: ParquetColumnKind): Buffer {
+    switch (kind) {
+      case 'boolean': {
+        const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+        values.forEach((value, index) => {
+          if (value) {
+            buffer[index >> 3] |= 1 << (index & 7);
+          }
+        });
+        return buffer;
+      }
+      case 'int64':
+      case 'timestamp': {
+        const buffer = Buffer.alloc(values.length * 8);
+        values.forEach((value, index) => buffer.writeBigInt64LE(value, index * 8));
+        return buffer;
+      }
+      case 'double': {
+        const buffer = Buffer.alloc(values.length * 8);
+        values.forEach((value, index) => buffer.writeDoubleLE(value, index * 8));
+        return buffer;
+      }
+      default:
+        return Buffer.concat(
+          values.flatMap(value => {
+            const bytes = Buffer.from(value, 'utf8');
+            const length = Buffer.alloc(4);
+            length.writeUInt32LE(bytes.length, 0);
+            return [length, bytes];
+          }),
+        );
+    }
+  }
+
+  /**
+   * 将值转为列类型对应的表示，无法转换时写为空值
+   */
+  private convert(value: any, kind: ParquetColumnKind): any {
+    if (value === null) {
+      return null;
+    }
+
+    switch (kind) {
+      case 'boolean':
+        return typeof value === 'boolean' ? value : null;
+      case 'int64':
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          return BigInt(Math.trunc(value));
+        }
+        if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+          const number = BigInt(value.trim());
+          return number >= -(2n ** 63n) && number < 2n ** 63n ? number : null;
+        }
+        return null;
+      case 'double': {
+        const number = typeof value === 'number' ? value : Number(value);
+        return typeof value !== 'boolean' && Number.isFinite(number) ? number : null;
+      }
+      case 'timestamp':
+        return value instanceof Date && !Number.isNaN(value.getTime()) ? BigInt(value.getTime()) : null;
+      default:
+        return formatText(value);
+    }
+  }
+
+  private columnKind(column: ExportColumn): ParquetColumnKind {
+    switch (column.type) {
+      case 'integer':
+        return 'int64';
+      case 'number':
+        return 'double';
+      case 'boolean':
+        return 'boolean';
+      case 'date':
+        return 'timestamp';
+      default:
+        return 'string';
+    }
+  }
+
+  private physicalType(kind: ParquetColumnKind): number {
+    switch (kind) {
+      case 'boolean':
+        return PARQUET_TYPE.BOOLEAN;
+      case 'int64':
+      case 'timestamp':
+        return PARQUET_TYPE.INT64;
+      case 'double':
+        return PARQUET_TYPE.DOUBLE;
+      default:
+        return PARQUET_TYPE.BYTE_ARRAY;
+    }
+  }
+
+  private async emit(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await this.write(chunk);
+  }
+}
+
+/**
+ * Thrift 紧凑协议编码，仅包含元数据用到的类型
+ */
+const thrift = {
+  i32(value: number): ThriftValue {
+    return { type: THRIFT_TYPE.I32, bytes: varint(((value << 1) ^ (value >> 31)) >>> 0) };
+  },
+  i64(value: number | bigint): ThriftValue {
+    const number = BigInt(value);
+    return { type: THRIFT_TYPE.I64, bytes: varint((number << 1n) ^ (number >> 63n)) };
+  },
+  string(value: string): ThriftValue {
+    const bytes = Buffer.from(value, 'utf8');
+    return { type: THRIFT_TYPE.BINARY, bytes: Buffer.concat([varint(bytes.length), bytes]) };
+  },
+  list(elementType: number, items: ThriftValue[]): ThriftValue {
+    const header =
+      items.length < 15
+        ? Buffer.from([(items.length << 4) | elementType])
+        : Buffer.concat([Buffer.from([0xf0 | elementType]), varint(items.length)]);
+    return { type: THRIFT_TYPE.LIST, bytes: Buffer.concat([header, ...items.map(item => item.bytes)]) };
+  },
+  struct(fields: Array<[number, ThriftValue | undefined]>): ThriftValue {
+    const parts: Buffer[] = [];
+    let lastId = 0;
+    fields.forEach(([id, value]) => {
+      if (!value) {
+        return;
+      }
+      const delta = id - lastId;
+      parts.push(
+        delta > 0 && delta <= 15
+          ? Buffer.from([(delta << 4) | value.type])
+          : Buffer.concat([Buffer.from([value.type]), varint(((id << 1) ^ (id >> 15)) & 0xffff)]),
+        value.bytes,
+      );
+      lastId = id;
+    });
+    parts.push(Buffer.from([0]));
+    return { type: THRIFT_TYPE.STRUCT, bytes: Buffer.concat(parts) };
+  },
+};
+
+/**
+ * 无符号变长整数编码（ULEB128）
+ */
+function varint(value: number | bigint): Buffer {
+  let remaining = BigInt(value);
+  const bytes: number[] = [];
+  do {
+    let byte = Number(remaining & 0x7fn);
+    remaining >>= 7n;
+    if (remaining > 0n) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > 0n);
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,205 @@
+import { ExportWriter, formatText, normalizeValue } from './export-writer';
+import { ZipStream } from './zip-stream';
+
+// 单个工作表最多 1048576 行，扣除表头后超出部分写入新的工作表
+const MAX_SHEET_DATA_ROWS = 1048575;
+// 单元格文本最长 32767 个字符
+const MAX_CELL_TEXT_LENGTH = 32767;
+// Excel 日期序列号以 1899-12-30 为 0
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const SHEET_NAME = '数据';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// 样式 0 为常规，1 为日期时间，2 为加粗的表头
+const STYLES_XML =
+  XML_HEADER +
+  `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * XLSX 写入器
+ * 工作表内容使用内联字符串边查询边压缩输出，工作簿、关系和样式等在结束时写入
+ */
+export class XlsxExportWriter extends ExportWriter {
+  private readonly zip = new ZipStream(chunk => this.write(chunk));
+  private readonly columnLetters: string[];
+  private sheetCount = 0;
+  private sheetRows = 0; // 当前工作表已写入的数据行数
+
+  constructor(...args: ConstructorParameters<typeof ExportWriter>) {
+    super(...args);
+    this.columnLetters = this.columns.map((_, index) => this.columnLetter(index));
+  }
+
+  async begin(): Promise<void> {
+    await this.startSheet();
+  }
+
+  async writeRows(rows: Record<string, any>[]): Promise<void> {
+    let index = 0;
+    while (index < rows.length) {
+      if (this.sheetRows >= MAX_SHEET_DATA_ROWS) {
+        await this.endSheet();
+        await this.startSheet();
+      }
+
+      const count = Math.min(rows.length - index, MAX_SHEET_DATA_ROWS - this.sheetRows);
+      const xml = rows
+        .slice(index, index + count)
+        .map((row, offset) => this.rowXml(row, this.sheetRows + offset + 2))
+        .join('');
+      await this.zip.writeEntry(xml);
+
+      this.sheetRows += count;
+      index += count;
+    }
+  }
+
+  protected async finish(): Promise<void> {
+    await this.endSheet();
+
+    const sheetIndexes = Array.from({ length: this.sheetCount }, (_, index) => index + 1);
+
+    await this.zip.addEntry(
+      '[Content_Types].xml',
+      XML_HEADER +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheetIndexes
+          .map(
+            index =>
+              `<Override PartName="/xl/worksheets/sheet${index}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join('') +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    );
+    await this.zip.addEntry(
+      '_rels/.rels',
+      XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    );
+    await this.zip.addEntry(
+      'xl/workbook.xml',
+      XML_HEADER +
+        `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>` +
+        sheetIndexes
+          .map(index => `<sheet name="${this.sheetName(index)}" sheetId="${index}" r:id="rId${index}"/>`)
+          .join('') +
+        '</sheets></workbook>',
+    );
+    await this.zip.addEntry(
+      'xl/_rels/workbook.xml.rels',
+      XML_HEADER +
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        sheetIndexes
+          .map(
+            index =>
+              `<Relationship Id="rId${index}" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet${index}.xml"/>`,
+          )
+          .join('') +
+        `<Relationship Id="rId${this.sheetCount + 1}" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    );
+    await this.zip.addEntry('xl/styles.xml', STYLES_XML);
+    await this.zip.finish();
+  }
+
+  private async startSheet(): Promise<void> {
+    this.sheetCount++;
+    this.sheetRows = 0;
+    await this.zip.startEntry(`xl/worksheets/sheet${this.sheetCount}.xml`);
+
+    const headerCells = this.columns
+      .map((column, index) => this.textCell(`${this.columnLetters[index]}1`, column.header, 2))
+      .join('');
+    await this.zip.writeEntry(
+      XML_HEADER +
+        `<worksheet xmlns="${SPREADSHEET_NS}">` +
+        // 冻结表头行
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData><row r="1">${headerCells}</row>`,
+    );
+  }
+
+  private async endSheet(): Promise<void> {
+    await this.zip.writeEntry('</sheetData></worksheet>');
+    await this.zip.endEntry();
+  }
+
+  private rowXml(row: Record<string, any>, rowNumber: number): string {
+    const cells = this.columns
+      .map((column, index) => this.cellXml(`${this.columnLetters[index]}${rowNumber}`, normalizeValue(row[column.name], column.type)))
+      .join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  }
+
+  private cellXml(reference: string, value: any): string {
+    if (value === null) {
+      return '';
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${reference}"><v>${value}</v></c>`;
+    }
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+    }
+    if (value instanceof Date && !Number.isNaN(value.getTime())) {
+      const serial = value.getTime() / 86400000 + EXCEL_EPOCH_OFFSET_DAYS;
+      return `<c r="${reference}" s="1"><v>${serial}</v></c>`;
+    }
+    return this.textCell(reference, formatText(value));
+  }
+
+  private textCell(reference: string, text: string, style?: number): string {
+    const content = this.escapeXml(text.slice(0, MAX_CELL_TEXT_LENGTH));
+    const styleAttribute = style ? ` s="${style}"` : '';
+    return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${content}</t></is></c>`;
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      // 去掉 XML 中不允许出现的控制字符
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  private sheetName(index: number): string {
+    return index === 1 ? SHEET_NAME : `${SHEET_NAME}${index}`;
+  }
+
+  /**
+   * 将从 0 开始的列序号转为列字母（如 27 -> AB）
+   */
+  private columnLetter(index: number): string {
+    let letters = '';
+    let value = index + 1;
+    while (value > 0) {
+      const remainder = (value - 1) % 26;
+      letters = String.fromCharCode(65 + remainder) + letters;
+      value = Math.floor((value - 1) / 26);
+    }
+    return letters;
+  }
+}
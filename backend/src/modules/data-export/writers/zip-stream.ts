@@ -0,0 +1,171 @@
+import { constants, deflateRawSync } from 'zlib';
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+// 标志位：3 表示大小和校验和写在数据之后的数据描述符中，11 表示文件名使用 UTF-8
+const GENERAL_PURPOSE_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const MAX_ZIP32_SIZE = 0xffffffff;
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+/**
+ * 流式写入 zip 压缩包（deflate 压缩，不支持 zip64）
+ * 每个文件的内容分段压缩：分段以同步刷新结束，文件结束时补一个空的结束块，因此无需缓存整个文件
+ */
+export class ZipStream {
+  private readonly entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+  private offset = 0;
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+
+  constructor(private readonly write: (chunk: Buffer) => Promise<void>) {
+    const now = new Date();
+    this.dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+    this.dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  /**
+   * 写入完整的小文件
+   */
+  async addEntry(name: string, content: string | Buffer): Promise<void> {
+    await this.startEntry(name);
+    await this.writeEntry(content);
+    await this.endEntry();
+  }
+
+  async startEntry(name: string): Promise<void> {
+    if (this.current) {
+      throw new Error(`压缩包中的文件 ${this.current.name.toString('utf8')} 尚未结束`);
+    }
+
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.dosTime, 10);
+    header.writeUInt16LE(this.dosDate, 12);
+    // 校验和与大小（14-25）留空，由数据描述符给出
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    this.current = entry;
+    await this.emit(Buffer.concat([header, entry.name]));
+  }
+
+  async writeEntry(content: string | Buffer): Promise<void> {
+    const entry = this.requireCurrent();
+    const data = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    if (data.length === 0) {
+      return;
+    }
+
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    const compressed = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+    entry.compressedSize += compressed.length;
+    await this.emit(compressed);
+  }
+
+  async endEntry(): Promise<void> {
+    const entry = this.requireCurrent();
+    const finalBlock = deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += finalBlock.length;
+    if (entry.size > MAX_ZIP32_SIZE || entry.compressedSize > MAX_ZIP32_SIZE) {
+      throw new Error('导出文件超过 4GB，请缩小导出范围');
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    this.entries.push(entry);
+    this.current = null;
+    await this.emit(Buffer.concat([finalBlock, descriptor]));
+  }
+
+  /**
+   * 写入中央目录，结束压缩包
+   */
+  async finish(): Promise<void> {
+    if (this.current) {
+      await this.endEntry();
+    }
+
+    const directoryOffset = this.offset;
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(ZIP_VERSION, 4);
+      record.writeUInt16LE(ZIP_VERSION, 6);
+      record.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt16LE(this.dosTime, 12);
+      record.writeUInt16LE(this.dosDate, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+
+    if (directoryOffset + directory.length > MAX_ZIP32_SIZE) {
+      throw new Error('导出文件超过 4GB，请缩小导出范围');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+
+    await this.emit(Buffer.concat([directory, end]));
+  }
+
+  private requireCurrent(): ZipEntry {
+    if (!this.current) {
+      throw new Error('压缩包中没有正在写入的文件');
+    }
+    return this.current;
+  }
+
+  private async emit(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await this.write(chunk);
+  }
+}
+
+/**
+ * 增量计算 CRC-32，previous 为之前数据的校验和
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -2,22 +2,47 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
   Query,
+  Request,
   Param,
   HttpCode,
   HttpStatus,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
   SetMetadata,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { DataFetchService } from './data-fetch.service';
-import { SmokeTestDto, ParseCurlDto, CreateFetchConfigDto, ExecuteFetchDto } from './dto';
+import { ProgressMonitorService } from './progress-monitor.service';
+import {
+  SmokeTestDto,
+  ParseCurlDto,
+  CreateFetchConfigDto,
+  ExecuteFetchDto,
+  ImportFileDto,
+  UploadedDataFile,
+  SqlPreviewDto,
+  TransformPreviewDto,
+} from './dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionAccessGuard, SessionRole } from '../data-session/session-access.guard';
+import { SessionAccessService } from '../data-session/session-access.service';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
+
+// 上传文件大小上限
+const MAX_UPLOAD_FILE_SIZE = 50 * 1024 * 1024;
 
 @Controller('data-fetch')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, SessionAccessGuard)
 export class DataFetchController {
-  constructor(private readonly dataFetchService: DataFetchService) {}
+  constructor(
+    private readonly dataFetchService: DataFetchService,
+    private readonly progressMonitorService: ProgressMonitorService,
+    private readonly sessionAccessService: SessionAccessService,
+  ) {}
 
   /**
    * 执行冒烟测试
@@ -25,8 +50,8 @@ export class DataFetchController {
    */
   @Post('smoke-test')
   @HttpCode(HttpStatus.OK)
-  async executeSmokeTest(@Body() smokeTestDto: SmokeTestDto) {
-    const result = await this.dataFetchService.executeSmokeTest(smokeTestDto);
+  async executeSmokeTest(@Request() req, @Body() smokeTestDto: SmokeTestDto) {
+    const result = await this.dataFetchService.executeSmokeTest(smokeTestDto, req.user.id);
     
     return {
       success: result.success,
@@ -35,12 +60,65 @@ export class DataFetchController {
         dataStructure: result.dataStructure,
         responseTime: result.responseTime,
         message: result.message,
+        nextPageToken: result.nextPageToken,
+        suggestedCursorPaths: result.suggestedCursorPaths,
       } : null,
       error: result.error,
       message: result.success ? '冒烟测试成功' : '冒烟测试失败',
     };
   }
 
+  /**
+   * 预览请求模板渲染结果
+   */
+  @Post('template-preview')
+  @HttpCode(HttpStatus.OK)
+  previewRequestTemplate(@Body() smokeTestDto: SmokeTestDto) {
+    const preview = this.dataFetchService.previewRequestTemplate(smokeTestDto);
+
+    return {
+      success: true,
+      data: preview,
+    };
+  }
+
+  /**
+   * 预览转换步骤
+   * 对样本数据执行转换步骤，返回转换后的记录
+   */
+  @Post('transform-preview')
+  @HttpCode(HttpStatus.OK)
+  previewTransform(@Body() transformPreviewDto: TransformPreviewDto) {
+    const preview = this.dataFetchService.previewTransform(transformPreviewDto);
+
+    return {
+      success: true,
+      data: preview,
+    };
+  }
+
+  /**
+   * 预览SQL查询
+   * 验证数据库连接和查询，返回前几行样本数据，不存储任何数据
+   */
+  @Post('sql-preview')
+  @HttpCode(HttpStatus.OK)
+  async previewSqlSource(@Request() req, @Body() sqlPreviewDto: SqlPreviewDto) {
+    const result = await this.dataFetchService.previewSqlSource(sqlPreviewDto, req.user.id);
+
+    return {
+      success: result.success,
+      data: result.success ? {
+        sampleData: result.data,
+        dataStructure: result.dataStructure,
+        responseTime: result.responseTime,
+        message: result.message,
+      } : null,
+      error: result.error,
+      message: result.success ? 'SQL查询预览成功' : 'SQL查询预览失败',
+    };
+  }
+
   /**
    * 解析curl命令
    */
@@ -63,10 +141,11 @@ export class DataFetchController {
   @Post('test-connection')
   @HttpCode(HttpStatus.OK)
   async testApiConnection(
+    @Request() req,
     @Body() body: { apiUrl: string; headers?: Record<string, string> }
   ) {
     const { apiUrl, headers } = body;
-    const result = await this.dataFetchService.testApiConnection(apiUrl, headers);
+    const result = await this.dataFetchService.testApiConnection(apiUrl, headers, req.user.id);
     
     return {
       success: result.success,
@@ -82,8 +161,9 @@ export class DataFetchController {
    * 创建拉取配置
    */
   @Post('configure')
-  async createFetchConfig(@Body() createFetchConfigDto: CreateFetchConfigDto) {
-    const config = await this.dataFetchService.createFetchConfig(createFetchConfigDto);
+  @SessionRole(WorkspaceRole.EDITOR)
+  async createFetchConfig(@Request() req, @Body() createFetchConfigDto: CreateFetchConfigDto) {
+    const config = await this.dataFetchService.createFetchConfig(createFetchConfigDto, req.user.id);
     
     return {
       success: true,
@@ -96,8 +176,11 @@ export class DataFetchController {
    * 获取拉取配置
    */
   @Get('config/:sessionId')
-  async getFetchConfig(@Param('sessionId') sessionId: string) {
-    const config = await this.dataFetchService.getFetchConfig(sessionId);
+  async getFetchConfig(
+    @Param('sessionId') sessionId: string,
+    @Query('source') source?: string,
+  ) {
+    const config = await this.dataFetchService.getFetchConfig(sessionId, source || undefined);
     
     return {
       success: true,
@@ -105,31 +188,133 @@ export class DataFetchController {
     };
   }
 
+  /**
+   * 获取会话的全部数据源
+   */
+  @Get('sources/:sessionId')
+  async getFetchSources(@Param('sessionId') sessionId: string) {
+    const sources = await this.dataFetchService.getFetchSources(sessionId);
+
+    return {
+      success: true,
+      data: sources,
+    };
+  }
+
+  /**
+   * 删除附加数据源及其数据
+   */
+  @Delete('sources/:sessionId/:sourceName')
+  @SessionRole(WorkspaceRole.EDITOR)
+  async deleteFetchSource(
+    @Param('sessionId') sessionId: string,
+    @Param('sourceName') sourceName: string,
+  ) {
+    await this.dataFetchService.deleteFetchSource(sessionId, sourceName);
+
+    return {
+      success: true,
+      message: `数据源 ${sourceName} 已删除`,
+    };
+  }
+
   /**
    * 执行正式数据拉取
    */
   @Post('execute')
+  @SessionRole(WorkspaceRole.EDITOR)
   @SetMetadata('timeout', 0)
   async executeFetch(@Body() executeFetchDto: ExecuteFetchDto) {
-    const result = await this.dataFetchService.executeFetch(executeFetchDto);
+    const result = await this.dataFetchService.runExclusive(executeFetchDto.sessionId, () =>
+      this.dataFetchService.executeFetch(executeFetchDto),
+    );
     
     return {
       success: result.success,
       data: {
         sessionId: result.sessionId,
+        runId: result.runId,
         totalRecords: result.totalRecords,
         pagesProcessed: result.pagesProcessed,
+        schemaChanges: result.schemaChanges,
+      },
+      message: result.message,
+    };
+  }
+
+  /**
+   * 上传 CSV、Excel 或 JSON 文件导入数据
+   */
+  @Post('upload')
+  @SessionRole(WorkspaceRole.EDITOR)
+  @SetMetadata('timeout', 0)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_FILE_SIZE } }))
+  async importFile(
+    @Request() req,
+    @UploadedFile() file: UploadedDataFile,
+    @Body() importFileDto: ImportFileDto,
+  ) {
+    // multipart 请求体在守卫执行后才解析，这里单独校验会话权限
+    await this.sessionAccessService.assertSessionAccess(importFileDto.sessionId, req.user.id, WorkspaceRole.EDITOR);
+
+    const result = await this.dataFetchService.runExclusive(importFileDto.sessionId, () =>
+      this.dataFetchService.importFile(file, importFileDto),
+    );
+
+    return {
+      success: result.success,
+      data: {
+        sessionId: result.sessionId,
+        runId: result.runId,
+        totalRecords: result.totalRecords,
+        recordsImported: result.recordsImported,
+        schemaChanges: result.schemaChanges,
       },
       message: result.message,
     };
   }
 
+  /**
+   * 获取拉取运行记录
+   */
+  @Get('runs/:sessionId')
+  async getFetchRuns(
+    @Param('sessionId') sessionId: string,
+    @Query('limit') limit: number = 20,
+  ) {
+    const runs = await this.dataFetchService.getFetchRuns(sessionId, Number(limit) || 20);
+
+    return {
+      success: true,
+      data: runs,
+    };
+  }
+
+  /**
+   * 获取单次运行详情（包含每页请求/响应摘要）
+   */
+  @Get('runs/:sessionId/:runId')
+  async getFetchRunDetail(
+    @Param('sessionId') sessionId: string,
+    @Param('runId') runId: string,
+  ) {
+    const run = await this.dataFetchService.getFetchRunDetail(sessionId, runId);
+
+    return {
+      success: true,
+      data: run,
+    };
+  }
+
   /**
    * 获取拉取状态
    */
   @Get('status/:sessionId')
-  async getFetchStatus(@Param('sessionId') sessionId: string) {
-    const status = await this.dataFetchService.getFetchStatus(sessionId);
+  async getFetchStatus(
+    @Param('sessionId') sessionId: string,
+    @Query('source') source?: string,
+  ) {
+    const status = await this.dataFetchService.getFetchStatus(sessionId, source || undefined);
     
     return {
       success: true,
@@ -137,6 +322,19 @@ export class DataFetchController {
     };
   }
 
+  /**
+   * 获取实时拉取进度
+   */
+  @Get('progress/:sessionId')
+  getFetchProgress(@Param('sessionId') sessionId: string) {
+    const progress = this.progressMonitorService.getProgress(sessionId);
+
+    return {
+      success: true,
+      data: progress,
+    };
+  }
+
   /**
    * 获取已拉取的数据
    */
@@ -145,8 +343,9 @@ export class DataFetchController {
     @Param('sessionId') sessionId: string,
     @Query('page') page: number = 1,
     @Query('pageSize') pageSize: number = 20,
+    @Query('source') source?: string,
   ) {
-    const result = await this.dataFetchService.getFetchedData(sessionId, page, pageSize);
+    const result = await this.dataFetchService.getFetchedData(sessionId, page, pageSize, source || undefined);
     
     return {
       success: true,
@@ -158,8 +357,11 @@ export class DataFetchController {
    * 获取数据统计信息
    */
   @Get('stats/:sessionId')
-  async getDataStats(@Param('sessionId') sessionId: string) {
-    const stats = await this.dataFetchService.getDataStats(sessionId);
+  async getDataStats(
+    @Param('sessionId') sessionId: string,
+    @Query('source') source?: string,
+  ) {
+    const stats = await this.dataFetchService.getDataStats(sessionId, source || undefined);
     
     return {
       success: true,
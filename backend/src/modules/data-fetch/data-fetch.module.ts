@@ -6,21 +6,32 @@ import { DataFetchService } from './data-fetch.service';
 import { DataFetchExecutorService } from './data-fetch-executor.service';
 import { ProgressMonitorService } from './progress-monitor.service';
 import { ProgressGateway } from './progress.gateway';
+import { SqlSourceService } from './sql-source.service';
 import { FetchConfig } from '../../entities/fetch-config.entity';
 import { DataSession } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { FetchRun } from '../../entities/fetch-run.entity';
+import { FetchRunPage } from '../../entities/fetch-run-page.entity';
 import { HttpClientModule } from '../../common/http-client';
-import { CurlParserService, SchemaAnalysisService } from '../../common/utils';
+import {
+  CurlParserService,
+  SchemaAnalysisService,
+  RequestTemplateService,
+  FileParserService,
+  TransformPipelineService,
+} from '../../common/utils';
 import { DynamicTableService } from '../../common/database-utils';
 import { DataSessionModule } from '../data-session/data-session.module';
 import { AuthModule } from '../auth/auth.module';
+import { SecretModule } from '../secret/secret.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FetchConfig, DataSession, DataTableSchema]),
+    TypeOrmModule.forFeature([FetchConfig, DataSession, DataTableSchema, FetchRun, FetchRunPage]),
     HttpClientModule,
     DataSessionModule,
     AuthModule,
+    SecretModule,
     EventEmitterModule.forRoot(),
   ],
   controllers: [DataFetchController],
@@ -31,6 +42,10 @@ import { AuthModule } from '../auth/auth.module';
     ProgressGateway,
     CurlParserService,
     SchemaAnalysisService,
+    RequestTemplateService,
+    FileParserService,
+    SqlSourceService,
+    TransformPipelineService,
     DynamicTableService,
   ],
   exports: [DataFetchService, DataFetchExecutorService, ProgressMonitorService],
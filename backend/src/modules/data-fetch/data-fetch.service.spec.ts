@@ -1,18 +1,33 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
+import { createHmac } from 'crypto';
 import { DataFetchService } from './data-fetch.service';
-import { HttpClientService } from '../../common/http-client';
-import { CurlParserService } from '../../common/utils';
-import { FetchConfig } from '../../entities/fetch-config.entity';
+import { ProgressMonitorService } from './progress-monitor.service';
+import { SecretService } from '../secret/secret.service';
+import { SqlSourceService } from './sql-source.service';
+import { HttpClientService, AuthType } from '../../common/http-client';
+import {
+  CurlParserService,
+  RequestTemplateService,
+  FileParserService,
+  TransformPipelineService,
+} from '../../common/utils';
+import { FetchConfig, SourceType } from '../../entities/fetch-config.entity';
 import { DataSession } from '../../entities/data-session.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { FetchRun } from '../../entities/fetch-run.entity';
+import { FetchRunPage } from '../../entities/fetch-run-page.entity';
 import { SmokeTestDto, HttpMethod } from './dto';
+import { DynamicTableUtil } from '../../common/database-utils';
+import { FetchRunStatus, FetchRunTrigger } from '../../entities/fetch-run.entity';
 
 describe('DataFetchService', () => {
   let service: DataFetchService;
   let httpClientService: HttpClientService;
   let curlParserService: CurlParserService;
+  let sqlSourceService: SqlSourceService;
 
   const mockHttpClientService = {
     get: jest.fn(),
@@ -28,15 +43,30 @@ describe('DataFetchService', () => {
 
   const mockRepository = {
     findOne: jest.fn(),
+    find: jest.fn(),
     save: jest.fn(),
     create: jest.fn(),
+    remove: jest.fn(),
   };
 
   const mockDataSource = {
-    createQueryRunner: jest.fn(),
     query: jest.fn(),
   };
 
+  const mockProgressMonitorService = {
+    initializeProgress: jest.fn(),
+    updateProgress: jest.fn(),
+    recordPageTiming: jest.fn(),
+    markCompleted: jest.fn(),
+    markError: jest.fn(),
+    getProgress: jest.fn(),
+    isSessionActive: jest.fn(),
+  };
+
+  const mockSecretService = {
+    resolveSecrets: jest.fn((_userId, value) => Promise.resolve(value)),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -61,16 +91,37 @@ describe('DataFetchService', () => {
           provide: getRepositoryToken(DataTableSchema),
           useValue: mockRepository,
         },
+        {
+          provide: getRepositoryToken(FetchRun),
+          useValue: mockRepository,
+        },
+        {
+          provide: getRepositoryToken(FetchRunPage),
+          useValue: mockRepository,
+        },
         {
           provide: DataSource,
           useValue: mockDataSource,
         },
+        {
+          provide: ProgressMonitorService,
+          useValue: mockProgressMonitorService,
+        },
+        {
+          provide: SecretService,
+          useValue: mockSecretService,
+        },
+        RequestTemplateService,
+        FileParserService,
+        SqlSourceService,
+        TransformPipelineService,
       ],
     }).compile();
 
     service = module.get<DataFetchService>(DataFetchService);
     httpClientService = module.get<HttpClientService>(HttpClientService);
     curlParserService = module.get<CurlParserService>(CurlParserService);
+    sqlSourceService = module.get<SqlSourceService>(SqlSourceService);
   });
 
   afterEach(() => {
@@ -107,6 +158,39 @@ describe('DataFetchService', () => {
       expect(result.responseTime).toBeGreaterThan(0);
     });
 
+    it('应该渲染请求中的模板变量', async () => {
+      const smokeTestDto: SmokeTestDto = {
+        apiUrl: 'https://api.example.com/{{var.version}}/orders',
+        method: HttpMethod.POST,
+        headers: { 'X-Page': 'page-{{page}}' },
+        data: { page: '{{page}}', since: '{{var.since}}' },
+        variables: { version: 'v1', since: '2024-01-01' },
+      };
+      mockHttpClientService.request.mockResolvedValueOnce({ status: 200, data: [{ id: 1 }] });
+
+      const result = await service.executeSmokeTest(smokeTestDto);
+
+      expect(result.success).toBe(true);
+      expect(mockHttpClientService.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://api.example.com/v1/orders',
+          headers: { 'X-Page': 'page-1' },
+          data: expect.objectContaining({ page: 1, since: '2024-01-01' }),
+        }),
+      );
+    });
+
+    it('模板变量未定义时应该返回失败', async () => {
+      const result = await service.executeSmokeTest({
+        apiUrl: 'https://api.example.com/users',
+        queryParams: { tenant: '{{var.tenant}}' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('会话变量 tenant 未定义');
+      expect(mockHttpClientService.request).not.toHaveBeenCalled();
+    });
+
     it('应该处理API错误', async () => {
       const smokeTestDto: SmokeTestDto = {
         apiUrl: 'https://api.example.com/users',
@@ -324,6 +408,1065 @@ describe('DataFetchService', () => {
     });
   });
 
+  describe('runExclusive', () => {
+    it('同一会话已有拉取在执行时应该拒绝，结束后释放', async () => {
+      let finish: () => void;
+      const running = service.runExclusive('session-1', () => new Promise<void>((resolve) => (finish = resolve)));
+
+      await expect(service.runExclusive('session-1', async () => 'second')).rejects.toThrow(ConflictException);
+      await expect(service.runExclusive('session-2', async () => 'other')).resolves.toBe('other');
+
+      finish();
+      await running;
+      await expect(service.runExclusive('session-1', async () => 'again')).resolves.toBe('again');
+    });
+
+    it('任务失败时也应该释放会话锁', async () => {
+      await expect(service.runExclusive('session-1', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+      await expect(service.runExclusive('session-1', async () => 'ok')).resolves.toBe('ok');
+    });
+  });
+
+  describe('executeFetch', () => {
+    const existingTableSchema = {
+      sessionId: 'session-1',
+      tableName: 'data_session_1',
+      fieldDefinitions: {
+        id: { type: 'DOUBLE', nullable: false },
+        updated_at: { type: 'TEXT', nullable: true },
+      },
+      schemaVersion: 1,
+    };
+
+    beforeEach(() => {
+      mockSecretService.resolveSecrets.mockImplementation((_userId, value) => Promise.resolve(value));
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('应该记录运行结果及每页日志', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: false,
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request.mockResolvedValue({
+        status: 200,
+        data: { data: [{ id: 1 }, { id: 2 }] },
+      });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 1 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' }, FetchRunTrigger.SCHEDULE);
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          runId: 'run-1',
+          pageNumber: 1,
+          responseStatus: 200,
+          recordsReceived: 2,
+          recordsInserted: 1,
+          duplicatesSkipped: 1,
+        }),
+      );
+      expect(mockRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          trigger: FetchRunTrigger.SCHEDULE,
+          status: FetchRunStatus.SUCCESS,
+          recordsInserted: 1,
+          duplicatesSkipped: 1,
+          totalRecords: 2,
+        }),
+      );
+    });
+
+    it('应该在写入前执行转换步骤，翻页仍按接口返回的原始条数判断', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          pageField: 'page',
+          pageSize: 2,
+          rateLimit: { requestsPerSecond: 100 },
+          transformSteps: [
+            { type: 'filter', expression: "status != 'deleted'" },
+            { type: 'rename', field: 'uid', to: 'id' },
+            { type: 'drop', fields: ['status'] },
+          ],
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: [
+            { uid: 1, status: 'ok' },
+            { uid: 2, status: 'deleted' },
+          ],
+        })
+        .mockResolvedValueOnce({ status: 200, data: [{ uid: 3, status: 'ok' }] });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      const insertSpy = jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.pagesProcessed).toBe(2);
+      expect(insertSpy).toHaveBeenNthCalledWith(1, mockDataSource, 'data_session_1', [{ id: 1 }], 'session-1', 1);
+      expect(insertSpy).toHaveBeenNthCalledWith(2, mockDataSource, 'data_session_1', [{ id: 3 }], 'session-1', 2);
+    });
+
+    it('增量模式下整页均为重复数据时应该停止翻页', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          pageField: 'page',
+          pageSize: 2,
+          incrementalMode: true,
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request.mockResolvedValue({
+        status: 200,
+        data: [{ id: 1 }, { id: 2 }],
+      });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 0, duplicateCount: 2 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.pagesProcessed).toBe(1);
+      expect(mockHttpClientService.request).toHaveBeenCalledTimes(1);
+    });
+
+    it('增量模式下水位字段低于历史最大值时应该停止翻页', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          pageField: 'page',
+          pageSize: 2,
+          incrementalMode: true,
+          watermarkField: 'updated_at',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: [
+            { id: 4, updated_at: '2024-01-04T00:00:00Z' },
+            { id: 3, updated_at: '2024-01-03T00:00:00Z' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: [
+            { id: 2, updated_at: '2024-01-02T00:00:00Z' },
+            { id: 1, updated_at: '2024-01-01T00:00:00Z' },
+          ],
+        });
+      mockDataSource.query.mockImplementation((sql: string) =>
+        Promise.resolve(
+          sql.includes('MAX(')
+            ? [{ maxValue: new Date('2024-01-02T00:00:00Z') }]
+            : [{ count: 4 }],
+        ),
+      );
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 2, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.pagesProcessed).toBe(2);
+      expect(mockHttpClientService.request).toHaveBeenCalledTimes(2);
+    });
+
+    it('游标分页应该将响应中的游标写入下一次请求', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users?limit=2',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          paginationType: 'cursor',
+          cursorPath: '$.meta.next_cursor',
+          cursorParam: 'after',
+          cursorLocation: 'query',
+          dataPath: 'data',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { data: [{ id: 1 }], meta: { next_cursor: 'abc' } },
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { data: [{ id: 2 }], meta: { next_cursor: null } },
+        });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.pagesProcessed).toBe(2);
+      expect(mockHttpClientService.request).toHaveBeenCalledTimes(2);
+      expect(mockHttpClientService.request.mock.calls[1][0].params).toEqual({
+        limit: '2',
+        after: 'abc',
+      });
+    });
+
+    it('下一页链接分页应该请求响应中返回的URL', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          paginationType: 'next_url',
+          cursorPath: 'links.next',
+          dataPath: 'items',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { items: [{ id: 1 }], links: { next: '/users?page_token=t2' } },
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: { items: [{ id: 2 }], links: {} },
+        });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.pagesProcessed).toBe(2);
+      expect(mockHttpClientService.request.mock.calls[1][0]).toEqual(
+        expect.objectContaining({
+          url: 'https://api.example.com/users',
+          params: { page_token: 't2' },
+        }),
+      );
+    });
+
+    it('GraphQL数据源应该按Relay pageInfo翻页并将游标写入variables', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          sourceType: SourceType.GRAPHQL,
+          apiUrl: 'https://api.example.com/graphql',
+          method: HttpMethod.POST,
+          graphqlQuery: 'query Users($first: Int, $after: String) { users(first: $first, after: $after) { edges { node { id } } pageInfo { endCursor hasNextPage } } }',
+          graphqlVariables: { first: 1 },
+          enablePagination: true,
+          paginationType: 'relay',
+          cursorPath: 'data.users.pageInfo',
+          dataPath: 'data.users.edges',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            data: {
+              users: {
+                edges: [{ cursor: 'c1', node: { id: 1 } }],
+                pageInfo: { endCursor: 'c1', hasNextPage: true },
+              },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          status: 200,
+          data: {
+            data: {
+              users: {
+                edges: [{ cursor: 'c2', node: { id: 2 } }],
+                pageInfo: { endCursor: 'c2', hasNextPage: false },
+              },
+            },
+          },
+        });
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      const insertSpy = jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.pagesProcessed).toBe(2);
+      expect(mockHttpClientService.request).toHaveBeenCalledTimes(2);
+      expect(mockHttpClientService.request.mock.calls[0][0].data).toEqual({
+        query: expect.stringContaining('users(first: $first, after: $after)'),
+        variables: { first: 1 },
+      });
+      expect(mockHttpClientService.request.mock.calls[1][0].data.variables).toEqual({
+        first: 1,
+        after: 'c1',
+      });
+      expect(insertSpy).toHaveBeenCalledWith(mockDataSource, 'data_session_1', [{ id: 1 }], 'session-1', 1);
+    });
+
+    it('GraphQL响应只有errors时应该标记运行失败', async () => {
+      mockRepository.findOne.mockResolvedValueOnce({
+        sessionId: 'session-1',
+        sourceType: SourceType.GRAPHQL,
+        apiUrl: 'https://api.example.com/graphql',
+        method: HttpMethod.POST,
+        graphqlQuery: '{ users { id } }',
+        enablePagination: false,
+      });
+      mockHttpClientService.request.mockResolvedValueOnce({
+        status: 200,
+        data: { data: null, errors: [{ message: 'Not authorized' }] },
+      });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('GraphQL 请求失败: Not authorized');
+    });
+
+    it('配置了总数字段时应该预先计算总页数并并发拉取剩余页面', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          pageField: 'page',
+          totalField: 'meta.total',
+          pageSize: 2,
+          dataPath: 'data',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request.mockImplementation(({ params }) =>
+        Promise.resolve({
+          status: 200,
+          data: {
+            data: params.page === 4 ? [{ id: 7 }] : [{ id: 1 }, { id: 2 }],
+            meta: { total: 7 },
+          },
+        }),
+      );
+      mockDataSource.query.mockResolvedValue([{ count: 7 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 2, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.pagesProcessed).toBe(4);
+      expect(mockHttpClientService.request).toHaveBeenCalledTimes(4);
+      const requestedPages = mockHttpClientService.request.mock.calls
+        .map(([options]) => options.params.page)
+        .sort();
+      expect(requestedPages).toEqual([1, 2, 3, 4]);
+      expect(mockProgressMonitorService.updateProgress).toHaveBeenCalledWith(
+        'session-1',
+        expect.objectContaining({ status: 'fetching', currentPage: 1, totalPages: 4 }),
+      );
+      expect(mockProgressMonitorService.markCompleted).toHaveBeenCalledWith('session-1', 7, 4);
+    });
+
+    it('并发拉取中任一页面失败时应该标记运行失败', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: true,
+          pageField: 'page',
+          totalField: 'total',
+          pageSize: 1,
+          dataPath: 'data',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request.mockImplementation(({ params }) =>
+        params.page === 2
+          ? Promise.reject(new Error('Bad Gateway'))
+          : Promise.resolve({ status: 200, data: { data: [{ id: params.page }], total: 3 } }),
+      );
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(false);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ pageNumber: 2, errorMessage: 'Bad Gateway' }),
+      );
+      expect(mockProgressMonitorService.markError).toHaveBeenCalledWith('session-1', 'Bad Gateway');
+    });
+
+    it('应该在发送请求时解析密钥引用，分页日志只保留引用', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          queryParams: { api_key: '{{secret:crm_key}}' },
+          enablePagination: false,
+          configuredBy: 'editor-1',
+          session: { userId: 'owner-1' },
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockSecretService.resolveSecrets.mockImplementation((_userId, value) =>
+        Promise.resolve(JSON.parse(JSON.stringify(value).replace('{{secret:crm_key}}', 'real-key'))),
+      );
+      mockHttpClientService.request.mockResolvedValue({ status: 200, data: [{ id: 1 }] });
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(mockSecretService.resolveSecrets).toHaveBeenCalledWith('editor-1', expect.anything());
+      expect(mockSecretService.resolveSecrets).not.toHaveBeenCalledWith('owner-1', expect.anything());
+      expect(mockHttpClientService.request.mock.calls[0][0].params).toEqual({ api_key: 'real-key' });
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pageNumber: 1,
+          requestParams: { api_key: '{{secret:crm_key}}' },
+        }),
+      );
+    });
+
+    it('应该按保存者的密钥计算签名，分页日志中环境变量和签名保留模板原文', async () => {
+      process.env.FETCH_APP_KEY = 'app-key-1';
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          queryParams: {
+            app_key: '{{env.FETCH_APP_KEY}}',
+            sign: '{{hmac_sha256(secret:app_secret, env.FETCH_APP_KEY, page)}}',
+          },
+          enablePagination: false,
+          configuredBy: 'editor-1',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockSecretService.resolveSecrets.mockImplementation((_userId, value) =>
+        Promise.resolve(JSON.parse(JSON.stringify(value).replace('{{secret:app_secret}}', 's3cr3t'))),
+      );
+      mockHttpClientService.request.mockResolvedValue({ status: 200, data: [{ id: 1 }] });
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      try {
+        await service.executeFetch({ sessionId: 'session-1' });
+      } finally {
+        delete process.env.FETCH_APP_KEY;
+      }
+
+      expect(mockSecretService.resolveSecrets).toHaveBeenCalledWith('editor-1', {
+        app_secret: '{{secret:app_secret}}',
+      });
+      expect(mockHttpClientService.request.mock.calls[0][0].params).toEqual({
+        app_key: 'app-key-1',
+        sign: createHmac('sha256', 's3cr3t').update('app-key-11').digest('hex'),
+      });
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pageNumber: 1,
+          requestParams: {
+            app_key: '{{env.FETCH_APP_KEY}}',
+            sign: '{{hmac_sha256(secret:app_secret, env.FETCH_APP_KEY, page)}}',
+          },
+        }),
+      );
+    });
+
+    it('保存配置时应该记录保存者，拉取时按其密钥解析', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({ id: 'session-1', userId: 'owner-1' })
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          sourceName: 'main',
+          apiUrl: 'https://api.example.com/users',
+          headers: { Authorization: '{{secret:crm_token}}' },
+          configuredBy: 'owner-1',
+        });
+      mockRepository.find.mockResolvedValueOnce([]);
+      mockRepository.save.mockImplementation((entity) => Promise.resolve(entity));
+
+      const config = await service.createFetchConfig(
+        { sessionId: 'session-1', apiUrl: 'https://attacker.example.com/collect' },
+        'editor-1',
+      );
+
+      expect(config.configuredBy).toBe('editor-1');
+    });
+
+    it('应该将认证配置中的密钥引用解析后传给HTTP客户端', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          auth: {
+            type: AuthType.OAUTH2_CLIENT_CREDENTIALS,
+            tokenUrl: 'https://auth.example.com/token',
+            clientId: 'client-1',
+            clientSecret: '{{secret:crm_client_secret}}',
+          },
+          enablePagination: false,
+          configuredBy: 'user-1',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockSecretService.resolveSecrets.mockImplementation((_userId, value) =>
+        Promise.resolve(JSON.parse(JSON.stringify(value).replace('{{secret:crm_client_secret}}', 'real-secret'))),
+      );
+      mockHttpClientService.request.mockResolvedValue({ status: 200, data: [{ id: 1 }] });
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(mockHttpClientService.request.mock.calls[0][0].auth).toEqual(
+        expect.objectContaining({ clientId: 'client-1', clientSecret: 'real-secret' }),
+      );
+    });
+
+    it('应该在每次请求时按页渲染模板变量', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/{{var.version}}/users',
+          method: HttpMethod.GET,
+          headers: { 'X-Tenant': '{{var.tenant}}' },
+          queryParams: { offset: '{{offset}}', date: '{{today}}' },
+          variables: { version: 'v2', tenant: 'acme' },
+          enablePagination: true,
+          pageField: 'page',
+          totalField: 'total',
+          pageSize: 2,
+          dataPath: 'data',
+        })
+        .mockResolvedValueOnce({ ...existingTableSchema });
+      mockHttpClientService.request.mockResolvedValue({
+        status: 200,
+        data: { data: [{ id: 1 }, { id: 2 }], total: 4 },
+      });
+      mockDataSource.query.mockResolvedValue([{ count: 4 }]);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 2, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      const requests = mockHttpClientService.request.mock.calls
+        .map(([options]) => options)
+        .sort((a, b) => a.params.page - b.params.page);
+      expect(requests.map((options) => options.params.offset)).toEqual([0, 2]);
+      expect(requests[0].url).toBe('https://api.example.com/v2/users');
+      expect(requests[0].headers).toEqual({ 'X-Tenant': 'acme' });
+      expect(requests[0].params.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pageNumber: 2,
+          requestParams: expect.objectContaining({ offset: 2 }),
+        }),
+      );
+    });
+
+    it('请求失败时应该记录错误信息', async () => {
+      mockRepository.findOne.mockResolvedValueOnce({
+        sessionId: 'session-1',
+        apiUrl: 'https://api.example.com/users',
+        method: HttpMethod.GET,
+        enablePagination: false,
+      });
+      mockHttpClientService.request.mockRejectedValue(new Error('Network Error'));
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(false);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pageNumber: 1,
+          errorMessage: 'Network Error',
+        }),
+      );
+      expect(mockRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          trigger: FetchRunTrigger.MANUAL,
+          status: FetchRunStatus.FAILED,
+          errorMessage: 'Network Error',
+        }),
+      );
+    });
+
+    it('写入失败时已执行的结构变更应该保留在表结构版本中', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: false,
+        })
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          tableName: 'data_session_1',
+          fieldDefinitions: { id: { type: 'DOUBLE', nullable: false } },
+          schemaVersion: 1,
+        });
+      mockHttpClientService.request.mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ id: 1, email: 'a@example.com' }] },
+      });
+      jest.spyOn(DynamicTableUtil, 'applySchemaChanges').mockResolvedValue(undefined);
+      jest.spyOn(DynamicTableUtil, 'insertDataBatch').mockRejectedValue(new Error('Lock wait timeout'));
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(false);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tableName: 'data_session_1',
+          schemaVersion: 2,
+          fieldDefinitions: expect.objectContaining({ email: { type: 'TEXT', nullable: true } }),
+        }),
+      );
+    });
+
+    it('数据出现新字段时应该扩展表结构并记录结构变更', async () => {
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          method: HttpMethod.GET,
+          enablePagination: false,
+        })
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          tableName: 'data_session_1',
+          fieldDefinitions: { id: { type: 'DOUBLE', nullable: false } },
+          schemaVersion: 1,
+        });
+      mockHttpClientService.request.mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ id: 1, email: 'a@example.com' }] },
+      });
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      const applySpy = jest
+        .spyOn(DynamicTableUtil, 'applySchemaChanges')
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      const expectedChanges = [{ field: 'email', action: 'add_column', toType: 'TEXT' }];
+      expect(result.success).toBe(true);
+      expect(result.schemaChanges).toEqual(expectedChanges);
+      expect(result.message).toContain('新增字段 email');
+      expect(applySpy).toHaveBeenCalledWith(mockDataSource, 'data_session_1', expectedChanges);
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          schemaVersion: 2,
+          fieldDefinitions: expect.objectContaining({ email: { type: 'TEXT', nullable: true } }),
+          schemaHistory: [expect.objectContaining({ version: 2, runId: 'run-1', changes: expectedChanges })],
+        }),
+      );
+      expect(mockRepository.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: FetchRunStatus.SUCCESS,
+          schemaChanges: expectedChanges,
+        }),
+      );
+    });
+  });
+
+  describe('多数据源', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('拉取附加数据源时应该写入独立的动态表', async () => {
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          sourceName: 'orders',
+          apiUrl: 'https://api.example.com/orders',
+          method: HttpMethod.GET,
+          enablePagination: false,
+        })
+        .mockResolvedValueOnce(null);
+      mockHttpClientService.request.mockResolvedValueOnce({
+        status: 200,
+        data: { data: [{ id: 1, user_id: 7 }] },
+      });
+      mockDataSource.query.mockResolvedValue([{ count: 1 }]);
+      const createTableSpy = jest
+        .spyOn(DynamicTableUtil, 'createDynamicTable')
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1', sourceName: 'orders' });
+
+      expect(result.success).toBe(true);
+      expect(mockRepository.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sessionId: 'session-1', sourceName: 'orders' } }),
+      );
+      expect(createTableSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1__orders',
+        expect.any(Object),
+        'session-1',
+      );
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceName: 'orders', tableName: 'data_session_1__orders' }),
+      );
+    });
+
+    it('应该列出数据源并标记是否已拉取', async () => {
+      mockRepository.find
+        .mockResolvedValueOnce([
+          { sourceName: 'orders', apiUrl: 'https://api.example.com/orders', joinField: 'user_id', primaryJoinField: 'id' },
+          { sourceName: 'main', apiUrl: 'https://api.example.com/users' },
+        ])
+        .mockResolvedValueOnce([{ sourceName: 'main', tableName: 'data_session_1' }]);
+
+      const sources = await service.getFetchSources('session-1');
+
+      expect(sources.map(source => source.sourceName)).toEqual(['main', 'orders']);
+      expect(sources[0]).toEqual(expect.objectContaining({ tableName: 'data_session_1', hasData: true }));
+      expect(sources[1]).toEqual(
+        expect.objectContaining({ tableName: 'data_session_1__orders', joinField: 'user_id', hasData: false }),
+      );
+    });
+
+    it('不应该允许单独删除默认数据源', async () => {
+      await expect(service.deleteFetchSource('session-1', 'main')).rejects.toThrow(
+        '默认数据源不能单独删除',
+      );
+      expect(mockRepository.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('嵌套数组拆分', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('应该将嵌套数组写入子表并关联父表行ID', async () => {
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/orders',
+          method: HttpMethod.GET,
+          enablePagination: false,
+          explodeFields: [{ path: 'lines', name: 'order_lines' }],
+        })
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          sourceName: 'main',
+          tableName: 'data_session_1',
+          fieldDefinitions: { status: { type: 'TEXT', nullable: true } },
+          schemaVersion: 1,
+        })
+        .mockResolvedValueOnce(null);
+      mockHttpClientService.request.mockResolvedValueOnce({
+        status: 200,
+        data: [{ status: 'paid', lines: [{ sku: 'a', qty: 2 }, { sku: 'b', qty: 1 }] }],
+      });
+      const parentHash = DynamicTableUtil.generateDataHash({ status: 'paid' });
+      mockDataSource.query.mockImplementation((sql: string) =>
+        Promise.resolve(sql.includes('data_hash IN') ? [{ id: '10', data_hash: parentHash }] : [{ count: 1 }]),
+      );
+      const createTableSpy = jest
+        .spyOn(DynamicTableUtil, 'createDynamicTable')
+        .mockResolvedValue(undefined);
+      const insertSpy = jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(insertSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1',
+        [{ status: 'paid' }],
+        'session-1',
+        1,
+      );
+      expect(createTableSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1__order_lines',
+        expect.objectContaining({ sku: expect.any(Object), qty: expect.any(Object) }),
+        'session-1',
+        { childTable: true },
+      );
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceName: 'order_lines',
+          parentSourceName: 'main',
+          tableName: 'data_session_1__order_lines',
+        }),
+      );
+      expect(insertSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1__order_lines',
+        [{ sku: 'a', qty: 2 }, { sku: 'b', qty: 1 }],
+        'session-1',
+        1,
+        [
+          { parentRowId: 10, position: 0 },
+          { parentRowId: 10, position: 1 },
+        ],
+      );
+    });
+
+    it('子表名称与已有数据源重名时应该拒绝保存配置', async () => {
+      mockRepository.findOne.mockResolvedValueOnce({ id: 'session-1' });
+      mockRepository.find.mockResolvedValueOnce([
+        { sourceName: 'main' },
+        { sourceName: 'orders' },
+      ]);
+
+      await expect(
+        service.createFetchConfig({
+          sessionId: 'session-1',
+          apiUrl: 'https://api.example.com/users',
+          explodeFields: [{ path: 'orders', name: 'orders' }],
+        }),
+      ).rejects.toThrow('子表名称 orders 已被使用');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importFile', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('应该将上传的CSV文件写入动态表并记录运行', async () => {
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+      mockRepository.find.mockResolvedValueOnce([]);
+      mockRepository.findOne
+        .mockResolvedValueOnce({ id: 'session-1' })
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null);
+      mockDataSource.query.mockResolvedValue([{ count: 2 }]);
+      const createTableSpy = jest
+        .spyOn(DynamicTableUtil, 'createDynamicTable')
+        .mockResolvedValue(undefined);
+      const insertSpy = jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 2, duplicateCount: 0 });
+      const buffer = Buffer.from('name,amount\nalice,10\nbob,20\n');
+
+      const result = await service.importFile(
+        { originalname: 'orders.csv', mimetype: 'text/csv', size: buffer.length, buffer },
+        { sessionId: 'session-1' },
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.recordsImported).toBe(2);
+      expect(createTableSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1',
+        expect.objectContaining({ name: expect.any(Object), amount: expect.any(Object) }),
+        'session-1',
+      );
+      expect(insertSpy).toHaveBeenCalledWith(
+        mockDataSource,
+        'data_session_1',
+        [{ name: 'alice', amount: 10 }, { name: 'bob', amount: 20 }],
+        'session-1',
+        1,
+      );
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ sourceType: SourceType.FILE, fileName: 'orders.csv', fileFormat: 'csv' }),
+      );
+      expect(mockRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ trigger: FetchRunTrigger.UPLOAD, status: FetchRunStatus.SUCCESS }),
+      );
+    });
+
+    it('不支持的文件类型应该直接拒绝且不产生运行记录', async () => {
+      mockRepository.findOne.mockResolvedValueOnce({ id: 'session-1' }).mockResolvedValueOnce(null);
+      mockRepository.find.mockResolvedValueOnce([]);
+      const buffer = Buffer.from('binary');
+
+      await expect(
+        service.importFile(
+          { originalname: 'report.pdf', mimetype: 'application/pdf', size: buffer.length, buffer },
+          { sessionId: 'session-1' },
+        ),
+      ).rejects.toThrow('不支持的文件类型');
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('文件数据源不应该通过接口拉取', async () => {
+      mockRepository.findOne.mockResolvedValueOnce({
+        sessionId: 'session-1',
+        sourceName: 'main',
+        sourceType: SourceType.FILE,
+      });
+
+      await expect(service.executeFetch({ sessionId: 'session-1' })).rejects.toThrow(
+        '请重新上传文件以更新数据',
+      );
+    });
+  });
+
+  describe('SQL 数据源', () => {
+    const externalDataSource = { isInitialized: true, destroy: jest.fn() };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('应该按批次将查询结果写入动态表并在结束后断开连接', async () => {
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+      mockRepository.findOne
+        .mockResolvedValueOnce({
+          sessionId: 'session-1',
+          sourceName: 'main',
+          sourceType: SourceType.SQL,
+          sqlConnection: { type: 'postgres', host: 'db', database: 'shop', password: '{{secret:db}}' },
+          sqlQuery: 'SELECT id, total FROM orders WHERE created_at >= :since ORDER BY id',
+          sqlParams: { since: '{{var.since}}' },
+          variables: { since: '2024-01-01' },
+          configuredBy: 'user-1',
+        })
+        .mockResolvedValueOnce(null);
+      mockDataSource.query.mockResolvedValue([{ count: 3 }]);
+      const connectSpy = jest
+        .spyOn(sqlSourceService, 'connect')
+        .mockResolvedValue(externalDataSource as any);
+      jest.spyOn(sqlSourceService, 'countRows').mockResolvedValue(3);
+      jest
+        .spyOn(sqlSourceService, 'forEachBatch')
+        .mockImplementation(async (_dataSource, _query, _batchSize, handleBatch) => {
+          await handleBatch([{ id: 1, total: 10 }, { id: 2, total: 20 }], 0);
+          await handleBatch([{ id: 3, total: 30 }], 1);
+        });
+      jest.spyOn(DynamicTableUtil, 'createDynamicTable').mockResolvedValue(undefined);
+      const insertSpy = jest
+        .spyOn(DynamicTableUtil, 'insertDataBatch')
+        .mockResolvedValue({ insertedCount: 1, duplicateCount: 0 });
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.pagesProcessed).toBe(2);
+      expect(mockSecretService.resolveSecrets).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ password: '{{secret:db}}' }),
+      );
+      expect(sqlSourceService.forEachBatch).toHaveBeenCalledWith(
+        externalDataSource,
+        {
+          sql: 'SELECT id, total FROM orders WHERE created_at >= $1 ORDER BY id',
+          parameters: ['2024-01-01'],
+        },
+        expect.any(Number),
+        expect.any(Function),
+      );
+      expect(insertSpy).toHaveBeenCalledTimes(2);
+      expect(insertSpy).toHaveBeenLastCalledWith(
+        mockDataSource,
+        'data_session_1',
+        [{ id: 3, total: 30 }],
+        'session-1',
+        2,
+      );
+      expect(mockProgressMonitorService.updateProgress).toHaveBeenCalledWith(
+        'session-1',
+        expect.objectContaining({ currentPage: 2, totalPages: 1, fetchedRecords: 3 }),
+      );
+      expect(connectSpy).toHaveBeenCalledTimes(1);
+      expect(externalDataSource.destroy).toHaveBeenCalled();
+    });
+
+    it('非只读查询应该记录失败且不连接数据库', async () => {
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+      mockRepository.save.mockImplementation((entity) =>
+        Promise.resolve({ id: entity.id || 'run-1', ...entity }),
+      );
+      mockRepository.findOne.mockResolvedValueOnce({
+        sessionId: 'session-1',
+        sourceName: 'main',
+        sourceType: SourceType.SQL,
+        sqlConnection: { type: 'mysql', host: 'db', database: 'shop' },
+        sqlQuery: 'DELETE FROM orders',
+      });
+      const connectSpy = jest.spyOn(sqlSourceService, 'connect');
+
+      const result = await service.executeFetch({ sessionId: 'session-1' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('只支持 SELECT 查询');
+      expect(connectSpy).not.toHaveBeenCalled();
+      expect(mockProgressMonitorService.markError).toHaveBeenCalledWith(
+        'session-1',
+        '只支持 SELECT 查询',
+      );
+    });
+  });
+
   describe('getCurlExamples', () => {
     it('应该获取curl示例', () => {
       const mockExamples = [
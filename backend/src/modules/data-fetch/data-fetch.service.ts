@@ -2,22 +2,109 @@ import {
   Injectable,
   Logger,
   BadRequestException,
+  ConflictException,
   NotFoundException,
 } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { Repository, DataSource } from "typeorm";
-import { HttpClientService } from "../../common/http-client";
-import { CurlParserService } from "../../common/utils";
-import { DynamicTableUtil } from "../../common/database-utils";
-import { FetchConfig } from "../../entities/fetch-config.entity";
+import {
+  HttpClientService,
+  HttpRequestOptions,
+  HttpResponse,
+} from "../../common/http-client";
+import {
+  CurlParserService,
+  RequestTemplateService,
+  RequestTemplateContext,
+  FileParserService,
+  TransformPipelineService,
+  TransformPreviewResult,
+} from "../../common/utils";
+import {
+  DynamicTableUtil,
+  InsertBatchResult,
+  ExplodedChildRows,
+  ChildRowLink,
+} from "../../common/database-utils";
+import {
+  FetchConfig,
+  PaginationType,
+  CursorLocation,
+  DEFAULT_SOURCE_NAME,
+  ExplodeField,
+  SourceType,
+  SqlConnectionConfig,
+} from "../../entities/fetch-config.entity";
 import { DataSession } from "../../entities/data-session.entity";
-import { DataTableSchema } from "../../entities/data-table-schema.entity";
+import {
+  DataTableSchema,
+  SchemaChange,
+} from "../../entities/data-table-schema.entity";
+import {
+  FetchRun,
+  FetchRunStatus,
+  FetchRunTrigger,
+} from "../../entities/fetch-run.entity";
+import { FetchRunPage } from "../../entities/fetch-run-page.entity";
 import {
   SmokeTestDto,
   ParseCurlDto,
   CreateFetchConfigDto,
   ExecuteFetchDto,
+  ImportFileDto,
+  UploadedDataFile,
+  SqlPreviewDto,
+  TransformPreviewDto,
 } from "./dto";
+import { ProgressMonitorService } from "./progress-monitor.service";
+import { SecretService } from "../secret/secret.service";
+import { SqlSourceService, PreparedSqlQuery } from "./sql-source.service";
+
+// 已知总页数时并发拉取剩余页面的默认并发数，配置了限流策略时以其最大并发为准
+const MAX_CONCURRENT_PAGES = 4;
+
+// 导入上传文件时每批写入的记录数
+const IMPORT_BATCH_SIZE = 500;
+
+// SQL 数据源每批读取并写入的行数
+const SQL_BATCH_SIZE = 1000;
+
+// SQL 查询预览返回的样本行数
+const SQL_PREVIEW_LIMIT = 20;
+
+// 单次运行中动态表结构的演进状态，并发写入的各页通过 pending 排队修改表结构
+interface SchemaEvolutionState {
+  tableSchema: DataTableSchema;
+  changes: SchemaChange[];
+  pending: Promise<void>;
+  children: Map<string, Promise<SchemaEvolutionState>>; // 嵌套数组拆分出的子表，按子表名称缓存
+  fieldPrefix?: string; // 子表的结构变更在运行结果中以 `子表名.字段名` 展示
+}
+
+// 正式拉取第1页写入后，后续翻页共用的运行上下文，计数字段随各页累加
+interface PageFetchContext {
+  run: FetchRun;
+  config: FetchConfig;
+  sessionId: string;
+  baseUrl: string;
+  requestParams: Record<string, any>; // 第1页的查询参数，后续页在此基础上写入页码或游标
+  templateContext: RequestTemplateContext;
+  schemaState: SchemaEvolutionState;
+  runStats: { recordsInserted: number; duplicatesSkipped: number };
+  totalPages: number | null;
+  pagesProcessed: number;
+  fetchedRecords: number;
+  totalRecords: number; // 动态表中该会话的实际记录数（重复记录不计）
+}
+
+// 按页渲染后的请求，logged 为写入日志的脱敏副本，不随请求发送
+interface RenderedPageRequest {
+  url: string;
+  headers: Record<string, string>;
+  params: Record<string, any>;
+  data: any;
+  logged: { params: Record<string, any>; data: any };
+}
 
 export interface SmokeTestResponse {
   success: boolean;
@@ -34,6 +121,8 @@ export interface SmokeTestResponse {
     totalFields: number;
   };
   suggestedPageFields?: string[]; // 建议的分页字段
+  nextPageToken?: string | null; // 游标/下一页链接方式下读取到的下一页令牌
+  suggestedCursorPaths?: string[]; // 建议的游标路径
 }
 
 export interface ParseCurlResponse {
@@ -51,6 +140,8 @@ export interface ParseCurlResponse {
 @Injectable()
 export class DataFetchService {
   private readonly logger = new Logger(DataFetchService.name);
+  // 正在拉取或导入数据的会话，手动与定时拉取共用，避免同时写入同一张动态表
+  private readonly runningSessions = new Set<string>();
 
   constructor(
     private readonly httpClientService: HttpClientService,
@@ -61,7 +152,17 @@ export class DataFetchService {
     private readonly dataSessionRepository: Repository<DataSession>,
     @InjectRepository(DataTableSchema)
     private readonly dataTableSchemaRepository: Repository<DataTableSchema>,
-    private readonly dataSource: DataSource
+    @InjectRepository(FetchRun)
+    private readonly fetchRunRepository: Repository<FetchRun>,
+    @InjectRepository(FetchRunPage)
+    private readonly fetchRunPageRepository: Repository<FetchRunPage>,
+    private readonly dataSource: DataSource,
+    private readonly progressMonitorService: ProgressMonitorService,
+    private readonly secretService: SecretService,
+    private readonly requestTemplateService: RequestTemplateService,
+    private readonly fileParserService: FileParserService,
+    private readonly sqlSourceService: SqlSourceService,
+    private readonly transformPipelineService: TransformPipelineService
   ) {}
 
   /**
@@ -69,21 +170,37 @@ export class DataFetchService {
    * 不存储任何数据，仅用于验证API配置
    */
   async executeSmokeTest(
-    smokeTestDto: SmokeTestDto
+    smokeTestDto: SmokeTestDto,
+    userId?: string
   ): Promise<SmokeTestResponse> {
-    const {
-      apiUrl,
-      method = "GET",
-      headers = {},
-      queryParams = {},
-      data,
-      pageSize,
-    } = smokeTestDto;
+    const isGraphql = smokeTestDto.sourceType === SourceType.GRAPHQL;
+    const { pageSize } = smokeTestDto;
+    const method = isGraphql ? "POST" : smokeTestDto.method || "GET";
     const startTime = Date.now();
 
-    this.logger.log(`开始冒烟测试: ${method} ${apiUrl}`);
+    this.logger.log(`开始冒烟测试: ${method} ${smokeTestDto.apiUrl}`);
 
     try {
+      // 冒烟测试按第1页渲染模板变量
+      const templateContext: RequestTemplateContext = {
+        page: 1,
+        pageSize,
+        variables: smokeTestDto.variables,
+        secrets: await this.resolveTemplateSecrets(userId, smokeTestDto),
+      };
+      const apiUrl = this.requestTemplateService.renderUrl(
+        smokeTestDto.apiUrl,
+        templateContext
+      );
+      const { headers, queryParams, data } = this.requestTemplateService.render(
+        {
+          headers: smokeTestDto.headers || {},
+          queryParams: smokeTestDto.queryParams || {},
+          data: this.buildRequestBody(smokeTestDto),
+        },
+        templateContext
+      );
+
       // 验证URL格式并解析现有查询参数
       let parsedUrl: URL;
       try {
@@ -130,7 +247,8 @@ export class DataFetchService {
       );
       this.logger.log(`调试信息 - hasQueryParams: ${hasQueryParams}`);
 
-      if (!paginationInfo.hasExistingPagination && !hasQueryParams) {
+      // GraphQL 的分页参数在 variables 中，由用户在变量里给出
+      if (!paginationInfo.hasExistingPagination && !hasQueryParams && !isGraphql) {
         if (pageSize) {
           if (method === "GET") {
             // GET 请求：在查询参数中添加分页信息
@@ -156,7 +274,7 @@ export class DataFetchService {
       this.logger.log(`是否有前端查询参数: ${hasQueryParams}`);
 
       // 发送测试请求
-      const response = await this.httpClientService.request({
+      const response = await this.sendRequest(userId, {
         url: baseUrl,
         method: method as any,
         headers,
@@ -164,7 +282,12 @@ export class DataFetchService {
         data: requestData,
         timeout: 30000, // 30秒超时
         retries: 2, // 冒烟测试重试2次
+        rateLimit: smokeTestDto.rateLimit,
+        auth: smokeTestDto.auth,
       });
+      if (isGraphql) {
+        this.assertGraphqlResponse(response.data);
+      }
 
       const responseTime = Date.now() - startTime;
 
@@ -199,6 +322,9 @@ export class DataFetchService {
           pageSize || 0
         );
       }
+      if (isGraphql) {
+        sampleData = this.unwrapRelayEdges(sampleData);
+      }
 
       // 分析数据结构
       const dataStructure = this.analyzeDataStructure(sampleData);
@@ -209,6 +335,16 @@ export class DataFetchService {
         requestData
       );
 
+      // 游标/下一页链接方式：预览下一页令牌，并给出可能的游标路径
+      const nextPageToken = this.isTokenPagination(smokeTestDto.paginationType)
+        ? this.extractPaginationToken(
+            responseData,
+            smokeTestDto.cursorPath,
+            smokeTestDto.paginationType
+          )
+        : null;
+      const suggestedCursorPaths = this.detectSuggestedCursorPaths(responseData);
+
       this.logger.log(
         `冒烟测试成功，响应时间: ${responseTime}ms，获得 ${sampleData.length} 条样本数据`
       );
@@ -220,6 +356,8 @@ export class DataFetchService {
         responseTime,
         dataStructure,
         suggestedPageFields,
+        nextPageToken,
+        suggestedCursorPaths,
       };
     } catch (error) {
       const responseTime = Date.now() - startTime;
@@ -227,7 +365,7 @@ export class DataFetchService {
       this.logger.error(`冒烟测试失败: ${error.message}`);
 
       let errorMessage = "连接失败";
-      if (error.response) {
+      if (error.response?.status) {
         errorMessage = `HTTP ${error.response.status}: ${error.response.statusText}`;
       } else if (error.code === "ECONNREFUSED") {
         errorMessage = "连接被拒绝，请检查URL和网络连接";
@@ -298,7 +436,8 @@ export class DataFetchService {
    */
   async testApiConnection(
     apiUrl: string,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    userId?: string
   ): Promise<{
     success: boolean;
     status?: number;
@@ -307,7 +446,83 @@ export class DataFetchService {
   }> {
     this.logger.log(`测试API连接: ${apiUrl}`);
 
-    return await this.httpClientService.testConnection(apiUrl, headers);
+    const resolvedHeaders = await this.secretService.resolveSecrets(
+      userId,
+      headers
+    );
+    return await this.httpClientService.testConnection(apiUrl, resolvedHeaders);
+  }
+
+  /**
+   * 预览转换步骤作用于样本数据的结果，不写入数据
+   */
+  previewTransform(transformPreviewDto: TransformPreviewDto): TransformPreviewResult {
+    return this.transformPipelineService.preview(
+      transformPreviewDto.records,
+      transformPreviewDto.transformSteps
+    );
+  }
+
+  /**
+   * 预览模板渲染结果（按第1页渲染），不发送请求
+   * 密钥引用、环境变量和签名保持模板原文，避免通过预览读取服务端配置
+   */
+  previewRequestTemplate(smokeTestDto: SmokeTestDto): {
+    url: string;
+    headers: Record<string, string>;
+    params: Record<string, any>;
+    data: any;
+  } {
+    const templateContext: RequestTemplateContext = {
+      page: 1,
+      pageSize: smokeTestDto.pageSize,
+      variables: smokeTestDto.variables,
+    };
+    const { headers, params, data } = this.requestTemplateService.renderRedacted(
+      {
+        headers: smokeTestDto.headers || {},
+        params: smokeTestDto.queryParams || {},
+        data: this.buildRequestBody(smokeTestDto),
+      },
+      templateContext
+    );
+
+    return {
+      url: this.requestTemplateService.renderRedacted(
+        this.requestTemplateService.renderUrl(smokeTestDto.apiUrl, templateContext, true),
+        templateContext
+      ),
+      headers,
+      params,
+      data,
+    };
+  }
+
+  /**
+   * 发送请求前解析请求头、查询参数、请求体和认证配置中的密钥引用
+   * 日志和分页记录中只保留引用，不记录密钥明文
+   */
+  private async sendRequest(
+    userId: string | undefined,
+    options: HttpRequestOptions
+  ): Promise<HttpResponse> {
+    const { headers, params, data, auth } =
+      await this.secretService.resolveSecrets(userId, {
+        headers: options.headers,
+        params: options.params,
+        data: options.data,
+        auth: options.auth,
+      });
+
+    return this.httpClientService.request({
+      ...options,
+      headers,
+      params,
+      data,
+      auth,
+      // OAuth2 令牌按用户隔离缓存
+      tokenCacheScope: options.tokenCacheScope ?? userId,
+    });
   }
 
   /**
@@ -391,12 +606,18 @@ export class DataFetchService {
   }
 
   /**
-   * 创建拉取配置
+   * 创建拉取配置，保存者即拉取时解析密钥引用所用的用户
    */
   async createFetchConfig(
-    createFetchConfigDto: CreateFetchConfigDto
+    createFetchConfigDto: CreateFetchConfigDto,
+    userId?: string
   ): Promise<FetchConfig> {
-    const { sessionId, name, ...configData } = createFetchConfigDto;
+    const {
+      sessionId,
+      name,
+      sourceName = DEFAULT_SOURCE_NAME,
+      ...configData
+    } = createFetchConfigDto;
 
     // 验证会话是否存在
     const session = await this.dataSessionRepository.findOne({
@@ -413,73 +634,297 @@ export class DataFetchService {
       await this.dataSessionRepository.save(session);
     }
 
-    // 检查是否已有配置
+    await this.validateSourceNames(
+      sessionId,
+      sourceName,
+      configData.explodeFields
+    );
+    this.transformPipelineService.validateSteps(configData.transformSteps);
+
+    // 检查该数据源是否已有配置
     const existingConfig = await this.fetchConfigRepository.findOne({
-      where: { sessionId },
+      where: { sessionId, sourceName },
     });
 
     if (existingConfig) {
-      // 更新现有配置
-      Object.assign(existingConfig, configData);
+      // 提交了新的拆分配置时，不再拆分的嵌套数组其子表一并删除
+      const keptChildren = new Set(
+        (configData.explodeFields || []).map(field => field.name)
+      );
+      const removedChildren = configData.explodeFields
+        ? (existingConfig.explodeFields || [])
+            .map(field => field.name)
+            .filter(childName => !keptChildren.has(childName))
+        : [];
+      if (removedChildren.length > 0) {
+        await this.dropTableSchemas(
+          await this.dataTableSchemaRepository.find({
+            where: removedChildren.map(childName => ({
+              sessionId,
+              sourceName: childName,
+            })),
+          })
+        );
+      }
+
+      // 更新现有配置，保存接口配置后文件数据源改回接口拉取
+      Object.assign(existingConfig, configData, {
+        sourceType: configData.sourceType || SourceType.API,
+        configuredBy: userId,
+      });
       return await this.fetchConfigRepository.save(existingConfig);
     } else {
       // 创建新配置
       const newConfig = this.fetchConfigRepository.create({
         sessionId,
+        sourceName,
         ...configData,
+        sourceType: configData.sourceType || SourceType.API,
+        configuredBy: userId,
       });
       return await this.fetchConfigRepository.save(newConfig);
     }
   }
 
   /**
-   * 获取拉取配置
+   * 校验数据源名称与子表名称：二者共用命名空间，同一会话内不能重复
    */
-  async getFetchConfig(sessionId: string): Promise<FetchConfig> {
-    const config = await this.fetchConfigRepository.findOne({
+  private async validateSourceNames(
+    sessionId: string,
+    sourceName: string,
+    explodeFields: ExplodeField[] = []
+  ): Promise<void> {
+    const configs = await this.fetchConfigRepository.find({
       where: { sessionId },
+    });
+    const sourceNames = new Set([
+      DEFAULT_SOURCE_NAME,
+      ...configs.map(config => config.sourceName),
+    ]);
+    const childNames = new Set(
+      configs
+        .filter(config => config.sourceName !== sourceName)
+        .flatMap(config => (config.explodeFields || []).map(field => field.name))
+    );
+
+    if (childNames.has(sourceName)) {
+      throw new BadRequestException(`数据源名称 ${sourceName} 已被子表使用`);
+    }
+
+    explodeFields.forEach(field => {
+      if (sourceNames.has(field.name) || childNames.has(field.name)) {
+        throw new BadRequestException(`子表名称 ${field.name} 已被使用`);
+      }
+      childNames.add(field.name);
+    });
+  }
+
+  /**
+   * 获取拉取配置，未指定数据源时返回默认数据源的配置
+   */
+  async getFetchConfig(
+    sessionId: string,
+    sourceName: string = DEFAULT_SOURCE_NAME
+  ): Promise<FetchConfig> {
+    const config = await this.fetchConfigRepository.findOne({
+      where: { sessionId, sourceName },
       relations: ["session"],
     });
 
     if (!config) {
-      throw new NotFoundException(`会话 ${sessionId} 的拉取配置不存在`);
+      throw new NotFoundException(
+        sourceName === DEFAULT_SOURCE_NAME
+          ? `会话 ${sessionId} 的拉取配置不存在`
+          : `会话 ${sessionId} 的数据源 ${sourceName} 不存在`
+      );
     }
 
     return config;
   }
 
+  /**
+   * 获取会话的全部数据源，默认数据源排在最前
+   */
+  async getFetchSources(sessionId: string): Promise<
+    Array<{
+      sourceName: string;
+      tableName: string;
+      sourceType: SourceType;
+      apiUrl: string;
+      fileName?: string;
+      sqlConnection?: string;
+      joinField?: string;
+      primaryJoinField?: string;
+      childSources: string[];
+      hasData: boolean;
+    }>
+  > {
+    const [configs, schemas] = await Promise.all([
+      this.fetchConfigRepository.find({
+        where: { sessionId },
+        order: { createdAt: "ASC" },
+      }),
+      this.dataTableSchemaRepository.find({ where: { sessionId } }),
+    ]);
+    const fetchedSources = new Set(schemas.map(schema => schema.sourceName));
+
+    return configs
+      .sort(
+        (a, b) =>
+          Number(b.sourceName === DEFAULT_SOURCE_NAME) -
+          Number(a.sourceName === DEFAULT_SOURCE_NAME)
+      )
+      .map(config => ({
+        sourceName: config.sourceName,
+        tableName: DynamicTableUtil.generateTableName(
+          sessionId,
+          config.sourceName
+        ),
+        sourceType: config.sourceType,
+        apiUrl: config.apiUrl,
+        fileName: config.fileName,
+        sqlConnection: config.sqlConnection
+          ? this.sqlSourceService.describeConnection(config.sqlConnection)
+          : undefined,
+        joinField: config.joinField,
+        primaryJoinField: config.primaryJoinField,
+        childSources: (config.explodeFields || []).map(field => field.name),
+        hasData: fetchedSources.has(config.sourceName),
+      }));
+  }
+
+  /**
+   * 删除附加数据源及其动态表（含拆分出的子表），默认数据源随会话一起删除
+   */
+  async deleteFetchSource(sessionId: string, sourceName: string): Promise<void> {
+    if (sourceName === DEFAULT_SOURCE_NAME) {
+      throw new BadRequestException("默认数据源不能单独删除");
+    }
+
+    const config = await this.getFetchConfig(sessionId, sourceName);
+    const tableSchemas = await this.dataTableSchemaRepository.find({
+      where: [
+        { sessionId, sourceName },
+        { sessionId, parentSourceName: sourceName },
+      ],
+    });
+
+    await this.dropTableSchemas(tableSchemas);
+    await this.fetchConfigRepository.remove(config);
+  }
+
+  /**
+   * 删除动态表及其表结构记录
+   */
+  private async dropTableSchemas(tableSchemas: DataTableSchema[]): Promise<void> {
+    for (const tableSchema of tableSchemas) {
+      await DynamicTableUtil.dropDynamicTable(
+        this.dataSource,
+        tableSchema.tableName
+      );
+      await this.dataTableSchemaRepository.remove(tableSchema);
+    }
+  }
+
+  /**
+   * 独占执行会话的拉取任务，同一会话已有拉取在执行时抛出 ConflictException
+   */
+  async runExclusive<T>(sessionId: string, work: () => Promise<T>): Promise<T> {
+    if (this.runningSessions.has(sessionId)) {
+      throw new ConflictException("该会话正在拉取数据，请稍后再试");
+    }
+    this.runningSessions.add(sessionId);
+    try {
+      return await work();
+    } finally {
+      this.runningSessions.delete(sessionId);
+    }
+  }
+
   /**
    * 执行正式数据拉取
+   * 每次执行都会记录一条运行记录，便于查看最近刷新时间及失败原因
    */
-  async executeFetch(executeFetchDto: ExecuteFetchDto): Promise<{
+  async executeFetch(
+    executeFetchDto: ExecuteFetchDto,
+    trigger: FetchRunTrigger = FetchRunTrigger.MANUAL
+  ): Promise<{
     success: boolean;
     message: string;
     sessionId: string;
+    runId?: string;
     totalRecords?: number;
     pagesProcessed?: number;
+    schemaChanges?: SchemaChange[];
   }> {
-    const { sessionId } = executeFetchDto;
+    const { sessionId, sourceName = DEFAULT_SOURCE_NAME } = executeFetchDto;
 
-    this.logger.log(`开始执行正式数据拉取，会话ID: ${sessionId}`);
+    this.logger.log(
+      `开始执行正式数据拉取，会话ID: ${sessionId}，数据源: ${sourceName}`
+    );
 
     // 获取拉取配置
-    const config = await this.getFetchConfig(sessionId);
+    const config = await this.getFetchConfig(sessionId, sourceName);
+    if (config.sourceType === SourceType.FILE) {
+      throw new BadRequestException(
+        `数据源 ${sourceName} 来自上传的文件，请重新上传文件以更新数据`
+      );
+    }
+    if (config.sourceType === SourceType.SQL) {
+      return this.executeSqlFetch(config, trigger);
+    }
 
-    const queryRunner = this.dataSource.createQueryRunner();
-    await queryRunner.connect();
-    await queryRunner.startTransaction();
+    // 创建运行记录
+    const run = await this.fetchRunRepository.save(
+      this.fetchRunRepository.create({
+        sessionId,
+        trigger,
+        status: FetchRunStatus.RUNNING,
+      })
+    );
+    // 本次运行的累计插入/重复统计，失败时也会写入运行记录
+    const runStats = { recordsInserted: 0, duplicatesSkipped: 0 };
+    // 本次运行中检测到的表结构变更，失败时也会写入运行记录
+    const schemaChanges: SchemaChange[] = [];
+    // 当前正在处理的分页日志，请求异常时由外层 catch 补记错误
+    let currentPageLog: FetchRunPage | null = null;
+
+    this.progressMonitorService.initializeProgress(sessionId);
+
+    // 同一次运行中的时间变量以运行开始时间为准，保证各页请求的时间窗口一致
+    const templateContext: RequestTemplateContext = {
+      variables: config.variables,
+      pageSize: config.pageSize,
+      now: new Date(),
+    };
 
     try {
+      templateContext.secrets = await this.resolveTemplateSecrets(
+        config.configuredBy,
+        {
+          apiUrl: config.apiUrl,
+          headers: config.headers,
+          queryParams: config.queryParams,
+          data: this.buildRequestBody(config),
+          variables: config.variables,
+        }
+      );
+
       // 第一步：拉取第一页数据分析结构
       this.logger.log("拉取第一页数据进行结构分析...");
 
       // 解析URL并保留原有查询参数
-      const parsedUrl = new URL(config.apiUrl);
+      const parsedUrl = new URL(
+        this.requestTemplateService.renderUrl(config.apiUrl, {
+          ...templateContext,
+          page: 1,
+        })
+      );
       const baseUrl = `${parsedUrl.protocol}//${parsedUrl.host}${parsedUrl.pathname}`;
 
       // 准备请求参数
       let requestParams: Record<string, any> = {};
-      let requestData = config.data;
+      let requestData = this.buildRequestBody(config);
 
       // 保留原URL中的所有查询参数
       parsedUrl.searchParams.forEach((value, key) => {
@@ -496,10 +941,17 @@ export class DataFetchService {
       }
 
       // 处理分页参数（如果启用分页）
+      // 游标/下一页链接方式的第一页按原始配置请求，无需注入页码
+      const isTokenPagination = this.isTokenPagination(config.paginationType);
+      const isGraphql = config.sourceType === SourceType.GRAPHQL;
       let startPageValue = 1; // 默认初始值
-      if (config.enablePagination && config.pageField) {
+      if (config.enablePagination && config.pageField && !isTokenPagination) {
         // 从配置中获取分页字段的当前值作为初始值
-        if (config.method === "GET") {
+        if (isGraphql) {
+          // GraphQL：分页字段位于 variables 中
+          startPageValue =
+            parseInt(requestData.variables[config.pageField]) || 1;
+        } else if (config.method === "GET") {
           // GET请求：从 queryParams 中获取
           if (config.queryParams && config.queryParams[config.pageField]) {
             startPageValue =
@@ -518,7 +970,14 @@ export class DataFetchService {
           }
         }
 
-        if (config.method === "GET") {
+        if (isGraphql) {
+          // GraphQL：页码写入 variables，每页数量由用户在变量中给出
+          requestData = this.setValueByPath(
+            requestData,
+            `variables.${config.pageField}`,
+            startPageValue
+          );
+        } else if (config.method === "GET") {
           // GET 请求：分页参数放在 URL 查询参数中
           requestParams[config.pageField] = startPageValue;
 
@@ -574,314 +1033,1959 @@ export class DataFetchService {
       this.logger.log(
         `第1页请求参数 - Headers: ${JSON.stringify(config.headers || {})}`
       );
+      const { logged: firstPageLogged, ...firstPageRequest } =
+        this.renderPageRequest(
+          config,
+          { url: baseUrl, params: requestParams, data: requestData },
+          { ...templateContext, page: 1 }
+        );
       this.logger.log(
-        `第1页请求参数 - Params: ${JSON.stringify(requestParams)}`
+        `第1页请求参数 - Params: ${JSON.stringify(firstPageLogged.params)}`
       );
-      this.logger.log(`第1页请求参数 - Data: ${JSON.stringify(requestData)}`);
-
-      const firstPageResponse = await this.httpClientService.request({
+      this.logger.log(
+        `第1页请求参数 - Data: ${JSON.stringify(firstPageLogged.data)}`
+      );
+      currentPageLog = this.buildRunPageLog(run.id, 1, {
+        ...firstPageLogged,
         url: baseUrl,
+        method: config.method,
+      });
+      const firstPageStartTime = Date.now();
+      const firstPageResponse = await this.sendRequest(config.configuredBy, {
+        ...firstPageRequest,
         method: config.method as any,
-        headers: config.headers || {},
-        params: requestParams,
-        data: requestData,
         timeout: 0, // 不超时
         retries: 2,
+        rateLimit: config.rateLimit,
+        rateLimitKey: sessionId,
+        auth: config.auth,
       });
 
       this.logger.log(`第1页响应状态: ${firstPageResponse.status}`);
+      if (isGraphql) {
+        this.assertGraphqlResponse(firstPageResponse.data);
+      }
+      this.fillRunPageResponse(
+        currentPageLog,
+        firstPageResponse,
+        Date.now() - firstPageStartTime
+      );
       this.logger.log(`第1页响应数据类型: ${typeof firstPageResponse.data}`);
 
       // 处理第一页数据
-      let firstPageData: any[] = [];
       const responseData = firstPageResponse.data;
+      const firstPageData = this.extractPageRecords(config, responseData, 1);
 
-      // 如果指定了 dataPath，使用路径提取数据
-      if (config.dataPath) {
-        try {
-          const extractedData = this.extractDataByPath(
-            responseData,
-            config.dataPath
-          );
-          if (Array.isArray(extractedData)) {
-            firstPageData = extractedData;
-          } else {
-            firstPageData = [extractedData];
-          }
-        } catch (error) {
-          this.logger.warn(`数据路径提取失败: ${error.message}，使用默认逻辑`);
-          firstPageData = this.extractDataWithDefaultLogic(responseData, 0); // 不限制数据数量
-        }
-      } else {
-        firstPageData = this.extractDataWithDefaultLogic(responseData, 0); // 不限制数据数量
+      this.logger.log(`第1页提取到数据数量: ${firstPageData.length}`);
+      currentPageLog.recordsReceived = firstPageData.length;
+
+      // 页码/索引方式下，根据总数字段预先计算总页数
+      const totalCount =
+        config.enablePagination && !isTokenPagination
+          ? this.extractTotalCount(responseData, config.totalField)
+          : null;
+      const totalPages = this.calculateTotalPages(
+        config,
+        totalCount,
+        firstPageData.length
+      );
+      if (totalPages) {
+        this.logger.log(
+          `根据总数字段 ${config.totalField}=${totalCount} 计算总页数: ${totalPages}`
+        );
       }
+      const fetchedRecords = firstPageData.length;
+      this.progressMonitorService.recordPageTiming(
+        sessionId,
+        1,
+        Date.now() - firstPageStartTime
+      );
+      this.progressMonitorService.updateProgress(sessionId, {
+        status: "fetching",
+        currentPage: 1,
+        totalPages: totalPages ?? undefined,
+        totalRecords: totalCount ?? undefined,
+        fetchedRecords,
+        message: totalPages
+          ? `已拉取第 1/${totalPages} 页`
+          : "已拉取第 1 页",
+      });
 
-      this.logger.log(`第1页提取到数据数量: ${firstPageData.length}`);
+      // 游标/下一页链接方式：读取下一页的令牌
+      const nextPageToken = isTokenPagination
+        ? this.extractPaginationToken(
+            responseData,
+            config.cursorPath,
+            config.paginationType
+          )
+        : null;
 
       if (firstPageData.length === 0) {
         throw new BadRequestException("API返回空数据");
       }
 
-      // 检查是否已存在数据表结构
-      const tableName = DynamicTableUtil.generateTableName(sessionId);
-      let tableSchema = await this.dataTableSchemaRepository.findOne({
-        where: { sessionId, tableName },
-      });
+      // 转换只影响写入的记录，翻页判断仍以接口返回的原始条数为准
+      const firstPageRecords = this.transformRecords(config, firstPageData, 1);
+      if (firstPageRecords.length === 0) {
+        throw new BadRequestException(
+          "第1页记录全部被转换步骤过滤，无法确定表结构，请检查过滤条件"
+        );
+      }
 
-      if (!tableSchema) {
-        // 第一次拉取：分析数据结构并创建动态表
-        const fieldDefinitions =
-          DynamicTableUtil.analyzeDataStructure(firstPageData);
+      // 检查是否已存在数据表结构
+      const { tableSchema, isFirstFetch } = await this.ensureTableSchema(
+        sessionId,
+        sourceName,
+        firstPageRecords
+      );
+      const tableName = tableSchema.tableName;
 
-        this.logger.log(`创建动态表: ${tableName}`);
-        await DynamicTableUtil.createDynamicTable(
-          this.dataSource,
+      // 增量拉取：记录本次拉取前已存储的水位最大值
+      let watermarkBaseline: any = null;
+      if (config.incrementalMode && config.watermarkField && !isFirstFetch) {
+        watermarkBaseline = await this.getStoredWatermark(
           tableName,
-          fieldDefinitions,
-          sessionId
-        );
-
-        // 保存表结构信息
-        tableSchema = this.dataTableSchemaRepository.create({
           sessionId,
-          tableName,
-          fieldDefinitions,
-        });
-        await queryRunner.manager.save(tableSchema);
-      } else {
-        this.logger.log(`使用已存在的动态表: ${tableName}`);
+          config.watermarkField
+        );
+        this.logger.log(
+          `增量拉取水位 ${config.watermarkField} 当前最大值: ${watermarkBaseline}`
+        );
       }
 
-      // 插入第一页数据
-      await DynamicTableUtil.insertDataBatch(
-        this.dataSource,
-        tableName,
-        firstPageData,
+      const pageContext: PageFetchContext = {
+        run,
+        config,
         sessionId,
+        baseUrl,
+        requestParams,
+        templateContext,
+        schemaState: {
+          tableSchema,
+          changes: schemaChanges,
+          pending: Promise.resolve(),
+          children: new Map(),
+        },
+        runStats,
+        totalPages,
+        pagesProcessed: 1,
+        fetchedRecords,
+        totalRecords: 0,
+      };
+
+      // 插入第一页数据
+      const firstPageInsertResult = await this.persistPage(
+        pageContext,
+        currentPageLog,
+        firstPageRecords,
         1
       );
+      currentPageLog = null;
+
+      const incrementalStopped = this.shouldStopIncremental(
+        config,
+        firstPageRecords,
+        firstPageInsertResult,
+        watermarkBaseline
+      );
+      if (incrementalStopped) {
+        this.logger.log("增量拉取：第1页已无新数据，停止拉取");
+      }
 
       // 查询实际插入的记录数（因为可能有重复数据被跳过）
-      let totalRecordsResult = await this.dataSource.query(
-        `SELECT COUNT(*) as count FROM \`${tableName}\` WHERE session_id = ?`,
-        [sessionId]
+      pageContext.totalRecords = await this.countSessionRecords(
+        tableName,
+        sessionId
       );
-      let totalRecords = parseInt(totalRecordsResult[0]?.count || 0);
-      let pagesProcessed = 1;
 
       // 第二步：根据配置拉取剩余数据
-      if (config.enablePagination && config.pageField) {
+      if (
+        config.enablePagination &&
+        config.pageField &&
+        totalPages &&
+        !config.incrementalMode
+      ) {
+        // 已知总页数：并发拉取剩余页面（增量模式需按顺序判断停止，不走并发）
+        await this.fetchRemainingPagesConcurrently(pageContext);
+      } else if (
+        config.enablePagination &&
+        (config.pageField || isTokenPagination) &&
+        !incrementalStopped
+      ) {
         // 分页拉取模式：持续拉取直到没有更多数据
-        const paginationType = config.paginationType || "page";
-        const pageSize = config.pageSize || 20;
-        let currentPageIndex = 2; // 页码索引，从2开始（第1页已经拉取）
-        const maxPages = 1000; // 防止无限拉取
-
-        while (currentPageIndex <= maxPages) {
-          this.logger.log(`拉取第 ${currentPageIndex} 页数据...`);
-
-          // 重新构建分页参数，保留原有查询参数和配置中的查询参数
-          let pageParams = { ...requestParams };
-          let pageRequestData = config.data;
-
-          // 确保配置中的查询参数也包含在分页请求中
-          if (config.queryParams && typeof config.queryParams === "object") {
-            Object.entries(config.queryParams).forEach(([key, value]) => {
-              if (key && value !== undefined && value !== null) {
-                pageParams[key] = value;
-              }
-            });
-          }
-
-          // 根据分页方式计算分页参数值
-          let pageFieldValue;
-          if (paginationType === "offset") {
-            // 索引方式：使用步长计算偏移量
-            const stepSize = config.stepSize || pageSize;
-            pageFieldValue = (currentPageIndex - 1) * stepSize;
-          } else {
-            // 页码方式：直接递增页码
-            pageFieldValue = currentPageIndex;
-          }
-
-          if (config.method === "GET") {
-            pageParams[config.pageField] = pageFieldValue;
-          } else if (config.method === "POST" && pageRequestData) {
-            if (
-              typeof pageRequestData === "object" &&
-              pageRequestData !== null
-            ) {
-              pageRequestData = {
-                ...pageRequestData,
-                [config.pageField]: pageFieldValue,
-              };
-            }
-          }
-
-          this.logger.log(`第${currentPageIndex}页请求参数 - URL: ${baseUrl}`);
-          this.logger.log(
-            `第${currentPageIndex}页请求参数 - Method: ${config.method}`
-          );
-          this.logger.log(
-            `第${currentPageIndex}页请求参数 - Headers: ${JSON.stringify(config.headers || {})}`
-          );
-          this.logger.log(
-            `第${currentPageIndex}页请求参数 - Params: ${JSON.stringify(pageParams)}`
-          );
-          this.logger.log(
-            `第${currentPageIndex}页请求参数 - Data: ${JSON.stringify(pageRequestData)}`
-          );
-
-          const pageResponse = await this.httpClientService.request({
-            url: baseUrl,
-            method: config.method as any,
-            headers: config.headers || {},
-            params: pageParams,
-            data: pageRequestData,
-            timeout: 0, // 不超时
-            retries: 2,
-          });
-
-          this.logger.log(
-            `第${currentPageIndex}页响应状态: ${pageResponse.status}`
-          );
-          this.logger.log(
-            `第${currentPageIndex}页响应数据类型: ${typeof pageResponse.data}`
-          );
-
-          let pageData: any[] = [];
-          const pageResponseData = pageResponse.data;
-
-          // 如果指定了 dataPath，使用路径提取数据
-          if (config.dataPath) {
-            try {
-              const extractedData = this.extractDataByPath(
-                pageResponseData,
-                config.dataPath
-              );
-              if (Array.isArray(extractedData)) {
-                pageData = extractedData;
-              } else {
-                pageData = [extractedData];
-              }
-            } catch (error) {
-              this.logger.warn(
-                `第 ${currentPageIndex} 页数据路径提取失败: ${error.message}，使用默认逻辑`
-              );
-              pageData = this.extractDataWithDefaultLogic(pageResponseData, 0); // 不限制数据数量
-            }
-          } else {
-            pageData = this.extractDataWithDefaultLogic(pageResponseData, 0); // 不限制数据数量
-          }
-
-          this.logger.log(
-            `第${currentPageIndex}页提取到数据数量: ${pageData.length}`
-          );
-
-          if (pageData.length === 0) {
-            this.logger.log(`第 ${currentPageIndex} 页无数据，停止拉取`);
-            break;
-          }
-
-          try {
-            await DynamicTableUtil.insertDataBatch(
-              this.dataSource,
-              tableName,
-              pageData,
-              sessionId,
-              currentPageIndex
-            );
-
-            // 重新查询实际的记录数
-            const currentRecordsResult = await this.dataSource.query(
-              `SELECT COUNT(*) as count FROM \`${tableName}\` WHERE session_id = ?`,
-              [sessionId]
-            );
-            totalRecords = parseInt(currentRecordsResult[0]?.count || 0);
-            pagesProcessed++;
-            currentPageIndex++;
-
-            // 如果配置了pageSize，则根据页大小判断是否为最后一页
-            if (config.pageSize && pageData.length < config.pageSize) {
-              this.logger.log(
-                `第 ${currentPageIndex - 1} 页数据不足，判断为最后一页`
-              );
-              break;
-            }
-            // 如果没有配置 pageSize，则依赖于 pageData.length === 0 的判断来停止拉取
-
-            // 添加延迟避免请求过于频繁
-            await new Promise(resolve => setTimeout(resolve, 200));
-          } catch (error) {
-            this.logger.warn(
-              `第 ${currentPageIndex} 页拉取失败，停止拉取: ${error.message}`
-            );
-            break;
-          }
-        }
+        await this.fetchRemainingPagesSequentially(
+          pageContext,
+          nextPageToken,
+          watermarkBaseline
+        );
       }
-
-      await queryRunner.commitTransaction();
+      const { pagesProcessed, totalRecords } = pageContext;
 
       this.logger.log(
         `数据拉取完成，共处理 ${pagesProcessed} 页，获得 ${totalRecords} 条记录`
       );
 
+      await this.finishFetchRun(run, FetchRunStatus.SUCCESS, {
+        pagesProcessed,
+        totalRecords,
+        ...runStats,
+        schemaChanges,
+      });
+      this.progressMonitorService.markCompleted(
+        sessionId,
+        totalRecords,
+        pagesProcessed
+      );
+
       return {
         success: true,
-        message: `数据拉取完成，共获得 ${totalRecords} 条记录`,
+        message: `数据拉取完成，共获得 ${totalRecords} 条记录${this.describeSchemaChanges(schemaChanges)}`,
         sessionId,
+        runId: run.id,
         totalRecords,
         pagesProcessed,
+        schemaChanges,
       };
     } catch (error) {
-      await queryRunner.rollbackTransaction();
       this.logger.error(`数据拉取失败: ${error.message}`, error.stack);
 
+      if (currentPageLog) {
+        currentPageLog.errorMessage = error.message;
+        await this.saveRunPageLog(currentPageLog);
+      }
+
+      await this.finishFetchRun(run, FetchRunStatus.FAILED, {
+        ...runStats,
+        schemaChanges,
+        errorMessage: error.message,
+      });
+      this.progressMonitorService.markError(sessionId, error.message);
+
       return {
         success: false,
         message: `数据拉取失败: ${error.message}`,
         sessionId,
+        runId: run.id,
         totalRecords: 0,
         pagesProcessed: 0,
+        schemaChanges,
       };
-    } finally {
-      await queryRunner.release();
     }
   }
 
   /**
-   * 获取拉取状态
+   * 导入上传的 CSV、Excel 或 JSON 文件
+   * 与接口拉取共用建表、结构演进、嵌套数组拆分和去重写入流程，按批次写入并上报进度
    */
-  async getFetchStatus(sessionId: string): Promise<{
-    status: "pending" | "running" | "completed" | "failed";
-    progress?: number;
-    totalPages?: number;
-    completedPages?: number;
+  async importFile(
+    file: UploadedDataFile,
+    importFileDto: ImportFileDto
+  ): Promise<{
+    success: boolean;
+    message: string;
+    sessionId: string;
+    runId?: string;
     totalRecords?: number;
-    error?: string;
+    recordsImported?: number;
+    schemaChanges?: SchemaChange[];
   }> {
-    // 检查会话是否存在
+    const {
+      sessionId,
+      sourceName = DEFAULT_SOURCE_NAME,
+      sheetName,
+      delimiter,
+    } = importFileDto;
+
+    if (!file || !file.buffer || file.size === 0) {
+      throw new BadRequestException("请选择要上传的文件");
+    }
+
     const session = await this.dataSessionRepository.findOne({
       where: { id: sessionId },
     });
-
     if (!session) {
       throw new NotFoundException(`会话 ${sessionId} 不存在`);
     }
 
-    // 检查是否有数据表
-    const tableSchema = await this.dataTableSchemaRepository.findOne({
-      where: { sessionId },
+    let config = await this.fetchConfigRepository.findOne({
+      where: { sessionId, sourceName },
     });
-
-    if (!tableSchema) {
-      return { status: "pending" };
+    await this.validateSourceNames(
+      sessionId,
+      sourceName,
+      config?.explodeFields
+    );
+
+    // 文件格式或内容有误时直接返回错误，不产生运行记录
+    const parsed = this.fileParserService.parse(
+      file.buffer,
+      file.originalname,
+      { sheetName, delimiter }
+    );
+    if (parsed.records.length === 0) {
+      throw new BadRequestException("文件中没有可导入的数据");
+    }
+    const records = this.transformRecords(config, parsed.records, 1);
+    if (records.length === 0) {
+      throw new BadRequestException("文件中的记录全部被转换步骤过滤");
     }
 
-    try {
-      // 查询数据记录数
-      const result = await this.dataSource.query(
+    this.logger.log(
+      `开始导入文件 ${file.originalname}，会话ID: ${sessionId}，数据源: ${sourceName}，共 ${records.length} 条记录`
+    );
+
+    // 接口数据源改为上传文件时保留拆分等配置，后续不再参与定时拉取
+    config = config || this.fetchConfigRepository.create({ sessionId, sourceName });
+    Object.assign(config, {
+      sourceType: SourceType.FILE,
+      fileName: file.originalname,
+      fileFormat: parsed.format,
+    });
+    config = await this.fetchConfigRepository.save(config);
+
+    const run = await this.fetchRunRepository.save(
+      this.fetchRunRepository.create({
+        sessionId,
+        trigger: FetchRunTrigger.UPLOAD,
+        status: FetchRunStatus.RUNNING,
+      })
+    );
+    const runStats = { recordsInserted: 0, duplicatesSkipped: 0 };
+    const schemaChanges: SchemaChange[] = [];
+    const totalBatches = Math.ceil(records.length / IMPORT_BATCH_SIZE);
+
+    this.progressMonitorService.initializeProgress(sessionId);
+
+    try {
+      const { tableSchema } = await this.ensureTableSchema(
+        sessionId,
+        sourceName,
+        records
+      );
+      const schemaState: SchemaEvolutionState = {
+        tableSchema,
+        changes: schemaChanges,
+        pending: Promise.resolve(),
+        children: new Map(),
+      };
+
+      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+        const batch = records.slice(
+          batchIndex * IMPORT_BATCH_SIZE,
+          (batchIndex + 1) * IMPORT_BATCH_SIZE
+        );
+        const insertResult = await this.insertPageRecords(
+          schemaState,
+          config.explodeFields,
+          batch,
+          sessionId,
+          batchIndex + 1,
+          run.id
+        );
+        runStats.recordsInserted += insertResult.insertedCount;
+        runStats.duplicatesSkipped += insertResult.duplicateCount;
+
+        this.progressMonitorService.updateProgress(sessionId, {
+          status: "fetching",
+          currentPage: batchIndex + 1,
+          totalPages: totalBatches,
+          totalRecords: records.length,
+          fetchedRecords: Math.min(
+            (batchIndex + 1) * IMPORT_BATCH_SIZE,
+            records.length
+          ),
+          message: `已导入第 ${batchIndex + 1}/${totalBatches} 批`,
+        });
+      }
+
+      const totalRecordsResult = await this.dataSource.query(
+        `SELECT COUNT(*) as count FROM \`${tableSchema.tableName}\` WHERE session_id = ?`,
+        [sessionId]
+      );
+      const totalRecords = parseInt(totalRecordsResult[0]?.count || 0);
+
+      this.logger.log(
+        `文件导入完成，新增 ${runStats.recordsInserted} 条，跳过重复 ${runStats.duplicatesSkipped} 条`
+      );
+
+      await this.finishFetchRun(run, FetchRunStatus.SUCCESS, {
+        pagesProcessed: totalBatches,
+        totalRecords,
+        ...runStats,
+        schemaChanges,
+      });
+      this.progressMonitorService.markCompleted(
+        sessionId,
+        totalRecords,
+        totalBatches
+      );
+
+      return {
+        success: true,
+        message: `文件导入完成，新增 ${runStats.recordsInserted} 条记录，共 ${totalRecords} 条记录${this.describeSchemaChanges(schemaChanges)}`,
+        sessionId,
+        runId: run.id,
+        totalRecords,
+        recordsImported: runStats.recordsInserted,
+        schemaChanges,
+      };
+    } catch (error) {
+      this.logger.error(`文件导入失败: ${error.message}`, error.stack);
+
+      await this.finishFetchRun(run, FetchRunStatus.FAILED, {
+        ...runStats,
+        schemaChanges,
+        errorMessage: error.message,
+      });
+      this.progressMonitorService.markError(sessionId, error.message);
+
+      return {
+        success: false,
+        message: `文件导入失败: ${error.message}`,
+        sessionId,
+        runId: run.id,
+        totalRecords: 0,
+        recordsImported: 0,
+        schemaChanges,
+      };
+    }
+  }
+
+  /**
+   * 执行 SQL 数据源的查询，按批次读取结果写入动态表
+   * 与接口拉取共用建表、结构演进、嵌套数组拆分、运行记录和进度上报
+   */
+  private async executeSqlFetch(
+    config: FetchConfig,
+    trigger: FetchRunTrigger
+  ): Promise<{
+    success: boolean;
+    message: string;
+    sessionId: string;
+    runId?: string;
+    totalRecords?: number;
+    pagesProcessed?: number;
+    schemaChanges?: SchemaChange[];
+  }> {
+    const { sessionId, sourceName } = config;
+    const run = await this.fetchRunRepository.save(
+      this.fetchRunRepository.create({
+        sessionId,
+        trigger,
+        status: FetchRunStatus.RUNNING,
+      })
+    );
+    const runStats = { recordsInserted: 0, duplicatesSkipped: 0 };
+    const schemaChanges: SchemaChange[] = [];
+    let pagesProcessed = 0;
+
+    this.progressMonitorService.initializeProgress(sessionId);
+
+    let externalDataSource: DataSource | null = null;
+
+    try {
+      const { connection, query } = await this.prepareSqlSource(
+        config.configuredBy,
+        config
+      );
+      externalDataSource = await this.sqlSourceService.connect(connection);
+
+      const rowCount = await this.sqlSourceService.countRows(
+        externalDataSource,
+        query
+      );
+      if (rowCount === 0) {
+        throw new BadRequestException("查询结果为空");
+      }
+      const totalBatches = Math.ceil(rowCount / SQL_BATCH_SIZE);
+      this.logger.log(
+        `SQL 数据源 ${sourceName} 共 ${rowCount} 行，分 ${totalBatches} 批写入`
+      );
+
+      let schemaState: SchemaEvolutionState | null = null;
+      let fetchedRecords = 0;
+      await this.sqlSourceService.forEachBatch(
+        externalDataSource,
+        query,
+        SQL_BATCH_SIZE,
+        async (rows, batchIndex) => {
+          const batchStartTime = Date.now();
+          const records = this.transformRecords(config, rows, batchIndex + 1);
+          if (!schemaState && records.length > 0) {
+            const { tableSchema } = await this.ensureTableSchema(
+              sessionId,
+              sourceName,
+              records
+            );
+            schemaState = {
+              tableSchema,
+              changes: schemaChanges,
+              pending: Promise.resolve(),
+              children: new Map(),
+            };
+          }
+
+          if (schemaState && records.length > 0) {
+            const insertResult = await this.insertPageRecords(
+              schemaState,
+              config.explodeFields,
+              records,
+              sessionId,
+              batchIndex + 1,
+              run.id
+            );
+            runStats.recordsInserted += insertResult.insertedCount;
+            runStats.duplicatesSkipped += insertResult.duplicateCount;
+          }
+
+          pagesProcessed++;
+          fetchedRecords += rows.length;
+          this.progressMonitorService.recordPageTiming(
+            sessionId,
+            pagesProcessed,
+            Date.now() - batchStartTime
+          );
+          this.progressMonitorService.updateProgress(sessionId, {
+            status: "fetching",
+            currentPage: pagesProcessed,
+            totalPages: totalBatches,
+            totalRecords: rowCount,
+            fetchedRecords,
+            message: `已写入第 ${pagesProcessed}/${totalBatches} 批`,
+          });
+        }
+      );
+      if (!schemaState) {
+        throw new BadRequestException("查询结果全部被转换步骤过滤");
+      }
+
+      const tableName = DynamicTableUtil.generateTableName(sessionId, sourceName);
+      const totalRecordsResult = await this.dataSource.query(
+        `SELECT COUNT(*) as count FROM \`${tableName}\` WHERE session_id = ?`,
+        [sessionId]
+      );
+      const totalRecords = parseInt(totalRecordsResult[0]?.count || 0);
+
+      this.logger.log(
+        `SQL 数据源拉取完成，新增 ${runStats.recordsInserted} 条，跳过重复 ${runStats.duplicatesSkipped} 条`
+      );
+
+      await this.finishFetchRun(run, FetchRunStatus.SUCCESS, {
+        pagesProcessed,
+        totalRecords,
+        ...runStats,
+        schemaChanges,
+      });
+      this.progressMonitorService.markCompleted(
+        sessionId,
+        totalRecords,
+        pagesProcessed
+      );
+
+      return {
+        success: true,
+        message: `数据拉取完成，共 ${totalRecords} 条记录${this.describeSchemaChanges(schemaChanges)}`,
+        sessionId,
+        runId: run.id,
+        totalRecords,
+        pagesProcessed,
+        schemaChanges,
+      };
+    } catch (error) {
+      this.logger.error(`SQL 数据源拉取失败: ${error.message}`, error.stack);
+
+      await this.finishFetchRun(run, FetchRunStatus.FAILED, {
+        pagesProcessed,
+        ...runStats,
+        schemaChanges,
+        errorMessage: error.message,
+      });
+      this.progressMonitorService.markError(sessionId, error.message);
+
+      return {
+        success: false,
+        message: `数据拉取失败: ${error.message}`,
+        sessionId,
+        runId: run.id,
+        totalRecords: 0,
+        pagesProcessed,
+        schemaChanges,
+      };
+    } finally {
+      if (externalDataSource?.isInitialized) {
+        await externalDataSource.destroy();
+      }
+    }
+  }
+
+  /**
+   * 预览 SQL 查询的前几行，不写入数据，用于验证连接和查询
+   */
+  async previewSqlSource(
+    sqlPreviewDto: SqlPreviewDto,
+    userId?: string
+  ): Promise<SmokeTestResponse> {
+    const startTime = Date.now();
+    let externalDataSource: DataSource | null = null;
+
+    try {
+      const { connection, query } = await this.prepareSqlSource(
+        userId,
+        sqlPreviewDto
+      );
+      externalDataSource = await this.sqlSourceService.connect(connection);
+
+      const sampleData = await this.sqlSourceService.fetchRows(
+        externalDataSource,
+        query,
+        SQL_PREVIEW_LIMIT
+      );
+
+      return {
+        success: true,
+        data: sampleData,
+        message: `查询成功，获得 ${sampleData.length} 条样本数据`,
+        responseTime: Date.now() - startTime,
+        dataStructure: this.analyzeDataStructure(sampleData),
+      };
+    } catch (error) {
+      this.logger.error(`SQL 查询预览失败: ${error.message}`);
+      return {
+        success: false,
+        data: [],
+        error: error.message,
+        responseTime: Date.now() - startTime,
+      };
+    } finally {
+      if (externalDataSource?.isInitialized) {
+        await externalDataSource.destroy();
+      }
+    }
+  }
+
+  /**
+   * 解析连接定义中的密钥引用，渲染参数中的模板变量并转换为驱动占位符
+   */
+  private async prepareSqlSource(
+    userId: string | undefined,
+    source: Pick<FetchConfig, "sqlConnection" | "sqlQuery" | "sqlParams" | "variables">
+  ): Promise<{ connection: SqlConnectionConfig; query: PreparedSqlQuery }> {
+    if (!source.sqlConnection || !source.sqlQuery) {
+      throw new BadRequestException("SQL 数据源缺少连接定义或查询语句");
+    }
+
+    const connection = await this.secretService.resolveSecrets(
+      userId,
+      source.sqlConnection
+    );
+    const params = this.requestTemplateService.render(
+      source.sqlParams || {},
+      { variables: source.variables, now: new Date() }
+    );
+
+    return {
+      connection,
+      query: this.sqlSourceService.prepareQuery(
+        connection.type,
+        source.sqlQuery,
+        params
+      ),
+    };
+  }
+
+  /**
+   * 获取数据源的动态表结构，首次写入时按样本数据分析结构并创建动态表
+   */
+  private async ensureTableSchema(
+    sessionId: string,
+    sourceName: string,
+    sampleData: any[]
+  ): Promise<{ tableSchema: DataTableSchema; isFirstFetch: boolean }> {
+    const tableName = DynamicTableUtil.generateTableName(sessionId, sourceName);
+    const existingSchema = await this.dataTableSchemaRepository.findOne({
+      where: { sessionId, tableName },
+    });
+
+    if (existingSchema) {
+      this.logger.log(`使用已存在的动态表: ${tableName}`);
+      return { tableSchema: existingSchema, isFirstFetch: false };
+    }
+
+    // 第一次写入：分析数据结构并创建动态表
+    const fieldDefinitions = DynamicTableUtil.analyzeDataStructure(sampleData);
+
+    this.logger.log(`创建动态表: ${tableName}`);
+    await DynamicTableUtil.createDynamicTable(
+      this.dataSource,
+      tableName,
+      fieldDefinitions,
+      sessionId
+    );
+
+    // 建表后立即保存表结构信息，之后拉取失败也不会与已建的表脱节
+    const tableSchema = await this.dataTableSchemaRepository.save(
+      this.dataTableSchemaRepository.create({
+        sessionId,
+        sourceName,
+        tableName,
+        fieldDefinitions,
+        schemaVersion: 1,
+      })
+    );
+
+    return { tableSchema, isFirstFetch: true };
+  }
+
+  /**
+   * 结束运行记录
+   * 记录写入失败不应影响拉取结果本身
+   */
+  private async finishFetchRun(
+    run: FetchRun,
+    status: FetchRunStatus,
+    result: Partial<
+      Pick<
+        FetchRun,
+        | "pagesProcessed"
+        | "totalRecords"
+        | "recordsInserted"
+        | "duplicatesSkipped"
+        | "schemaChanges"
+        | "errorMessage"
+      >
+    >
+  ): Promise<void> {
+    try {
+      Object.assign(run, result, { status, finishedAt: new Date() });
+      await this.fetchRunRepository.save(run);
+    } catch (error) {
+      this.logger.warn(`更新运行记录失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 写入一页数据：先写入父表，再将配置的嵌套数组按父表行ID写入各子表
+   * 返回父表的写入结果，子表行不计入运行的插入/重复统计
+   */
+  private async insertPageRecords(
+    schemaState: SchemaEvolutionState,
+    explodeFields: ExplodeField[] | undefined,
+    pageData: any[],
+    sessionId: string,
+    pageNumber: number,
+    runId: string
+  ): Promise<InsertBatchResult> {
+    const { parentRecords, children } = DynamicTableUtil.explodeNestedArrays(
+      pageData,
+      explodeFields
+    );
+
+    await this.evolveTableSchema(schemaState, parentRecords, runId);
+    const insertResult = await DynamicTableUtil.insertDataBatch(
+      this.dataSource,
+      schemaState.tableSchema.tableName,
+      parentRecords,
+      sessionId,
+      pageNumber
+    );
+
+    const childrenWithRows = children.filter(child => child.rows.length > 0);
+    if (childrenWithRows.length === 0) {
+      return insertResult;
+    }
+
+    // 重复的父记录不会重新插入，按内容哈希查出已存在的行ID
+    const parentHashes = parentRecords.map(record =>
+      DynamicTableUtil.generateDataHash(record)
+    );
+    const parentRows: Array<{ id: number; data_hash: string }> =
+      await this.dataSource.query(
+        `SELECT id, data_hash FROM \`${schemaState.tableSchema.tableName}\` WHERE session_id = ? AND data_hash IN (?)`,
+        [sessionId, Array.from(new Set(parentHashes))]
+      );
+    const rowIdByHash = new Map(
+      parentRows.map(row => [row.data_hash, Number(row.id)])
+    );
+    const parentRowIds = parentHashes.map(hash => rowIdByHash.get(hash));
+
+    for (const child of childrenWithRows) {
+      await this.insertChildRows(
+        schemaState,
+        child,
+        parentRowIds,
+        sessionId,
+        pageNumber,
+        runId
+      );
+    }
+
+    return insertResult;
+  }
+
+  /**
+   * 将拆分出的嵌套数组行写入子表，子表不存在时按首批数据创建
+   */
+  private async insertChildRows(
+    parentState: SchemaEvolutionState,
+    child: ExplodedChildRows,
+    parentRowIds: Array<number | undefined>,
+    sessionId: string,
+    pageNumber: number,
+    runId: string
+  ): Promise<void> {
+    const rows: any[] = [];
+    const links: ChildRowLink[] = [];
+    child.rows.forEach((row, index) => {
+      const parentRowId = parentRowIds[child.parentIndexes[index]];
+      if (parentRowId !== undefined) {
+        rows.push(row);
+        links.push({ parentRowId, position: child.positions[index] });
+      }
+    });
+    if (rows.length === 0) {
+      return;
+    }
+
+    let childState = parentState.children.get(child.field.name);
+    if (!childState) {
+      childState = this.prepareChildTable(parentState, child.field, rows);
+      parentState.children.set(child.field.name, childState);
+    }
+    const schemaState = await childState;
+
+    await this.evolveTableSchema(schemaState, rows, runId);
+    const result = await DynamicTableUtil.insertDataBatch(
+      this.dataSource,
+      schemaState.tableSchema.tableName,
+      rows,
+      sessionId,
+      pageNumber,
+      links
+    );
+    this.logger.log(
+      `子表 ${child.field.name} 第${pageNumber}页新增 ${result.insertedCount} 行，重复跳过 ${result.duplicateCount} 行`
+    );
+  }
+
+  /**
+   * 获取子表的结构状态，首次拆分时创建子表并记录其父数据源
+   */
+  private async prepareChildTable(
+    parentState: SchemaEvolutionState,
+    field: ExplodeField,
+    sampleRows: any[]
+  ): Promise<SchemaEvolutionState> {
+    const { sessionId, sourceName } = parentState.tableSchema;
+    const tableName = DynamicTableUtil.generateTableName(sessionId, field.name);
+    let tableSchema = await this.dataTableSchemaRepository.findOne({
+      where: { sessionId, tableName },
+    });
+
+    if (!tableSchema) {
+      const fieldDefinitions = DynamicTableUtil.analyzeDataStructure(sampleRows);
+
+      this.logger.log(`创建子表: ${tableName}`);
+      await DynamicTableUtil.createDynamicTable(
+        this.dataSource,
+        tableName,
+        fieldDefinitions,
+        sessionId,
+        { childTable: true }
+      );
+
+      tableSchema = this.dataTableSchemaRepository.create({
+        sessionId,
+        sourceName: field.name,
+        parentSourceName: sourceName,
+        tableName,
+        fieldDefinitions,
+        schemaVersion: 1,
+      });
+      tableSchema = await this.dataTableSchemaRepository.save(tableSchema);
+    }
+
+    return {
+      tableSchema,
+      changes: parentState.changes,
+      pending: Promise.resolve(),
+      children: new Map(),
+      fieldPrefix: field.name,
+    };
+  }
+
+  /**
+   * 写入分页数据前检测表结构漂移：新增列、放宽类型，并记录一个新的结构版本
+   * 并发写入的各页依次排队执行，避免同时修改同一张表
+   */
+  private evolveTableSchema(
+    schemaState: SchemaEvolutionState,
+    pageData: any[],
+    runId: string
+  ): Promise<void> {
+    const evolution = schemaState.pending.then(async () => {
+      const { tableSchema } = schemaState;
+      const { fieldDefinitions, changes } = DynamicTableUtil.detectSchemaDrift(
+        tableSchema.fieldDefinitions,
+        pageData
+      );
+      if (changes.length === 0) {
+        return;
+      }
+
+      await DynamicTableUtil.applySchemaChanges(
+        this.dataSource,
+        tableSchema.tableName,
+        changes
+      );
+
+      tableSchema.fieldDefinitions = fieldDefinitions;
+      tableSchema.schemaVersion = (tableSchema.schemaVersion || 1) + 1;
+      tableSchema.schemaHistory = [
+        ...(tableSchema.schemaHistory || []),
+        {
+          version: tableSchema.schemaVersion,
+          changedAt: new Date().toISOString(),
+          runId,
+          changes,
+        },
+      ];
+      // DDL 无法回滚，结构版本随列变更立即保存，不随拉取失败回滚
+      await this.dataTableSchemaRepository.save(tableSchema);
+      schemaState.changes.push(
+        ...changes.map(change =>
+          schemaState.fieldPrefix
+            ? { ...change, field: `${schemaState.fieldPrefix}.${change.field}` }
+            : change
+        )
+      );
+
+      this.logger.log(
+        `动态表 ${tableSchema.tableName} 结构升级到版本 ${tableSchema.schemaVersion}${this.describeSchemaChanges(changes)}`
+      );
+    });
+    // 某一页演进失败不阻塞后续排队的页面，错误由本页调用方处理
+    schemaState.pending = evolution.catch(() => undefined);
+    return evolution;
+  }
+
+  /**
+   * 将表结构变更整理为运行结果中的说明文字，没有变更时返回空字符串
+   */
+  private describeSchemaChanges(changes: SchemaChange[]): string {
+    const addedFields = changes
+      .filter(change => change.action === "add_column")
+      .map(change => change.field);
+    const widenedFields = changes
+      .filter(change => change.action === "widen_type")
+      .map(change => `${change.field}(${change.fromType}→${change.toType})`);
+
+    const parts: string[] = [];
+    if (addedFields.length > 0) {
+      parts.push(`新增字段 ${addedFields.join("、")}`);
+    }
+    if (widenedFields.length > 0) {
+      parts.push(`放宽字段类型 ${widenedFields.join("、")}`);
+    }
+    return parts.length > 0 ? `，表结构变更：${parts.join("；")}` : "";
+  }
+
+  /**
+   * 从响应中读取总记录数，读取不到或不是有效数字时返回 null
+   */
+  private extractTotalCount(responseData: any, totalField?: string): number | null {
+    if (!totalField || responseData === null || responseData === undefined) {
+      return null;
+    }
+
+    try {
+      const value = Number(
+        this.extractDataByPath(responseData, totalField.trim().replace(/^\$\.?/, ""))
+      );
+      return Number.isFinite(value) && value >= 0 ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 根据总记录数计算总页数
+   * 页码方式按每页数量计算，索引方式按步长计算；未配置每页数量时以第一页的记录数为准
+   */
+  private calculateTotalPages(
+    config: FetchConfig,
+    totalCount: number | null,
+    firstPageSize: number
+  ): number | null {
+    if (totalCount === null) {
+      return null;
+    }
+
+    const pageSize = config.pageSize || firstPageSize;
+    const step =
+      config.paginationType === PaginationType.OFFSET
+        ? config.stepSize || pageSize
+        : pageSize;
+    if (!step || step <= 0) {
+      return null;
+    }
+
+    return Math.max(Math.ceil(totalCount / step), 1);
+  }
+
+  /**
+   * 将页码方式/索引方式的分页值写入查询参数或请求体（GraphQL 写入 variables），返回新的参数
+   */
+  private applyPageValue(
+    config: FetchConfig,
+    params: Record<string, any>,
+    data: any,
+    pageIndex: number
+  ): { params: Record<string, any>; data: any } {
+    let pageFieldValue: number;
+    if (config.paginationType === PaginationType.OFFSET) {
+      // 索引方式：使用步长计算偏移量
+      const stepSize = config.stepSize || config.pageSize || 20;
+      pageFieldValue = (pageIndex - 1) * stepSize;
+    } else {
+      // 页码方式：直接递增页码
+      pageFieldValue = pageIndex;
+    }
+
+    if (config.sourceType === SourceType.GRAPHQL) {
+      return {
+        params,
+        data: this.setValueByPath(data, `variables.${config.pageField}`, pageFieldValue),
+      };
+    }
+    if (config.method === "GET") {
+      return { params: { ...params, [config.pageField]: pageFieldValue }, data };
+    }
+    if (config.method === "POST" && data && typeof data === "object") {
+      return { params, data: { ...data, [config.pageField]: pageFieldValue } };
+    }
+    return { params, data };
+  }
+
+  /**
+   * 按 dataPath 提取单页记录，提取失败时回退到默认逻辑
+   * GraphQL 数据源的 Relay edges 展开为 node
+   */
+  private extractPageRecords(
+    config: FetchConfig,
+    responseData: any,
+    pageIndex: number
+  ): any[] {
+    let records: any[];
+    if (!config.dataPath) {
+      records = this.extractDataWithDefaultLogic(responseData, 0); // 不限制数据数量
+    } else {
+      try {
+        const extractedData = this.extractDataByPath(responseData, config.dataPath);
+        records = Array.isArray(extractedData) ? extractedData : [extractedData];
+      } catch (error) {
+        this.logger.warn(
+          `第 ${pageIndex} 页数据路径提取失败: ${error.message}，使用默认逻辑`
+        );
+        records = this.extractDataWithDefaultLogic(responseData, 0);
+      }
+    }
+
+    return config.sourceType === SourceType.GRAPHQL
+      ? this.unwrapRelayEdges(records)
+      : records;
+  }
+
+  /**
+   * 执行数据源配置的转换步骤，返回写入动态表的记录
+   */
+  private transformRecords(
+    config: Pick<FetchConfig, "transformSteps"> | null,
+    records: any[],
+    pageIndex: number
+  ): any[] {
+    if (!config?.transformSteps?.length) {
+      return records;
+    }
+
+    const transformed = this.transformPipelineService.apply(
+      records,
+      config.transformSteps
+    );
+    if (transformed.length < records.length) {
+      this.logger.log(
+        `第 ${pageIndex} 页有 ${records.length - transformed.length} 条记录被转换步骤过滤`
+      );
+    }
+    return transformed;
+  }
+
+  /**
+   * 构建请求体：GraphQL 数据源由查询语句和变量组成，其余数据源使用配置中的请求体
+   */
+  private buildRequestBody(
+    config: Partial<
+      Pick<FetchConfig, "sourceType" | "data" | "graphqlQuery" | "graphqlVariables">
+    >
+  ): any {
+    if (config.sourceType !== SourceType.GRAPHQL) {
+      return config.data;
+    }
+    return {
+      query: config.graphqlQuery,
+      variables: { ...(config.graphqlVariables || {}) },
+    };
+  }
+
+  /**
+   * GraphQL 请求出错时仍返回 200，errors 中有错误且没有 data 时视为请求失败
+   */
+  private assertGraphqlResponse(responseData: any): void {
+    const errors = Array.isArray(responseData?.errors) ? responseData.errors : [];
+    if (errors.length === 0) {
+      return;
+    }
+
+    const message = errors
+      .map(error => error?.message || JSON.stringify(error))
+      .join("; ");
+    if (responseData.data === null || responseData.data === undefined) {
+      throw new BadRequestException(`GraphQL 请求失败: ${message}`);
+    }
+    this.logger.warn(`GraphQL 响应包含部分错误: ${message}`);
+  }
+
+  /**
+   * Relay 连接的 edges 形如 [{ cursor, node }]，展开为 node 记录
+   */
+  private unwrapRelayEdges(records: any[]): any[] {
+    const isEdges =
+      records.length > 0 &&
+      records.every(
+        item => item && typeof item.node === "object" && item.node !== null
+      );
+    return isEdges ? records.map(item => item.node) : records;
+  }
+
+  /**
+   * 已知总页数时并发拉取第2页到最后一页
+   */
+  private async fetchRemainingPagesConcurrently(
+    context: PageFetchContext
+  ): Promise<void> {
+    const { config, sessionId, totalPages } = context;
+    const remainingPages: number[] = [];
+    for (let pageIndex = 2; pageIndex <= totalPages; pageIndex++) {
+      remainingPages.push(pageIndex);
+    }
+
+    await this.fetchPagesConcurrently(
+      remainingPages,
+      config.rateLimit?.maxConcurrency || MAX_CONCURRENT_PAGES,
+      async pageIndex => {
+        const { params, data } = this.applyPageValue(
+          config,
+          { ...context.requestParams },
+          this.buildRequestBody(config),
+          pageIndex
+        );
+        const receivedCount = await this.fetchAndInsertPage(
+          context,
+          this.renderPageRequest(
+            config,
+            { url: context.baseUrl, params, data },
+            { ...context.templateContext, page: pageIndex }
+          ),
+          pageIndex
+        );
+
+        context.pagesProcessed++;
+        context.fetchedRecords += receivedCount;
+        this.progressMonitorService.updateProgress(sessionId, {
+          currentPage: context.pagesProcessed,
+          fetchedRecords: context.fetchedRecords,
+          message: `已拉取 ${context.pagesProcessed}/${totalPages} 页`,
+        });
+      }
+    );
+
+    context.totalRecords = await this.countSessionRecords(
+      context.schemaState.tableSchema.tableName,
+      sessionId
+    );
+  }
+
+  /**
+   * 逐页拉取直到没有更多数据：页码方式按页大小判断最后一页，游标/下一页链接方式以响应中的令牌为准
+   * 请求失败时整个运行失败；写入失败时停止翻页，已写入的页面保留
+   */
+  private async fetchRemainingPagesSequentially(
+    context: PageFetchContext,
+    nextPageToken: string | null,
+    watermarkBaseline: any
+  ): Promise<void> {
+    const { config, sessionId, totalPages } = context;
+    const isTokenPagination = this.isTokenPagination(config.paginationType);
+    const isGraphql = config.sourceType === SourceType.GRAPHQL;
+    const paginationType = config.paginationType || "page";
+    let currentPageIndex = 2; // 页码索引，从2开始（第1页已经拉取）
+    const maxPages = totalPages || 1000; // 已知总页数时以其为上限，否则防止无限拉取
+    const usedTokens = new Set<string>(); // 防止游标循环
+
+    while (currentPageIndex <= maxPages) {
+      if (isTokenPagination) {
+        if (!nextPageToken) {
+          this.logger.log("响应中没有下一页游标，停止拉取");
+          break;
+        }
+        if (usedTokens.has(nextPageToken)) {
+          this.logger.warn(`游标 ${nextPageToken} 重复出现，停止拉取`);
+          break;
+        }
+        usedTokens.add(nextPageToken);
+      }
+
+      this.logger.log(`拉取第 ${currentPageIndex} 页数据...`);
+
+      // 重新构建分页参数，保留原有查询参数和配置中的查询参数
+      let pageUrl = context.baseUrl;
+      let pageParams = { ...context.requestParams };
+      let pageRequestData = this.buildRequestBody(config);
+
+      // 确保配置中的查询参数也包含在分页请求中
+      if (config.queryParams && typeof config.queryParams === "object") {
+        Object.entries(config.queryParams).forEach(([key, value]) => {
+          if (key && value !== undefined && value !== null) {
+            pageParams[key] = value;
+          }
+        });
+      }
+
+      if (paginationType === PaginationType.NEXT_URL) {
+        // 下一页链接方式：链接中已包含全部查询参数，相对路径按API地址解析
+        const nextUrl = new URL(nextPageToken, config.apiUrl);
+        pageUrl = `${nextUrl.protocol}//${nextUrl.host}${nextUrl.pathname}`;
+        pageParams = {};
+        nextUrl.searchParams.forEach((value, key) => {
+          pageParams[key] = value;
+        });
+      } else if (
+        paginationType === PaginationType.CURSOR ||
+        paginationType === PaginationType.RELAY
+      ) {
+        // 游标方式：将游标写入查询参数或请求体字段，GraphQL 写入 variables
+        const cursorParam =
+          config.cursorParam ||
+          (paginationType === PaginationType.RELAY ? "after" : "cursor");
+        if (isGraphql) {
+          pageRequestData = this.setValueByPath(
+            pageRequestData,
+            `variables.${cursorParam}`,
+            nextPageToken
+          );
+        } else if (config.cursorLocation === CursorLocation.BODY) {
+          pageRequestData = this.setValueByPath(
+            pageRequestData,
+            cursorParam,
+            nextPageToken
+          );
+        } else {
+          pageParams[cursorParam] = nextPageToken;
+        }
+      } else {
+        ({ params: pageParams, data: pageRequestData } = this.applyPageValue(
+          config,
+          pageParams,
+          pageRequestData,
+          currentPageIndex
+        ));
+      }
+
+      this.logger.log(`第${currentPageIndex}页请求参数 - URL: ${pageUrl}`);
+      this.logger.log(
+        `第${currentPageIndex}页请求参数 - Method: ${config.method}`
+      );
+      this.logger.log(
+        `第${currentPageIndex}页请求参数 - Headers: ${JSON.stringify(config.headers || {})}`
+      );
+      const { logged, ...pageRequest } = this.renderPageRequest(
+        config,
+        { url: pageUrl, params: pageParams, data: pageRequestData },
+        { ...context.templateContext, page: currentPageIndex }
+      );
+      this.logger.log(
+        `第${currentPageIndex}页请求参数 - Params: ${JSON.stringify(logged.params)}`
+      );
+      this.logger.log(
+        `第${currentPageIndex}页请求参数 - Data: ${JSON.stringify(logged.data)}`
+      );
+      // 保存后置空，之后的失败不再重复记录到该页日志
+      let pageLog: FetchRunPage | null = this.buildRunPageLog(
+        context.run.id,
+        currentPageIndex,
+        { ...logged, url: pageUrl, method: config.method }
+      );
+      const pageStartTime = Date.now();
+
+      let pageData: any[];
+      try {
+        const pageResponse = await this.sendRequest(config.configuredBy, {
+          ...pageRequest,
+          method: config.method as any,
+          timeout: 0, // 不超时
+          retries: 2,
+          rateLimit: config.rateLimit,
+          rateLimitKey: sessionId,
+          auth: config.auth,
+        });
+
+        this.logger.log(
+          `第${currentPageIndex}页响应状态: ${pageResponse.status}`
+        );
+        if (isGraphql) {
+          this.assertGraphqlResponse(pageResponse.data);
+        }
+        this.fillRunPageResponse(
+          pageLog,
+          pageResponse,
+          Date.now() - pageStartTime
+        );
+        this.logger.log(
+          `第${currentPageIndex}页响应数据类型: ${typeof pageResponse.data}`
+        );
+
+        pageData = this.extractPageRecords(
+          config,
+          pageResponse.data,
+          currentPageIndex
+        );
+        this.logger.log(
+          `第${currentPageIndex}页提取到数据数量: ${pageData.length}`
+        );
+        pageLog.recordsReceived = pageData.length;
+
+        if (isTokenPagination) {
+          nextPageToken = this.extractPaginationToken(
+            pageResponse.data,
+            config.cursorPath,
+            config.paginationType
+          );
+        }
+      } catch (error) {
+        pageLog.errorMessage = error.message;
+        await this.saveRunPageLog(pageLog);
+        throw error;
+      }
+
+      if (pageData.length === 0) {
+        this.logger.log(`第 ${currentPageIndex} 页无数据，停止拉取`);
+        await this.saveRunPageLog(pageLog);
+        break;
+      }
+
+      try {
+        const pageRecords = this.transformRecords(
+          config,
+          pageData,
+          currentPageIndex
+        );
+        const insertResult = await this.persistPage(
+          context,
+          pageLog,
+          pageRecords,
+          currentPageIndex
+        );
+        pageLog = null;
+
+        // 重新查询实际的记录数
+        context.totalRecords = await this.countSessionRecords(
+          context.schemaState.tableSchema.tableName,
+          sessionId
+        );
+        context.pagesProcessed++;
+        context.fetchedRecords += pageData.length;
+        this.progressMonitorService.recordPageTiming(
+          sessionId,
+          currentPageIndex,
+          Date.now() - pageStartTime
+        );
+        this.progressMonitorService.updateProgress(sessionId, {
+          currentPage: context.pagesProcessed,
+          fetchedRecords: context.fetchedRecords,
+          message: totalPages
+            ? `已拉取 ${context.pagesProcessed}/${totalPages} 页`
+            : `已拉取第 ${context.pagesProcessed} 页`,
+        });
+        currentPageIndex++;
+
+        if (
+          this.shouldStopIncremental(
+            config,
+            pageRecords,
+            insertResult,
+            watermarkBaseline
+          )
+        ) {
+          this.logger.log(
+            `增量拉取：第 ${currentPageIndex - 1} 页已无新数据，停止拉取`
+          );
+          break;
+        }
+
+        // 如果配置了pageSize，则根据页大小判断是否为最后一页（游标方式以是否有下一页游标为准）
+        if (
+          !isTokenPagination &&
+          config.pageSize &&
+          pageData.length < config.pageSize
+        ) {
+          this.logger.log(
+            `第 ${currentPageIndex - 1} 页数据不足，判断为最后一页`
+          );
+          break;
+        }
+        // 如果没有配置 pageSize，则依赖于 pageData.length === 0 的判断来停止拉取
+
+        // 未配置每秒请求数时添加固定延迟，避免请求过于频繁
+        if (!config.rateLimit?.requestsPerSecond) {
+          await new Promise(resolve => setTimeout(resolve, 200));
+        }
+      } catch (error) {
+        this.logger.warn(
+          `第 ${currentPageIndex} 页拉取失败，停止拉取: ${error.message}`
+        );
+        if (pageLog) {
+          pageLog.errorMessage = error.message;
+          await this.saveRunPageLog(pageLog);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * 拉取并写入单页数据，同时记录分页日志，返回该页收到的记录数
+   */
+  private async fetchAndInsertPage(
+    context: PageFetchContext,
+    { logged, ...request }: RenderedPageRequest,
+    pageIndex: number
+  ): Promise<number> {
+    const { config, sessionId } = context;
+    const pageLog = this.buildRunPageLog(context.run.id, pageIndex, {
+      ...logged,
+      url: request.url,
+      method: config.method,
+    });
+    const pageStartTime = Date.now();
+
+    try {
+      const response = await this.sendRequest(config.configuredBy, {
+        ...request,
+        method: config.method as any,
+        timeout: 0, // 不超时
+        retries: 2,
+        rateLimit: config.rateLimit,
+        rateLimitKey: sessionId,
+        auth: config.auth,
+      });
+      if (config.sourceType === SourceType.GRAPHQL) {
+        this.assertGraphqlResponse(response.data);
+      }
+      this.fillRunPageResponse(pageLog, response, Date.now() - pageStartTime);
+
+      const pageData = this.extractPageRecords(config, response.data, pageIndex);
+      pageLog.recordsReceived = pageData.length;
+      this.logger.log(`第${pageIndex}页提取到数据数量: ${pageData.length}`);
+
+      await this.persistPage(
+        context,
+        pageLog,
+        this.transformRecords(config, pageData, pageIndex),
+        pageIndex
+      );
+      this.progressMonitorService.recordPageTiming(
+        sessionId,
+        pageIndex,
+        Date.now() - pageStartTime
+      );
+
+      return pageData.length;
+    } catch (error) {
+      pageLog.errorMessage = error.message;
+      await this.saveRunPageLog(pageLog);
+      throw error;
+    }
+  }
+
+  /**
+   * 写入一页转换后的记录，写入结果计入分页日志和运行统计后保存分页日志
+   */
+  private async persistPage(
+    context: PageFetchContext,
+    pageLog: FetchRunPage,
+    pageRecords: any[],
+    pageIndex: number
+  ): Promise<InsertBatchResult> {
+    let insertResult: InsertBatchResult = { insertedCount: 0, duplicateCount: 0 };
+    if (pageRecords.length > 0) {
+      insertResult = await this.insertPageRecords(
+        context.schemaState,
+        context.config.explodeFields,
+        pageRecords,
+        context.sessionId,
+        pageIndex,
+        context.run.id
+      );
+      this.applyInsertResult(pageLog, context.runStats, insertResult);
+    }
+    await this.saveRunPageLog(pageLog);
+    return insertResult;
+  }
+
+  /**
+   * 查询动态表中该会话的实际记录数（重复数据被跳过，可能少于拉取到的记录数）
+   */
+  private async countSessionRecords(
+    tableName: string,
+    sessionId: string
+  ): Promise<number> {
+    const result = await this.dataSource.query(
+      `SELECT COUNT(*) as count FROM \`${tableName}\` WHERE session_id = ?`,
+      [sessionId]
+    );
+    return parseInt(result[0]?.count || 0);
+  }
+
+  /**
+   * 按页渲染请求头、查询参数和请求体中的模板变量，密钥引用留到发送时解析
+   * logged 为写入日志和分页记录的副本，环境变量和签名保留模板原文
+   */
+  private renderPageRequest(
+    config: FetchConfig,
+    request: { url: string; params: Record<string, any>; data: any },
+    context: RequestTemplateContext
+  ): RenderedPageRequest {
+    const { headers, params, data } = this.requestTemplateService.render(
+      { headers: config.headers || {}, params: request.params, data: request.data },
+      context
+    );
+    const logged = this.requestTemplateService.renderRedacted(
+      { params: request.params, data: request.data },
+      context
+    );
+    return { url: request.url, headers, params, data, logged };
+  }
+
+  /**
+   * 预先解析签名函数中引用的密钥，供模板渲染时计算签名
+   */
+  private async resolveTemplateSecrets(
+    userId: string | undefined,
+    value: any
+  ): Promise<Record<string, string>> {
+    const names = this.requestTemplateService.collectSecretNames(value);
+    if (names.length === 0) {
+      return {};
+    }
+    return this.secretService.resolveSecrets(
+      userId,
+      Object.fromEntries(names.map(name => [name, `{{secret:${name}}}`]))
+    );
+  }
+
+  /**
+   * 以有限并发处理页面，任一页面失败后不再领取新页面，并抛出首个错误
+   */
+  private async fetchPagesConcurrently(
+    pageIndexes: number[],
+    concurrency: number,
+    handlePage: (pageIndex: number) => Promise<void>
+  ): Promise<void> {
+    let nextPosition = 0;
+    let firstError: Error | null = null;
+
+    const worker = async () => {
+      while (!firstError && nextPosition < pageIndexes.length) {
+        const pageIndex = pageIndexes[nextPosition++];
+        try {
+          await handlePage(pageIndex);
+        } catch (error) {
+          this.logger.warn(`第 ${pageIndex} 页拉取失败: ${error.message}`);
+          firstError = firstError || error;
+        }
+      }
+    };
+
+    const workerCount = Math.min(concurrency, pageIndexes.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    if (firstError) {
+      throw firstError;
+    }
+  }
+
+  /**
+   * 是否为基于令牌（游标/下一页链接/Relay）的分页方式
+   */
+  private isTokenPagination(paginationType?: PaginationType | string): boolean {
+    return (
+      paginationType === PaginationType.CURSOR ||
+      paginationType === PaginationType.NEXT_URL ||
+      paginationType === PaginationType.RELAY
+    );
+  }
+
+  /**
+   * 检测响应中可能表示下一页游标或链接的字段路径（最多检查两层）
+   */
+  private detectSuggestedCursorPaths(responseData: any): string[] {
+    const cursorKeyPattern =
+      /^(next|next_?(cursor|page_?token|token|url|link|page_?url)|cursor|end_?cursor|scroll_?id|@odata\.nextLink)$/i;
+    const suggestions: string[] = [];
+
+    const scan = (value: any, prefix: string, depth: number) => {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return;
+      }
+      Object.entries(value).forEach(([key, child]) => {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (
+          cursorKeyPattern.test(key) &&
+          (typeof child === "string" || typeof child === "number")
+        ) {
+          suggestions.push(path);
+        } else if (depth < 2) {
+          scan(child, path, depth + 1);
+        }
+      });
+    };
+
+    scan(responseData, "", 1);
+    return suggestions;
+  }
+
+  /**
+   * 从响应中读取下一页游标或链接，支持 '$.meta.next' 形式的JSONPath
+   * 读取不到或为空时返回 null，表示没有下一页
+   */
+  private extractPaginationToken(
+    responseData: any,
+    cursorPath?: string,
+    paginationType?: PaginationType | string
+  ): string | null {
+    if (paginationType === PaginationType.RELAY) {
+      return this.extractRelayCursor(responseData, cursorPath);
+    }
+    if (!cursorPath || responseData === null || responseData === undefined) {
+      return null;
+    }
+
+    const path = cursorPath.trim().replace(/^\$\.?/, "");
+    try {
+      const token = path ? this.extractDataByPath(responseData, path) : null;
+      if (token === null || token === undefined || token === "" || token === false) {
+        return null;
+      }
+      return typeof token === "object" ? null : String(token);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 读取 Relay 风格的 pageInfo，hasNextPage 为 false 时返回 null
+   * cursorPath 指向 pageInfo 对象，未配置时使用响应中找到的第一个 pageInfo
+   */
+  private extractRelayCursor(
+    responseData: any,
+    cursorPath?: string
+  ): string | null {
+    let pageInfo: any;
+    try {
+      pageInfo = cursorPath
+        ? this.extractDataByPath(responseData, cursorPath.trim().replace(/^\$\.?/, ""))
+        : this.findPageInfo(responseData);
+    } catch {
+      return null;
+    }
+
+    if (!pageInfo || typeof pageInfo !== "object" || pageInfo.hasNextPage === false) {
+      return null;
+    }
+    const cursor = pageInfo.endCursor;
+    return cursor === null || cursor === undefined || cursor === ""
+      ? null
+      : String(cursor);
+  }
+
+  /**
+   * 在响应中查找第一个 pageInfo 对象
+   */
+  private findPageInfo(value: any, depth = 0): any {
+    if (!value || typeof value !== "object" || depth > 6) {
+      return null;
+    }
+    if (value.pageInfo && typeof value.pageInfo === "object") {
+      return value.pageInfo;
+    }
+    for (const child of Object.values(value)) {
+      const pageInfo = Array.isArray(child) ? null : this.findPageInfo(child, depth + 1);
+      if (pageInfo) {
+        return pageInfo;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 按点号路径写入请求体字段，返回新的对象，不修改原始配置
+   */
+  private setValueByPath(target: any, path: string, value: any): any {
+    const result =
+      target && typeof target === "object" ? JSON.parse(JSON.stringify(target)) : {};
+    const parts = path.replace(/^\$\.?/, "").split(".");
+    let current = result;
+
+    parts.slice(0, -1).forEach(part => {
+      if (!current[part] || typeof current[part] !== "object") {
+        current[part] = {};
+      }
+      current = current[part];
+    });
+    current[parts[parts.length - 1]] = value;
+
+    return result;
+  }
+
+  /**
+   * 判断增量拉取是否应停止翻页
+   * 配置了水位字段时，页内出现低于历史最大值的记录即停止；否则整页均为重复数据时停止
+   */
+  private shouldStopIncremental(
+    config: FetchConfig,
+    pageData: any[],
+    insertResult: InsertBatchResult,
+    watermarkBaseline: any
+  ): boolean {
+    if (!config.incrementalMode || pageData.length === 0) {
+      return false;
+    }
+
+    if (config.watermarkField) {
+      if (watermarkBaseline === null || watermarkBaseline === undefined) {
+        return false;
+      }
+
+      const baseline = this.toComparableValue(watermarkBaseline);
+      return pageData.some(item => {
+        const value = item?.[config.watermarkField];
+        if (value === null || value === undefined) {
+          return false;
+        }
+        const comparable = this.toComparableValue(value);
+        return typeof comparable === typeof baseline && comparable < baseline;
+      });
+    }
+
+    return insertResult.insertedCount === 0;
+  }
+
+  /**
+   * 查询动态表中水位字段的最大值
+   */
+  private async getStoredWatermark(
+    tableName: string,
+    sessionId: string,
+    watermarkField: string
+  ): Promise<any> {
+    const column = DynamicTableUtil.getSafeFieldName(watermarkField);
+    try {
+      const result = await this.dataSource.query(
+        `SELECT MAX(\`${column}\`) as maxValue FROM \`${tableName}\` WHERE session_id = ?`,
+        [sessionId]
+      );
+      return result[0]?.maxValue ?? null;
+    } catch (error) {
+      this.logger.warn(
+        `查询水位字段 ${watermarkField} 失败，按全量拉取处理: ${error.message}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 将水位值转换为可比较的值（时间转为时间戳，数字字符串转为数字）
+   */
+  private toComparableValue(value: any): number | string {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    if (typeof value === "number") {
+      return value;
+    }
+
+    const text = String(value).trim();
+    if (text !== "" && !isNaN(Number(text))) {
+      return Number(text);
+    }
+    const time = Date.parse(text);
+    return isNaN(time) ? text : time;
+  }
+
+  /**
+   * 创建分页日志（仅记录请求摘要，不包含请求头）
+   */
+  private buildRunPageLog(
+    runId: string,
+    pageNumber: number,
+    request: { url: string; method: string; params?: any; data?: any }
+  ): FetchRunPage {
+    return this.fetchRunPageRepository.create({
+      runId,
+      pageNumber,
+      requestMethod: request.method,
+      requestUrl: request.url,
+      requestParams: request.params ? { ...request.params } : null,
+      requestBody:
+        request.data !== undefined && request.data !== null
+          ? this.truncateText(JSON.stringify(request.data), 2000)
+          : null,
+      recordsReceived: 0,
+      recordsInserted: 0,
+      duplicatesSkipped: 0,
+    });
+  }
+
+  /**
+   * 填充分页日志的响应摘要
+   */
+  private fillRunPageResponse(
+    pageLog: FetchRunPage,
+    response: { status: number; data: any },
+    durationMs: number
+  ): void {
+    const body =
+      typeof response.data === "string"
+        ? response.data
+        : JSON.stringify(response.data ?? null);
+
+    pageLog.responseStatus = response.status;
+    pageLog.durationMs = durationMs;
+    pageLog.responseSize = Buffer.byteLength(body || "");
+    pageLog.responsePreview = this.truncateText(body, 500);
+  }
+
+  /**
+   * 累计单页插入结果
+   */
+  private applyInsertResult(
+    pageLog: FetchRunPage,
+    runStats: { recordsInserted: number; duplicatesSkipped: number },
+    result: InsertBatchResult
+  ): void {
+    pageLog.recordsInserted = result.insertedCount;
+    pageLog.duplicatesSkipped = result.duplicateCount;
+    runStats.recordsInserted += result.insertedCount;
+    runStats.duplicatesSkipped += result.duplicateCount;
+  }
+
+  /**
+   * 保存分页日志，写入失败不影响拉取
+   */
+  private async saveRunPageLog(pageLog: FetchRunPage): Promise<void> {
+    try {
+      await this.fetchRunPageRepository.save(pageLog);
+    } catch (error) {
+      this.logger.warn(
+        `保存第 ${pageLog.pageNumber} 页日志失败: ${error.message}`
+      );
+    }
+  }
+
+  private truncateText(text: string, maxLength: number): string {
+    if (!text || text.length <= maxLength) {
+      return text;
+    }
+    return `${text.slice(0, maxLength)}...(已截断)`;
+  }
+
+  /**
+   * 获取拉取运行记录
+   */
+  async getFetchRuns(sessionId: string, limit: number = 20): Promise<FetchRun[]> {
+    return await this.fetchRunRepository.find({
+      where: { sessionId },
+      order: { startedAt: "DESC" },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  /**
+   * 获取单次运行详情（包含分页日志）
+   */
+  async getFetchRunDetail(sessionId: string, runId: string): Promise<FetchRun> {
+    const run = await this.fetchRunRepository.findOne({
+      where: { id: runId, sessionId },
+    });
+
+    if (!run) {
+      throw new NotFoundException(`运行记录 ${runId} 不存在`);
+    }
+
+    run.pages = await this.fetchRunPageRepository.find({
+      where: { runId },
+      order: { pageNumber: "ASC", createdAt: "ASC" },
+    });
+
+    return run;
+  }
+
+  /**
+   * 获取拉取状态
+   */
+  async getFetchStatus(
+    sessionId: string,
+    sourceName: string = DEFAULT_SOURCE_NAME
+  ): Promise<{
+    status: "pending" | "running" | "completed" | "failed";
+    progress?: number;
+    totalPages?: number;
+    completedPages?: number;
+    totalRecords?: number;
+    error?: string;
+  }> {
+    // 检查会话是否存在
+    const session = await this.dataSessionRepository.findOne({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new NotFoundException(`会话 ${sessionId} 不存在`);
+    }
+
+    // 正在拉取时返回实时进度
+    if (this.progressMonitorService.isSessionActive(sessionId)) {
+      const progress = this.progressMonitorService.getProgress(sessionId);
+      return {
+        status: "running",
+        progress: progress.percentage,
+        totalPages: progress.totalPages,
+        completedPages: progress.currentPage,
+        totalRecords: progress.fetchedRecords,
+      };
+    }
+
+    // 检查是否有数据表
+    const tableSchema = await this.dataTableSchemaRepository.findOne({
+      where: { sessionId, sourceName },
+    });
+
+    if (!tableSchema) {
+      return { status: "pending" };
+    }
+
+    try {
+      // 查询数据记录数
+      const result = await this.dataSource.query(
         `SELECT COUNT(*) as count FROM \`${tableSchema.tableName}\``
       );
       const totalRecords = parseInt(result[0]?.count || 0);
@@ -904,7 +3008,8 @@ export class DataFetchService {
   async getFetchedData(
     sessionId: string,
     page: number = 1,
-    pageSize: number = 20
+    pageSize: number = 20,
+    sourceName: string = DEFAULT_SOURCE_NAME
   ): Promise<{
     data: any[];
     pagination: {
@@ -915,7 +3020,7 @@ export class DataFetchService {
   }> {
     // 检查数据表是否存在
     const tableSchema = await this.dataTableSchemaRepository.findOne({
-      where: { sessionId },
+      where: { sessionId, sourceName },
     });
 
     if (!tableSchema) {
@@ -955,7 +3060,10 @@ export class DataFetchService {
   /**
    * 获取数据统计信息
    */
-  async getDataStats(sessionId: string): Promise<{
+  async getDataStats(
+    sessionId: string,
+    sourceName: string = DEFAULT_SOURCE_NAME
+  ): Promise<{
     totalRecords: number;
     totalFields: number;
     tableSize: string;
@@ -963,7 +3071,7 @@ export class DataFetchService {
   }> {
     // 检查数据表是否存在
     const tableSchema = await this.dataTableSchemaRepository.findOne({
-      where: { sessionId },
+      where: { sessionId, sourceName },
     });
 
     if (!tableSchema) {
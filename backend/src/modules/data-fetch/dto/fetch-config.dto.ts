@@ -1,4 +1,8 @@
-import { IsString, IsNotEmpty, IsObject, IsOptional, IsEnum, IsInt, Min, Max, IsBoolean } from 'class-validator';
+import { IsString, IsNotEmpty, IsObject, IsOptional, IsEnum, IsInt, Min, Max, IsBoolean, IsNumber, IsIn, ValidateIf, ValidateNested, Matches, IsArray, ArrayNotEmpty, ArrayMaxSize } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AuthType } from '../../../common/http-client';
+import { TransformStepType, TransformCastType } from '../../../common/utils';
+import { SourceType, SqlDatabaseType } from '../../../entities/fetch-config.entity';
 
 export enum HttpMethod {
   GET = 'GET',
@@ -8,8 +12,210 @@ export enum HttpMethod {
 }
 
 export enum PaginationType {
-  PAGE = 'page',     // 页码方式：传递页码和每页数量
-  OFFSET = 'offset', // 索引方式：传递开始索引和每页数量
+  PAGE = 'page',         // 页码方式：传递页码和每页数量
+  OFFSET = 'offset',     // 索引方式：传递开始索引和每页数量
+  CURSOR = 'cursor',     // 游标方式
+  NEXT_URL = 'next_url', // 下一页链接方式
+  RELAY = 'relay',       // Relay 风格 pageInfo.endCursor/hasNextPage
+}
+
+export enum CursorLocation {
+  QUERY = 'query',
+  BODY = 'body',
+}
+
+export class AuthConfigDto {
+  @IsEnum(AuthType)
+  type: AuthType;
+
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @IsString()
+  @IsOptional()
+  password?: string;
+
+  @IsString()
+  @IsOptional()
+  token?: string;
+
+  @IsString()
+  @IsOptional()
+  apiKeyName?: string; // 默认 X-API-Key
+
+  @IsString()
+  @IsOptional()
+  apiKey?: string;
+
+  @IsIn(['header', 'query'])
+  @IsOptional()
+  apiKeyLocation?: 'header' | 'query';
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((auth) => auth.type === AuthType.OAUTH2_CLIENT_CREDENTIALS)
+  tokenUrl?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((auth) => auth.type === AuthType.OAUTH2_CLIENT_CREDENTIALS)
+  clientId?: string;
+
+  @IsString()
+  @IsOptional()
+  clientSecret?: string;
+
+  @IsString()
+  @IsOptional()
+  scope?: string;
+
+  @IsString()
+  @IsOptional()
+  audience?: string;
+
+  @IsIn(['basic', 'body'])
+  @IsOptional()
+  clientAuthMethod?: 'basic' | 'body'; // 客户端凭据放在 Basic 头或表单中
+}
+
+export class RateLimitPolicyDto {
+  @IsNumber()
+  @Min(0.01)
+  @IsOptional()
+  requestsPerSecond?: number; // 每秒最大请求数，支持小数，如 0.5 表示每2秒1次
+
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  maxConcurrency?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  maxRetries?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  initialBackoffMs?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxBackoffMs?: number;
+}
+
+// 数据源名称会拼接到动态表名中，限制为小写字母开头的短标识符
+export const SOURCE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,19}$/;
+const SOURCE_NAME_MESSAGE = '数据源名称只能包含小写字母、数字和下划线，以字母开头，最长20个字符';
+
+// 可手动配置的数据源类型，文件数据源只能通过上传创建
+export const CONFIGURABLE_SOURCE_TYPES = [SourceType.API, SourceType.GRAPHQL, SourceType.SQL];
+
+export class SqlConnectionDto {
+  @IsIn(['postgres', 'mysql', 'sqlite'])
+  type: SqlDatabaseType;
+
+  @IsString()
+  @IsOptional()
+  host?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  @IsOptional()
+  port?: number;
+
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @IsString()
+  @IsOptional()
+  password?: string; // 建议使用 {{secret:name}} 引用
+
+  @IsString()
+  @IsNotEmpty()
+  database: string; // SQLite 为相对 SQL_SOURCE_SQLITE_DIR 的文件路径
+
+  @IsBoolean()
+  @IsOptional()
+  ssl?: boolean;
+}
+
+export class SqlPreviewDto {
+  @ValidateNested()
+  @Type(() => SqlConnectionDto)
+  sqlConnection: SqlConnectionDto;
+
+  @IsString()
+  @IsNotEmpty()
+  sqlQuery: string;
+
+  @IsObject()
+  @IsOptional()
+  sqlParams?: Record<string, any>; // 参数值支持 {{var.name}} 等模板
+
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>;
+}
+
+export class ExplodeFieldDto {
+  @IsString()
+  @IsNotEmpty()
+  path: string; // 记录内的对象数组字段路径，如 'lines' 或 'detail.items'
+
+  @Matches(SOURCE_NAME_PATTERN, { message: '子表名称只能包含小写字母、数字和下划线，以字母开头，最长20个字符' })
+  name: string; // 子表名称，与数据源名称共用命名空间
+}
+
+export class TransformStepDto {
+  @IsIn(['rename', 'drop', 'cast', 'compute', 'filter'])
+  type: TransformStepType;
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((step) => ['rename', 'cast', 'compute'].includes(step.type))
+  field?: string; // 重命名的原字段、类型转换的字段或计算结果的字段
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((step) => step.type === 'rename')
+  to?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @ValidateIf((step) => step.type === 'drop')
+  fields?: string[];
+
+  @IsIn(['number', 'integer', 'boolean', 'string', 'date'])
+  @ValidateIf((step) => step.type === 'cast')
+  castType?: TransformCastType;
+
+  @IsString()
+  @IsOptional()
+  format?: string; // 日期输入格式，如 'DD/MM/YYYY HH:mm'
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((step) => step.type === 'compute' || step.type === 'filter')
+  expression?: string; // 如 price * quantity、status != 'deleted'
+}
+
+export class TransformPreviewDto {
+  @IsArray()
+  @ArrayMaxSize(200)
+  records: any[]; // 样本数据，通常为冒烟测试返回的数据
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TransformStepDto)
+  transformSteps: TransformStepDto[];
 }
 
 export class CreateFetchConfigDto {
@@ -17,9 +223,26 @@ export class CreateFetchConfigDto {
   @IsNotEmpty()
   sessionId: string;
 
+  @Matches(SOURCE_NAME_PATTERN, { message: SOURCE_NAME_MESSAGE })
+  @IsOptional()
+  sourceName?: string; // 数据源名称，默认 'main'
+
+  @IsString()
+  @IsOptional()
+  joinField?: string; // 本数据源的关联字段
+
+  @IsString()
+  @IsOptional()
+  primaryJoinField?: string; // 主数据源中对应的关联字段
+
+  @IsIn(CONFIGURABLE_SOURCE_TYPES)
+  @IsOptional()
+  sourceType?: SourceType; // 数据源类型，默认 'api'
+
   @IsString()
   @IsNotEmpty()
-  apiUrl: string;
+  @ValidateIf((dto) => dto.sourceType !== SourceType.SQL)
+  apiUrl?: string; // SQL 数据源不需要接口地址
 
   @IsEnum(HttpMethod)
   @IsOptional()
@@ -36,6 +259,29 @@ export class CreateFetchConfigDto {
   @IsOptional()
   data?: any;
 
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((dto) => dto.sourceType === SourceType.GRAPHQL)
+  graphqlQuery?: string; // GraphQL 查询语句
+
+  @ValidateNested()
+  @Type(() => SqlConnectionDto)
+  @ValidateIf((dto) => dto.sourceType === SourceType.SQL)
+  sqlConnection?: SqlConnectionDto; // SQL 数据源的连接定义
+
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((dto) => dto.sourceType === SourceType.SQL)
+  sqlQuery?: string; // 只读查询，以 :name 引用参数
+
+  @IsObject()
+  @IsOptional()
+  sqlParams?: Record<string, any>; // 查询参数，值支持 {{var.name}} 等模板
+
+  @IsObject()
+  @IsOptional()
+  graphqlVariables?: Record<string, any>; // GraphQL 变量，分页字段和游标参数写入其中
+
   @IsBoolean()
   @IsOptional()
   enablePagination?: boolean = false;
@@ -67,6 +313,18 @@ export class CreateFetchConfigDto {
   @IsOptional()
   stepSize?: number;
 
+  @IsString()
+  @IsOptional()
+  cursorPath?: string; // 游标/下一页链接在响应中的路径，如 'meta.next_cursor'
+
+  @IsString()
+  @IsOptional()
+  cursorParam?: string; // 游标在下一次请求中的字段名，如 'cursor'；Relay 方式默认 'after'
+
+  @IsEnum(CursorLocation)
+  @IsOptional()
+  cursorLocation?: CursorLocation;
+
   @IsString()
   @IsOptional()
   name?: string;
@@ -74,10 +332,73 @@ export class CreateFetchConfigDto {
   @IsString()
   @IsOptional()
   dataPath?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  incrementalMode?: boolean; // 增量拉取模式
+
+  @IsString()
+  @IsOptional()
+  watermarkField?: string; // 水位字段，如 'updated_at'，不填则按整页重复判断
+
+  @ValidateNested()
+  @Type(() => RateLimitPolicyDto)
+  @IsOptional()
+  rateLimit?: RateLimitPolicyDto; // 限流与退避策略
+
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>; // 会话变量，以 {{var.name}} 引用
+
+  @ValidateNested()
+  @Type(() => AuthConfigDto)
+  @IsOptional()
+  auth?: AuthConfigDto; // 认证方式
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ExplodeFieldDto)
+  @IsOptional()
+  explodeFields?: ExplodeFieldDto[]; // 拆分到子表的嵌套数组
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TransformStepDto)
+  @IsOptional()
+  transformSteps?: TransformStepDto[]; // 入库前按顺序执行的转换步骤
 }
 
 export class ExecuteFetchDto {
   @IsString()
   @IsNotEmpty()
   sessionId: string;
-}
\ No newline at end of file
+
+  @Matches(SOURCE_NAME_PATTERN, { message: SOURCE_NAME_MESSAGE })
+  @IsOptional()
+  sourceName?: string; // 要拉取的数据源，默认 'main'
+}
+export class ImportFileDto {
+  @IsString()
+  @IsNotEmpty()
+  sessionId: string;
+
+  @Matches(SOURCE_NAME_PATTERN, { message: SOURCE_NAME_MESSAGE })
+  @IsOptional()
+  sourceName?: string; // 导入到的数据源，默认 'main'
+
+  @IsString()
+  @IsOptional()
+  sheetName?: string; // Excel 工作表名称，默认第一个工作表
+
+  @IsString()
+  @IsOptional()
+  delimiter?: string; // CSV 分隔符，默认自动识别
+}
+
+// 上传的文件（multer 内存存储）
+export interface UploadedDataFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
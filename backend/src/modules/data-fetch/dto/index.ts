@@ -1,3 +1,3 @@
 export { SmokeTestDto, HttpMethod } from './smoke-test.dto';
 export { ParseCurlDto } from './parse-curl.dto';
-export { CreateFetchConfigDto, ExecuteFetchDto } from './fetch-config.dto';
\ No newline at end of file
+export { CreateFetchConfigDto, ExecuteFetchDto, PaginationType, CursorLocation, RateLimitPolicyDto, AuthConfigDto, ExplodeFieldDto, ImportFileDto, UploadedDataFile, SqlConnectionDto, SqlPreviewDto, TransformStepDto, TransformPreviewDto } from './fetch-config.dto';
\ No newline at end of file
@@ -1,4 +1,7 @@
-import { IsString, IsNotEmpty, IsObject, IsOptional, IsInt, Min, Max, IsEnum } from 'class-validator';
+import { IsString, IsNotEmpty, IsObject, IsOptional, IsInt, Min, Max, IsEnum, IsIn, ValidateIf, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationType, RateLimitPolicyDto, AuthConfigDto, CONFIGURABLE_SOURCE_TYPES } from './fetch-config.dto';
+import { SourceType } from '../../../entities/fetch-config.entity';
 
 export enum HttpMethod {
   GET = 'GET',
@@ -8,6 +11,10 @@ export enum HttpMethod {
 }
 
 export class SmokeTestDto {
+  @IsIn(CONFIGURABLE_SOURCE_TYPES)
+  @IsOptional()
+  sourceType?: SourceType;
+
   @IsString()
   @IsNotEmpty()
   apiUrl: string;
@@ -27,6 +34,15 @@ export class SmokeTestDto {
   @IsOptional()
   data?: any;
 
+  @IsString()
+  @IsNotEmpty()
+  @ValidateIf((dto) => dto.sourceType === SourceType.GRAPHQL)
+  graphqlQuery?: string;
+
+  @IsObject()
+  @IsOptional()
+  graphqlVariables?: Record<string, any>;
+
   @IsInt()
   @Min(1)
   @Max(100)
@@ -36,6 +52,28 @@ export class SmokeTestDto {
   @IsString()
   @IsOptional()
   dataPath?: string;
+
+  @IsEnum(PaginationType)
+  @IsOptional()
+  paginationType?: PaginationType;
+
+  @IsString()
+  @IsOptional()
+  cursorPath?: string; // 用于在冒烟测试中预览下一页游标
+
+  @ValidateNested()
+  @Type(() => RateLimitPolicyDto)
+  @IsOptional()
+  rateLimit?: RateLimitPolicyDto; // 冒烟测试同样遵循限流策略
+
+  @IsObject()
+  @IsOptional()
+  variables?: Record<string, string>; // 会话变量，用于渲染请求模板
+
+  @ValidateNested()
+  @Type(() => AuthConfigDto)
+  @IsOptional()
+  auth?: AuthConfigDto;
 }
 
 export interface SmokeTestResponse {
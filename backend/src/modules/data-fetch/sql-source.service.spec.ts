@@ -0,0 +1,202 @@
+import { Readable } from 'stream';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataSource } from 'typeorm';
+import { SqlSourceService } from './sql-source.service';
+
+/**
+ * 模拟外部数据源：queryRunner.connect 返回驱动原生连接
+ */
+function mockDataSource(type: 'postgres' | 'mysql', connection: any) {
+  const queryRunner = {
+    connection: { options: { type } },
+    connect: jest.fn().mockResolvedValue(connection),
+    query: jest.fn().mockResolvedValue([]),
+    release: jest.fn().mockResolvedValue(undefined),
+  };
+  const dataSource: Partial<DataSource> = {
+    options: { type } as DataSource['options'],
+    createQueryRunner: jest.fn(() => queryRunner as any),
+  };
+  return { dataSource: dataSource as DataSource, queryRunner };
+}
+
+describe('SqlSourceService', () => {
+  const service = new SqlSourceService();
+
+  describe('prepareQuery', () => {
+    it('Postgres 应该使用 $n 占位符并复用同名参数的位置', () => {
+      const query = service.prepareQuery(
+        'postgres',
+        'SELECT * FROM orders WHERE created_at >= :since AND updated_at >= :since AND status = :status;',
+        { since: '2024-01-01', status: 'paid' },
+      );
+
+      expect(query).toEqual({
+        sql: 'SELECT * FROM orders WHERE created_at >= $1 AND updated_at >= $1 AND status = $2',
+        parameters: ['2024-01-01', 'paid'],
+      });
+    });
+
+    it('MySQL 应该使用 ? 占位符并按出现顺序传参', () => {
+      const query = service.prepareQuery('mysql', 'SELECT * FROM t WHERE a = :a OR b = :a', { a: 1 });
+
+      expect(query).toEqual({ sql: 'SELECT * FROM t WHERE a = ? OR b = ?', parameters: [1, 1] });
+    });
+
+    it('应该忽略字符串、注释和类型转换中的冒号', () => {
+      const query = service.prepareQuery(
+        'postgres',
+        "SELECT created_at::date, ':skip' AS label -- :comment\nFROM t WHERE id = :id",
+        { id: 7 },
+      );
+
+      expect(query.sql).toBe("SELECT created_at::date, ':skip' AS label -- :comment\nFROM t WHERE id = $1");
+      expect(query.parameters).toEqual([7]);
+    });
+
+    it('缺少参数时应该报错', () => {
+      expect(() => service.prepareQuery('mysql', 'SELECT * FROM t WHERE id = :id')).toThrow(
+        '查询参数 id 未提供',
+      );
+    });
+
+    it('应该拒绝写入语句和多条语句', () => {
+      expect(() => service.prepareQuery('mysql', 'UPDATE t SET a = 1')).toThrow('只支持 SELECT 查询');
+      expect(() => service.prepareQuery('mysql', 'SELECT 1; DROP TABLE t')).toThrow('只支持单条查询语句');
+      expect(service.prepareQuery('mysql', "WITH x AS (SELECT ';' AS c) SELECT * FROM x").sql).toBe(
+        "WITH x AS (SELECT ';' AS c) SELECT * FROM x",
+      );
+    });
+  });
+
+  describe('forEachBatch', () => {
+    it('Postgres 应该在只读事务中用游标按批次读取，并规范化日期和二进制字段', async () => {
+      const cursor = {
+        read: jest
+          .fn()
+          .mockResolvedValueOnce([{ id: 1, at: new Date('2024-01-01T00:00:00Z') }, { id: 2, raw: Buffer.from([255]) }])
+          .mockResolvedValueOnce([{ id: 3 }])
+          .mockResolvedValueOnce([]),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      const client = { query: jest.fn().mockReturnValue(cursor) };
+      const { dataSource, queryRunner } = mockDataSource('postgres', client);
+      const batches: any[] = [];
+
+      await service.forEachBatch(dataSource, { sql: 'SELECT * FROM t', parameters: ['paid'] }, 2, async (rows, index) => {
+        batches.push({ rows, index });
+      });
+
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0][0]).toEqual(
+        expect.objectContaining({ text: 'SELECT * FROM (SELECT * FROM t) sql_source', values: ['paid'] }),
+      );
+      expect(cursor.read).toHaveBeenCalledWith(2);
+      expect(cursor.close).toHaveBeenCalled();
+      expect(queryRunner.query.mock.calls.map(([sql]) => sql)).toEqual(['START TRANSACTION READ ONLY', 'ROLLBACK']);
+      expect(queryRunner.release).toHaveBeenCalled();
+      expect(batches).toEqual([
+        { rows: [{ id: 1, at: '2024-01-01T00:00:00.000Z' }, { id: 2, raw: 'ff' }], index: 0 },
+        { rows: [{ id: 3 }], index: 1 },
+      ]);
+    });
+
+    it('MySQL 应该使用流式读取', async () => {
+      const stream = jest.fn(() => Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }]));
+      const client = { query: jest.fn().mockReturnValue({ stream }) };
+      const { dataSource, queryRunner } = mockDataSource('mysql', client);
+      const batches: any[] = [];
+
+      await service.forEachBatch(dataSource, { sql: 'SELECT * FROM t', parameters: [] }, 2, async (rows) => {
+        batches.push(rows);
+      });
+
+      expect(client.query).toHaveBeenCalledWith('SELECT * FROM (SELECT * FROM t) sql_source', []);
+      expect(stream).toHaveBeenCalledWith({ highWaterMark: 2 });
+      expect(batches).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+      expect(queryRunner.query).toHaveBeenCalledWith('START TRANSACTION READ ONLY');
+    });
+
+    it('写入失败时也应该结束只读事务并释放连接', async () => {
+      const cursor = {
+        read: jest.fn().mockResolvedValue([{ id: 1 }]),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      const { dataSource, queryRunner } = mockDataSource('postgres', { query: jest.fn().mockReturnValue(cursor) });
+
+      await expect(
+        service.forEachBatch(dataSource, { sql: 'SELECT 1', parameters: [] }, 1, async () => {
+          throw new Error('写入失败');
+        }),
+      ).rejects.toThrow('写入失败');
+
+      expect(cursor.close).toHaveBeenCalled();
+      expect(queryRunner.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(queryRunner.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('SQLite', () => {
+    const originalDir = process.env.SQL_SOURCE_SQLITE_DIR;
+    let baseDir: string;
+
+    beforeAll(async () => {
+      baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-source-'));
+      const setup = new DataSource({ type: 'sqlite', database: path.join(baseDir, 'shop.db') });
+      await setup.initialize();
+      await setup.query('CREATE TABLE orders (id INTEGER PRIMARY KEY, amount REAL)');
+      await setup.query('INSERT INTO orders (amount) VALUES (1.5), (2.5), (3.5)');
+      await setup.destroy();
+      process.env.SQL_SOURCE_SQLITE_DIR = baseDir;
+    });
+
+    afterAll(() => {
+      process.env.SQL_SOURCE_SQLITE_DIR = originalDir;
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    });
+
+    it('应该逐行读取查询结果，且连接拒绝写入', async () => {
+      const dataSource = await service.connect({ type: 'sqlite', database: 'shop.db' });
+      try {
+        const query = service.prepareQuery('sqlite', 'SELECT id, amount FROM orders WHERE amount > :min ORDER BY id', {
+          min: 2,
+        });
+        const batches: any[] = [];
+        await service.forEachBatch(dataSource, query, 1, async (rows) => {
+          batches.push(rows);
+        });
+
+        expect(batches).toEqual([[{ id: 2, amount: 2.5 }], [{ id: 3, amount: 3.5 }]]);
+        await expect(service.countRows(dataSource, query)).resolves.toBe(2);
+        await expect(service.fetchRows(dataSource, query, 1)).resolves.toEqual([{ id: 2, amount: 2.5 }]);
+        await expect(dataSource.query('DELETE FROM orders')).rejects.toThrow(/readonly|read-only|query_only/i);
+      } finally {
+        await dataSource.destroy();
+      }
+    });
+  });
+
+  describe('connect', () => {
+    const originalDir = process.env.SQL_SOURCE_SQLITE_DIR;
+
+    afterEach(() => {
+      process.env.SQL_SOURCE_SQLITE_DIR = originalDir;
+    });
+
+    it('SQLite 文件不允许位于允许目录之外', async () => {
+      process.env.SQL_SOURCE_SQLITE_DIR = '/data/sqlite';
+
+      await expect(service.connect({ type: 'sqlite', database: '../etc/passwd' })).rejects.toThrow(
+        'SQLite 文件必须位于允许的目录中',
+      );
+    });
+
+    it('应该生成不含账号密码的连接描述', () => {
+      expect(
+        service.describeConnection({ type: 'postgres', host: 'db', username: 'u', password: 'p', database: 'shop' }),
+      ).toBe('postgres://db:5432/shop');
+    });
+  });
+});
@@ -0,0 +1,343 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { DataSource, DataSourceOptions, QueryRunner } from 'typeorm';
+import * as path from 'path';
+import * as Cursor from 'pg-cursor';
+import type { PoolClient } from 'pg';
+import type { PoolConnection } from 'mysql2';
+import type { Database, Statement } from 'sqlite3';
+import { SqlConnectionConfig, SqlDatabaseType } from '../../entities/fetch-config.entity';
+
+/**
+ * 转换为驱动占位符后的查询
+ */
+export interface PreparedSqlQuery {
+  sql: string;
+  parameters: any[];
+}
+
+// 具名参数，如 :start_date；'::' 类型转换不视为参数
+const NAMED_PARAM_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+
+const DEFAULT_PORTS: Record<SqlDatabaseType, number | undefined> = {
+  postgres: 5432,
+  mysql: 3306,
+  sqlite: undefined,
+};
+
+@Injectable()
+export class SqlSourceService {
+  private readonly logger = new Logger(SqlSourceService.name);
+
+  /**
+   * 连接外部数据库，调用方负责在使用完毕后 destroy
+   * SQLite 没有只读事务，连接后开启 query_only 拒绝写入
+   */
+  async connect(connection: SqlConnectionConfig): Promise<DataSource> {
+    const dataSource = new DataSource(this.buildDataSourceOptions(connection));
+    try {
+      await dataSource.initialize();
+      if (connection.type === 'sqlite') {
+        await dataSource.query('PRAGMA query_only = ON');
+      }
+    } catch (error) {
+      if (dataSource.isInitialized) {
+        await dataSource.destroy();
+      }
+      throw new BadRequestException(`连接数据库失败: ${error.message}`);
+    }
+    this.logger.log(`已连接外部数据库: ${this.describeConnection(connection)}`);
+    return dataSource;
+  }
+
+  /**
+   * 校验查询只读，并将 :name 具名参数转换为驱动的位置占位符
+   * Postgres 使用 $1、$2，同名参数复用同一位置；MySQL 与 SQLite 使用 ?
+   */
+  prepareQuery(
+    type: SqlDatabaseType,
+    sql: string,
+    params: Record<string, any> = {},
+  ): PreparedSqlQuery {
+    const query = this.assertReadOnlyQuery(sql);
+    const parameters: any[] = [];
+    const positions = new Map<string, number>();
+    let result = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < query.length; i++) {
+      const char = query[i];
+
+      if (quote) {
+        result += char;
+        if (char === quote) {
+          quote = null;
+        }
+        continue;
+      }
+      if (char === "'" || char === '"' || char === '`') {
+        quote = char;
+        result += char;
+        continue;
+      }
+      if ((char === '-' && query[i + 1] === '-') || (char === '/' && query[i + 1] === '*')) {
+        // 注释原样保留，其中的冒号不视为参数
+        const end =
+          char === '-' ? query.indexOf('\n', i) : query.indexOf('*/', i + 2) + 1;
+        const stop = end <= 0 ? query.length - 1 : end;
+        result += query.slice(i, stop + 1);
+        i = stop;
+        continue;
+      }
+      if (char === ':' && query[i + 1] === ':') {
+        result += '::';
+        i++;
+        continue;
+      }
+      if (char !== ':') {
+        result += char;
+        continue;
+      }
+
+      NAMED_PARAM_PATTERN.lastIndex = i + 1;
+      const match = NAMED_PARAM_PATTERN.exec(query);
+      if (!match) {
+        result += char;
+        continue;
+      }
+
+      const name = match[0];
+      if (!(name in params)) {
+        throw new BadRequestException(`查询参数 ${name} 未提供`);
+      }
+      if (type === 'postgres') {
+        if (!positions.has(name)) {
+          parameters.push(params[name]);
+          positions.set(name, parameters.length);
+        }
+        result += `$${positions.get(name)}`;
+      } else {
+        parameters.push(params[name]);
+        result += '?';
+      }
+      i += name.length;
+    }
+
+    return { sql: result, parameters };
+  }
+
+  /**
+   * 统计查询结果的总行数，用于计算批次数和进度
+   */
+  async countRows(dataSource: DataSource, query: PreparedSqlQuery): Promise<number> {
+    const result = await this.runReadOnly(dataSource, queryRunner =>
+      queryRunner.query(`SELECT COUNT(*) AS row_count FROM (${query.sql}) sql_source`, query.parameters),
+    );
+    return parseInt(result[0]?.row_count ?? 0);
+  }
+
+  /**
+   * 通过驱动游标按批次读取查询结果，每批读取后交给 handleBatch 写入，避免一次性加载全部结果
+   * 查询只执行一次，批次间不会因重复执行而漏行或重复
+   */
+  async forEachBatch(
+    dataSource: DataSource,
+    query: PreparedSqlQuery,
+    batchSize: number,
+    handleBatch: (rows: Record<string, any>[], batchIndex: number) => Promise<void>,
+  ): Promise<void> {
+    await this.runReadOnly(dataSource, async queryRunner => {
+      let batch: Record<string, any>[] = [];
+      let batchIndex = 0;
+      for await (const row of this.streamRows(queryRunner, query, batchSize)) {
+        batch.push(this.normalizeRow(row));
+        if (batch.length >= batchSize) {
+          await handleBatch(batch, batchIndex++);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        await handleBatch(batch, batchIndex);
+      }
+    });
+  }
+
+  /**
+   * 读取查询结果的前 limit 行，用于预览
+   */
+  async fetchRows(
+    dataSource: DataSource,
+    query: PreparedSqlQuery,
+    limit: number,
+  ): Promise<Record<string, any>[]> {
+    const rows: Record<string, any>[] = await this.runReadOnly(dataSource, queryRunner =>
+      queryRunner.query(`SELECT * FROM (${query.sql}) sql_source LIMIT ${limit}`, query.parameters),
+    );
+    return rows.map(row => this.normalizeRow(row));
+  }
+
+  /**
+   * 连接描述，不包含账号和密码
+   */
+  describeConnection(connection: SqlConnectionConfig): string {
+    if (connection.type === 'sqlite') {
+      return `sqlite:${connection.database}`;
+    }
+    const port = connection.port || DEFAULT_PORTS[connection.type];
+    return `${connection.type}://${connection.host}:${port}/${connection.database}`;
+  }
+
+  private buildDataSourceOptions(connection: SqlConnectionConfig): DataSourceOptions {
+    switch (connection.type) {
+      case 'postgres':
+      case 'mysql':
+        if (!connection.host) {
+          throw new BadRequestException('请填写数据库主机地址');
+        }
+        return {
+          type: connection.type,
+          host: connection.host,
+          port: connection.port || DEFAULT_PORTS[connection.type],
+          username: connection.username,
+          password: connection.password,
+          database: connection.database,
+          ssl: connection.ssl ? { rejectUnauthorized: false } : undefined,
+        };
+      case 'sqlite':
+        return { type: 'sqlite', database: this.resolveSqlitePath(connection.database) };
+      default:
+        throw new BadRequestException(`不支持的数据库类型: ${(connection as any).type}`);
+    }
+  }
+
+  /**
+   * SQLite 文件只允许位于 SQL_SOURCE_SQLITE_DIR 目录下，未配置该目录时不允许使用 SQLite 数据源
+   */
+  private resolveSqlitePath(database: string): string {
+    const baseDir = process.env.SQL_SOURCE_SQLITE_DIR;
+    if (!baseDir) {
+      throw new BadRequestException('服务端未配置 SQL_SOURCE_SQLITE_DIR，无法使用 SQLite 数据源');
+    }
+
+    const root = path.resolve(baseDir);
+    const filePath = path.resolve(root, database || '');
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      throw new BadRequestException('SQLite 文件必须位于允许的目录中');
+    }
+    return filePath;
+  }
+
+  /**
+   * 在只读事务中执行查询，写入语句（包括 Postgres 数据修改 CTE）由数据库拒绝
+   * SQLite 在连接时已开启 query_only
+   */
+  private async runReadOnly<T>(dataSource: DataSource, work: (queryRunner: QueryRunner) => Promise<T>): Promise<T> {
+    const readOnlyTransaction = dataSource.options.type !== 'sqlite';
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.connect();
+
+    try {
+      if (readOnlyTransaction) {
+        await queryRunner.query('START TRANSACTION READ ONLY');
+      }
+      return await work(queryRunner);
+    } finally {
+      if (readOnlyTransaction) {
+        // 只读事务没有需要提交的修改，直接回滚
+        await queryRunner.query('ROLLBACK').catch(error => this.logger.warn(`结束只读事务失败: ${error.message}`));
+      }
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 使用驱动游标逐行读取查询结果：Postgres 使用 pg-cursor，MySQL 使用 mysql2 的流，SQLite 逐行 step
+   */
+  private async *streamRows(
+    queryRunner: QueryRunner,
+    query: PreparedSqlQuery,
+    batchSize: number,
+  ): AsyncGenerator<Record<string, any>> {
+    const sql = `SELECT * FROM (${query.sql}) sql_source`;
+    const connection = await queryRunner.connect();
+
+    switch (queryRunner.connection.options.type) {
+      case 'postgres': {
+        const cursor = (connection as PoolClient).query(new Cursor(sql, query.parameters));
+        try {
+          for (;;) {
+            const rows = await cursor.read(batchSize);
+            if (rows.length === 0) {
+              return;
+            }
+            yield* rows;
+          }
+        } finally {
+          await cursor.close();
+        }
+      }
+      case 'mysql': {
+        const stream = (connection as PoolConnection).query(sql, query.parameters).stream({ highWaterMark: batchSize });
+        for await (const row of stream) {
+          yield row;
+        }
+        return;
+      }
+      case 'sqlite': {
+        const statement = await new Promise<Statement>((resolve, reject) => {
+          const prepared = (connection as Database).prepare(sql, query.parameters, error =>
+            error ? reject(error) : resolve(prepared),
+          );
+        });
+        try {
+          for (;;) {
+            const row = await new Promise<Record<string, any> | undefined>((resolve, reject) =>
+              statement.get((error, result) => (error ? reject(error) : resolve(result))),
+            );
+            if (!row) {
+              return;
+            }
+            yield row;
+          }
+        } finally {
+          await new Promise<void>(resolve => statement.finalize(() => resolve()));
+        }
+      }
+      default:
+        throw new BadRequestException(`不支持的数据库类型: ${queryRunner.connection.options.type}`);
+    }
+  }
+
+  /**
+   * 连接前快速校验只允许单条 SELECT/WITH 查询，末尾分号会被去掉
+   * 真正的写入保护由只读事务保证
+   */
+  private assertReadOnlyQuery(sql: string): string {
+    const query = (sql || '').trim().replace(/;\s*$/, '');
+    const withoutComments = query.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, ' ').trim();
+
+    if (!/^(select|with)\b/i.test(withoutComments)) {
+      throw new BadRequestException('只支持 SELECT 查询');
+    }
+    if (withoutComments.replace(/'[^']*'|"[^"]*"|`[^`]*`/g, '').includes(';')) {
+      throw new BadRequestException('只支持单条查询语句');
+    }
+    return query;
+  }
+
+  /**
+   * 日期转为 ISO 字符串，二进制转为十六进制，与接口数据保持一致的类型推断
+   */
+  private normalizeRow(row: Record<string, any>): Record<string, any> {
+    const normalized: Record<string, any> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (value instanceof Date) {
+        normalized[key] = value.toISOString();
+      } else if (Buffer.isBuffer(value)) {
+        normalized[key] = value.toString('hex');
+      } else {
+        normalized[key] = value;
+      }
+    });
+    return normalized;
+  }
+}
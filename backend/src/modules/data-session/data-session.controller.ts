@@ -13,13 +13,17 @@ import {
   Request,
 } from '@nestjs/common';
 import { DataSessionService } from './data-session.service';
-import { CreateSessionDto, UpdateSessionDto, SessionListQueryDto } from './dto';
+import { SessionAccessService } from './session-access.service';
+import { CreateSessionDto, UpdateSessionDto, SessionListQueryDto, MoveSessionDto } from './dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 
 @Controller('data-session')
 @UseGuards(JwtAuthGuard)
 export class DataSessionController {
-  constructor(private readonly dataSessionService: DataSessionService) {}
+  constructor(
+    private readonly dataSessionService: DataSessionService,
+    private readonly sessionAccessService: SessionAccessService,
+  ) {}
 
   /**
    * 创建新的数据会话
@@ -52,9 +56,10 @@ export class DataSessionController {
   @Get(':id')
   async getSessionById(@Request() req, @Param('id') id: string) {
     const session = await this.dataSessionService.getSessionById(id, req.user.id);
+    const role = await this.sessionAccessService.getSessionRole(session, req.user.id);
     return {
       success: true,
-      data: session,
+      data: { ...session, role },
     };
   }
 
@@ -75,6 +80,23 @@ export class DataSessionController {
     };
   }
 
+  /**
+   * 将会话移入工作区或移回个人空间
+   */
+  @Put(':id/workspace')
+  async moveSession(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() moveSessionDto: MoveSessionDto,
+  ) {
+    const session = await this.dataSessionService.moveSession(id, moveSessionDto, req.user.id);
+    return {
+      success: true,
+      data: session,
+      message: session.workspaceId ? '会话已移入工作区' : '会话已移回个人空间',
+    };
+  }
+
   /**
    * 删除会话
    */
@@ -92,8 +114,8 @@ export class DataSessionController {
    * 获取会话统计信息
    */
   @Get(':id/stats')
-  async getSessionStats(@Param('id') id: string) {
-    const stats = await this.dataSessionService.getSessionStats(id);
+  async getSessionStats(@Request() req, @Param('id') id: string) {
+    const stats = await this.dataSessionService.getSessionStats(id, req.user.id);
     return {
       success: true,
       data: stats,
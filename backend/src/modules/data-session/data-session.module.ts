@@ -2,7 +2,10 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DataSessionController } from './data-session.controller';
 import { DataSessionService } from './data-session.service';
+import { SessionAccessService } from './session-access.service';
+import { SessionAccessGuard } from './session-access.guard';
 import { AuthModule } from '../auth/auth.module';
+import { WorkspaceModule } from '../workspace/workspace.module';
 import {
   DataSession,
   FetchConfig,
@@ -23,9 +26,10 @@ import {
       MarketSession,
     ]),
     AuthModule,
+    WorkspaceModule,
   ],
   controllers: [DataSessionController],
-  providers: [DataSessionService],
-  exports: [DataSessionService],
+  providers: [DataSessionService, SessionAccessService, SessionAccessGuard],
+  exports: [DataSessionService, SessionAccessService, SessionAccessGuard],
 })
 export class DataSessionModule {}
\ No newline at end of file
@@ -3,10 +3,14 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { DataSource, Repository } from 'typeorm';
 import { DataSessionService } from './data-session.service';
 import { DataSession, SessionStatus } from '../../entities/data-session.entity';
-import { FetchConfig } from '../../entities/fetch-config.entity';
+import { FetchConfig, HttpMethod, SourceType } from '../../entities/fetch-config.entity';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { ChartConfig } from '../../entities/chart-config.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { MarketSession } from '../../entities/market-session.entity';
+import { SessionAccessService } from './session-access.service';
+import { WorkspaceService } from '../workspace/workspace.service';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
 import { CreateSessionDto } from './dto';
 
 describe('DataSessionService', () => {
@@ -29,6 +33,15 @@ describe('DataSessionService', () => {
     query: jest.fn(),
   };
 
+  const mockSessionAccessService = {
+    assertSessionAccess: jest.fn(),
+  };
+
+  const mockWorkspaceService = {
+    getMemberRole: jest.fn(),
+    assertRole: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -53,10 +66,22 @@ describe('DataSessionService', () => {
           provide: getRepositoryToken(DataTableSchema),
           useValue: mockRepository,
         },
+        {
+          provide: getRepositoryToken(MarketSession),
+          useValue: mockRepository,
+        },
         {
           provide: DataSource,
           useValue: mockDataSource,
         },
+        {
+          provide: SessionAccessService,
+          useValue: mockSessionAccessService,
+        },
+        {
+          provide: WorkspaceService,
+          useValue: mockWorkspaceService,
+        },
       ],
     }).compile();
 
@@ -94,6 +119,7 @@ describe('DataSessionService', () => {
       expect(mockRepository.create).toHaveBeenCalledWith({
         name: createSessionDto.name,
         userId: userId,
+        workspaceId: null,
         status: SessionStatus.UNFETCHED,
       });
       expect(mockRepository.save).toHaveBeenCalledWith(mockSession);
@@ -116,7 +142,7 @@ describe('DataSessionService', () => {
 
       expect(mockRepository.findOne).toHaveBeenCalledWith({
         where: { id: sessionId },
-        relations: ['fetchConfig', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
+        relations: ['fetchConfigs', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
       });
       expect(result).toEqual(mockSession);
     });
@@ -166,4 +192,119 @@ describe('DataSessionService', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('duplicateSession', () => {
+    const savedEntities: any[] = [];
+    const mockQueryRunner = {
+      connect: jest.fn(),
+      startTransaction: jest.fn(),
+      commitTransaction: jest.fn(),
+      rollbackTransaction: jest.fn(),
+      release: jest.fn(),
+      manager: {
+        save: jest.fn((entity) => {
+          savedEntities.push(entity);
+          return Promise.resolve({ id: 'session-copy', ...entity });
+        }),
+      },
+    };
+
+    const transformSteps = [
+      { type: 'rename' as const, field: 'amt', to: 'amount' },
+      { type: 'filter' as const, expression: 'amount > 0' },
+    ];
+
+    const sourceConfigs: [string, Partial<FetchConfig>][] = [
+      ['API', {
+        sourceType: SourceType.API,
+        apiUrl: 'https://api.example.com/orders',
+        method: HttpMethod.GET,
+        headers: { Authorization: '{{secret:api_token}}' },
+        transformSteps,
+      }],
+      ['GraphQL', {
+        sourceType: SourceType.GRAPHQL,
+        apiUrl: 'https://api.example.com/graphql',
+        graphqlQuery: 'query Orders($after: String) { orders(after: $after) { id } }',
+        graphqlVariables: { first: 50, filter: { status: 'paid' } },
+      }],
+      ['SQL', {
+        sourceType: SourceType.SQL,
+        sqlConnection: {
+          type: 'postgres',
+          host: '{{secret:sql_host}}',
+          port: 5432,
+          username: '{{secret:sql_username}}',
+          password: '{{secret:sql_password}}',
+          database: 'shop',
+        },
+        sqlQuery: 'SELECT * FROM orders WHERE created_at > :since',
+        sqlParams: { since: '2024-01-01' },
+        transformSteps,
+      }],
+      ['文件', {
+        sourceType: SourceType.FILE,
+        fileName: 'orders.xlsx',
+        fileFormat: 'xlsx',
+        transformSteps,
+      }],
+    ];
+
+    beforeEach(() => {
+      savedEntities.length = 0;
+      mockDataSource.createQueryRunner.mockReturnValue(mockQueryRunner);
+      mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+    });
+
+    it.each(sourceConfigs)('应该完整复制%s数据源的拉取配置', async (_, sourceConfig) => {
+      const fetchConfig = { id: 'config-1', sessionId: 'session-1', sourceName: 'main', ...sourceConfig };
+      mockRepository.findOne.mockResolvedValue({
+        id: 'session-1',
+        name: '订单',
+        userId: 'test-user-id',
+        fetchConfigs: [fetchConfig],
+      });
+
+      await service.duplicateSession('session-1', undefined, 'test-user-id');
+
+      const copiedConfig = savedEntities.find((entity) => entity.sourceName === 'main');
+      const { id: _id, sessionId: _sessionId, ...expected } = fetchConfig;
+      expect(copiedConfig).toEqual(expect.objectContaining({ ...expected, sessionId: 'session-copy' }));
+      expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['查看者复制时副本应该放到个人空间且不含拉取配置', WorkspaceRole.VIEWER, null, 0],
+      ['编辑者复制时副本应该留在工作区并复制拉取配置', WorkspaceRole.EDITOR, 'workspace-1', 1],
+    ])('%s', async (_, role, workspaceId, configCount) => {
+      mockWorkspaceService.getMemberRole.mockResolvedValue(role);
+      mockRepository.findOne.mockResolvedValue({
+        id: 'session-1',
+        name: '订单',
+        userId: 'owner-1',
+        workspaceId: 'workspace-1',
+        fetchConfigs: [{ id: 'config-1', sourceName: 'main', ...sourceConfigs[0][1], configuredBy: 'owner-1' }],
+      });
+
+      await service.duplicateSession('session-1', undefined, 'member-1');
+
+      expect(savedEntities[0]).toEqual(expect.objectContaining({ userId: 'member-1', workspaceId }));
+      const copiedConfigs = savedEntities.filter((entity) => entity.sourceName === 'main');
+      expect(copiedConfigs).toHaveLength(configCount);
+      copiedConfigs.forEach((config) => expect(config.configuredBy).toBe('member-1'));
+    });
+
+    it('复制的 JSON 配置不应该与原会话共享引用', async () => {
+      const [, sqlConfig] = sourceConfigs[2];
+      const fetchConfig = { id: 'config-1', sessionId: 'session-1', sourceName: 'main', ...sqlConfig };
+      mockRepository.findOne.mockResolvedValue({ id: 'session-1', name: '订单', fetchConfigs: [fetchConfig] });
+
+      await service.duplicateSession('session-1');
+
+      const copiedConfig = savedEntities.find((entity) => entity.sourceName === 'main');
+      expect(copiedConfig.sqlConnection).not.toBe(fetchConfig.sqlConnection);
+      expect(copiedConfig.sqlParams).not.toBe(fetchConfig.sqlParams);
+      expect(copiedConfig.transformSteps).not.toBe(fetchConfig.transformSteps);
+    });
+  });
+});
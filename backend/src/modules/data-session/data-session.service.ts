@@ -7,8 +7,13 @@ import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { ChartConfig } from '../../entities/chart-config.entity';
 import { DataTableSchema } from '../../entities/data-table-schema.entity';
 import { MarketSession } from '../../entities/market-session.entity';
+import { FetchSchedule } from '../../entities/fetch-schedule.entity';
+import { FetchRun } from '../../entities/fetch-run.entity';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
 import { DynamicTableUtil } from '../../common/database-utils';
-import { CreateSessionDto, UpdateSessionDto, SessionListQueryDto } from './dto';
+import { CreateSessionDto, UpdateSessionDto, SessionListQueryDto, MoveSessionDto } from './dto';
+import { SessionAccessService } from './session-access.service';
+import { WorkspaceService, hasWorkspaceRole } from '../workspace/workspace.service';
 
 @Injectable()
 export class DataSessionService {
@@ -26,15 +31,22 @@ export class DataSessionService {
     @InjectRepository(MarketSession)
     private readonly marketSessionRepository: Repository<MarketSession>,
     private readonly dataSource: DataSource,
+    private readonly sessionAccessService: SessionAccessService,
+    private readonly workspaceService: WorkspaceService,
   ) {}
 
   /**
-   * 创建新的数据会话
+   * 创建新的数据会话，指定工作区时需要编辑者权限
    */
   async createSession(createSessionDto: CreateSessionDto, userId: string): Promise<DataSession> {
+    if (createSessionDto.workspaceId) {
+      await this.workspaceService.assertRole(createSessionDto.workspaceId, userId, WorkspaceRole.EDITOR);
+    }
+
     const session = this.sessionRepository.create({
       name: createSessionDto.name,
       userId: userId,
+      workspaceId: createSessionDto.workspaceId || null,
       status: SessionStatus.UNFETCHED,
     });
 
@@ -42,17 +54,21 @@ export class DataSessionService {
   }
 
   /**
-   * 获取会话详情
+   * 获取会话详情，传入 userId 时按角色校验访问权限
    */
-  async getSessionById(id: string, userId?: string): Promise<DataSession> {
-    const whereCondition: any = { id };
+  async getSessionById(
+    id: string,
+    userId?: string,
+    required: WorkspaceRole = WorkspaceRole.VIEWER,
+  ): Promise<DataSession> {
     if (userId) {
-      whereCondition.userId = userId;
+      await this.sessionAccessService.assertSessionAccess(id, userId, required);
     }
+    const whereCondition = { id };
 
     const session = await this.sessionRepository.findOne({
       where: whereCondition,
-      relations: ['fetchConfig', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
+      relations: ['fetchConfigs', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
     });
 
     if (!session) {
@@ -65,7 +81,7 @@ export class DataSessionService {
       // 重新获取更新后的会话
       const updatedSession = await this.sessionRepository.findOne({
         where: whereCondition,
-        relations: ['fetchConfig', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
+        relations: ['fetchConfigs', 'fieldAnnotations', 'chartConfigs', 'dataTableSchemas'],
       });
       return updatedSession || session;
     } catch (error) {
@@ -76,23 +92,29 @@ export class DataSessionService {
 
   /**
    * 获取会话列表
+   * 指定工作区时列出工作区内的全部会话，否则列出当前用户的个人会话
    */
   async getSessionList(queryDto: SessionListQueryDto, userId: string): Promise<{
-    sessions: (DataSession & { isShared?: boolean })[];
+    sessions: (DataSession & { isShared?: boolean; role: WorkspaceRole })[];
     total: number;
     page: number;
     pageSize: number;
   }> {
-    const { page = 1, pageSize = 10, status, search } = queryDto;
-    
+    const { page = 1, pageSize = 10, status, search, workspaceId } = queryDto;
+    const role = workspaceId
+      ? await this.workspaceService.assertRole(workspaceId, userId, WorkspaceRole.VIEWER)
+      : WorkspaceRole.OWNER;
+    const [ownerCondition, ownerParameters] = workspaceId
+      ? ['session.workspaceId = :workspaceId', { workspaceId }]
+      : ['session.userId = :userId AND session.workspaceId IS NULL', { userId }];
+
     const queryBuilder = this.sessionRepository.createQueryBuilder('session')
-      .leftJoinAndSelect('session.fetchConfig', 'fetchConfig')
+      .leftJoinAndSelect('session.fetchConfigs', 'fetchConfigs')
       .leftJoinAndSelect('session.chartConfigs', 'chartConfigs')
       .leftJoinAndSelect('session.dataTableSchemas', 'dataTableSchemas')
       .leftJoin('market_sessions', 'marketSession', 'marketSession.session_id = session.id AND marketSession.status = :marketStatus', { marketStatus: 'enabled' })
       .addSelect('marketSession.id', 'marketSession_id')
-      .where('session.userId = :userId', { userId })
-      .andWhere('session.userId IS NOT NULL');
+      .where(ownerCondition, ownerParameters);
 
     // 状态筛选
     if (status) {
@@ -113,8 +135,7 @@ export class DataSessionService {
 
     // 获取总数（不包含分享状态查询）
     const countQueryBuilder = this.sessionRepository.createQueryBuilder('session')
-      .where('session.userId = :userId', { userId })
-      .andWhere('session.userId IS NOT NULL');
+      .where(ownerCondition, ownerParameters);
     
     if (status) {
       countQueryBuilder.andWhere('session.status = :status', { status });
@@ -129,7 +150,8 @@ export class DataSessionService {
     const rawResults = await queryBuilder.getRawAndEntities();
     const sessionsWithShareStatus = rawResults.entities.map((session, index) => ({
       ...session,
-      isShared: !!rawResults.raw[index]?.marketSession_id
+      isShared: !!rawResults.raw[index]?.marketSession_id,
+      role,
     }));
 
     // 为每个会话计算并更新状态
@@ -153,7 +175,7 @@ export class DataSessionService {
    * 更新会话信息
    */
   async updateSession(id: string, updateSessionDto: UpdateSessionDto, userId: string): Promise<DataSession> {
-    const session = await this.getSessionById(id, userId);
+    const session = await this.getSessionById(id, userId, WorkspaceRole.EDITOR);
 
     // 验证状态转换的合法性
     if (updateSessionDto.status) {
@@ -165,10 +187,26 @@ export class DataSessionService {
   }
 
   /**
-   * 删除会话及其相关数据
+   * 将会话移入工作区或移回创建者的个人空间
+   * 需要对会话有所有者权限，移入时还需要对目标工作区有编辑权限
+   */
+  async moveSession(id: string, moveSessionDto: MoveSessionDto, userId: string): Promise<DataSession> {
+    const session = await this.sessionAccessService.assertSessionAccess(id, userId, WorkspaceRole.OWNER);
+    const workspaceId = moveSessionDto.workspaceId || null;
+
+    if (workspaceId) {
+      await this.workspaceService.assertRole(workspaceId, userId, WorkspaceRole.EDITOR);
+    }
+
+    session.workspaceId = workspaceId;
+    return await this.sessionRepository.save(session);
+  }
+
+  /**
+   * 删除会话及其相关数据，工作区会话需要所有者权限
    */
   async deleteSession(id: string, userId: string): Promise<void> {
-    const session = await this.getSessionById(id, userId);
+    const session = await this.getSessionById(id, userId, WorkspaceRole.OWNER);
 
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
@@ -197,10 +235,14 @@ export class DataSessionService {
       // 4. 删除字段标注
       await queryRunner.manager.delete(FieldAnnotation, { sessionId: id });
 
-      // 5. 删除拉取配置
+      // 5. 删除定时拉取计划及运行记录
+      await queryRunner.manager.delete(FetchSchedule, { sessionId: id });
+      await queryRunner.manager.delete(FetchRun, { sessionId: id });
+
+      // 6. 删除拉取配置
       await queryRunner.manager.delete(FetchConfig, { sessionId: id });
 
-      // 6. 最后删除会话记录
+      // 7. 最后删除会话记录
       await queryRunner.manager.delete(DataSession, { id });
 
       await queryRunner.commitTransaction();
@@ -217,13 +259,13 @@ export class DataSessionService {
   /**
    * 获取会话统计信息
    */
-  async getSessionStats(id: string): Promise<{
+  async getSessionStats(id: string, userId?: string): Promise<{
     totalRecords: number;
     fieldsCount: number;
     chartsCount: number;
     lastUpdated: Date;
   }> {
-    const session = await this.getSessionById(id);
+    const session = await this.getSessionById(id, userId);
 
     // 获取数据记录数
     let totalRecords = 0;
@@ -277,9 +319,19 @@ export class DataSessionService {
 
   /**
    * 复制会话
+   * 对原工作区有编辑权限时副本留在原工作区，否则复制到个人空间且不含拉取配置
    */
   async duplicateSession(id: string, newName?: string, userId?: string): Promise<DataSession> {
-    const originalSession = await this.getSessionById(id);
+    const originalSession = await this.getSessionById(id, userId);
+    let workspaceId = originalSession.workspaceId || null;
+    // 查看者的副本放到个人空间且不复制拉取配置，避免借副本以自己的身份使用他人保存的配置
+    let canCopyFetchConfigs = true;
+    if (workspaceId && userId) {
+      const role = await this.workspaceService.getMemberRole(workspaceId, userId);
+      canCopyFetchConfigs = hasWorkspaceRole(role, WorkspaceRole.EDITOR);
+      workspaceId = canCopyFetchConfigs ? workspaceId : null;
+    }
+    const fetchConfigs = canCopyFetchConfigs ? originalSession.fetchConfigs || [] : [];
 
     const queryRunner = this.dataSource.createQueryRunner();
     await queryRunner.connect();
@@ -290,27 +342,52 @@ export class DataSessionService {
       const newSession = this.sessionRepository.create({
         name: newName || `${originalSession.name} (副本)`,
         userId: userId || originalSession.userId,
+        workspaceId,
         status: SessionStatus.UNFETCHED,
       });
       const savedSession = await queryRunner.manager.save(newSession);
 
-      // 复制拉取配置
-      if (originalSession.fetchConfig) {
+      // 复制全部数据源的拉取配置
+      for (const fetchConfig of fetchConfigs) {
         const newFetchConfig = this.fetchConfigRepository.create({
           sessionId: savedSession.id,
-          apiUrl: originalSession.fetchConfig.apiUrl,
-          method: originalSession.fetchConfig.method,
-          headers: originalSession.fetchConfig.headers ? JSON.parse(JSON.stringify(originalSession.fetchConfig.headers)) : null,
-          queryParams: originalSession.fetchConfig.queryParams ? JSON.parse(JSON.stringify(originalSession.fetchConfig.queryParams)) : null,
-          data: originalSession.fetchConfig.data ? JSON.parse(JSON.stringify(originalSession.fetchConfig.data)) : null,
-          enablePagination: originalSession.fetchConfig.enablePagination,
-          paginationType: originalSession.fetchConfig.paginationType,
-          pageField: originalSession.fetchConfig.pageField,
-          pageFieldStartValue: originalSession.fetchConfig.pageFieldStartValue,
-          totalField: originalSession.fetchConfig.totalField,
-          pageSize: originalSession.fetchConfig.pageSize,
-          stepSize: originalSession.fetchConfig.stepSize,
-          dataPath: originalSession.fetchConfig.dataPath,
+          sourceName: fetchConfig.sourceName,
+          sourceType: fetchConfig.sourceType,
+          joinField: fetchConfig.joinField,
+          primaryJoinField: fetchConfig.primaryJoinField,
+          apiUrl: fetchConfig.apiUrl,
+          method: fetchConfig.method,
+          headers: fetchConfig.headers ? JSON.parse(JSON.stringify(fetchConfig.headers)) : null,
+          queryParams: fetchConfig.queryParams ? JSON.parse(JSON.stringify(fetchConfig.queryParams)) : null,
+          data: fetchConfig.data ? JSON.parse(JSON.stringify(fetchConfig.data)) : null,
+          enablePagination: fetchConfig.enablePagination,
+          paginationType: fetchConfig.paginationType,
+          pageField: fetchConfig.pageField,
+          pageFieldStartValue: fetchConfig.pageFieldStartValue,
+          totalField: fetchConfig.totalField,
+          pageSize: fetchConfig.pageSize,
+          stepSize: fetchConfig.stepSize,
+          cursorPath: fetchConfig.cursorPath,
+          cursorParam: fetchConfig.cursorParam,
+          cursorLocation: fetchConfig.cursorLocation,
+          dataPath: fetchConfig.dataPath,
+          incrementalMode: fetchConfig.incrementalMode,
+          watermarkField: fetchConfig.watermarkField,
+          rateLimit: fetchConfig.rateLimit,
+          variables: fetchConfig.variables ? { ...fetchConfig.variables } : null,
+          auth: fetchConfig.auth ? { ...fetchConfig.auth } : null,
+          explodeFields: fetchConfig.explodeFields
+            ? fetchConfig.explodeFields.map(field => ({ ...field }))
+            : null,
+          transformSteps: fetchConfig.transformSteps ? JSON.parse(JSON.stringify(fetchConfig.transformSteps)) : null,
+          graphqlQuery: fetchConfig.graphqlQuery,
+          graphqlVariables: fetchConfig.graphqlVariables ? JSON.parse(JSON.stringify(fetchConfig.graphqlVariables)) : null,
+          sqlConnection: fetchConfig.sqlConnection ? { ...fetchConfig.sqlConnection } : null,
+          sqlQuery: fetchConfig.sqlQuery,
+          sqlParams: fetchConfig.sqlParams ? JSON.parse(JSON.stringify(fetchConfig.sqlParams)) : null,
+          fileName: fetchConfig.fileName,
+          fileFormat: fetchConfig.fileFormat,
+          configuredBy: userId || fetchConfig.configuredBy,
         });
         await queryRunner.manager.save(newFetchConfig);
       }
@@ -415,7 +492,7 @@ export class DataSessionService {
   async calculateAndUpdateStatus(sessionId: string): Promise<SessionStatus> {
     const session = await this.sessionRepository.findOne({
       where: { id: sessionId },
-      relations: ['fetchConfig', 'chartConfigs', 'dataTableSchemas'],
+      relations: ['fetchConfigs', 'chartConfigs', 'dataTableSchemas'],
     });
 
     if (!session) {
@@ -448,7 +525,7 @@ export class DataSessionService {
       newStatus = hasData ? SessionStatus.FETCHED : SessionStatus.UNFETCHED;
     }
     // 3. 检查是否配置了API URL -> 未拉取
-    else if (session.fetchConfig && session.fetchConfig.apiUrl) {
+    else if (session.fetchConfigs?.some(config => config.apiUrl)) {
       newStatus = SessionStatus.UNFETCHED;
     }
     // 4. 否则为未拉取
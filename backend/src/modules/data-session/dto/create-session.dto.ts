@@ -1,8 +1,12 @@
-import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsUUID, MaxLength } from 'class-validator';
 
 export class CreateSessionDto {
   @IsString()
   @IsNotEmpty()
   @MaxLength(255)
   name: string;
+
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string; // 为空时创建个人会话
 }
\ No newline at end of file
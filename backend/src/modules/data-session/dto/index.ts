@@ -1,3 +1,4 @@
 export { CreateSessionDto } from './create-session.dto';
 export { UpdateSessionDto } from './update-session.dto';
-export { SessionListQueryDto } from './session-list-query.dto';
\ No newline at end of file
+export { SessionListQueryDto } from './session-list-query.dto';
+export { MoveSessionDto } from './move-session.dto';
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class MoveSessionDto {
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string | null; // 为空时移回创建者的个人空间
+}
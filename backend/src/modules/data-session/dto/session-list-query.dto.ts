@@ -1,4 +1,4 @@
-import { IsOptional, IsEnum, IsString, IsInt, Min, Max } from 'class-validator';
+import { IsOptional, IsEnum, IsString, IsInt, IsUUID, Min, Max } from 'class-validator';
 import { Type } from 'class-transformer';
 import { SessionStatus } from '../../../entities/data-session.entity';
 
@@ -23,4 +23,8 @@ export class SessionListQueryDto {
   @IsOptional()
   @IsString()
   search?: string;
+
+  @IsOptional()
+  @IsUUID()
+  workspaceId?: string; // 为空时列出个人会话
 }
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SessionAccessGuard, SessionRole } from './session-access.guard';
+import { SessionAccessService } from './session-access.service';
+import { DataSession } from '../../entities/data-session.entity';
+import { ChartConfig } from '../../entities/chart-config.entity';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
+import { WorkspaceService } from '../workspace/workspace.service';
+
+describe('SessionAccessGuard', () => {
+  let guard: SessionAccessGuard;
+
+  const sessions: Record<string, Partial<DataSession>> = {
+    'session-a': { id: 'session-a', userId: 'user-a' },
+    'session-b': { id: 'session-b', userId: 'user-b' },
+    'session-team': { id: 'session-team', userId: 'user-b', workspaceId: 'workspace-1' },
+    'session-left': { id: 'session-left', userId: 'user-left', workspaceId: 'workspace-1' },
+  };
+  const workspaceRoles: Record<string, WorkspaceRole> = {
+    'user-b': WorkspaceRole.OWNER,
+    'user-editor': WorkspaceRole.EDITOR,
+    'user-viewer': WorkspaceRole.VIEWER,
+  };
+  const charts: Record<string, Partial<ChartConfig>> = {
+    'chart-a': { id: 'chart-a', sessionId: 'session-a' },
+    'chart-b': { id: 'chart-b', sessionId: 'session-b' },
+    'chart-team': { id: 'chart-team', sessionId: 'session-team' },
+  };
+
+  const mockSessionRepository = {
+    findOne: jest.fn(({ where }) => Promise.resolve(sessions[where.id] || null)),
+  };
+  const mockChartConfigRepository = {
+    findOne: jest.fn(({ where }) => Promise.resolve(charts[where.id] || null)),
+  };
+  const mockWorkspaceService = {
+    getMemberRole: jest.fn((workspaceId: string, userId: string) =>
+      Promise.resolve(workspaceId === 'workspace-1' ? workspaceRoles[userId] || null : null),
+    ),
+  };
+
+  class TestController {
+    read() {}
+
+    @SessionRole(WorkspaceRole.EDITOR)
+    write() {}
+  }
+
+  const createContext = (request: Record<string, any>, handler: 'read' | 'write' = 'read'): ExecutionContext =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ params: {}, query: {}, body: {}, ...request }),
+      }),
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionAccessGuard,
+        SessionAccessService,
+        {
+          provide: getRepositoryToken(DataSession),
+          useValue: mockSessionRepository,
+        },
+        {
+          provide: getRepositoryToken(ChartConfig),
+          useValue: mockChartConfigRepository,
+        },
+        {
+          provide: WorkspaceService,
+          useValue: mockWorkspaceService,
+        },
+      ],
+    }).compile();
+
+    guard = module.get<SessionAccessGuard>(SessionAccessGuard);
+    jest.clearAllMocks();
+  });
+
+  it('会话所有者应该可以访问', async () => {
+    const context = createContext({
+      user: { id: 'user-a' },
+      params: { sessionId: 'session-a' },
+      body: { sessionId: 'session-a' },
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockSessionRepository.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('应该拒绝访问其他用户的会话', async () => {
+    for (const source of ['params', 'query', 'body']) {
+      const context = createContext({ user: { id: 'user-a' }, [source]: { sessionId: 'session-b' } });
+      await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+    }
+  });
+
+  it('应该拒绝不存在的会话，且与无权访问的响应一致', async () => {
+    const context = createContext({ user: { id: 'user-a' }, params: { sessionId: 'missing' } });
+
+    await expect(guard.canActivate(context)).rejects.toThrow('会话 missing 不存在');
+  });
+
+  it('路径参数与请求体中的会话有一个不属于当前用户时应该拒绝', async () => {
+    const context = createContext({
+      user: { id: 'user-a' },
+      params: { sessionId: 'session-a' },
+      body: { sessionId: 'session-b' },
+    });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+  });
+
+  it('应该按图表所属会话校验 chartId', async () => {
+    await expect(
+      guard.canActivate(createContext({ user: { id: 'user-a' }, params: { chartId: 'chart-a' } })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(createContext({ user: { id: 'user-a' }, params: { chartId: 'chart-b' } })),
+    ).rejects.toThrow('图表配置 chart-b 不存在');
+    await expect(
+      guard.canActivate(createContext({ user: { id: 'user-a' }, params: { chartId: 'missing' } })),
+    ).rejects.toThrow('图表配置 missing 不存在');
+  });
+
+  it('工作区成员应该按角色访问会话', async () => {
+    const read = (userId: string) =>
+      guard.canActivate(createContext({ user: { id: userId }, params: { sessionId: 'session-team' } }));
+    const write = (userId: string) =>
+      guard.canActivate(createContext({ user: { id: userId }, body: { sessionId: 'session-team' } }, 'write'));
+
+    await expect(read('user-viewer')).resolves.toBe(true);
+    await expect(write('user-viewer')).rejects.toThrow(ForbiddenException);
+    await expect(write('user-editor')).resolves.toBe(true);
+    await expect(write('user-b')).resolves.toBe(true);
+  });
+
+  it('非工作区成员不能访问工作区会话，已退出的创建者也不例外', async () => {
+    for (const userId of ['user-a', 'user-left']) {
+      const context = createContext({ user: { id: userId }, params: { sessionId: 'session-left' } });
+      await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+    }
+  });
+
+  it('修改图表需要对所属会话有编辑权限', async () => {
+    await expect(
+      guard.canActivate(createContext({ user: { id: 'user-viewer' }, params: { chartId: 'chart-team' } })),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(createContext({ user: { id: 'user-viewer' }, params: { chartId: 'chart-team' } }, 'write')),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('未登录时应该拒绝访问', async () => {
+    const context = createContext({ params: { sessionId: 'session-a' } });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('应该拒绝无效的会话ID', async () => {
+    const context = createContext({ user: { id: 'user-a' }, query: { sessionId: ['session-a', 'session-b'] } });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(BadRequestException);
+  });
+
+  it('不带会话ID的路由应该直接放行', async () => {
+    const context = createContext({ user: { id: 'user-a' }, body: { curlCommand: 'curl https://example.com' } });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(mockSessionRepository.findOne).not.toHaveBeenCalled();
+  });
+});
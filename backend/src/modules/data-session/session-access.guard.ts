@@ -0,0 +1,67 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  BadRequestException,
+  UnauthorizedException,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SessionAccessService } from './session-access.service';
+import { WorkspaceRole } from '../../entities';
+
+const SESSION_ROLE_KEY = 'sessionRole';
+
+/**
+ * 声明路由访问会话所需的最低角色，未声明时为 viewer
+ */
+export const SessionRole = (role: WorkspaceRole) => SetMetadata(SESSION_ROLE_KEY, role);
+
+/**
+ * 会话访问守卫，需放在 JwtAuthGuard 之后
+ * 校验路径参数、查询参数和请求体中的 sessionId，以及路径参数中的 chartId
+ * multipart 请求体在守卫执行时尚未解析，需要在处理方法中单独校验
+ */
+@Injectable()
+export class SessionAccessGuard implements CanActivate {
+  constructor(
+    private readonly sessionAccessService: SessionAccessService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId: string | undefined = request.user?.id;
+
+    if (!userId) {
+      throw new UnauthorizedException('请先登录');
+    }
+
+    const role =
+      this.reflector.getAllAndOverride<WorkspaceRole>(SESSION_ROLE_KEY, [context.getHandler(), context.getClass()]) ||
+      WorkspaceRole.VIEWER;
+
+    const sessionIds = new Set<string>();
+    for (const source of [request.params, request.query, request.body]) {
+      if (!source || typeof source !== 'object' || !('sessionId' in source)) {
+        continue;
+      }
+      const sessionId = source.sessionId;
+      if (typeof sessionId !== 'string' || !sessionId) {
+        throw new BadRequestException('无效的会话ID');
+      }
+      sessionIds.add(sessionId);
+    }
+
+    for (const sessionId of sessionIds) {
+      await this.sessionAccessService.assertSessionAccess(sessionId, userId, role);
+    }
+
+    const chartId = request.params?.chartId;
+    if (chartId) {
+      await this.sessionAccessService.assertChartAccess(chartId, userId, role);
+    }
+
+    return true;
+  }
+}
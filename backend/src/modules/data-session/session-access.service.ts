@@ -0,0 +1,78 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { DataSession, ChartConfig, WorkspaceRole } from '../../entities';
+import { WorkspaceService, hasWorkspaceRole, insufficientRoleException } from '../workspace/workspace.service';
+
+/**
+ * 会话访问控制
+ * 个人会话仅创建者可访问（视为所有者），工作区会话按成员角色判断
+ * 无权访问时与不存在一样返回 404，避免泄露其他用户的会话是否存在；角色不足返回 403
+ */
+@Injectable()
+export class SessionAccessService {
+  constructor(
+    @InjectRepository(DataSession)
+    private readonly sessionRepository: Repository<DataSession>,
+    @InjectRepository(ChartConfig)
+    private readonly chartConfigRepository: Repository<ChartConfig>,
+    private readonly workspaceService: WorkspaceService,
+  ) {}
+
+  /**
+   * 获取用户对会话的角色，无权访问时返回 null
+   */
+  async getSessionRole(session: DataSession, userId: string): Promise<WorkspaceRole | null> {
+    if (session.workspaceId) {
+      return await this.workspaceService.getMemberRole(session.workspaceId, userId);
+    }
+    return session.userId === userId ? WorkspaceRole.OWNER : null;
+  }
+
+  /**
+   * 校验用户是否可以按指定角色访问会话
+   */
+  async assertSessionAccess(
+    sessionId: string,
+    userId: string,
+    required: WorkspaceRole = WorkspaceRole.VIEWER,
+  ): Promise<DataSession> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    const role = session ? await this.getSessionRole(session, userId) : null;
+
+    if (!role) {
+      throw new NotFoundException(`会话 ${sessionId} 不存在`);
+    }
+    if (!hasWorkspaceRole(role, required)) {
+      throw insufficientRoleException(required);
+    }
+
+    return session;
+  }
+
+  /**
+   * 校验用户是否可以按指定角色访问图表配置所属的会话
+   */
+  async assertChartAccess(
+    chartId: string,
+    userId: string,
+    required: WorkspaceRole = WorkspaceRole.VIEWER,
+  ): Promise<ChartConfig> {
+    const chart = await this.chartConfigRepository.findOne({ where: { id: chartId } });
+
+    if (!chart) {
+      throw new NotFoundException(`图表配置 ${chartId} 不存在`);
+    }
+
+    try {
+      await this.assertSessionAccess(chart.sessionId, userId, required);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new NotFoundException(`图表配置 ${chartId} 不存在`);
+      }
+      throw error;
+    }
+
+    return chart;
+  }
+}
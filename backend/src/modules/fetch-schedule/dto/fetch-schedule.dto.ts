@@ -0,0 +1,30 @@
+import { IsString, IsOptional, IsEnum, IsInt, Min, Max, IsBoolean, ValidateIf, IsNotEmpty } from 'class-validator';
+
+export enum ScheduleType {
+  CRON = 'cron',         // cron 表达式
+  INTERVAL = 'interval', // 固定间隔（分钟）
+}
+
+export class SaveFetchScheduleDto {
+  @IsEnum(ScheduleType)
+  scheduleType: ScheduleType;
+
+  @ValidateIf((o) => o.scheduleType === ScheduleType.CRON)
+  @IsString()
+  @IsNotEmpty()
+  cronExpression?: string; // 如 '0 8 * * *' 表示每天8点
+
+  @ValidateIf((o) => o.scheduleType === ScheduleType.INTERVAL)
+  @IsInt()
+  @Min(1)
+  @Max(60 * 24 * 30)
+  intervalMinutes?: number;
+
+  @IsString()
+  @IsOptional()
+  timezone?: string = 'Asia/Shanghai';
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean = true;
+}
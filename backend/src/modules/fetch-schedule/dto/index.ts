@@ -0,0 +1 @@
+export { SaveFetchScheduleDto, ScheduleType } from './fetch-schedule.dto';
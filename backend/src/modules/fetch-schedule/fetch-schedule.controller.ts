@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { FetchScheduleService } from './fetch-schedule.service';
+import { SaveFetchScheduleDto } from './dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionAccessGuard, SessionRole } from '../data-session/session-access.guard';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
+
+@Controller('fetch-schedule')
+@UseGuards(JwtAuthGuard, SessionAccessGuard)
+export class FetchScheduleController {
+  constructor(private readonly fetchScheduleService: FetchScheduleService) {}
+
+  /**
+   * 获取定时计划及最近一次运行结果
+   */
+  @Get(':sessionId')
+  async getSchedule(@Param('sessionId') sessionId: string) {
+    const [schedule, lastRun] = await Promise.all([
+      this.fetchScheduleService.getSchedule(sessionId),
+      this.fetchScheduleService.getLastRun(sessionId),
+    ]);
+
+    return {
+      success: true,
+      data: {
+        schedule,
+        lastRun,
+      },
+    };
+  }
+
+  /**
+   * 保存定时计划
+   */
+  @Put(':sessionId')
+  @SessionRole(WorkspaceRole.EDITOR)
+  async saveSchedule(
+    @Param('sessionId') sessionId: string,
+    @Body() saveFetchScheduleDto: SaveFetchScheduleDto,
+  ) {
+    const schedule = await this.fetchScheduleService.saveSchedule(sessionId, saveFetchScheduleDto);
+
+    return {
+      success: true,
+      data: schedule,
+      message: '定时计划保存成功',
+    };
+  }
+
+  /**
+   * 删除定时计划
+   */
+  @Delete(':sessionId')
+  @SessionRole(WorkspaceRole.EDITOR)
+  @HttpCode(HttpStatus.OK)
+  async deleteSchedule(@Param('sessionId') sessionId: string) {
+    await this.fetchScheduleService.deleteSchedule(sessionId);
+
+    return {
+      success: true,
+      message: '定时计划删除成功',
+    };
+  }
+}
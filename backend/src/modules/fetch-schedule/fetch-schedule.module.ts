@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
+import { FetchScheduleController } from './fetch-schedule.controller';
+import { FetchScheduleService } from './fetch-schedule.service';
+import { FetchSchedule } from '../../entities/fetch-schedule.entity';
+import { FetchRun } from '../../entities/fetch-run.entity';
+import { DataFetchModule } from '../data-fetch/data-fetch.module';
+import { DataSessionModule } from '../data-session/data-session.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FetchSchedule, FetchRun]),
+    DataFetchModule,
+    DataSessionModule,
+    AuthModule,
+    ScheduleModule.forRoot(),
+  ],
+  controllers: [FetchScheduleController],
+  providers: [FetchScheduleService],
+  exports: [FetchScheduleService],
+})
+export class FetchScheduleModule {}
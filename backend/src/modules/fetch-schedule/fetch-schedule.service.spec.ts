@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { FetchScheduleService } from './fetch-schedule.service';
+import { DataFetchService } from '../data-fetch/data-fetch.service';
+import { FetchSchedule } from '../../entities/fetch-schedule.entity';
+import { FetchRun, FetchRunTrigger } from '../../entities/fetch-run.entity';
+import { SourceType } from '../../entities/fetch-config.entity';
+import { ScheduleType } from './dto';
+
+describe('FetchScheduleService', () => {
+  let service: FetchScheduleService;
+  let schedulerRegistry: SchedulerRegistry;
+
+  const mockScheduleRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    save: jest.fn((entity) => Promise.resolve({ id: 'schedule-1', ...entity })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockRunRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataFetchService = {
+    getFetchConfig: jest.fn(),
+    executeFetch: jest.fn(),
+    getFetchSources: jest.fn().mockResolvedValue([]),
+    runExclusive: jest.fn((_sessionId, work) => work()),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FetchScheduleService,
+        SchedulerRegistry,
+        {
+          provide: getRepositoryToken(FetchSchedule),
+          useValue: mockScheduleRepository,
+        },
+        {
+          provide: getRepositoryToken(FetchRun),
+          useValue: mockRunRepository,
+        },
+        {
+          provide: DataFetchService,
+          useValue: mockDataFetchService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FetchScheduleService>(FetchScheduleService);
+    schedulerRegistry = module.get<SchedulerRegistry>(SchedulerRegistry);
+    mockScheduleRepository.findOne.mockResolvedValue(null);
+    mockDataFetchService.getFetchConfig.mockResolvedValue({ sessionId: 'session-1' });
+  });
+
+  afterEach(() => {
+    schedulerRegistry.getCronJobs().forEach((_, name) => schedulerRegistry.deleteCronJob(name));
+    schedulerRegistry.getIntervals().forEach((name) => schedulerRegistry.deleteInterval(name));
+    jest.clearAllMocks();
+  });
+
+  describe('saveSchedule', () => {
+    it('应该注册cron任务并计算下一次执行时间', async () => {
+      const result = await service.saveSchedule('session-1', {
+        scheduleType: ScheduleType.CRON,
+        cronExpression: '0 8 * * *',
+        timezone: 'Asia/Shanghai',
+        enabled: true,
+      });
+
+      expect(result.nextRunAt).toBeInstanceOf(Date);
+      expect(result.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+      expect(schedulerRegistry.doesExist('cron', 'fetch-schedule:session-1')).toBe(true);
+    });
+
+    it('应该注册间隔任务', async () => {
+      const result = await service.saveSchedule('session-1', {
+        scheduleType: ScheduleType.INTERVAL,
+        intervalMinutes: 30,
+      });
+
+      expect(result.cronExpression).toBeNull();
+      expect(schedulerRegistry.doesExist('interval', 'fetch-schedule:session-1')).toBe(true);
+    });
+
+    it('停用计划时不应注册任务', async () => {
+      const result = await service.saveSchedule('session-1', {
+        scheduleType: ScheduleType.INTERVAL,
+        intervalMinutes: 30,
+        enabled: false,
+      });
+
+      expect(result.nextRunAt).toBeNull();
+      expect(schedulerRegistry.doesExist('interval', 'fetch-schedule:session-1')).toBe(false);
+    });
+
+    it('无效的cron表达式应该抛出异常', async () => {
+      await expect(
+        service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.CRON,
+          cronExpression: 'not a cron',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('无效的时区应该抛出异常', async () => {
+      await expect(
+        service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 10,
+          timezone: 'Mars/Olympus',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('定时触发', () => {
+    it('应该以定时触发方式执行拉取并更新最近运行时间', async () => {
+      jest.useFakeTimers();
+      try {
+        mockScheduleRepository.findOne.mockResolvedValue(null);
+        const saved = await service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 1,
+        });
+        mockScheduleRepository.findOne.mockResolvedValue(saved);
+        mockDataFetchService.executeFetch.mockResolvedValue({ success: true });
+
+        jest.advanceTimersByTime(60 * 1000);
+        await jest.runOnlyPendingTimersAsync();
+
+        expect(mockDataFetchService.executeFetch).toHaveBeenCalledWith(
+          { sessionId: 'session-1' },
+          FetchRunTrigger.SCHEDULE,
+        );
+        expect(mockScheduleRepository.update).toHaveBeenCalledWith(
+          { id: 'schedule-1' },
+          { lastRunAt: expect.any(Date), nextRunAt: expect.any(Date) },
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('拉取期间修改的计划不应被运行结果覆盖', async () => {
+      jest.useFakeTimers();
+      try {
+        mockScheduleRepository.findOne.mockResolvedValue(null);
+        const saved = await service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 1,
+        });
+        mockScheduleRepository.findOne.mockResolvedValue(saved);
+        mockScheduleRepository.save.mockClear();
+        mockDataFetchService.executeFetch.mockImplementation(async () => {
+          // 模拟拉取过程中用户停用了计划
+          mockScheduleRepository.findOne.mockResolvedValue({ ...saved, enabled: false });
+          return { success: true };
+        });
+
+        jest.advanceTimersByTime(60 * 1000);
+        await jest.runOnlyPendingTimersAsync();
+
+        expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+        expect(mockScheduleRepository.update).toHaveBeenCalledWith(
+          { id: 'schedule-1' },
+          { lastRunAt: expect.any(Date), nextRunAt: null },
+        );
+      } finally {
+        mockDataFetchService.executeFetch.mockReset();
+        jest.useRealTimers();
+      }
+    });
+
+    it('应该跳过上传文件导入的数据源', async () => {
+      jest.useFakeTimers();
+      try {
+        mockScheduleRepository.findOne.mockResolvedValue(null);
+        const saved = await service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 1,
+        });
+        mockScheduleRepository.findOne.mockResolvedValue(saved);
+        mockDataFetchService.getFetchSources.mockResolvedValue([
+          { sourceName: 'main', sourceType: SourceType.FILE },
+          { sourceName: 'orders', sourceType: SourceType.API },
+          { sourceName: 'targets', sourceType: SourceType.FILE },
+        ]);
+        mockDataFetchService.executeFetch.mockResolvedValue({ success: true });
+
+        jest.advanceTimersByTime(60 * 1000);
+        await jest.runOnlyPendingTimersAsync();
+
+        const fetchedSources = mockDataFetchService.executeFetch.mock.calls.map(([dto]) => dto.sourceName);
+        expect(fetchedSources.length).toBeGreaterThan(0);
+        expect(fetchedSources.every((sourceName) => sourceName === 'orders')).toBe(true);
+      } finally {
+        mockDataFetchService.getFetchSources.mockResolvedValue([]);
+        jest.useRealTimers();
+      }
+    });
+
+    it('会话正在手动拉取时应该跳过本次定时触发', async () => {
+      jest.useFakeTimers();
+      try {
+        mockScheduleRepository.findOne.mockResolvedValue(null);
+        await service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 1,
+        });
+        mockDataFetchService.runExclusive.mockRejectedValueOnce(
+          new ConflictException('该会话正在拉取数据，请稍后再试'),
+        );
+
+        jest.advanceTimersByTime(60 * 1000);
+        await jest.runOnlyPendingTimersAsync();
+
+        expect(mockDataFetchService.executeFetch).not.toHaveBeenCalled();
+        expect(mockScheduleRepository.update).not.toHaveBeenCalled();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('读取计划失败时应该记录错误而不是抛给定时器', async () => {
+      jest.useFakeTimers();
+      const errorSpy = jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+      try {
+        mockScheduleRepository.findOne.mockResolvedValue(null);
+        await service.saveSchedule('session-1', {
+          scheduleType: ScheduleType.INTERVAL,
+          intervalMinutes: 1,
+        });
+        mockScheduleRepository.findOne.mockRejectedValue(new Error('Connection lost'));
+
+        jest.advanceTimersByTime(60 * 1000);
+        await jest.runOnlyPendingTimersAsync();
+
+        expect(errorSpy).toHaveBeenCalledWith(
+          expect.stringContaining('会话 session-1 定时拉取异常: Connection lost'),
+          expect.anything(),
+        );
+        expect(mockDataFetchService.executeFetch).not.toHaveBeenCalled();
+      } finally {
+        errorSpy.mockRestore();
+        jest.useRealTimers();
+      }
+    });
+  });
+});
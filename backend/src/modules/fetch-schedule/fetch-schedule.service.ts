@@ -0,0 +1,305 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Repository } from 'typeorm';
+import { CronJob, CronTime } from 'cron';
+import { FetchSchedule, ScheduleType } from '../../entities/fetch-schedule.entity';
+import { FetchRun, FetchRunTrigger } from '../../entities/fetch-run.entity';
+import { DEFAULT_SOURCE_NAME, SourceType } from '../../entities/fetch-config.entity';
+import { DataFetchService } from '../data-fetch/data-fetch.service';
+import { SaveFetchScheduleDto } from './dto';
+
+@Injectable()
+export class FetchScheduleService implements OnModuleInit {
+  private readonly logger = new Logger(FetchScheduleService.name);
+
+  constructor(
+    @InjectRepository(FetchSchedule)
+    private readonly fetchScheduleRepository: Repository<FetchSchedule>,
+    @InjectRepository(FetchRun)
+    private readonly fetchRunRepository: Repository<FetchRun>,
+    private readonly dataFetchService: DataFetchService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  /**
+   * 应用启动时注册所有启用的定时任务
+   */
+  async onModuleInit() {
+    try {
+      const schedules = await this.fetchScheduleRepository.find({
+        where: { enabled: true },
+      });
+
+      for (const schedule of schedules) {
+        try {
+          this.registerJob(schedule);
+        } catch (error) {
+          this.logger.warn(`注册会话 ${schedule.sessionId} 的定时任务失败: ${error.message}`);
+        }
+      }
+
+      this.logger.log(`已注册 ${schedules.length} 个定时拉取任务`);
+    } catch (error) {
+      this.logger.error(`加载定时拉取任务失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 获取会话的定时计划
+   */
+  async getSchedule(sessionId: string): Promise<FetchSchedule | null> {
+    return await this.fetchScheduleRepository.findOne({
+      where: { sessionId },
+    });
+  }
+
+  /**
+   * 获取会话最近一次运行记录
+   */
+  async getLastRun(sessionId: string): Promise<FetchRun | null> {
+    return await this.fetchRunRepository.findOne({
+      where: { sessionId },
+      order: { startedAt: 'DESC' },
+    });
+  }
+
+  /**
+   * 保存会话的定时计划（新建或更新）
+   */
+  async saveSchedule(
+    sessionId: string,
+    saveFetchScheduleDto: SaveFetchScheduleDto,
+  ): Promise<FetchSchedule> {
+    const { scheduleType, cronExpression, intervalMinutes, timezone, enabled } =
+      saveFetchScheduleDto;
+
+    // 定时拉取依赖拉取配置，没有配置时直接报错
+    await this.dataFetchService.getFetchConfig(sessionId);
+
+    let schedule = await this.getSchedule(sessionId);
+    if (!schedule) {
+      schedule = this.fetchScheduleRepository.create({ sessionId });
+    }
+
+    Object.assign(schedule, {
+      scheduleType,
+      cronExpression: scheduleType === ScheduleType.CRON ? cronExpression?.trim() : null,
+      intervalMinutes: scheduleType === ScheduleType.INTERVAL ? intervalMinutes : null,
+      timezone: timezone || 'Asia/Shanghai',
+      enabled: enabled !== false,
+    });
+
+    this.validateSchedule(schedule);
+    schedule.nextRunAt = schedule.enabled ? this.computeNextRunAt(schedule) : null;
+
+    const savedSchedule = await this.fetchScheduleRepository.save(schedule);
+    this.registerJob(savedSchedule);
+
+    return savedSchedule;
+  }
+
+  /**
+   * 删除会话的定时计划
+   */
+  async deleteSchedule(sessionId: string): Promise<void> {
+    const schedule = await this.getSchedule(sessionId);
+    if (!schedule) {
+      throw new NotFoundException(`会话 ${sessionId} 的定时计划不存在`);
+    }
+
+    this.unregisterJob(sessionId);
+    await this.fetchScheduleRepository.remove(schedule);
+  }
+
+  /**
+   * 校验计划参数
+   */
+  private validateSchedule(schedule: FetchSchedule): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      throw new BadRequestException(`无效的时区: ${schedule.timezone}`);
+    }
+
+    if (schedule.scheduleType === ScheduleType.CRON) {
+      if (!schedule.cronExpression) {
+        throw new BadRequestException('cron表达式不能为空');
+      }
+      try {
+        new CronTime(schedule.cronExpression, schedule.timezone);
+      } catch (error) {
+        throw new BadRequestException(`无效的cron表达式: ${error.message}`);
+      }
+    } else if (!schedule.intervalMinutes || schedule.intervalMinutes < 1) {
+      throw new BadRequestException('间隔分钟数必须大于0');
+    }
+  }
+
+  /**
+   * 计算下一次执行时间
+   */
+  private computeNextRunAt(schedule: FetchSchedule, from: Date = new Date()): Date {
+    if (schedule.scheduleType === ScheduleType.CRON) {
+      return new CronTime(schedule.cronExpression, schedule.timezone)
+        .getNextDateFrom(from)
+        .toJSDate();
+    }
+
+    return new Date(from.getTime() + schedule.intervalMinutes * 60 * 1000);
+  }
+
+  private getJobName(sessionId: string): string {
+    return `fetch-schedule:${sessionId}`;
+  }
+
+  /**
+   * 注册定时任务（会先移除已存在的同名任务）
+   */
+  private registerJob(schedule: FetchSchedule): void {
+    const { sessionId } = schedule;
+    const jobName = this.getJobName(sessionId);
+
+    this.unregisterJob(sessionId);
+
+    if (!schedule.enabled) {
+      return;
+    }
+
+    if (schedule.scheduleType === ScheduleType.CRON) {
+      const job = new CronJob(
+        schedule.cronExpression,
+        () => this.triggerScheduledRun(sessionId),
+        null,
+        false,
+        schedule.timezone,
+      );
+      this.schedulerRegistry.addCronJob(jobName, job);
+      job.start();
+    } else {
+      const interval = setInterval(
+        () => this.triggerScheduledRun(sessionId),
+        schedule.intervalMinutes * 60 * 1000,
+      );
+      this.schedulerRegistry.addInterval(jobName, interval);
+    }
+
+    this.logger.log(`已注册会话 ${sessionId} 的定时拉取任务 (${schedule.scheduleType})`);
+  }
+
+  /**
+   * 移除定时任务
+   */
+  private unregisterJob(sessionId: string): void {
+    const jobName = this.getJobName(sessionId);
+
+    if (this.schedulerRegistry.doesExist('cron', jobName)) {
+      this.schedulerRegistry.deleteCronJob(jobName);
+    }
+    if (this.schedulerRegistry.doesExist('interval', jobName)) {
+      this.schedulerRegistry.deleteInterval(jobName);
+    }
+  }
+
+  /**
+   * 定时器回调，异常只记录日志，不向定时器抛出
+   */
+  private triggerScheduledRun(sessionId: string): void {
+    void this.handleScheduledRun(sessionId).catch(error =>
+      this.logger.error(`会话 ${sessionId} 定时拉取异常: ${error.message}`, error.stack),
+    );
+  }
+
+  /**
+   * 定时任务触发时执行拉取，与手动拉取共用会话锁，会话正在拉取时跳过本次触发
+   */
+  private async handleScheduledRun(sessionId: string): Promise<void> {
+    try {
+      await this.dataFetchService.runExclusive(sessionId, async () => {
+        const schedule = await this.getSchedule(sessionId);
+        if (!schedule || !schedule.enabled) {
+          // 计划已被删除或停用，清理残留任务
+          this.unregisterJob(sessionId);
+          return;
+        }
+
+        try {
+          await this.fetchAllSources(sessionId);
+        } finally {
+          await this.updateRunTimes(sessionId);
+        }
+      });
+    } catch (error) {
+      if (error instanceof ConflictException) {
+        this.logger.warn(`会话 ${sessionId} 的上一次拉取仍在执行，跳过本次定时触发`);
+        return;
+      }
+      this.logger.error(`会话 ${sessionId} 定时拉取异常: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * 依次拉取会话的全部数据源
+   */
+  private async fetchAllSources(sessionId: string): Promise<void> {
+    this.logger.log(`开始执行会话 ${sessionId} 的定时拉取`);
+
+    // 上传文件导入的数据源没有可请求的接口，定时拉取时跳过
+    const sources = await this.dataFetchService.getFetchSources(sessionId);
+    const fileSources = new Set(
+      sources.filter(item => item.sourceType === SourceType.FILE).map(item => item.sourceName),
+    );
+
+    if (!fileSources.has(DEFAULT_SOURCE_NAME)) {
+      const result = await this.dataFetchService.executeFetch(
+        { sessionId },
+        FetchRunTrigger.SCHEDULE,
+      );
+      if (!result.success) {
+        this.logger.warn(`会话 ${sessionId} 定时拉取失败: ${result.message}`);
+      }
+    }
+
+    // 依次刷新附加数据源，保证关联查询使用同一批次的数据
+    for (const source of sources.filter(
+      item => item.sourceName !== DEFAULT_SOURCE_NAME && !fileSources.has(item.sourceName),
+    )) {
+      const sourceResult = await this.dataFetchService.executeFetch(
+        { sessionId, sourceName: source.sourceName },
+        FetchRunTrigger.SCHEDULE,
+      );
+      if (!sourceResult.success) {
+        this.logger.warn(
+          `会话 ${sessionId} 数据源 ${source.sourceName} 定时拉取失败: ${sourceResult.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * 拉取期间计划可能被修改或停用，按最新配置计算下次执行时间，且只更新运行时间字段
+   */
+  private async updateRunTimes(sessionId: string): Promise<void> {
+    try {
+      const latest = await this.getSchedule(sessionId);
+      if (latest) {
+        await this.fetchScheduleRepository.update(
+          { id: latest.id },
+          {
+            lastRunAt: new Date(),
+            nextRunAt: latest.enabled ? this.computeNextRunAt(latest) : null,
+          },
+        );
+      }
+    } catch (error) {
+      this.logger.warn(`更新会话 ${sessionId} 的定时计划失败: ${error.message}`);
+    }
+  }
+}
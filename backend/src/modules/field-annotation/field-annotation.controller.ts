@@ -1,8 +1,11 @@
-import { Controller, Get, Post, Delete, Param, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Param, Body, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
 import { IsString, IsNotEmpty, IsOptional, IsArray, ValidateNested, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
 import { FieldAnnotationService } from './field-annotation.service';
 import { FieldType } from '../../common/enums/field-type.enum';
+import { WorkspaceRole } from '../../entities/workspace-member.entity';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { SessionAccessGuard, SessionRole } from '../data-session/session-access.guard';
 
 export class AnnotationItemDto {
   @IsString()
@@ -63,6 +66,7 @@ export class UpdateFieldTypeDto {
 }
 
 @Controller('field-annotation')
+@UseGuards(JwtAuthGuard, SessionAccessGuard)
 export class FieldAnnotationController {
   constructor(
     private readonly fieldAnnotationService: FieldAnnotationService,
@@ -120,6 +124,7 @@ export class FieldAnnotationController {
    * 保存单个字段标注
    */
   @Post('save')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async saveAnnotation(@Body() dto: SaveAnnotationDto) {
     const annotation = await this.fieldAnnotationService.saveAnnotation(
@@ -139,6 +144,7 @@ export class FieldAnnotationController {
    * 批量保存字段标注
    */
   @Post('batch-save')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async batchSaveAnnotations(@Body() dto: BatchSaveAnnotationsDto) {
     const annotations = await this.fieldAnnotationService.batchSaveAnnotations(
@@ -157,6 +163,7 @@ export class FieldAnnotationController {
    * 更新字段类型
    */
   @Post('update-type')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async updateFieldType(@Body() dto: UpdateFieldTypeDto) {
     const annotation = await this.fieldAnnotationService.updateFieldType(
@@ -176,6 +183,7 @@ export class FieldAnnotationController {
    * 删除字段标注
    */
   @Delete(':sessionId/:fieldName')
+  @SessionRole(WorkspaceRole.EDITOR)
   @HttpCode(HttpStatus.OK)
   async deleteAnnotation(
     @Param('sessionId') sessionId: string,
@@ -4,11 +4,14 @@ import { FieldAnnotationController } from './field-annotation.controller';
 import { FieldAnnotationService } from './field-annotation.service';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { DataSession } from '../../entities/data-session.entity';
+import { DataTableSchema } from '../../entities/data-table-schema.entity';
 import { SchemaAnalysisService } from '../../common/utils/schema-analysis.service';
+import { DataSessionModule } from '../data-session/data-session.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FieldAnnotation, DataSession]),
+    TypeOrmModule.forFeature([FieldAnnotation, DataSession, DataTableSchema]),
+    DataSessionModule,
   ],
   controllers: [FieldAnnotationController],
   providers: [FieldAnnotationService, SchemaAnalysisService],
@@ -1,8 +1,10 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository, InjectDataSource } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, IsNull, Not } from 'typeorm';
 import { FieldAnnotation } from '../../entities/field-annotation.entity';
 import { DataSession } from '../../entities/data-session.entity';
+import { DataTableSchema } from '../../entities/data-table-schema.entity';
+import { DynamicTableUtil } from '../../common/database-utils';
 import { FieldType } from '../../common/enums/field-type.enum';
 import { SchemaAnalysisService } from '../../common/utils/schema-analysis.service';
 
@@ -30,6 +32,8 @@ export class FieldAnnotationService {
     private readonly fieldAnnotationRepository: Repository<FieldAnnotation>,
     @InjectRepository(DataSession)
     private readonly dataSessionRepository: Repository<DataSession>,
+    @InjectRepository(DataTableSchema)
+    private readonly dataTableSchemaRepository: Repository<DataTableSchema>,
     @InjectDataSource()
     private readonly dataSource: DataSource,
     private readonly schemaAnalysisService: SchemaAnalysisService,
@@ -296,17 +300,40 @@ export class FieldAnnotationService {
 
   /**
    * 从数据表获取字段信息
+   * 嵌套数组拆分出的子表字段以 `子表名.字段名` 命名，与查询中的引用方式一致
    */
   private async getFieldsFromDataTable(sessionId: string): Promise<Array<{
     name: string;
     type: string;
     suggestedLabel: string;
     sampleValues: any[];
+  }>> {
+    const fields = await this.getTableFields(DynamicTableUtil.generateTableName(sessionId));
+
+    const childSchemas = await this.dataTableSchemaRepository.find({
+      where: { sessionId, parentSourceName: Not(IsNull()) },
+    });
+    for (const childSchema of childSchemas) {
+      const childFields = await this.getTableFields(childSchema.tableName, [DynamicTableUtil.PARENT_ROW_ID_COLUMN]);
+      fields.push(...childFields.map(field => ({
+        ...field,
+        name: `${childSchema.sourceName}.${field.name}`,
+      })));
+    }
+
+    return fields;
+  }
+
+  /**
+   * 从单个动态表获取字段信息，排除系统字段
+   */
+  private async getTableFields(tableName: string, excludedColumns: string[] = []): Promise<Array<{
+    name: string;
+    type: string;
+    suggestedLabel: string;
+    sampleValues: any[];
   }>> {
     try {
-      // 生成动态表名
-      const tableName = `data_${sessionId.replace(/-/g, '_')}`;
-      
       // 检查表是否存在
       const tableExistsQuery = `
         SELECT COUNT(*) as count 
@@ -332,10 +359,14 @@ export class FieldAnnotationService {
         WHERE TABLE_SCHEMA = DATABASE() 
         AND TABLE_NAME = ?
         AND COLUMN_NAME NOT IN ('id', 'session_id', 'page_number', 'data_index', 'data_hash', 'created_at')
+        ${excludedColumns.length > 0 ? 'AND COLUMN_NAME NOT IN (?)' : ''}
         ORDER BY ORDINAL_POSITION
       `;
       
-      const columns = await this.dataSource.query(columnsQuery, [tableName]);
+      const columns = await this.dataSource.query(
+        columnsQuery,
+        excludedColumns.length > 0 ? [tableName, excludedColumns] : [tableName],
+      );
       
       if (columns.length === 0) {
         this.logger.warn(`动态表 ${tableName} 没有数据字段`);
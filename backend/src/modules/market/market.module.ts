@@ -6,11 +6,13 @@ import { MarketSession } from '../../entities/market-session.entity';
 import { DataSession } from '../../entities/data-session.entity';
 import { FetchConfig } from '../../entities/fetch-config.entity';
 import { DataFetchModule } from '../data-fetch/data-fetch.module';
+import { SecretModule } from '../secret/secret.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([MarketSession, DataSession, FetchConfig]),
     forwardRef(() => DataFetchModule),
+    SecretModule,
   ],
   providers: [MarketService],
   controllers: [MarketController],
@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { MarketService } from './market.service';
+import { MarketSession } from '../../entities/market-session.entity';
+import { DataSession } from '../../entities/data-session.entity';
+import { FetchConfig, SourceType } from '../../entities/fetch-config.entity';
+import { UserSecret } from '../../entities/user-secret.entity';
+import { DataFetchService } from '../data-fetch/data-fetch.service';
+import { SecretService } from '../secret/secret.service';
+
+describe('MarketService', () => {
+  let service: MarketService;
+
+  const sqlConfig: Partial<FetchConfig> = {
+    id: 'config-sql',
+    sessionId: 'session-1',
+    sourceName: 'main',
+    sourceType: SourceType.SQL,
+    sqlConnection: {
+      type: 'postgres',
+      host: 'db.internal',
+      port: 5432,
+      username: 'reporter',
+      password: 'p@ssw0rd',
+      database: 'shop',
+    },
+    sqlQuery: 'SELECT * FROM orders WHERE created_at > :since',
+    sqlParams: { since: '{{now}}', api_token: 'plain-token' },
+  };
+
+  const mockMarketSessionRepository = {
+    findOne: jest.fn(),
+    increment: jest.fn(),
+  };
+
+  const mockDataSessionRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    save: jest.fn((entity) => Promise.resolve({ id: 'session-copy', ...entity })),
+  };
+
+  const mockFetchConfigRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MarketService,
+        SecretService,
+        {
+          provide: getRepositoryToken(MarketSession),
+          useValue: mockMarketSessionRepository,
+        },
+        {
+          provide: getRepositoryToken(DataSession),
+          useValue: mockDataSessionRepository,
+        },
+        {
+          provide: getRepositoryToken(FetchConfig),
+          useValue: mockFetchConfigRepository,
+        },
+        {
+          provide: getRepositoryToken(UserSecret),
+          useValue: {},
+        },
+        {
+          provide: DataFetchService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<MarketService>(MarketService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockMarketSession = (fetchConfigs: Partial<FetchConfig>[]) =>
+    mockMarketSessionRepository.findOne.mockResolvedValue({
+      id: 'market-1',
+      title: '订单分析',
+      dataSession: { id: 'session-1', name: '订单', fetchConfigs },
+    });
+
+  describe('downloadSession', () => {
+    it('应该将数据库连接的主机、账号和密码替换为密钥引用', async () => {
+      mockMarketSession([sqlConfig]);
+
+      const result = await service.downloadSession('market-1');
+
+      expect(result.config.sqlConnection).toEqual({
+        type: 'postgres',
+        host: '{{secret:sql_host}}',
+        port: 5432,
+        username: '{{secret:sql_username}}',
+        password: '{{secret:sql_password}}',
+        database: 'shop',
+      });
+      expect(result.config.sqlParams).toEqual({ since: '{{now}}', api_token: '{{secret:api_token}}' });
+      expect(JSON.stringify(result)).not.toMatch(/db\.internal|reporter|p@ssw0rd|plain-token/);
+    });
+
+    it('已经是密钥引用的连接字段应该原样保留', async () => {
+      mockMarketSession([
+        {
+          ...sqlConfig,
+          sqlConnection: { ...sqlConfig.sqlConnection, password: '{{secret:warehouse_password}}' },
+        },
+      ]);
+
+      const result = await service.downloadSession('market-1');
+
+      expect(result.config.sqlConnection.password).toBe('{{secret:warehouse_password}}');
+    });
+
+    it('应该将API地址查询串中的凭据替换为密钥引用', async () => {
+      mockMarketSession([
+        {
+          sourceName: 'main',
+          sourceType: SourceType.API,
+          apiUrl: 'https://api.example.com/orders?api_key=abc123&date={{today}}&access%5Ftoken=t%2Bk#list',
+        },
+      ]);
+
+      const result = await service.downloadSession('market-1');
+
+      expect(result.config.apiUrl).toBe(
+        'https://api.example.com/orders?api_key={{secret:api_key}}&date={{today}}&access%5Ftoken={{secret:access_token}}#list',
+      );
+    });
+  });
+
+  describe('copySession', () => {
+    const transformSteps = [{ type: 'cast' as const, field: 'amount', castType: 'number' as const }];
+
+    const copiedConfig = () => mockFetchConfigRepository.save.mock.calls[0][0];
+
+    it('应该复制 GraphQL 数据源的查询语句，并将变量中的凭据替换为密钥引用', async () => {
+      mockMarketSession([
+        {
+          sourceName: 'main',
+          sourceType: SourceType.GRAPHQL,
+          apiUrl: 'https://api.example.com/graphql',
+          graphqlQuery: 'query Orders { orders { id } }',
+          graphqlVariables: { first: 50, token: 'plain-token' },
+          transformSteps,
+        },
+      ]);
+
+      await service.copySession('market-1', 'user-2');
+
+      expect(copiedConfig()).toEqual(expect.objectContaining({
+        sessionId: 'session-copy',
+        sourceType: SourceType.GRAPHQL,
+        graphqlQuery: 'query Orders { orders { id } }',
+        graphqlVariables: { first: 50, token: '{{secret:token}}' },
+        transformSteps,
+      }));
+    });
+
+    it('应该复制 SQL 数据源的查询语句，连接凭据只保留密钥引用', async () => {
+      mockMarketSession([{ ...sqlConfig, transformSteps }]);
+
+      await service.copySession('market-1', 'user-2');
+
+      expect(copiedConfig()).toEqual(expect.objectContaining({
+        sourceType: SourceType.SQL,
+        sqlQuery: sqlConfig.sqlQuery,
+        sqlParams: { since: '{{now}}', api_token: '{{secret:api_token}}' },
+        sqlConnection: expect.objectContaining({
+          host: '{{secret:sql_host}}',
+          username: '{{secret:sql_username}}',
+          password: '{{secret:sql_password}}',
+        }),
+        transformSteps,
+      }));
+      expect(JSON.stringify(copiedConfig())).not.toMatch(/db\.internal|reporter|p@ssw0rd|plain-token/);
+    });
+
+    it('应该复制文件数据源的文件名和格式', async () => {
+      mockMarketSession([
+        { sourceName: 'main', sourceType: SourceType.FILE, fileName: 'orders.csv', fileFormat: 'csv', transformSteps },
+      ]);
+
+      await service.copySession('market-1', 'user-2');
+
+      expect(copiedConfig()).toEqual(expect.objectContaining({
+        sourceType: SourceType.FILE,
+        fileName: 'orders.csv',
+        fileFormat: 'csv',
+        transformSteps,
+      }));
+    });
+
+    it('应该复制 API 数据源的数据源类型', async () => {
+      mockMarketSession([
+        { sourceName: 'main', sourceType: SourceType.API, apiUrl: 'https://api.example.com/orders', transformSteps },
+      ]);
+
+      await service.copySession('market-1', 'user-2');
+
+      expect(copiedConfig()).toEqual(expect.objectContaining({
+        sourceType: SourceType.API,
+        apiUrl: 'https://api.example.com/orders',
+        transformSteps,
+      }));
+    });
+  });
+});
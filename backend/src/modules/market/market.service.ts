@@ -3,9 +3,11 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { MarketSession } from '../../entities/market-session.entity';
 import { DataSession } from '../../entities/data-session.entity';
-import { FetchConfig } from '../../entities/fetch-config.entity';
+import { FetchConfig, DEFAULT_SOURCE_NAME, SqlConnectionConfig } from '../../entities/fetch-config.entity';
+import { AuthConfig } from '../../common/http-client';
 import { ShareSessionDto } from './dto';
 import { DataFetchService } from '../data-fetch/data-fetch.service';
+import { SecretService } from '../secret/secret.service';
 
 @Injectable()
 export class MarketService {
@@ -18,6 +20,7 @@ export class MarketService {
     private readonly fetchConfigRepository: Repository<FetchConfig>,
     @Inject(forwardRef(() => DataFetchService))
     private readonly dataFetchService: DataFetchService,
+    private readonly secretService: SecretService,
   ) {}
 
   async shareSession(userId: string, shareSessionDto: ShareSessionDto) {
@@ -131,7 +134,7 @@ export class MarketService {
   async downloadSession(id: string) {
     const marketSession = await this.marketSessionRepository.findOne({
       where: { id },
-      relations: ['dataSession', 'dataSession.fetchConfig'],
+      relations: ['dataSession', 'dataSession.fetchConfigs'],
     });
 
     if (!marketSession) {
@@ -141,16 +144,21 @@ export class MarketService {
     // 增加下载次数
     await this.marketSessionRepository.increment({ id }, 'downloadCount', 1);
 
+    // 只下发密钥引用，不下发请求头等处的凭据明文
+    const { fetchConfigs, ...session } = marketSession.dataSession;
+    const sources = (fetchConfigs || []).map(config => this.toSharedConfig(config));
+
     return {
-      session: marketSession.dataSession,
-      config: marketSession.dataSession.fetchConfig,
+      session,
+      config: sources.find(config => config.sourceName === DEFAULT_SOURCE_NAME) || null,
+      sources,
     };
   }
 
   async copySession(id: string, userId?: string) {
     const marketSession = await this.marketSessionRepository.findOne({
       where: { id },
-      relations: ['dataSession', 'dataSession.fetchConfig'],
+      relations: ['dataSession', 'dataSession.fetchConfigs'],
     });
 
     if (!marketSession) {
@@ -169,13 +177,18 @@ export class MarketService {
 
     const savedSession = await this.dataSessionRepository.save(newSession);
 
-    // 如果原会话有拉取配置，复制配置
-    if (marketSession.dataSession.fetchConfig) {
-      const originalConfig = marketSession.dataSession.fetchConfig;
+    // 复制原会话全部数据源的拉取配置
+    for (const fetchConfig of marketSession.dataSession.fetchConfigs || []) {
+      // 复制的配置只携带密钥引用，复制者需在自己的密钥管理中添加同名密钥
+      const originalConfig = this.toSharedConfig(fetchConfig);
       
       // 复制配置数据
       const newConfig = this.fetchConfigRepository.create({
         sessionId: savedSession.id,
+        sourceName: originalConfig.sourceName,
+        sourceType: originalConfig.sourceType,
+        joinField: originalConfig.joinField,
+        primaryJoinField: originalConfig.primaryJoinField,
         apiUrl: originalConfig.apiUrl,
         method: originalConfig.method,
         headers: originalConfig.headers,
@@ -189,6 +202,24 @@ export class MarketService {
         totalField: originalConfig.totalField,
         pageSize: originalConfig.pageSize,
         stepSize: originalConfig.stepSize,
+        cursorPath: originalConfig.cursorPath,
+        cursorParam: originalConfig.cursorParam,
+        cursorLocation: originalConfig.cursorLocation,
+        incrementalMode: originalConfig.incrementalMode,
+        watermarkField: originalConfig.watermarkField,
+        rateLimit: originalConfig.rateLimit,
+        variables: originalConfig.variables,
+        auth: originalConfig.auth,
+        explodeFields: originalConfig.explodeFields,
+        transformSteps: originalConfig.transformSteps,
+        graphqlQuery: originalConfig.graphqlQuery,
+        graphqlVariables: originalConfig.graphqlVariables,
+        sqlConnection: originalConfig.sqlConnection,
+        sqlQuery: originalConfig.sqlQuery,
+        sqlParams: originalConfig.sqlParams,
+        fileName: originalConfig.fileName,
+        fileFormat: originalConfig.fileFormat,
+        configuredBy: userId,
       });
       
       await this.fetchConfigRepository.save(newConfig);
@@ -199,4 +230,45 @@ export class MarketService {
       originalTitle: marketSession.title,
     };
   }
+
+  /**
+   * 将拉取配置中的凭据明文替换为密钥引用
+   */
+  private toSharedConfig(config: FetchConfig): FetchConfig {
+    return {
+      ...config,
+      apiUrl: this.secretService.toSharedUrl(config.apiUrl),
+      headers: this.secretService.toSharedReferences(config.headers),
+      queryParams: this.secretService.toSharedReferences(config.queryParams),
+      data: this.secretService.toSharedReferences(config.data),
+      variables: this.secretService.toSharedReferences(config.variables),
+      graphqlVariables: this.secretService.toSharedReferences(config.graphqlVariables),
+      sqlParams: this.secretService.toSharedReferences(config.sqlParams),
+      auth: config.auth && this.toSharedAuth(config.auth),
+      sqlConnection: config.sqlConnection && this.toSharedSqlConnection(config.sqlConnection),
+    };
+  }
+
+  /**
+   * 认证配置中只替换凭据字段，令牌地址、客户端ID等保持原样
+   */
+  private toSharedAuth(auth: AuthConfig): AuthConfig {
+    const { password, token, apiKey, clientSecret } = auth;
+    return {
+      ...auth,
+      ...this.secretService.toSharedReferences({ password, token, apiKey, clientSecret }),
+    };
+  }
+
+  /**
+   * 数据库连接的主机、账号和密码都替换为密钥引用，数据库类型、端口和库名保持原样
+   */
+  private toSharedSqlConnection(connection: SqlConnectionConfig): SqlConnectionConfig {
+    return {
+      ...connection,
+      host: this.secretService.toSecretReference(connection.host, 'sql_host'),
+      username: this.secretService.toSecretReference(connection.username, 'sql_username'),
+      password: this.secretService.toSecretReference(connection.password, 'sql_password'),
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1 @@
+export { SaveSecretDto } from './secret.dto';
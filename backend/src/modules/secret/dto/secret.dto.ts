@@ -0,0 +1,18 @@
+import { IsString, IsNotEmpty, IsOptional, Matches, MaxLength } from 'class-validator';
+
+export class SaveSecretDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/^[A-Za-z0-9_.-]+$/, { message: '密钥名称只能包含字母、数字、下划线、点和中划线' })
+  name: string; // 在配置中以 {{secret:name}} 引用
+
+  @IsString()
+  @IsNotEmpty()
+  value: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { SecretService } from './secret.service';
+import { SaveSecretDto } from './dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+@Controller('secrets')
+@UseGuards(JwtAuthGuard)
+export class SecretController {
+  constructor(private readonly secretService: SecretService) {}
+
+  /**
+   * 获取当前用户的密钥列表（不返回密钥值）
+   */
+  @Get()
+  async listSecrets(@Request() req) {
+    const secrets = await this.secretService.listSecrets(req.user.id);
+
+    return {
+      success: true,
+      data: secrets,
+    };
+  }
+
+  /**
+   * 新增或更新密钥
+   */
+  @Put()
+  async saveSecret(@Request() req, @Body() saveSecretDto: SaveSecretDto) {
+    const secret = await this.secretService.saveSecret(req.user.id, saveSecretDto);
+
+    return {
+      success: true,
+      data: secret,
+      message: '密钥保存成功',
+    };
+  }
+
+  /**
+   * 删除密钥
+   */
+  @Delete(':name')
+  @HttpCode(HttpStatus.OK)
+  async deleteSecret(@Request() req, @Param('name') name: string) {
+    await this.secretService.deleteSecret(req.user.id, name);
+
+    return {
+      success: true,
+      message: '密钥删除成功',
+    };
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SecretController } from './secret.controller';
+import { SecretService } from './secret.service';
+import { UserSecret } from '../../entities/user-secret.entity';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([UserSecret]), AuthModule],
+  controllers: [SecretController],
+  providers: [SecretService],
+  exports: [SecretService],
+})
+export class SecretModule {}
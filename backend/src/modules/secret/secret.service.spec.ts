@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { SecretService } from './secret.service';
+import { UserSecret } from '../../entities/user-secret.entity';
+
+describe('SecretService', () => {
+  let service: SecretService;
+
+  const mockRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn(),
+    save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecretService,
+        {
+          provide: getRepositoryToken(UserSecret),
+          useValue: mockRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SecretService>(SecretService);
+    mockRepository.create.mockImplementation((entity) => ({ ...entity }));
+    mockRepository.save.mockImplementation((entity) => Promise.resolve({ id: 'secret-1', ...entity }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveSecret', () => {
+    it('应该加密保存密钥且不返回明文', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.saveSecret('user-1', { name: 'crm_token', value: 'abc123' });
+
+      const saved = mockRepository.save.mock.calls[0][0];
+      expect(saved.encryptedValue).not.toContain('abc123');
+      expect(result).toEqual(expect.objectContaining({ name: 'crm_token' }));
+      expect(result).not.toHaveProperty('encryptedValue');
+    });
+  });
+
+  describe('resolveSecrets', () => {
+    it('应该将密钥引用替换为解密后的值', async () => {
+      mockRepository.findOne.mockResolvedValue(null);
+      await service.saveSecret('user-1', { name: 'crm_token', value: 'abc123' });
+      const saved = mockRepository.save.mock.calls[0][0];
+      mockRepository.find.mockResolvedValue([saved]);
+
+      const result = await service.resolveSecrets('user-1', {
+        headers: { Authorization: 'Bearer {{secret:crm_token}}' },
+        data: { auth: { token: '{{ secret:crm_token }}' } },
+      });
+
+      expect(result).toEqual({
+        headers: { Authorization: 'Bearer abc123' },
+        data: { auth: { token: 'abc123' } },
+      });
+    });
+
+    it('没有密钥引用时不应该查询数据库', async () => {
+      const value = { headers: { Accept: 'application/json' } };
+
+      await expect(service.resolveSecrets(undefined, value)).resolves.toBe(value);
+      expect(mockRepository.find).not.toHaveBeenCalled();
+    });
+
+    it('引用的密钥不存在时应该抛出错误', async () => {
+      mockRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.resolveSecrets('user-1', { headers: { Cookie: '{{secret:session_cookie}}' } }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('toSharedReferences', () => {
+    it('应该将敏感字段的明文替换为密钥引用，保留已有引用和普通字段', () => {
+      const result = service.toSharedReferences({
+        Authorization: 'Bearer abc123',
+        'X-Api-Key': '{{secret:my_key}}',
+        Accept: 'application/json',
+      });
+
+      expect(result).toEqual({
+        Authorization: '{{secret:authorization}}',
+        'X-Api-Key': '{{secret:my_key}}',
+        Accept: 'application/json',
+      });
+    });
+  });
+
+  describe('toSharedUrl', () => {
+    it('应该只替换查询串中敏感参数的明文', () => {
+      expect(service.toSharedUrl('https://api.example.com/v1?token=abc&page={{page}}&sign={{secret:sign}}')).toBe(
+        'https://api.example.com/v1?token={{secret:token}}&page={{page}}&sign={{secret:sign}}',
+      );
+      expect(service.toSharedUrl('https://api.example.com/v1')).toBe('https://api.example.com/v1');
+      expect(service.toSharedUrl(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { UserSecret } from '../../entities/user-secret.entity';
+import { SaveSecretDto } from './dto';
+
+// 配置中引用密钥的写法：{{secret:name}}
+const SECRET_REFERENCE_PATTERN = /\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+// 分享/复制时需要替换为密钥引用的敏感字段
+const SENSITIVE_KEY_PATTERN = /(authorization|cookie|token|secret|password|passwd|api[-_]?key|access[-_]?key|signature)/i;
+
+export interface SecretSummary {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+@Injectable()
+export class SecretService {
+  private readonly logger = new Logger(SecretService.name);
+  private readonly encryptionKey = createHash('sha256')
+    .update(process.env.SECRET_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+    .digest();
+
+  constructor(
+    @InjectRepository(UserSecret)
+    private readonly userSecretRepository: Repository<UserSecret>,
+  ) {}
+
+  /**
+   * 获取用户的密钥列表（不包含密钥值）
+   */
+  async listSecrets(userId: string): Promise<SecretSummary[]> {
+    const secrets = await this.userSecretRepository.find({
+      where: { userId },
+      order: { name: 'ASC' },
+    });
+
+    return secrets.map((secret) => this.toSummary(secret));
+  }
+
+  /**
+   * 保存密钥，同名密钥直接覆盖
+   */
+  async saveSecret(userId: string, saveSecretDto: SaveSecretDto): Promise<SecretSummary> {
+    const { name, value, description } = saveSecretDto;
+
+    let secret = await this.userSecretRepository.findOne({ where: { userId, name } });
+    if (!secret) {
+      secret = this.userSecretRepository.create({ userId, name });
+    }
+    secret.encryptedValue = this.encrypt(value);
+    secret.description = description;
+
+    const saved = await this.userSecretRepository.save(secret);
+    this.logger.log(`用户 ${userId} 保存密钥: ${name}`);
+
+    return this.toSummary(saved);
+  }
+
+  /**
+   * 删除密钥
+   */
+  async deleteSecret(userId: string, name: string): Promise<void> {
+    const result = await this.userSecretRepository.delete({ userId, name });
+    if (!result.affected) {
+      throw new NotFoundException(`密钥 ${name} 不存在`);
+    }
+  }
+
+  /**
+   * 将请求头、查询参数、请求体中的 {{secret:name}} 替换为密钥明文
+   * 仅在发送请求前调用，解析结果不应写入日志或数据库
+   */
+  async resolveSecrets<T>(userId: string | undefined, value: T): Promise<T> {
+    const names = new Set<string>();
+    this.collectReferences(value, names);
+    if (names.size === 0) {
+      return value;
+    }
+
+    if (!userId) {
+      throw new BadRequestException('会话未关联用户，无法解析密钥引用');
+    }
+
+    const secrets = await this.userSecretRepository.find({
+      where: { userId, name: In(Array.from(names)) },
+    });
+    const values = new Map(secrets.map((secret) => [secret.name, this.decrypt(secret.encryptedValue)]));
+
+    const missing = Array.from(names).filter((name) => !values.has(name));
+    if (missing.length > 0) {
+      throw new BadRequestException(`密钥 ${missing.join(', ')} 不存在，请先在密钥管理中添加`);
+    }
+
+    return this.replaceReferences(value, values);
+  }
+
+  /**
+   * 分享或复制配置时，将敏感字段的明文值替换为同名密钥引用
+   * 已经是密钥引用的值原样保留
+   */
+  toSharedReferences<T>(value: T): T {
+    return this.replaceSensitiveValues(value, '');
+  }
+
+  /**
+   * 将URL查询串中敏感参数的明文替换为同名密钥引用，如 ?api_key=abc 替换为 ?api_key={{secret:api_key}}
+   * 只改写敏感参数，其余部分（包括模板和编码）原样保留
+   */
+  toSharedUrl(url: string | undefined): string | undefined {
+    const queryIndex = url?.indexOf('?') ?? -1;
+    if (queryIndex < 0) {
+      return url;
+    }
+    const hashIndex = url.indexOf('#', queryIndex);
+    const queryEnd = hashIndex >= 0 ? hashIndex : url.length;
+    const query = url
+      .slice(queryIndex + 1, queryEnd)
+      .split('&')
+      .map((pair) => {
+        const separatorIndex = pair.indexOf('=');
+        if (separatorIndex < 0) {
+          return pair;
+        }
+        const rawKey = pair.slice(0, separatorIndex);
+        let key = rawKey;
+        let value = pair.slice(separatorIndex + 1);
+        try {
+          key = decodeURIComponent(rawKey.replace(/\+/g, ' '));
+          value = decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch {
+          // 无法解码的参数按原文判断
+        }
+        const shared = this.replaceSensitiveValues(value, key);
+        return shared === value ? pair : `${rawKey}=${shared}`;
+      })
+      .join('&');
+    return `${url.slice(0, queryIndex + 1)}${query}${url.slice(queryEnd)}`;
+  }
+
+  /**
+   * 将明文替换为指定名称的密钥引用，空值和已经包含密钥引用的值原样保留
+   */
+  toSecretReference(value: string | undefined, name: string): string | undefined {
+    if (typeof value !== 'string' || value === '' || new RegExp(SECRET_REFERENCE_PATTERN.source).test(value)) {
+      return value;
+    }
+    return `{{secret:${name.toLowerCase().replace(/[^a-z0-9_.-]/g, '_')}}}`;
+  }
+
+  private replaceSensitiveValues(value: any, key: string): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.replaceSensitiveValues(item, key));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, child]) => [childKey, this.replaceSensitiveValues(child, childKey)]),
+      );
+    }
+    if (typeof value === 'string' && SENSITIVE_KEY_PATTERN.test(key)) {
+      return this.toSecretReference(value, key);
+    }
+    return value;
+  }
+
+  private collectReferences(value: any, names: Set<string>): void {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(SECRET_REFERENCE_PATTERN)) {
+        names.add(match[1]);
+      }
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach((child) => this.collectReferences(child, names));
+    }
+  }
+
+  private replaceReferences(value: any, values: Map<string, string>): any {
+    if (typeof value === 'string') {
+      return value.replace(SECRET_REFERENCE_PATTERN, (_, name) => values.get(name));
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.replaceReferences(item, values));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, this.replaceReferences(child, values)]),
+      );
+    }
+    return value;
+  }
+
+  private encrypt(plainText: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [iv, authTag, encrypted].map((part) => part.toString('base64')).join(':');
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, authTag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private toSummary(secret: UserSecret): SecretSummary {
+    return {
+      id: secret.id,
+      name: secret.name,
+      description: secret.description,
+      createdAt: secret.createdAt,
+      updatedAt: secret.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,6 @@
+export {
+  CreateWorkspaceDto,
+  UpdateWorkspaceDto,
+  AddWorkspaceMemberDto,
+  UpdateWorkspaceMemberDto,
+} from './workspace.dto';
@@ -0,0 +1,46 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, MaxLength } from 'class-validator';
+import { WorkspaceRole } from '../../../entities/workspace-member.entity';
+
+export class CreateWorkspaceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class UpdateWorkspaceDto {
+  @IsString()
+  @IsOptional()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class AddWorkspaceMemberDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  account: string; // 用户名或邮箱
+
+  @IsEnum(WorkspaceRole, {
+    message: `角色必须是以下值之一: ${Object.values(WorkspaceRole).join(', ')}`,
+  })
+  role: WorkspaceRole;
+}
+
+export class UpdateWorkspaceMemberDto {
+  @IsEnum(WorkspaceRole, {
+    message: `角色必须是以下值之一: ${Object.values(WorkspaceRole).join(', ')}`,
+  })
+  role: WorkspaceRole;
+}
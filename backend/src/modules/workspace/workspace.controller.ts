@@ -0,0 +1,154 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { WorkspaceService } from './workspace.service';
+import {
+  CreateWorkspaceDto,
+  UpdateWorkspaceDto,
+  AddWorkspaceMemberDto,
+  UpdateWorkspaceMemberDto,
+} from './dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+
+@Controller('workspaces')
+@UseGuards(JwtAuthGuard)
+export class WorkspaceController {
+  constructor(private readonly workspaceService: WorkspaceService) {}
+
+  /**
+   * 获取当前用户加入的工作区
+   */
+  @Get()
+  async listWorkspaces(@Request() req) {
+    const workspaces = await this.workspaceService.listWorkspaces(req.user.id);
+
+    return {
+      success: true,
+      data: workspaces,
+    };
+  }
+
+  /**
+   * 创建工作区
+   */
+  @Post()
+  async createWorkspace(@Request() req, @Body() createWorkspaceDto: CreateWorkspaceDto) {
+    const workspace = await this.workspaceService.createWorkspace(req.user.id, createWorkspaceDto);
+
+    return {
+      success: true,
+      data: workspace,
+      message: '工作区创建成功',
+    };
+  }
+
+  /**
+   * 获取工作区详情及成员
+   */
+  @Get(':id')
+  async getWorkspace(@Request() req, @Param('id') id: string) {
+    const workspace = await this.workspaceService.getWorkspace(id, req.user.id);
+
+    return {
+      success: true,
+      data: workspace,
+    };
+  }
+
+  /**
+   * 更新工作区信息
+   */
+  @Put(':id')
+  async updateWorkspace(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() updateWorkspaceDto: UpdateWorkspaceDto,
+  ) {
+    const workspace = await this.workspaceService.updateWorkspace(id, req.user.id, updateWorkspaceDto);
+
+    return {
+      success: true,
+      data: workspace,
+      message: '工作区更新成功',
+    };
+  }
+
+  /**
+   * 删除工作区，会话退回创建者的个人空间
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteWorkspace(@Request() req, @Param('id') id: string) {
+    await this.workspaceService.deleteWorkspace(id, req.user.id);
+
+    return {
+      success: true,
+      message: '工作区删除成功',
+    };
+  }
+
+  /**
+   * 添加成员
+   */
+  @Post(':id/members')
+  async addMember(
+    @Request() req,
+    @Param('id') id: string,
+    @Body() addMemberDto: AddWorkspaceMemberDto,
+  ) {
+    const member = await this.workspaceService.addMember(id, req.user.id, addMemberDto);
+
+    return {
+      success: true,
+      data: member,
+      message: '成员添加成功',
+    };
+  }
+
+  /**
+   * 修改成员角色
+   */
+  @Put(':id/members/:userId')
+  async updateMemberRole(
+    @Request() req,
+    @Param('id') id: string,
+    @Param('userId') memberUserId: string,
+    @Body() updateMemberDto: UpdateWorkspaceMemberDto,
+  ) {
+    const member = await this.workspaceService.updateMemberRole(id, req.user.id, memberUserId, updateMemberDto);
+
+    return {
+      success: true,
+      data: member,
+      message: '成员角色更新成功',
+    };
+  }
+
+  /**
+   * 移除成员或退出工作区
+   */
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async removeMember(
+    @Request() req,
+    @Param('id') id: string,
+    @Param('userId') memberUserId: string,
+  ) {
+    await this.workspaceService.removeMember(id, req.user.id, memberUserId);
+
+    return {
+      success: true,
+      message: memberUserId === req.user.id ? '已退出工作区' : '成员移除成功',
+    };
+  }
+}
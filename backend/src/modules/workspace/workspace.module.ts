@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkspaceController } from './workspace.controller';
+import { WorkspaceService } from './workspace.service';
+import { Workspace, WorkspaceMember, User, DataSession } from '../../entities';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Workspace, WorkspaceMember, User, DataSession]), AuthModule],
+  controllers: [WorkspaceController],
+  providers: [WorkspaceService],
+  exports: [WorkspaceService],
+})
+export class WorkspaceModule {}
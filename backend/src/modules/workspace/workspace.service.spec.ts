@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { DataSource, In } from 'typeorm';
+import { WorkspaceService } from './workspace.service';
+import { Workspace } from '../../entities/workspace.entity';
+import { WorkspaceMember, WorkspaceRole } from '../../entities/workspace-member.entity';
+import { User } from '../../entities/user.entity';
+import { DataSession } from '../../entities/data-session.entity';
+import { FetchConfig } from '../../entities/fetch-config.entity';
+
+describe('WorkspaceService', () => {
+  let service: WorkspaceService;
+  let members: Partial<WorkspaceMember>[];
+
+  const mockWorkspaceRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    findOne: jest.fn(),
+    save: jest.fn(),
+  };
+
+  const mockMemberRepository = {
+    create: jest.fn((entity) => ({ ...entity })),
+    find: jest.fn(({ where }) =>
+      Promise.resolve(members.filter((m) => m.workspaceId === where.workspaceId && m.role === where.role)),
+    ),
+    findOne: jest.fn(({ where }) =>
+      Promise.resolve(members.find((m) => m.workspaceId === where.workspaceId && m.userId === where.userId) || null),
+    ),
+    count: jest.fn(({ where }) =>
+      Promise.resolve(members.filter((m) => m.workspaceId === where.workspaceId && m.role === where.role).length),
+    ),
+    save: jest.fn((entity) => Promise.resolve(entity)),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockQueryRunner = {
+    connect: jest.fn(),
+    startTransaction: jest.fn(),
+    commitTransaction: jest.fn(),
+    rollbackTransaction: jest.fn(),
+    release: jest.fn(),
+    manager: {
+      save: jest.fn((entity) => Promise.resolve({ id: 'workspace-1', ...entity })),
+      update: jest.fn(),
+      delete: jest.fn(),
+      find: jest.fn(() => Promise.resolve([{ id: 'session-1' }])),
+      remove: jest.fn((entity) => {
+        members = members.filter((m) => m !== entity);
+        return Promise.resolve(entity);
+      }),
+    },
+  };
+
+  const mockDataSource = {
+    createQueryRunner: jest.fn(() => mockQueryRunner),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspaceService,
+        {
+          provide: getRepositoryToken(Workspace),
+          useValue: mockWorkspaceRepository,
+        },
+        {
+          provide: getRepositoryToken(WorkspaceMember),
+          useValue: mockMemberRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: mockUserRepository,
+        },
+        {
+          provide: DataSource,
+          useValue: mockDataSource,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorkspaceService>(WorkspaceService);
+    members = [
+      { workspaceId: 'workspace-1', userId: 'owner', role: WorkspaceRole.OWNER },
+      { workspaceId: 'workspace-1', userId: 'editor', role: WorkspaceRole.EDITOR },
+      { workspaceId: 'workspace-1', userId: 'viewer', role: WorkspaceRole.VIEWER },
+    ];
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('创建工作区时创建者应该成为所有者', async () => {
+    const result = await service.createWorkspace('user-1', { name: '增长分析' });
+
+    expect(mockQueryRunner.manager.save).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', role: WorkspaceRole.OWNER }),
+    );
+    expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    expect(result.role).toBe(WorkspaceRole.OWNER);
+  });
+
+  it('应该按角色等级校验权限', async () => {
+    await expect(service.assertRole('workspace-1', 'owner', WorkspaceRole.EDITOR)).resolves.toBe(WorkspaceRole.OWNER);
+    await expect(service.assertRole('workspace-1', 'editor', WorkspaceRole.EDITOR)).resolves.toBe(WorkspaceRole.EDITOR);
+    await expect(service.assertRole('workspace-1', 'viewer', WorkspaceRole.EDITOR)).rejects.toThrow(ForbiddenException);
+    await expect(service.assertRole('workspace-1', 'stranger', WorkspaceRole.VIEWER)).rejects.toThrow(NotFoundException);
+  });
+
+  it('只有所有者可以添加成员，且不能重复添加', async () => {
+    mockUserRepository.findOne.mockResolvedValue({ id: 'new-user', username: 'alice' });
+
+    await expect(
+      service.addMember('workspace-1', 'editor', { account: 'alice', role: WorkspaceRole.VIEWER }),
+    ).rejects.toThrow(ForbiddenException);
+
+    const member = await service.addMember('workspace-1', 'owner', { account: 'alice', role: WorkspaceRole.EDITOR });
+    expect(member).toEqual(expect.objectContaining({ userId: 'new-user', role: WorkspaceRole.EDITOR }));
+
+    mockUserRepository.findOne.mockResolvedValue({ id: 'viewer', username: 'bob' });
+    await expect(
+      service.addMember('workspace-1', 'owner', { account: 'bob', role: WorkspaceRole.EDITOR }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('工作区至少保留一个所有者', async () => {
+    await expect(
+      service.updateMemberRole('workspace-1', 'owner', 'owner', { role: WorkspaceRole.EDITOR }),
+    ).rejects.toThrow('工作区至少需要保留一个所有者');
+    await expect(service.removeMember('workspace-1', 'owner', 'owner')).rejects.toThrow(BadRequestException);
+
+    await service.updateMemberRole('workspace-1', 'owner', 'editor', { role: WorkspaceRole.OWNER });
+    await expect(service.removeMember('workspace-1', 'owner', 'owner')).resolves.toBeUndefined();
+  });
+
+  it('非所有者只能退出工作区，不能移除其他成员', async () => {
+    await expect(service.removeMember('workspace-1', 'editor', 'viewer')).rejects.toThrow(ForbiddenException);
+    await service.removeMember('workspace-1', 'viewer', 'viewer');
+
+    expect(members.map((m) => m.userId)).toEqual(['owner', 'editor']);
+  });
+
+  it('移除成员时其保存的拉取配置应该交给操作的所有者', async () => {
+    await service.removeMember('workspace-1', 'owner', 'editor');
+
+    expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+      FetchConfig,
+      { sessionId: In(['session-1']), configuredBy: 'editor' },
+      { configuredBy: 'owner' },
+    );
+    expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+    expect(members.map((m) => m.userId)).toEqual(['owner', 'viewer']);
+  });
+
+  it('成员退出时其保存的拉取配置应该交给其他所有者', async () => {
+    members.push({ workspaceId: 'workspace-1', userId: 'owner-2', role: WorkspaceRole.OWNER });
+
+    await service.removeMember('workspace-1', 'owner', 'owner');
+
+    expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+      FetchConfig,
+      { sessionId: In(['session-1']), configuredBy: 'owner' },
+      { configuredBy: 'owner-2' },
+    );
+  });
+
+  it('删除工作区时会话应该退回个人空间', async () => {
+    await service.deleteWorkspace('workspace-1', 'owner');
+
+    expect(mockQueryRunner.manager.update).toHaveBeenCalledWith(
+      DataSession,
+      { workspaceId: 'workspace-1' },
+      { workspaceId: null },
+    );
+    expect(mockQueryRunner.manager.delete).toHaveBeenCalledWith(Workspace, { id: 'workspace-1' });
+    expect(mockQueryRunner.commitTransaction).toHaveBeenCalled();
+  });
+});
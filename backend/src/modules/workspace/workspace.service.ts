@@ -0,0 +1,328 @@
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, DataSource, In } from 'typeorm';
+import { Workspace } from '../../entities/workspace.entity';
+import { WorkspaceMember, WorkspaceRole } from '../../entities/workspace-member.entity';
+import { User } from '../../entities/user.entity';
+import { DataSession } from '../../entities/data-session.entity';
+import { FetchConfig } from '../../entities/fetch-config.entity';
+import {
+  CreateWorkspaceDto,
+  UpdateWorkspaceDto,
+  AddWorkspaceMemberDto,
+  UpdateWorkspaceMemberDto,
+} from './dto';
+
+// 角色等级，高等级角色拥有低等级角色的全部权限
+const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  [WorkspaceRole.VIEWER]: 1,
+  [WorkspaceRole.EDITOR]: 2,
+  [WorkspaceRole.OWNER]: 3,
+};
+
+const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  [WorkspaceRole.VIEWER]: '查看者',
+  [WorkspaceRole.EDITOR]: '编辑者',
+  [WorkspaceRole.OWNER]: '所有者',
+};
+
+export interface WorkspaceMemberInfo {
+  userId: string;
+  username: string;
+  nickname?: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: Date;
+}
+
+/**
+ * 判断角色是否满足要求
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+  return !!role && WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[required];
+}
+
+/**
+ * 角色不足时的异常
+ */
+export function insufficientRoleException(required: WorkspaceRole): ForbiddenException {
+  return new ForbiddenException(`需要${WORKSPACE_ROLE_LABELS[required]}权限`);
+}
+
+@Injectable()
+export class WorkspaceService {
+  constructor(
+    @InjectRepository(Workspace)
+    private readonly workspaceRepository: Repository<Workspace>,
+    @InjectRepository(WorkspaceMember)
+    private readonly memberRepository: Repository<WorkspaceMember>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly dataSource: DataSource,
+  ) {}
+
+  /**
+   * 获取用户加入的工作区及其角色
+   */
+  async listWorkspaces(userId: string): Promise<(Workspace & { role: WorkspaceRole })[]> {
+    const memberships = await this.memberRepository.find({
+      where: { userId },
+      relations: ['workspace'],
+      order: { createdAt: 'ASC' },
+    });
+
+    return memberships
+      .filter((membership) => membership.workspace)
+      .map((membership) => ({ ...membership.workspace, role: membership.role }));
+  }
+
+  /**
+   * 创建工作区，创建者成为所有者
+   */
+  async createWorkspace(userId: string, createWorkspaceDto: CreateWorkspaceDto): Promise<Workspace & { role: WorkspaceRole }> {
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const workspace = await queryRunner.manager.save(
+        this.workspaceRepository.create({
+          name: createWorkspaceDto.name,
+          description: createWorkspaceDto.description,
+          createdBy: userId,
+        }),
+      );
+      await queryRunner.manager.save(
+        this.memberRepository.create({
+          workspaceId: workspace.id,
+          userId,
+          role: WorkspaceRole.OWNER,
+        }),
+      );
+
+      await queryRunner.commitTransaction();
+      return { ...workspace, role: WorkspaceRole.OWNER };
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 获取工作区详情及成员列表
+   */
+  async getWorkspace(
+    workspaceId: string,
+    userId: string,
+  ): Promise<Omit<Workspace, 'members'> & { role: WorkspaceRole; members: WorkspaceMemberInfo[] }> {
+    const role = await this.assertRole(workspaceId, userId, WorkspaceRole.VIEWER);
+    const workspace = await this.workspaceRepository.findOne({
+      where: { id: workspaceId },
+      relations: ['members', 'members.user'],
+    });
+
+    if (!workspace) {
+      throw new NotFoundException(`工作区 ${workspaceId} 不存在`);
+    }
+
+    const { members, ...rest } = workspace;
+    const memberInfos = (members || [])
+      .map((member) => ({
+        userId: member.userId,
+        username: member.user?.username,
+        nickname: member.user?.nickname,
+        email: member.user?.email,
+        role: member.role,
+        createdAt: member.createdAt,
+      }))
+      .sort((a, b) => WORKSPACE_ROLE_RANK[b.role] - WORKSPACE_ROLE_RANK[a.role]);
+
+    return { ...rest, role, members: memberInfos };
+  }
+
+  /**
+   * 更新工作区信息，仅所有者可操作
+   */
+  async updateWorkspace(workspaceId: string, userId: string, updateWorkspaceDto: UpdateWorkspaceDto): Promise<Workspace> {
+    await this.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+    const workspace = await this.workspaceRepository.findOne({ where: { id: workspaceId } });
+
+    Object.assign(workspace, updateWorkspaceDto);
+    return await this.workspaceRepository.save(workspace);
+  }
+
+  /**
+   * 删除工作区，仅所有者可操作
+   * 工作区内的会话不会删除，而是退回各自创建者的个人空间
+   */
+  async deleteWorkspace(workspaceId: string, userId: string): Promise<void> {
+    await this.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      await queryRunner.manager.update(DataSession, { workspaceId }, { workspaceId: null });
+      await queryRunner.manager.delete(WorkspaceMember, { workspaceId });
+      await queryRunner.manager.delete(Workspace, { id: workspaceId });
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 添加成员，按用户名或邮箱查找用户，仅所有者可操作
+   */
+  async addMember(workspaceId: string, userId: string, addMemberDto: AddWorkspaceMemberDto): Promise<WorkspaceMember> {
+    await this.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+
+    const user = await this.userRepository.findOne({
+      where: [{ username: addMemberDto.account }, { email: addMemberDto.account }],
+    });
+    if (!user) {
+      throw new NotFoundException(`用户 ${addMemberDto.account} 不存在`);
+    }
+
+    const existing = await this.memberRepository.findOne({ where: { workspaceId, userId: user.id } });
+    if (existing) {
+      throw new BadRequestException(`用户 ${addMemberDto.account} 已是工作区成员`);
+    }
+
+    return await this.memberRepository.save(
+      this.memberRepository.create({
+        workspaceId,
+        userId: user.id,
+        role: addMemberDto.role,
+      }),
+    );
+  }
+
+  /**
+   * 修改成员角色，仅所有者可操作，工作区至少保留一个所有者
+   */
+  async updateMemberRole(
+    workspaceId: string,
+    userId: string,
+    memberUserId: string,
+    updateMemberDto: UpdateWorkspaceMemberDto,
+  ): Promise<WorkspaceMember> {
+    await this.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+    const member = await this.getMember(workspaceId, memberUserId);
+
+    if (member.role === WorkspaceRole.OWNER && updateMemberDto.role !== WorkspaceRole.OWNER) {
+      await this.assertNotLastOwner(workspaceId);
+    }
+
+    member.role = updateMemberDto.role;
+    return await this.memberRepository.save(member);
+  }
+
+  /**
+   * 移除成员，所有者可移除任意成员，其他成员只能退出工作区
+   * 该成员保存的拉取配置改由操作的所有者负责（成员自行退出时交给其他所有者），
+   * 之后按新负责人的密钥解析，缺少同名密钥时拉取会提示补充
+   */
+  async removeMember(workspaceId: string, userId: string, memberUserId: string): Promise<void> {
+    if (memberUserId === userId) {
+      await this.assertRole(workspaceId, userId, WorkspaceRole.VIEWER);
+    } else {
+      await this.assertRole(workspaceId, userId, WorkspaceRole.OWNER);
+    }
+    const member = await this.getMember(workspaceId, memberUserId);
+
+    if (member.role === WorkspaceRole.OWNER) {
+      await this.assertNotLastOwner(workspaceId);
+    }
+    const nextConfiguredBy = memberUserId === userId
+      ? await this.findOtherOwner(workspaceId, memberUserId)
+      : userId;
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
+
+    try {
+      const sessions = await queryRunner.manager.find(DataSession, {
+        select: ['id'],
+        where: { workspaceId },
+      });
+      if (sessions.length > 0) {
+        await queryRunner.manager.update(
+          FetchConfig,
+          { sessionId: In(sessions.map((session) => session.id)), configuredBy: memberUserId },
+          { configuredBy: nextConfiguredBy },
+        );
+      }
+      await queryRunner.manager.remove(member);
+
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  /**
+   * 获取用户在工作区中的角色，非成员返回 null
+   */
+  async getMemberRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const member = await this.memberRepository.findOne({ where: { workspaceId, userId } });
+    return member?.role ?? null;
+  }
+
+  /**
+   * 校验用户在工作区中的角色
+   * 非成员与工作区不存在一样返回 404，角色不足返回 403
+   */
+  async assertRole(workspaceId: string, userId: string, required: WorkspaceRole): Promise<WorkspaceRole> {
+    const role = await this.getMemberRole(workspaceId, userId);
+
+    if (!role) {
+      throw new NotFoundException(`工作区 ${workspaceId} 不存在`);
+    }
+    if (!hasWorkspaceRole(role, required)) {
+      throw insufficientRoleException(required);
+    }
+
+    return role;
+  }
+
+  private async getMember(workspaceId: string, memberUserId: string): Promise<WorkspaceMember> {
+    const member = await this.memberRepository.findOne({ where: { workspaceId, userId: memberUserId } });
+    if (!member) {
+      throw new NotFoundException('成员不存在');
+    }
+    return member;
+  }
+
+  private async findOtherOwner(workspaceId: string, memberUserId: string): Promise<string> {
+    const owners = await this.memberRepository.find({
+      where: { workspaceId, role: WorkspaceRole.OWNER },
+      order: { createdAt: 'ASC' },
+    });
+    const owner = owners.find((candidate) => candidate.userId !== memberUserId);
+    if (!owner) {
+      throw new BadRequestException('工作区至少需要保留一个所有者');
+    }
+    return owner.userId;
+  }
+
+  private async assertNotLastOwner(workspaceId: string): Promise<void> {
+    const ownerCount = await this.memberRepository.count({
+      where: { workspaceId, role: WorkspaceRole.OWNER },
+    });
+    if (ownerCount <= 1) {
+      throw new BadRequestException('工作区至少需要保留一个所有者');
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import React from "react";
 import { Routes, Route, Link, useLocation } from "react-router-dom";
-import { Layout, Menu, Button } from "antd";
-import { LogoutOutlined } from "@ant-design/icons";
+import { Layout, Menu, Button, Dropdown, Modal, message } from "antd";
+import { DownOutlined, LogoutOutlined, DisconnectOutlined } from "@ant-design/icons";
 import MainWorkflowPage from "./pages/MainWorkflowPage";
 import WorkflowPage from "./pages/WorkflowPage";
 import DataViewPage from "./pages/DataViewPage";
@@ -15,7 +15,7 @@ import ProtectedRoute from "./components/ProtectedRoute";
 const { Header, Content } = Layout;
 
 const AppHeader: React.FC = () => {
-  const { isAuthenticated, user, logout } = useAuth();
+  const { isAuthenticated, user, logout, logoutAll } = useAuth();
   const location = useLocation();
 
   const getSelectedKey = () => {
@@ -30,6 +30,21 @@ const AppHeader: React.FC = () => {
     logout();
   };
 
+  const handleLogoutAll = () => {
+    Modal.confirm({
+      title: "确定退出所有设备吗？",
+      content: "所有设备（包括当前设备）上的登录都将失效，需要重新登录。",
+      onOk: async () => {
+        try {
+          await logoutAll();
+          message.success("已退出所有设备");
+        } catch (error: any) {
+          message.error("退出所有设备失败: " + (error.response?.data?.message || error.message));
+        }
+      },
+    });
+  };
+
   return (
     <Header
       style={{
@@ -59,13 +74,18 @@ const AppHeader: React.FC = () => {
       </div>
       <div>
         {isAuthenticated ? (
-          <Button 
-            type="text" 
-            icon={<LogoutOutlined />}
-            onClick={handleLogout}
+          <Dropdown
+            menu={{
+              items: [
+                { key: "logout", icon: <LogoutOutlined />, label: "退出登录", onClick: handleLogout },
+                { key: "logout-all", icon: <DisconnectOutlined />, label: "退出所有设备", onClick: handleLogoutAll },
+              ],
+            }}
           >
-            {user?.nickname || user?.username}
-          </Button>
+            <Button type="text">
+              {user?.nickname || user?.username} <DownOutlined />
+            </Button>
+          </Dropdown>
         ) : (
           <Button type="primary">
             <Link to="/login">登录</Link>
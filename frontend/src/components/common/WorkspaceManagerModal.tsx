@@ -0,0 +1,370 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  Table,
+  Form,
+  Input,
+  Button,
+  Select,
+  Space,
+  Popconfirm,
+  Tag,
+  Typography,
+  Divider,
+  message,
+} from "antd";
+import { DeleteOutlined, LogoutOutlined, TeamOutlined } from "@ant-design/icons";
+import api from "../../services/api";
+import { useAuth } from "../../contexts/AuthContext";
+import { Workspace, WorkspaceMember, WorkspaceRole } from "../../types";
+
+const { Text } = Typography;
+
+export const WORKSPACE_ROLE_OPTIONS: { value: WorkspaceRole; label: string; color: string }[] = [
+  { value: "owner", label: "所有者", color: "gold" },
+  { value: "editor", label: "编辑者", color: "blue" },
+  { value: "viewer", label: "查看者", color: "default" },
+];
+
+export const renderWorkspaceRole = (role?: WorkspaceRole) => {
+  const option = WORKSPACE_ROLE_OPTIONS.find(item => item.value === role);
+  return option ? <Tag color={option.color}>{option.label}</Tag> : "-";
+};
+
+interface WorkspaceManagerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onChanged?: () => void; // 工作区列表变化后回调，用于刷新工作区选择
+}
+
+interface WorkspaceFormValues {
+  name: string;
+  description?: string;
+}
+
+interface MemberFormValues {
+  account: string;
+  role: WorkspaceRole;
+}
+
+const WorkspaceManagerModal: React.FC<WorkspaceManagerModalProps> = ({
+  visible,
+  onClose,
+  onChanged,
+}) => {
+  const { user } = useAuth();
+  const [workspaceForm] = Form.useForm<WorkspaceFormValues>();
+  const [memberForm] = Form.useForm<MemberFormValues>();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selected, setSelected] = useState<Workspace | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const showError = (prefix: string, error: any) => {
+    message.error(prefix + ": " + (error.response?.data?.message || error.message));
+  };
+
+  const loadWorkspaces = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get("/workspaces");
+      if (response.data.success) {
+        setWorkspaces(response.data.data || []);
+      }
+    } catch (error: any) {
+      showError("加载工作区失败", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 加载工作区详情及成员
+  const loadWorkspace = async (workspaceId: string) => {
+    try {
+      const response = await api.get(`/workspaces/${workspaceId}`);
+      if (response.data.success) {
+        setSelected(response.data.data);
+      }
+    } catch (error: any) {
+      showError("加载成员失败", error);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadWorkspaces();
+    } else {
+      setSelected(null);
+    }
+  }, [visible]);
+
+  const refresh = () => {
+    loadWorkspaces();
+    onChanged?.();
+  };
+
+  const handleCreate = async (values: WorkspaceFormValues) => {
+    setSaving(true);
+    try {
+      const response = await api.post("/workspaces", values);
+      if (response.data.success) {
+        message.success("工作区创建成功");
+        workspaceForm.resetFields();
+        refresh();
+      }
+    } catch (error: any) {
+      showError("创建工作区失败", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (workspaceId: string) => {
+    try {
+      await api.delete(`/workspaces/${workspaceId}`);
+      message.success("工作区已删除");
+      if (selected?.id === workspaceId) {
+        setSelected(null);
+      }
+      refresh();
+    } catch (error: any) {
+      showError("删除工作区失败", error);
+    }
+  };
+
+  const handleLeave = async (workspaceId: string) => {
+    try {
+      await api.delete(`/workspaces/${workspaceId}/members/${user?.id}`);
+      message.success("已退出工作区");
+      if (selected?.id === workspaceId) {
+        setSelected(null);
+      }
+      refresh();
+    } catch (error: any) {
+      showError("退出工作区失败", error);
+    }
+  };
+
+  const handleAddMember = async (values: MemberFormValues) => {
+    if (!selected) return;
+    try {
+      await api.post(`/workspaces/${selected.id}/members`, values);
+      message.success("成员添加成功");
+      memberForm.resetFields();
+      loadWorkspace(selected.id);
+    } catch (error: any) {
+      showError("添加成员失败", error);
+    }
+  };
+
+  const handleRoleChange = async (memberUserId: string, role: WorkspaceRole) => {
+    if (!selected) return;
+    try {
+      await api.put(`/workspaces/${selected.id}/members/${memberUserId}`, { role });
+      message.success("成员角色已更新");
+      loadWorkspace(selected.id);
+    } catch (error: any) {
+      showError("更新角色失败", error);
+    }
+  };
+
+  const handleRemoveMember = async (memberUserId: string) => {
+    if (!selected) return;
+    try {
+      await api.delete(`/workspaces/${selected.id}/members/${memberUserId}`);
+      message.success("成员已移除");
+      loadWorkspace(selected.id);
+    } catch (error: any) {
+      showError("移除成员失败", error);
+    }
+  };
+
+  const workspaceColumns = [
+    {
+      title: "名称",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string, record: Workspace) => (
+        <Space direction="vertical" size={0}>
+          <Text strong>{name}</Text>
+          {record.description && <Text type="secondary">{record.description}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title: "我的角色",
+      dataIndex: "role",
+      key: "role",
+      width: 100,
+      render: renderWorkspaceRole,
+    },
+    {
+      title: "操作",
+      key: "action",
+      width: 200,
+      render: (_: any, record: Workspace) => (
+        <Space size="small">
+          <Button
+            type="link"
+            size="small"
+            icon={<TeamOutlined />}
+            onClick={() => loadWorkspace(record.id)}
+          >
+            成员
+          </Button>
+          {record.role === "owner" ? (
+            <Popconfirm
+              title="确定删除该工作区吗？"
+              description="工作区内的会话将退回各自创建者的个人空间。"
+              onConfirm={() => handleDelete(record.id)}
+            >
+              <Button type="link" size="small" danger icon={<DeleteOutlined />}>
+                删除
+              </Button>
+            </Popconfirm>
+          ) : (
+            <Popconfirm
+              title="确定退出该工作区吗？"
+              onConfirm={() => handleLeave(record.id)}
+            >
+              <Button type="link" size="small" danger icon={<LogoutOutlined />}>
+                退出
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  const isOwner = selected?.role === "owner";
+
+  const memberColumns = [
+    {
+      title: "用户",
+      dataIndex: "username",
+      key: "username",
+      render: (username: string, record: WorkspaceMember) => (
+        <Space direction="vertical" size={0}>
+          <Text>{record.nickname || username}</Text>
+          <Text type="secondary">{record.email}</Text>
+        </Space>
+      ),
+    },
+    {
+      title: "角色",
+      dataIndex: "role",
+      key: "role",
+      width: 140,
+      render: (role: WorkspaceRole, record: WorkspaceMember) =>
+        isOwner ? (
+          <Select
+            size="small"
+            value={role}
+            style={{ width: 110 }}
+            options={WORKSPACE_ROLE_OPTIONS}
+            onChange={value => handleRoleChange(record.userId, value)}
+          />
+        ) : (
+          renderWorkspaceRole(role)
+        ),
+    },
+    {
+      title: "操作",
+      key: "action",
+      width: 80,
+      render: (_: any, record: WorkspaceMember) =>
+        isOwner && record.userId !== user?.id ? (
+          <Popconfirm
+            title="确定移除该成员吗？"
+            onConfirm={() => handleRemoveMember(record.userId)}
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        ) : null,
+    },
+  ];
+
+  return (
+    <Modal
+      title="工作区管理"
+      open={visible}
+      onCancel={onClose}
+      footer={null}
+      width={760}
+    >
+      <Text type="secondary">
+        工作区内的会话、图表和拉取配置由成员共同访问：所有者管理成员和删除会话，编辑者可修改会话，查看者只读。
+      </Text>
+
+      <Form
+        form={workspaceForm}
+        layout="inline"
+        onFinish={handleCreate}
+        style={{ margin: "16px 0" }}
+      >
+        <Form.Item
+          name="name"
+          rules={[{ required: true, message: "请输入工作区名称" }]}
+        >
+          <Input placeholder="工作区名称" style={{ width: 200 }} maxLength={100} />
+        </Form.Item>
+        <Form.Item name="description">
+          <Input placeholder="说明（可选）" style={{ width: 240 }} maxLength={255} />
+        </Form.Item>
+        <Form.Item>
+          <Button type="primary" htmlType="submit" loading={saving}>
+            创建
+          </Button>
+        </Form.Item>
+      </Form>
+
+      <Table
+        rowKey="id"
+        size="small"
+        loading={loading}
+        columns={workspaceColumns}
+        dataSource={workspaces}
+        pagination={false}
+        locale={{ emptyText: "尚未加入任何工作区" }}
+      />
+
+      {selected && (
+        <>
+          <Divider orientation="left">{selected.name} 的成员</Divider>
+          {isOwner && (
+            <Form
+              form={memberForm}
+              layout="inline"
+              onFinish={handleAddMember}
+              initialValues={{ role: "editor" }}
+              style={{ marginBottom: 16 }}
+            >
+              <Form.Item
+                name="account"
+                rules={[{ required: true, message: "请输入用户名或邮箱" }]}
+              >
+                <Input placeholder="用户名或邮箱" style={{ width: 220 }} />
+              </Form.Item>
+              <Form.Item name="role">
+                <Select options={WORKSPACE_ROLE_OPTIONS} style={{ width: 110 }} />
+              </Form.Item>
+              <Form.Item>
+                <Button htmlType="submit">添加成员</Button>
+              </Form.Item>
+            </Form>
+          )}
+          <Table
+            rowKey="userId"
+            size="small"
+            columns={memberColumns}
+            dataSource={selected.members || []}
+            pagination={false}
+          />
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default WorkspaceManagerModal;
@@ -1 +1,2 @@
-export { default as WorkflowSteps } from './WorkflowSteps';
\ No newline at end of file
+export { default as WorkflowSteps } from './WorkflowSteps';
+export { default as WorkspaceManagerModal } from './WorkspaceManagerModal';
\ No newline at end of file
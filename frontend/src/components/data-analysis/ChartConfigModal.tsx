@@ -13,6 +13,8 @@ import {
   Col,
   Alert,
   Spin,
+  Radio,
+  InputNumber,
   message,
 } from 'antd';
 import { 
@@ -20,13 +22,65 @@ import {
   LineChartOutlined, 
   PieChartOutlined,
   DotChartOutlined,
+  FundOutlined,
+  BoxPlotOutlined,
   BulbOutlined,
+  PlusOutlined,
+  DeleteOutlined,
 } from '@ant-design/icons';
-import { ChartContainer, ChartData, ChartConfig } from './ChartContainer';
+import {
+  ChartContainer,
+  ChartData,
+  ChartConfig,
+  ChartMeasure,
+  SeriesLayout,
+  TimeBucketUnit,
+  RollingWindow,
+  BinMethod,
+  ChartBinning,
+} from './ChartContainer';
 import api from '../../services/api';
 
 const { Option } = Select;
 
+// 与后端一致：主度量加附加度量最多 5 个
+const MAX_CHART_MEASURES = 5;
+
+const TIME_BUCKET_OPTIONS: Array<{ value: TimeBucketUnit; label: string }> = [
+  { value: 'minute', label: '分钟' },
+  { value: 'hour', label: '小时' },
+  { value: 'day', label: '天' },
+  { value: 'week', label: '周' },
+  { value: 'month', label: '月' },
+  { value: 'quarter', label: '季度' },
+  { value: 'year', label: '年' },
+];
+
+// MySQL 使用时区名称需要数据库已导入时区表，偏移量总是可用
+const TIMEZONE_OPTIONS = [
+  { value: '+08:00', label: 'UTC+08:00（北京时间）' },
+  { value: '+00:00', label: 'UTC' },
+  { value: 'Asia/Shanghai', label: 'Asia/Shanghai' },
+  { value: 'Asia/Tokyo', label: 'Asia/Tokyo' },
+  { value: 'Europe/London', label: 'Europe/London' },
+  { value: 'America/New_York', label: 'America/New_York' },
+];
+
+const BIN_METHOD_OPTIONS: Array<{ value: BinMethod; label: string }> = [
+  { value: 'auto', label: '自动' },
+  { value: 'sturges', label: 'Sturges' },
+  { value: 'freedman_diaconis', label: 'Freedman-Diaconis' },
+  { value: 'edges', label: '自定义边界' },
+];
+
+// 标签输入的边界转换为去重后递增的数字
+const parseBinEdges = (values?: string[]): number[] =>
+  (values || [])
+    .map(Number)
+    .filter(value => Number.isFinite(value))
+    .sort((a, b) => a - b)
+    .filter((value, index, sorted) => index === 0 || value !== sorted[index - 1]);
+
 interface Field {
   name: string;
   label: string;
@@ -55,10 +109,19 @@ interface SavedChart {
   id: string;
   sessionId: string;
   name: string;
-  chartType: 'line' | 'bar' | 'pie' | 'scatter';
+  chartType: 'line' | 'bar' | 'pie' | 'scatter' | 'histogram' | 'boxplot';
   xAxis: string;
   yAxis: string;
+  xAxisAggregation?: 'none' | 'group' | 'date_group' | 'range' | null;
   aggregation?: string;
+  seriesField?: string | null;
+  measures?: ChartMeasure[] | null;
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit | null;
+  timezone?: string | null;
+  fillGaps?: boolean;
+  rollingWindow?: RollingWindow | null;
+  binning?: ChartBinning | null;
   title?: string;
   createdAt: string;
   updatedAt: string;
@@ -93,6 +156,18 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
   const [suggestionsLoading, setSuggestionsLoading] = useState(false);
   const [previewData, setPreviewData] = useState<ChartData | null>(null);
   const [activeTab, setActiveTab] = useState<'manual' | 'suggestions'>('suggestions');
+  const chartType = Form.useWatch('chartType', form);
+  const xAxis = Form.useWatch('xAxis', form);
+  const xAxisAggregation = Form.useWatch('xAxisAggregation', form);
+  const rollingType = Form.useWatch('rollingType', form);
+  const binMethod = Form.useWatch('binMethod', form);
+  // 只有柱状图和折线图支持多系列和按时间分桶
+  const supportsSeries = chartType === 'bar' || chartType === 'line';
+  const isTimeSeries = supportsSeries && xAxisAggregation === 'date_group';
+  // 直方图只需要 X 轴数值字段，箱线图的 X 轴为可选的分组字段
+  const isHistogram = chartType === 'histogram';
+  const isBoxPlot = chartType === 'boxplot';
+  const isBinned = isHistogram || (supportsSeries && xAxisAggregation === 'range');
 
   // 图表类型选项
   const chartTypes = [
@@ -100,6 +175,8 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
     { value: 'line', label: '折线图', icon: <LineChartOutlined /> },
     { value: 'pie', label: '饼图', icon: <PieChartOutlined /> },
     { value: 'scatter', label: '散点图', icon: <DotChartOutlined /> },
+    { value: 'histogram', label: '直方图', icon: <FundOutlined /> },
+    { value: 'boxplot', label: '箱线图', icon: <BoxPlotOutlined /> },
   ];
 
   // 聚合方式选项
@@ -149,6 +226,12 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
     } else if (chartType === 'scatter') {
       form.setFieldValue('xAxisAggregation', 'none');
       form.setFieldValue('yAxisAggregation', 'none');
+    } else if (chartType === 'histogram') {
+      form.setFieldValue('xAxisAggregation', 'range');
+      form.setFieldValue('yAxisAggregation', 'count');
+    } else if (chartType === 'boxplot') {
+      form.setFieldValue('xAxisAggregation', 'group');
+      form.setFieldValue('yAxisAggregation', undefined);
     }
     updatePreview();
   };
@@ -168,26 +251,82 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
     }
   };
 
+  // 表单值转换为图表配置，附加度量与 Y 轴字段合并为 measures
+  const buildConfig = useCallback((values: any): ChartConfig => {
+    const isSeriesChart = values.chartType === 'bar' || values.chartType === 'line';
+    const isTimeSeriesChart = isSeriesChart && values.xAxisAggregation === 'date_group';
+    const isHistogramChart = values.chartType === 'histogram';
+    const isBinnedChart =
+      isHistogramChart || (isSeriesChart && values.xAxisAggregation === 'range');
+    const extraMeasures: ChartMeasure[] = isSeriesChart
+      ? (values.extraMeasures || []).filter(
+          (measure?: ChartMeasure) => measure?.field && measure?.aggregation
+        )
+      : [];
+
+    return {
+      sessionId,
+      chartType: values.chartType,
+      // 箱线图未选择分组字段时只有一个箱体，后端以 X、Y 轴字段相同表示不分组
+      xAxis: values.chartType === 'boxplot' ? values.xAxis || values.yAxis : values.xAxis,
+      yAxis: isHistogramChart ? values.xAxis : values.yAxis,
+      xAxisAggregation: isHistogramChart ? 'range' : values.xAxisAggregation,
+      aggregation: isHistogramChart ? 'count' : values.yAxisAggregation,
+      seriesField: isSeriesChart ? values.seriesField || undefined : undefined,
+      measures:
+        extraMeasures.length > 0
+          ? [
+              {
+                field: values.yAxis,
+                aggregation:
+                  values.yAxisAggregation ||
+                  (values.chartType === 'line' ? 'avg' : 'sum'),
+              },
+              ...extraMeasures,
+            ]
+          : undefined,
+      seriesLayout: isSeriesChart ? values.seriesLayout : undefined,
+      ...(isTimeSeriesChart && {
+        timeBucket: values.timeBucket,
+        timezone: values.timezone || undefined,
+        fillGaps: values.fillGaps,
+        rollingWindow: values.rollingType
+          ? {
+              type: values.rollingType,
+              size:
+                values.rollingType === 'moving_average'
+                  ? values.rollingSize
+                  : undefined,
+            }
+          : undefined,
+      }),
+      ...(isBinnedChart && {
+        binning: {
+          method: values.binMethod || 'auto',
+          edges:
+            values.binMethod === 'edges'
+              ? parseBinEdges(values.binEdges)
+              : undefined,
+        },
+      }),
+      title: values.title,
+      showLegend: values.showLegend,
+      showDataLabels: values.showDataLabels,
+    };
+  }, [sessionId]);
+
   // 实时预览
   const updatePreview = useCallback(async () => {
     try {
       const values = form.getFieldsValue();
-      if (!values.chartType || !values.xAxis || !values.yAxis) {
+      const hasXAxis = values.xAxis || values.chartType === 'boxplot';
+      const hasYAxis = values.yAxis || values.chartType === 'histogram';
+      if (!values.chartType || !hasXAxis || !hasYAxis) {
         setPreviewData(null);
         return;
       }
       
-      const config: ChartConfig = {
-        sessionId,
-        chartType: values.chartType,
-        xAxis: values.xAxis,
-        yAxis: values.yAxis,
-        xAxisAggregation: values.xAxisAggregation,
-        aggregation: values.yAxisAggregation,
-        title: values.title,
-        showLegend: values.showLegend,
-        showDataLabels: values.showDataLabels,
-      };
+      const config = buildConfig(values);
 
       const response = await api.post('/data-analysis/chart/preview', config);
       if (response.data.success) {
@@ -197,17 +336,32 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
       console.error('Failed to preview chart:', error);
       setPreviewData(null);
     }
-  }, [sessionId, form]);
+  }, [buildConfig, form]);
 
   // 编辑模式下回显数据
   useEffect(() => {
     if (visible && editingChart) {
       form.setFieldsValue({
         chartType: editingChart.chartType,
-        xAxis: editingChart.xAxis,
+        xAxis:
+          editingChart.chartType === 'boxplot' &&
+          editingChart.xAxis === editingChart.yAxis
+            ? undefined
+            : editingChart.xAxis,
         yAxis: editingChart.yAxis,
-        xAxisAggregation: 'group',
-        yAxisAggregation: editingChart.aggregation,
+        xAxisAggregation: editingChart.xAxisAggregation || 'group',
+        yAxisAggregation:
+          editingChart.measures?.[0]?.aggregation || editingChart.aggregation,
+        timeBucket: editingChart.timeBucket || 'day',
+        timezone: editingChart.timezone || undefined,
+        fillGaps: editingChart.fillGaps !== false,
+        rollingType: editingChart.rollingWindow?.type,
+        rollingSize: editingChart.rollingWindow?.size || 7,
+        binMethod: editingChart.binning?.method || 'auto',
+        binEdges: editingChart.binning?.edges?.map(String),
+        seriesField: editingChart.seriesField || undefined,
+        seriesLayout: editingChart.seriesLayout || 'grouped',
+        extraMeasures: editingChart.measures?.slice(1) || [],
         title: editingChart.title || editingChart.name,
         showLegend: true,
         showDataLabels: editingChart.chartType === 'pie',
@@ -225,17 +379,7 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
       const values = await form.validateFields();
       setLoading(true);
       
-      const config: ChartConfig = {
-        sessionId,
-        chartType: values.chartType,
-        xAxis: values.xAxis,
-        yAxis: values.yAxis,
-        xAxisAggregation: values.xAxisAggregation,
-        aggregation: values.yAxisAggregation,
-        title: values.title,
-        showLegend: values.showLegend,
-        showDataLabels: values.showDataLabels,
-      };
+      const config = buildConfig(values);
 
       // 如果有标题，先保存配置
       if (values.title && onSave) {
@@ -414,6 +558,11 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
                 initialValues={{
                   showLegend: true,
                   showDataLabels: false,
+                  seriesLayout: 'grouped',
+                  timeBucket: 'day',
+                  fillGaps: true,
+                  rollingSize: 7,
+                  binMethod: 'auto',
                 }}
                 onValuesChange={updatePreview}
               >
@@ -438,11 +587,26 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
                 <Col span={16}>
                   <Form.Item
                     name="xAxis"
-                    label="X轴字段"
-                    rules={[{ required: true, message: '请选择X轴字段' }]}
-                    tooltip="X轴通常用于分类或时间维度，如产品类别、日期等"
+                    label={isBoxPlot ? '分组字段' : 'X轴字段'}
+                    rules={[{ required: !isBoxPlot, message: '请选择X轴字段' }]}
+                    tooltip={
+                      isHistogram
+                        ? '按该数值字段的取值范围分箱，统计每个分箱的记录数'
+                        : isBoxPlot
+                          ? '按该字段分组，每组显示一个箱体；不选择时只显示一个箱体'
+                          : 'X轴通常用于分类或时间维度，如产品类别、日期等'
+                    }
                   >
-                    <Select placeholder="选择X轴字段（通常为分类或时间字段）">
+                    <Select
+                      placeholder={
+                        isHistogram
+                          ? '选择数值字段'
+                          : isBoxPlot
+                            ? '不分组'
+                            : '选择X轴字段（通常为分类或时间字段）'
+                      }
+                      allowClear={isBoxPlot}
+                    >
                       {categoricalFields.length > 0 && (
                         <Select.OptGroup label="分类字段（推荐）">
                           {categoricalFields.map(field => (
@@ -473,77 +637,273 @@ export const ChartConfigModal: React.FC<ChartConfigModalProps> = ({
                     </Select>
                   </Form.Item>
                 </Col>
-                <Col span={8}>
-                  <Form.Item
-                    name="xAxisAggregation"
-                    label="X轴计算方式"
-                    tooltip="选择如何处理X轴数据：原始值、分组等"
-                  >
-                    <Select placeholder="计算方式" allowClear>
-                      <Option value="none" title="使用原始值，不进行聚合">原始值</Option>
-                      <Option value="group" title="按值分组">分组</Option>
-                      <Option value="date_group" title="按日期分组（年、月、日）">日期分组</Option>
-                      <Option value="range" title="按数值范围分组">范围分组</Option>
-                    </Select>
-                  </Form.Item>
-                </Col>
+                {!isHistogram && !isBoxPlot && (
+                  <Col span={8}>
+                    <Form.Item
+                      name="xAxisAggregation"
+                      label="X轴计算方式"
+                      tooltip="选择如何处理X轴数据：原始值、分组等"
+                    >
+                      <Select placeholder="计算方式" allowClear>
+                        <Option value="none" title="使用原始值，不进行聚合">原始值</Option>
+                        <Option value="group" title="按值分组">分组</Option>
+                        <Option value="date_group" title="按日期分组（年、月、日）">日期分组</Option>
+                        <Option value="range" title="按数值范围分组">范围分组</Option>
+                      </Select>
+                    </Form.Item>
+                  </Col>
+                )}
               </Row>
 
-              <Row gutter={16}>
-                <Col span={16}>
-                  <Form.Item
-                    name="yAxis"
-                    label="Y轴字段"
-                    rules={[{ required: true, message: '请选择Y轴字段' }]}
-                    tooltip="Y轴通常用于数值度量，如销售额、数量等"
-                  >
-                    <Select placeholder="选择Y轴字段（通常为数值字段）">
-                      {numericFields.length > 0 && (
-                        <Select.OptGroup label="数值字段（推荐）">
-                          {numericFields.map(field => (
-                            <Option key={field.name} value={field.name}>
-                              {field.label} ({field.type})
-                            </Option>
-                          ))}
-                        </Select.OptGroup>
-                      )}
-                      {categoricalFields.length > 0 && (
-                        <Select.OptGroup label="分类字段">
-                          {categoricalFields.map(field => (
-                            <Option key={field.name} value={field.name}>
-                              {field.label} ({field.type})
-                            </Option>
-                          ))}
-                        </Select.OptGroup>
-                      )}
-                      {dateFields.length > 0 && (
-                        <Select.OptGroup label="日期字段">
-                          {dateFields.map(field => (
-                            <Option key={field.name} value={field.name}>
-                              {field.label} ({field.type})
+              {!isHistogram && (
+                <Row gutter={16}>
+                  <Col span={16}>
+                    <Form.Item
+                      name="yAxis"
+                      label="Y轴字段"
+                      rules={[{ required: true, message: '请选择Y轴字段' }]}
+                      tooltip="Y轴通常用于数值度量，如销售额、数量等"
+                    >
+                      <Select placeholder="选择Y轴字段（通常为数值字段）">
+                        {numericFields.length > 0 && (
+                          <Select.OptGroup label="数值字段（推荐）">
+                            {numericFields.map(field => (
+                              <Option key={field.name} value={field.name}>
+                                {field.label} ({field.type})
+                              </Option>
+                            ))}
+                          </Select.OptGroup>
+                        )}
+                        {categoricalFields.length > 0 && (
+                          <Select.OptGroup label="分类字段">
+                            {categoricalFields.map(field => (
+                              <Option key={field.name} value={field.name}>
+                                {field.label} ({field.type})
+                              </Option>
+                            ))}
+                          </Select.OptGroup>
+                        )}
+                        {dateFields.length > 0 && (
+                          <Select.OptGroup label="日期字段">
+                            {dateFields.map(field => (
+                              <Option key={field.name} value={field.name}>
+                                {field.label} ({field.type})
+                              </Option>
+                            ))}
+                          </Select.OptGroup>
+                        )}
+                      </Select>
+                    </Form.Item>
+                  </Col>
+                  {!isBoxPlot && (
+                    <Col span={8}>
+                      <Form.Item
+                        name="yAxisAggregation"
+                        label="Y轴计算方式"
+                        tooltip="选择如何计算Y轴数值：计数统计记录数，求和计算总和，平均值计算均值等"
+                      >
+                        <Select placeholder="计算方式" allowClear>
+                          {aggregationOptions.map(option => (
+                            <Option key={option.value} value={option.value} title={option.description}>
+                              {option.label}
                             </Option>
                           ))}
-                        </Select.OptGroup>
-                      )}
-                    </Select>
-                  </Form.Item>
-                </Col>
-                <Col span={8}>
-                  <Form.Item
-                    name="yAxisAggregation"
-                    label="Y轴计算方式"
-                    tooltip="选择如何计算Y轴数值：计数统计记录数，求和计算总和，平均值计算均值等"
-                  >
-                    <Select placeholder="计算方式" allowClear>
-                      {aggregationOptions.map(option => (
-                        <Option key={option.value} value={option.value} title={option.description}>
-                          {option.label}
-                        </Option>
-                      ))}
-                    </Select>
-                  </Form.Item>
-                </Col>
-              </Row>
+                        </Select>
+                      </Form.Item>
+                    </Col>
+                  )}
+                </Row>
+              )}
+
+              {isBinned && (
+                <Row gutter={16}>
+                  <Col span={8}>
+                    <Form.Item
+                      name="binMethod"
+                      label="分箱方式"
+                      tooltip="自动取 Sturges 和 Freedman-Diaconis 两种公式中较小的分箱宽度，也可以指定分箱边界"
+                    >
+                      <Select options={BIN_METHOD_OPTIONS} />
+                    </Form.Item>
+                  </Col>
+                  {binMethod === 'edges' && (
+                    <Col span={16}>
+                      <Form.Item
+                        name="binEdges"
+                        label="分箱边界"
+                        tooltip="输入边界值后回车，如 0、100、500、1000；相邻两个边界构成一个分箱，超出范围的值不统计"
+                        rules={[
+                          {
+                            validator: (_, value) =>
+                              parseBinEdges(value).length >= 2
+                                ? Promise.resolve()
+                                : Promise.reject(new Error('至少需要 2 个数值边界')),
+                          },
+                        ]}
+                      >
+                        <Select
+                          mode="tags"
+                          open={false}
+                          tokenSeparators={[',', '，', ' ']}
+                          placeholder="输入边界值"
+                        />
+                      </Form.Item>
+                    </Col>
+                  )}
+                </Row>
+              )}
+
+              {isTimeSeries && (
+                <Row gutter={16}>
+                  <Col span={6}>
+                    <Form.Item name="timeBucket" label="时间粒度">
+                      <Select options={TIME_BUCKET_OPTIONS} />
+                    </Form.Item>
+                  </Col>
+                  <Col span={8}>
+                    <Form.Item
+                      name="timezone"
+                      label="时区"
+                      tooltip="按该时区划分时间分组，不选择时按存储的时间分组"
+                    >
+                      <Select
+                        placeholder="不转换"
+                        allowClear
+                        options={TIMEZONE_OPTIONS}
+                      />
+                    </Form.Item>
+                  </Col>
+                  <Col span={4}>
+                    <Form.Item
+                      name="fillGaps"
+                      label="补齐空缺"
+                      valuePropName="checked"
+                      tooltip="没有数据的时间分组也显示，求和和计数记为 0"
+                    >
+                      <Switch />
+                    </Form.Item>
+                  </Col>
+                  <Col span={6}>
+                    <Form.Item name="rollingType" label="滚动计算">
+                      <Select
+                        placeholder="无"
+                        allowClear
+                        options={[
+                          { value: 'moving_average', label: '移动平均' },
+                          { value: 'cumulative_sum', label: '累计求和' },
+                        ]}
+                      />
+                    </Form.Item>
+                    {rollingType === 'moving_average' && (
+                      <Form.Item name="rollingSize" label="窗口（期）">
+                        <InputNumber min={2} max={365} style={{ width: '100%' }} />
+                      </Form.Item>
+                    )}
+                  </Col>
+                </Row>
+              )}
+
+              {supportsSeries && (
+                <>
+                  <Row gutter={16}>
+                    <Col span={16}>
+                      <Form.Item
+                        name="seriesField"
+                        label="分组系列"
+                        tooltip="按该字段的取值拆分为多个系列，如按地区拆分每月销售额"
+                      >
+                        <Select placeholder="不拆分" allowClear>
+                          {[...categoricalFields, ...dateFields]
+                            .filter(field => field.name !== xAxis)
+                            .map(field => (
+                              <Option key={field.name} value={field.name}>
+                                {field.label} ({field.type})
+                              </Option>
+                            ))}
+                        </Select>
+                      </Form.Item>
+                    </Col>
+                    <Col span={8}>
+                      <Form.Item
+                        name="seriesLayout"
+                        label="系列布局"
+                        tooltip="并列：各系列并排显示；堆叠：同一坐标轴上的系列累加显示"
+                      >
+                        <Radio.Group optionType="button">
+                          <Radio value="grouped">并列</Radio>
+                          <Radio value="stacked">堆叠</Radio>
+                        </Radio.Group>
+                      </Form.Item>
+                    </Col>
+                  </Row>
+
+                  <Form.List name="extraMeasures">
+                    {(measureFields, { add, remove }) => (
+                      <Form.Item
+                        label="附加度量"
+                        tooltip="与 Y 轴字段一起对比的其他度量，可放在次坐标轴或显示为折线"
+                      >
+                        {measureFields.map(({ key, name }) => (
+                          <Space key={key} align="baseline" style={{ display: 'flex' }}>
+                            <Form.Item
+                              name={[name, 'field']}
+                              rules={[{ required: true, message: '请选择字段' }]}
+                            >
+                              <Select placeholder="度量字段" style={{ width: 160 }}>
+                                {numericFields.map(field => (
+                                  <Option key={field.name} value={field.name}>
+                                    {field.label}
+                                  </Option>
+                                ))}
+                              </Select>
+                            </Form.Item>
+                            <Form.Item
+                              name={[name, 'aggregation']}
+                              initialValue="sum"
+                            >
+                              <Select style={{ width: 100 }}>
+                                {aggregationOptions.map(option => (
+                                  <Option key={option.value} value={option.value}>
+                                    {option.label}
+                                  </Option>
+                                ))}
+                              </Select>
+                            </Form.Item>
+                            <Form.Item name={[name, 'axis']} initialValue="left">
+                              <Select style={{ width: 100 }}>
+                                <Option value="left">主坐标轴</Option>
+                                <Option value="right">次坐标轴</Option>
+                              </Select>
+                            </Form.Item>
+                            <Form.Item name={[name, 'chartType']} initialValue={chartType}>
+                              <Select style={{ width: 80 }}>
+                                <Option value="bar">柱状</Option>
+                                <Option value="line">折线</Option>
+                              </Select>
+                            </Form.Item>
+                            <Button
+                              type="text"
+                              icon={<DeleteOutlined />}
+                              onClick={() => {
+                                remove(name);
+                                updatePreview();
+                              }}
+                            />
+                          </Space>
+                        ))}
+                        <Button
+                          type="dashed"
+                          icon={<PlusOutlined />}
+                          disabled={measureFields.length >= MAX_CHART_MEASURES - 1}
+                          onClick={() => add()}
+                        >
+                          添加度量
+                        </Button>
+                      </Form.Item>
+                    )}
+                  </Form.List>
+                </>
+              )}
 
               <Form.Item
                 name="title"
@@ -18,11 +18,70 @@ import {
 import ReactECharts from "echarts-for-react";
 import type { EChartsOption } from "echarts";
 
+export type ChartAggregation = "sum" | "avg" | "count" | "min" | "max";
+
+export type SeriesLayout = "grouped" | "stacked";
+
+export type TimeBucketUnit =
+  | "minute"
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "quarter"
+  | "year";
+
+export interface RollingWindow {
+  type: "moving_average" | "cumulative_sum";
+  size?: number;
+}
+
+export type BinMethod = "auto" | "sturges" | "freedman_diaconis" | "edges";
+
+export interface ChartBinning {
+  method: BinMethod;
+  edges?: number[];
+}
+
+export interface BoxPlotItem {
+  name: string;
+  groupValue?: any;
+  count: number;
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number[];
+  outlierCount: number;
+}
+
+export interface ChartMeasure {
+  field: string;
+  aggregation: ChartAggregation;
+  label?: string;
+  axis?: "left" | "right";
+  chartType?: "line" | "bar";
+}
+
+export interface ChartSeries {
+  name: string;
+  field: string;
+  aggregation: ChartAggregation;
+  seriesValue?: any;
+  axis: "left" | "right";
+  chartType: "line" | "bar";
+  data: Array<number | null>;
+}
+
 export interface ChartData {
-  type: "line" | "bar" | "pie" | "scatter";
+  type: "line" | "bar" | "pie" | "scatter" | "histogram" | "boxplot";
   title: string;
   xAxisLabel: string;
   yAxisLabel: string;
+  secondaryYAxisLabel?: string;
   data: Array<{
     x: any;
     y: number;
@@ -30,17 +89,35 @@ export interface ChartData {
     category?: string;
   }>;
   categories?: string[];
-  aggregation?: "sum" | "avg" | "count" | "min" | "max";
+  // 多系列图表返回，与 categories 一一对应
+  series?: ChartSeries[];
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit;
+  rollingWindow?: RollingWindow;
+  // 按数值范围分组时的分箱边界
+  binEdges?: number[];
+  boxPlot?: BoxPlotItem[];
+  aggregation?: ChartAggregation;
   totalRecords: number;
 }
 
 export interface ChartConfig {
   sessionId: string;
-  chartType: "line" | "bar" | "pie" | "scatter";
+  chartType: "line" | "bar" | "pie" | "scatter" | "histogram" | "boxplot";
   xAxis: string;
   yAxis: string;
   xAxisAggregation?: "none" | "group" | "date_group" | "range";
-  aggregation?: "sum" | "avg" | "count" | "min" | "max";
+  aggregation?: ChartAggregation;
+  seriesField?: string;
+  measures?: ChartMeasure[];
+  seriesLayout?: SeriesLayout;
+  // xAxisAggregation 为 date_group 时按时间分桶
+  timeBucket?: TimeBucketUnit;
+  timezone?: string;
+  fillGaps?: boolean;
+  rollingWindow?: RollingWindow;
+  // xAxisAggregation 为 range 或直方图时的分箱方式
+  binning?: ChartBinning;
   filters?: any[];
   title?: string;
   colorScheme?: string[];
@@ -118,6 +195,18 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
       },
     };
 
+    if (
+      (data.type === "line" ||
+        data.type === "bar" ||
+        data.type === "histogram") &&
+      data.series?.length
+    ) {
+      return generateSeriesOption(baseOption, data, config);
+    }
+    if (data.type === "boxplot") {
+      return generateBoxPlotOption(baseOption, data);
+    }
+
     switch (data.type) {
       case "line":
         return {
@@ -257,6 +346,153 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
     }
   };
 
+  // 多系列：分组/堆叠柱状图、多折线以及双坐标轴组合图
+  const generateSeriesOption = (
+    baseOption: EChartsOption,
+    data: ChartData,
+    config?: ChartConfig
+  ): EChartsOption => {
+    const series = data.series || [];
+    const categories = data.categories || [];
+    const stacked = data.seriesLayout === "stacked";
+    const hasSecondaryAxis = series.some(item => item.axis === "right");
+    const histogram = data.type === "histogram";
+
+    return {
+      ...baseOption,
+      tooltip: {
+        trigger: "axis",
+        axisPointer: { type: data.type === "line" ? "line" : "shadow" },
+      },
+      legend: {
+        show: config?.showLegend !== false,
+        type: "scroll",
+        bottom: 10,
+      },
+      grid: {
+        left: "4%",
+        right: "4%",
+        bottom: "15%",
+        top: "12%",
+        containLabel: true,
+      },
+      xAxis: {
+        type: "category",
+        name: data.xAxisLabel,
+        nameLocation: "middle",
+        nameGap: 30,
+        data: categories,
+        axisLabel: {
+          rotate: categories.length > 10 ? 45 : 0,
+        },
+      },
+      yAxis: [
+        {
+          type: "value",
+          name: data.yAxisLabel,
+        },
+        ...(hasSecondaryAxis
+          ? [
+              {
+                type: "value" as const,
+                name: data.secondaryYAxisLabel,
+                splitLine: { show: false },
+              },
+            ]
+          : []),
+      ],
+      series: series.map(item => ({
+        name: item.name,
+        type: item.chartType,
+        data: item.data,
+        yAxisIndex: item.axis === "right" && hasSecondaryAxis ? 1 : 0,
+        // 同一坐标轴上同类型的系列才堆叠
+        stack: stacked ? `${item.axis}_${item.chartType}` : undefined,
+        smooth: item.chartType === "line",
+        areaStyle:
+          stacked && item.chartType === "line" ? { opacity: 0.3 } : undefined,
+        emphasis: { focus: "series" as const },
+        // 直方图的相邻分箱之间不留空隙
+        barCategoryGap: histogram ? "0%" : undefined,
+        itemStyle: histogram ? { borderColor: "#fff", borderWidth: 1 } : undefined,
+        label: {
+          show: config?.showDataLabels,
+          position: stacked && item.chartType === "bar" ? "inside" : "top",
+        },
+      })) as EChartsOption["series"],
+    };
+  };
+
+  // 箱线图：须线延伸到 1.5 倍四分位距以内的最值，之外的值作为异常点单独绘制
+  const generateBoxPlotOption = (
+    baseOption: EChartsOption,
+    data: ChartData
+  ): EChartsOption => {
+    const items = data.boxPlot || [];
+    const formatValue = (value: number) =>
+      value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    return {
+      ...baseOption,
+      tooltip: {
+        trigger: "item",
+        formatter: (params: any) => {
+          const item = items[params.dataIndex];
+          if (params.seriesType === "scatter") {
+            const [index, value] = params.value;
+            return `${items[index]?.name}<br/>异常值: ${formatValue(value)}`;
+          }
+          return [
+            `<b>${item.name}</b>（${item.count} 条）`,
+            `上须: ${formatValue(item.upperWhisker)}`,
+            `Q3: ${formatValue(item.q3)}`,
+            `中位数: ${formatValue(item.median)}`,
+            `Q1: ${formatValue(item.q1)}`,
+            `下须: ${formatValue(item.lowerWhisker)}`,
+            `最小值 / 最大值: ${formatValue(item.min)} / ${formatValue(item.max)}`,
+            `异常值: ${item.outlierCount} 个`,
+          ].join("<br/>");
+        },
+      },
+      xAxis: {
+        type: "category",
+        name: data.xAxisLabel,
+        nameLocation: "middle",
+        nameGap: 30,
+        data: items.map(item => item.name),
+        axisLabel: {
+          rotate: items.length > 10 ? 45 : 0,
+        },
+      },
+      yAxis: {
+        type: "value",
+        name: data.yAxisLabel,
+        scale: true,
+      },
+      series: [
+        {
+          name: data.yAxisLabel,
+          type: "boxplot",
+          data: items.map(item => [
+            item.lowerWhisker,
+            item.q1,
+            item.median,
+            item.q3,
+            item.upperWhisker,
+          ]),
+        },
+        {
+          name: "异常值",
+          type: "scatter",
+          symbolSize: 6,
+          data: items.flatMap((item, index) =>
+            item.outliers.map(value => [index, value])
+          ),
+        },
+      ],
+    };
+  };
+
   const handleExport = (format: "png" | "jpg" | "svg") => {
     if (chartRef.current) {
       const chartInstance = chartRef.current.getEchartsInstance();
@@ -435,6 +671,12 @@ export const ChartContainer: React.FC<ChartContainerProps> = ({
           }}
         >
           数据点: {chartData.data.length} | 总记录: {chartData.totalRecords}
+          {chartData.series && ` | 系列: ${chartData.series.length}`}
+          {chartData.boxPlot &&
+            ` | 异常值: ${chartData.boxPlot.reduce(
+              (sum, item) => sum + item.outlierCount,
+              0
+            )}`}
           {chartData.aggregation && ` | 聚合方式: ${chartData.aggregation}`}
         </div>
       )}
@@ -20,6 +20,8 @@ import {
   LineChartOutlined,
   PieChartOutlined,
   DotChartOutlined,
+  FundOutlined,
+  BoxPlotOutlined,
   DeleteOutlined,
   EditOutlined,
   CopyOutlined,
@@ -27,7 +29,15 @@ import {
   MoreOutlined,
 } from '@ant-design/icons';
 import api from '../../services/api';
-import { ChartData, ChartConfig } from './ChartContainer';
+import {
+  ChartData,
+  ChartConfig,
+  ChartMeasure,
+  SeriesLayout,
+  TimeBucketUnit,
+  RollingWindow,
+  ChartBinning,
+} from './ChartContainer';
 
 const { Text, Title } = Typography;
 const { Search } = Input;
@@ -36,10 +46,19 @@ interface SavedChart {
   id: string;
   sessionId: string;
   name: string;
-  chartType: 'line' | 'bar' | 'pie' | 'scatter';
+  chartType: 'line' | 'bar' | 'pie' | 'scatter' | 'histogram' | 'boxplot';
   xAxis: string;
   yAxis: string;
+  xAxisAggregation?: 'none' | 'group' | 'date_group' | 'range' | null;
   aggregation?: string;
+  seriesField?: string | null;
+  measures?: ChartMeasure[] | null;
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit | null;
+  timezone?: string | null;
+  fillGaps?: boolean;
+  rollingWindow?: RollingWindow | null;
+  binning?: ChartBinning | null;
   title?: string;
   createdAt: string;
   updatedAt: string;
@@ -161,6 +180,8 @@ export const ChartManagement: React.FC<ChartManagementProps> = ({
       line: <LineChartOutlined />,
       pie: <PieChartOutlined />,
       scatter: <DotChartOutlined />,
+      histogram: <FundOutlined />,
+      boxplot: <BoxPlotOutlined />,
     };
     return iconMap[chartType] || <BarChartOutlined />;
   };
@@ -171,6 +192,8 @@ export const ChartManagement: React.FC<ChartManagementProps> = ({
       line: 'green',
       pie: 'orange',
       scatter: 'purple',
+      histogram: 'cyan',
+      boxplot: 'magenta',
     };
     return colorMap[chartType] || 'default';
   };
@@ -299,6 +322,8 @@ export const ChartManagement: React.FC<ChartManagementProps> = ({
                       <Text type="secondary">
                         X轴: {chart.xAxis} | Y轴: {chart.yAxis}
                         {chart.aggregation && ` | 聚合: ${chart.aggregation}`}
+                        {chart.seriesField && ` | 系列: ${chart.seriesField}`}
+                        {chart.measures && chart.measures.length > 1 && ` | 度量: ${chart.measures.length} 个`}
                       </Text>
                     </div>
                     <div>
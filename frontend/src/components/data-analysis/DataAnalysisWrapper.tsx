@@ -20,12 +20,23 @@ import {
   ClearOutlined,
   FullscreenOutlined,
   FullscreenExitOutlined,
+  AppstoreOutlined,
 } from "@ant-design/icons";
 import { DataTable, FilterCondition } from "./DataTable";
-import { ChartContainer, ChartData, ChartConfig } from "./ChartContainer";
+import {
+  ChartContainer,
+  ChartData,
+  ChartConfig,
+  ChartMeasure,
+  SeriesLayout,
+  TimeBucketUnit,
+  RollingWindow,
+  ChartBinning,
+} from "./ChartContainer";
 import { ChartConfigModal } from "./ChartConfigModal";
 import { ChartManagement } from "./ChartManagement";
 import { DataFilterPanel } from "./DataFilterPanel";
+import { PivotTable } from "./PivotTable";
 import { FieldInfo } from "../../types";
 import api from "../../services/api";
 
@@ -35,10 +46,19 @@ interface SavedChart {
   id: string;
   sessionId: string;
   name: string;
-  chartType: "line" | "bar" | "pie" | "scatter";
+  chartType: "line" | "bar" | "pie" | "scatter" | "histogram" | "boxplot";
   xAxis: string;
   yAxis: string;
+  xAxisAggregation?: "none" | "group" | "date_group" | "range" | null;
   aggregation?: string;
+  seriesField?: string | null;
+  measures?: ChartMeasure[] | null;
+  seriesLayout?: SeriesLayout;
+  timeBucket?: TimeBucketUnit | null;
+  timezone?: string | null;
+  fillGaps?: boolean;
+  rollingWindow?: RollingWindow | null;
+  binning?: ChartBinning | null;
   title?: string;
   createdAt: string;
   updatedAt: string;
@@ -55,7 +75,9 @@ export const DataAnalysisWrapper: React.FC<DataAnalysisWrapperProps> = ({
   onBack,
   onSettings,
 }) => {
-  const [activeTab, setActiveTab] = useState<"table" | "management">("table");
+  const [activeTab, setActiveTab] = useState<
+    "table" | "pivot" | "management"
+  >("table");
   const [chartViewVisible, setChartViewVisible] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [chartConfigVisible, setChartConfigVisible] = useState(false);
@@ -253,6 +275,29 @@ export const DataAnalysisWrapper: React.FC<DataAnalysisWrapperProps> = ({
         </>
       ),
     },
+    {
+      key: "pivot",
+      label: (
+        <span>
+          <AppstoreOutlined style={{ marginRight: 6 }} />
+          透视表
+        </span>
+      ),
+      children: (
+        <>
+          {/* 与表格视图共用筛选条件 */}
+          <DataFilterPanel
+            sessionId={sessionId}
+            fields={fields}
+            filters={filters}
+            onFiltersChange={setFilters}
+            onApplyFilters={handleApplyFilters}
+            loading={tableLoading}
+          />
+          <PivotTable sessionId={sessionId} fields={fields} filters={filters} />
+        </>
+      ),
+    },
     {
       key: "management",
       label: (
@@ -282,7 +327,9 @@ export const DataAnalysisWrapper: React.FC<DataAnalysisWrapperProps> = ({
     <div className="data-analysis-wrapper">
       <Tabs
         activeKey={activeTab}
-        onChange={key => setActiveTab(key as "table" | "management")}
+        onChange={key =>
+          setActiveTab(key as "table" | "pivot" | "management")
+        }
         items={tabItems}
         size="large"
         style={{
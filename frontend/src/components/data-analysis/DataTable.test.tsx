@@ -106,17 +106,14 @@ describe('DataTable', () => {
 
   it('handles export functionality', async () => {
     const mockExportResponse = {
-      data: {
-        success: true,
-        data: mockQueryResponse.data.data,
-        fields: mockQueryResponse.data.fields,
-        total: 2,
-        exportedAt: '2023-01-01T00:00:00.000Z',
+      data: new Blob(['id,name']),
+      headers: {
+        'content-disposition': "attachment; filename=\"_.csv\"; filename*=UTF-8''%E6%95%B0%E6%8D%AE.csv",
       },
     };
 
     mockedApi.post.mockImplementation((url) => {
-      if (url === '/data-analysis/export') {
+      if (url === '/data-export/stream') {
         return Promise.resolve(mockExportResponse);
       }
       return Promise.resolve(mockQueryResponse);
@@ -124,6 +121,21 @@ describe('DataTable', () => {
 
     // Mock URL.createObjectURL and other DOM methods
     global.URL.createObjectURL = jest.fn(() => 'mock-url');
+    global.URL.revokeObjectURL = jest.fn();
+
+    render(<DataTable {...mockProps} />);
+
+    // Wait for initial load
+    await waitFor(() => {
+      expect(screen.getByText('导出数据')).toBeInTheDocument();
+    });
+
+    // Open export menu and choose a format
+    fireEvent.click(screen.getByText('导出数据'));
+    await waitFor(() => {
+      expect(screen.getByText('Excel (xlsx)')).toBeInTheDocument();
+    });
+
     const mockLink = {
       click: jest.fn(),
       setAttribute: jest.fn(),
@@ -133,23 +145,22 @@ describe('DataTable', () => {
     jest.spyOn(document.body, 'appendChild').mockImplementation();
     jest.spyOn(document.body, 'removeChild').mockImplementation();
 
-    render(<DataTable {...mockProps} />);
+    fireEvent.click(screen.getByText('Excel (xlsx)'));
 
-    // Wait for initial load
     await waitFor(() => {
-      expect(screen.getByText('导出CSV')).toBeInTheDocument();
+      expect(mockedApi.post).toHaveBeenCalledWith(
+        '/data-export/stream',
+        {
+          sessionId: 'test-session-id',
+          format: 'xlsx',
+          filters: undefined,
+          sorts: undefined,
+        },
+        { responseType: 'blob', timeout: 0 }
+      );
     });
-
-    // Click export button
-    const exportButton = screen.getByText('导出CSV');
-    fireEvent.click(exportButton);
-
     await waitFor(() => {
-      expect(mockedApi.post).toHaveBeenCalledWith('/data-analysis/export', {
-        sessionId: 'test-session-id',
-        filters: undefined,
-        sorts: undefined,
-      });
+      expect(mockLink.setAttribute).toHaveBeenCalledWith('download', '数据.csv');
     });
   });
 
@@ -8,6 +8,7 @@ import {
   message,
   Typography,
   Tag,
+  Dropdown,
 } from "antd";
 import {
   DownloadOutlined,
@@ -15,9 +16,22 @@ import {
 } from "@ant-design/icons";
 import type { ColumnsType, TableProps } from "antd/es/table";
 import api from "../../services/api";
+import { ExportFormat, ExportJob } from "../../types";
 
 const { Text, Title } = Typography;
 
+const EXPORT_FORMAT_OPTIONS: Array<{ key: ExportFormat; label: string }> = [
+  { key: "csv", label: "CSV" },
+  { key: "xlsx", label: "Excel (xlsx)" },
+  { key: "ndjson", label: "NDJSON" },
+  { key: "parquet", label: "Parquet" },
+];
+
+// 超过该行数时改用后台导出任务
+const BACKGROUND_EXPORT_THRESHOLD = 100000;
+const EXPORT_POLL_INTERVAL = 2000;
+const EXPORT_MESSAGE_KEY = "data-export-progress";
+
 export interface FieldAnnotation {
   id: string;
   sessionId: string;
@@ -86,6 +100,7 @@ export const DataTable: React.FC<DataTableProps> = ({
   createChartButton,
 }) => {
   const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [data, setData] = useState<any[]>([]);
   const [fields, setFields] = useState<FieldInfo[]>([]);
   const [total, setTotal] = useState(0);
@@ -174,72 +189,84 @@ export const DataTable: React.FC<DataTableProps> = ({
     setCurrentPage(1);
   };
 
-  // 导出数据
-  const exportData = async () => {
-    try {
-      setLoading(true);
-      const response = await api.post("/data-analysis/export", {
-        sessionId,
-        filters: allFilters.length > 0 ? allFilters : undefined,
-        sorts: sorts.length > 0 ? sorts : undefined,
-      });
-
-      if (response.data.success) {
-        // 创建CSV内容
-        const csvContent = generateCSV(
-          response.data.data,
-          response.data.fields
-        );
+  // 导出数据：数据量较大时创建后台导出任务，完成后再下载
+  const exportData = async (format: ExportFormat) => {
+    const payload = {
+      sessionId,
+      format,
+      filters: allFilters.length > 0 ? allFilters : undefined,
+      sorts: sorts.length > 0 ? sorts : undefined,
+    };
 
-        // 下载文件
-        const blob = new Blob([csvContent], {
-          type: "text/csv;charset=utf-8;",
+    setExporting(true);
+    try {
+      if (total > BACKGROUND_EXPORT_THRESHOLD) {
+        const fileUrl = await runExportJob(payload);
+        const response = await api.get(fileUrl, {
+          responseType: "blob",
+          timeout: 0,
         });
-        const link = document.createElement("a");
-        const url = URL.createObjectURL(blob);
-        link.setAttribute("href", url);
-        link.setAttribute(
-          "download",
-          `data_export_${new Date().getTime()}.csv`
-        );
-        link.style.visibility = "hidden";
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-
-        message.success("数据导出成功");
+        saveBlob(response.data, response.headers["content-disposition"]);
+      } else {
+        const response = await api.post("/data-export/stream", payload, {
+          responseType: "blob",
+          timeout: 0,
+        });
+        saveBlob(response.data, response.headers["content-disposition"]);
       }
+      message.success("数据导出成功");
     } catch (error) {
       console.error("导出数据失败:", error);
-      message.error("导出数据失败");
+      message.error(
+        error instanceof Error && error.message ? error.message : "导出数据失败"
+      );
     } finally {
-      setLoading(false);
+      message.destroy(EXPORT_MESSAGE_KEY);
+      setExporting(false);
     }
   };
 
-  // 生成CSV内容
-  const generateCSV = (data: any[], fields: FieldInfo[]): string => {
-    const headers = fields.map((field) => field.label).join(",");
-    const rows = data.map((row) =>
-      fields
-        .map((field) => {
-          const value = row[field.name];
-          // 处理包含逗号或引号的值
-          if (
-            typeof value === "string" &&
-            (value.includes(",") || value.includes('"'))
-          ) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value || "";
-        })
-        .join(",")
-    );
-
-    return [headers, ...rows].join("\n");
-  };
+  // 创建后台导出任务并轮询进度，返回下载地址
+  const runExportJob = async (payload: Record<string, any>) => {
+    const created = await api.post("/data-export/jobs", payload);
+    let job: ExportJob = created.data.data;
 
+    while (job.status === "pending" || job.status === "running") {
+      message.loading({
+        key: EXPORT_MESSAGE_KEY,
+        content: `正在后台导出 ${job.exportedRows} / ${job.totalRows} 行（${job.percentage}%）`,
+        duration: 0,
+      });
+      await new Promise(resolve => setTimeout(resolve, EXPORT_POLL_INTERVAL));
+      const response = await api.get(`/data-export/jobs/${job.id}`);
+      job = response.data.data;
+    }
 
+    if (job.status === "failed" || !job.downloadUrl) {
+      throw new Error(job.error ? `导出失败：${job.error}` : "导出失败");
+    }
+    return job.downloadUrl;
+  };
+
+  // 保存下载的文件，文件名取自响应头
+  const saveBlob = (blob: Blob, contentDisposition?: string) => {
+    const encodedName = contentDisposition?.match(
+      /filename\*=UTF-8''([^;]+)/
+    )?.[1];
+    const fileName = encodedName
+      ? decodeURIComponent(encodedName)
+      : `data_export_${new Date().getTime()}`;
+
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", fileName);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
 
   // 构建表格列
   const columns: ColumnsType<any> = (fields || []).map((field: FieldInfo) => {
@@ -331,13 +358,18 @@ export const DataTable: React.FC<DataTableProps> = ({
             >
               刷新
             </Button>
-            <Button
-              icon={<DownloadOutlined />}
-              onClick={exportData}
-              loading={loading}
+            <Dropdown
+              menu={{
+                items: EXPORT_FORMAT_OPTIONS,
+                onClick: ({ key }) => exportData(key as ExportFormat),
+              }}
+              trigger={["click"]}
+              disabled={exporting}
             >
-              导出CSV
-            </Button>
+              <Button icon={<DownloadOutlined />} loading={exporting}>
+                导出数据
+              </Button>
+            </Dropdown>
           </Space>
         </div>
       )}
@@ -0,0 +1,444 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  Card,
+  Button,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Typography,
+  Empty,
+  Tooltip,
+  message,
+} from "antd";
+import {
+  PlusOutlined,
+  DeleteOutlined,
+  SwapOutlined,
+  ReloadOutlined,
+  PlusSquareOutlined,
+  MinusSquareOutlined,
+} from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import api from "../../services/api";
+import {
+  FieldInfo,
+  PivotAggregation,
+  PivotHeader,
+  PivotMeasure,
+  PivotResult,
+} from "../../types";
+import { FilterCondition } from "./DataTable";
+
+const { Text } = Typography;
+
+const AGGREGATION_OPTIONS: Array<{ value: PivotAggregation; label: string }> = [
+  { value: "sum", label: "求和" },
+  { value: "avg", label: "平均值" },
+  { value: "count", label: "计数" },
+  { value: "count_distinct", label: "去重计数" },
+  { value: "min", label: "最小值" },
+  { value: "max", label: "最大值" },
+];
+
+// 后端限制的维度个数
+const MAX_ROW_DIMENSIONS = 4;
+const MAX_COLUMN_DIMENSIONS = 3;
+
+interface PivotTableProps {
+  sessionId: string;
+  fields: FieldInfo[];
+  filters?: FilterCondition[];
+  height?: number;
+}
+
+interface PivotRow {
+  key: string;
+  header: PivotHeader;
+}
+
+const formatDimensionValue = (value: any) => {
+  if (value === null || value === undefined || value === "") {
+    return "(空)";
+  }
+  if (typeof value === "boolean") {
+    return value ? "是" : "否";
+  }
+  return String(value);
+};
+
+const formatMeasureValue = (value: number | string | null | undefined) => {
+  if (value === null || value === undefined) {
+    return "-";
+  }
+  if (typeof value === "number") {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+  }
+  return value;
+};
+
+export const PivotTable: React.FC<PivotTableProps> = ({
+  sessionId,
+  fields,
+  filters = [],
+  height = 500,
+}) => {
+  const [rowDimensions, setRowDimensions] = useState<string[]>([]);
+  const [columnDimensions, setColumnDimensions] = useState<string[]>([]);
+  const [measures, setMeasures] = useState<PivotMeasure[]>([
+    { aggregation: "count" },
+  ]);
+  const [showSubtotals, setShowSubtotals] = useState(true);
+  const [showGrandTotals, setShowGrandTotals] = useState(true);
+  const [result, setResult] = useState<PivotResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  // 已折叠的行分组（小计行的 key）
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const fieldOptions = useMemo(
+    () => fields.map(field => ({ value: field.name, label: field.label })),
+    [fields]
+  );
+
+  const measuresValid = measures.every(
+    measure => measure.field || measure.aggregation === "count"
+  );
+
+  const loadPivot = useCallback(async () => {
+    if (!sessionId || measures.length === 0 || !measuresValid) return;
+
+    setLoading(true);
+    try {
+      const response = await api.post("/data-analysis/pivot", {
+        sessionId,
+        rows: rowDimensions,
+        columns: columnDimensions,
+        measures: measures.map(measure => ({
+          ...measure,
+          field: measure.field || undefined,
+        })),
+        filters: filters.length > 0 ? filters : undefined,
+        showSubtotals,
+        showGrandTotals,
+      });
+      if (response.data.success) {
+        setResult(response.data.data);
+        setCollapsed(new Set());
+      }
+    } catch (error: any) {
+      console.error("透视表查询失败:", error);
+      message.error(error.response?.data?.message || "透视表查询失败");
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    sessionId,
+    rowDimensions,
+    columnDimensions,
+    measures,
+    measuresValid,
+    filters,
+    showSubtotals,
+    showGrandTotals,
+  ]);
+
+  // 筛选条件变化时，已生成的透视表自动刷新
+  useEffect(() => {
+    if (result) {
+      loadPivot();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  const updateMeasure = (index: number, updates: Partial<PivotMeasure>) => {
+    setMeasures(prev =>
+      prev.map((measure, i) => (i === index ? { ...measure, ...updates } : measure))
+    );
+  };
+
+  const swapDimensions = () => {
+    if (
+      rowDimensions.length > MAX_COLUMN_DIMENSIONS ||
+      columnDimensions.length > MAX_ROW_DIMENSIONS
+    ) {
+      message.warning(`列维度最多 ${MAX_COLUMN_DIMENSIONS} 个，无法交换`);
+      return;
+    }
+    setRowDimensions(columnDimensions);
+    setColumnDimensions(rowDimensions);
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  // 折叠分组内的明细和下级小计不显示
+  const visibleRows: PivotRow[] = useMemo(() => {
+    if (!result) return [];
+    const collapsedPrefixes = result.rows
+      .filter(row => row.type === "subtotal" && collapsed.has(row.key))
+      .map(row => row.values);
+
+    return result.rows
+      .filter(
+        row =>
+          !collapsedPrefixes.some(
+            prefix =>
+              row.level > prefix.length &&
+              prefix.every((value, index) => row.values[index] === value)
+          )
+      )
+      .map(row => ({ key: row.key, header: row }));
+  }, [result, collapsed]);
+
+  const columns: ColumnsType<PivotRow> = useMemo(() => {
+    if (!result) return [];
+
+    const rowFieldCount = Math.max(result.rowFields.length, 1);
+    const dimensionColumns: ColumnsType<PivotRow> = Array.from(
+      { length: rowFieldCount },
+      (_, index) => ({
+        title: result.rowFields[index]?.label || "",
+        key: `row_${index}`,
+        fixed: "left" as const,
+        width: 160,
+        render: (_: any, record: PivotRow, rowIndex: number) => {
+          const { header } = record;
+          if (header.type === "total") {
+            return index === 0 ? <Text strong>总计</Text> : null;
+          }
+          if (header.type === "subtotal") {
+            if (index < header.level) {
+              return <Text strong>{formatDimensionValue(header.values[index])}</Text>;
+            }
+            if (index === header.level) {
+              const isCollapsed = collapsed.has(header.key);
+              return (
+                <Button
+                  type="link"
+                  size="small"
+                  style={{ padding: 0 }}
+                  icon={isCollapsed ? <PlusSquareOutlined /> : <MinusSquareOutlined />}
+                  onClick={() => toggleGroup(header.key)}
+                >
+                  小计
+                </Button>
+              );
+            }
+            return null;
+          }
+          // 与上一行相同的上级取值不重复显示
+          const previous = visibleRows[rowIndex - 1]?.header;
+          const samePrefix =
+            previous?.type === "item" &&
+            header.values
+              .slice(0, index + 1)
+              .every((value, i) => previous.values[i] === value);
+          return samePrefix && index < header.level - 1
+            ? null
+            : formatDimensionValue(header.values[index]);
+        },
+      })
+    );
+
+    const measureColumn = (
+      columnHeader: PivotHeader,
+      measureIndex: number,
+      title: React.ReactNode
+    ) => ({
+      title,
+      key: `${columnHeader.key}_${measureIndex}`,
+      align: "right" as const,
+      width: 120,
+      render: (_: any, record: PivotRow) => {
+        const value =
+          result.cells[record.header.key]?.[columnHeader.key]?.[measureIndex];
+        const strong =
+          record.header.type !== "item" || columnHeader.type !== "item";
+        return strong ? (
+          <Text strong>{formatMeasureValue(value)}</Text>
+        ) : (
+          formatMeasureValue(value)
+        );
+      },
+    });
+
+    const valueColumns = result.columns.map(columnHeader => {
+      const title =
+        columnHeader.type === "total"
+          ? result.columnFields.length > 0
+            ? "总计"
+            : null
+          : columnHeader.values.map(formatDimensionValue).join(" / ") +
+            (columnHeader.type === "subtotal" ? " 小计" : "");
+
+      if (title === null) {
+        return result.measures.map((measure, index) =>
+          measureColumn(columnHeader, index, measure.label)
+        );
+      }
+      if (result.measures.length === 1) {
+        return [
+          measureColumn(
+            columnHeader,
+            0,
+            <Tooltip title={result.measures[0].label}>{title}</Tooltip>
+          ),
+        ];
+      }
+      return [
+        {
+          title,
+          key: columnHeader.key,
+          children: result.measures.map((measure, index) =>
+            measureColumn(columnHeader, index, measure.label)
+          ),
+        },
+      ];
+    });
+
+    return [...dimensionColumns, ...valueColumns.flat()];
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [result, collapsed, visibleRows]);
+
+  return (
+    <Card
+      title="透视表"
+      size="small"
+      extra={
+        <Space>
+          <Tooltip title="交换行列维度">
+            <Button icon={<SwapOutlined />} onClick={swapDimensions} />
+          </Tooltip>
+          <Button
+            type="primary"
+            icon={<ReloadOutlined />}
+            onClick={loadPivot}
+            loading={loading}
+            disabled={!measuresValid || measures.length === 0}
+          >
+            生成透视表
+          </Button>
+        </Space>
+      }
+    >
+      <Space direction="vertical" style={{ width: "100%" }} size="middle">
+        <Space wrap>
+          <Text>行维度</Text>
+          <Select
+            mode="multiple"
+            style={{ minWidth: 240 }}
+            placeholder="选择行维度"
+            options={fieldOptions.filter(
+              option => !columnDimensions.includes(option.value)
+            )}
+            value={rowDimensions}
+            onChange={values =>
+              setRowDimensions(values.slice(0, MAX_ROW_DIMENSIONS))
+            }
+          />
+          <Text>列维度</Text>
+          <Select
+            mode="multiple"
+            style={{ minWidth: 240 }}
+            placeholder="选择列维度"
+            options={fieldOptions.filter(
+              option => !rowDimensions.includes(option.value)
+            )}
+            value={columnDimensions}
+            onChange={values =>
+              setColumnDimensions(values.slice(0, MAX_COLUMN_DIMENSIONS))
+            }
+          />
+          <Switch
+            checked={showSubtotals}
+            onChange={setShowSubtotals}
+            checkedChildren="小计"
+            unCheckedChildren="小计"
+          />
+          <Switch
+            checked={showGrandTotals}
+            onChange={setShowGrandTotals}
+            checkedChildren="总计"
+            unCheckedChildren="总计"
+          />
+        </Space>
+
+        <Space wrap>
+          <Text>度量</Text>
+          {measures.map((measure, index) => (
+            <Space.Compact key={index}>
+              <Select
+                style={{ width: 160 }}
+                placeholder={
+                  measure.aggregation === "count" ? "记录数" : "选择字段"
+                }
+                allowClear
+                options={fieldOptions}
+                value={measure.field}
+                onChange={value => updateMeasure(index, { field: value })}
+                status={
+                  !measure.field && measure.aggregation !== "count"
+                    ? "error"
+                    : undefined
+                }
+              />
+              <Select
+                style={{ width: 110 }}
+                options={AGGREGATION_OPTIONS}
+                value={measure.aggregation}
+                onChange={value => updateMeasure(index, { aggregation: value })}
+              />
+              <Button
+                icon={<DeleteOutlined />}
+                disabled={measures.length === 1}
+                onClick={() =>
+                  setMeasures(prev => prev.filter((_, i) => i !== index))
+                }
+              />
+            </Space.Compact>
+          ))}
+          <Button
+            icon={<PlusOutlined />}
+            disabled={measures.length >= 10}
+            onClick={() =>
+              setMeasures(prev => [...prev, { aggregation: "sum" }])
+            }
+          >
+            添加度量
+          </Button>
+        </Space>
+
+        {result ? (
+          <Table<PivotRow>
+            size="small"
+            bordered
+            loading={loading}
+            columns={columns}
+            dataSource={visibleRows}
+            pagination={false}
+            scroll={{ x: "max-content", y: height }}
+            onRow={record => ({
+              style:
+                record.header.type === "item"
+                  ? undefined
+                  : { background: "#fafafa" },
+            })}
+          />
+        ) : (
+          <Empty description="选择维度和度量后点击“生成透视表”" />
+        )}
+      </Space>
+    </Card>
+  );
+};
+
+export default PivotTable;
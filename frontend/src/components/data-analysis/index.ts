@@ -1,4 +1,5 @@
 export { DataTable } from './DataTable';
+export { PivotTable } from './PivotTable';
 export { FilterPanel } from './FilterPanel';
 export { DataAnalysisWrapper } from './DataAnalysisWrapper';
 export { ChartContainer } from './ChartContainer';
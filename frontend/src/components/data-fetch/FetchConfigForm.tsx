@@ -12,20 +12,38 @@ import {
   message,
   Alert,
   Tooltip,
+  InputNumber,
+  Select,
+  Radio,
 } from "antd";
 import {
   ImportOutlined,
+  KeyOutlined,
   PlusOutlined,
   DeleteOutlined,
   InfoCircleOutlined,
   CheckCircleOutlined,
+  EyeOutlined,
 } from "@ant-design/icons";
 import SmokeTestButton from "./SmokeTestButton";
+import SqlPreviewButton from "./SqlPreviewButton";
 import CurlParserModal from "./CurlParserModal";
+import SecretManagerModal from "./SecretManagerModal";
 import FetchModeSelector from "./FetchModeSelector";
-import { FetchConfig, SmokeTestResponse } from "../../types";
+import api from "../../services/api";
+import {
+  ExplodeField,
+  FetchAuthConfig,
+  FetchConfig,
+  RateLimitPolicy,
+  RequestTemplatePreview,
+  SmokeTestResponse,
+  SqlConnectionConfig,
+  TransformStep,
+} from "../../types";
 
 const { Title, Text } = Typography;
+const { Option } = Select;
 
 interface FetchConfigFormProps {
   onConfigChange?: (config: FetchConfig) => void;
@@ -37,6 +55,138 @@ interface FetchConfigFormProps {
   disabled?: boolean;
 }
 
+// 去掉未填写的限流字段，全部为空时不提交限流策略
+const normalizeRateLimit = (
+  rateLimit?: RateLimitPolicy
+): RateLimitPolicy | undefined => {
+  if (!rateLimit) {
+    return undefined;
+  }
+  const entries = Object.entries(rateLimit).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// 去掉未填写的认证字段，未选择认证方式时不提交
+const normalizeAuth = (
+  auth?: Partial<FetchAuthConfig>
+): FetchAuthConfig | undefined => {
+  if (!auth?.type || auth.type === "none") {
+    return undefined;
+  }
+  const entries = Object.entries(auth).filter(
+    ([, value]) => value !== undefined && value !== null && value !== ""
+  );
+  return { ...Object.fromEntries(entries), type: auth.type } as FetchAuthConfig;
+};
+
+// 将变量列表转换为对象，没有变量时不提交
+const normalizeVariables = (
+  variables?: Array<{ key?: string; value?: string }>
+): Record<string, string> | undefined => {
+  if (!Array.isArray(variables)) {
+    return undefined;
+  }
+  const entries = variables
+    .filter((variable) => variable?.key)
+    .map((variable) => [variable.key as string, variable.value || ""]);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+// 过滤未填写完整的拆分配置，没有时不提交
+const normalizeExplodeFields = (
+  explodeFields?: Array<Partial<ExplodeField>>
+): ExplodeField[] | undefined => {
+  if (!Array.isArray(explodeFields)) {
+    return undefined;
+  }
+  const fields = explodeFields.filter(
+    (field): field is ExplodeField => !!field?.path && !!field?.name
+  );
+  return fields.length > 0 ? fields : undefined;
+};
+
+// 转换步骤类型及各类型必填项
+const TRANSFORM_STEP_TYPES: Array<{
+  value: TransformStep["type"];
+  label: string;
+  required: Array<keyof TransformStep>;
+}> = [
+  { value: "rename", label: "重命名", required: ["field", "to"] },
+  { value: "drop", label: "删除字段", required: ["fields"] },
+  { value: "cast", label: "类型转换", required: ["field", "castType"] },
+  { value: "compute", label: "计算字段", required: ["field", "expression"] },
+  { value: "filter", label: "过滤", required: ["expression"] },
+];
+
+// 去掉未填写完整的转换步骤和空白字段，没有时不提交
+const normalizeTransformSteps = (
+  steps?: Array<Partial<TransformStep>>
+): TransformStep[] | undefined => {
+  if (!Array.isArray(steps)) {
+    return undefined;
+  }
+  const normalized = steps
+    .map((step) => {
+      const definition = TRANSFORM_STEP_TYPES.find(
+        (item) => item.value === step?.type
+      );
+      if (!definition) {
+        return undefined;
+      }
+      const entries = Object.entries(step).filter(
+        ([key, value]) =>
+          (key === "type" ||
+            (key === "format" && step.type === "cast") ||
+            definition.required.includes(key as keyof TransformStep)) &&
+          value !== undefined &&
+          value !== null &&
+          value !== "" &&
+          !(Array.isArray(value) && value.length === 0)
+      );
+      const result = {
+        ...Object.fromEntries(entries),
+        type: definition.value,
+      } as TransformStep;
+      return definition.required.every((key) => result[key] !== undefined)
+        ? result
+        : undefined;
+    })
+    .filter((step): step is TransformStep => !!step);
+  return normalized.length > 0 ? normalized : undefined;
+};
+
+// 解析 GraphQL 变量或 SQL 参数 JSON，未填写时为空对象，格式错误时返回 undefined
+const parseJsonObject = (
+  text?: string
+): Record<string, any> | undefined => {
+  if (!text || !text.trim()) {
+    return {};
+  }
+  try {
+    const variables = JSON.parse(text);
+    return variables && typeof variables === "object" && !Array.isArray(variables)
+      ? variables
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// 去掉未填写的连接字段，未选择数据库类型时不提交
+const normalizeSqlConnection = (
+  connection?: Partial<SqlConnectionConfig>
+): SqlConnectionConfig | undefined => {
+  if (!connection?.type) {
+    return undefined;
+  }
+  const entries = Object.entries(connection).filter(
+    ([, value]) => value !== undefined && value !== null && value !== ""
+  );
+  return { ...Object.fromEntries(entries), type: connection.type } as SqlConnectionConfig;
+};
+
 const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
   onConfigChange,
   onSmokeTestComplete,
@@ -48,6 +198,14 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
 }) => {
   const [form] = Form.useForm();
   const [curlModalVisible, setCurlModalVisible] = useState(false);
+  const [secretModalVisible, setSecretModalVisible] = useState(false);
+  const [templatePreview, setTemplatePreview] =
+    useState<RequestTemplatePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const authType = Form.useWatch(["auth", "type"], form);
+  const sourceType = Form.useWatch("sourceType", form);
+  const sqlDatabaseType = Form.useWatch(["sqlConnection", "type"], form);
+  const isSql = sourceType === "sql";
   const [enablePagination, setEnablePagination] = useState<boolean>(false);
   const [pageField, setPageField] = useState<string>("");
   const [totalField, setTotalField] = useState<string>("");
@@ -57,6 +215,9 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
   const [suggestedTotalFields, setSuggestedTotalFields] = useState<string[]>(
     []
   );
+  const [suggestedCursorPaths, setSuggestedCursorPaths] = useState<string[]>(
+    []
+  );
   const [formValid, setFormValid] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
 
@@ -67,6 +228,22 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
       const values = form.getFieldsValue();
       const errors: string[] = [];
 
+      // 验证SQL连接和查询，SQL 数据源不需要接口地址和分页配置
+      if (values.sourceType === "sql") {
+        if (!values.sqlConnection?.database) {
+          errors.push("SQL 数据源必须填写数据库名称");
+        }
+        if (!values.sqlQuery?.trim()) {
+          errors.push("SQL 数据源必须填写查询语句");
+        }
+        if (!parseJsonObject(values.sqlParamsText)) {
+          errors.push("查询参数必须是有效的 JSON 对象");
+        }
+        setValidationErrors(errors);
+        setFormValid(errors.length === 0);
+        return errors.length === 0;
+      }
+
       // 验证API URL
       if (!values.apiUrl) {
         errors.push("API URL 是必填项");
@@ -78,9 +255,27 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
         }
       }
 
+      // 验证 GraphQL 查询和变量
+      if (values.sourceType === "graphql") {
+        if (!values.graphqlQuery?.trim()) {
+          errors.push("GraphQL 数据源必须填写查询语句");
+        }
+        if (!parseJsonObject(values.graphqlVariablesText)) {
+          errors.push("GraphQL 变量必须是有效的 JSON 对象");
+        }
+      }
+
       // 验证分页参数
       if (values.enablePagination) {
-        if (!values.pageField) {
+        const isTokenPagination =
+          values.paginationType === "cursor" ||
+          values.paginationType === "next_url" ||
+          values.paginationType === "relay";
+        if (isTokenPagination) {
+          if (!values.cursorPath && values.paginationType !== "relay") {
+            errors.push("游标/链接分页时必须填写游标路径");
+          }
+        } else if (!values.pageField) {
           errors.push("启用拉取全部时必须选择分页字段");
         }
         // 拉取全部模式不需要验证pageSize，系统会自动处理
@@ -146,7 +341,13 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
     }
 
     const config: FetchConfig = {
+      sourceType: allValues.sourceType || "api",
       apiUrl: allValues.apiUrl || "",
+      graphqlQuery: allValues.graphqlQuery,
+      graphqlVariables: parseJsonObject(allValues.graphqlVariablesText),
+      sqlConnection: normalizeSqlConnection(allValues.sqlConnection),
+      sqlQuery: allValues.sqlQuery,
+      sqlParams: parseJsonObject(allValues.sqlParamsText),
       headers: {},
       enablePagination: allValues.enablePagination || false,
       paginationType: allValues.paginationType || paginationType,
@@ -154,8 +355,18 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
       totalField: allValues.totalField,
       pageSize: allValues.pageSize || 20,
       stepSize: allValues.stepSize || stepSize,
+      cursorPath: allValues.cursorPath,
+      cursorParam: allValues.cursorParam,
+      cursorLocation: allValues.cursorLocation,
       name: allValues.name,
       dataPath: allValues.dataPath,
+      incrementalMode: allValues.incrementalMode || false,
+      watermarkField: allValues.watermarkField,
+      rateLimit: normalizeRateLimit(allValues.rateLimit),
+      variables: normalizeVariables(allValues.variables),
+      auth: normalizeAuth(allValues.auth),
+      explodeFields: normalizeExplodeFields(allValues.explodeFields),
+      transformSteps: normalizeTransformSteps(allValues.transformSteps),
     };
 
     // 处理请求头
@@ -205,10 +416,26 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
           }))
         : [{ key: "", value: "" }];
 
+      // 处理初始值中的会话变量
+      const variablesArray = initialValues.variables
+        ? Object.entries(initialValues.variables).map(([key, value]) => ({
+            key,
+            value,
+          }))
+        : [];
+
       form.setFieldsValue({
         ...initialValues,
         headers: headersArray,
         queryParams: queryParamsArray,
+        variables: variablesArray,
+        auth: initialValues.auth || { type: "none" },
+        graphqlVariablesText: initialValues.graphqlVariables
+          ? JSON.stringify(initialValues.graphqlVariables, null, 2)
+          : undefined,
+        sqlParamsText: initialValues.sqlParams
+          ? JSON.stringify(initialValues.sqlParams, null, 2)
+          : undefined,
       });
 
       if (initialValues.enablePagination !== undefined) {
@@ -252,6 +479,14 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
       }
     }
 
+    // 记录响应中检测到的游标/下一页链接路径
+    if (result.success && result.suggestedCursorPaths) {
+      setSuggestedCursorPaths(result.suggestedCursorPaths);
+    }
+    if (result.success && result.nextPageToken) {
+      message.info(`检测到下一页游标: ${result.nextPageToken}`);
+    }
+
     // 调用原始回调
     onSmokeTestComplete?.(result);
   };
@@ -292,6 +527,17 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
         queryParams: queryParamsArray,
       };
 
+      // 请求体为 { query, variables } 时按 GraphQL 数据源填充
+      if (config.sourceType === "graphql") {
+        formValues.sourceType = "graphql";
+        formValues.graphqlQuery = config.graphqlQuery;
+        formValues.graphqlVariablesText = JSON.stringify(
+          config.graphqlVariables || {},
+          null,
+          2
+        );
+      }
+
       // 如果有查询参数，尝试识别分页参数
       if (config.queryParams) {
         const { page, size, limit } = config.queryParams;
@@ -347,22 +593,107 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
     }
 
     return {
+      sourceType: values.sourceType || "api",
       apiUrl: values.apiUrl || "",
+      graphqlQuery: values.graphqlQuery,
+      graphqlVariables: parseJsonObject(values.graphqlVariablesText),
       headers,
       queryParams,
       pageSize: values.pageSize || 20,
       dataPath: values.dataPath,
+      paginationType: values.paginationType || paginationType,
+      cursorPath: values.cursorPath,
+      rateLimit: normalizeRateLimit(values.rateLimit),
+      variables: normalizeVariables(values.variables),
+      auth: normalizeAuth(values.auth),
     };
   };
 
+  // 预览按第1页渲染后的请求，不发送请求
+  const handlePreviewTemplate = async () => {
+    setPreviewLoading(true);
+    try {
+      const response = await api.post(
+        "/data-fetch/template-preview",
+        getCurrentConfig()
+      );
+      if (response.data.success) {
+        setTemplatePreview(response.data.data);
+      }
+    } catch (error: any) {
+      setTemplatePreview(null);
+      message.error(
+        "模板渲染失败: " + (error.response?.data?.message || error.message)
+      );
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  // 构建保存/拉取时提交的配置（忽略空的请求头和查询参数）
+  const buildSubmitConfig = (): FetchConfig => {
+    const values = form.getFieldsValue();
+    const config: FetchConfig = {
+      sourceType: values.sourceType || "api",
+      apiUrl: values.apiUrl,
+      graphqlQuery: values.graphqlQuery,
+      graphqlVariables: parseJsonObject(values.graphqlVariablesText),
+      sqlConnection: normalizeSqlConnection(values.sqlConnection),
+      sqlQuery: values.sqlQuery,
+      sqlParams: parseJsonObject(values.sqlParamsText),
+      headers: {},
+      queryParams: {},
+      enablePagination: values.enablePagination,
+      paginationType: values.paginationType || paginationType,
+      pageField: values.pageField,
+      totalField: values.totalField,
+      pageSize: values.pageSize,
+      stepSize: values.stepSize,
+      cursorPath: values.cursorPath,
+      cursorParam: values.cursorParam,
+      cursorLocation: values.cursorLocation,
+      name: values.name,
+      dataPath: values.dataPath,
+      incrementalMode: values.incrementalMode || false,
+      watermarkField: values.watermarkField,
+      rateLimit: normalizeRateLimit(values.rateLimit),
+      variables: normalizeVariables(values.variables),
+      auth: normalizeAuth(values.auth),
+      explodeFields: normalizeExplodeFields(values.explodeFields),
+      transformSteps: normalizeTransformSteps(values.transformSteps),
+    };
+
+    // 处理请求头
+    if (values.headers && Array.isArray(values.headers)) {
+      values.headers.forEach((header: any) => {
+        if (header?.key && header?.value) {
+          config.headers[header.key] = header.value;
+        }
+      });
+    }
+
+    // 处理查询参数
+    if (values.queryParams && Array.isArray(values.queryParams)) {
+      values.queryParams.forEach((param: any) => {
+        if (param?.key && param?.value) {
+          config.queryParams![param.key] = param.value;
+        }
+      });
+    }
+
+    return config;
+  };
+
   return (
     <Card title="数据拉取配置" size="small">
       <Form
         form={form}
         layout="vertical"
         initialValues={{
+          sourceType: "api",
           enablePagination: false,
           pageSize: 20,
+          auth: { type: "none" },
           headers: [{ key: "", value: "" }],
           queryParams: [{ key: "", value: "" }],
           ...initialValues,
@@ -381,78 +712,270 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
           <Title level={5} style={{ margin: 0 }}>
             API 配置
           </Title>
-          <Button
-            type="default"
-            icon={<ImportOutlined />}
-            onClick={() => setCurlModalVisible(true)}
-            disabled={disabled || loading}
-            size="small"
-          >
-            导入
-          </Button>
+          <Space>
+            <Button
+              type="default"
+              icon={<KeyOutlined />}
+              onClick={() => setSecretModalVisible(true)}
+              size="small"
+            >
+              密钥
+            </Button>
+            <Button
+              type="default"
+              icon={<ImportOutlined />}
+              onClick={() => setCurlModalVisible(true)}
+              disabled={disabled || loading}
+              size="small"
+            >
+              导入
+            </Button>
+          </Space>
         </div>
 
         <Form.Item label="配置名称" name="name">
           <Input placeholder="可选，不填写将自动生成" />
         </Form.Item>
 
-        <Form.Item
-          label="API URL"
-          name="apiUrl"
-          rules={[
-            { required: true, message: "请输入API URL" },
-            { type: "url", message: "请输入有效的URL" },
-          ]}
-        >
-          <Input placeholder="https://api.example.com/data" />
+        <Form.Item label="数据源类型" name="sourceType">
+          <Radio.Group disabled={disabled || loading}>
+            <Radio.Button value="api">REST</Radio.Button>
+            <Radio.Button value="graphql">GraphQL</Radio.Button>
+            <Radio.Button value="sql">SQL</Radio.Button>
+          </Radio.Group>
         </Form.Item>
 
-        <Form.Item
-          label={
-            <span>
-              数据路径
-              <Tooltip title="指定返回数据中数组的位置，支持复杂路径如 '[0].data.rank_list' 或 'result.items'，不填写则使用整个返回数据">
-                <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
-              </Tooltip>
-            </span>
-          }
-          name="dataPath"
-        >
-          <Input placeholder="如: [0].data.rank_list 或 result.items，可不填" />
-        </Form.Item>
+        {!isSql && (
+          <Form.Item
+            label="API URL"
+            name="apiUrl"
+            rules={[
+              { required: true, message: "请输入API URL" },
+              { type: "url", message: "请输入有效的URL" },
+            ]}
+          >
+            <Input placeholder="https://api.example.com/data" />
+          </Form.Item>
+        )}
+
+        {sourceType === "graphql" && (
+          <>
+            <Form.Item
+              label={
+                <span>
+                  GraphQL 查询
+                  <Tooltip title="以 POST 发送 { query, variables }。页码/索引分页的分页字段和游标参数会写入 variables，查询中以 $page、$after 等变量引用">
+                    <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
+                  </Tooltip>
+                </span>
+              }
+              name="graphqlQuery"
+              rules={[{ required: true, message: "请输入GraphQL查询语句" }]}
+            >
+              <Input.TextArea
+                rows={6}
+                style={{ fontFamily: "monospace" }}
+                placeholder={
+                  "query Users($first: Int, $after: String) {\n  users(first: $first, after: $after) {\n    edges { node { id name } }\n    pageInfo { endCursor hasNextPage }\n  }\n}"
+                }
+              />
+            </Form.Item>
+            <Form.Item
+              label="GraphQL 变量"
+              name="graphqlVariablesText"
+              rules={[
+                {
+                  validator: (_, value) =>
+                    parseJsonObject(value)
+                      ? Promise.resolve()
+                      : Promise.reject(new Error("请输入有效的 JSON 对象")),
+                },
+              ]}
+            >
+              <Input.TextArea
+                rows={3}
+                style={{ fontFamily: "monospace" }}
+                placeholder='{"first": 50}'
+              />
+            </Form.Item>
+          </>
+        )}
+
+        {isSql && (
+          <>
+            <Row gutter={16}>
+              <Col span={6}>
+                <Form.Item
+                  label="数据库类型"
+                  name={["sqlConnection", "type"]}
+                  initialValue="postgres"
+                >
+                  <Select disabled={disabled}>
+                    <Option value="postgres">PostgreSQL</Option>
+                    <Option value="mysql">MySQL</Option>
+                    <Option value="sqlite">SQLite</Option>
+                  </Select>
+                </Form.Item>
+              </Col>
+              {sqlDatabaseType !== "sqlite" && (
+                <>
+                  <Col span={8}>
+                    <Form.Item
+                      label="主机"
+                      name={["sqlConnection", "host"]}
+                      rules={[{ required: true, message: "请输入数据库主机" }]}
+                    >
+                      <Input placeholder="db.example.com" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={4}>
+                    <Form.Item label="端口" name={["sqlConnection", "port"]}>
+                      <InputNumber
+                        min={1}
+                        max={65535}
+                        precision={0}
+                        placeholder={sqlDatabaseType === "mysql" ? "3306" : "5432"}
+                        style={{ width: "100%" }}
+                      />
+                    </Form.Item>
+                  </Col>
+                </>
+              )}
+              <Col span={sqlDatabaseType === "sqlite" ? 18 : 6}>
+                <Form.Item
+                  label={sqlDatabaseType === "sqlite" ? "数据库文件" : "数据库"}
+                  name={["sqlConnection", "database"]}
+                  rules={[{ required: true, message: "请输入数据库" }]}
+                >
+                  <Input
+                    placeholder={
+                      sqlDatabaseType === "sqlite" ? "相对服务端允许目录的路径" : "shop"
+                    }
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+            {sqlDatabaseType !== "sqlite" && (
+              <Row gutter={16}>
+                <Col span={8}>
+                  <Form.Item label="用户名" name={["sqlConnection", "username"]}>
+                    <Input placeholder="只读账号" />
+                  </Form.Item>
+                </Col>
+                <Col span={10}>
+                  <Form.Item label="密码" name={["sqlConnection", "password"]}>
+                    <Input.Password placeholder="{{secret:名称}}" />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item
+                    label="SSL"
+                    name={["sqlConnection", "ssl"]}
+                    initialValue={false}
+                  >
+                    <Radio.Group>
+                      <Radio value={false}>否</Radio>
+                      <Radio value={true}>是</Radio>
+                    </Radio.Group>
+                  </Form.Item>
+                </Col>
+              </Row>
+            )}
+            <Form.Item
+              label={
+                <span>
+                  查询语句
+                  <Tooltip title="只支持单条 SELECT/WITH 查询，以 :名称 引用查询参数。结果按批次读取并写入动态表，建议带上 ORDER BY 保证批次顺序稳定">
+                    <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
+                  </Tooltip>
+                </span>
+              }
+              name="sqlQuery"
+              rules={[{ required: true, message: "请输入查询语句" }]}
+            >
+              <Input.TextArea
+                rows={6}
+                style={{ fontFamily: "monospace" }}
+                placeholder={
+                  "SELECT id, customer_id, total, created_at\nFROM orders\nWHERE created_at >= :since\nORDER BY id"
+                }
+              />
+            </Form.Item>
+            <Form.Item
+              label="查询参数"
+              name="sqlParamsText"
+              rules={[
+                {
+                  validator: (_, value) =>
+                    parseJsonObject(value)
+                      ? Promise.resolve()
+                      : Promise.reject(new Error("请输入有效的 JSON 对象")),
+                },
+              ]}
+            >
+              <Input.TextArea
+                rows={3}
+                style={{ fontFamily: "monospace" }}
+                placeholder='{"since": "{{today-7d|YYYY-MM-DD}}"}'
+              />
+            </Form.Item>
+          </>
+        )}
 
-        {/* 请求头配置 */}
+        {!isSql && (
+          <Form.Item
+            label={
+              <span>
+                数据路径
+                <Tooltip title="指定返回数据中数组的位置，支持复杂路径如 '[0].data.rank_list' 或 'result.items'，不填写则使用整个返回数据">
+                  <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
+                </Tooltip>
+              </span>
+            }
+            name="dataPath"
+          >
+            <Input placeholder="如: [0].data.rank_list 或 result.items，可不填" />
+          </Form.Item>
+        )}
+
+        {/* 嵌套数组拆分 */}
         <Form.Item
           label={
             <span>
-              请求头
-              <Tooltip title="设置API请求需要的HTTP头部信息，如认证token、内容类型等">
+              嵌套数组拆分
+              <Tooltip title="将每条记录中的对象数组（如订单中的 lines）写入独立的子表，子表行关联到所属记录。查询、筛选、聚合和字段标注中以 子表名称.字段名 引用">
                 <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
               </Tooltip>
             </span>
           }
         >
-          <Form.List name="headers">
+          <Form.List name="explodeFields">
             {(fields, { add, remove }) => (
               <>
                 {fields.map(({ key, name, ...restField }) => (
                   <Row key={key} gutter={8} align="middle">
-                    <Col span={10}>
+                    <Col span={11}>
                       <Form.Item
                         {...restField}
-                        name={[name, "key"]}
+                        name={[name, "path"]}
                         style={{ marginBottom: 8 }}
                       >
-                        <Input placeholder="请求头名称 (如: Authorization)" />
+                        <Input placeholder="数组字段路径 (如: lines)" />
                       </Form.Item>
                     </Col>
-                    <Col span={12}>
+                    <Col span={11}>
                       <Form.Item
                         {...restField}
-                        name={[name, "value"]}
+                        name={[name, "name"]}
                         style={{ marginBottom: 8 }}
+                        rules={[
+                          {
+                            pattern: /^[a-z][a-z0-9_]{0,19}$/,
+                            message: "小写字母开头，只能包含小写字母、数字和下划线",
+                          },
+                        ]}
                       >
-                        <Input placeholder="请求头值" />
+                        <Input placeholder="子表名称 (如: order_lines)" />
                       </Form.Item>
                     </Col>
                     <Col span={2}>
@@ -466,59 +989,167 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
                     </Col>
                   </Row>
                 ))}
-                <Space direction="vertical" style={{ width: "100%" }}>
-                  <Button
-                    type="dashed"
-                    onClick={() => add({ key: "", value: "" })}
-                    icon={<PlusOutlined />}
-                    style={{ width: "100%" }}
-                  >
-                    添加请求头
-                  </Button>
-                  <div style={{ fontSize: 12, color: "#999" }}>
-                    <Text type="secondary">
-                      常用请求头：Authorization (认证)、Content-Type
-                      (内容类型)、X-API-Key (API密钥)
-                    </Text>
-                  </div>
-                </Space>
+                <Button
+                  type="dashed"
+                  onClick={() => add({ path: "", name: "" })}
+                  icon={<PlusOutlined />}
+                  style={{ width: "100%" }}
+                >
+                  添加拆分字段
+                </Button>
               </>
             )}
           </Form.List>
         </Form.Item>
 
-        {/* 查询参数配置 */}
+        {/* 数据转换 */}
         <Form.Item
           label={
             <span>
-              查询参数
-              <Tooltip title="设置URL查询参数，如分页参数、筛选条件等">
+              数据转换
+              <Tooltip title="写入前按顺序执行：重命名、删除字段、类型转换、计算字段和过滤。表达式直接引用字段名（含空格时用反引号包裹），支持 + - * / 、比较、and/or/not 以及 lower、upper、trim、concat、coalesce、round、if、date_format 等函数。冒烟测试后可在右侧预览转换结果">
                 <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
               </Tooltip>
             </span>
           }
         >
-          <Form.List name="queryParams">
+          <Form.List name="transformSteps">
             {(fields, { add, remove }) => (
               <>
                 {fields.map(({ key, name, ...restField }) => (
-                  <Row key={key} gutter={8} align="middle">
-                    <Col span={10}>
+                  <Row key={key} gutter={8} align="top">
+                    <Col span={6}>
                       <Form.Item
                         {...restField}
-                        name={[name, "key"]}
+                        name={[name, "type"]}
                         style={{ marginBottom: 8 }}
                       >
-                        <Input placeholder="参数名称 (如: page)" />
+                        <Select placeholder="步骤类型">
+                          {TRANSFORM_STEP_TYPES.map((item) => (
+                            <Option key={item.value} value={item.value}>
+                              {item.label}
+                            </Option>
+                          ))}
+                        </Select>
                       </Form.Item>
                     </Col>
-                    <Col span={12}>
+                    <Col span={16}>
                       <Form.Item
-                        {...restField}
-                        name={[name, "value"]}
-                        style={{ marginBottom: 8 }}
+                        noStyle
+                        dependencies={[["transformSteps", name, "type"]]}
                       >
-                        <Input placeholder="参数值" />
+                        {({ getFieldValue }) => {
+                          const stepType = getFieldValue([
+                            "transformSteps",
+                            name,
+                            "type",
+                          ]);
+                          if (stepType === "rename") {
+                            return (
+                              <Row gutter={8}>
+                                <Col span={12}>
+                                  <Form.Item
+                                    name={[name, "field"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="原字段" />
+                                  </Form.Item>
+                                </Col>
+                                <Col span={12}>
+                                  <Form.Item
+                                    name={[name, "to"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="新字段" />
+                                  </Form.Item>
+                                </Col>
+                              </Row>
+                            );
+                          }
+                          if (stepType === "drop") {
+                            return (
+                              <Form.Item
+                                name={[name, "fields"]}
+                                style={{ marginBottom: 8 }}
+                              >
+                                <Select
+                                  mode="tags"
+                                  placeholder="要删除的字段，回车确认"
+                                  open={false}
+                                />
+                              </Form.Item>
+                            );
+                          }
+                          if (stepType === "cast") {
+                            return (
+                              <Row gutter={8}>
+                                <Col span={9}>
+                                  <Form.Item
+                                    name={[name, "field"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="字段" />
+                                  </Form.Item>
+                                </Col>
+                                <Col span={7}>
+                                  <Form.Item
+                                    name={[name, "castType"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Select placeholder="目标类型">
+                                      <Option value="number">数值</Option>
+                                      <Option value="integer">整数</Option>
+                                      <Option value="boolean">布尔</Option>
+                                      <Option value="string">文本</Option>
+                                      <Option value="date">日期</Option>
+                                    </Select>
+                                  </Form.Item>
+                                </Col>
+                                <Col span={8}>
+                                  <Form.Item
+                                    name={[name, "format"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="日期格式 (如: DD/MM/YYYY)" />
+                                  </Form.Item>
+                                </Col>
+                              </Row>
+                            );
+                          }
+                          if (stepType === "compute") {
+                            return (
+                              <Row gutter={8}>
+                                <Col span={8}>
+                                  <Form.Item
+                                    name={[name, "field"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="结果字段" />
+                                  </Form.Item>
+                                </Col>
+                                <Col span={16}>
+                                  <Form.Item
+                                    name={[name, "expression"]}
+                                    style={{ marginBottom: 8 }}
+                                  >
+                                    <Input placeholder="表达式 (如: round(price * qty, 2))" />
+                                  </Form.Item>
+                                </Col>
+                              </Row>
+                            );
+                          }
+                          if (stepType === "filter") {
+                            return (
+                              <Form.Item
+                                name={[name, "expression"]}
+                                style={{ marginBottom: 8 }}
+                              >
+                                <Input placeholder="保留满足条件的记录 (如: status != 'deleted')" />
+                              </Form.Item>
+                            );
+                          }
+                          return null;
+                        }}
                       </Form.Item>
                     </Col>
                     <Col span={2}>
@@ -532,55 +1163,481 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
                     </Col>
                   </Row>
                 ))}
-                <Space direction="vertical" style={{ width: "100%" }}>
-                  <Button
-                    type="dashed"
-                    onClick={() => add({ key: "", value: "" })}
-                    icon={<PlusOutlined />}
-                    style={{ width: "100%" }}
-                  >
-                    添加查询参数
-                  </Button>
-                  <div style={{ fontSize: 12, color: "#999" }}>
-                    <Text type="secondary">
-                      常用参数：page (页码)、size/limit (每页数量)、sort (排序)
-                    </Text>
-                  </div>
-                </Space>
+                <Button
+                  type="dashed"
+                  onClick={() => add({ type: "rename" })}
+                  icon={<PlusOutlined />}
+                  style={{ width: "100%" }}
+                >
+                  添加转换步骤
+                </Button>
               </>
             )}
           </Form.List>
         </Form.Item>
 
+        {!isSql && (
+          <>
+            {/* 请求头配置 */}
+            <Form.Item
+              label={
+                <span>
+                  请求头
+                  <Tooltip title="设置API请求需要的HTTP头部信息，如认证token、内容类型等。凭据建议使用 {{secret:名称}} 引用密钥，避免明文保存">
+                    <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
+                  </Tooltip>
+                </span>
+              }
+            >
+              <Form.List name="headers">
+                {(fields, { add, remove }) => (
+                  <>
+                    {fields.map(({ key, name, ...restField }) => (
+                      <Row key={key} gutter={8} align="middle">
+                        <Col span={10}>
+                          <Form.Item
+                            {...restField}
+                            name={[name, "key"]}
+                            style={{ marginBottom: 8 }}
+                          >
+                            <Input placeholder="请求头名称 (如: Authorization)" />
+                          </Form.Item>
+                        </Col>
+                        <Col span={12}>
+                          <Form.Item
+                            {...restField}
+                            name={[name, "value"]}
+                            style={{ marginBottom: 8 }}
+                          >
+                            <Input placeholder="请求头值" />
+                          </Form.Item>
+                        </Col>
+                        <Col span={2}>
+                          <Button
+                            type="text"
+                            icon={<DeleteOutlined />}
+                            onClick={() => remove(name)}
+                            danger
+                            size="small"
+                          />
+                        </Col>
+                      </Row>
+                    ))}
+                    <Space direction="vertical" style={{ width: "100%" }}>
+                      <Button
+                        type="dashed"
+                        onClick={() => add({ key: "", value: "" })}
+                        icon={<PlusOutlined />}
+                        style={{ width: "100%" }}
+                      >
+                        添加请求头
+                      </Button>
+                      <div style={{ fontSize: 12, color: "#999" }}>
+                        <Text type="secondary">
+                          常用请求头：Authorization (认证)、Content-Type
+                          (内容类型)、X-API-Key (API密钥)
+                        </Text>
+                      </div>
+                    </Space>
+                  </>
+                )}
+              </Form.List>
+            </Form.Item>
+
+            {/* 查询参数配置 */}
+            <Form.Item
+              label={
+                <span>
+                  查询参数
+                  <Tooltip title="设置URL查询参数，如分页参数、筛选条件等">
+                    <InfoCircleOutlined style={{ marginLeft: 4, color: "#999" }} />
+                  </Tooltip>
+                </span>
+              }
+            >
+              <Form.List name="queryParams">
+                {(fields, { add, remove }) => (
+                  <>
+                    {fields.map(({ key, name, ...restField }) => (
+                      <Row key={key} gutter={8} align="middle">
+                        <Col span={10}>
+                          <Form.Item
+                            {...restField}
+                            name={[name, "key"]}
+                            style={{ marginBottom: 8 }}
+                          >
+                            <Input placeholder="参数名称 (如: page)" />
+                          </Form.Item>
+                        </Col>
+                        <Col span={12}>
+                          <Form.Item
+                            {...restField}
+                            name={[name, "value"]}
+                            style={{ marginBottom: 8 }}
+                          >
+                            <Input placeholder="参数值" />
+                          </Form.Item>
+                        </Col>
+                        <Col span={2}>
+                          <Button
+                            type="text"
+                            icon={<DeleteOutlined />}
+                            onClick={() => remove(name)}
+                            danger
+                            size="small"
+                          />
+                        </Col>
+                      </Row>
+                    ))}
+                    <Space direction="vertical" style={{ width: "100%" }}>
+                      <Button
+                        type="dashed"
+                        onClick={() => add({ key: "", value: "" })}
+                        icon={<PlusOutlined />}
+                        style={{ width: "100%" }}
+                      >
+                        添加查询参数
+                      </Button>
+                      <div style={{ fontSize: 12, color: "#999" }}>
+                        <Text type="secondary">
+                          常用参数：page (页码)、size/limit (每页数量)、sort (排序)
+                        </Text>
+                      </div>
+                    </Space>
+                  </>
+                )}
+              </Form.List>
+            </Form.Item>
+
+            <Divider />
+
+            {/* 认证方式 */}
+            <Title level={5}>
+              认证方式
+              <Tooltip title="凭据可以填写 {{secret:名称}} 引用密钥。OAuth2 客户端凭据模式会自动获取并缓存访问令牌，到期前自动刷新，收到401时刷新令牌后重试一次">
+                <InfoCircleOutlined
+                  style={{ marginLeft: 8, fontSize: 14, color: "#999" }}
+                />
+              </Tooltip>
+            </Title>
+
+            <Row gutter={16}>
+              <Col span={8}>
+                <Form.Item label="认证类型" name={["auth", "type"]}>
+                  <Select disabled={disabled}>
+                    <Option value="none">无</Option>
+                    <Option value="basic">Basic</Option>
+                    <Option value="bearer">Bearer Token</Option>
+                    <Option value="api_key">API Key</Option>
+                    <Option value="oauth2_client_credentials">
+                      OAuth2 客户端凭据
+                    </Option>
+                  </Select>
+                </Form.Item>
+              </Col>
+              {authType === "basic" && (
+                <>
+                  <Col span={8}>
+                    <Form.Item label="用户名" name={["auth", "username"]}>
+                      <Input placeholder="用户名" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={8}>
+                    <Form.Item label="密码" name={["auth", "password"]}>
+                      <Input.Password placeholder="密码或 {{secret:名称}}" />
+                    </Form.Item>
+                  </Col>
+                </>
+              )}
+              {authType === "bearer" && (
+                <Col span={16}>
+                  <Form.Item label="Token" name={["auth", "token"]}>
+                    <Input.Password placeholder="访问令牌或 {{secret:名称}}" />
+                  </Form.Item>
+                </Col>
+              )}
+              {authType === "api_key" && (
+                <>
+                  <Col span={5}>
+                    <Form.Item label="参数名" name={["auth", "apiKeyName"]}>
+                      <Input placeholder="X-API-Key" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={5}>
+                    <Form.Item
+                      label="位置"
+                      name={["auth", "apiKeyLocation"]}
+                      initialValue="header"
+                    >
+                      <Select>
+                        <Option value="header">请求头</Option>
+                        <Option value="query">查询参数</Option>
+                      </Select>
+                    </Form.Item>
+                  </Col>
+                  <Col span={6}>
+                    <Form.Item label="API Key" name={["auth", "apiKey"]}>
+                      <Input.Password placeholder="{{secret:名称}}" />
+                    </Form.Item>
+                  </Col>
+                </>
+              )}
+              {authType === "oauth2_client_credentials" && (
+                <Col span={16}>
+                  <Form.Item
+                    label="令牌地址"
+                    name={["auth", "tokenUrl"]}
+                    rules={[{ required: true, message: "请输入令牌地址" }]}
+                  >
+                    <Input placeholder="https://auth.example.com/oauth/token" />
+                  </Form.Item>
+                </Col>
+              )}
+            </Row>
+
+            {authType === "oauth2_client_credentials" && (
+              <Row gutter={16}>
+                <Col span={6}>
+                  <Form.Item
+                    label="Client ID"
+                    name={["auth", "clientId"]}
+                    rules={[{ required: true, message: "请输入 Client ID" }]}
+                  >
+                    <Input />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item label="Client Secret" name={["auth", "clientSecret"]}>
+                    <Input.Password placeholder="{{secret:名称}}" />
+                  </Form.Item>
+                </Col>
+                <Col span={4}>
+                  <Form.Item label="Scope" name={["auth", "scope"]}>
+                    <Input />
+                  </Form.Item>
+                </Col>
+                <Col span={4}>
+                  <Form.Item label="Audience" name={["auth", "audience"]}>
+                    <Input />
+                  </Form.Item>
+                </Col>
+                <Col span={4}>
+                  <Form.Item
+                    label="凭据位置"
+                    name={["auth", "clientAuthMethod"]}
+                    initialValue="body"
+                  >
+                    <Select>
+                      <Option value="body">表单</Option>
+                      <Option value="basic">Basic 头</Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+              </Row>
+            )}
+          </>
+        )}
+
         <Divider />
 
-        {/* 拉取模式 */}
+        {/* 请求变量 */}
         <Title level={5}>
-          拉取模式
-          <Tooltip title="选择数据拉取方式：分页拉取可以精确控制拉取范围，全部拉取会自动获取所有可用数据">
+          请求变量
+          <Tooltip title="URL、请求头、查询参数、请求体和 SQL 查询参数中可以使用模板变量，每次请求时求值：{{now}}、{{today-1d}}、{{timestamp}}、{{page}}、{{pageSize}}、{{offset}}、{{env.FETCH_XXX}}，以及下方定义的会话变量 {{var.名称}}。时间变量支持 |YYYY-MM-DD、|unix 等格式">
             <InfoCircleOutlined
               style={{ marginLeft: 8, fontSize: 14, color: "#999" }}
             />
           </Tooltip>
         </Title>
 
-        <Form.Item name="enablePagination">
-          <FetchModeSelector
-            value={enablePagination}
-            onChange={setEnablePagination}
-            pageField={pageField}
-            onPageFieldChange={setPageField}
-            totalField={totalField}
-            onTotalFieldChange={setTotalField}
-            paginationType={paginationType}
-            onPaginationTypeChange={setPaginationType}
-            stepSize={stepSize}
-            onStepSizeChange={setStepSize}
-            suggestedPageFields={suggestedPageFields}
-            suggestedTotalFields={suggestedTotalFields}
-            disabled={disabled || loading}
+        <Form.List name="variables">
+          {(fields, { add, remove }) => (
+            <>
+              {fields.map(({ key, name, ...restField }) => (
+                <Row key={key} gutter={8} align="middle">
+                  <Col span={10}>
+                    <Form.Item
+                      {...restField}
+                      name={[name, "key"]}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <Input placeholder="变量名称 (如: since)" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={12}>
+                    <Form.Item
+                      {...restField}
+                      name={[name, "value"]}
+                      style={{ marginBottom: 8 }}
+                    >
+                      <Input placeholder="变量值，可使用模板，如 {{today-7d}}" />
+                    </Form.Item>
+                  </Col>
+                  <Col span={2}>
+                    <Button
+                      type="text"
+                      icon={<DeleteOutlined />}
+                      onClick={() => remove(name)}
+                      danger
+                      size="small"
+                    />
+                  </Col>
+                </Row>
+              ))}
+              <Row gutter={8}>
+                <Col span={isSql ? 24 : 16}>
+                  <Button
+                    type="dashed"
+                    onClick={() => add({ key: "", value: "" })}
+                    icon={<PlusOutlined />}
+                    style={{ width: "100%" }}
+                  >
+                    添加变量
+                  </Button>
+                </Col>
+                {!isSql && (
+                  <Col span={8}>
+                    <Button
+                      icon={<EyeOutlined />}
+                      loading={previewLoading}
+                      disabled={disabled}
+                      onClick={handlePreviewTemplate}
+                      style={{ width: "100%" }}
+                    >
+                      预览请求
+                    </Button>
+                  </Col>
+                )}
+              </Row>
+            </>
+          )}
+        </Form.List>
+
+        {templatePreview && (
+          <Alert
+            type="info"
+            closable
+            onClose={() => setTemplatePreview(null)}
+            message="渲染后的第1页请求"
+            description={
+              <pre style={{ margin: 0, whiteSpace: "pre-wrap", fontSize: 12 }}>
+                {JSON.stringify(templatePreview, null, 2)}
+              </pre>
+            }
+            style={{ marginTop: 12 }}
           />
-        </Form.Item>
+        )}
+
+        {!isSql && (
+          <>
+            <Divider />
+
+            {/* 拉取模式 */}
+            <Title level={5}>
+              拉取模式
+              <Tooltip title="选择数据拉取方式：分页拉取可以精确控制拉取范围，全部拉取会自动获取所有可用数据">
+                <InfoCircleOutlined
+                  style={{ marginLeft: 8, fontSize: 14, color: "#999" }}
+                />
+              </Tooltip>
+            </Title>
+
+            <Form.Item name="enablePagination">
+              <FetchModeSelector
+                value={enablePagination}
+                onChange={setEnablePagination}
+                pageField={pageField}
+                onPageFieldChange={setPageField}
+                totalField={totalField}
+                onTotalFieldChange={setTotalField}
+                paginationType={paginationType}
+                onPaginationTypeChange={setPaginationType}
+                stepSize={stepSize}
+                onStepSizeChange={setStepSize}
+                suggestedPageFields={suggestedPageFields}
+                suggestedTotalFields={suggestedTotalFields}
+                suggestedCursorPaths={suggestedCursorPaths}
+                disabled={disabled || loading}
+              />
+            </Form.Item>
+
+            <Divider />
+
+            {/* 请求限流 */}
+            <Title level={5}>
+              请求限流
+              <Tooltip title="限制对上游API的请求频率。冒烟测试和正式拉取都会遵循该策略；遇到429/503时优先按响应头 Retry-After 等待后重试，否则按指数退避重试">
+                <InfoCircleOutlined
+                  style={{ marginLeft: 8, fontSize: 14, color: "#999" }}
+                />
+              </Tooltip>
+            </Title>
+
+            <Row gutter={16}>
+              <Col span={5}>
+                <Form.Item
+                  label="每秒请求数"
+                  name={["rateLimit", "requestsPerSecond"]}
+                >
+                  <InputNumber
+                    min={0.01}
+                    step={0.5}
+                    placeholder="不限制"
+                    style={{ width: "100%" }}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={5}>
+                <Form.Item label="最大并发" name={["rateLimit", "maxConcurrency"]}>
+                  <InputNumber
+                    min={1}
+                    max={50}
+                    precision={0}
+                    placeholder="4"
+                    style={{ width: "100%" }}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={4}>
+                <Form.Item label="最大重试" name={["rateLimit", "maxRetries"]}>
+                  <InputNumber
+                    min={0}
+                    max={10}
+                    precision={0}
+                    placeholder="2"
+                    style={{ width: "100%" }}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={5}>
+                <Form.Item
+                  label="初始退避(ms)"
+                  name={["rateLimit", "initialBackoffMs"]}
+                >
+                  <InputNumber
+                    min={0}
+                    precision={0}
+                    placeholder="1000"
+                    style={{ width: "100%" }}
+                  />
+                </Form.Item>
+              </Col>
+              <Col span={5}>
+                <Form.Item
+                  label="最长等待(ms)"
+                  name={["rateLimit", "maxBackoffMs"]}
+                >
+                  <InputNumber
+                    min={0}
+                    precision={0}
+                    placeholder="60000"
+                    style={{ width: "100%" }}
+                  />
+                </Form.Item>
+              </Col>
+            </Row>
+          </>
+        )}
 
         {/* 验证错误显示 */}
         {validationErrors.length > 0 && (
@@ -616,49 +1673,28 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
         {/* 操作按钮 */}
         <Row gutter={16}>
           <Col span={8}>
-            <SmokeTestButton
-              {...getCurrentConfig()}
-              onTestComplete={handleSmokeTestComplete}
-              disabled={!formValid || loading}
-              style={{ width: "100%" }}
-            />
+            {isSql ? (
+              <SqlPreviewButton
+                {...buildSubmitConfig()}
+                onTestComplete={handleSmokeTestComplete}
+                disabled={!formValid || loading}
+                style={{ width: "100%" }}
+              />
+            ) : (
+              <SmokeTestButton
+                {...getCurrentConfig()}
+                onTestComplete={handleSmokeTestComplete}
+                disabled={!formValid || loading}
+                style={{ width: "100%" }}
+              />
+            )}
           </Col>
           <Col span={8}>
             <Tooltip title={!formValid ? "请先完成配置验证" : ""}>
               <Button
                 disabled={!formValid || loading}
                 onClick={() => {
-                  const values = form.getFieldsValue();
-                  const config: FetchConfig = {
-                    apiUrl: values.apiUrl,
-                    headers: {},
-                    queryParams: {},
-                    enablePagination: values.enablePagination,
-                    pageField: values.pageField,
-                    totalField: values.totalField,
-                    pageSize: values.pageSize,
-                    stepSize: values.stepSize,
-                    name: values.name,
-                    dataPath: values.dataPath,
-                  };
-
-                  // 处理请求头
-                  if (values.headers && Array.isArray(values.headers)) {
-                    values.headers.forEach((header: any) => {
-                      if (header?.key && header?.value) {
-                        config.headers[header.key] = header.value;
-                      }
-                    });
-                  }
-
-                  // 处理查询参数
-                  if (values.queryParams && Array.isArray(values.queryParams)) {
-                    values.queryParams.forEach((param: any) => {
-                      if (param?.key && param?.value) {
-                        config.queryParams![param.key] = param.value;
-                      }
-                    });
-                  }
+                  const config = buildSubmitConfig();
 
                   onSaveConfig?.(config);
                   message.success("配置已保存");
@@ -676,38 +1712,7 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
                 disabled={!formValid || loading}
                 loading={loading}
                 onClick={() => {
-                  const values = form.getFieldsValue();
-                  const config: FetchConfig = {
-                    apiUrl: values.apiUrl,
-                    headers: {},
-                    queryParams: {},
-                    enablePagination: values.enablePagination,
-                    paginationType: values.paginationType || paginationType,
-                    pageField: values.pageField,
-                    totalField: values.totalField,
-                    pageSize: values.pageSize,
-                    stepSize: values.stepSize,
-                    name: values.name,
-                    dataPath: values.dataPath,
-                  };
-
-                  // 处理请求头
-                  if (values.headers && Array.isArray(values.headers)) {
-                    values.headers.forEach((header: any) => {
-                      if (header?.key && header?.value) {
-                        config.headers[header.key] = header.value;
-                      }
-                    });
-                  }
-
-                  // 处理查询参数
-                  if (values.queryParams && Array.isArray(values.queryParams)) {
-                    values.queryParams.forEach((param: any) => {
-                      if (param?.key && param?.value) {
-                        config.queryParams![param.key] = param.value;
-                      }
-                    });
-                  }
+                  const config = buildSubmitConfig();
 
                   onStartFetch?.(config);
                 }}
@@ -726,6 +1731,11 @@ const FetchConfigForm: React.FC<FetchConfigFormProps> = ({
         onClose={() => setCurlModalVisible(false)}
         onParsed={handleCurlParsed}
       />
+
+      <SecretManagerModal
+        visible={secretModalVisible}
+        onClose={() => setSecretModalVisible(false)}
+      />
     </Card>
   );
 };
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 import {
   Card,
   Typography,
@@ -20,7 +20,7 @@ import {
 import FetchConfigForm from "./FetchConfigForm";
 import DataPreview from "./DataPreview";
 import FetchedDataPreview from "./FetchedDataPreview";
-import { FetchConfig, SmokeTestResponse } from "../../types";
+import { FetchConfig, SmokeTestResponse, TransformStep } from "../../types";
 
 const { Title, Text } = Typography;
 
@@ -60,13 +60,22 @@ export const FetchConfigWrapper: React.FC<FetchConfigWrapperProps> = ({
   onEnterDataAnalysis,
   sessionId,
 }) => {
+  const [transformSteps, setTransformSteps] = useState<TransformStep[] | undefined>(
+    initialValues?.transformSteps
+  );
+
+  const handleConfigChange = (config: FetchConfig) => {
+    setTransformSteps(config.transformSteps);
+    onConfigChange?.(config);
+  };
+
   return (
     <div className="fetch-config-wrapper">
       <Row gutter={16}>
         <Col xs={24} lg={10}>
           <FetchConfigForm
             initialValues={initialValues}
-            onConfigChange={onConfigChange}
+            onConfigChange={handleConfigChange}
             onSmokeTestComplete={onSmokeTestComplete}
             onStartFetch={onStartFetch}
             onSaveConfig={onSaveConfig}
@@ -181,7 +190,20 @@ export const FetchConfigWrapper: React.FC<FetchConfigWrapperProps> = ({
           {fetchStatus?.status === "completed" && sessionId ? (
             <FetchedDataPreview sessionId={sessionId} height={500} />
           ) : (
-            <DataPreview testResult={smokeTestResult || undefined} />
+            <>
+              <DataPreview testResult={smokeTestResult || undefined} />
+              {/* 冒烟测试样本的转换预览 */}
+              {smokeTestResult?.success &&
+                smokeTestResult.data?.length > 0 &&
+                transformSteps && (
+                  <div style={{ marginTop: 16 }}>
+                    <FetchedDataPreview
+                      sampleData={smokeTestResult.data}
+                      transformSteps={transformSteps}
+                    />
+                  </div>
+                )}
+            </>
           )}
         </Col>
       </Row>
@@ -9,6 +9,8 @@ import {
   Form,
   Select,
   Space,
+  Input,
+  AutoComplete,
 } from "antd";
 import {
   InfoCircleOutlined,
@@ -32,6 +34,7 @@ interface FetchModeSelectorProps {
   paginationType?: string;
   onStepSizeChange?: (stepSize: number) => void;
   stepSize?: number;
+  suggestedCursorPaths?: string[]; // 建议的游标路径
 }
 
 const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
@@ -48,8 +51,14 @@ const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
   paginationType = "page",
   onStepSizeChange,
   stepSize = 20,
+  suggestedCursorPaths = [],
 }) => {
   const [enablePagination, setEnablePagination] = useState(value);
+  // 游标/下一页链接/Relay 方式不需要分页字段，由响应中的令牌驱动翻页
+  const isTokenPagination =
+    paginationType === "cursor" ||
+    paginationType === "next_url" ||
+    paginationType === "relay";
 
   // 常见的分页字段名
   const commonPageFields = [
@@ -141,7 +150,7 @@ const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
                 label={
                   <span>
                     分页方式
-                    <Tooltip title="选择分页方式：页码方式传递页码和每页数量，索引方式传递开始索引和每页数量">
+                    <Tooltip title="选择分页方式：页码方式传递页码和每页数量，索引方式传递开始索引和每页数量，游标方式从响应中读取游标传给下一次请求，下一页链接方式直接请求响应中返回的URL，Relay 方式读取 pageInfo 中的 endCursor 和 hasNextPage">
                       <InfoCircleOutlined
                         style={{ marginLeft: 4, color: "#999" }}
                       />
@@ -157,6 +166,9 @@ const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
                 >
                   <Option value="page">页码方式</Option>
                   <Option value="offset">索引方式</Option>
+                  <Option value="cursor">游标方式</Option>
+                  <Option value="next_url">下一页链接</Option>
+                  <Option value="relay">Relay (pageInfo)</Option>
                 </Select>
               </Form.Item>
             </Col>
@@ -187,124 +199,263 @@ const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
                 </Form.Item>
               </Col>
             )}
-            <Col span={paginationType === "offset" ? 6 : 9}>
+            {isTokenPagination && (
+              <Col span={paginationType === "next_url" ? 18 : 6}>
+                <Form.Item
+                  label={
+                    <span>
+                      {paginationType === "cursor"
+                        ? "游标路径"
+                        : paginationType === "relay"
+                          ? "pageInfo 路径"
+                          : "链接路径"}
+                      <Tooltip
+                        title={
+                          paginationType === "relay"
+                            ? "pageInfo 对象在响应中的位置，如 'data.users.pageInfo'；不填写时使用响应中找到的第一个 pageInfo，hasNextPage 为 false 时停止拉取"
+                            : "下一页游标或链接在响应中的位置，支持JSONPath，如 '$.meta.next_cursor' 或 'links.next'；读取不到时停止拉取"
+                        }
+                      >
+                        <InfoCircleOutlined
+                          style={{ marginLeft: 4, color: "#999" }}
+                        />
+                      </Tooltip>
+                    </span>
+                  }
+                  name="cursorPath"
+                  rules={[
+                    {
+                      required: enablePagination && paginationType !== "relay",
+                      message: "请填写游标在响应中的路径",
+                    },
+                  ]}
+                >
+                  <AutoComplete
+                    placeholder={
+                      paginationType === "relay"
+                        ? "如: data.users.pageInfo"
+                        : "如: meta.next_cursor"
+                    }
+                    disabled={disabled}
+                    options={suggestedCursorPaths.map(path => ({
+                      label: path,
+                      value: path,
+                    }))}
+                  />
+                </Form.Item>
+              </Col>
+            )}
+            {(paginationType === "cursor" || paginationType === "relay") && (
+              <>
+                <Col span={6}>
+                  <Form.Item
+                    label={
+                      <span>
+                        游标参数名
+                        <Tooltip title="下一次请求中携带游标的字段名，请求体字段支持点号路径，如 'paging.after'；GraphQL 数据源写入 variables">
+                          <InfoCircleOutlined
+                            style={{ marginLeft: 4, color: "#999" }}
+                          />
+                        </Tooltip>
+                      </span>
+                    }
+                    name="cursorParam"
+                  >
+                    <Input
+                      placeholder={paginationType === "relay" ? "after" : "cursor"}
+                      disabled={disabled}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={6}>
+                  <Form.Item
+                    label="游标位置"
+                    name="cursorLocation"
+                    initialValue="query"
+                  >
+                    <Select disabled={disabled}>
+                      <Option value="query">查询参数</Option>
+                      <Option value="body">请求体</Option>
+                    </Select>
+                  </Form.Item>
+                </Col>
+              </>
+            )}
+            {!isTokenPagination && (
+              <Col span={paginationType === "offset" ? 6 : 9}>
+                <Form.Item
+                  label={
+                    <span>
+                      分页字段
+                      <Tooltip title="选择API中用于表示当前页码或索引的字段名，如 'page', 'offset' 等">
+                        <InfoCircleOutlined
+                          style={{ marginLeft: 4, color: "#999" }}
+                        />
+                      </Tooltip>
+                    </span>
+                  }
+                  name="pageField"
+                  rules={[
+                    {
+                      required: enablePagination && !isTokenPagination,
+                      message: "启用分页时必须选择分页字段",
+                    },
+                  ]}
+                >
+                  <Select
+                    placeholder="选择或输入分页字段名"
+                    value={pageField}
+                    onChange={handlePageFieldChange}
+                    disabled={disabled}
+                    showSearch
+                    allowClear
+                    optionFilterProp="children"
+                  >
+                    {suggestedPageFields.length > 0 && (
+                      <Option disabled key="suggested-header">
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          — 从API中检测到的字段 —
+                        </Text>
+                      </Option>
+                    )}
+                    {suggestedPageFields.map(field => (
+                      <Option key={`suggested-${field}`} value={field}>
+                        <Text strong>{field}</Text>
+                        <Text
+                          type="secondary"
+                          style={{ marginLeft: 8, fontSize: 12 }}
+                        >
+                          (检测到)
+                        </Text>
+                      </Option>
+                    ))}
+
+                    {commonPageFields.length > 0 && (
+                      <Option disabled key="common-header">
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          — 常见分页字段 —
+                        </Text>
+                      </Option>
+                    )}
+                    {commonPageFields.map(field => (
+                      <Option key={`common-${field}`} value={field}>
+                        {field}
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              </Col>
+            )}
+            {!isTokenPagination && (
+              <Col span={paginationType === "offset" ? 6 : 9}>
+                <Form.Item
+                  label={
+                    <span>
+                      总数字段 (可选)
+                      <Tooltip title="选择API响应中表示总记录数的字段名，用于显示拉取进度，如 'total', 'totalCount' 等">
+                        <InfoCircleOutlined
+                          style={{ marginLeft: 4, color: "#999" }}
+                        />
+                      </Tooltip>
+                    </span>
+                  }
+                  name="totalField"
+                >
+                  <Select
+                    placeholder="选择或输入总数字段名"
+                    value={totalField}
+                    onChange={handleTotalFieldChange}
+                    disabled={disabled}
+                    showSearch
+                    allowClear
+                    optionFilterProp="children"
+                  >
+                    {suggestedTotalFields && suggestedTotalFields.length > 0 && (
+                      <Option disabled key="suggested-total-header">
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          — 从API中检测到的字段 —
+                        </Text>
+                      </Option>
+                    )}
+                    {suggestedTotalFields?.map(field => (
+                      <Option key={`suggested-total-${field}`} value={field}>
+                        <Text strong>{field}</Text>
+                        <Text
+                          type="secondary"
+                          style={{ marginLeft: 8, fontSize: 12 }}
+                        >
+                          (检测到)
+                        </Text>
+                      </Option>
+                    ))}
+
+                    {commonTotalFields.length > 0 && (
+                      <Option disabled key="common-total-header">
+                        <Text type="secondary" style={{ fontSize: 12 }}>
+                          — 常见总数字段 —
+                        </Text>
+                      </Option>
+                    )}
+                    {commonTotalFields.map(field => (
+                      <Option key={`common-total-${field}`} value={field}>
+                        {field}
+                      </Option>
+                    ))}
+                  </Select>
+                </Form.Item>
+              </Col>
+            )}
+          </Row>
+
+          <Row gutter={16} align="middle">
+            <Col span={6}>
               <Form.Item
                 label={
                   <span>
-                    分页字段
-                    <Tooltip title="选择API中用于表示当前页码或索引的字段名，如 'page', 'offset' 等">
+                    增量拉取
+                    <Tooltip title="开启后，当一整页数据均已存在（或水位字段低于已存储的最大值）时停止翻页，适合定时刷新大数据量接口">
                       <InfoCircleOutlined
                         style={{ marginLeft: 4, color: "#999" }}
                       />
                     </Tooltip>
                   </span>
                 }
-                name="pageField"
-                rules={[
-                  {
-                    required: enablePagination,
-                    message: "启用分页时必须选择分页字段",
-                  },
-                ]}
+                name="incrementalMode"
+                valuePropName="checked"
               >
-                <Select
-                  placeholder="选择或输入分页字段名"
-                  value={pageField}
-                  onChange={handlePageFieldChange}
-                  disabled={disabled}
-                  showSearch
-                  allowClear
-                  optionFilterProp="children"
-                >
-                  {suggestedPageFields.length > 0 && (
-                    <Option disabled key="suggested-header">
-                      <Text type="secondary" style={{ fontSize: 12 }}>
-                        — 从API中检测到的字段 —
-                      </Text>
-                    </Option>
-                  )}
-                  {suggestedPageFields.map(field => (
-                    <Option key={`suggested-${field}`} value={field}>
-                      <Text strong>{field}</Text>
-                      <Text
-                        type="secondary"
-                        style={{ marginLeft: 8, fontSize: 12 }}
-                      >
-                        (检测到)
-                      </Text>
-                    </Option>
-                  ))}
-
-                  {commonPageFields.length > 0 && (
-                    <Option disabled key="common-header">
-                      <Text type="secondary" style={{ fontSize: 12 }}>
-                        — 常见分页字段 —
-                      </Text>
-                    </Option>
-                  )}
-                  {commonPageFields.map(field => (
-                    <Option key={`common-${field}`} value={field}>
-                      {field}
-                    </Option>
-                  ))}
-                </Select>
+                <Switch disabled={disabled} />
               </Form.Item>
             </Col>
-            <Col span={paginationType === "offset" ? 6 : 9}>
+            <Col span={9}>
               <Form.Item
-                label={
-                  <span>
-                    总数字段 (可选)
-                    <Tooltip title="选择API响应中表示总记录数的字段名，用于显示拉取进度，如 'total', 'totalCount' 等">
-                      <InfoCircleOutlined
-                        style={{ marginLeft: 4, color: "#999" }}
-                      />
-                    </Tooltip>
-                  </span>
+                noStyle
+                shouldUpdate={(prev, next) =>
+                  prev.incrementalMode !== next.incrementalMode
                 }
-                name="totalField"
               >
-                <Select
-                  placeholder="选择或输入总数字段名"
-                  value={totalField}
-                  onChange={handleTotalFieldChange}
-                  disabled={disabled}
-                  showSearch
-                  allowClear
-                  optionFilterProp="children"
-                >
-                  {suggestedTotalFields && suggestedTotalFields.length > 0 && (
-                    <Option disabled key="suggested-total-header">
-                      <Text type="secondary" style={{ fontSize: 12 }}>
-                        — 从API中检测到的字段 —
-                      </Text>
-                    </Option>
-                  )}
-                  {suggestedTotalFields?.map(field => (
-                    <Option key={`suggested-total-${field}`} value={field}>
-                      <Text strong>{field}</Text>
-                      <Text
-                        type="secondary"
-                        style={{ marginLeft: 8, fontSize: 12 }}
-                      >
-                        (检测到)
-                      </Text>
-                    </Option>
-                  ))}
-
-                  {commonTotalFields.length > 0 && (
-                    <Option disabled key="common-total-header">
-                      <Text type="secondary" style={{ fontSize: 12 }}>
-                        — 常见总数字段 —
-                      </Text>
-                    </Option>
-                  )}
-                  {commonTotalFields.map(field => (
-                    <Option key={`common-total-${field}`} value={field}>
-                      {field}
-                    </Option>
-                  ))}
-                </Select>
+                {({ getFieldValue }) =>
+                  getFieldValue("incrementalMode") && (
+                    <Form.Item
+                      label={
+                        <span>
+                          水位字段 (可选)
+                          <Tooltip title="按时间或自增ID倒序返回的接口可指定水位字段，如 'updated_at'，遇到小于已存储最大值的记录即停止；不填则按整页重复判断">
+                            <InfoCircleOutlined
+                              style={{ marginLeft: 4, color: "#999" }}
+                            />
+                          </Tooltip>
+                        </span>
+                      }
+                      name="watermarkField"
+                    >
+                      <Input
+                        placeholder="如: updated_at"
+                        disabled={disabled}
+                        allowClear
+                      />
+                    </Form.Item>
+                  )
+                }
               </Form.Item>
             </Col>
           </Row>
@@ -312,7 +463,9 @@ const FetchModeSelector: React.FC<FetchModeSelectorProps> = ({
           <div style={{ marginTop: 8 }}>
             <Text type="secondary" style={{ fontSize: 12 }}>
               <ExclamationCircleOutlined style={{ marginRight: 4 }} />
-              系统将使用指定的分页字段自动递增页码，从1开始拉取直到获取所有数据。如果指定了总数字段，将显示精确的拉取进度。
+              {isTokenPagination
+                ? "系统将从每页响应中读取下一页游标或链接继续拉取，直到响应中不再返回游标。"
+                : "系统将使用指定的分页字段自动递增页码，从1开始拉取直到获取所有数据。如果指定了总数字段，将显示精确的拉取进度。"}
             </Text>
           </div>
         </div>
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import { Card, Table, Tag, Typography, Button, Tooltip } from "antd";
+import { HistoryOutlined, ReloadOutlined } from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import api from "../../services/api";
+import { FetchRun, FetchRunPage, SchemaChange } from "../../types";
+
+const { Text } = Typography;
+
+interface FetchRunHistoryProps {
+  sessionId: string;
+  style?: React.CSSProperties;
+}
+
+const STATUS_MAP: Record<FetchRun["status"], { color: string; text: string }> = {
+  running: { color: "processing", text: "执行中" },
+  success: { color: "success", text: "成功" },
+  failed: { color: "error", text: "失败" },
+};
+
+const TRIGGER_MAP: Record<FetchRun["trigger"], string> = {
+  manual: "手动",
+  schedule: "定时",
+  upload: "上传",
+};
+
+const formatSchemaChange = (change: SchemaChange) =>
+  change.action === "add_column"
+    ? `新增字段 ${change.field}（${change.toType}）`
+    : `字段 ${change.field} 类型 ${change.fromType} → ${change.toType}`;
+
+const formatDuration = (run: FetchRun) => {
+  if (!run.finishedAt) return "-";
+  const seconds =
+    (new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) /
+    1000;
+  return `${seconds.toFixed(1)} 秒`;
+};
+
+const FetchRunHistory: React.FC<FetchRunHistoryProps> = ({
+  sessionId,
+  style,
+}) => {
+  const [runs, setRuns] = useState<FetchRun[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [pagesMap, setPagesMap] = useState<Record<string, FetchRunPage[]>>({});
+
+  // 加载运行记录
+  const loadRuns = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get(`/data-fetch/runs/${sessionId}`);
+      if (response.data.success) {
+        setRuns(response.data.data);
+      }
+    } catch (error: any) {
+      console.error("加载运行记录失败:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, [sessionId]);
+
+  // 展开时加载分页日志
+  const handleExpand = async (expanded: boolean, run: FetchRun) => {
+    if (!expanded || pagesMap[run.id]) return;
+
+    try {
+      const response = await api.get(`/data-fetch/runs/${sessionId}/${run.id}`);
+      if (response.data.success) {
+        setPagesMap((prev) => ({
+          ...prev,
+          [run.id]: response.data.data.pages || [],
+        }));
+      }
+    } catch (error: any) {
+      console.error("加载分页日志失败:", error);
+    }
+  };
+
+  const columns: ColumnsType<FetchRun> = [
+    {
+      title: "开始时间",
+      dataIndex: "startedAt",
+      render: (value: string) => new Date(value).toLocaleString(),
+    },
+    {
+      title: "触发方式",
+      dataIndex: "trigger",
+      render: (value: FetchRun["trigger"]) => TRIGGER_MAP[value] || value,
+    },
+    {
+      title: "状态",
+      dataIndex: "status",
+      render: (value: FetchRun["status"], record) => {
+        const tag = (
+          <Tag color={STATUS_MAP[value]?.color}>{STATUS_MAP[value]?.text}</Tag>
+        );
+        return record.errorMessage ? (
+          <Tooltip title={record.errorMessage}>{tag}</Tooltip>
+        ) : (
+          tag
+        );
+      },
+    },
+    { title: "页数", dataIndex: "pagesProcessed" },
+    { title: "新增记录", dataIndex: "recordsInserted" },
+    { title: "重复跳过", dataIndex: "duplicatesSkipped" },
+    { title: "总记录数", dataIndex: "totalRecords" },
+    {
+      title: "表结构",
+      dataIndex: "schemaChanges",
+      render: (changes?: SchemaChange[]) =>
+        changes && changes.length > 0 ? (
+          <Tooltip
+            title={changes.map((change) => (
+              <div key={`${change.action}-${change.field}`}>
+                {formatSchemaChange(change)}
+              </div>
+            ))}
+          >
+            <Tag color="warning">变更 {changes.length} 项</Tag>
+          </Tooltip>
+        ) : (
+          "-"
+        ),
+    },
+    { title: "耗时", key: "duration", render: (_, record) => formatDuration(record) },
+  ];
+
+  const pageColumns: ColumnsType<FetchRunPage> = [
+    { title: "页", dataIndex: "pageNumber", width: 60 },
+    {
+      title: "请求",
+      key: "request",
+      render: (_, page) => (
+        <Text style={{ fontSize: 12 }} ellipsis={{ tooltip: true }}>
+          {page.requestMethod} {page.requestUrl}{" "}
+          {page.requestParams && JSON.stringify(page.requestParams)}
+          {page.requestBody && ` ${page.requestBody}`}
+        </Text>
+      ),
+    },
+    {
+      title: "响应",
+      key: "response",
+      width: 160,
+      render: (_, page) =>
+        page.responseStatus ? (
+          <Tooltip title={page.responsePreview}>
+            <Tag color={page.responseStatus < 400 ? "green" : "red"}>
+              {page.responseStatus}
+            </Tag>
+            {page.durationMs !== undefined && `${page.durationMs}ms`}
+          </Tooltip>
+        ) : (
+          "-"
+        ),
+    },
+    { title: "返回", dataIndex: "recordsReceived", width: 70 },
+    { title: "新增", dataIndex: "recordsInserted", width: 70 },
+    { title: "重复", dataIndex: "duplicatesSkipped", width: 70 },
+    {
+      title: "错误",
+      dataIndex: "errorMessage",
+      render: (value?: string) => (value ? <Text type="danger">{value}</Text> : "-"),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <>
+          <HistoryOutlined /> 拉取记录
+        </>
+      }
+      extra={
+        <Button size="small" icon={<ReloadOutlined />} onClick={loadRuns}>
+          刷新
+        </Button>
+      }
+      style={style}
+    >
+      <Table<FetchRun>
+        rowKey="id"
+        size="small"
+        loading={loading}
+        columns={columns}
+        dataSource={runs}
+        pagination={{ pageSize: 5 }}
+        expandable={{
+          onExpand: handleExpand,
+          expandedRowRender: (run) => (
+            <Table<FetchRunPage>
+              rowKey="id"
+              size="small"
+              columns={pageColumns}
+              dataSource={pagesMap[run.id]}
+              loading={!pagesMap[run.id]}
+              pagination={false}
+            />
+          ),
+        }}
+      />
+    </Card>
+  );
+};
+
+export default FetchRunHistory;
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import {
+  Card,
+  Form,
+  Radio,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  Button,
+  Space,
+  Descriptions,
+  Tag,
+  Typography,
+  Popconfirm,
+  message,
+} from "antd";
+import { ClockCircleOutlined } from "@ant-design/icons";
+import api from "../../services/api";
+import { FetchSchedule, FetchRun } from "../../types";
+
+const { Text } = Typography;
+
+interface FetchScheduleCardProps {
+  sessionId: string;
+  style?: React.CSSProperties;
+}
+
+const TIMEZONE_OPTIONS = [
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Asia/Singapore",
+  "Europe/London",
+  "Europe/Berlin",
+  "America/New_York",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+const DEFAULT_SCHEDULE: FetchSchedule = {
+  scheduleType: "interval",
+  intervalMinutes: 60,
+  timezone: "Asia/Shanghai",
+  enabled: true,
+};
+
+const formatTime = (value?: string) =>
+  value ? new Date(value).toLocaleString() : "-";
+
+const FetchScheduleCard: React.FC<FetchScheduleCardProps> = ({
+  sessionId,
+  style,
+}) => {
+  const [form] = Form.useForm<FetchSchedule>();
+  const [schedule, setSchedule] = useState<FetchSchedule | null>(null);
+  const [lastRun, setLastRun] = useState<FetchRun | null>(null);
+  const [saving, setSaving] = useState(false);
+  const scheduleType = Form.useWatch("scheduleType", form);
+
+  // 加载定时计划
+  const loadSchedule = async () => {
+    try {
+      const response = await api.get(`/fetch-schedule/${sessionId}`);
+      if (response.data.success) {
+        const { schedule: current, lastRun: run } = response.data.data;
+        setSchedule(current);
+        setLastRun(run);
+        form.setFieldsValue(current || DEFAULT_SCHEDULE);
+      }
+    } catch (error: any) {
+      console.error("加载定时计划失败:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadSchedule();
+  }, [sessionId]);
+
+  // 保存定时计划
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    setSaving(true);
+    try {
+      const response = await api.put(`/fetch-schedule/${sessionId}`, values);
+      if (response.data.success) {
+        setSchedule(response.data.data);
+        message.success("定时计划已保存");
+      }
+    } catch (error: any) {
+      message.error(
+        `保存定时计划失败: ${error.response?.data?.message || error.message}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 删除定时计划
+  const handleDelete = async () => {
+    try {
+      await api.delete(`/fetch-schedule/${sessionId}`);
+      setSchedule(null);
+      form.setFieldsValue(DEFAULT_SCHEDULE);
+      message.success("定时计划已删除");
+    } catch (error: any) {
+      message.error(`删除定时计划失败: ${error.message}`);
+    }
+  };
+
+  const renderRunStatus = (run: FetchRun) => {
+    const statusMap: Record<FetchRun["status"], { color: string; text: string }> = {
+      running: { color: "processing", text: "执行中" },
+      success: { color: "success", text: "成功" },
+      failed: { color: "error", text: "失败" },
+    };
+    const config = statusMap[run.status];
+    return <Tag color={config.color}>{config.text}</Tag>;
+  };
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ClockCircleOutlined />
+          定时拉取
+        </Space>
+      }
+      style={style}
+    >
+      <Form form={form} layout="inline" initialValues={DEFAULT_SCHEDULE}>
+        <Form.Item name="scheduleType" label="方式">
+          <Radio.Group>
+            <Radio.Button value="interval">固定间隔</Radio.Button>
+            <Radio.Button value="cron">Cron</Radio.Button>
+          </Radio.Group>
+        </Form.Item>
+        {scheduleType === "cron" ? (
+          <Form.Item
+            name="cronExpression"
+            label="表达式"
+            rules={[{ required: true, message: "请输入cron表达式" }]}
+            tooltip="如 0 8 * * * 表示每天8点执行"
+          >
+            <Input placeholder="0 8 * * *" style={{ width: 160 }} />
+          </Form.Item>
+        ) : (
+          <Form.Item
+            name="intervalMinutes"
+            label="间隔"
+            rules={[{ required: true, message: "请输入间隔分钟数" }]}
+          >
+            <InputNumber min={1} addonAfter="分钟" style={{ width: 160 }} />
+          </Form.Item>
+        )}
+        <Form.Item name="timezone" label="时区">
+          <Select
+            style={{ width: 180 }}
+            options={TIMEZONE_OPTIONS.map((tz) => ({ label: tz, value: tz }))}
+          />
+        </Form.Item>
+        <Form.Item name="enabled" label="启用" valuePropName="checked">
+          <Switch />
+        </Form.Item>
+        <Form.Item>
+          <Space>
+            <Button type="primary" loading={saving} onClick={handleSave}>
+              保存
+            </Button>
+            {schedule && (
+              <Popconfirm title="确定删除定时计划吗？" onConfirm={handleDelete}>
+                <Button danger>删除</Button>
+              </Popconfirm>
+            )}
+          </Space>
+        </Form.Item>
+      </Form>
+
+      <Descriptions column={3} style={{ marginTop: 16 }}>
+        <Descriptions.Item label="下次执行">
+          {schedule?.enabled ? formatTime(schedule.nextRunAt) : "-"}
+        </Descriptions.Item>
+        <Descriptions.Item label="最近刷新">
+          {lastRun ? formatTime(lastRun.finishedAt || lastRun.startedAt) : "-"}
+        </Descriptions.Item>
+        <Descriptions.Item label="最近结果">
+          {lastRun ? (
+            <Space>
+              {renderRunStatus(lastRun)}
+              {lastRun.status === "failed" && lastRun.errorMessage && (
+                <Text type="danger">{lastRun.errorMessage}</Text>
+              )}
+            </Space>
+          ) : (
+            "-"
+          )}
+        </Descriptions.Item>
+      </Descriptions>
+    </Card>
+  );
+};
+
+export default FetchScheduleCard;
@@ -0,0 +1,408 @@
+import React, { useEffect, useState } from "react";
+import {
+  Card,
+  Table,
+  Tag,
+  Typography,
+  Button,
+  Space,
+  Modal,
+  Form,
+  Input,
+  Select,
+  Popconfirm,
+  Tooltip,
+  Upload,
+  message,
+} from "antd";
+import type { UploadFile } from "antd/es/upload/interface";
+import {
+  ApartmentOutlined,
+  PlusOutlined,
+  CloudDownloadOutlined,
+  UploadOutlined,
+} from "@ant-design/icons";
+import type { ColumnsType } from "antd/es/table";
+import api from "../../services/api";
+import { FetchConfig, FetchSource } from "../../types";
+
+const { Text } = Typography;
+
+interface FetchSourcesCardProps {
+  sessionId: string;
+  style?: React.CSSProperties;
+}
+
+const FetchSourcesCard: React.FC<FetchSourcesCardProps> = ({
+  sessionId,
+  style,
+}) => {
+  const [form] = Form.useForm<FetchConfig>();
+  const [sources, setSources] = useState<FetchSource[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [fetchingSource, setFetchingSource] = useState<string | null>(null);
+  const [uploadForm] = Form.useForm<{ sourceName: string; sheetName?: string }>();
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
+
+  // 加载数据源列表
+  const loadSources = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get(`/data-fetch/sources/${sessionId}`);
+      if (response.data.success) {
+        setSources(response.data.data);
+      }
+    } catch (error: any) {
+      console.error("加载数据源失败:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSources();
+  }, [sessionId]);
+
+  // 保存附加数据源
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    setSaving(true);
+    try {
+      const response = await api.post("/data-fetch/configure", {
+        ...values,
+        sessionId,
+        headers: {},
+        enablePagination: false,
+      });
+      if (response.data.success) {
+        message.success(`数据源 ${values.sourceName} 已保存`);
+        setModalOpen(false);
+        form.resetFields();
+        loadSources();
+      }
+    } catch (error: any) {
+      message.error(
+        `保存数据源失败: ${error.response?.data?.message || error.message}`
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 拉取单个数据源
+  const handleFetch = async (sourceName: string) => {
+    setFetchingSource(sourceName);
+    try {
+      const response = await api.post("/data-fetch/execute", {
+        sessionId,
+        sourceName,
+      });
+      if (response.data.success) {
+        message.success(response.data.message);
+      } else {
+        message.error(response.data.message);
+      }
+      loadSources();
+    } catch (error: any) {
+      message.error(`拉取失败: ${error.response?.data?.message || error.message}`);
+    } finally {
+      setFetchingSource(null);
+    }
+  };
+
+  // 打开上传文件弹窗，重新上传时带入数据源名称
+  const openUpload = (sourceName = "main") => {
+    uploadForm.setFieldsValue({ sourceName, sheetName: undefined });
+    setUploadFiles([]);
+    setUploadOpen(true);
+  };
+
+  // 上传 CSV、Excel 或 JSON 文件导入数据
+  const handleUpload = async () => {
+    const values = await uploadForm.validateFields();
+    const file = uploadFiles[0]?.originFileObj;
+    if (!file) {
+      message.warning("请选择要上传的文件");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("sessionId", sessionId);
+    formData.append("sourceName", values.sourceName);
+    if (values.sheetName) {
+      formData.append("sheetName", values.sheetName);
+    }
+
+    setUploading(true);
+    try {
+      const response = await api.post("/data-fetch/upload", formData, {
+        headers: { "Content-Type": "multipart/form-data" },
+        timeout: 0,
+      });
+      if (response.data.success) {
+        message.success(response.data.message);
+        setUploadOpen(false);
+      } else {
+        message.error(response.data.message);
+      }
+      loadSources();
+    } catch (error: any) {
+      message.error(`导入失败: ${error.response?.data?.message || error.message}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // 删除附加数据源
+  const handleDelete = async (sourceName: string) => {
+    try {
+      await api.delete(`/data-fetch/sources/${sessionId}/${sourceName}`);
+      message.success(`数据源 ${sourceName} 已删除`);
+      loadSources();
+    } catch (error: any) {
+      message.error(`删除数据源失败: ${error.response?.data?.message || error.message}`);
+    }
+  };
+
+  const columns: ColumnsType<FetchSource> = [
+    {
+      title: "名称",
+      dataIndex: "sourceName",
+      render: (value: string, record) => (
+        <Space size={4} wrap>
+          {value === "main" ? <Tag color="blue">main（主数据源）</Tag> : <Tag>{value}</Tag>}
+          {record.childSources?.map((child) => (
+            <Tooltip key={child} title={`由嵌套数组拆分出的子表，以 ${child}.字段名 引用`}>
+              <Tag color="purple">└ {child}</Tag>
+            </Tooltip>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: "来源",
+      dataIndex: "apiUrl",
+      render: (value: string, record) =>
+        record.sourceType === "file" ? (
+          <Space size={4}>
+            <Tag color="orange">文件</Tag>
+            <Text style={{ fontSize: 12 }} ellipsis={{ tooltip: true }}>
+              {record.fileName}
+            </Text>
+          </Space>
+        ) : record.sourceType === "sql" ? (
+          <Space size={4}>
+            <Tag color="cyan">SQL</Tag>
+            <Text style={{ fontSize: 12 }} ellipsis={{ tooltip: true }}>
+              {record.sqlConnection}
+            </Text>
+          </Space>
+        ) : (
+          <Text style={{ fontSize: 12 }} ellipsis={{ tooltip: true }}>
+            {value}
+          </Text>
+        ),
+    },
+    {
+      title: "关联键",
+      key: "join",
+      render: (_, record) =>
+        record.joinField ? (
+          <Text code>
+            {record.sourceName}.{record.joinField} = main.{record.primaryJoinField}
+          </Text>
+        ) : (
+          "-"
+        ),
+    },
+    {
+      title: "状态",
+      dataIndex: "hasData",
+      render: (value: boolean) =>
+        value ? <Tag color="success">已拉取</Tag> : <Tag>未拉取</Tag>,
+    },
+    {
+      title: "操作",
+      key: "actions",
+      render: (_, record) => (
+        <Space>
+          {record.sourceType === "file" ? (
+            <Button
+              size="small"
+              icon={<UploadOutlined />}
+              onClick={() => openUpload(record.sourceName)}
+            >
+              重新上传
+            </Button>
+          ) : (
+            <Button
+              size="small"
+              icon={<CloudDownloadOutlined />}
+              loading={fetchingSource === record.sourceName}
+              onClick={() => handleFetch(record.sourceName)}
+            >
+              拉取
+            </Button>
+          )}
+          {record.sourceName !== "main" && (
+            <Popconfirm
+              title="删除数据源会同时删除其已拉取的数据，确定删除？"
+              onConfirm={() => handleDelete(record.sourceName)}
+            >
+              <Button size="small" danger>
+                删除
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Card
+      title={
+        <Space>
+          <ApartmentOutlined />
+          数据源
+        </Space>
+      }
+      extra={
+        <Space>
+          <Button
+            size="small"
+            icon={<UploadOutlined />}
+            onClick={() => openUpload()}
+          >
+            上传文件
+          </Button>
+          <Button
+            size="small"
+            icon={<PlusOutlined />}
+            onClick={() => setModalOpen(true)}
+          >
+            添加数据源
+          </Button>
+        </Space>
+      }
+      style={style}
+    >
+      <Table
+        rowKey="sourceName"
+        size="small"
+        columns={columns}
+        dataSource={sources}
+        loading={loading}
+        pagination={false}
+      />
+
+      <Modal
+        title="添加数据源"
+        open={modalOpen}
+        onOk={handleSave}
+        onCancel={() => setModalOpen(false)}
+        confirmLoading={saving}
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical" initialValues={{ method: "GET" }}>
+          <Form.Item
+            name="sourceName"
+            label="数据源名称"
+            tooltip="查询和图表中以 数据源名称.字段名 引用该数据源的字段"
+            rules={[
+              { required: true, message: "请输入数据源名称" },
+              {
+                pattern: /^[a-z][a-z0-9_]{0,19}$/,
+                message: "只能包含小写字母、数字和下划线，以字母开头，最长20个字符",
+              },
+            ]}
+          >
+            <Input placeholder="orders" />
+          </Form.Item>
+          <Form.Item
+            name="apiUrl"
+            label="API地址"
+            rules={[{ required: true, message: "请输入API地址" }]}
+          >
+            <Input placeholder="https://api.example.com/orders" />
+          </Form.Item>
+          <Form.Item name="method" label="请求方法">
+            <Select
+              options={["GET", "POST"].map((method) => ({
+                label: method,
+                value: method,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item name="dataPath" label="数据路径">
+            <Input placeholder="data.list" />
+          </Form.Item>
+          <Space align="start">
+            <Form.Item
+              name="joinField"
+              label="本数据源关联字段"
+              rules={[{ required: true, message: "请输入关联字段" }]}
+            >
+              <Input placeholder="user_id" />
+            </Form.Item>
+            <Form.Item
+              name="primaryJoinField"
+              label="主数据源关联字段"
+              rules={[{ required: true, message: "请输入主数据源字段" }]}
+            >
+              <Input placeholder="id" />
+            </Form.Item>
+          </Space>
+        </Form>
+      </Modal>
+
+      <Modal
+        title="上传文件"
+        open={uploadOpen}
+        onOk={handleUpload}
+        onCancel={() => setUploadOpen(false)}
+        confirmLoading={uploading}
+        okText="导入"
+        destroyOnClose
+      >
+        <Form form={uploadForm} layout="vertical">
+          <Form.Item label="文件" required extra="支持 CSV、Excel(xlsx)、JSON 和 NDJSON，CSV 与 Excel 以首行作为字段名">
+            <Upload
+              accept=".csv,.tsv,.txt,.xlsx,.json,.ndjson,.jsonl"
+              maxCount={1}
+              fileList={uploadFiles}
+              beforeUpload={() => false}
+              onChange={({ fileList }) => setUploadFiles(fileList)}
+            >
+              <Button icon={<UploadOutlined />}>选择文件</Button>
+            </Upload>
+          </Form.Item>
+          <Form.Item
+            name="sourceName"
+            label="导入到数据源"
+            tooltip="导入到已有数据源时沿用其表结构，新字段会自动追加"
+            rules={[
+              { required: true, message: "请输入数据源名称" },
+              {
+                pattern: /^[a-z][a-z0-9_]{0,19}$/,
+                message: "只能包含小写字母、数字和下划线，以字母开头，最长20个字符",
+              },
+            ]}
+          >
+            <Input placeholder="main" />
+          </Form.Item>
+          <Form.Item name="sheetName" label="工作表" tooltip="仅 Excel 文件使用，默认读取第一个工作表">
+            <Input placeholder="Sheet1" />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
+
+export default FetchSourcesCard;
@@ -30,15 +30,18 @@ import {
   InfoCircleOutlined,
 } from "@ant-design/icons";
 import api from "../../services/api";
+import { TransformPreviewResult, TransformStep } from "../../types";
 
 const { Title, Text } = Typography;
 const { Search } = Input;
 const { Option } = Select;
 
 interface FetchedDataPreviewProps {
-  sessionId: string;
+  sessionId?: string;
   visible?: boolean;
   height?: number;
+  sampleData?: DataRecord[]; // 传入样本数据时进入转换预览模式，不读取会话数据
+  transformSteps?: TransformStep[];
 }
 
 interface DataRecord {
@@ -68,7 +71,10 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
   sessionId,
   visible = true,
   height = 400,
+  sampleData,
+  transformSteps,
 }) => {
+  const isPreviewMode = Array.isArray(sampleData);
   const [data, setData] = useState<DataRecord[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -87,6 +93,10 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
   const [detailModalVisible, setDetailModalVisible] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<DataRecord | null>(null);
   const [dataStats, setDataStats] = useState<DataStats | null>(null);
+  const [transformSummary, setTransformSummary] = useState<{
+    inputCount: number;
+    outputCount: number;
+  } | null>(null);
 
   // 加载数据统计
   const loadDataStats = useCallback(async () => {
@@ -156,6 +166,37 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
     [sessionId]
   );
 
+  // 对样本数据执行转换步骤
+  const loadTransformPreview = useCallback(async () => {
+    if (!sampleData) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await api.post("/data-fetch/transform-preview", {
+        records: sampleData.slice(0, 200),
+        transformSteps: transformSteps || [],
+      });
+
+      if (response.data.success) {
+        const { records, inputCount, outputCount } = response.data
+          .data as TransformPreviewResult;
+        setData(records);
+        setTransformSummary({ inputCount, outputCount });
+        if (records.length > 0) {
+          generateColumns(records[0]);
+        }
+      } else {
+        setError(response.data.error || "转换预览失败");
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || "网络错误");
+    } finally {
+      setLoading(false);
+    }
+  }, [sampleData, transformSteps]);
+
   // 动态生成表格列
   const generateColumns = (sampleRecord: DataRecord) => {
     const systemFields = ["id", "created_at", "updated_at"];
@@ -347,6 +388,10 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
 
   // 刷新数据
   const handleRefresh = () => {
+    if (isPreviewMode) {
+      loadTransformPreview();
+      return;
+    }
     loadData(pagination.page, pagination.pageSize, searchText, filters);
     loadDataStats();
   };
@@ -426,11 +471,18 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
 
   // 初始加载
   useEffect(() => {
-    if (visible && sessionId) {
+    if (visible && sessionId && !isPreviewMode) {
       loadData();
       loadDataStats();
     }
-  }, [sessionId, visible, loadData, loadDataStats]);
+  }, [sessionId, visible, isPreviewMode, loadData, loadDataStats]);
+
+  // 转换步骤编辑过程中延迟刷新预览
+  useEffect(() => {
+    if (!visible || !isPreviewMode) return;
+    const timer = setTimeout(loadTransformPreview, 500);
+    return () => clearTimeout(timer);
+  }, [visible, isPreviewMode, loadTransformPreview]);
 
   if (!visible) {
     return null;
@@ -438,34 +490,36 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
 
   return (
     <>
-      <Card size="small" style={{ marginBottom: 16 }}>
-        {/* 数据统计 */}
-        {dataStats && (
-          <Row gutter={16}>
-            <Col span={8}>
-              <Statistic
-                title="总记录数"
-                value={dataStats.totalRecords}
-                suffix="条"
-              />
-            </Col>
-            <Col span={8}>
-              <Statistic
-                title="字段数"
-                value={dataStats.totalFields}
-                suffix="个"
-              />
-            </Col>
-
-            <Col span={8}>
-              <Statistic
-                title="创建时间"
-                value={new Date(dataStats.created).toLocaleString()}
-              />
-            </Col>
-          </Row>
-        )}
-      </Card>
+      {!isPreviewMode && (
+        <Card size="small" style={{ marginBottom: 16 }}>
+          {/* 数据统计 */}
+          {dataStats && (
+            <Row gutter={16}>
+              <Col span={8}>
+                <Statistic
+                  title="总记录数"
+                  value={dataStats.totalRecords}
+                  suffix="条"
+                />
+              </Col>
+              <Col span={8}>
+                <Statistic
+                  title="字段数"
+                  value={dataStats.totalFields}
+                  suffix="个"
+                />
+              </Col>
+
+              <Col span={8}>
+                <Statistic
+                  title="创建时间"
+                  value={new Date(dataStats.created).toLocaleString()}
+                />
+              </Col>
+            </Row>
+          )}
+        </Card>
+      )}
 
       <Card
         title={
@@ -477,27 +531,39 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
               paddingTop: "6px",
             }}
           >
-            <Title level={5} style={{ margin: 0 }}>
-              数据预览
-            </Title>
             <Space>
-              <Search
-                placeholder="全局搜索..."
-                allowClear
-                onSearch={handleSearch}
-                style={{ width: 200 }}
-                enterButton={<SearchOutlined />}
-              />
+              <Title level={5} style={{ margin: 0 }}>
+                {isPreviewMode ? "转换预览" : "数据预览"}
+              </Title>
+              {isPreviewMode && transformSummary && (
+                <Tag color="blue">
+                  原始 {transformSummary.inputCount} 条 → 转换后{" "}
+                  {transformSummary.outputCount} 条
+                </Tag>
+              )}
+            </Space>
+            <Space>
+              {!isPreviewMode && (
+                <Search
+                  placeholder="全局搜索..."
+                  allowClear
+                  onSearch={handleSearch}
+                  style={{ width: 200 }}
+                  enterButton={<SearchOutlined />}
+                />
+              )}
               <Dropdown overlay={sizeMenu} trigger={["click"]}>
                 <Button icon={<ColumnHeightOutlined />} />
               </Dropdown>
-              <Button
-                icon={<DownloadOutlined />}
-                onClick={handleExport}
-                disabled={pagination.total === 0}
-              >
-                导出
-              </Button>
+              {!isPreviewMode && (
+                <Button
+                  icon={<DownloadOutlined />}
+                  onClick={handleExport}
+                  disabled={pagination.total === 0}
+                >
+                  导出
+                </Button>
+              )}
               <Button
                 icon={<ReloadOutlined />}
                 onClick={handleRefresh}
@@ -547,7 +613,7 @@ const FetchedDataPreview: React.FC<FetchedDataPreviewProps> = ({
               pagination={false}
               scroll={{ x: true }}
               size={tableSize}
-              rowKey="id"
+              rowKey={isPreviewMode ? (_, index) => String(index) : "id"}
               rowSelection={rowSelection}
               locale={{
                 emptyText: loading ? "加载中..." : "暂无数据",
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  Table,
+  Form,
+  Input,
+  Button,
+  Space,
+  Popconfirm,
+  Typography,
+  message,
+} from "antd";
+import { CopyOutlined, DeleteOutlined } from "@ant-design/icons";
+import api from "../../services/api";
+import { UserSecret } from "../../types";
+
+const { Text } = Typography;
+
+interface SecretManagerModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface SecretFormValues {
+  name: string;
+  value: string;
+  description?: string;
+}
+
+const SecretManagerModal: React.FC<SecretManagerModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const [form] = Form.useForm<SecretFormValues>();
+  const [secrets, setSecrets] = useState<UserSecret[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // 加载密钥列表（服务端不返回密钥值）
+  const loadSecrets = async () => {
+    setLoading(true);
+    try {
+      const response = await api.get("/secrets");
+      if (response.data.success) {
+        setSecrets(response.data.data || []);
+      }
+    } catch (error: any) {
+      message.error(
+        "加载密钥失败: " + (error.response?.data?.message || error.message)
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadSecrets();
+    }
+  }, [visible]);
+
+  const handleSave = async (values: SecretFormValues) => {
+    setSaving(true);
+    try {
+      const response = await api.put("/secrets", values);
+      if (response.data.success) {
+        message.success("密钥保存成功");
+        form.resetFields();
+        loadSecrets();
+      }
+    } catch (error: any) {
+      message.error(
+        "保存密钥失败: " + (error.response?.data?.message || error.message)
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await api.delete(`/secrets/${encodeURIComponent(name)}`);
+      message.success("密钥已删除");
+      loadSecrets();
+    } catch (error: any) {
+      message.error(
+        "删除密钥失败: " + (error.response?.data?.message || error.message)
+      );
+    }
+  };
+
+  const copyReference = (name: string) => {
+    const reference = `{{secret:${name}}}`;
+    navigator.clipboard
+      .writeText(reference)
+      .then(() => message.success(`已复制 ${reference}`))
+      .catch(() => message.error("复制失败"));
+  };
+
+  const columns = [
+    {
+      title: "名称",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string) => <Text code>{`{{secret:${name}}}`}</Text>,
+    },
+    {
+      title: "说明",
+      dataIndex: "description",
+      key: "description",
+      render: (description?: string) => description || "-",
+    },
+    {
+      title: "更新时间",
+      dataIndex: "updatedAt",
+      key: "updatedAt",
+      render: (value: string) => new Date(value).toLocaleString(),
+    },
+    {
+      title: "操作",
+      key: "action",
+      render: (_: any, record: UserSecret) => (
+        <Space>
+          <Button
+            type="text"
+            size="small"
+            icon={<CopyOutlined />}
+            onClick={() => copyReference(record.name)}
+          />
+          <Popconfirm
+            title="确定删除该密钥吗？引用它的配置将无法拉取"
+            onConfirm={() => handleDelete(record.name)}
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Modal
+      title="密钥管理"
+      open={visible}
+      onCancel={onClose}
+      footer={null}
+      width={720}
+    >
+      <Text type="secondary">
+        在请求头、查询参数或请求体中使用 {"{{secret:名称}}"}{" "}
+        引用密钥，密钥值加密保存，仅在发送请求时解析；分享或复制会话时只携带引用。
+      </Text>
+
+      <Form
+        form={form}
+        layout="inline"
+        onFinish={handleSave}
+        style={{ margin: "16px 0" }}
+      >
+        <Form.Item
+          name="name"
+          rules={[
+            { required: true, message: "请输入名称" },
+            {
+              pattern: /^[A-Za-z0-9_.-]+$/,
+              message: "只能包含字母、数字、下划线、点和中划线",
+            },
+          ]}
+        >
+          <Input placeholder="名称，如 crm_token" style={{ width: 160 }} />
+        </Form.Item>
+        <Form.Item
+          name="value"
+          rules={[{ required: true, message: "请输入密钥值" }]}
+        >
+          <Input.Password placeholder="密钥值" style={{ width: 180 }} />
+        </Form.Item>
+        <Form.Item name="description">
+          <Input placeholder="说明（可选）" style={{ width: 150 }} />
+        </Form.Item>
+        <Form.Item>
+          <Button type="primary" htmlType="submit" loading={saving}>
+            保存
+          </Button>
+        </Form.Item>
+      </Form>
+
+      <Table
+        rowKey="id"
+        size="small"
+        loading={loading}
+        columns={columns}
+        dataSource={secrets}
+        pagination={false}
+      />
+    </Modal>
+  );
+};
+
+export default SecretManagerModal;
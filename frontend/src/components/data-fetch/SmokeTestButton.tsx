@@ -9,6 +9,11 @@ interface SmokeTestButtonProps {
   headers: Record<string, string>;
   queryParams?: Record<string, string>;
   dataPath?: string;
+  paginationType?: SmokeTestRequest["paginationType"];
+  cursorPath?: string;
+  rateLimit?: SmokeTestRequest["rateLimit"];
+  variables?: SmokeTestRequest["variables"];
+  auth?: SmokeTestRequest["auth"];
   disabled?: boolean;
   onTestComplete?: (result: SmokeTestResponse) => void;
   style?: React.CSSProperties;
@@ -19,6 +24,11 @@ const SmokeTestButton: React.FC<SmokeTestButtonProps> = ({
   headers,
   queryParams = {},
   dataPath,
+  paginationType,
+  cursorPath,
+  rateLimit,
+  variables,
+  auth,
   disabled = false,
   onTestComplete,
   style,
@@ -39,6 +49,11 @@ const SmokeTestButton: React.FC<SmokeTestButtonProps> = ({
         headers,
         queryParams,
         ...(dataPath && { dataPath }),
+        ...(paginationType && { paginationType }),
+        ...(cursorPath && { cursorPath }),
+        ...(rateLimit && { rateLimit }),
+        ...(variables && { variables }),
+        ...(auth && { auth }),
       };
 
       const response = await api.post("/data-fetch/smoke-test", requestData);
@@ -50,6 +65,8 @@ const SmokeTestButton: React.FC<SmokeTestButtonProps> = ({
           message: response.data.data?.message || response.data.message,
           responseTime: response.data.data?.responseTime,
           dataStructure: response.data.data?.dataStructure,
+          nextPageToken: response.data.data?.nextPageToken,
+          suggestedCursorPaths: response.data.data?.suggestedCursorPaths,
         };
 
         message.success("冒烟测试成功！");
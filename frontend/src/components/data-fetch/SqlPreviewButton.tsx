@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Button, message } from "antd";
+import { ExperimentOutlined } from "@ant-design/icons";
+import api from "../../services/api";
+import { SmokeTestResponse, SqlPreviewRequest } from "../../types";
+
+interface SqlPreviewButtonProps extends Partial<SqlPreviewRequest> {
+  disabled?: boolean;
+  onTestComplete?: (result: SmokeTestResponse) => void;
+  style?: React.CSSProperties;
+}
+
+const SqlPreviewButton: React.FC<SqlPreviewButtonProps> = ({
+  sqlConnection,
+  sqlQuery,
+  sqlParams,
+  variables,
+  disabled = false,
+  onTestComplete,
+  style,
+}) => {
+  const [loading, setLoading] = useState(false);
+
+  const handlePreview = async () => {
+    if (!sqlConnection?.database || !sqlQuery?.trim()) {
+      message.error("请填写数据库连接和查询语句");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const requestData: SqlPreviewRequest = {
+        sqlConnection,
+        sqlQuery: sqlQuery.trim(),
+        ...(sqlParams && { sqlParams }),
+        ...(variables && { variables }),
+      };
+
+      const response = await api.post("/data-fetch/sql-preview", requestData);
+
+      if (response.data.success) {
+        const result: SmokeTestResponse = {
+          success: true,
+          data: response.data.data?.sampleData || [],
+          message: response.data.data?.message || response.data.message,
+          responseTime: response.data.data?.responseTime,
+          dataStructure: response.data.data?.dataStructure,
+        };
+
+        message.success("查询预览成功！");
+        onTestComplete?.(result);
+      } else {
+        const result: SmokeTestResponse = {
+          success: false,
+          data: [],
+          error: response.data.error,
+        };
+
+        message.error(`查询预览失败: ${response.data.error}`);
+        onTestComplete?.(result);
+      }
+    } catch (error: any) {
+      const errorMessage =
+        error.response?.data?.error ||
+        error.response?.data?.message ||
+        error.message ||
+        "网络错误";
+
+      const result: SmokeTestResponse = {
+        success: false,
+        data: [],
+        error: errorMessage,
+      };
+
+      message.error(`查询预览失败: ${errorMessage}`);
+      onTestComplete?.(result);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      type="default"
+      icon={<ExperimentOutlined />}
+      onClick={handlePreview}
+      loading={loading}
+      disabled={disabled || !sqlQuery?.trim()}
+      style={style}
+    >
+      {loading ? "查询中..." : "预览查询"}
+    </Button>
+  );
+};
+
+export default SqlPreviewButton;
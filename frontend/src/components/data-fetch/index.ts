@@ -5,4 +5,8 @@ export { default as FetchConfigWrapper } from './FetchConfigWrapper';
 export { default as FetchModeSelector } from './FetchModeSelector';
 export { default as SmokeTestButton } from './SmokeTestButton';
 export { default as CurlParserModal } from './CurlParserModal';
-export { default as FetchedDataPreview } from './FetchedDataPreview';
\ No newline at end of file
+export { default as FetchedDataPreview } from './FetchedDataPreview';
+export { default as FetchScheduleCard } from './FetchScheduleCard';
+export { default as FetchRunHistory } from './FetchRunHistory';
+export { default as FetchSourcesCard } from './FetchSourcesCard';
+export { default as SecretManagerModal } from './SecretManagerModal';
\ No newline at end of file
@@ -1,10 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import api from '../services/api';
 
 interface AuthContextType {
   isAuthenticated: boolean | null;
   user: any;
-  login: (token: string, user: any) => void;
-  logout: () => void;
+  login: (token: string, user: any, refreshToken?: string) => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,24 +24,56 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     } else {
       setIsAuthenticated(false);
     }
+
+    // 刷新令牌失效时由 api 拦截器触发
+    const handleExpired = () => {
+      setIsAuthenticated(false);
+      setUser(null);
+    };
+    window.addEventListener('auth:logout', handleExpired);
+    return () => window.removeEventListener('auth:logout', handleExpired);
   }, []);
 
-  const login = (token: string, userData: any) => {
+  const login = (token: string, userData: any, refreshToken?: string) => {
     localStorage.setItem('token', token);
+    if (refreshToken) {
+      localStorage.setItem('refreshToken', refreshToken);
+    }
     localStorage.setItem('user', JSON.stringify(userData));
     setIsAuthenticated(true);
     setUser(userData);
   };
 
-  const logout = () => {
+  const clearSession = () => {
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
     setIsAuthenticated(false);
     setUser(null);
   };
 
+  const logout = async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    try {
+      if (refreshToken) {
+        await api.post('/auth/logout', { refreshToken });
+      }
+    } catch (error) {
+      // 服务端吊销失败时仍清除本地登录状态
+      console.error('退出登录失败:', error);
+    } finally {
+      clearSession();
+    }
+  };
+
+  // 吊销当前用户在所有设备上的登录，失败时保留登录状态由调用方提示
+  const logoutAll = async () => {
+    await api.post('/auth/logout-all');
+    clearSession();
+  };
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, logoutAll }}>
       {children}
     </AuthContext.Provider>
   );
@@ -51,4 +85,4 @@ export const useAuth = () => {
     throw new Error('useAuth must be used within AuthProvider');
   }
   return context;
-};
\ No newline at end of file
+};
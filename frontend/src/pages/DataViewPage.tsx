@@ -23,6 +23,7 @@ import {
   TagsOutlined,
 } from '@ant-design/icons';
 import { DataTable } from '../components/data-analysis/DataTable';
+import { FetchScheduleCard, FetchRunHistory, FetchSourcesCard } from '../components/data-fetch';
 import api from '../services/api';
 import { DataSession } from '../types';
 
@@ -274,6 +275,21 @@ const DataViewPage: React.FC = () => {
         </Card>
       )}
 
+      {/* 数据源 */}
+      {fetchConfig && sessionId && (
+        <FetchSourcesCard sessionId={sessionId} style={{ marginBottom: 16 }} />
+      )}
+
+      {/* 定时拉取 */}
+      {fetchConfig && sessionId && (
+        <FetchScheduleCard sessionId={sessionId} style={{ marginBottom: 16 }} />
+      )}
+
+      {/* 拉取记录 */}
+      {fetchConfig && sessionId && (
+        <FetchRunHistory sessionId={sessionId} style={{ marginBottom: 16 }} />
+      )}
+
       {/* 数据统计 */}
       {dataStats ? (
         <Card title="数据统计" style={{ marginBottom: 16 }}>
@@ -19,8 +19,8 @@ const LoginPage: React.FC = () => {
       const response = await api.post('/auth/login', values);
       
       if (response.data.success) {
-        const { token, user } = response.data.data;
-        login(token, user);
+        const { token, refreshToken, user } = response.data.data;
+        login(token, user, refreshToken);
         message.success('登录成功');
         navigate('/');
       }
@@ -37,8 +37,8 @@ const LoginPage: React.FC = () => {
       const response = await api.post('/auth/register', values);
       
       if (response.data.success) {
-        const { token, user } = response.data.data;
-        login(token, user);
+        const { token, refreshToken, user } = response.data.data;
+        login(token, user, refreshToken);
         message.success('注册成功');
         navigate('/');
       }
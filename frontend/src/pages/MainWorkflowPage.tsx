@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { Row, Col, Layout, Button, Space, message, Card } from "antd";
 import { UnorderedListOutlined } from "@ant-design/icons";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import FetchConfigWrapper from "../components/data-fetch/FetchConfigWrapper";
 import FetchResultTable from "../components/data-fetch/FetchResultTable";
 import WorkflowSteps from "../components/common/WorkflowSteps";
@@ -13,6 +13,8 @@ const { Content } = Layout;
 const MainWorkflowPage: React.FC = () => {
   const navigate = useNavigate();
   const { sessionId } = useParams<{ sessionId?: string }>();
+  const [searchParams] = useSearchParams();
+  const workspaceId = searchParams.get("workspaceId"); // 从工作区创建会话时携带
   const [currentConfig, setCurrentConfig] = useState<FetchConfig | null>(null);
   const [smokeTestResult, setSmokeTestResult] =
     useState<SmokeTestResponse | null>(null);
@@ -75,6 +77,7 @@ const MainWorkflowPage: React.FC = () => {
       if (!targetSessionId) {
         const sessionResponse = await api.post("/data-session", {
           name: `数据拉取会话 - ${new Date().toLocaleString()}`,
+          workspaceId: workspaceId || undefined,
         });
 
         if (!sessionResponse.data.success) {
@@ -115,6 +118,7 @@ const MainWorkflowPage: React.FC = () => {
       if (!targetSessionId) {
         const sessionResponse = await api.post("/data-session", {
           name: `数据拉取会话 - ${new Date().toLocaleString()}`,
+          workspaceId: workspaceId || undefined,
         });
 
         if (!sessionResponse.data.success) {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Table,
   Card,
@@ -19,10 +19,15 @@ import {
   SearchOutlined,
   ReloadOutlined,
   ShareAltOutlined,
+  TeamOutlined,
+  SwapOutlined,
 } from "@ant-design/icons";
 import { useNavigate } from "react-router-dom";
 import api from "../services/api";
-import { DataSession } from "../types";
+import { DataSession, Workspace } from "../types";
+import WorkspaceManagerModal, {
+  renderWorkspaceRole,
+} from "../components/common/WorkspaceManagerModal";
 
 const { Title } = Typography;
 const { Search } = Input;
@@ -39,6 +44,14 @@ const SessionListPage: React.FC = () => {
     null
   );
   const [form] = Form.useForm();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string>(""); // 为空时为个人空间
+  const [workspaceModalVisible, setWorkspaceModalVisible] = useState(false);
+  const [movingSession, setMovingSession] = useState<DataSession | null>(null);
+  const [moveTarget, setMoveTarget] = useState<string>("");
+
+  const currentWorkspace = workspaces.find(w => w.id === workspaceId);
+  const canCreate = !currentWorkspace || currentWorkspace.role !== "viewer";
 
   // 分页状态
   const [pagination, setPagination] = useState({
@@ -57,6 +70,7 @@ const SessionListPage: React.FC = () => {
           pageSize,
           search: searchText || undefined,
           status: statusFilter || undefined,
+          workspaceId: workspaceId || undefined,
         },
       });
 
@@ -88,6 +102,41 @@ const SessionListPage: React.FC = () => {
     }
   };
 
+  // 加载当前用户加入的工作区
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const response = await api.get("/workspaces");
+      if (response.data.success) {
+        const data: Workspace[] = response.data.data || [];
+        setWorkspaces(data);
+        // 已退出或删除的工作区回到个人空间
+        setWorkspaceId(current =>
+          current && !data.some(w => w.id === current) ? "" : current
+        );
+      }
+    } catch (error: any) {
+      console.error("Failed to load workspaces:", error);
+    }
+  }, []);
+
+  // 移动会话到工作区或个人空间
+  const handleMove = async () => {
+    if (!movingSession) return;
+    try {
+      const response = await api.put(
+        `/data-session/${movingSession.id}/workspace`,
+        { workspaceId: moveTarget || null }
+      );
+      if (response.data.success) {
+        message.success(response.data.message || "会话已移动");
+        setMovingSession(null);
+        loadSessions(pagination.current, pagination.pageSize);
+      }
+    } catch (error: any) {
+      message.error(error.response?.data?.message || "移动会话失败");
+    }
+  };
+
   // 删除会话
   const handleDelete = async (sessionId: string) => {
     try {
@@ -110,9 +159,9 @@ const SessionListPage: React.FC = () => {
     navigate(`/workflow/${sessionId}`);
   };
 
-  // 创建新会话
+  // 创建新会话，在工作区中创建时带上工作区ID
   const handleCreateNew = () => {
-    navigate("/");
+    navigate(workspaceId ? `/?workspaceId=${workspaceId}` : "/");
   };
 
   // 分享会话
@@ -206,6 +255,17 @@ const SessionListPage: React.FC = () => {
       width: 100,
       render: renderStatus,
     },
+    ...(workspaceId
+      ? [
+          {
+            title: "我的角色",
+            dataIndex: "role",
+            key: "role",
+            width: 100,
+            render: renderWorkspaceRole,
+          },
+        ]
+      : []),
     {
       title: "创建时间",
       dataIndex: "createdAt",
@@ -223,10 +283,23 @@ const SessionListPage: React.FC = () => {
     {
       title: "操作",
       key: "action",
-      width: 160,
+      width: 220,
       render: (_: any, record: DataSession) => (
         <Space size="small">
-          {record.isShared ? (
+          {record.role === "owner" && (
+            <Button
+              type="link"
+              size="small"
+              icon={<SwapOutlined />}
+              onClick={() => {
+                setMovingSession(record);
+                setMoveTarget(record.workspaceId || "");
+              }}
+            >
+              移动
+            </Button>
+          )}
+          {record.workspaceId ? null : record.isShared ? (
             <Popconfirm
               title="确定要取消分享吗？"
               description="取消后该数据集将不在数据市场展示。"
@@ -248,17 +321,19 @@ const SessionListPage: React.FC = () => {
               分享
             </Button>
           )}
-          <Popconfirm
-            title="确定要删除这个会话吗？"
-            description="删除后将无法恢复，包括所有相关数据。"
-            onConfirm={() => handleDelete(record.id)}
-            okText="确定"
-            cancelText="取消"
-          >
-            <Button type="link" size="small" danger icon={<DeleteOutlined />}>
-              删除
-            </Button>
-          </Popconfirm>
+          {record.role === "owner" && (
+            <Popconfirm
+              title="确定要删除这个会话吗？"
+              description="删除后将无法恢复，包括所有相关数据。"
+              onConfirm={() => handleDelete(record.id)}
+              okText="确定"
+              cancelText="取消"
+            >
+              <Button type="link" size="small" danger icon={<DeleteOutlined />}>
+                删除
+              </Button>
+            </Popconfirm>
+          )}
         </Space>
       ),
     },
@@ -267,13 +342,26 @@ const SessionListPage: React.FC = () => {
   // 初始加载
   useEffect(() => {
     loadSessions(1, pagination.pageSize); // 搜索或筛选时回到第一页
-  }, [searchText, statusFilter]);
+  }, [searchText, statusFilter, workspaceId]);
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, [loadWorkspaces]);
 
   return (
     <div style={{ padding: "24px" }}>
       {/* 搜索和筛选 */}
       <Card style={{ marginBottom: 16 }}>
         <Space size="large">
+          <Select
+            style={{ width: 200 }}
+            value={workspaceId}
+            onChange={setWorkspaceId}
+            options={[
+              { value: "", label: "个人空间" },
+              ...workspaces.map(w => ({ value: w.id, label: w.name })),
+            ]}
+          />
           <Search
             placeholder="搜索会话名称..."
             allowClear
@@ -292,6 +380,12 @@ const SessionListPage: React.FC = () => {
             <Option value="fetched">已拉取</Option>
             <Option value="analyzed">已分析</Option>
           </Select>
+          <Button
+            icon={<TeamOutlined />}
+            onClick={() => setWorkspaceModalVisible(true)}
+          >
+            管理工作区
+          </Button>
         </Space>
       </Card>
 
@@ -309,6 +403,7 @@ const SessionListPage: React.FC = () => {
             type="primary"
             icon={<PlusOutlined />}
             onClick={handleCreateNew}
+            disabled={!canCreate}
           >
             创建新会话
           </Button>
@@ -338,6 +433,35 @@ const SessionListPage: React.FC = () => {
         />
       </Card>
 
+      {/* 工作区管理 */}
+      <WorkspaceManagerModal
+        visible={workspaceModalVisible}
+        onClose={() => setWorkspaceModalVisible(false)}
+        onChanged={loadWorkspaces}
+      />
+
+      {/* 移动会话对话框 */}
+      <Modal
+        title={`移动会话「${movingSession?.name || ""}」`}
+        open={!!movingSession}
+        onCancel={() => setMovingSession(null)}
+        onOk={handleMove}
+        okText="移动"
+        cancelText="取消"
+      >
+        <Select
+          style={{ width: "100%" }}
+          value={moveTarget}
+          onChange={setMoveTarget}
+          options={[
+            { value: "", label: "创建者的个人空间" },
+            ...workspaces
+              .filter(w => w.role !== "viewer")
+              .map(w => ({ value: w.id, label: w.name })),
+          ]}
+        />
+      </Modal>
+
       {/* 分享对话框 */}
       <Modal
         title="分享会话到数据市场"
@@ -13,6 +13,7 @@ import {
   Statistic,
   Progress,
   Alert,
+  Tag,
 } from "antd";
 import {
   ArrowLeftOutlined,
@@ -347,6 +348,7 @@ const WorkflowPage: React.FC = () => {
           <Title level={3} style={{ margin: 0 }}>
             {session.name}
           </Title>
+          {session.role === "viewer" && <Tag>只读</Tag>}
         </Space>
       </div>
 
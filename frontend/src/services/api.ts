@@ -1,4 +1,4 @@
-import axios from "axios";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 
 const api = axios.create({
   baseURL:
@@ -32,12 +32,82 @@ api.interceptors.request.use(
   }
 );
 
+// 这些接口返回 401 时不触发刷新
+const AUTH_URLS = ["/auth/login", "/auth/register", "/auth/refresh", "/auth/logout"];
+
+// 正在进行的刷新请求，并发的 401 共用同一次刷新
+let refreshPromise: Promise<string> | null = null;
+
+// 各标签页共用 localStorage 中的刷新令牌，刷新时持有该锁，避免同一令牌被并发轮换
+const REFRESH_LOCK_NAME = "auth:refresh";
+
+const clearAuth = () => {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+  localStorage.removeItem("user");
+  // 通知 AuthContext 同步登录状态
+  window.dispatchEvent(new Event("auth:logout"));
+};
+
+// 使用刷新令牌换取新的访问令牌，刷新令牌同时轮换
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const staleRefreshToken = localStorage.getItem("refreshToken");
+    const refresh = (): Promise<string> => {
+      const refreshToken = localStorage.getItem("refreshToken");
+      // 等待锁期间其他标签页已完成刷新，直接使用新的访问令牌
+      if (refreshToken && refreshToken !== staleRefreshToken) {
+        return Promise.resolve(localStorage.getItem("token") as string);
+      }
+      return refreshToken
+        ? axios
+            .post(`${api.defaults.baseURL}/auth/refresh`, { refreshToken }, { withCredentials: true })
+            .then(response => {
+              const { token, refreshToken: nextRefreshToken } = response.data.data;
+              localStorage.setItem("token", token);
+              localStorage.setItem("refreshToken", nextRefreshToken);
+              return token as string;
+            })
+        : Promise.reject(new Error("未登录"));
+    };
+    refreshPromise = (
+      navigator.locks ? (navigator.locks.request(REFRESH_LOCK_NAME, refresh) as Promise<string>) : refresh()
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // 响应拦截器
 api.interceptors.response.use(
   response => {
     return response;
   },
-  error => {
+  async (error: AxiosError) => {
+    const config = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isAuthUrl = AUTH_URLS.some(url => config?.url?.startsWith(url));
+
+    // 访问令牌过期时静默刷新并重试原请求
+    if (error.response?.status === 401 && config && !config._retry && !isAuthUrl) {
+      config._retry = true;
+      try {
+        const token = await refreshAccessToken();
+        config.headers.Authorization = `Bearer ${token}`;
+        return api(config);
+      } catch (refreshError) {
+        // 网络异常时保留登录状态，刷新令牌被拒绝时才退出登录
+        const status = axios.isAxiosError(refreshError) ? refreshError.response?.status : undefined;
+        if (!axios.isAxiosError(refreshError) || status === 400 || status === 401) {
+          clearAuth();
+          if (window.location.pathname !== "/login") {
+            window.location.href = "/login";
+          }
+        }
+        return Promise.reject(error);
+      }
+    }
+
     console.error("API错误:", error.response?.data || error.message);
     return Promise.reject(error);
   }
@@ -6,6 +6,30 @@ export interface DataSession {
   createdAt: string;
   updatedAt: string;
   isShared?: boolean;
+  workspaceId?: string | null; // 所属工作区，为空时为个人会话
+  role?: WorkspaceRole; // 当前用户对会话的角色
+}
+
+// 工作区角色：所有者管理成员和删除会话，编辑者修改会话，查看者只读
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  nickname?: string;
+  email: string;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  description?: string;
+  role: WorkspaceRole;
+  members?: WorkspaceMember[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 // 拉取配置相关类型
@@ -13,16 +37,174 @@ export interface FetchConfig {
   id?: string;
   sessionId?: string;
   name?: string; // 配置名称，选填
+  sourceName?: string; // 数据源名称，默认 'main'
+  joinField?: string; // 附加数据源的关联字段
+  primaryJoinField?: string; // 主数据源中对应的关联字段
+  sourceType?: 'api' | 'graphql' | 'sql'; // 数据源类型，默认 'api'
   apiUrl: string;
+  graphqlQuery?: string; // GraphQL 查询语句
+  graphqlVariables?: Record<string, any>; // GraphQL 变量，分页字段和游标参数写入其中
+  sqlConnection?: SqlConnectionConfig; // SQL 数据源的连接定义
+  sqlQuery?: string; // 只读查询，以 :name 引用参数
+  sqlParams?: Record<string, any>; // 查询参数，值支持 {{var.name}} 等模板
   headers: Record<string, string>;
   queryParams?: Record<string, string>;
   enablePagination: boolean;
-  paginationType?: 'page' | 'offset'; // 分页方式：页码方式或索引方式
+  paginationType?: 'page' | 'offset' | 'cursor' | 'next_url' | 'relay'; // 分页方式：页码、索引、游标、下一页链接或 Relay pageInfo
   pageField?: string; // 分页字段名，如 'page', 'pageNum' 等
   totalField?: string; // 总数字段名，如 'total', 'totalCount' 等，用于显示进度
   pageSize?: number;
   stepSize?: number; // 索引方式下的步长
+  cursorPath?: string; // 游标/下一页链接在响应中的路径，如 'meta.next_cursor'
+  cursorParam?: string; // 游标在下一次请求中的字段名
+  cursorLocation?: 'query' | 'body'; // 游标放在查询参数或请求体中
   dataPath?: string; // 数据路径，如 'data.list' 或 'result.items'
+  incrementalMode?: boolean; // 增量拉取：遇到已存在的数据即停止翻页
+  watermarkField?: string; // 水位字段，如 'updated_at'
+  rateLimit?: RateLimitPolicy; // 限流与退避策略
+  variables?: Record<string, string>; // 会话变量，以 {{var.name}} 引用
+  auth?: FetchAuthConfig; // 认证方式
+  explodeFields?: ExplodeField[]; // 拆分到子表的嵌套数组
+  transformSteps?: TransformStep[]; // 写入前依次执行的转换步骤
+}
+
+// 转换步骤：重命名、删除、类型转换、计算字段和过滤，表达式引用字段名并支持 lower、round、if 等函数
+export interface TransformStep {
+  type: 'rename' | 'drop' | 'cast' | 'compute' | 'filter';
+  field?: string; // 重命名的原字段、类型转换或计算结果字段
+  to?: string; // 重命名后的字段
+  fields?: string[]; // 删除的字段
+  castType?: 'number' | 'integer' | 'boolean' | 'string' | 'date';
+  format?: string; // 日期格式，如 DD/MM/YYYY HH:mm，或 unix、unix_ms
+  expression?: string; // 计算或过滤表达式
+}
+
+// 转换预览结果
+export interface TransformPreviewResult {
+  records: any[];
+  inputCount: number;
+  outputCount: number;
+}
+
+// 嵌套数组拆分：记录中 path 处的对象数组写入子表，查询时以 子表名.字段名 引用
+export interface ExplodeField {
+  path: string;
+  name: string;
+}
+
+// 用户密钥（不包含密钥值），配置中以 {{secret:name}} 引用
+export interface UserSecret {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 请求限流与退避策略
+export interface RateLimitPolicy {
+  requestsPerSecond?: number; // 每秒最大请求数
+  maxConcurrency?: number; // 最大并发请求数
+  maxRetries?: number; // 最大重试次数
+  initialBackoffMs?: number; // 指数退避初始等待（毫秒）
+  maxBackoffMs?: number; // 单次等待上限（毫秒），同样限制 Retry-After
+}
+
+// 请求认证配置，凭据字段可使用 {{secret:name}} 引用
+export interface FetchAuthConfig {
+  type: 'none' | 'basic' | 'bearer' | 'api_key' | 'oauth2_client_credentials';
+  username?: string;
+  password?: string;
+  token?: string;
+  apiKeyName?: string; // 默认 X-API-Key
+  apiKey?: string;
+  apiKeyLocation?: 'header' | 'query';
+  tokenUrl?: string; // OAuth2 令牌地址
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  audience?: string;
+  clientAuthMethod?: 'basic' | 'body';
+}
+
+// SQL 数据源连接，密码可使用 {{secret:名称}} 引用
+export interface SqlConnectionConfig {
+  type: 'postgres' | 'mysql' | 'sqlite';
+  host?: string;
+  port?: number;
+  username?: string;
+  password?: string;
+  database: string; // SQLite 为服务端允许目录下的文件路径
+  ssl?: boolean;
+}
+
+// 会话数据源，附加数据源的字段以 `数据源名.字段名` 参与查询
+export interface FetchSource {
+  sourceName: string;
+  tableName: string;
+  sourceType: 'api' | 'file' | 'graphql' | 'sql'; // 接口拉取、上传文件导入、GraphQL 接口或外部数据库
+  apiUrl: string;
+  fileName?: string; // 文件数据源最近一次上传的文件名
+  sqlConnection?: string; // SQL 数据源的连接描述，不含账号密码
+  joinField?: string;
+  primaryJoinField?: string;
+  childSources: string[]; // 由嵌套数组拆分出的子表
+  hasData: boolean;
+}
+
+// 定时拉取相关类型
+export interface FetchSchedule {
+  id?: string;
+  sessionId?: string;
+  scheduleType: 'cron' | 'interval';
+  cronExpression?: string; // cron 表达式，如 '0 8 * * *'
+  intervalMinutes?: number; // 固定间隔（分钟）
+  timezone: string;
+  enabled: boolean;
+  lastRunAt?: string;
+  nextRunAt?: string;
+}
+
+export interface FetchRun {
+  id: string;
+  sessionId: string;
+  trigger: 'manual' | 'schedule' | 'upload';
+  status: 'running' | 'success' | 'failed';
+  pagesProcessed: number;
+  totalRecords: number;
+  recordsInserted: number;
+  duplicatesSkipped: number; // 因 data_hash 重复而跳过的记录数
+  schemaChanges?: SchemaChange[]; // 本次运行自动新增的字段和放宽的字段类型
+  errorMessage?: string;
+  startedAt: string;
+  finishedAt?: string;
+  pages?: FetchRunPage[];
+}
+
+export interface SchemaChange {
+  field: string;
+  action: 'add_column' | 'widen_type';
+  fromType?: string;
+  toType: string;
+}
+
+export interface FetchRunPage {
+  id: string;
+  runId: string;
+  pageNumber: number;
+  requestMethod: string;
+  requestUrl: string;
+  requestParams?: Record<string, any>;
+  requestBody?: string;
+  responseStatus?: number;
+  responseSize?: number;
+  responsePreview?: string;
+  durationMs?: number;
+  recordsReceived: number;
+  recordsInserted: number;
+  duplicatesSkipped: number;
+  errorMessage?: string;
+  createdAt: string;
 }
 
 // 冒烟测试相关类型
@@ -32,6 +214,27 @@ export interface SmokeTestRequest {
   queryParams?: Record<string, string>;
   pageSize?: number;
   dataPath?: string;
+  paginationType?: FetchConfig['paginationType'];
+  cursorPath?: string;
+  rateLimit?: RateLimitPolicy;
+  variables?: Record<string, string>;
+  auth?: FetchAuthConfig;
+}
+
+// SQL 查询预览请求
+export interface SqlPreviewRequest {
+  sqlConnection: SqlConnectionConfig;
+  sqlQuery: string;
+  sqlParams?: Record<string, any>;
+  variables?: Record<string, string>;
+}
+
+// 请求模板预览结果（密钥引用保持原样）
+export interface RequestTemplatePreview {
+  url: string;
+  headers: Record<string, string>;
+  params: Record<string, any>;
+  data?: any;
 }
 
 export interface SmokeTestResponse {
@@ -49,6 +252,8 @@ export interface SmokeTestResponse {
     totalFields: number;
   };
   suggestedPageFields?: string[]; // 建议的分页字段
+  nextPageToken?: string | null; // 游标/下一页链接方式下读取到的下一页令牌
+  suggestedCursorPaths?: string[]; // 建议的游标路径
 }
 
 // Curl解析相关类型
@@ -129,6 +334,7 @@ export interface QueryOptions {
   page?: number;
   pageSize?: number;
   fields?: string[];
+  sources?: string[]; // 需要关联的附加数据源
 }
 
 export interface QueryResult {
@@ -186,6 +392,57 @@ export interface ChartConfig {
   filters?: FilterCondition[];
 }
 
+// 透视表
+export type PivotAggregation =
+  | 'sum'
+  | 'avg'
+  | 'count'
+  | 'count_distinct'
+  | 'min'
+  | 'max';
+
+export interface PivotMeasure {
+  field?: string; // 计数时可省略，表示统计记录数
+  aggregation: PivotAggregation;
+  label?: string;
+}
+
+export interface PivotHeader {
+  key: string;
+  values: any[];
+  level: number;
+  type: 'item' | 'subtotal' | 'total';
+}
+
+export interface PivotResult {
+  rowFields: Array<{ name: string; label: string; type: string }>;
+  columnFields: Array<{ name: string; label: string; type: string }>;
+  measures: Array<PivotMeasure & { key: string; label: string }>;
+  rows: PivotHeader[];
+  columns: PivotHeader[];
+  cells: Record<string, Record<string, Array<number | string | null>>>;
+}
+
+// 数据导出
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson' | 'parquet';
+
+export interface ExportJob {
+  id: string;
+  sessionId: string;
+  format: ExportFormat;
+  fileName: string;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  totalRows: number;
+  exportedRows: number;
+  percentage: number;
+  fileSize?: number;
+  error?: string;
+  downloadUrl?: string;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+}
+
 // 分页相关类型
 export interface Pagination {
   page: number;